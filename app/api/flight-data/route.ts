@@ -1,8 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { FlightTrackingService, defaultFlightTrackingConfig } from '@/lib/flight-tracking';
+import {
+  FlightTrackingEvent,
+  FlightTrackingEventType,
+  defaultFlightTrackingConfig,
+  getFlightTrackingService
+} from '@/lib/flight-tracking';
+import { getFleetRepository } from '@/lib/fleet-repository';
+import { getFlightSegmentDetector } from '@/lib/flight-log';
+import { getFlightTrack, getLatestFlight, getTrack, getTrackRecorder, toTrackGeoJSON, toTrackKml } from '@/lib/track-history';
+import { AircraftPosition, FlightHistory } from '@/types';
 
-// Initialize flight tracking service
-const flightService = new FlightTrackingService(defaultFlightTrackingConfig);
+// Shared flight tracking service (the maintenance routes subscribe to the same events)
+const flightService = getFlightTrackingService();
+const flightDetector = getFlightSegmentDetector();
+getTrackRecorder();
+
+const EVENT_TYPES: FlightTrackingEventType[] = ['POSITION_UPDATE', 'PHASE_CHANGE', 'TAKEOFF', 'LANDING', 'STALE_DATA', 'MAINTENANCE_ALERT'];
+
+// Live stream settings
+const STREAM_EVENT_TYPES: FlightTrackingEventType[] = ['POSITION_UPDATE', 'TAKEOFF', 'LANDING', 'STALE_DATA', 'MAINTENANCE_ALERT'];
+const STREAM_RETRY_MS = 5000;
+const STREAM_HEARTBEAT_MS = 15000;
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
@@ -19,9 +37,25 @@ export async function GET(request: NextRequest) {
       case 'flight-history':
         return await getFlightHistory(searchParams);
       
+      case 'flight-track':
+        return await getFlightTrackResponse(searchParams);
+      
+      case 'events':
+        return getTrackingEvents(searchParams);
+      
+      case 'stream':
+        return await streamFleetUpdates(request, searchParams);
+      
+      case 'provider-status':
+        return NextResponse.json({
+          success: true,
+          data: flightService.getProviderStatus(),
+          timestamp: new Date().toISOString()
+        });
+      
       default:
         return NextResponse.json(
-          { error: 'Invalid action. Use: fleet-positions, aircraft-data, or flight-history' },
+          { error: 'Invalid action. Use: fleet-positions, aircraft-data, flight-history, flight-track, events, stream, or provider-status' },
           { status: 400 }
         );
     }
@@ -34,9 +68,24 @@ export async function GET(request: NextRequest) {
   }
 }
 
+// The fleet, with its ICAO addresses registered so receiver data resolves to tail numbers
+async function loadFleet() {
+  const fleetRepository = await getFleetRepository();
+  const fleet = await fleetRepository.listAircraft();
+  flightService.registerAircraft(fleet);
+  return fleet;
+}
+
+// Aircraft named in the tailNumbers param (comma-separated), or the whole fleet
+async function resolveFleet(searchParams: URLSearchParams) {
+  const fleet = await loadFleet();
+  const requested = searchParams.get('tailNumbers')?.split(',').map(tail => tail.trim().toUpperCase());
+  
+  return requested ? fleet.filter(aircraft => requested.includes(aircraft.tailNumber.toUpperCase())) : fleet;
+}
+
 async function getFleetPositions(searchParams: URLSearchParams) {
-  // Get tail numbers from query params (comma-separated)
-  const tailNumbers = searchParams.get('tailNumbers')?.split(',') || ['N123AB', 'N456CD', 'N789XY'];
+  const tailNumbers = (await resolveFleet(searchParams)).map(aircraft => aircraft.tailNumber);
   
   const positions = await flightService.getFleetPositions(tailNumbers);
   
@@ -58,6 +107,7 @@ async function getAircraftData(searchParams: URLSearchParams) {
     );
   }
   
+  await loadFleet();
   const flightData = await flightService.getAircraftFlightData(tailNumber);
   
   if (!flightData) {
@@ -69,11 +119,225 @@ async function getAircraftData(searchParams: URLSearchParams) {
   
   return NextResponse.json({
     success: true,
-    data: flightData,
+    data: flightDetector.describeCurrentFlight(flightData),
     timestamp: new Date().toISOString()
   });
 }
 
+// Stored track of a flight (flightId), of a time window (tailNumber, from, to), or of an aircraft's
+// latest logged flight (tailNumber alone), as JSON for the map replay, GeoJSON or KML
+async function getFlightTrackResponse(searchParams: URLSearchParams) {
+  const flightId = searchParams.get('flightId');
+  const tailNumber = searchParams.get('tailNumber');
+  const format = (searchParams.get('format') || 'json').toLowerCase();
+  
+  if (!flightId && !tailNumber) {
+    return NextResponse.json(
+      { error: 'flightId or tailNumber parameter is required' },
+      { status: 400 }
+    );
+  }
+  if (!['json', 'geojson', 'kml'].includes(format)) {
+    return NextResponse.json(
+      { error: 'format must be json, geojson or kml' },
+      { status: 400 }
+    );
+  }
+  
+  const fleetRepository = await getFleetRepository();
+  let track;
+  
+  if (flightId) {
+    track = await getFlightTrack(fleetRepository, flightId);
+  } else {
+    const aircraft = await fleetRepository.findAircraftByTailNumber(tailNumber!);
+    if (!aircraft) {
+      return NextResponse.json(
+        { error: `Aircraft ${tailNumber} not found` },
+        { status: 404 }
+      );
+    }
+    
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    if (from || to) {
+      const start = new Date(from || 0);
+      const end = to ? new Date(to) : new Date();
+      if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || start > end) {
+        return NextResponse.json(
+          { error: 'from and to must be ISO 8601 times with from before to' },
+          { status: 400 }
+        );
+      }
+      track = await getTrack(fleetRepository, aircraft.id, aircraft.tailNumber, start, end);
+    } else {
+      const latest = await getLatestFlight(fleetRepository, aircraft.id);
+      track = latest ? await getFlightTrack(fleetRepository, latest.id) : null;
+    }
+  }
+  
+  if (!track) {
+    return NextResponse.json(
+      { error: flightId ? `Flight ${flightId} not found` : `No logged flights for ${tailNumber}` },
+      { status: 404 }
+    );
+  }
+  
+  const filename = track.flightId || `${track.tailNumber}-${track.from.toISOString().slice(0, 10)}`;
+  
+  if (format === 'geojson') {
+    return new Response(JSON.stringify(toTrackGeoJSON(track)), {
+      headers: {
+        'Content-Type': 'application/geo+json',
+        'Content-Disposition': `attachment; filename="${filename}.geojson"`
+      }
+    });
+  }
+  if (format === 'kml') {
+    return new Response(toTrackKml(track), {
+      headers: {
+        'Content-Type': 'application/vnd.google-earth.kml+xml',
+        'Content-Disposition': `attachment; filename="${filename}.kml"`
+      }
+    });
+  }
+  
+  return NextResponse.json({
+    success: true,
+    data: track,
+    timestamp: new Date().toISOString()
+  });
+}
+
+// Tracking events after the given id, so clients can poll without missing transitions
+function getTrackingEvents(searchParams: URLSearchParams) {
+  const since = parseInt(searchParams.get('since') || '0');
+  const types = searchParams.get('types')?.split(',').map(type => type.trim().toUpperCase()) as FlightTrackingEventType[] | undefined;
+  const tailNumbers = searchParams.get('tailNumbers')?.split(',').map(tail => tail.trim());
+  
+  const invalidTypes = (types || []).filter(type => !EVENT_TYPES.includes(type));
+  if (Number.isNaN(since) || invalidTypes.length > 0) {
+    return NextResponse.json(
+      { error: invalidTypes.length > 0 ? `Unknown event type(s): ${invalidTypes.join(', ')}. Use: ${EVENT_TYPES.join(', ')}` : 'since must be an event id' },
+      { status: 400 }
+    );
+  }
+  
+  const events = flightService.getRecentEvents(since, { types, tailNumbers });
+  
+  return NextResponse.json({
+    success: true,
+    data: {
+      events,
+      lastEventId: flightService.getLastEventId(),
+      tracking: flightService.getTrackedAircraft()
+    },
+    timestamp: new Date().toISOString()
+  });
+}
+
+// Fields that make a position worth pushing; unchanged positions are not resent
+function positionKey(position: AircraftPosition): string {
+  return [
+    position.latitude.toFixed(4),
+    position.longitude.toFixed(4),
+    position.altitude,
+    position.heading,
+    position.groundSpeed,
+    position.flightPhase,
+    position.airport
+  ].join('|');
+}
+
+// Server-Sent Events stream of position deltas, takeoffs, landings, stale data and maintenance alerts.
+// Event ids are tracking event ids, so a reconnecting EventSource resumes after its Last-Event-ID;
+// new connections, and ids that are no longer buffered, start with a snapshot of the fleet.
+// Each connection holds tracking of its aircraft until it closes, so polling stops with the last client.
+async function streamFleetUpdates(request: NextRequest, searchParams: URLSearchParams) {
+  const aircraft = await resolveFleet(searchParams);
+  const tailNumbers = aircraft.map(entry => entry.tailNumber);
+  
+  const lastEventId = parseInt(request.headers.get('last-event-id') || searchParams.get('lastEventId') || '');
+  const resume = !Number.isNaN(lastEventId) && flightService.canResumeFrom(lastEventId);
+  const startId = resume ? lastEventId : flightService.getLastEventId();
+  const snapshot = resume ? null : await flightService.getFleetPositions(tailNumbers);
+  const filter = { types: STREAM_EVENT_TYPES, tailNumbers };
+  
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+  
+  const stream = new ReadableStream({
+    start(controller) {
+      const lastSent = new Map<string, string>();
+      let closed = false;
+      
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const send = (event: string, data: unknown, id: number) => {
+        write(`id: ${id}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+      
+      const forward = (event: FlightTrackingEvent) => {
+        switch (event.type) {
+          case 'POSITION_UPDATE': {
+            const key = positionKey(event.position);
+            if (lastSent.get(event.tailNumber) === key) return;
+            lastSent.set(event.tailNumber, key);
+            send('position', event.position, event.id);
+            break;
+          }
+          case 'MAINTENANCE_ALERT':
+            send('alert', event.alert, event.id);
+            break;
+          case 'TAKEOFF':
+          case 'LANDING':
+          case 'STALE_DATA':
+            send('flight-event', { type: event.type, tailNumber: event.tailNumber, timestamp: event.timestamp }, event.id);
+            break;
+        }
+      };
+      
+      write(`retry: ${STREAM_RETRY_MS}\n\n`);
+      if (snapshot) {
+        snapshot.forEach(position => lastSent.set(position.tailNumber, positionKey(position)));
+        send('snapshot', snapshot, startId);
+      }
+      flightService.getRecentEvents(startId, filter).forEach(forward);
+      
+      const unsubscribe = flightService.subscribe(forward, filter);
+      const release = flightService.holdFleetTracking(aircraft.map(entry => ({ tailNumber: entry.tailNumber, icaoAddress: entry.icaoAddress })));
+      const heartbeat = setInterval(() => write(': keep-alive\n\n'), STREAM_HEARTBEAT_MS);
+      
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        release();
+        clearInterval(heartbeat);
+      };
+      const abort = () => {
+        if (closed) return;
+        cleanup();
+        controller.close();
+      };
+      if (request.signal.aborted) abort();
+      else request.signal.addEventListener('abort', abort);
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+  
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  });
+}
+
 async function getFlightHistory(searchParams: URLSearchParams) {
   const tailNumber = searchParams.get('tailNumber');
   const days = parseInt(searchParams.get('days') || '30');
@@ -85,7 +349,15 @@ async function getFlightHistory(searchParams: URLSearchParams) {
     );
   }
   
-  // Mock flight history data - in real implementation, this would come from database
+  // Logged flights, including those detected from tracking data
+  const fleetRepository = await getFleetRepository();
+  const aircraft = await fleetRepository.findAircraftByTailNumber(tailNumber);
+  const since = Date.now() - days * 24 * 60 * 60 * 1000;
+  const loggedFlights = aircraft
+    ? (await fleetRepository.listFlights(aircraft.id)).filter(flight => new Date(flight.departure.time).getTime() >= since)
+    : [];
+  
+  // Sample flight history until the log has flights for this aircraft
   const mockFlightHistory = [
     {
       id: '1',
@@ -140,20 +412,33 @@ async function getFlightHistory(searchParams: URLSearchParams) {
     }
   ];
   
+  // Without logged flights, FlightAware's record of the tail when it is in the provider chain
+  let providerFlights: FlightHistory[] = [];
+  if (loggedFlights.length === 0 && flightService.getProviderChain().includes('FLIGHTAWARE')) {
+    try {
+      providerFlights = await flightService.getFlightAwareHistory(tailNumber, days);
+    } catch (error) {
+      console.error(`FlightAware history for ${tailNumber} unavailable:`, error);
+    }
+  }
+  
+  const flights: FlightHistory[] = loggedFlights.length > 0 ? loggedFlights : providerFlights.length > 0 ? providerFlights : mockFlightHistory;
+  
   // Calculate maintenance metrics
-  const metrics = flightService.calculateMaintenanceMetrics(mockFlightHistory);
+  const metrics = flightService.calculateMaintenanceMetrics(flights);
   
   return NextResponse.json({
     success: true,
     data: {
-      flights: mockFlightHistory,
+      flights,
+      source: loggedFlights.length > 0 ? 'FLIGHT_LOG' : providerFlights.length > 0 ? 'FLIGHTAWARE' : 'SAMPLE',
       metrics,
       summary: {
-        totalFlights: mockFlightHistory.length,
-        totalBlockTime: mockFlightHistory.reduce((sum, flight) => sum + flight.blockTime, 0),
-        totalFlightTime: mockFlightHistory.reduce((sum, flight) => sum + flight.flightTime, 0),
-        totalCycles: mockFlightHistory.reduce((sum, flight) => sum + flight.cycles, 0),
-        averageFlightLength: mockFlightHistory.reduce((sum, flight) => sum + flight.flightTime, 0) / mockFlightHistory.length
+        totalFlights: flights.length,
+        totalBlockTime: flights.reduce((sum, flight) => sum + flight.blockTime, 0),
+        totalFlightTime: flights.reduce((sum, flight) => sum + flight.flightTime, 0),
+        totalCycles: flights.reduce((sum, flight) => sum + flight.cycles, 0),
+        averageFlightLength: flights.reduce((sum, flight) => sum + flight.flightTime, 0) / flights.length
       }
     },
     period: `${days} days`,
@@ -169,12 +454,9 @@ export async function POST(request: NextRequest) {
   try {
     switch (action) {
       case 'start-tracking':
-        // Start real-time tracking for fleet
-        const aircraftList = body.aircraft || [
-          { tailNumber: 'N123AB', icaoAddress: 'a1234b' },
-          { tailNumber: 'N456CD', icaoAddress: 'c5678d' },
-          { tailNumber: 'N789XY', icaoAddress: 'e9012f' }
-        ];
+        // Start real-time tracking for the requested aircraft, or the whole fleet
+        const aircraftList = body.aircraft || (await (await getFleetRepository()).listAircraft())
+          .map(aircraft => ({ tailNumber: aircraft.tailNumber, icaoAddress: aircraft.icaoAddress }));
         
         flightService.startFleetTracking(aircraftList);
         
@@ -204,7 +486,7 @@ export async function POST(request: NextRequest) {
         }
       
       case 'manual-update':
-        // Manually trigger an update for specific aircraft
+        // Manually trigger an update for specific aircraft, optionally reporting its position by hand
         const targetTailNumber = body.tailNumber;
         
         if (!targetTailNumber) {
@@ -213,8 +495,41 @@ export async function POST(request: NextRequest) {
             { status: 400 }
           );
         }
+        if (body.position) {
+          if (typeof body.position.latitude !== 'number' || typeof body.position.longitude !== 'number') {
+            return NextResponse.json(
+              { error: 'position.latitude and position.longitude are required for a manual position report' },
+              { status: 400 }
+            );
+          }
+          const reportedAt = body.position.timestamp ? new Date(body.position.timestamp) : new Date();
+          const isOnGround = body.position.isOnGround ?? false;
+          flightService.reportManualFlightData({
+            id: `manual-${targetTailNumber.toLowerCase()}-${reportedAt.getTime()}`,
+            aircraftId: targetTailNumber.toLowerCase(),
+            tailNumber: targetTailNumber,
+            latitude: body.position.latitude,
+            longitude: body.position.longitude,
+            altitude: body.position.altitude ?? 0,
+            groundSpeed: body.position.groundSpeed ?? 0,
+            track: body.position.track ?? 0,
+            verticalRate: 0,
+            isOnGround,
+            lastContact: reportedAt,
+            flightStatus: isOnGround ? 'LANDED' : 'ACTIVE',
+            departureAirport: body.position.departureAirport,
+            arrivalAirport: body.position.arrivalAirport,
+            dataSource: 'MANUAL',
+            lastUpdated: new Date()
+          });
+        }
         
         const flightData = await flightService.getAircraftFlightData(targetTailNumber);
+        if (flightData) {
+          flightService.ingestFlightData(flightData);
+        } else {
+          flightService.checkStale(targetTailNumber);
+        }
         
         return NextResponse.json({
           success: true,
@@ -223,9 +538,12 @@ export async function POST(request: NextRequest) {
           timestamp: new Date().toISOString()
         });
       
+      case 'ingest-adsb':
+        return await ingestReceiverData(body);
+      
       default:
         return NextResponse.json(
-          { error: 'Invalid action. Use: start-tracking, stop-tracking, or manual-update' },
+          { error: 'Invalid action. Use: start-tracking, stop-tracking, manual-update, or ingest-adsb' },
           { status: 400 }
         );
     }
@@ -236,4 +554,58 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
+
+// Feed recorded or forwarded receiver output (SBS-1 text, a dump1090 aircraft.json snapshot, raw
+// frames as AVR text or base64 Beast binary) into the local ADS-B provider; with live set, SBS-1 and
+// dump1090 messages are stamped with the time received (raw frames always are)
+async function ingestReceiverData(body: any) {
+  const receiver = flightService.getLocalReceiver();
+  if (!receiver) {
+    return NextResponse.json(
+      { error: 'The LOCAL_ADSB provider is not configured (set FLIGHT_TRACKING_PROVIDER=LOCAL_ADSB or add it to FLIGHT_TRACKING_PROVIDERS)' },
+      { status: 409 }
+    );
+  }
+  if (typeof body.sbs !== 'string' && !Array.isArray(body.aircraftJson?.aircraft) &&
+      typeof body.avr !== 'string' && typeof body.beast !== 'string') {
+    return NextResponse.json(
+      { error: 'Provide sbs (BaseStation text), aircraftJson (dump1090 snapshot), avr (raw frames) and/or beast (base64 Beast binary)' },
+      { status: 400 }
+    );
+  }
+  
+  const receivedAt = body.live ? new Date() : undefined;
+  let messages = 0;
+  if (typeof body.sbs === 'string') {
+    messages += receiver.ingestSbs(body.sbs, receivedAt);
+  }
+  if (Array.isArray(body.aircraftJson?.aircraft)) {
+    messages += receiver.ingestDump1090(receivedAt ? { ...body.aircraftJson, now: receivedAt.getTime() / 1000 } : body.aircraftJson);
+  }
+  if (typeof body.avr === 'string') {
+    messages += receiver.ingestAvr(body.avr);
+  }
+  if (typeof body.beast === 'string') {
+    messages += receiver.ingestBeast(new Uint8Array(Buffer.from(body.beast, 'base64')));
+  }
+  
+  // Publish the fleet aircraft the receiver now has positions for
+  const updated = [];
+  for (const aircraft of await loadFleet()) {
+    const flightData = aircraft.icaoAddress ? receiver.toFlightData(aircraft.icaoAddress, aircraft.tailNumber) : null;
+    if (!flightData) continue;
+    flightService.ingestFlightData(flightData);
+    updated.push(flightData);
+  }
+  
+  return NextResponse.json({
+    success: true,
+    data: {
+      updated,
+      receiverAircraft: receiver.listStates().length
+    },
+    message: `Ingested ${messages} message(s); ${updated.length} fleet aircraft updated`,
+    timestamp: new Date().toISOString()
+  });
+}
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { JobStatus, getJobScheduler } from '@/lib/job-scheduler';
+import { getAgenticWorkflow } from '@/lib/agentic-workflow';
+
+// Job worker entry point. A cron (Vercel Cron, or anything that can make an HTTP request) calls
+// GET ?action=run; the workflow is loaded so its reminder, escalation and digest handlers are registered.
+const jobScheduler = getJobScheduler();
+getAgenticWorkflow();
+
+const JOB_STATUSES: JobStatus[] = ['PENDING', 'RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED'];
+
+// With CRON_SECRET set, callers must send it as a bearer token (Vercel Cron does this automatically)
+function isAuthorized(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  return !secret || request.headers.get('authorization') === `Bearer ${secret}`;
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const action = searchParams.get('action');
+
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    switch (action) {
+      case 'run':
+        return await runDueJobs();
+
+      case 'list':
+        return await listJobs(searchParams);
+
+      default:
+        return NextResponse.json(
+          { error: 'Invalid action. Use: run or list' },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    console.error('Jobs API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to process job request' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const body = await request.json();
+  const action = body.action;
+
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    switch (action) {
+      case 'run':
+        return await runDueJobs();
+
+      case 'cancel':
+        return await cancelJob(body);
+
+      default:
+        return NextResponse.json(
+          { error: 'Invalid action. Use: run or cancel' },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    console.error('Jobs API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to process job request' },
+      { status: 500 }
+    );
+  }
+}
+
+async function runDueJobs() {
+  const summary = await jobScheduler.runDueJobs();
+
+  return NextResponse.json({
+    success: true,
+    data: summary,
+    message: `Ran ${summary.claimed} due job(s): ${summary.completed} completed, ${summary.retrying} retrying, ${summary.failed} failed`,
+    timestamp: new Date().toISOString()
+  });
+}
+
+async function listJobs(searchParams: URLSearchParams) {
+  const status = searchParams.get('status')?.toUpperCase() as JobStatus | undefined;
+  const type = searchParams.get('type') || undefined;
+
+  if (status && !JOB_STATUSES.includes(status)) {
+    return NextResponse.json(
+      { error: `Unknown status ${status}. Use: ${JOB_STATUSES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const jobs = await jobScheduler.listJobs({ status, type });
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      jobs,
+      summary: JOB_STATUSES.reduce<{ [status: string]: number }>((counts, jobStatus) => {
+        counts[jobStatus] = jobs.filter(job => job.status === jobStatus).length;
+        return counts;
+      }, {})
+    },
+    timestamp: new Date().toISOString()
+  });
+}
+
+async function cancelJob(body: any) {
+  if (!body.jobId && !body.idempotencyKey) {
+    return NextResponse.json(
+      { error: 'jobId or idempotencyKey is required' },
+      { status: 400 }
+    );
+  }
+
+  const job = body.jobId
+    ? await jobScheduler.cancel(body.jobId)
+    : await jobScheduler.cancelByIdempotencyKey(body.idempotencyKey);
+
+  if (!job) {
+    return NextResponse.json(
+      { error: `Job ${body.jobId || body.idempotencyKey} not found` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: job,
+    message: job.status === 'CANCELLED' ? `Job ${job.id} cancelled` : `Job ${job.id} already ${job.status.toLowerCase()}`,
+    timestamp: new Date().toISOString()
+  });
+}
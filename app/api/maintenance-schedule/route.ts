@@ -1,348 +1,65 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { MaintenanceScheduler, defaultSchedulingConfig } from '@/lib/maintenance-scheduler';
-import { FlightTrackingService, defaultFlightTrackingConfig } from '@/lib/flight-tracking';
-import { AgenticMaintenanceWorkflow, MaintenanceRecommendation } from '@/lib/agentic-workflow';
-import { maintenanceChecklists, getRequiredPersonnel } from '@/lib/maintenance-tasks';
+import { MaintenanceScheduler, createSeededRandom, defaultSchedulingConfig } from '@/lib/maintenance-scheduler';
+import { FlightTrackingEvent, getFlightTrackingService } from '@/lib/flight-tracking';
+import { MaintenanceRecommendation, getAgenticWorkflow } from '@/lib/agentic-workflow';
+import { ApprovalStatus } from '@/lib/approval-policies';
+import { APPROVAL_ROLES } from '@/lib/personnel';
+import { HANGAR_BAY, RESOURCE_TYPES, ResourceType } from '@/lib/resources';
+import { getResourceCalendar, resourceNeeds } from '@/lib/resource-calendar';
+import { maintenanceChecklists, getMaintenanceChecklists, getRequiredPersonnel } from '@/lib/maintenance-tasks';
 import { MaintenanceEmailService, EmailRecipient, MaintenanceEmailData } from '@/lib/email-service';
 import { getEmailConfig } from '@/lib/email-config';
 import { openAIService, MaintenanceRecommendationInput } from '@/lib/openai-service';
-
-// Mock data for demonstration - in production this would come from database
-const mockAircraft = [
-  {
-    id: 'n123ab',
-    tailNumber: 'N123AB',
-    make: 'Gulfstream',
-    model: 'G550',
-    serialNumber: 'G550-001',
-    yearOfManufacture: 2018,
-    totalAircraftTime: 2450, // hours
-    totalCycles: 1850,
-    isActive: true,
-    lastInspectionDate: new Date('2024-01-15'),
-    nextInspectionDue: new Date('2024-02-15'),
-    createdAt: new Date('2018-01-01'),
-    updatedAt: new Date(),
-    flightStatus: 'AVAILABLE' as const,
-    engineTimeTracking: 'HOBBS' as const,
-    icaoAddress: 'a1234b',
-    adsb: {
-      enabled: true,
-      equipmentType: 'Class A1S',
-      lastSeen: new Date()
-    }
-  },
-  {
-    id: 'n456cd',
-    tailNumber: 'N456CD',
-    make: 'Gulfstream',
-    model: 'G550',
-    serialNumber: 'G550-002',
-    yearOfManufacture: 2019,
-    totalAircraftTime: 2125, // hours - approaching 100-hour inspection
-    totalCycles: 1620,
-    isActive: true,
-    lastInspectionDate: new Date('2024-01-10'),
-    nextInspectionDue: new Date('2024-02-08'),
-    createdAt: new Date('2019-01-01'),
-    updatedAt: new Date(),
-    flightStatus: 'MAINTENANCE' as const,
-    engineTimeTracking: 'HOBBS' as const,
-    icaoAddress: 'c5678d',
-    adsb: {
-      enabled: true,
-      equipmentType: 'Class A1S',
-      lastSeen: new Date()
-    }
-  },
-  {
-    id: 'n789xy',
-    tailNumber: 'N789XY',
-    make: 'Gulfstream',
-    model: 'G550',
-    serialNumber: 'G550-003',
-    yearOfManufacture: 2020,
-    totalAircraftTime: 1875, // hours
-    totalCycles: 1425,
-    isActive: true,
-    lastInspectionDate: new Date('2024-01-20'),
-    nextInspectionDue: new Date('2024-03-01'),
-    createdAt: new Date('2020-01-01'),
-    updatedAt: new Date(),
-    flightStatus: 'IN_FLIGHT' as const,
-    engineTimeTracking: 'HOBBS' as const,
-    icaoAddress: 'e9012f',
-    adsb: {
-      enabled: true,
-      equipmentType: 'Class A1S',
-      lastSeen: new Date()
-    }
-  }
-];
-
-const mockMaintenanceIntervals = [
-  // N123AB intervals - Comprehensive FAA Schedule
-  {
-    id: 'int-1a',
-    aircraftId: 'n123ab',
-    intervalType: 'A_CHECK' as const,
-    description: 'A-Check (1A) - Basic airframe and systems inspection',
-    intervalHours: 500,
-    intervalCalendar: 365, // 12 months
-    lastCompletedAt: new Date('2024-01-15'),
-    lastCompletedHours: 2000,
-    nextDueAt: new Date('2024-02-15'),
-    nextDueHours: 2500, // Due in 50 hours (2450 current + 50 = 2500)
-    isOverdue: false,
-    priority: 'HIGH' as const,
-    estimatedDowntime: 36, // 1-2 days average
-    estimatedCost: 15000
-  },
-  {
-    id: 'int-2a',
-    aircraftId: 'n123ab',
-    intervalType: '2A_CHECK' as const,
-    description: '2A Check - Progressive detailed check (1000 hours)',
-    intervalHours: 1000,
-    intervalCalendar: undefined,
-    lastCompletedAt: new Date('2023-08-15'),
-    lastCompletedHours: 1500,
-    nextDueAt: new Date('2024-04-01'),
-    nextDueHours: 2500, // Same as 1A due to bundling
-    isOverdue: false,
-    priority: 'HIGH' as const,
-    estimatedDowntime: 48, // 1-3 days average
-    estimatedCost: 25000
-  },
-  {
-    id: 'int-100hr-1',
-    aircraftId: 'n123ab',
-    intervalType: '100_HOUR' as const,
-    description: '100-Hour Inspection - Part 135 regulatory compliance',
-    intervalHours: 100,
-    intervalCalendar: undefined,
-    lastCompletedAt: new Date('2024-01-25'),
-    lastCompletedHours: 2400,
-    nextDueAt: new Date('2024-02-10'),
-    nextDueHours: 2500, // Due at same time as A-Check
-    isOverdue: false,
-    priority: 'MEDIUM' as const,
-    estimatedDowntime: 8, // 1 day
-    estimatedCost: 3500
-  },
-  
-  // N456CD intervals (Aircraft with overdue maintenance)
-  {
-    id: 'int-100hr-2',
-    aircraftId: 'n456cd',
-    intervalType: '100_HOUR' as const,
-    description: '100-Hour Inspection - OVERDUE (Part 135 Critical)',
-    intervalHours: 100,
-    intervalCalendar: undefined,
-    lastCompletedAt: new Date('2024-01-01'),
-    lastCompletedHours: 2000,
-    nextDueAt: new Date('2024-01-20'),
-    nextDueHours: 2100, // Was due at 2100 hours, now at 2125 = 25 hours overdue
-    isOverdue: true,
-    priority: 'CRITICAL' as const,
-    estimatedDowntime: 8, // 1 day
-    estimatedCost: 4000
-  },
-  {
-    id: 'int-3a',
-    aircraftId: 'n456cd',
-    intervalType: '3A_CHECK' as const,
-    description: '3A Check - Progressive detailed check (1500 hours)',
-    intervalHours: 1500,
-    intervalCalendar: undefined,
-    lastCompletedAt: new Date('2023-10-01'),
-    lastCompletedHours: 1600,
-    nextDueAt: new Date('2024-03-15'),
-    nextDueHours: 3100, // Due after current maintenance
-    isOverdue: false,
-    priority: 'MEDIUM' as const,
-    estimatedDowntime: 48, // 1-3 days average
-    estimatedCost: 35000
-  },
-  {
-    id: 'int-1c',
-    aircraftId: 'n456cd',
-    intervalType: 'C_CHECK' as const,
-    description: 'C-Check (1C) - Comprehensive inspection of airframe and systems',
-    intervalHours: undefined,
-    intervalCalendar: 365, // 12 months
-    lastCompletedAt: new Date('2023-02-01'),
-    lastCompletedHours: 1800,
-    nextDueAt: new Date('2024-02-01'),
-    nextDueHours: 0,
-    isOverdue: false,
-    priority: 'HIGH' as const,
-    estimatedDowntime: 144, // 5-7 days average (6 days)
-    estimatedCost: 85000
-  },
-  
-  // N789XY intervals
-  {
-    id: 'int-1a-3',
-    aircraftId: 'n789xy',
-    intervalType: 'A_CHECK' as const,
-    description: 'A-Check (1A) - Basic airframe and systems inspection',
-    intervalHours: 500,
-    intervalCalendar: 365,
-    lastCompletedAt: new Date('2024-01-01'),
-    lastCompletedHours: 1500,
-    nextDueAt: new Date('2024-03-01'),
-    nextDueHours: 2000, // Due in 125 hours (1875 current + 125 = 2000)
-    isOverdue: false,
-    priority: 'LOW' as const,
-    estimatedDowntime: 36, // 1-2 days average
-    estimatedCost: 15000
-  },
-  {
-    id: 'int-100hr-3',
-    aircraftId: 'n789xy',
-    intervalType: '100_HOUR' as const,
-    description: '100-Hour Inspection - Part 135 regulatory compliance',
-    intervalHours: 100,
-    intervalCalendar: undefined,
-    lastCompletedAt: new Date('2024-01-15'),
-    lastCompletedHours: 1800,
-    nextDueAt: new Date('2024-02-20'),
-    nextDueHours: 1900, // Due in 25 hours (1875 current + 25 = 1900)
-    isOverdue: false,
-    priority: 'MEDIUM' as const,
-    estimatedDowntime: 8, // 1 day
-    estimatedCost: 3500
-  },
-  {
-    id: 'int-progressive-1',
-    aircraftId: 'n789xy',
-    intervalType: 'PROGRESSIVE' as const,
-    description: 'Progressive Inspection - Rolling schedule maintenance',
-    intervalHours: undefined,
-    intervalCalendar: 90, // Every 90 days
-    lastCompletedAt: new Date('2024-01-01'),
-    lastCompletedHours: 1500,
-    nextDueAt: new Date('2024-04-01'),
-    nextDueHours: 0,
-    isOverdue: false,
-    priority: 'LOW' as const,
-    estimatedDowntime: 36, // 1-2 days average
-    estimatedCost: 12000
-  },
-
-  // Additional comprehensive intervals for fleet-wide planning
-  {
-    id: 'int-4a',
-    aircraftId: 'n123ab',
-    intervalType: '4A_CHECK' as const,
-    description: '4A Check - Progressive detailed check (2000 hours)',
-    intervalHours: 2000,
-    intervalCalendar: undefined,
-    lastCompletedAt: new Date('2023-06-01'),
-    lastCompletedHours: 500,
-    nextDueAt: new Date('2024-06-01'),
-    nextDueHours: 2500, // Due soon, can be bundled with 1A/2A
-    isOverdue: false,
-    priority: 'MEDIUM' as const,
-    estimatedDowntime: 48, // 1-3 days average
-    estimatedCost: 45000
-  },
-  {
-    id: 'int-annual-1',
-    aircraftId: 'n123ab',
-    intervalType: 'ANNUAL' as const,
-    description: 'Annual Inspection - FAA-mandated comprehensive check',
-    intervalHours: undefined,
-    intervalCalendar: 365, // Every 12 months
-    lastCompletedAt: new Date('2023-03-01'),
-    lastCompletedHours: 1200,
-    nextDueAt: new Date('2024-03-01'),
-    nextDueHours: 0,
-    isOverdue: false,
-    priority: 'HIGH' as const,
-    estimatedDowntime: 36, // 1-2 days average
-    estimatedCost: 18000
-  },
-  {
-    id: 'int-10a',
-    aircraftId: 'n456cd',
-    intervalType: '10A_CHECK' as const,
-    description: '10A Check - Major systems and airframe checks (5000 hours)',
-    intervalHours: 5000,
-    intervalCalendar: undefined,
-    lastCompletedAt: new Date('2022-01-01'),
-    lastCompletedHours: 0,
-    nextDueAt: new Date('2025-01-01'),
-    nextDueHours: 5000,
-    isOverdue: false,
-    priority: 'LOW' as const,
-    estimatedDowntime: 72, // 2-4 days average (3 days)
-    estimatedCost: 125000
-  },
-  {
-    id: 'int-2c',
-    aircraftId: 'n789xy',
-    intervalType: '2C_CHECK' as const,
-    description: '2C Check - Deep structural and systems check (24 months)',
-    intervalHours: undefined,
-    intervalCalendar: 730, // 24 months
-    lastCompletedAt: new Date('2022-01-01'),
-    lastCompletedHours: 0,
-    nextDueAt: new Date('2024-01-01'),
-    nextDueHours: 0,
-    isOverdue: false,
-    priority: 'MEDIUM' as const,
-    estimatedDowntime: 264, // 7-14 days average (11 days)
-    estimatedCost: 185000
-  }
-];
-
-const mockCurrentWorkOrders = [
-  {
-    id: 'wo-1',
-    aircraftId: 'n456cd',
-    workOrderNumber: 'WO-20240125-001',
-    title: '100-Hour Inspection - OVERDUE (AOG)',
-    description: 'Overdue 100-hour inspection - Aircraft on Ground. 25 hours overdue.',
-    status: 'IN_PROGRESS' as const,
-    priority: 'AOG' as const, // Aircraft On Ground
-    category: 'SCHEDULED' as const,
-    mechanicAssigned: 'John Smith',
-    inspectorAssigned: 'Sarah Wilson',
-    estimatedHours: 12,
-    actualHours: 8,
-    partsRequired: [],
-    createdAt: new Date('2024-01-25'),
-    scheduledStartDate: new Date('2024-01-25'),
-    actualStartDate: new Date('2024-01-25'),
-    signOffData: undefined
-  },
-  {
-    id: 'wo-2',
-    aircraftId: 'n123ab',
-    workOrderNumber: 'WO-20240128-002',
-    title: 'Brake System Inspection',
-    description: 'Routine brake system inspection and maintenance',
-    status: 'OPEN' as const,
-    priority: 'ROUTINE' as const,
-    category: 'SCHEDULED' as const,
-    mechanicAssigned: 'Mike Wilson',
-    inspectorAssigned: undefined,
-    estimatedHours: 4,
-    actualHours: 0,
-    partsRequired: [],
-    createdAt: new Date('2024-01-28'),
-    scheduledStartDate: new Date('2024-02-01'),
-    actualStartDate: undefined,
-    signOffData: undefined
-  }
-];
+import { FleetRepository, getFleetRepository } from '@/lib/fleet-repository';
+import { generateWorkOrderNumber, getMaintenanceStatusColor, validateTailNumber } from '@/lib/maintenance-utils';
+import { nNumberToIcao } from '@/lib/n-number';
+import { IntervalCompliance, findMaintenanceProgram, generateMaintenanceIntervals, listMaintenancePrograms, loadMaintenancePrograms } from '@/lib/maintenance-programs';
+import { computeMaintenanceDue, describeDueLimit, rebaseMaintenanceInterval } from '@/lib/maintenance-due';
+import {
+  buildDirectiveStatusReport,
+  checkDirectiveApplicability,
+  getDirectiveDueIntervals,
+  recordDirectiveCompliance,
+  syncDirectiveRecords,
+  validateDirective
+} from '@/lib/airworthiness-directives';
+import {
+  getComponentDueIntervals,
+  installComponent,
+  projectComponentLife,
+  recordComponentOverhaul,
+  removeComponent
+} from '@/lib/component-tracking';
+import { ComplianceReport, evaluateAircraftCompliance } from '@/lib/compliance-rules';
+import { getFlightSegmentDetector, recordFlights } from '@/lib/flight-log';
+import { getExceedanceMonitor } from '@/lib/exceedance-monitor';
+import {
+  TASK_ASSIGNMENT_TRANSITIONS,
+  TaskAssignmentStatus,
+  WorkflowStatus,
+  createRecommendationLifecycle,
+  createWorkOrderLifecycle,
+  createWorkflowLifecycle
+} from '@/lib/maintenance-lifecycle';
+import { Aircraft, FlightHistory, MaintenanceInterval, WorkOrder } from '@/types';
 
 // Initialize services
 const scheduler = new MaintenanceScheduler(defaultSchedulingConfig);
-const flightService = new FlightTrackingService(defaultFlightTrackingConfig);
-const agenticWorkflow = new AgenticMaintenanceWorkflow();
+const flightService = getFlightTrackingService();
+const agenticWorkflow = getAgenticWorkflow();
+
+// Flights detected from tracking data are logged and advance the maintenance clocks
+getFlightSegmentDetector();
+// Hard landings, overspeeds, speed-limit and flight-time exceedances raise alerts on the tracking stream
+const exceedanceMonitor = getExceedanceMonitor();
+
+// React to the flight tracking stream: log movements and re-check compliance once an aircraft is on the ground
+flightService.subscribe(event => {
+  agenticWorkflow.recordFlightEvent(event);
+  if (event.type === 'LANDING') {
+    reevaluateAfterLanding(event).catch(error => console.error(`Post-landing compliance check failed for ${event.tailNumber}:`, error));
+  }
+}, { types: ['TAKEOFF', 'LANDING', 'STALE_DATA'] });
 
 // Mock storage for recommendations (in production, this would be a database)
 const mockRecommendations: MaintenanceRecommendation[] = [];
@@ -350,6 +67,54 @@ const mockRecommendations: MaintenanceRecommendation[] = [];
 // Mock storage for active workflows (in production, this would be a database)
 const mockActiveWorkflows: { [key: string]: any } = {};
 
+// Recommendation → workflow → work order lifecycle; status changes go through these machines
+const recommendationLifecycle = createRecommendationLifecycle<MaintenanceRecommendation>();
+const workflowLifecycle = createWorkflowLifecycle<ActiveWorkflow>();
+const workOrderLifecycle = createWorkOrderLifecycle<WorkOrder>();
+
+recommendationLifecycle.onTransition((recommendation, from, to, context) => {
+  recommendation.approvedBy = context.actor;
+  recommendation.approvedAt = new Date();
+}, 'APPROVED');
+
+workflowLifecycle.onTransition((workflow, from, to, context) => {
+  workflow.progress.currentTask = getCurrentTask(to, workflow.maintenanceType);
+  workflow.progress.nextMilestone = getNextMilestone(to);
+  workflow.notifications.lastSent = new Date().toISOString();
+  workflow.notifications.nextReminder = new Date(Date.now() + 4 * 60 * 60 * 1000).toISOString();
+
+  if (to === 'DELAYED') {
+    workflow.notifications.escalationLevel = Math.max(1, workflow.notifications.escalationLevel);
+  } else if (to === 'COMPLETED') {
+    workflow.timeline.actualCompletion = new Date().toISOString();
+    workflow.signOff = { inspector: context.signedOffBy, signedOffAt: workflow.timeline.actualCompletion };
+    agenticWorkflow.releaseResources(workflow.recommendationId)
+      .catch(error => console.error(`Failed to release resources held for ${workflow.recommendationId}:`, error));
+  }
+
+  // The recommendation follows its workflow into work and out of it
+  const recommendation = mockRecommendations.find(r => r.id === workflow.recommendationId);
+  const recommendationStatus = to === 'COMPLETED' ? 'COMPLETED' : 'IN_PROGRESS';
+  if (recommendation && to !== 'INITIATED' && recommendationLifecycle.can(recommendation.status, recommendationStatus)) {
+    recommendationLifecycle.transition(recommendation, recommendationStatus, context);
+  }
+});
+
+workOrderLifecycle.onTransition(workOrder => {
+  workOrder.actualStartDate = workOrder.actualStartDate || new Date();
+}, 'IN_PROGRESS');
+workOrderLifecycle.onTransition(workOrder => {
+  workOrder.completedDate = new Date();
+}, 'COMPLETED');
+
+// Body for a refused status change: the reason plus where the entity can go from here
+function illegalTransition(rejection: string, currentStatus: string, allowedStatuses: string[]) {
+  return NextResponse.json(
+    { error: rejection, currentStatus, allowedStatuses },
+    { status: 409 }
+  );
+}
+
 // Enhanced workflow tracking
 interface ActiveWorkflow {
   id: string;
@@ -357,7 +122,7 @@ interface ActiveWorkflow {
   aircraftId: string;
   tailNumber: string;
   maintenanceType: string;
-  status: 'INITIATED' | 'IN_PROGRESS' | 'AWAITING_PARTS' | 'INSPECTION' | 'COMPLETED' | 'DELAYED';
+  status: WorkflowStatus;
   progress: {
     tasksCompleted: number;
     totalTasks: number;
@@ -385,6 +150,10 @@ interface ActiveWorkflow {
     nextReminder: string;
     escalationLevel: number;
   };
+  signOff?: {
+    inspector: string;
+    signedOffAt: string;
+  };
 }
 
 export async function GET(request: NextRequest) {
@@ -417,9 +186,39 @@ export async function GET(request: NextRequest) {
       case 'task-checklist':
         return await getTaskChecklist(searchParams);
       
+      case 'maintenance-programs':
+        return await getMaintenancePrograms();
+      
+      case 'airworthiness-directives':
+        return await getAirworthinessDirectives(searchParams);
+      
+      case 'ad-status-report':
+        return await getDirectiveStatusReport(searchParams);
+      
+      case 'component-status':
+        return await getComponentStatus(searchParams);
+      
+      case 'compliance-status':
+        return await getComplianceStatus(searchParams);
+      
+      case 'approval-status':
+        return getApprovalStatus(searchParams);
+      
+      case 'approval-policies':
+        return getApprovalPolicies();
+      
+      case 'resources':
+        return getResources(searchParams);
+      
+      case 'resource-calendar':
+        return getResourceCalendarView(searchParams);
+      
+      case 'exceedance-alerts':
+        return await getExceedanceAlerts(searchParams);
+      
       default:
         return NextResponse.json(
-          { error: 'Invalid action. Use: optimize, utilization-analysis, schedule-preview, ai-recommendations, workflow-status, active-workflows, audit-trail, or task-checklist' },
+          { error: 'Invalid action. Use: optimize, utilization-analysis, schedule-preview, ai-recommendations, workflow-status, active-workflows, audit-trail, task-checklist, maintenance-programs, airworthiness-directives, ad-status-report, component-status, compliance-status, approval-status, approval-policies, resources, resource-calendar, or exceedance-alerts' },
           { status: 400 }
         );
     }
@@ -432,26 +231,52 @@ export async function GET(request: NextRequest) {
   }
 }
 
+// The aircraft type's checklists, by tail number; the default program when the tail isn't in the fleet
+function checklistsForTail(fleet: Aircraft[], tailNumber: string) {
+  const aircraft = fleet.find(candidate => candidate.tailNumber === tailNumber);
+  return getMaintenanceChecklists(aircraft?.make, aircraft?.model);
+}
+
 // Enhanced optimization with AI recommendations using OpenAI
 async function optimizeSchedule(searchParams: URLSearchParams) {
+  // A fixed seed makes the genetic optimizer, and the flight data it plans around, reproducible for planners
+  const seed = searchParams.get('seed');
+  const randomSeed = seed === null ? undefined : Number(seed);
+  if (randomSeed !== undefined && !Number.isInteger(randomSeed)) {
+    return NextResponse.json({ error: 'seed must be an integer' }, { status: 400 });
+  }
+  const optimizationConfig = randomSeed !== undefined
+    ? { ...defaultSchedulingConfig, randomSeed }
+    : defaultSchedulingConfig;
+  const optimizer = randomSeed !== undefined ? new MaintenanceScheduler(optimizationConfig) : scheduler;
+  const flightRandom = () => randomSeed !== undefined ? createSeededRandom(randomSeed) : Math.random;
+  
   try {
     console.log('🤖 Starting AI-powered optimization...');
     
+    const fleetRepository = await getFleetRepository();
+    const [fleet, programIntervals, currentWorkOrders] = await Promise.all([
+      fleetRepository.listAircraft(),
+      fleetRepository.listMaintenanceIntervals(),
+      fleetRepository.listWorkOrders()
+    ]);
+    const maintenanceIntervals = await withTrackedIntervals(fleetRepository, fleet, programIntervals);
+    
     // Get real utilization data first
     const utilizationResponse = await getUtilizationAnalysis(new URLSearchParams());
     const utilizationData = await utilizationResponse.json();
     
     // Get flight history for utilization analysis
-    const flightHistory = await generateMockFlightHistory();
+    const flightHistory = await generateMockFlightHistory(fleet, flightRandom());
     
     // Get upcoming flights (mock data)
-    const upcomingFlights = await generateMockUpcomingFlights();
+    const upcomingFlights = await generateMockUpcomingFlights(fleet, flightRandom());
     
     // Prepare data for OpenAI analysis
     const aiInputs: MaintenanceRecommendationInput[] = [];
     
     if (utilizationData.success && utilizationData.data) {
-      for (const aircraft of mockAircraft) {
+      for (const aircraft of fleet) {
         const utilData = utilizationData.data.find((u: any) => u.aircraftId === aircraft.id);
         const aircraftFlights = flightHistory.filter((f: any) => f.aircraftId === aircraft.id);
         
@@ -509,7 +334,7 @@ async function optimizeSchedule(searchParams: URLSearchParams) {
           status: 'PENDING',
           workflowId: null,
           complianceRequirements: rec.complianceRequirements,
-          riskFactors: rec.riskFactors || ["Standard maintenance"], affectedAssets: [rec.tailNumber || "Unknown"], requiredPersonnel: getRequiredPersonnel(rec.maintenanceType) || ["A&P Mechanic"], recommendedDate: rec.suggestedDate ? new Date(rec.suggestedDate).toISOString() : new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(), estimatedDowntime: rec.estimatedDuration || 8, timeWindow: { earliest: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(), latest: new Date(Date.now() + 21 * 24 * 60 * 60 * 1000).toISOString(), optimal: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString() }, createdAt: new Date().toISOString() }));
+          riskFactors: rec.riskFactors || ["Standard maintenance"], affectedAssets: [rec.tailNumber || "Unknown"], requiredPersonnel: getRequiredPersonnel(rec.maintenanceType, checklistsForTail(fleet, rec.tailNumber)) || ["A&P Mechanic"], recommendedDate: rec.suggestedDate ? new Date(rec.suggestedDate).toISOString() : new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(), estimatedDowntime: rec.estimatedDuration || 8, timeWindow: { earliest: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(), latest: new Date(Date.now() + 21 * 24 * 60 * 60 * 1000).toISOString(), optimal: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString() }, createdAt: new Date().toISOString() }));
         
         console.log(`✅ Generated ${aiRecommendations.length} AI recommendations`);
         
@@ -520,12 +345,12 @@ async function optimizeSchedule(searchParams: URLSearchParams) {
     }
     
     // Run the standard optimization as well
-    const result = await scheduler.optimizeMaintenanceSchedule(
-      mockAircraft,
-      mockMaintenanceIntervals,
+    const result = await optimizer.optimizeMaintenanceSchedule(
+      fleet,
+      maintenanceIntervals,
       flightHistory,
       upcomingFlights,
-      mockCurrentWorkOrders
+      currentWorkOrders
     );
     
     // If we have AI recommendations, use them, otherwise use the standard ones
@@ -534,6 +359,7 @@ async function optimizeSchedule(searchParams: URLSearchParams) {
     // Update global recommendations store
     mockRecommendations.length = 0;
     mockRecommendations.push(...finalRecommendations);
+    await autoApproveRecommendations(mockRecommendations);
     
     return NextResponse.json({
       success: true,
@@ -546,19 +372,21 @@ async function optimizeSchedule(searchParams: URLSearchParams) {
         aiPowered: aiRecommendations.length > 0
       },
       timestamp: new Date().toISOString(),
-      optimizationConfig: defaultSchedulingConfig
+      optimizationConfig
     });
     
   } catch (error) {
     console.error('Error in optimizeSchedule:', error);
     
     // Fallback to basic optimization without utilization data
-    const result = await scheduler.optimizeMaintenanceSchedule(
-      mockAircraft,
-      mockMaintenanceIntervals,
-      await generateMockFlightHistory(),
-      await generateMockUpcomingFlights(),
-      mockCurrentWorkOrders
+    const fleetRepository = await getFleetRepository();
+    const fleet = await fleetRepository.listAircraft();
+    const result = await optimizer.optimizeMaintenanceSchedule(
+      fleet,
+      await withTrackedIntervals(fleetRepository, fleet, await fleetRepository.listMaintenanceIntervals()),
+      await generateMockFlightHistory(fleet, flightRandom()),
+      await generateMockUpcomingFlights(fleet, flightRandom()),
+      await fleetRepository.listWorkOrders()
     );
     
     return NextResponse.json({
@@ -566,7 +394,7 @@ async function optimizeSchedule(searchParams: URLSearchParams) {
       data: result,
       warning: 'Basic optimization used - AI analysis unavailable',
       timestamp: new Date().toISOString(),
-      optimizationConfig: defaultSchedulingConfig
+      optimizationConfig
     });
   }
 }
@@ -578,7 +406,7 @@ async function generateUtilizationAwareRecommendation(
   fleetSummary: any
 ): Promise<MaintenanceRecommendation> {
   const baseId = `rec-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-  const aircraft = mockAircraft.find(a => a.id === scheduleItem.aircraftId);
+  const aircraft = await (await getFleetRepository()).getAircraft(scheduleItem.aircraftId);
   
   if (!aircraft) {
     throw new Error(`Aircraft not found: ${scheduleItem.aircraftId}`);
@@ -634,7 +462,7 @@ async function getUtilizationAnalysis(searchParams: URLSearchParams) {
     /* 
     // Real flight data integration (commented for demo)
     // Get real flight data from flight tracking API
-    const flightDataPromises = mockAircraft.map(async (aircraft) => {
+    const flightDataPromises = (await (await getFleetRepository()).listAircraft()).map(async (aircraft) => {
       try {
         // Get flight history for the aircraft
         const historyResponse = await fetch(`${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}/api/flight-data?action=flight-history&tailNumber=${aircraft.tailNumber}&days=30`);
@@ -965,9 +793,10 @@ function calculateRouteEfficiency(flights: any[]) {
 
 async function generateFallbackUtilizationData(tailNumber?: string | null) {
   // Enhanced fallback to mock data with realistic utilization profiles
+  const fleet = await (await getFleetRepository()).listAircraft();
   const filteredAircraft = tailNumber 
-    ? mockAircraft.filter(a => a.tailNumber === tailNumber)
-    : mockAircraft;
+    ? fleet.filter(a => a.tailNumber === tailNumber)
+    : fleet;
   
   // Create realistic utilization profiles matching our flight data patterns
   const utilizationProfiles = {
@@ -1121,20 +950,34 @@ async function getSchedulePreview(searchParams: URLSearchParams) {
   const days = parseInt(searchParams.get('days') || '30');
   
   // Generate a quick preview without full optimization
-  const preview = mockMaintenanceIntervals.map(interval => {
-    const aircraft = mockAircraft.find(a => a.id === interval.aircraftId);
+  const fleetRepository = await getFleetRepository();
+  const [fleet, programIntervals] = await Promise.all([
+    fleetRepository.listAircraft(),
+    fleetRepository.listMaintenanceIntervals()
+  ]);
+  const maintenanceIntervals = await withTrackedIntervals(fleetRepository, fleet, programIntervals);
+  
+  const preview = maintenanceIntervals.map(interval => {
+    const aircraft = fleet.find(a => a.id === interval.aircraftId);
     if (!aircraft) return null;
     
+    const due = computeMaintenanceDue(aircraft, interval);
+    const priority = due.isOverdue ? 'CRITICAL' : interval.priority;
+    
     return {
       id: `preview-${interval.id}`,
       aircraftId: aircraft.id,
       tailNumber: aircraft.tailNumber,
       maintenanceType: interval.intervalType,
-      scheduledDate: interval.nextDueAt,
+      scheduledDate: due.dueDate,
+      toleranceDate: due.toleranceDate,
+      dueStatus: due.status,
+      drivingLimit: due.drivingLimit,
+      statusColor: getMaintenanceStatusColor(priority, due.status),
       estimatedDuration: interval.estimatedDowntime,
-      priority: interval.priority,
+      priority,
       confidenceScore: 0.8,
-      reasoning: [`Due based on ${interval.intervalHours}-hour interval`],
+      reasoning: due.limits.map(limit => `${limit.limit.toLowerCase()} limit: ${describeDueLimit(limit)}`),
       conflictsWith: [],
       alternativeDates: [],
       estimatedCost: interval.estimatedCost,
@@ -1150,7 +993,8 @@ async function getSchedulePreview(searchParams: URLSearchParams) {
       schedule: preview,
       totalCost: preview.reduce((sum, item) => sum + (item?.estimatedCost || 0), 0),
       totalItems: preview.length,
-      criticalItems: preview.filter(item => item?.priority === 'CRITICAL').length
+      criticalItems: preview.filter(item => item?.priority === 'CRITICAL').length,
+      inToleranceItems: preview.filter(item => item?.dueStatus === 'IN_TOLERANCE').length
     },
     period: `${days} days`,
     timestamp: new Date().toISOString()
@@ -1169,7 +1013,8 @@ async function getAIRecommendations(searchParams: URLSearchParams) {
     console.log('⚠️ No AI recommendations found, generating baseline maintenance tasks...');
     
     // Generate basic recurring maintenance for each aircraft
-    const baselineRecommendations = mockAircraft.flatMap(aircraft => {
+    const fleet = await (await getFleetRepository()).listAircraft();
+    const baselineRecommendations = fleet.flatMap(aircraft => {
       const today = new Date();
       return [
         {
@@ -1231,6 +1076,7 @@ async function getAIRecommendations(searchParams: URLSearchParams) {
     
     // Update the global recommendations
     mockRecommendations.push(...baselineRecommendations);
+    await autoApproveRecommendations(mockRecommendations);
     filteredRecommendations = [...baselineRecommendations];
   }
   
@@ -1278,6 +1124,9 @@ async function getWorkflowStatus(searchParams: URLSearchParams) {
 async function getAuditTrail(searchParams: URLSearchParams) {
   const complianceOnly = searchParams.get('complianceOnly') === 'true';
   
+  // Evaluate first so changed compliance findings are on the trail
+  const fleetRepository = await getFleetRepository();
+  const complianceReports = await evaluateFleetCompliance(fleetRepository, await fleetRepository.listAircraft());
   const auditTrail = agenticWorkflow.getAuditTrail(complianceOnly);
   
   return NextResponse.json({
@@ -1285,24 +1134,66 @@ async function getAuditTrail(searchParams: URLSearchParams) {
     data: {
       auditTrail: auditTrail.slice(-50), // Latest 50 entries
       totalEntries: auditTrail.length,
-      complianceEntries: auditTrail.filter(entry => entry.complianceRelevant).length
+      complianceEntries: auditTrail.filter(entry => entry.complianceRelevant).length,
+      compliance: summarizeCompliance(complianceReports)
     },
     timestamp: new Date().toISOString()
   });
 }
 
+// List the maintenance programs available for aircraft types
+async function getMaintenancePrograms() {
+  await loadMaintenancePrograms();
+  
+  return NextResponse.json({
+    success: true,
+    data: listMaintenancePrograms().map(program => ({
+      make: program.make,
+      models: program.models,
+      name: program.name,
+      revision: program.revision,
+      intervals: program.intervals.map(interval => ({
+        type: interval.type,
+        description: interval.description,
+        hours: interval.hours,
+        cycles: interval.cycles,
+        calendarDays: interval.calendarDays
+      })),
+      checklists: Object.keys(program.checklists),
+      taskCards: program.taskCards.length
+    })),
+    timestamp: new Date().toISOString()
+  });
+}
+
 // New endpoint: Get Task Checklist
 async function getTaskChecklist(searchParams: URLSearchParams) {
   const maintenanceType = searchParams.get('maintenanceType');
+  const aircraftId = searchParams.get('aircraftId');
+  
+  // Use the aircraft type's program when an aircraft is given
+  let checklists = maintenanceChecklists;
+  if (aircraftId) {
+    const fleetRepository = await getFleetRepository();
+    const aircraft = await fleetRepository.getAircraft(aircraftId);
+    if (!aircraft) {
+      return NextResponse.json(
+        { error: 'Aircraft not found' },
+        { status: 404 }
+      );
+    }
+    await loadMaintenancePrograms();
+    checklists = getMaintenanceChecklists(aircraft.make, aircraft.model);
+  }
   
-  if (!maintenanceType || !maintenanceChecklists[maintenanceType]) {
+  if (!maintenanceType || !checklists[maintenanceType]) {
     return NextResponse.json(
       { error: 'Invalid or missing maintenanceType parameter' },
       { status: 400 }
     );
   }
   
-  const checklist = maintenanceChecklists[maintenanceType];
+  const checklist = checklists[maintenanceType];
   
   return NextResponse.json({
     success: true,
@@ -1334,16 +1225,31 @@ async function getActiveWorkflows(searchParams: URLSearchParams) {
     ['APPROVED', 'SCHEDULED', 'IN_PROGRESS'].includes(r.status)
   );
   
-  const activeWorkflows: ActiveWorkflow[] = approvedRecommendations.map((rec, index) => {
+  const statuses: WorkflowStatus[] = ['INITIATED', 'IN_PROGRESS', 'AWAITING_PARTS', 'INSPECTION', 'DELAYED'];
+  const activeWorkflows: ActiveWorkflow[] = [];
+  const unstaffed: { recommendationId: string; tailNumber: string; reason: string }[] = [];
+  for (let index = 0; index < approvedRecommendations.length; index++) {
+    const rec = approvedRecommendations[index];
     const workflowId = `workflow-${rec.id}`;
     
-    // Check if workflow already exists, otherwise create it
+    // Check if workflow already exists, otherwise create it crewed from the roster; work nobody
+    // qualified is free for is reported instead
     if (!mockActiveWorkflows[workflowId]) {
-      mockActiveWorkflows[workflowId] = createWorkflowFromRecommendation(rec, index);
+      const workflowStatus = statuses[index % statuses.length];
+      try {
+        const crew = {
+          mechanic: await assignWorkflowRole(rec, 'MECHANIC'),
+          inspector: workflowStatus === 'INSPECTION' ? await assignWorkflowRole(rec, 'INSPECTOR') : undefined
+        };
+        mockActiveWorkflows[workflowId] = createWorkflowFromRecommendation(rec, index, workflowStatus, crew);
+      } catch (error) {
+        unstaffed.push({ recommendationId: rec.id, tailNumber: rec.tailNumber, reason: error.message });
+        continue;
+      }
     }
     
-    return mockActiveWorkflows[workflowId];
-  });
+    activeWorkflows.push(mockActiveWorkflows[workflowId]);
+  }
   
   // Filter by status if provided
   let filteredWorkflows = activeWorkflows;
@@ -1361,6 +1267,7 @@ async function getActiveWorkflows(searchParams: URLSearchParams) {
     data: {
       workflows: filteredWorkflows,
       totalActive: activeWorkflows.length,
+      unstaffed,
       byStatus: {
         INITIATED: activeWorkflows.filter(w => w.status === 'INITIATED').length,
         IN_PROGRESS: activeWorkflows.filter(w => w.status === 'IN_PROGRESS').length,
@@ -1379,23 +1286,33 @@ async function getActiveWorkflows(searchParams: URLSearchParams) {
   });
 }
 
+// Staff one role of a workflow from the roster against the aircraft type's checklist.
+// Throws with the reason nobody qualified is free.
+async function assignWorkflowRole(
+  recommendation: Pick<MaintenanceRecommendation, 'id' | 'aircraftId' | 'maintenanceType' | 'estimatedDowntime'>,
+  role: 'MECHANIC' | 'INSPECTOR'
+): Promise<string> {
+  const aircraft = await (await getFleetRepository()).getAircraft(recommendation.aircraftId);
+  return agenticWorkflow.assignRole(recommendation, role, aircraft).assigneeName;
+}
+
 // Helper function to create workflow from recommendation
-function createWorkflowFromRecommendation(recommendation: any, index: number): ActiveWorkflow {
-  const statuses = ['INITIATED', 'IN_PROGRESS', 'AWAITING_PARTS', 'INSPECTION', 'DELAYED'];
-  const currentStatus = statuses[index % statuses.length];
-  
+function createWorkflowFromRecommendation(
+  recommendation: any,
+  index: number,
+  currentStatus: WorkflowStatus,
+  crew: { mechanic: string; inspector?: string }
+): ActiveWorkflow {
   const tasksCompleted = Math.floor(Math.random() * 8) + 2; // 2-10 completed
   const totalTasks = tasksCompleted + Math.floor(Math.random() * 5) + 3; // 3-8 remaining
   
-  const aircraft = mockAircraft.find(a => a.id === recommendation.aircraftId);
-  
   return {
     id: `workflow-${recommendation.id}`,
     recommendationId: recommendation.id,
     aircraftId: recommendation.aircraftId,
     tailNumber: recommendation.tailNumber,
     maintenanceType: recommendation.maintenanceType,
-    status: currentStatus as any,
+    status: currentStatus,
     progress: {
       tasksCompleted,
       totalTasks,
@@ -1404,8 +1321,8 @@ function createWorkflowFromRecommendation(recommendation: any, index: number): A
       estimatedCompletion: new Date(Date.now() + Math.random() * 7 * 24 * 60 * 60 * 1000).toISOString()
     },
     assignments: {
-      mechanic: ['John Smith', 'Mike Wilson', 'Sarah Rodriguez'][index % 3],
-      inspector: currentStatus === 'INSPECTION' ? 'David Chen' : undefined,
+      mechanic: crew.mechanic,
+      inspector: crew.inspector,
       supervisor: 'Tom Anderson'
     },
     resources: {
@@ -1431,7 +1348,8 @@ function getCurrentTask(status: string, maintenanceType: string): string {
     'IN_PROGRESS': `Performing ${maintenanceType} inspection procedures`,
     'AWAITING_PARTS': 'Waiting for parts delivery - Oil filter and spark plugs',
     'INSPECTION': 'Final quality inspection and documentation',
-    'DELAYED': 'Resolving technical issue - Awaiting manufacturer guidance'
+    'DELAYED': 'Resolving technical issue - Awaiting manufacturer guidance',
+    'COMPLETED': 'Work complete - aircraft returned to service'
   };
   return taskMap[status] || 'Unknown task';
 }
@@ -1442,20 +1360,17 @@ function getNextMilestone(status: string): string {
     'IN_PROGRESS': 'Complete systems testing',
     'AWAITING_PARTS': 'Resume work upon parts arrival',
     'INSPECTION': 'Final sign-off and aircraft release',
-    'DELAYED': 'Technical issue resolution'
+    'DELAYED': 'Technical issue resolution',
+    'COMPLETED': 'None - workflow closed'
   };
   return milestoneMap[status] || 'Continue work';
 }
 
+// Equipment and tooling from the checklist that the resource registry books; shop stock is left out
 function getRequiredEquipment(maintenanceType: string): string[] {
-  const equipmentMap = {
-    'A_CHECK': ['Basic Tool Kit', 'Multimeter', 'Torque Wrench'],
-    'C_CHECK': ['Comprehensive Tool Kit', 'Lift Equipment', 'Borescope', 'Pressure Test Kit'],
-    '100_HOUR': ['Engine Tools', 'Oil Analysis Kit', 'Compression Tester'],
-    'ANNUAL': ['Full Inspection Kit', 'NDT Equipment', 'Calibration Tools'],
-    'PROGRESSIVE': ['Progressive Kit', 'Documentation System']
-  };
-  return equipmentMap[maintenanceType] || ['Standard Tool Kit'];
+  const calendar = getResourceCalendar();
+  return resourceNeeds(maintenanceChecklists[maintenanceType])
+    .filter(need => need !== HANGAR_BAY && calendar.isTracked(need));
 }
 
 // POST endpoint enhanced with agentic workflow
@@ -1486,9 +1401,42 @@ export async function POST(request: NextRequest) {
       case 'update-workflow-status':
         return await updateWorkflowStatus(body);
       
+      case 'complete-interval':
+        return await completeMaintenanceInterval(body);
+      
+      case 'create-aircraft':
+        return await createAircraft(body);
+      
+      case 'add-directive':
+        return await addDirective(body);
+      
+      case 'record-directive-compliance':
+        return await recordDirectiveComplianceAction(body);
+      
+      case 'install-component':
+        return await installComponentAction(body);
+      
+      case 'remove-component':
+        return await removeComponentAction(body);
+      
+      case 'overhaul-component':
+        return await overhaulComponentAction(body);
+      
+      case 'record-flights':
+        return await recordFlightLog(body);
+      
+      case 'acknowledge-alert':
+        return acknowledgeExceedanceAlert(body);
+      
+      case 'acknowledge-assignment':
+        return await acknowledgeAssignment(body);
+      
+      case 'delegate-approval':
+        return delegateApproval(body);
+      
       default:
         return NextResponse.json(
-          { error: 'Invalid action. Use: update-config, manual-schedule, approve-schedule, approve-recommendation, reject-recommendation, update-task-status, or update-workflow-status' },
+          { error: 'Invalid action. Use: update-config, manual-schedule, approve-schedule, approve-recommendation, reject-recommendation, update-task-status, update-workflow-status, complete-interval, create-aircraft, add-directive, record-directive-compliance, install-component, remove-component, overhaul-component, record-flights, acknowledge-alert, acknowledge-assignment, or delegate-approval' },
           { status: 400 }
         );
     }
@@ -1516,11 +1464,20 @@ async function updateSchedulingConfig(body: any) {
 async function createManualSchedule(body: any) {
   const { aircraftId, maintenanceType, scheduledDate, notes } = body;
   
+  const fleetRepository = await getFleetRepository();
+  const aircraft = await fleetRepository.getAircraft(aircraftId);
+  if (!aircraft) {
+    return NextResponse.json(
+      { error: 'Aircraft not found' },
+      { status: 404 }
+    );
+  }
+  
   // Create manual schedule item
   const manualItem = {
     id: `manual-${Date.now()}`,
     aircraftId,
-    tailNumber: mockAircraft.find(a => a.id === aircraftId)?.tailNumber || 'Unknown',
+    tailNumber: aircraft.tailNumber,
     maintenanceType,
     scheduledDate: new Date(scheduledDate),
     estimatedDuration: 8, // Default
@@ -1535,9 +1492,25 @@ async function createManualSchedule(body: any) {
     mechanicRequirements: ['A&P Mechanic']
   };
   
+  // Persist the manual booking as a scheduled work order
+  const workOrder = await fleetRepository.saveWorkOrder({
+    id: `wo-${manualItem.id}`,
+    aircraftId,
+    workOrderNumber: generateWorkOrderNumber(),
+    title: `${maintenanceType} - Manually Scheduled`,
+    description: notes || `Manually scheduled ${maintenanceType} for ${aircraft.tailNumber}`,
+    status: 'OPEN',
+    priority: 'ROUTINE',
+    category: 'SCHEDULED',
+    estimatedHours: manualItem.estimatedDuration,
+    partsRequired: [],
+    createdAt: new Date(),
+    scheduledStartDate: manualItem.scheduledDate
+  });
+  
   return NextResponse.json({
     success: true,
-    data: manualItem,
+    data: { ...manualItem, workOrder },
     message: 'Manual maintenance scheduled successfully',
     timestamp: new Date().toISOString()
   });
@@ -1554,9 +1527,11 @@ async function approveSchedule(body: any) {
   });
 }
 
-// Enhanced approval endpoint to create workflow and send email notifications
+// Records one approval under the recommendation's approval policy; once the policy is
+// satisfied the workflow is created and email notifications are sent
 async function approveRecommendation(body: any) {
-  const { recommendationId, approvedBy, approvalNotes } = body;
+  const { recommendationId, approvedBy } = body;
+  const rationale = body.rationale || body.approvalNotes;
   
   if (!recommendationId || !approvedBy) {
     return NextResponse.json(
@@ -1564,6 +1539,12 @@ async function approveRecommendation(body: any) {
       { status: 400 }
     );
   }
+  if (!rationale) {
+    return NextResponse.json(
+      { error: 'rationale is required with every approval' },
+      { status: 400 }
+    );
+  }
   
   // Find the recommendation
   const recommendation = mockRecommendations.find(r => r.id === recommendationId);
@@ -1575,7 +1556,8 @@ async function approveRecommendation(body: any) {
   }
   
   // Find aircraft information
-  const aircraft = mockAircraft.find(a => a.id === recommendation.aircraftId);
+  const fleetRepository = await getFleetRepository();
+  const aircraft = await fleetRepository.getAircraft(recommendation.aircraftId);
   if (!aircraft) {
     return NextResponse.json(
       { error: 'Aircraft not found' },
@@ -1583,21 +1565,95 @@ async function approveRecommendation(body: any) {
     );
   }
   
-  // Update recommendation status
-  recommendation.status = 'APPROVED';
-  recommendation.approvedBy = approvedBy;
-  recommendation.approvedAt = new Date();
+  const rejection = recommendationLifecycle.check(recommendation, 'APPROVED', { actor: approvedBy });
+  if (rejection) {
+    return illegalTransition(rejection, recommendation.status, recommendationLifecycle.allowedFrom(recommendation.status));
+  }
   
-  // Create active workflow
-  const workflowId = `workflow-${recommendationId}`;
-  mockActiveWorkflows[workflowId] = createWorkflowFromRecommendation(recommendation, Object.keys(mockActiveWorkflows).length);
-  const activeWorkflow = mockActiveWorkflows[workflowId];
+  // An approved recommendation whose workflow could not be staffed is started again without re-approval
+  const existingApproval = agenticWorkflow.getApprovalStatus(recommendation);
+  const { status: approval, rejection: approvalRejection } = existingApproval?.approved
+    ? { status: existingApproval, rejection: undefined }
+    : agenticWorkflow.submitApproval(recommendation, approvedBy, rationale);
+  if (approvalRejection) {
+    return NextResponse.json(
+      { error: approvalRejection, approval },
+      { status: 403 }
+    );
+  }
+  if (!approval.approved) {
+    return NextResponse.json({
+      success: true,
+      data: { recommendation, approval },
+      message: `Approval recorded under the ${approval.policyName} policy; still needed: ${approval.outstanding.map(requirement => requirement.description).join('; ')}`,
+      timestamp: new Date().toISOString()
+    }, { status: 202 });
+  }
   
-  // Trigger agentic workflow
+  return startApprovedWorkflow(recommendation, aircraft, approval, rationale);
+}
+
+// AOG work within its policy's limits starts without waiting for approvers
+async function autoApproveRecommendations(recommendations: MaintenanceRecommendation[]) {
+  const fleetRepository = await getFleetRepository();
+  for (const recommendation of recommendations.filter(r => r.status === 'PENDING')) {
+    const aircraft = await fleetRepository.getAircraft(recommendation.aircraftId);
+    const approval = aircraft && agenticWorkflow.autoApprove(recommendation);
+    if (!approval) continue;
+    
+    try {
+      await startApprovedWorkflow(recommendation, aircraft, approval);
+    } catch (error) {
+      console.error(`Failed to start auto-approved workflow for ${recommendation.id}:`, error);
+    }
+  }
+}
+
+async function startApprovedWorkflow(
+  recommendation: MaintenanceRecommendation,
+  aircraft: Aircraft,
+  approval: ApprovalStatus,
+  approvalNotes?: string
+) {
+  const recommendationId = recommendation.id;
+  const approvedBy = approval.autoApproved
+    ? 'SYSTEM'
+    : approval.approvals.map(record => record.approverName).join(', ');
+  const fleetRepository = await getFleetRepository();
+  
+  // Trigger agentic workflow; it staffs the work from the roster and books the hangar, equipment and
+  // tooling, and fails when nobody qualified is free or anything tracked is taken or out of calibration
   const workflowResult = await agenticWorkflow.approveRecommendation(
-    recommendationId,
+    recommendation,
     approvedBy,
-    approvalNotes
+    approvalNotes,
+    aircraft
+  );
+  if (!workflowResult.success) {
+    return NextResponse.json(
+      { error: workflowResult.message, approval },
+      { status: 422 }
+    );
+  }
+  const assignments = agenticWorkflow.getAssignments(recommendationId);
+  const resourceBookings = agenticWorkflow.getResourceBookings(recommendationId);
+  
+  // Update recommendation status
+  recommendationLifecycle.transition(recommendation, 'APPROVED', { actor: approvedBy, notes: approvalNotes });
+  
+  // Create active workflow, crewed by the people just assigned
+  const workflowId = `workflow-${recommendationId}`;
+  mockActiveWorkflows[workflowId] = createWorkflowFromRecommendation(recommendation, Object.keys(mockActiveWorkflows).length, 'INITIATED', {
+    mechanic: assignments.find(a => a.assigneeType === 'MECHANIC')?.assigneeName,
+    inspector: assignments.find(a => a.assigneeType === 'INSPECTOR')?.assigneeName
+  });
+  const activeWorkflow: ActiveWorkflow = mockActiveWorkflows[workflowId];
+  activeWorkflow.resources.hangar = resourceBookings.find(b => b.resourceType === 'HANGAR')?.resourceName || activeWorkflow.resources.hangar;
+  activeWorkflow.resources.equipment = resourceBookings.filter(b => b.resourceType !== 'HANGAR').map(b => b.resourceName);
+  
+  // Record the approved work in the fleet's work order history
+  const workOrder = await fleetRepository.saveWorkOrder(
+    createWorkOrderFromRecommendation(recommendation, aircraft, activeWorkflow)
   );
   
   // **NEW: Send email notifications to all relevant personnel**
@@ -1608,8 +1664,11 @@ async function approveRecommendation(body: any) {
     
     console.log(`🧪 Test email service initialized with provider: ${emailConfig.provider}`);
     
-    // Get recipients based on maintenance type
-    const recipients = MaintenanceEmailService.getDefaultRecipients(recommendation.maintenanceType);
+    // The assigned crew plus the roster's standing recipients for this maintenance type
+    const recipients = MaintenanceEmailService.getDefaultRecipients(
+      recommendation.maintenanceType,
+      assignments.map(a => ({ name: a.assigneeName, email: a.assigneeEmail, role: a.assigneeType }))
+    );
     
     // Prepare email data
     const emailData: MaintenanceEmailData = {
@@ -1696,7 +1755,11 @@ async function approveRecommendation(body: any) {
       data: {
         recommendation,
         workflow: workflowResult,
+        approval,
         activeWorkflow,
+        assignments,
+        resourceBookings,
+        workOrder,
         emailNotifications: {
           sent: emailResults.sentEmails,
           recipients: recipients.map(r => ({ name: r.name, role: r.role, email: r.email })),
@@ -1720,7 +1783,11 @@ async function approveRecommendation(body: any) {
       data: {
         recommendation,
         workflow: workflowResult,
+        approval,
         activeWorkflow,
+        assignments,
+        resourceBookings,
+        workOrder,
         emailNotifications: {
           sent: 0,
           recipients: [],
@@ -1743,6 +1810,29 @@ async function approveRecommendation(body: any) {
   }
 }
 
+function createWorkOrderFromRecommendation(
+  recommendation: MaintenanceRecommendation,
+  aircraft: Aircraft,
+  workflow: ActiveWorkflow
+): WorkOrder {
+  return {
+    id: `wo-${recommendation.id}`,
+    aircraftId: aircraft.id,
+    workOrderNumber: generateWorkOrderNumber(),
+    title: `${recommendation.maintenanceType} - ${aircraft.tailNumber}`,
+    description: recommendation.reasoning.join('; '),
+    status: 'OPEN',
+    priority: recommendation.urgency === 'CRITICAL' ? 'AOG' : recommendation.urgency === 'HIGH' ? 'URGENT' : 'ROUTINE',
+    category: 'SCHEDULED',
+    mechanicAssigned: workflow.assignments.mechanic,
+    inspectorAssigned: workflow.assignments.inspector,
+    estimatedHours: recommendation.estimatedDowntime,
+    partsRequired: [],
+    createdAt: new Date(),
+    scheduledStartDate: new Date(recommendation.recommendedDate || Date.now())
+  };
+}
+
 // New endpoint: Reject AI Recommendation
 async function rejectRecommendation(body: any) {
   const { recommendationId, rejectedBy, rejectionReason } = body;
@@ -1763,7 +1853,11 @@ async function rejectRecommendation(body: any) {
     );
   }
   
-  recommendation.status = 'REJECTED';
+  const rejection = recommendationLifecycle.check(recommendation, 'REJECTED', { actor: rejectedBy });
+  if (rejection) {
+    return illegalTransition(rejection, recommendation.status, recommendationLifecycle.allowedFrom(recommendation.status));
+  }
+  recommendationLifecycle.transition(recommendation, 'REJECTED', { actor: rejectedBy, notes: rejectionReason });
   
   return NextResponse.json({
     success: true,
@@ -1778,7 +1872,55 @@ async function rejectRecommendation(body: any) {
 
 // New endpoint: Update Task Status
 async function updateTaskStatus(body: any) {
-  const { taskId, workOrderId, status, completedBy, notes } = body;
+  const { taskId, workOrderId, status, completedBy, signedOffBy, notes } = body;
+  
+  if (!taskId || !status) {
+    return NextResponse.json(
+      { error: 'taskId and status are required' },
+      { status: 400 }
+    );
+  }
+  if (!TASK_ASSIGNMENT_TRANSITIONS.hasOwnProperty(status)) {
+    return NextResponse.json(
+      { error: `Unknown task status ${status}. Use: ${Object.keys(TASK_ASSIGNMENT_TRANSITIONS).join(', ')}` },
+      { status: 400 }
+    );
+  }
+  
+  // Task assignments from an approved workflow follow their lifecycle, including the inspector sign-off
+  const assignment = agenticWorkflow.getAssignment(taskId);
+  if (!assignment) {
+    return NextResponse.json(
+      { error: 'Task assignment not found' },
+      { status: 404 }
+    );
+  }
+  const context = { actor: completedBy, signedOffBy, notes };
+  const rejection = agenticWorkflow.checkAssignmentTransition(taskId, status, context);
+  if (rejection) {
+    return illegalTransition(rejection, assignment.status, TASK_ASSIGNMENT_TRANSITIONS[assignment.status]);
+  }
+  
+  // Starting any task on an open work order moves the work order itself in progress
+  let workOrder: WorkOrder | null = null;
+  if (workOrderId) {
+    const fleetRepository = await getFleetRepository();
+    workOrder = await fleetRepository.getWorkOrder(workOrderId);
+    if (!workOrder) {
+      return NextResponse.json(
+        { error: 'Work order not found' },
+        { status: 404 }
+      );
+    }
+    
+    if (workOrder.status === 'OPEN' && (status === 'IN_PROGRESS' || status === 'COMPLETED')) {
+      workOrder = await fleetRepository.saveWorkOrder(
+        workOrderLifecycle.transition({ ...workOrder }, 'IN_PROGRESS', { actor: completedBy })
+      );
+    }
+  }
+  
+  agenticWorkflow.updateAssignmentStatus(taskId, status as TaskAssignmentStatus, context);
   
   return NextResponse.json({
     success: true,
@@ -1787,8 +1929,11 @@ async function updateTaskStatus(body: any) {
       workOrderId,
       status,
       completedBy,
+      signedOffBy,
       updatedAt: new Date(),
-      notes
+      notes,
+      assignment,
+      workOrder
     },
     message: 'Task status updated successfully',
     timestamp: new Date().toISOString()
@@ -1797,7 +1942,7 @@ async function updateTaskStatus(body: any) {
 
 // New endpoint: Update Workflow Status
 async function updateWorkflowStatus(body: any) {
-  const { workflowId, status, updatedBy, notes } = body;
+  const { workflowId, status, updatedBy, signedOffBy, notes } = body;
   
   if (!workflowId || !status) {
     return NextResponse.json(
@@ -1805,56 +1950,934 @@ async function updateWorkflowStatus(body: any) {
       { status: 400 }
     );
   }
+  if (!workflowLifecycle.isStatus(status)) {
+    return NextResponse.json(
+      { error: `Unknown workflow status ${status}. Use: ${workflowLifecycle.statuses.join(', ')}` },
+      { status: 400 }
+    );
+  }
   
-  // Update workflow status in mock storage
-  if (mockActiveWorkflows[workflowId]) {
-    const workflow = mockActiveWorkflows[workflowId];
-    const oldStatus = workflow.status;
-    
-    workflow.status = status;
-    workflow.notifications.lastSent = new Date().toISOString();
-    workflow.notifications.nextReminder = new Date(Date.now() + 4 * 60 * 60 * 1000).toISOString();
-    
-    // Update progress based on new status
-    if (status === 'IN_PROGRESS') {
-      workflow.progress.currentTask = `Performing ${workflow.maintenanceType} inspection procedures`;
-      workflow.progress.nextMilestone = 'Complete systems testing';
-    } else if (status === 'AWAITING_PARTS') {
-      workflow.progress.currentTask = 'Waiting for parts delivery - Oil filter and spark plugs';
-      workflow.progress.nextMilestone = 'Resume work upon parts arrival';
-    } else if (status === 'INSPECTION') {
-      workflow.progress.currentTask = 'Final quality inspection and documentation';
-      workflow.progress.nextMilestone = 'Final sign-off and aircraft release';
-      workflow.assignments.inspector = 'David Chen';
-    } else if (status === 'DELAYED') {
-      workflow.progress.currentTask = 'Resolving technical issue - Awaiting manufacturer guidance';
-      workflow.progress.nextMilestone = 'Technical issue resolution';
-      workflow.notifications.escalationLevel = 1;
-    }
-    
-    return NextResponse.json({
-      success: true,
-      data: {
-        workflowId,
-        oldStatus,
-        newStatus: status,
-        workflow,
-        message: `Workflow status updated from ${oldStatus} to ${status}`
-      },
-      timestamp: new Date().toISOString()
-    });
-  } else {
+  const workflow: ActiveWorkflow | undefined = mockActiveWorkflows[workflowId];
+  if (!workflow) {
     return NextResponse.json(
       { error: 'Workflow not found' },
       { status: 404 }
     );
   }
+  
+  const context = {
+    actor: updatedBy,
+    signedOffBy,
+    notes,
+    incompleteAssignments: agenticWorkflow.getAssignments(workflow.recommendationId)
+      .filter(assignment => assignment.status !== 'COMPLETED')
+      .map(assignment => assignment.id)
+  };
+  const rejection = workflowLifecycle.check(workflow, status, context);
+  if (rejection) {
+    return illegalTransition(rejection, workflow.status, workflowLifecycle.allowedFrom(workflow.status));
+  }
+  
+  // The persisted work order mirrors the workflow, so its move has to be legal too
+  const fleetRepository = await getFleetRepository();
+  const workOrder = await fleetRepository.getWorkOrder(`wo-${workflow.recommendationId}`);
+  const workOrderStatus = mapWorkflowStatusToWorkOrderStatus(status);
+  const moveWorkOrder = workOrder && workOrderStatus && workOrder.status !== workOrderStatus;
+  if (moveWorkOrder) {
+    const workOrderRejection = workOrderLifecycle.check(workOrder, workOrderStatus, context);
+    if (workOrderRejection) {
+      return illegalTransition(workOrderRejection, workOrder.status, workOrderLifecycle.allowedFrom(workOrder.status));
+    }
+  }
+  
+  // Work reaching inspection needs an inspector from the roster; nobody qualified being free stops the move
+  if (status === 'INSPECTION' && !workflow.assignments.inspector) {
+    const recommendation = mockRecommendations.find(r => r.id === workflow.recommendationId);
+    try {
+      workflow.assignments.inspector = await assignWorkflowRole({
+        id: workflow.recommendationId,
+        aircraftId: workflow.aircraftId,
+        maintenanceType: workflow.maintenanceType,
+        estimatedDowntime: recommendation?.estimatedDowntime
+      }, 'INSPECTOR');
+    } catch (error) {
+      return NextResponse.json(
+        { error: error.message, currentStatus: workflow.status },
+        { status: 422 }
+      );
+    }
+  }
+  
+  const oldStatus = workflow.status;
+  workflowLifecycle.transition(workflow, status, context);
+  if (moveWorkOrder) {
+    await fleetRepository.saveWorkOrder(workOrderLifecycle.transition({ ...workOrder }, workOrderStatus, context));
+  }
+  
+  return NextResponse.json({
+    success: true,
+    data: {
+      workflowId,
+      oldStatus,
+      newStatus: status,
+      workflow,
+      message: `Workflow status updated from ${oldStatus} to ${status}`
+    },
+    timestamp: new Date().toISOString()
+  });
+}
+
+// Add an aircraft and generate its intervals from the maintenance program for its type
+async function createAircraft(body: any) {
+  const { tailNumber, make, model } = body.aircraft || {};
+  
+  if (!tailNumber || !make || !model) {
+    return NextResponse.json(
+      { error: 'aircraft.tailNumber, aircraft.make and aircraft.model are required' },
+      { status: 400 }
+    );
+  }
+  if (!validateTailNumber(tailNumber)) {
+    return NextResponse.json(
+      { error: `Invalid tail number: ${tailNumber}` },
+      { status: 400 }
+    );
+  }
+  
+  // The ICAO address follows from the N-number; a supplied one must agree with it
+  const icaoAddress = nNumberToIcao(tailNumber);
+  const suppliedIcaoAddress = body.aircraft.icaoAddress?.trim().toLowerCase();
+  if (suppliedIcaoAddress && suppliedIcaoAddress !== icaoAddress) {
+    return NextResponse.json(
+      { error: `ICAO address ${body.aircraft.icaoAddress} does not match ${tailNumber.toUpperCase()} (expected ${icaoAddress})` },
+      { status: 400 }
+    );
+  }
+  
+  const program = await findMaintenanceProgram(make, model);
+  if (!program) {
+    return NextResponse.json(
+      { error: `No maintenance program defined for ${make} ${model}` },
+      { status: 422 }
+    );
+  }
+  
+  const fleetRepository = await getFleetRepository();
+  if (await fleetRepository.findAircraftByTailNumber(tailNumber.toUpperCase())) {
+    return NextResponse.json(
+      { error: `Aircraft ${tailNumber.toUpperCase()} already exists` },
+      { status: 409 }
+    );
+  }
+  
+  const now = new Date();
+  const input = body.aircraft;
+  const aircraft: Aircraft = {
+    id: input.id || tailNumber.toLowerCase(),
+    tailNumber: tailNumber.toUpperCase(),
+    make,
+    model,
+    serialNumber: input.serialNumber || '',
+    yearOfManufacture: input.yearOfManufacture || now.getFullYear(),
+    totalAircraftTime: input.totalAircraftTime || 0,
+    totalCycles: input.totalCycles || 0,
+    isActive: input.isActive ?? true,
+    certificateOfAirworthiness: input.certificateOfAirworthiness,
+    passengerSeats: input.passengerSeats,
+    lastInspectionDate: input.lastInspectionDate ? new Date(input.lastInspectionDate) : now,
+    nextInspectionDue: input.nextInspectionDue ? new Date(input.nextInspectionDue) : new Date(now.getTime() + 365 * 24 * 60 * 60 * 1000),
+    createdAt: now,
+    updatedAt: now,
+    flightStatus: input.flightStatus || 'AVAILABLE',
+    hobbsTime: input.hobbsTime,
+    tachoTime: input.tachoTime,
+    engineTimeTracking: input.engineTimeTracking || 'FLIGHT_TIME',
+    icaoAddress
+  };
+  
+  // Hours and cycles intervals are baselined at the last compliance from the logbooks, not at today's totals
+  const lastCompliance: { [intervalType: string]: IntervalCompliance } = {};
+  Object.entries(body.lastCompliance || {}).forEach(([intervalType, compliance]: [string, any]) => {
+    lastCompliance[intervalType] = {
+      completedAt: compliance.completedAt ? new Date(compliance.completedAt) : undefined,
+      completedHours: compliance.completedHours,
+      completedCycles: compliance.completedCycles
+    };
+  });
+  let programIntervals: MaintenanceInterval[];
+  try {
+    programIntervals = generateMaintenanceIntervals(aircraft, program, lastCompliance);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 422 }
+    );
+  }
+  
+  await fleetRepository.saveAircraft(aircraft);
+  const intervals = await Promise.all(
+    programIntervals.map(interval => fleetRepository.saveMaintenanceInterval(interval))
+  );
+  
+  return NextResponse.json({
+    success: true,
+    data: {
+      aircraft,
+      intervals,
+      program: { make: program.make, name: program.name, revision: program.revision }
+    },
+    message: `${aircraft.tailNumber} added with ${intervals.length} intervals from ${program.name}`,
+    timestamp: new Date().toISOString()
+  });
+}
+
+// Sign off an interval and rebase its next due point per its tolerance rule
+async function completeMaintenanceInterval(body: any) {
+  const { intervalId, completedAt, completedHours, completedCycles } = body;
+  
+  if (!intervalId) {
+    return NextResponse.json(
+      { error: 'intervalId is required' },
+      { status: 400 }
+    );
+  }
+  
+  const fleetRepository = await getFleetRepository();
+  const intervals = await fleetRepository.listMaintenanceIntervals();
+  const interval = intervals.find(i => i.id === intervalId);
+  const aircraft = interval && await fleetRepository.getAircraft(interval.aircraftId);
+  if (!interval || !aircraft) {
+    return NextResponse.json(
+      { error: 'Maintenance interval not found' },
+      { status: 404 }
+    );
+  }
+  
+  const rebased = rebaseMaintenanceInterval(aircraft, interval, {
+    completedAt: completedAt ? new Date(completedAt) : new Date(),
+    completedHours: completedHours ?? aircraft.totalAircraftTime,
+    completedCycles
+  });
+  const saved = await fleetRepository.saveMaintenanceInterval(rebased);
+  
+  // Every inspection sign-off carries the AD status for the inspection record
+  const { directives, records } = await loadDirectiveRegistry(fleetRepository, [aircraft]);
+  
+  return NextResponse.json({
+    success: true,
+    data: {
+      interval: saved,
+      previousDueHours: interval.nextDueHours,
+      previousDueAt: interval.nextDueAt,
+      due: computeMaintenanceDue(aircraft, saved),
+      adStatusReport: buildDirectiveStatusReport(aircraft, directives, records)
+    },
+    message: `${interval.description} signed off; next due rebased`,
+    timestamp: new Date().toISOString()
+  });
+}
+
+// AD/SB registry: opens compliance records for newly applicable directives before returning
+async function loadDirectiveRegistry(fleetRepository: FleetRepository, fleet: Aircraft[]) {
+  const [directives, existing] = await Promise.all([
+    fleetRepository.listDirectives(),
+    fleetRepository.listDirectiveCompliance()
+  ]);
+  
+  const opened = fleet.flatMap(aircraft => syncDirectiveRecords(aircraft, directives, existing));
+  const records = [...existing, ...await Promise.all(opened.map(record => fleetRepository.saveDirectiveCompliance(record)))];
+  
+  return { directives, records };
+}
+
+// Program intervals plus the AD/SB items and component life limits due on each aircraft
+async function withTrackedIntervals(
+  fleetRepository: FleetRepository,
+  fleet: Aircraft[],
+  intervals: MaintenanceInterval[]
+): Promise<MaintenanceInterval[]> {
+  const [{ directives, records }, components] = await Promise.all([
+    loadDirectiveRegistry(fleetRepository, fleet),
+    fleetRepository.listComponents()
+  ]);
+  return [
+    ...intervals,
+    ...fleet.flatMap(aircraft => getDirectiveDueIntervals(aircraft, directives, records)),
+    ...fleet.flatMap(aircraft => getComponentDueIntervals(aircraft, components))
+  ];
+}
+
+async function findAircraftParam(fleetRepository: FleetRepository, searchParams: URLSearchParams) {
+  const aircraftId = searchParams.get('aircraftId');
+  const tailNumber = searchParams.get('tailNumber');
+  if (aircraftId) return fleetRepository.getAircraft(aircraftId);
+  if (tailNumber) return fleetRepository.findAircraftByTailNumber(tailNumber);
+  return null;
+}
+
+async function getAirworthinessDirectives(searchParams: URLSearchParams) {
+  const fleetRepository = await getFleetRepository();
+  const aircraft = await findAircraftParam(fleetRepository, searchParams);
+  const directives = await fleetRepository.listDirectives();
+  
+  // With an aircraft, each directive carries its applicability and compliance record
+  const records = aircraft ? (await loadDirectiveRegistry(fleetRepository, [aircraft])).records : [];
+  
+  return NextResponse.json({
+    success: true,
+    data: directives.map(directive => aircraft ? {
+      ...directive,
+      appliesToAircraft: checkDirectiveApplicability(directive, aircraft),
+      compliance: records.find(r => r.aircraftId === aircraft.id && r.directiveId === directive.id) || null
+    } : directive),
+    timestamp: new Date().toISOString()
+  });
+}
+
+async function getDirectiveStatusReport(searchParams: URLSearchParams) {
+  const fleetRepository = await getFleetRepository();
+  const aircraft = await findAircraftParam(fleetRepository, searchParams);
+  if (!aircraft) {
+    return NextResponse.json(
+      { error: 'A valid aircraftId or tailNumber parameter is required' },
+      { status: 400 }
+    );
+  }
+  
+  const { directives, records } = await loadDirectiveRegistry(fleetRepository, [aircraft]);
+  
+  return NextResponse.json({
+    success: true,
+    data: buildDirectiveStatusReport(aircraft, directives, records),
+    timestamp: new Date().toISOString()
+  });
+}
+
+async function addDirective(body: any) {
+  let directive;
+  try {
+    directive = validateDirective(body.directive);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid directive' },
+      { status: 400 }
+    );
+  }
+  
+  const fleetRepository = await getFleetRepository();
+  const saved = await fleetRepository.saveDirective(directive);
+  const fleet = await fleetRepository.listAircraft();
+  const { records } = await loadDirectiveRegistry(fleetRepository, fleet);
+  const affected = fleet.filter(aircraft => checkDirectiveApplicability(saved, aircraft).applicable);
+  
+  return NextResponse.json({
+    success: true,
+    data: {
+      directive: saved,
+      applicableAircraft: affected.map(aircraft => aircraft.tailNumber),
+      records: records.filter(record => record.directiveId === saved.id)
+    },
+    message: `${saved.type} ${saved.number} added; applies to ${affected.length} aircraft`,
+    timestamp: new Date().toISOString()
+  });
+}
+
+// Record how a directive was complied with and move it to its next due point
+async function recordDirectiveComplianceAction(body: any) {
+  const { aircraftId, directiveId, methodOfCompliance, completedAt, completedHours, completedCycles } = body;
+  
+  if (!aircraftId || !directiveId) {
+    return NextResponse.json(
+      { error: 'aircraftId and directiveId are required' },
+      { status: 400 }
+    );
+  }
+  
+  const fleetRepository = await getFleetRepository();
+  const aircraft = await fleetRepository.getAircraft(aircraftId);
+  const { directives, records } = aircraft
+    ? await loadDirectiveRegistry(fleetRepository, [aircraft])
+    : { directives: [], records: [] };
+  const directive = directives.find(d => d.id === directiveId);
+  const record = records.find(r => r.aircraftId === aircraftId && r.directiveId === directiveId);
+  if (!aircraft || !directive || !record) {
+    return NextResponse.json(
+      { error: 'No applicable directive found for this aircraft' },
+      { status: 404 }
+    );
+  }
+  
+  let updated;
+  try {
+    updated = recordDirectiveCompliance(aircraft, directive, record, {
+      methodOfCompliance,
+      completedAt: completedAt ? new Date(completedAt) : new Date(),
+      completedHours: completedHours ?? aircraft.totalAircraftTime,
+      completedCycles,
+      performedBy: body.performedBy,
+      workOrderId: body.workOrderId,
+      terminating: body.terminating,
+      notes: body.notes
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid compliance entry' },
+      { status: 422 }
+    );
+  }
+  const saved = await fleetRepository.saveDirectiveCompliance(updated);
+  
+  return NextResponse.json({
+    success: true,
+    data: saved,
+    message: `${directive.type} ${directive.number} recorded as ${saved.status.toLowerCase()}`,
+    timestamp: new Date().toISOString()
+  });
+}
+
+// Compliance rule engine results per aircraft; findings are recorded on the audit trail
+// After a landing: re-check compliance and push an alert for every item that is now past due
+async function reevaluateAfterLanding(event: FlightTrackingEvent) {
+  const fleetRepository = await getFleetRepository();
+  const aircraft = await fleetRepository.findAircraftByTailNumber(event.tailNumber);
+  if (!aircraft) return;
+  
+  await evaluateFleetCompliance(fleetRepository, [aircraft]);
+  
+  const intervals = await withTrackedIntervals(fleetRepository, [aircraft], await fleetRepository.listMaintenanceIntervals(aircraft.id));
+  intervals.forEach(interval => {
+    const due = computeMaintenanceDue(aircraft, interval);
+    if (due.status !== 'OVERDUE' && due.status !== 'IN_TOLERANCE') return;
+    
+    const limit = due.limits.find(candidate => candidate.state === due.status) || due.limits[0];
+    flightService.publishMaintenanceAlert(aircraft.tailNumber, {
+      id: `due-${interval.id}-${event.id}`,
+      aircraftId: aircraft.id,
+      alertType: 'MAINTENANCE_DUE',
+      severity: due.status === 'OVERDUE' ? 'ALERT' : 'CAUTION',
+      message: `${aircraft.tailNumber} landed with ${interval.description} ${describeDueLimit(limit)}`,
+      // Amount past the due point against the late tolerance, in the driving limit's unit
+      triggerValue: Math.abs(limit.remaining),
+      thresholdValue: limit.lateTolerance,
+      unit: limit.limit === 'HOURS' ? 'hours' : limit.limit === 'CYCLES' ? 'cycles' : 'days',
+      timestamp: new Date(),
+      acknowledged: false,
+      requiresAction: true,
+      maintenanceRequired: due.status === 'OVERDUE'
+    });
+  });
+}
+
+async function evaluateFleetCompliance(fleetRepository: FleetRepository, fleet: Aircraft[]): Promise<ComplianceReport[]> {
+  const [intervals, workOrders, { directives, records }] = await Promise.all([
+    fleetRepository.listMaintenanceIntervals(),
+    fleetRepository.listWorkOrders(),
+    loadDirectiveRegistry(fleetRepository, fleet)
+  ]);
+  
+  return fleet.map(aircraft => {
+    const report = evaluateAircraftCompliance(aircraft, { intervals, workOrders, directives, directiveRecords: records });
+    agenticWorkflow.recordComplianceEvaluation(report);
+    return report;
+  });
+}
+
+function summarizeCompliance(reports: ComplianceReport[]) {
+  const total = reports.reduce((sum, report) => sum + report.summary.total, 0);
+  const findings = reports.reduce((sum, report) => sum + report.summary.overdue + report.summary.noRecord, 0);
+  
+  return {
+    aircraft: reports.length,
+    compliantAircraft: reports.filter(report => report.compliant).length,
+    items: total,
+    dueSoon: reports.reduce((sum, report) => sum + report.summary.dueSoon, 0),
+    overdue: reports.reduce((sum, report) => sum + report.summary.overdue, 0),
+    noRecord: reports.reduce((sum, report) => sum + report.summary.noRecord, 0),
+    complianceRate: total > 0 ? Math.round(((total - findings) / total) * 100) : 100
+  };
+}
+
+async function getComplianceStatus(searchParams: URLSearchParams) {
+  const fleetRepository = await getFleetRepository();
+  const aircraft = await findAircraftParam(fleetRepository, searchParams);
+  if ((searchParams.get('aircraftId') || searchParams.get('tailNumber')) && !aircraft) {
+    return NextResponse.json(
+      { error: 'Aircraft not found' },
+      { status: 404 }
+    );
+  }
+  
+  const reports = await evaluateFleetCompliance(fleetRepository, aircraft ? [aircraft] : await fleetRepository.listAircraft());
+  
+  return NextResponse.json({
+    success: true,
+    data: {
+      reports,
+      summary: summarizeCompliance(reports)
+    },
+    timestamp: new Date().toISOString()
+  });
+}
+
+async function getComponentStatus(searchParams: URLSearchParams) {
+  const fleetRepository = await getFleetRepository();
+  const aircraft = await findAircraftParam(fleetRepository, searchParams);
+  if ((searchParams.get('aircraftId') || searchParams.get('tailNumber')) && !aircraft) {
+    return NextResponse.json(
+      { error: 'Aircraft not found' },
+      { status: 404 }
+    );
+  }
+  
+  // Without an aircraft, every tracked component including spares in the shop
+  const components = await fleetRepository.listComponents(aircraft?.id);
+  const projections = components.map(component => projectComponentLife(component));
+  
+  return NextResponse.json({
+    success: true,
+    data: {
+      components: projections,
+      summary: {
+        total: projections.length,
+        installed: projections.filter(p => p.aircraftId).length,
+        dueSoon: projections.filter(p => p.status === 'DUE_SOON').length,
+        overdue: projections.filter(p => p.status === 'OVERDUE').length
+      }
+    },
+    timestamp: new Date().toISOString()
+  });
+}
+
+const componentEventDetails = (body: any) => ({
+  date: body.date ? new Date(body.date) : new Date(),
+  reason: body.reason,
+  performedBy: body.performedBy,
+  workOrderId: body.workOrderId
+});
+
+async function installComponentAction(body: any) {
+  const { componentId, aircraftId, position } = body;
+  
+  if (!componentId || !aircraftId || !position) {
+    return NextResponse.json(
+      { error: 'componentId, aircraftId and position are required' },
+      { status: 400 }
+    );
+  }
+  
+  const fleetRepository = await getFleetRepository();
+  const [component, aircraft] = await Promise.all([
+    fleetRepository.getComponent(componentId),
+    fleetRepository.getAircraft(aircraftId)
+  ]);
+  if (!component || !aircraft) {
+    return NextResponse.json(
+      { error: 'Component or aircraft not found' },
+      { status: 404 }
+    );
+  }
+  
+  let result;
+  try {
+    result = installComponent(component, aircraft, position, componentEventDetails(body));
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Component cannot be installed' },
+      { status: 422 }
+    );
+  }
+  
+  const [saved, , event] = await Promise.all([
+    fleetRepository.saveComponent(result.component),
+    fleetRepository.saveAircraft(result.aircraft),
+    fleetRepository.saveComponentEvent(result.event)
+  ]);
+  
+  return NextResponse.json({
+    success: true,
+    data: { component: saved, event, projection: projectComponentLife(saved) },
+    message: `S/N ${saved.serialNumber} installed at ${position} on ${aircraft.tailNumber}`,
+    timestamp: new Date().toISOString()
+  });
+}
+
+async function removeComponentAction(body: any) {
+  const { componentId } = body;
+  
+  if (!componentId) {
+    return NextResponse.json(
+      { error: 'componentId is required' },
+      { status: 400 }
+    );
+  }
+  
+  const fleetRepository = await getFleetRepository();
+  const component = await fleetRepository.getComponent(componentId);
+  const aircraft = component?.installedOn && await fleetRepository.getAircraft(component.installedOn.aircraftId);
+  if (!component || !aircraft) {
+    return NextResponse.json(
+      { error: 'Installed component not found' },
+      { status: 404 }
+    );
+  }
+  
+  let result;
+  try {
+    result = removeComponent(component, aircraft, componentEventDetails(body));
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Component cannot be removed' },
+      { status: 422 }
+    );
+  }
+  
+  const [saved, , event] = await Promise.all([
+    fleetRepository.saveComponent(result.component),
+    fleetRepository.saveAircraft(result.aircraft),
+    fleetRepository.saveComponentEvent(result.event)
+  ]);
+  
+  return NextResponse.json({
+    success: true,
+    data: { component: saved, event },
+    message: `S/N ${saved.serialNumber} removed from ${event.position} on ${aircraft.tailNumber}`,
+    timestamp: new Date().toISOString()
+  });
+}
+
+async function overhaulComponentAction(body: any) {
+  const { componentId } = body;
+  
+  if (!componentId) {
+    return NextResponse.json(
+      { error: 'componentId is required' },
+      { status: 400 }
+    );
+  }
+  
+  const fleetRepository = await getFleetRepository();
+  const component = await fleetRepository.getComponent(componentId);
+  if (!component) {
+    return NextResponse.json(
+      { error: 'Component not found' },
+      { status: 404 }
+    );
+  }
+  
+  let result;
+  try {
+    result = recordComponentOverhaul(component, componentEventDetails(body));
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Overhaul cannot be recorded' },
+      { status: 422 }
+    );
+  }
+  
+  const [saved, event] = await Promise.all([
+    fleetRepository.saveComponent(result.component),
+    fleetRepository.saveComponentEvent(result.event)
+  ]);
+  
+  return NextResponse.json({
+    success: true,
+    data: { component: saved, event, projection: projectComponentLife(saved) },
+    message: `S/N ${saved.serialNumber} overhauled; time since overhaul reset`,
+    timestamp: new Date().toISOString()
+  });
+}
+
+// Newly flown flights are logged, move the airframe totals and accrue onto every component installed at the time
+async function recordFlightLog(body: any) {
+  const flights: FlightHistory[] = (body.flights || []).map((flight: any) => {
+    const arrival = new Date(flight.arrival?.time);
+    return {
+      ...flight,
+      id: flight.id || `flt-${flight.aircraftId}-${arrival.getTime()}`,
+      flightDate: new Date(flight.flightDate || flight.arrival?.time),
+      departure: { ...flight.departure, time: new Date(flight.departure?.time) },
+      arrival: { ...flight.arrival, time: arrival },
+      cycles: flight.cycles ?? 1,
+      dataSource: flight.dataSource || 'MANUAL'
+    };
+  });
+  
+  if (flights.length === 0 || flights.some(flight => !flight.aircraftId || !flight.flightTime || isNaN(flight.arrival.time.getTime()))) {
+    return NextResponse.json(
+      { error: 'flights must each have an aircraftId, flightTime (minutes) and arrival.time' },
+      { status: 400 }
+    );
+  }
+  
+  const fleetRepository = await getFleetRepository();
+  for (const aircraftId of Array.from(new Set(flights.map(flight => flight.aircraftId)))) {
+    if (!(await fleetRepository.getAircraft(aircraftId))) {
+      return NextResponse.json(
+        { error: `Aircraft ${aircraftId} not found` },
+        { status: 404 }
+      );
+    }
+  }
+  
+  const recorded = await recordFlights(fleetRepository, flights);
+  const skipped = flights.length - recorded.flights.length;
+  
+  return NextResponse.json({
+    success: true,
+    data: {
+      flights: recorded.flights,
+      aircraft: recorded.aircraft.map(aircraft => ({
+        id: aircraft.id,
+        tailNumber: aircraft.tailNumber,
+        totalAircraftTime: aircraft.totalAircraftTime,
+        totalCycles: aircraft.totalCycles
+      })),
+      components: recorded.components.map(component => projectComponentLife(component))
+    },
+    message: `${recorded.flights.length} flight(s) recorded${skipped > 0 ? `, ${skipped} already logged` : ''}; ${recorded.components.length} component(s) updated`,
+    timestamp: new Date().toISOString()
+  });
+}
+
+// Exceedance alerts, newest first; acknowledged=false lists the ones still open
+async function getExceedanceAlerts(searchParams: URLSearchParams) {
+  const fleetRepository = await getFleetRepository();
+  const aircraft = await findAircraftParam(fleetRepository, searchParams);
+  if ((searchParams.get('aircraftId') || searchParams.get('tailNumber')) && !aircraft) {
+    return NextResponse.json(
+      { error: 'Aircraft not found' },
+      { status: 404 }
+    );
+  }
+  
+  const acknowledged = searchParams.get('acknowledged');
+  const alerts = exceedanceMonitor.listAlerts({
+    aircraftId: aircraft?.id,
+    acknowledged: acknowledged === null ? undefined : acknowledged === 'true'
+  });
+  
+  return NextResponse.json({
+    success: true,
+    data: {
+      alerts,
+      summary: {
+        total: alerts.length,
+        unacknowledged: alerts.filter(alert => !alert.acknowledged).length,
+        maintenanceRequired: alerts.filter(alert => alert.maintenanceRequired).length
+      }
+    },
+    timestamp: new Date().toISOString()
+  });
+}
+
+function acknowledgeExceedanceAlert(body: any) {
+  if (!body.alertId || !body.acknowledgedBy) {
+    return NextResponse.json(
+      { error: 'alertId and acknowledgedBy are required' },
+      { status: 400 }
+    );
+  }
+  
+  try {
+    const alert = exceedanceMonitor.acknowledge(body.alertId, body.acknowledgedBy);
+    return NextResponse.json({
+      success: true,
+      data: alert,
+      message: `Alert ${alert.id} acknowledged by ${alert.acknowledgedBy}`,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Alert not found' },
+      { status: 404 }
+    );
+  }
+}
+
+// The assignee confirms a task assignment, which cancels its pending escalation
+async function acknowledgeAssignment(body: any) {
+  if (!body.assignmentId || !body.acknowledgedBy) {
+    return NextResponse.json(
+      { error: 'assignmentId and acknowledgedBy are required' },
+      { status: 400 }
+    );
+  }
+  
+  const escalationCancelled = await agenticWorkflow.acknowledgeAssignment(body.assignmentId, body.acknowledgedBy);
+  
+  return NextResponse.json({
+    success: true,
+    data: { assignmentId: body.assignmentId, escalationCancelled },
+    message: `Assignment ${body.assignmentId} acknowledged by ${body.acknowledgedBy}`,
+    timestamp: new Date().toISOString()
+  });
+}
+
+// Where a recommendation stands against its approval policy
+function getApprovalStatus(searchParams: URLSearchParams) {
+  const recommendationId = searchParams.get('recommendationId');
+  if (!recommendationId) {
+    return NextResponse.json(
+      { error: 'recommendationId parameter is required' },
+      { status: 400 }
+    );
+  }
+  
+  const recommendation = mockRecommendations.find(r => r.id === recommendationId);
+  if (!recommendation) {
+    return NextResponse.json(
+      { error: 'Recommendation not found' },
+      { status: 404 }
+    );
+  }
+  
+  const approval = agenticWorkflow.getApprovalStatus(recommendation);
+  if (!approval) {
+    return NextResponse.json(
+      { error: `No approval policy covers recommendation ${recommendationId}` },
+      { status: 422 }
+    );
+  }
+  
+  return NextResponse.json({
+    success: true,
+    data: { recommendationId, recommendationStatus: recommendation.status, approval },
+    timestamp: new Date().toISOString()
+  });
+}
+
+function getApprovalPolicies() {
+  return NextResponse.json({
+    success: true,
+    data: {
+      policies: agenticWorkflow.listApprovalPolicies(),
+      delegations: agenticWorkflow.listApprovalDelegations()
+    },
+    timestamp: new Date().toISOString()
+  });
+}
+
+// The resource registry, with whether each item is free over a window (default: the next 24 hours)
+async function getResources(searchParams: URLSearchParams) {
+  const type = searchParams.get('type');
+  if (type && !RESOURCE_TYPES.includes(type as ResourceType)) {
+    return NextResponse.json(
+      { error: `Unknown resource type ${type}. Use: ${RESOURCE_TYPES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+  const from = new Date(searchParams.get('from') || Date.now());
+  const until = new Date(searchParams.get('until') || from.getTime() + 24 * 60 * 60 * 1000);
+  if (isNaN(from.getTime()) || isNaN(until.getTime()) || until <= from) {
+    return NextResponse.json(
+      { error: 'from and until must be dates, with until after from' },
+      { status: 400 }
+    );
+  }
+  
+  const calendar = getResourceCalendar();
+  await calendar.refresh();
+  const resources = calendar.listResources()
+    .filter(resource => !type || resource.type === type)
+    .map(resource => calendar.availability(resource.id, from, until));
+  
+  return NextResponse.json({
+    success: true,
+    data: {
+      window: { from: from.toISOString(), until: until.toISOString() },
+      resources,
+      available: resources.filter(entry => entry.available).length,
+      unavailable: resources.filter(entry => !entry.available).length
+    },
+    timestamp: new Date().toISOString()
+  });
+}
+
+// Bookings over a window (default: the next 14 days), for one resource or one recommendation if given
+async function getResourceCalendarView(searchParams: URLSearchParams) {
+  const from = new Date(searchParams.get('from') || Date.now());
+  const until = new Date(searchParams.get('until') || from.getTime() + 14 * 24 * 60 * 60 * 1000);
+  if (isNaN(from.getTime()) || isNaN(until.getTime()) || until <= from) {
+    return NextResponse.json(
+      { error: 'from and until must be dates, with until after from' },
+      { status: 400 }
+    );
+  }
+  
+  const calendar = getResourceCalendar();
+  await calendar.refresh();
+  const bookings = calendar.getBookings({
+    from,
+    until,
+    resourceId: searchParams.get('resourceId') || undefined,
+    recommendationId: searchParams.get('recommendationId') || undefined,
+    includeReleased: searchParams.get('includeReleased') === 'true'
+  });
+  
+  return NextResponse.json({
+    success: true,
+    data: {
+      window: { from: from.toISOString(), until: until.toISOString() },
+      bookings,
+      totalBookings: bookings.length
+    },
+    timestamp: new Date().toISOString()
+  });
+}
+
+// A role holder hands their approval role to someone else until a given time (e.g. while on leave)
+function delegateApproval(body: any) {
+  const { delegatedBy, delegateTo, role, validUntil, reason } = body;
+  
+  if (!delegatedBy || !delegateTo || !role || !validUntil) {
+    return NextResponse.json(
+      { error: 'delegatedBy, delegateTo, role and validUntil are required' },
+      { status: 400 }
+    );
+  }
+  if (!APPROVAL_ROLES.includes(role)) {
+    return NextResponse.json(
+      { error: `Unknown approval role ${role}. Use: ${APPROVAL_ROLES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+  
+  const { delegation, rejection } = agenticWorkflow.delegateApproval(delegatedBy, delegateTo, role, new Date(validUntil), reason);
+  if (rejection) {
+    return NextResponse.json(
+      { error: rejection },
+      { status: 422 }
+    );
+  }
+  
+  return NextResponse.json({
+    success: true,
+    data: delegation,
+    message: `${delegation.fromName} delegated approval as ${role} to ${delegation.toName} until ${delegation.validUntil.toISOString()}`,
+    timestamp: new Date().toISOString()
+  });
+}
+
+function mapWorkflowStatusToWorkOrderStatus(status: WorkflowStatus): WorkOrder['status'] | null {
+  switch (status) {
+    case 'IN_PROGRESS':
+    case 'INSPECTION':
+      return 'IN_PROGRESS';
+    case 'AWAITING_PARTS':
+      return 'WAITING_PARTS';
+    case 'COMPLETED':
+      return 'COMPLETED';
+    default:
+      return null;
+  }
 }
 
 // Helper functions to generate realistic mock data
-async function generateMockFlightHistory() {
+// Days are counted from midnight so a seeded run plans around the same flights all day
+async function generateMockFlightHistory(fleet: Aircraft[], random: () => number = Math.random) {
   const history = [];
   const now = new Date();
+  now.setHours(0, 0, 0, 0);
   
   // Create different utilization profiles for each aircraft
   const utilizationProfiles = {
@@ -1878,7 +2901,7 @@ async function generateMockFlightHistory() {
     }
   };
   
-  for (const aircraft of mockAircraft) {
+  for (const aircraft of fleet) {
     const profile = utilizationProfiles[aircraft.id] || utilizationProfiles['n456cd']; // Default to medium
     
     // Generate 30 days of flight history with realistic patterns
@@ -1895,17 +2918,17 @@ async function generateMockFlightHistory() {
       }
       
       // Determine if aircraft flies this day
-      if (Math.random() < adjustedProbability) {
-        const numberOfFlights = Math.random() < (profile.cycles - 1) ? 2 : 1; // Sometimes multiple flights
+      if (random() < adjustedProbability) {
+        const numberOfFlights = random() < (profile.cycles - 1) ? 2 : 1; // Sometimes multiple flights
         
         for (let flightNum = 0; flightNum < numberOfFlights; flightNum++) {
           // Generate realistic flight time with variation
-          const baseFlightTime = profile.avgFlightTime + (Math.random() - 0.5) * profile.flightTimeVariation;
+          const baseFlightTime = profile.avgFlightTime + (random() - 0.5) * profile.flightTimeVariation;
           const flightTime = Math.max(30, Math.min(480, baseFlightTime)); // 30min to 8hrs
-          const blockTime = flightTime + (15 + Math.random() * 15); // Add taxi time
+          const blockTime = flightTime + (15 + random() * 15); // Add taxi time
           
           // Generate departure time based on flight number
-          const baseHour = flightNum === 0 ? 8 + Math.random() * 4 : 14 + Math.random() * 4; // Morning or afternoon
+          const baseHour = flightNum === 0 ? 8 + random() * 4 : 14 + random() * 4; // Morning or afternoon
           const departureTime = new Date(flightDate.getTime() + baseHour * 60 * 60 * 1000);
           const arrivalTime = new Date(departureTime.getTime() + flightTime * 60 * 1000);
           
@@ -1921,12 +2944,12 @@ async function generateMockFlightHistory() {
             ['KBOS', 'KJFK'], ['KJFK', 'KBOS']  // Boston to NYC (short)
           ];
           
-          const [departure, arrival] = airportPairs[Math.floor(Math.random() * airportPairs.length)];
+          const [departure, arrival] = airportPairs[Math.floor(random() * airportPairs.length)];
           
           // Calculate realistic metrics based on route
-          const distance = calculateDistance(departure, arrival);
-          const avgSpeed = 420 + Math.random() * 80; // 420-500 knots
-          const fuelUsed = distance * (2.8 + Math.random() * 0.8); // 2.8-3.6 gallons per nm
+          const distance = calculateDistance(departure, arrival, random);
+          const avgSpeed = 420 + random() * 80; // 420-500 knots
+          const fuelUsed = distance * (2.8 + random() * 0.8); // 2.8-3.6 gallons per nm
           
           history.push({
             id: `flight-${aircraft.id}-${i}-${flightNum}`,
@@ -1945,12 +2968,12 @@ async function generateMockFlightHistory() {
             blockTime: Math.round(blockTime),
             flightTime: Math.round(flightTime),
             cycles: 1,
-            maxAltitude: 35000 + Math.random() * 6000,
+            maxAltitude: 35000 + random() * 6000,
             averageSpeed: Math.round(avgSpeed),
             fuelUsed: Math.round(fuelUsed),
             distance: Math.round(distance),
-            pilotInCommand: ['John Smith', 'Sarah Johnson', 'Mike Wilson', 'Lisa Chen', 'David Rodriguez'][Math.floor(Math.random() * 5)],
-            notes: Math.random() > 0.9 ? generateFlightNote() : undefined
+            pilotInCommand: ['John Smith', 'Sarah Johnson', 'Mike Wilson', 'Lisa Chen', 'David Rodriguez'][Math.floor(random() * 5)],
+            notes: random() > 0.9 ? generateFlightNote(random) : undefined
           });
         }
       }
@@ -1961,7 +2984,7 @@ async function generateMockFlightHistory() {
 }
 
 // Helper function to calculate realistic distances between airports
-function calculateDistance(airport1: string, airport2: string): number {
+function calculateDistance(airport1: string, airport2: string, random: () => number = Math.random): number {
   // Simplified distance calculator using rough airport coordinates
   const airportDistances = {
     'KJFK-KORD': 740, 'KORD-KJFK': 740,
@@ -1975,11 +2998,11 @@ function calculateDistance(airport1: string, airport2: string): number {
   };
   
   const key = `${airport1}-${airport2}`;
-  return airportDistances[key] || 500 + Math.random() * 1000; // Default range
+  return airportDistances[key] || 500 + random() * 1000; // Default range
 }
 
 // Generate interesting flight notes occasionally
-function generateFlightNote(): string {
+function generateFlightNote(random: () => number = Math.random): string {
   const notes = [
     'Normal operations',
     'Minor weather delay on departure',
@@ -1990,37 +3013,38 @@ function generateFlightNote(): string {
     'Medical transport mission',
     'Charter flight to corporate meeting'
   ];
-  return notes[Math.floor(Math.random() * notes.length)];
+  return notes[Math.floor(random() * notes.length)];
 }
 
-async function generateMockUpcomingFlights() {
+async function generateMockUpcomingFlights(fleet: Aircraft[], random: () => number = Math.random) {
   const upcomingFlights = [];
   const now = new Date();
+  now.setHours(0, 0, 0, 0);
   
-  for (const aircraft of mockAircraft) {
+  for (const aircraft of fleet) {
     // Generate next 14 days of planned flights
     for (let i = 1; i <= 14; i++) {
       const flightDate = new Date(now.getTime() + i * 24 * 60 * 60 * 1000);
       
       // Simulate realistic scheduling (less frequent in future)
-      if (Math.random() > 0.5) { // 50% chance of planned flight
+      if (random() > 0.5) { // 50% chance of planned flight
         upcomingFlights.push({
           id: `planned-${aircraft.id}-${i}`,
           aircraftId: aircraft.id,
-          flightNumber: `GAC${Math.floor(Math.random() * 1000)}`,
+          flightNumber: `GAC${Math.floor(random() * 1000)}`,
           departure: {
-            airport: ['KJFK', 'KORD', 'KLAX'][Math.floor(Math.random() * 3)],
+            airport: ['KJFK', 'KORD', 'KLAX'][Math.floor(random() * 3)],
             scheduledTime: new Date(flightDate.getTime() + 10 * 60 * 60 * 1000), // 10 AM
           },
           arrival: {
-            airport: ['KORD', 'KLAX', 'KJFK'][Math.floor(Math.random() * 3)],
+            airport: ['KORD', 'KLAX', 'KJFK'][Math.floor(random() * 3)],
             scheduledTime: new Date(flightDate.getTime() + 13 * 60 * 60 * 1000), // 1 PM
           },
           route: 'Direct',
           estimatedFlightTime: 180, // 3 hours
           estimatedBlockTime: 200,
           fuelRequired: 900,
-          passengers: Math.floor(Math.random() * 8) + 2,
+          passengers: Math.floor(random() * 8) + 2,
           crew: 2,
           status: 'PLANNED' as const,
           pilotInCommand: 'TBD',
@@ -13,12 +13,13 @@ import {
   Map,
   Mic,
   Radio,
-  Brain
+  Brain,
+  PlayCircle
 } from 'lucide-react';
 import Link from 'next/link';
 import dynamic from 'next/dynamic';
 import VoiceAssistant from '@/components/VoiceAssistant';
-import { AircraftPosition, FlightData } from '@/types';
+import { AircraftPosition, FlightBasedAlert, FlightData, FlightTrack } from '@/types';
 
 // Dynamic import for FlightMap to fix SSR issues with Leaflet
 const FlightMap = dynamic(() => import('@/components/FlightMap'), { 
@@ -230,35 +231,115 @@ export default function Dashboard() {
   const [selectedAircraft, setSelectedAircraft] = useState<string>('');
   const [flightDataLoading, setFlightDataLoading] = useState(true);
   const [lastUpdateTime, setLastUpdateTime] = useState<Date>(new Date());
+  const [compliance, setCompliance] = useState<{ summary: any; reports: any[] } | null>(null);
+  const [liveAlerts, setLiveAlerts] = useState<(typeof mockAlerts[number] & { flightId?: string })[]>([]);
+  const [replayTrack, setReplayTrack] = useState<FlightTrack | null>(null);
+  const [replayError, setReplayError] = useState('');
 
-  // Fetch fleet positions on component mount and set up polling
+  // Live fleet positions and alerts over Server-Sent Events; EventSource reconnects on its own
+  // and the server resumes after the last event id it received
   useEffect(() => {
-    const fetchFleetPositions = async () => {
+    const source = new EventSource('/api/flight-data?action=stream');
+    
+    source.addEventListener('snapshot', (event) => {
+      setFleetPositions(JSON.parse((event as MessageEvent).data));
+      setLastUpdateTime(new Date());
+      setFlightDataLoading(false);
+    });
+    
+    source.addEventListener('position', (event) => {
+      const position: AircraftPosition = JSON.parse((event as MessageEvent).data);
+      setFleetPositions(current => current.some(entry => entry.tailNumber === position.tailNumber)
+        ? current.map(entry => entry.tailNumber === position.tailNumber ? position : entry)
+        : [...current, position]);
+      setLastUpdateTime(new Date());
+    });
+    
+    source.addEventListener('alert', (event) => {
+      const alert: FlightBasedAlert = JSON.parse((event as MessageEvent).data);
+      setLiveAlerts(current => [
+        {
+          id: alert.id,
+          type: 'maintenance_due',
+          message: alert.message,
+          priority: alert.severity === 'ALERT' ? 'critical' : 'high',
+          timestamp: new Date(alert.timestamp),
+          flightId: alert.flightId
+        },
+        ...current.filter(entry => entry.id !== alert.id)
+      ].slice(0, 10));
+    });
+    
+    source.addEventListener('flight-event', (event) => {
+      const flightEvent = JSON.parse((event as MessageEvent).data);
+      if (flightEvent.type !== 'STALE_DATA') return;
+      setLiveAlerts(current => [
+        {
+          id: `stale-${(event as MessageEvent).lastEventId}`,
+          type: 'stale_data',
+          message: `${flightEvent.tailNumber} - No current flight data`,
+          priority: 'medium',
+          timestamp: new Date(flightEvent.timestamp)
+        },
+        ...current
+      ].slice(0, 10));
+    });
+    
+    source.onerror = () => setFlightDataLoading(false);
+    
+    return () => source.close();
+  }, []);
+
+  // Stored track of a flight (e.g. the one behind a hard-landing alert) or an aircraft's latest flight
+  const loadReplay = async (query: string) => {
+    setReplayError('');
+    try {
+      const response = await fetch(`/api/flight-data?action=flight-track&${query}`);
+      const data = await response.json();
+      
+      if (data.success) {
+        setReplayTrack(data.data);
+      } else {
+        setReplayError(data.error || 'Flight track not available');
+      }
+    } catch (error) {
+      console.error('Failed to load flight track:', error);
+      setReplayError('Flight track not available');
+    }
+  };
+
+  // Compliance rule engine results for the fleet
+  useEffect(() => {
+    const fetchCompliance = async () => {
       try {
-        setFlightDataLoading(true);
-        const response = await fetch('/api/flight-data?action=fleet-positions&tailNumbers=N123AB,N456CD,N789XY');
+        const response = await fetch('/api/maintenance-schedule?action=compliance-status');
         const data = await response.json();
         
         if (data.success) {
-          setFleetPositions(data.data);
-          setLastUpdateTime(new Date());
+          setCompliance(data.data);
         }
       } catch (error) {
-        console.error('Failed to fetch fleet positions:', error);
-      } finally {
-        setFlightDataLoading(false);
+        console.error('Failed to fetch compliance status:', error);
       }
     };
 
-    // Initial fetch
-    fetchFleetPositions();
-
-    // Set up polling every 30 seconds
-    const interval = setInterval(fetchFleetPositions, 30000);
-
-    return () => clearInterval(interval);
+    fetchCompliance();
   }, []);
 
+  // Overdue and unrecorded compliance items lead the alert list
+  const complianceAlerts = (compliance?.reports || []).flatMap((report: any) =>
+    report.items
+      .filter((item: any) => item.status === 'OVERDUE' || item.status === 'NO_RECORD')
+      .map((item: any) => ({
+        id: item.id,
+        type: 'compliance',
+        message: `${report.tailNumber} - FAR ${item.regulation}: ${item.description} ${item.status === 'OVERDUE' ? 'overdue' : 'has no compliance record'}`,
+        priority: item.status === 'OVERDUE' ? 'critical' : 'high',
+        timestamp: new Date(report.evaluatedAt)
+      }))
+  );
+  const complianceFindings = compliance ? compliance.summary.overdue + compliance.summary.noRecord : 0;
+
   // Calculate real-time availability based on flight positions
   const calculateRealTimeAvailability = () => {
     const availableAircraft = fleetPositions.filter(pos => 
@@ -340,9 +421,21 @@ export default function Dashboard() {
                 <Map className="text-blue-600" size={24} />
                 <h3 className="text-lg font-semibold">Real-time Fleet Positions</h3>
               </div>
-              <div className="flex items-center gap-2 text-sm text-gray-500">
-                <Radio size={16} />
-                <span>Live ADS-B Data</span>
+              <div className="flex items-center gap-4 text-sm text-gray-500">
+                {replayError && <span className="text-red-600">{replayError}</span>}
+                {selectedAircraft && !replayTrack && (
+                  <button
+                    onClick={() => loadReplay(`tailNumber=${encodeURIComponent(selectedAircraft)}`)}
+                    className="flex items-center gap-1 text-blue-600 hover:text-blue-800 font-medium"
+                  >
+                    <PlayCircle size={16} />
+                    Replay last flight of {selectedAircraft}
+                  </button>
+                )}
+                <div className="flex items-center gap-2">
+                  <Radio size={16} />
+                  <span>{replayTrack ? `Replay of ${replayTrack.tailNumber}` : 'Live ADS-B Data'}</span>
+                </div>
               </div>
             </div>
             
@@ -351,6 +444,8 @@ export default function Dashboard() {
               selectedAircraft={selectedAircraft}
               onAircraftSelect={setSelectedAircraft}
               height="400px"
+              replayTrack={replayTrack}
+              onReplayClose={() => setReplayTrack(null)}
             />
           </div>
         </div>
@@ -380,10 +475,10 @@ export default function Dashboard() {
           />
           <MetricCard
             title="Compliance Rate"
-            value={`${mockMetrics.compliancePercentage}%`}
+            value={`${compliance ? compliance.summary.complianceRate : mockMetrics.compliancePercentage}%`}
             icon={CheckCircle}
-            trend="Within Part 135 requirements"
-            color="green"
+            trend={complianceFindings > 0 ? `${complianceFindings} findings need attention` : 'Within Part 135 requirements'}
+            color={complianceFindings > 0 ? 'yellow' : 'green'}
           />
         </div>
 
@@ -452,7 +547,7 @@ export default function Dashboard() {
             </div>
             <div className="p-6">
               <div className="space-y-4">
-                {mockAlerts.map((alert) => (
+                {[...liveAlerts, ...complianceAlerts, ...mockAlerts].map((alert) => (
                   <div
                     key={alert.id}
                     className={`p-4 rounded-lg border-l-4 ${
@@ -469,6 +564,15 @@ export default function Dashboard() {
                         <p className="text-sm text-gray-500 mt-1">
                           {alert.timestamp.toLocaleString()}
                         </p>
+                        {'flightId' in alert && alert.flightId && (
+                          <button
+                            onClick={() => loadReplay(`flightId=${encodeURIComponent(alert.flightId!)}`)}
+                            className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800 mt-1"
+                          >
+                            <PlayCircle size={14} />
+                            Replay flight
+                          </button>
+                        )}
                       </div>
                       <span
                         className={`px-2 py-1 rounded text-xs font-medium ${
@@ -128,6 +128,7 @@ export default function SchedulePage(): React.ReactElement {
   const [workflowStatuses, setWorkflowStatuses] = useState<{ [key: string]: WorkflowStatus }>({});
   const [activeWorkflows, setActiveWorkflows] = useState<ActiveWorkflow[]>([]);
   const [auditTrail, setAuditTrail] = useState<AuditEntry[]>([]);
+  const [complianceSummary, setComplianceSummary] = useState<any>(null);
   const [selectedRecommendation, setSelectedRecommendation] = useState<string | null>(null);
   const [approvalInProgress, setApprovalInProgress] = useState<string | null>(null);
 
@@ -246,6 +247,7 @@ export default function SchedulePage(): React.ReactElement {
           ...entry,
           timestamp: new Date(entry.timestamp).toISOString()
         })));
+        setComplianceSummary(data.data.compliance);
       }
     } catch (error) {
       console.error('Failed to load audit trail:', error);
@@ -310,6 +312,12 @@ export default function SchedulePage(): React.ReactElement {
 
   // New agentic workflow functions
   const approveRecommendation = async (recommendationId: string) => {
+    // Approvals count against the recommendation's approval policy, so the approver has to say who they are and why
+    const approvedBy = prompt('Approve as (name or email):');
+    if (!approvedBy) return;
+    const rationale = prompt('Rationale for approving:');
+    if (!rationale) return;
+
     try {
       setApprovalInProgress(recommendationId);
       
@@ -325,23 +333,25 @@ export default function SchedulePage(): React.ReactElement {
         body: JSON.stringify({
           action: 'approve-recommendation',
           recommendationId,
-          approvedBy: 'Maintenance Manager',
-          approvalNotes: 'Approved via agentic workflow system'
+          approvedBy,
+          rationale
         })
       });
       
+      const data = await response.json();
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`);
       }
       
-      const data = await response.json();
-      
-      if (data.success) {
+      if (data.success && !data.data.approval?.approved) {
+        await loadAuditTrail();
+        alert(`📝 ${data.message}`);
+      } else if (data.success) {
         // Update the recommendation status
         setAIRecommendations(prev => 
           prev.map(rec => 
             rec.id === recommendationId 
-              ? { ...rec, status: 'APPROVED', approvedBy: 'Maintenance Manager', approvedAt: new Date().toISOString() }
+              ? { ...rec, status: 'APPROVED', approvedBy: data.data.recommendation.approvedBy, approvedAt: new Date().toISOString() }
               : rec
           )
         );
@@ -936,6 +946,31 @@ export default function SchedulePage(): React.ReactElement {
               <h2 className="text-xl font-semibold">Audit Trail & Compliance</h2>
             </div>
 
+            {complianceSummary && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-xs text-gray-500">Compliance Rate</p>
+                  <p className="text-lg font-semibold text-gray-900">{complianceSummary.complianceRate}%</p>
+                </div>
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-xs text-gray-500">Compliant Aircraft</p>
+                  <p className="text-lg font-semibold text-gray-900">
+                    {complianceSummary.compliantAircraft}/{complianceSummary.aircraft}
+                  </p>
+                </div>
+                <div className="p-3 bg-red-50 rounded-lg">
+                  <p className="text-xs text-red-600">Overdue / No Record</p>
+                  <p className="text-lg font-semibold text-red-700">
+                    {complianceSummary.overdue} / {complianceSummary.noRecord}
+                  </p>
+                </div>
+                <div className="p-3 bg-orange-50 rounded-lg">
+                  <p className="text-xs text-orange-600">Due Soon</p>
+                  <p className="text-lg font-semibold text-orange-700">{complianceSummary.dueSoon}</p>
+                </div>
+              </div>
+            )}
+
             <div className="space-y-3 max-h-96 overflow-y-auto">
               {auditTrail.length === 0 ? (
                 <div className="text-center py-8 text-gray-500">
@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useEffect, useRef, useState } from 'react';
-import { AircraftPosition, FlightData } from '@/types';
+import { AircraftPosition, FlightData, FlightTrack } from '@/types';
 import { Plane, Navigation, MapPin, Loader2 } from 'lucide-react';
 import dynamic from 'next/dynamic';
 
@@ -20,6 +20,8 @@ interface FlightMapProps {
   onAircraftSelect?: (tailNumber: string) => void;
   height?: string;
   showFlightPaths?: boolean;
+  replayTrack?: FlightTrack | null;
+  onReplayClose?: () => void;
 }
 
 // Client-side only map component
@@ -43,7 +45,9 @@ const FlightMap: React.FC<FlightMapProps> = ({
   selectedAircraft, 
   onAircraftSelect,
   height = '400px',
-  showFlightPaths = false 
+  showFlightPaths = false,
+  replayTrack,
+  onReplayClose
 }) => {
   const [isClient, setIsClient] = useState(false);
 
@@ -86,6 +90,8 @@ const FlightMap: React.FC<FlightMapProps> = ({
           onAircraftSelect={onAircraftSelect}
           height={height}
           showFlightPaths={showFlightPaths}
+          replayTrack={replayTrack}
+          onReplayClose={onReplayClose}
         />
       </div>
       
@@ -1,7 +1,7 @@
 'use client';
 
-import React, { useEffect, useRef, useState } from 'react';
-import { AircraftPosition } from '@/types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AircraftPosition, FlightTrack, PositionReport } from '@/types';
 
 interface LeafletMapProps {
   aircraftPositions: AircraftPosition[];
@@ -9,6 +9,106 @@ interface LeafletMapProps {
   onAircraftSelect?: (tailNumber: string) => void;
   height?: string;
   showFlightPaths?: boolean;
+  replayTrack?: FlightTrack | null; // replaces the live markers with the stored track and a time scrubber
+  onReplayClose?: () => void;
+}
+
+// Track reports with their times in ms (JSON responses carry timestamps as strings)
+type TimedReport = PositionReport & { time: number };
+
+const REPLAY_TICK_MS = 200;
+const REPLAY_SPEEDS = [10, 30, 60, 120];
+
+// Where the aircraft was at a replay time, interpolated between the reports either side
+function sampleTrack(reports: TimedReport[], time: number): { position: AircraftPosition; report: TimedReport; index: number } {
+  let index = 0;
+  while (index < reports.length - 1 && reports[index + 1].time <= time) index++;
+
+  const report = reports[index];
+  const next = reports[index + 1];
+  const fraction = next && next.time > report.time ? Math.min(1, Math.max(0, (time - report.time) / (next.time - report.time))) : 0;
+  const lerp = (from: number, to: number) => from + (to - from) * fraction;
+
+  return {
+    index,
+    report,
+    position: {
+      tailNumber: report.tailNumber,
+      latitude: next ? lerp(report.latitude, next.latitude) : report.latitude,
+      longitude: next ? lerp(report.longitude, next.longitude) : report.longitude,
+      altitude: Math.round(next ? lerp(report.altitude, next.altitude) : report.altitude),
+      heading: report.track,
+      groundSpeed: Math.round(next ? lerp(report.groundSpeed, next.groundSpeed) : report.groundSpeed),
+      isOnGround: report.isOnGround,
+      lastSeen: new Date(time),
+      flightPhase: report.flightPhase
+    }
+  };
+}
+
+// Custom aircraft icon creation
+function createAircraftIcon(position: AircraftPosition, isSelected: boolean = false) {
+  const L = (window as any).L;
+  if (!L) return null;
+  
+  const statusColors = {
+    'PARKED': '#6B7280',      // Gray
+    'TAXI': '#F59E0B',        // Amber
+    'TAKEOFF': '#10B981',     // Green
+    'CLIMB': '#3B82F6',       // Blue
+    'CRUISE': '#8B5CF6',      // Purple
+    'DESCENT': '#EF4444',     // Red
+    'APPROACH': '#F97316',    // Orange
+    'LANDING': '#EC4899',     // Pink
+    'TAXI_IN': '#F59E0B',     // Amber
+    'PREFLIGHT': '#6B7280'    // Gray
+  };
+
+  const color = statusColors[position.flightPhase] || '#6B7280';
+  const size = isSelected ? 32 : 24;
+  const borderColor = isSelected ? '#3B82F6' : '#FFFFFF';
+
+  return L.divIcon({
+    html: `
+      <div style="
+        width: ${size}px; 
+        height: ${size}px; 
+        background: ${color}; 
+        border: 2px solid ${borderColor};
+        border-radius: 50%;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        transform: rotate(${position.heading}deg);
+        box-shadow: 0 2px 8px rgba(0,0,0,0.3);
+        position: relative;
+      ">
+        <svg width="${size * 0.6}" height="${size * 0.6}" viewBox="0 0 24 24" fill="white" style="transform: rotate(-${position.heading}deg);">
+          <path d="M20.56 3.44L21 2l-1.44.44L12 7.89l-7.56-5.45L3 2l.44 1.44L10 12l-6.56 8.56L3 22l1.44-.44L12 16.11l7.56 5.45L21 22l-.44-1.44L14 12l6.56-8.56z"/>
+        </svg>
+      </div>
+      <div style="
+        position: absolute;
+        top: 100%;
+        left: 50%;
+        transform: translateX(-50%);
+        background: white;
+        padding: 2px 6px;
+        border-radius: 4px;
+        font-size: 10px;
+        font-weight: 600;
+        white-space: nowrap;
+        box-shadow: 0 1px 4px rgba(0,0,0,0.2);
+        ${isSelected ? 'display: block;' : 'display: none;'}
+      ">
+        ${position.tailNumber}
+      </div>
+    `,
+    className: 'aircraft-icon',
+    iconSize: [size, size],
+    iconAnchor: [size/2, size/2],
+    popupAnchor: [0, -size/2]
+  });
 }
 
 const LeafletMap: React.FC<LeafletMapProps> = ({ 
@@ -16,77 +116,26 @@ const LeafletMap: React.FC<LeafletMapProps> = ({
   selectedAircraft, 
   onAircraftSelect,
   height = '400px',
-  showFlightPaths = false 
+  showFlightPaths = false,
+  replayTrack,
+  onReplayClose
 }) => {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<any>(null);
-  const markersRef = useRef<any[]>([]);
+  const markersRef = useRef<Map<string, any>>(new Map()); // tail number -> marker
+  const replayLayersRef = useRef<{ trail: any; flown: any; marker: any } | null>(null);
   const [isLoaded, setIsLoaded] = useState(false);
+  const [replayTime, setReplayTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackSpeed, setPlaybackSpeed] = useState(REPLAY_SPEEDS[1]);
 
-  // Custom aircraft icon creation
-  const createAircraftIcon = (position: AircraftPosition, isSelected: boolean = false) => {
-    const L = (window as any).L;
-    if (!L) return null;
-    
-    const statusColors = {
-      'PARKED': '#6B7280',      // Gray
-      'TAXI': '#F59E0B',        // Amber
-      'TAKEOFF': '#10B981',     // Green
-      'CLIMB': '#3B82F6',       // Blue
-      'CRUISE': '#8B5CF6',      // Purple
-      'DESCENT': '#EF4444',     // Red
-      'APPROACH': '#F97316',    // Orange
-      'LANDING': '#EC4899',     // Pink
-      'TAXI_IN': '#F59E0B',     // Amber
-      'PREFLIGHT': '#6B7280'    // Gray
-    };
-
-    const color = statusColors[position.flightPhase] || '#6B7280';
-    const size = isSelected ? 32 : 24;
-    const borderColor = isSelected ? '#3B82F6' : '#FFFFFF';
-
-    return L.divIcon({
-      html: `
-        <div style="
-          width: ${size}px; 
-          height: ${size}px; 
-          background: ${color}; 
-          border: 2px solid ${borderColor};
-          border-radius: 50%;
-          display: flex;
-          align-items: center;
-          justify-content: center;
-          transform: rotate(${position.heading}deg);
-          box-shadow: 0 2px 8px rgba(0,0,0,0.3);
-          position: relative;
-        ">
-          <svg width="${size * 0.6}" height="${size * 0.6}" viewBox="0 0 24 24" fill="white" style="transform: rotate(-${position.heading}deg);">
-            <path d="M20.56 3.44L21 2l-1.44.44L12 7.89l-7.56-5.45L3 2l.44 1.44L10 12l-6.56 8.56L3 22l1.44-.44L12 16.11l7.56 5.45L21 22l-.44-1.44L14 12l6.56-8.56z"/>
-          </svg>
-        </div>
-        <div style="
-          position: absolute;
-          top: 100%;
-          left: 50%;
-          transform: translateX(-50%);
-          background: white;
-          padding: 2px 6px;
-          border-radius: 4px;
-          font-size: 10px;
-          font-weight: 600;
-          white-space: nowrap;
-          box-shadow: 0 1px 4px rgba(0,0,0,0.2);
-          ${isSelected ? 'display: block;' : 'display: none;'}
-        ">
-          ${position.tailNumber}
-        </div>
-      `,
-      className: 'aircraft-icon',
-      iconSize: [size, size],
-      iconAnchor: [size/2, size/2],
-      popupAnchor: [0, -size/2]
-    });
-  };
+  const replayReports = useMemo<TimedReport[]>(
+    () => (replayTrack?.reports || []).map(report => ({ ...report, time: new Date(report.timestamp).getTime() })),
+    [replayTrack]
+  );
+  const replayStart = replayReports.length > 0 ? replayReports[0].time : 0;
+  const replayEnd = replayReports.length > 0 ? replayReports[replayReports.length - 1].time : 0;
+  const replaySample = replayReports.length > 0 ? sampleTrack(replayReports, replayTime) : null;
 
   const formatAltitude = (altitude: number) => {
     if (altitude === 0) return 'Ground';
@@ -161,86 +210,101 @@ const LeafletMap: React.FC<LeafletMapProps> = ({
     }
   };
 
+  const createPopupContent = (position: AircraftPosition) => `
+    <div class="text-sm min-w-48">
+      <div class="flex items-center justify-between mb-2">
+        <div class="font-semibold text-lg">${position.tailNumber}</div>
+        <span class="px-2 py-1 rounded text-xs font-medium ${
+          position.isOnGround ? 'bg-gray-100 text-gray-700' : 'bg-blue-100 text-blue-700'
+        }">
+          ${position.flightPhase.replace('_', ' ')}
+        </span>
+      </div>
+      
+      <div class="grid grid-cols-2 gap-2 text-xs">
+        <div>
+          <div class="text-gray-500">Position</div>
+          <div class="font-medium">
+            ${position.latitude.toFixed(4)}°, ${position.longitude.toFixed(4)}°
+          </div>
+        </div>
+        
+        <div>
+          <div class="text-gray-500">Altitude</div>
+          <div class="font-medium">${formatAltitude(position.altitude)}</div>
+        </div>
+        
+        <div>
+          <div class="text-gray-500">Speed</div>
+          <div class="font-medium">${position.groundSpeed} kts</div>
+        </div>
+        
+        <div>
+          <div class="text-gray-500">Heading</div>
+          <div class="font-medium">${position.heading}°</div>
+        </div>
+        
+        ${position.airport ? `
+          <div class="col-span-2">
+            <div class="text-gray-500">Airport</div>
+            <div class="font-medium">${position.airport}</div>
+          </div>
+        ` : ''}
+        
+        <div class="col-span-2">
+          <div class="text-gray-500">Last Seen</div>
+          <div class="font-medium">
+            ${new Date(position.lastSeen).toLocaleTimeString()}
+          </div>
+        </div>
+      </div>
+    </div>
+  `;
+
+  // Move existing markers in place so live updates don't rebuild the layer or close open popups
   const updateMarkers = () => {
     if (!mapInstanceRef.current || !isLoaded) return;
     
     const L = (window as any).L;
     if (!L) return;
 
-    // Clear existing markers
-    markersRef.current.forEach(marker => {
-      mapInstanceRef.current.removeLayer(marker);
+    // Live markers are hidden while a track is replayed
+    const shown = replayTrack ? [] : aircraftPositions;
+    const current = new Set(shown.map(position => position.tailNumber));
+    markersRef.current.forEach((marker, tailNumber) => {
+      if (!current.has(tailNumber)) {
+        mapInstanceRef.current.removeLayer(marker);
+        markersRef.current.delete(tailNumber);
+      }
     });
-    markersRef.current = [];
 
-    // Add new markers
-    aircraftPositions.forEach((position) => {
+    shown.forEach((position) => {
       const isSelected = selectedAircraft === position.tailNumber;
       const icon = createAircraftIcon(position, isSelected);
       
       if (!icon) return;
+
+      const existing = markersRef.current.get(position.tailNumber);
+      if (existing) {
+        existing.setLatLng([position.latitude, position.longitude]);
+        existing.setIcon(icon);
+        existing.setPopupContent(createPopupContent(position));
+        return;
+      }
       
       const marker = L.marker([position.latitude, position.longitude], { icon })
         .addTo(mapInstanceRef.current)
         .on('click', () => {
           onAircraftSelect?.(position.tailNumber);
         })
-        .bindPopup(`
-          <div class="text-sm min-w-48">
-            <div class="flex items-center justify-between mb-2">
-              <div class="font-semibold text-lg">${position.tailNumber}</div>
-              <span class="px-2 py-1 rounded text-xs font-medium ${
-                position.isOnGround ? 'bg-gray-100 text-gray-700' : 'bg-blue-100 text-blue-700'
-              }">
-                ${position.flightPhase.replace('_', ' ')}
-              </span>
-            </div>
-            
-            <div class="grid grid-cols-2 gap-2 text-xs">
-              <div>
-                <div class="text-gray-500">Position</div>
-                <div class="font-medium">
-                  ${position.latitude.toFixed(4)}°, ${position.longitude.toFixed(4)}°
-                </div>
-              </div>
-              
-              <div>
-                <div class="text-gray-500">Altitude</div>
-                <div class="font-medium">${formatAltitude(position.altitude)}</div>
-              </div>
-              
-              <div>
-                <div class="text-gray-500">Speed</div>
-                <div class="font-medium">${position.groundSpeed} kts</div>
-              </div>
-              
-              <div>
-                <div class="text-gray-500">Heading</div>
-                <div class="font-medium">${position.heading}°</div>
-              </div>
-              
-              ${position.airport ? `
-                <div class="col-span-2">
-                  <div class="text-gray-500">Airport</div>
-                  <div class="font-medium">${position.airport}</div>
-                </div>
-              ` : ''}
-              
-              <div class="col-span-2">
-                <div class="text-gray-500">Last Seen</div>
-                <div class="font-medium">
-                  ${new Date(position.lastSeen).toLocaleTimeString()}
-                </div>
-              </div>
-            </div>
-          </div>
-        `);
+        .bindPopup(createPopupContent(position));
 
-      markersRef.current.push(marker);
+      markersRef.current.set(position.tailNumber, marker);
     });
   };
 
   useEffect(() => {
+    const markers = markersRef.current;
     initializeMap();
     
     return () => {
@@ -248,6 +312,7 @@ const LeafletMap: React.FC<LeafletMapProps> = ({
         mapInstanceRef.current.remove();
         mapInstanceRef.current = null;
       }
+      markers.clear(); // they belonged to the removed map
     };
   }, []);
 
@@ -255,14 +320,145 @@ const LeafletMap: React.FC<LeafletMapProps> = ({
     if (isLoaded) {
       updateMarkers();
     }
-  }, [aircraftPositions, selectedAircraft, isLoaded]);
+  }, [aircraftPositions, selectedAircraft, isLoaded, replayTrack]);
+
+  // Draw the whole trail faintly and the part flown so far on top; restart at the first report
+  useEffect(() => {
+    const L = (window as any).L;
+    const map = mapInstanceRef.current;
+    if (!isLoaded || !L || !map || replayReports.length === 0) return;
+
+    const latLngs = replayReports.map(report => [report.latitude, report.longitude]);
+    const trail = L.polyline(latLngs, { color: '#9CA3AF', weight: 2, dashArray: '4 6' }).addTo(map);
+    const flown = L.polyline(latLngs.slice(0, 1), { color: '#2563EB', weight: 3 }).addTo(map);
+    const marker = L.marker(latLngs[0], { zIndexOffset: 1000 }).addTo(map);
+    replayLayersRef.current = { trail, flown, marker };
+
+    map.fitBounds(trail.getBounds(), { padding: [24, 24], maxZoom: 13 });
+    setReplayTime(replayReports[0].time);
+    setIsPlaying(false);
+
+    return () => {
+      [trail, flown, marker].forEach(layer => map.removeLayer(layer));
+      replayLayersRef.current = null;
+    };
+  }, [replayReports, isLoaded]);
+
+  // Move the replay aircraft to the scrubbed time
+  useEffect(() => {
+    const layers = replayLayersRef.current;
+    if (!layers || replayReports.length === 0) return;
+
+    const { position, index } = sampleTrack(replayReports, replayTime);
+    const icon = createAircraftIcon(position, true);
+    layers.flown.setLatLngs([
+      ...replayReports.slice(0, index + 1).map(report => [report.latitude, report.longitude]),
+      [position.latitude, position.longitude]
+    ]);
+    layers.marker.setLatLng([position.latitude, position.longitude]);
+    if (icon) layers.marker.setIcon(icon);
+  }, [replayReports, replayTime]);
+
+  // Playback runs at a multiple of real time and stops at the last report
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const timer = setInterval(() => {
+      setReplayTime(time => Math.min(replayEnd, time + REPLAY_TICK_MS * playbackSpeed));
+    }, REPLAY_TICK_MS);
+    return () => clearInterval(timer);
+  }, [isPlaying, playbackSpeed, replayEnd]);
+
+  useEffect(() => {
+    if (isPlaying && replayTime >= replayEnd) setIsPlaying(false);
+  }, [isPlaying, replayTime, replayEnd]);
+
+  // Altitude profile across the replay, for reading the approach at a glance
+  const profilePoints = useMemo(() => {
+    const span = replayEnd - replayStart;
+    const ceiling = Math.max(1000, ...replayReports.map(report => report.altitude));
+    return replayReports
+      .map(report => `${span > 0 ? ((report.time - replayStart) / span) * 1000 : 0},${100 - (report.altitude / ceiling) * 95}`)
+      .join(' ');
+  }, [replayReports, replayStart, replayEnd]);
+
+  const replayProgress = replayEnd > replayStart ? (replayTime - replayStart) / (replayEnd - replayStart) : 0;
 
   return (
-    <div 
-      ref={mapRef} 
-      style={{ height: '100%', width: '100%' }}
-      className="z-0"
-    />
+    <div className="relative" style={{ height: '100%', width: '100%' }}>
+      <div 
+        ref={mapRef} 
+        style={{ height: '100%', width: '100%' }}
+        className="z-0"
+      />
+      
+      {replayTrack && (
+        <div className="absolute bottom-2 left-2 right-2 z-[1000] bg-white bg-opacity-95 rounded-lg shadow-md p-3 text-xs">
+          {replaySample ? (
+            <>
+              <div className="flex items-center justify-between gap-4 mb-2">
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => {
+                      if (replayTime >= replayEnd) setReplayTime(replayStart);
+                      setIsPlaying(!isPlaying);
+                    }}
+                    className="px-3 py-1 rounded bg-blue-600 text-white font-medium hover:bg-blue-700"
+                  >
+                    {isPlaying ? 'Pause' : 'Play'}
+                  </button>
+                  <select
+                    value={playbackSpeed}
+                    onChange={(event) => setPlaybackSpeed(Number(event.target.value))}
+                    className="border border-gray-300 rounded px-1 py-1"
+                  >
+                    {REPLAY_SPEEDS.map(speed => <option key={speed} value={speed}>{speed}×</option>)}
+                  </select>
+                  <span className="font-semibold">{replayTrack.tailNumber}</span>
+                  <span className="text-gray-500">{new Date(replayTime).toLocaleString()}</span>
+                </div>
+                <div className="flex items-center gap-3 text-gray-700">
+                  <span>{formatAltitude(replaySample.position.altitude)}</span>
+                  <span>{replaySample.position.groundSpeed} kts</span>
+                  <span>{replaySample.report.verticalRate > 0 ? '+' : ''}{Math.round(replaySample.report.verticalRate)} fpm</span>
+                  <span>{replaySample.position.flightPhase.replace('_', ' ')}</span>
+                  {onReplayClose && (
+                    <button onClick={onReplayClose} className="text-gray-500 hover:text-gray-900 font-medium">
+                      Close
+                    </button>
+                  )}
+                </div>
+              </div>
+              <svg viewBox="0 0 1000 100" preserveAspectRatio="none" className="w-full h-8 bg-gray-50 rounded">
+                <polyline points={profilePoints} fill="none" stroke="#2563EB" strokeWidth="2" vectorEffect="non-scaling-stroke" />
+                <line x1={replayProgress * 1000} x2={replayProgress * 1000} y1="0" y2="100" stroke="#EC4899" strokeWidth="2" vectorEffect="non-scaling-stroke" />
+              </svg>
+              <input
+                type="range"
+                min={replayStart}
+                max={replayEnd}
+                step={1000}
+                value={replayTime}
+                onChange={(event) => {
+                  setIsPlaying(false);
+                  setReplayTime(Number(event.target.value));
+                }}
+                className="w-full"
+              />
+            </>
+          ) : (
+            <div className="flex items-center justify-between">
+              <span className="text-gray-600">No position reports were stored for this flight.</span>
+              {onReplayClose && (
+                <button onClick={onReplayClose} className="text-gray-500 hover:text-gray-900 font-medium">
+                  Close
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
   );
 };
 
@@ -1,7 +1,7 @@
 'use client';
 
 import React from 'react';
-import { AircraftPosition } from '@/types';
+import { AircraftPosition, FlightTrack } from '@/types';
 import { Plane, MapPin, Navigation } from 'lucide-react';
 
 interface StaticFlightMapProps {
@@ -10,6 +10,8 @@ interface StaticFlightMapProps {
   onAircraftSelect?: (tailNumber: string) => void;
   height?: string;
   showFlightPaths?: boolean;
+  replayTrack?: FlightTrack | null; // replay needs the Leaflet map; the static fallback shows live positions only
+  onReplayClose?: () => void;
 }
 
 const StaticFlightMap: React.FC<StaticFlightMapProps> = ({ 
@@ -40,18 +42,24 @@ const StaticFlightMap: React.FC<StaticFlightMapProps> = ({
     return `${(altitude / 1000).toFixed(1)}k ft`;
   };
 
-  // Calculate relative positions for aircraft on a grid
-  const getGridPosition = (index: number, total: number) => {
-    const cols = Math.ceil(Math.sqrt(total));
-    const row = Math.floor(index / cols);
-    const col = index % cols;
-    
-    const cellWidth = 100 / cols;
-    const cellHeight = 100 / Math.ceil(total / cols);
+  // Place aircraft by latitude/longitude within the fleet's bounding box, so live updates move them
+  const lats = aircraftPositions.map(position => position.latitude);
+  const lons = aircraftPositions.map(position => position.longitude);
+  const bounds = {
+    minLat: Math.min(...lats),
+    maxLat: Math.max(...lats),
+    minLon: Math.min(...lons),
+    maxLon: Math.max(...lons)
+  };
+
+  const getMapPosition = (position: AircraftPosition) => {
+    const x = bounds.maxLon > bounds.minLon ? (position.longitude - bounds.minLon) / (bounds.maxLon - bounds.minLon) : 0.5;
+    const y = bounds.maxLat > bounds.minLat ? (bounds.maxLat - position.latitude) / (bounds.maxLat - bounds.minLat) : 0.5;
     
+    // Keep markers clear of the title, compass and details panel
     return {
-      left: `${col * cellWidth + cellWidth / 2}%`,
-      top: `${row * cellHeight + cellHeight / 2}%`
+      left: `${10 + x * 80}%`,
+      top: `${20 + y * 55}%`
     };
   };
 
@@ -78,15 +86,15 @@ const StaticFlightMap: React.FC<StaticFlightMapProps> = ({
       </div>
 
       {/* Aircraft positions */}
-      {aircraftPositions.map((position, index) => {
-        const gridPos = getGridPosition(index, aircraftPositions.length);
+      {aircraftPositions.map((position) => {
+        const mapPos = getMapPosition(position);
         const isSelected = selectedAircraft === position.tailNumber;
         
         return (
           <div
             key={position.tailNumber}
-            className="absolute transform -translate-x-1/2 -translate-y-1/2 cursor-pointer transition-all duration-200 hover:scale-110"
-            style={gridPos}
+            className="absolute transform -translate-x-1/2 -translate-y-1/2 cursor-pointer transition-all duration-1000 ease-linear hover:scale-110"
+            style={mapPos}
             onClick={() => onAircraftSelect?.(position.tailNumber)}
           >
             {/* Aircraft Icon */}
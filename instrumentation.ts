@@ -0,0 +1,9 @@
+// Runs once when the server starts, before any request is handled
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    // Every maintenance program file is registered up front, so synchronous lookups
+    // (checklists, exceedance limits, hangar fit) see the aircraft's own type rather than the bundled G550
+    const { loadMaintenancePrograms } = await import('./lib/maintenance-programs');
+    await loadMaintenancePrograms();
+  }
+}
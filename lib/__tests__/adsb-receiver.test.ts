@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { LocalAdsbReceiver, parseDump1090Snapshot, parseSbsMessage } from '../adsb-receiver';
+
+// Recorded captures: N123AB taxiing out of KJFK and climbing away over SBS-1, and a dump1090 snapshot at KORD
+const sbsRecording = join(process.cwd(), 'data/adsb-recordings/kjfk-departure.sbs');
+const jsonRecording = join(process.cwd(), 'data/adsb-recordings/kord-aircraft.json');
+const sbsLines = readFileSync(sbsRecording, 'utf8').trim().split('\n');
+
+// ICAO addresses registered against the fleet's tail numbers
+const TAIL_NUMBERS: { [icaoAddress: string]: string } = { a05ed9: 'N123AB', a5889c: 'N456CD', aab419: 'N789XY' };
+
+const sbsTime = (time: string) => new Date(`2024-01-28T${time}Z`);
+
+describe('parseSbsMessage', () => {
+  it('reads a BaseStation airborne position', () => {
+    expect(parseSbsMessage(sbsLines[5])).toMatchObject({
+      transmissionType: 3,
+      icaoAddress: 'a05ed9',
+      timestamp: sbsTime('14:14:31.905'),
+      altitude: 875,
+      latitude: 40.6352,
+      longitude: -73.7832,
+      isOnGround: false
+    });
+  });
+
+  it('takes a surface position as on the ground and leaves unreported fields unset', () => {
+    const message = parseSbsMessage(sbsLines[1]);
+
+    expect(message).toMatchObject({ transmissionType: 2, altitude: 0, groundSpeed: 0, track: 270, isOnGround: true });
+    expect(message.verticalRate).toBeUndefined();
+    expect(message.callsign).toBeUndefined();
+  });
+
+  it('rejects lines that are not messages from an ICAO address', () => {
+    expect(parseSbsMessage('STA,,1,1,A05ED9,1,2024/01/28,14:02:10.120,2024/01/28,14:02:10.125,RM')).toBeNull();
+    expect(parseSbsMessage('MSG,3,1,1,~2F0A1,1,2024/01/28,14:02:10.120,2024/01/28,14:02:10.125,,875')).toBeNull();
+    expect(parseSbsMessage('')).toBeNull();
+  });
+});
+
+describe('parseDump1090Snapshot', () => {
+  it('skips non-ICAO addresses and dates entries by when they were last seen', () => {
+    const snapshot = JSON.parse(readFileSync(jsonRecording, 'utf8'));
+    const updates = parseDump1090Snapshot(snapshot);
+
+    expect(updates.map(update => update.icaoAddress)).toEqual(['a5889c', 'aab419', 'a8f3c1']);
+    expect(updates[0]).toMatchObject({ callsign: 'MAINT', altitude: 0, isOnGround: true });
+    expect(updates[0].timestamp).toEqual(new Date((1706451000 - 1.2) * 1000));
+    expect(updates[2].latitude).toBeUndefined();
+  });
+});
+
+describe('LocalAdsbReceiver', () => {
+  it('reports no flight data until a position has been received', () => {
+    const receiver = new LocalAdsbReceiver();
+    receiver.ingestSbs(sbsLines[0]);
+
+    expect(receiver.getState('A05ED9')).toMatchObject({ callsign: 'GAC123', messages: 1 });
+    expect(receiver.toFlightData('a05ed9', TAIL_NUMBERS.a05ed9)).toBeNull();
+  });
+
+  it('reports the aircraft on the ground while it taxis', () => {
+    const receiver = new LocalAdsbReceiver();
+    receiver.ingestSbs(sbsLines.slice(0, 5).join('\n'));
+
+    expect(receiver.toFlightData('a05ed9', TAIL_NUMBERS.a05ed9)).toMatchObject({
+      tailNumber: 'N123AB',
+      callsign: 'GAC123',
+      squawk: '1200',
+      latitude: 40.6266,
+      longitude: -73.771,
+      altitude: 0,
+      groundSpeed: 132,
+      isOnGround: true,
+      flightStatus: 'LANDED',
+      dataSource: 'ADS-B'
+    });
+  });
+
+  it('replays the SBS departure, carrying fields across messages', async () => {
+    const receiver = new LocalAdsbReceiver();
+
+    expect(await receiver.loadRecording(sbsRecording)).toBe(12);
+    // Position from the last MSG,3, velocity from the last MSG,4, callsign and squawk from the start
+    expect(receiver.toFlightData('a05ed9', TAIL_NUMBERS.a05ed9)).toMatchObject({
+      tailNumber: 'N123AB',
+      callsign: 'GAC123',
+      squawk: '1200',
+      latitude: 40.7135,
+      longitude: -73.887,
+      altitude: 5125,
+      groundSpeed: 236,
+      track: 301,
+      verticalRate: 2944,
+      isOnGround: false,
+      flightStatus: 'ACTIVE',
+      lastContact: sbsTime('14:16:09.400')
+    });
+    expect(receiver.getState('a05ed9')).toMatchObject({ lastPosition: sbsTime('14:16:05.733'), messages: 11 });
+
+    // An address that isn't registered to the fleet keeps its hex as the tail number
+    expect(receiver.toFlightData('4ca2d6')).toMatchObject({ tailNumber: '4CA2D6', altitude: 37000 });
+  });
+
+  it('replays the dump1090 snapshot', async () => {
+    const receiver = new LocalAdsbReceiver();
+
+    expect(await receiver.loadRecording(jsonRecording)).toBe(3);
+    expect(receiver.toFlightData('a5889c', TAIL_NUMBERS.a5889c)).toMatchObject({
+      tailNumber: 'N456CD',
+      latitude: 41.97421,
+      longitude: -87.90731,
+      altitude: 0,
+      isOnGround: true,
+      flightStatus: 'LANDED'
+    });
+    expect(receiver.toFlightData('aab419', TAIL_NUMBERS.aab419)).toMatchObject({
+      tailNumber: 'N789XY',
+      callsign: 'GAC789',
+      altitude: 6025,
+      groundSpeed: 251,
+      track: 269,
+      verticalRate: -1344,
+      isOnGround: false,
+      flightStatus: 'ACTIVE',
+      lastContact: new Date((1706451000 - 0.1) * 1000)
+    });
+    // Heard, but no position yet
+    expect(receiver.getState('a8f3c1')).toMatchObject({ callsign: 'UAL1542', altitude: 11000 });
+    expect(receiver.toFlightData('a8f3c1')).toBeNull();
+  });
+
+  it('keeps the latest contact time when an older update arrives late', () => {
+    const receiver = new LocalAdsbReceiver();
+    receiver.ingestSbs(sbsLines[9]);
+    receiver.ingestSbs(sbsLines[8]);
+
+    expect(receiver.getState('a05ed9')).toMatchObject({
+      lastSeen: sbsTime('14:16:06.010'),
+      altitude: 5125,
+      groundSpeed: 236,
+      verticalRate: 2944
+    });
+  });
+});
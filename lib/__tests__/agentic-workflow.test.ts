@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InMemoryJobStore, JobScheduler, TestClock } from '../job-scheduler';
+import { AgenticMaintenanceWorkflow } from '../agentic-workflow';
+import { findPerson } from '../personnel';
+import { availabilityConflicts, findAssignee } from '../task-assignment';
+import { MaintenanceUser } from '@/types';
+
+const now = new Date('2026-10-19T14:00:00Z');
+const annual = (id: string) => ({ id, maintenanceType: 'ANNUAL', estimatedDowntime: 8 });
+
+let workflow: AgenticMaintenanceWorkflow;
+
+beforeEach(() => {
+  const store = new InMemoryJobStore();
+  workflow = new AgenticMaintenanceWorkflow(new JobScheduler(async () => store, new TestClock(now)));
+});
+
+describe('AgenticMaintenanceWorkflow.assignRole', () => {
+  it('staffs the mechanic and an IA inspector from the roster, once', () => {
+    const mechanic = workflow.assignRole(annual('rec-1'), 'MECHANIC');
+    const inspector = workflow.assignRole(annual('rec-1'), 'INSPECTOR');
+
+    expect(mechanic).toMatchObject({ id: 'assign-rec-1-mechanic', assigneeType: 'MECHANIC', status: 'ASSIGNED' });
+    expect(inspector).toMatchObject({ id: 'assign-rec-1-inspector', assigneeType: 'INSPECTOR' });
+    expect(inspector.assigneeId).not.toBe(mechanic.assigneeId);
+    expect(findPerson(inspector.assigneeId).certifications).toContain('IA');
+
+    expect(workflow.assignRole(annual('rec-1'), 'INSPECTOR')).toBe(inspector);
+    expect(workflow.getAssignments('rec-1')).toHaveLength(2);
+  });
+
+  it('does not book the same person twice', () => {
+    const first = workflow.assignRole(annual('rec-1'), 'MECHANIC');
+    const second = workflow.assignRole(annual('rec-2'), 'MECHANIC');
+
+    const firstEnds = first.scheduledStart.getTime() + first.estimatedDuration * 60 * 60 * 1000;
+    expect(second.assigneeId !== first.assigneeId || second.scheduledStart.getTime() >= firstEnds).toBe(true);
+  });
+});
+
+describe('findAssignee', () => {
+  const monday = (time: string) => new Date(`2026-10-19T${time}:00.000Z`);
+  const mechanic = (name: string, fields: Partial<MaintenanceUser> = {}): MaintenanceUser => ({
+    id: name.toLowerCase(),
+    email: `${name.toLowerCase()}@example.com`,
+    name,
+    role: 'MECHANIC',
+    certifications: ['A&P'],
+    isActive: true,
+    permissions: [],
+    skillLevel: 'ADVANCED',
+    shifts: [{ days: ['MON', 'TUE', 'WED', 'THU', 'FRI'], start: '06:00', end: '14:00' }],
+    ...fields
+  });
+  const lead = { label: 'lead mechanic for ANNUAL', roles: ['MECHANIC' as const], skillLevel: 'ADVANCED' as const };
+
+  it('says why nobody on the roster is qualified', () => {
+    const roster = [mechanic('Alex', { skillLevel: 'INTERMEDIATE' }), mechanic('Blair', { certifications: [] })];
+
+    expect(() => findAssignee({ ...lead, certifications: ['A&P'] }, monday('06:00'), 4, [], roster)).toThrow(
+      'No one on the roster is qualified as lead mechanic for ANNUAL: ' +
+      'Alex (skill INTERMEDIATE below ADVANCED); Blair (missing A&P certification)');
+  });
+
+  it('says why no qualified person is free within the search window', () => {
+    const roster = [mechanic('Alex', {
+      timeOff: [{ from: monday('00:00'), until: new Date('2026-11-09T00:00:00Z'), reason: 'vacation' }]
+    })];
+
+    expect(() => findAssignee(lead, monday('06:00'), 4, [], roster)).toThrow(
+      'No qualified lead mechanic for ANNUAL is free within 14 days of 2026-10-19T06:00:00.000Z: Alex (vacation until 2026-11-09)');
+  });
+
+  it('rejects a window that runs off shift and carries the work into the next shift', () => {
+    const alex = mechanic('Alex');
+
+    expect(availabilityConflicts(alex, monday('06:00'), monday('14:00'))).toEqual([]);
+    expect(availabilityConflicts(alex, monday('12:00'), monday('16:00'))).toEqual(['off shift at 2026-10-19T14:00:00.000Z']);
+    expect(availabilityConflicts(alex, monday('15:00'), monday('16:00'))).toEqual(['off shift at 2026-10-19T15:00:00.000Z']);
+
+    const staffing = findAssignee(lead, monday('12:00'), 4, [], [alex]);
+    expect(staffing).toMatchObject({ start: monday('12:00'), end: new Date('2026-10-20T08:00:00Z') });
+    expect(staffing.shifts).toEqual([
+      { start: monday('12:00'), end: monday('14:00') },
+      { start: new Date('2026-10-20T06:00:00Z'), end: new Date('2026-10-20T08:00:00Z') }
+    ]);
+  });
+
+  it('waits for the next shift start when the requested time is off shift', () => {
+    const staffing = findAssignee(lead, monday('15:00'), 4, [], [mechanic('Alex')]);
+
+    expect(staffing).toMatchObject({ start: new Date('2026-10-20T06:00:00Z'), end: new Date('2026-10-20T10:00:00Z') });
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { AirworthinessDirective } from '@/types';
+import {
+  checkDirectiveApplicability,
+  getDirectiveDueIntervals,
+  openDirectiveRecord,
+  recordDirectiveCompliance,
+  serialInRange,
+  validateDirective
+} from '../airworthiness-directives';
+import { MOCK_AIRCRAFT } from '../mock-fleet-data';
+
+const [n123ab, n456cd, n789xy] = MOCK_AIRCRAFT;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const directive = (fields: Partial<AirworthinessDirective>): AirworthinessDirective => validateDirective({
+  id: 'ad-test',
+  type: 'AD',
+  number: '2026-04-11',
+  title: 'Inspect the stabilizer attach fittings',
+  category: 'AIRFRAME',
+  effectiveDate: '2026-04-01T00:00:00Z',
+  applicability: { make: 'Gulfstream', models: ['G550'] },
+  recurrence: 'ONE_TIME',
+  initialCompliance: { hours: 300, calendarDays: 180 },
+  methodsOfCompliance: ['Detailed visual inspection per SB G550-55-012'],
+  ...fields
+});
+
+describe('checkDirectiveApplicability', () => {
+  it('matches make and model regardless of case', () => {
+    expect(checkDirectiveApplicability(directive({ applicability: { make: 'gulfstream', models: ['g550'] } }), n123ab))
+      .toEqual({ applicable: true, reason: 'Gulfstream G550 S/N G550-001' });
+    expect(checkDirectiveApplicability(directive({ applicability: { make: 'Pilatus' } }), n123ab))
+      .toEqual({ applicable: false, reason: 'Not applicable to Gulfstream' });
+    expect(checkDirectiveApplicability(directive({ applicability: { make: 'Gulfstream', models: ['G650'] } }), n123ab))
+      .toEqual({ applicable: false, reason: 'Not applicable to model G550' });
+  });
+
+  it('compares airframe serial ranges numerically', () => {
+    expect(serialInRange('G550-010', { from: 'G550-009' })).toBe(true);
+    expect(serialInRange('5099', { from: '5100' })).toBe(false);
+    expect(serialInRange('15400', { from: '15001', to: '15400' })).toBe(true);
+
+    const range = directive({ applicability: { models: ['G550'], serialRanges: [{ from: 'G550-002', to: 'G550-010' }] } });
+    expect(checkDirectiveApplicability(range, n456cd).applicable).toBe(true);
+    expect(checkDirectiveApplicability(range, n123ab))
+      .toEqual({ applicable: false, reason: 'Airframe S/N G550-001 outside applicable range' });
+  });
+
+  it('follows the installed part and its serial range for engine directives', () => {
+    const engine = directive({
+      category: 'ENGINE',
+      applicability: { partNumbers: ['BR700-710C4-11'], serialRanges: [{ from: '15001', to: '15400' }] }
+    });
+
+    expect(checkDirectiveApplicability(engine, n123ab)).toMatchObject({
+      applicable: true,
+      reason: 'P/N BR700-710C4-11 S/N 15210 installed at Engine 1',
+      component: { serialNumber: '15210' }
+    });
+    // Both engines in range: the first is named; neither of N789XY's is
+    expect(checkDirectiveApplicability(engine, n456cd).component?.position).toBe('Engine 1');
+    expect(checkDirectiveApplicability(engine, n789xy))
+      .toEqual({ applicable: false, reason: 'Installed P/N BR700-710C4-11 outside applicable serial range' });
+    expect(checkDirectiveApplicability(directive({ applicability: { partNumbers: ['453-5090'] } }), n123ab))
+      .toEqual({ applicable: false, reason: 'P/N 453-5090 not installed' });
+  });
+});
+
+describe('directive compliance', () => {
+  const recurring = directive({
+    recurrence: 'RECURRING',
+    initialCompliance: { hours: 300, calendarDays: 180 },
+    repeatInterval: { hours: 600, cycles: 400, calendarDays: 365 }
+  });
+
+  it('opens a record due from the effective date and the current totals', () => {
+    expect(openDirectiveRecord(recurring, n123ab, new Date('2026-10-18T00:00:00Z'))).toMatchObject({
+      id: 'n123ab-ad-test',
+      status: 'OPEN',
+      nextDueDate: new Date(new Date('2026-04-01T00:00:00Z').getTime() + 180 * DAY_MS),
+      nextDueHours: n123ab.totalAircraftTime + 300,
+      nextDueCycles: undefined
+    });
+  });
+
+  it('moves a recurring directive to its next repeat from the sign-off', () => {
+    const completedAt = new Date('2026-09-01T00:00:00Z');
+    const record = recordDirectiveCompliance(n123ab, recurring, openDirectiveRecord(recurring, n123ab), {
+      methodOfCompliance: 'detailed visual inspection per SB G550-55-012',
+      completedAt,
+      completedHours: 2400,
+      completedCycles: 1800
+    });
+
+    expect(record).toMatchObject({
+      status: 'RECURRING',
+      complianceDate: completedAt,
+      nextDueDate: new Date(completedAt.getTime() + 365 * DAY_MS),
+      nextDueHours: 3000,
+      nextDueCycles: 2200
+    });
+
+    const terminated = recordDirectiveCompliance(n123ab, recurring, record, {
+      methodOfCompliance: 'AMOC 2026-118: fitting replaced with the improved part',
+      completedAt: new Date('2026-10-01T00:00:00Z'),
+      completedHours: 2440,
+      terminating: true
+    });
+    expect(terminated).toMatchObject({ status: 'TERMINATED', complianceCycles: n123ab.totalCycles, nextDueHours: undefined });
+  });
+
+  it('closes a one-time directive and refuses unlisted methods', () => {
+    const once = directive({});
+    const entry = { methodOfCompliance: 'Detailed visual inspection per SB G550-55-012', completedAt: new Date(), completedHours: 2450 };
+
+    expect(recordDirectiveCompliance(n123ab, once, openDirectiveRecord(once, n123ab), entry).status).toBe('COMPLIED');
+    expect(() => recordDirectiveCompliance(n123ab, once, openDirectiveRecord(once, n123ab), { ...entry, methodOfCompliance: 'Looked at it' }))
+      .toThrow('"Looked at it" is not a listed method of compliance for AD 2026-04-11');
+    expect(() => recordDirectiveCompliance(n123ab, once, openDirectiveRecord(once, n123ab), { ...entry, methodOfCompliance: ' ' }))
+      .toThrow('A method of compliance is required for AD 2026-04-11');
+  });
+
+  it('schedules mandatory open directives and flags the overdue ones', () => {
+    const asOf = new Date('2026-06-01T00:00:00Z');
+    const overdue = directive({ id: 'ad-overdue', initialCompliance: { calendarDays: 30 } });
+    const adoptedSb = directive({ id: 'sb-adopted', type: 'SB', number: 'G550-32-140', mandatory: true });
+    const optionalSb = directive({ id: 'sb-optional', type: 'SB', number: 'G550-32-141' });
+    const directives = [recurring, overdue, adoptedSb, optionalSb];
+    const records = directives.map(d => openDirectiveRecord(d, n123ab, asOf));
+
+    const intervals = getDirectiveDueIntervals(n123ab, directives, records, asOf);
+
+    expect(intervals.map(interval => [interval.id, interval.priority, interval.isOverdue])).toEqual([
+      ['n123ab-ad-test', 'HIGH', false],
+      ['n123ab-ad-overdue', 'CRITICAL', true],
+      ['n123ab-sb-adopted', 'HIGH', false]
+    ]);
+    expect(intervals[1]).toMatchObject({ intervalType: 'AD', description: 'AD 2026-04-11: Inspect the stabilizer attach fittings' });
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ApprovableRecommendation,
+  ApprovalTracker,
+  canAutoApprove,
+  findApprovalPolicy,
+  validateApprovalPolicies
+} from '../approval-policies';
+
+const now = new Date('2026-10-19T14:00:00Z');
+const hoursLater = (hours: number) => new Date(now.getTime() + hours * 60 * 60 * 1000);
+
+const recommendation = (fields: Partial<ApprovableRecommendation>): ApprovableRecommendation => ({
+  id: 'rec-1',
+  maintenanceType: 'ANNUAL',
+  estimatedCost: 8000,
+  estimatedDowntime: 16,
+  urgency: 'MEDIUM',
+  ...fields
+});
+
+const cCheck = recommendation({ id: 'rec-c-check', maintenanceType: 'C_CHECK', estimatedCost: 42000, estimatedDowntime: 120 });
+
+describe('findApprovalPolicy', () => {
+  it('applies the first policy that matches', () => {
+    expect(findApprovalPolicy(cCheck)?.id).toBe('heavy-check');
+    expect(findApprovalPolicy(recommendation({ estimatedCost: 65000 }))?.id).toBe('high-cost');
+    expect(findApprovalPolicy(recommendation({ estimatedCost: 50000 }))?.id).toBe('standard');
+    expect(findApprovalPolicy(recommendation({ urgency: 'CRITICAL' }))?.id).toBe('aog');
+    // A critical heavy check still needs both signatures
+    expect(findApprovalPolicy({ ...cCheck, urgency: 'CRITICAL' })?.id).toBe('heavy-check');
+    expect(findApprovalPolicy(recommendation({}))?.id).toBe('standard');
+  });
+});
+
+describe('ApprovalTracker', () => {
+  it('needs both the Director of Maintenance and the Chief Inspector for a heavy check', () => {
+    const tracker = new ApprovalTracker();
+
+    const first = tracker.approve(cCheck, 'user-kmitchell', 'Hangar slot confirmed', now);
+    expect(first.record).toMatchObject({ approverName: 'Karen Mitchell', role: 'DIRECTOR_OF_MAINTENANCE', expiresAt: hoursLater(72) });
+    expect(first.status).toMatchObject({ policyId: 'heavy-check', approved: false });
+    expect(first.status?.outstanding).toEqual([
+      { roles: ['CHIEF_INSPECTOR'], needed: 1, description: '1 more from Chief Inspector' }
+    ]);
+
+    expect(tracker.approve(cCheck, 'user-kmitchell', 'Again', now).rejection)
+      .toBe('Karen Mitchell has already approved recommendation rec-c-check');
+    expect(tracker.approve(cCheck, 'user-tanderson', 'Looks fine', now).rejection)
+      .toBe('Tom Anderson (Maintenance Manager) cannot approve under the Heavy checks policy, which still needs 1 more from Chief Inspector');
+    expect(tracker.approve(cCheck, 'user-jsmith', 'Looks fine', now).rejection)
+      .toBe('John Smith has no maintenance approval authority (the Heavy checks policy needs 1 more from Chief Inspector)');
+
+    const second = tracker.approve(cCheck, 'user-dchen', 'Work package reviewed', hoursLater(2));
+    expect(second.status).toMatchObject({ approved: true, autoApproved: false, approvedAt: hoursLater(2), outstanding: [] });
+    expect(tracker.isApproved('rec-c-check')).toBe(true);
+    expect(tracker.approve(cCheck, 'user-tanderson', 'Late', hoursLater(3)).rejection).toBe('Recommendation rec-c-check is already approved');
+  });
+
+  it('needs a rationale and someone on the roster', () => {
+    const tracker = new ApprovalTracker();
+
+    expect(tracker.approve(cCheck, 'user-kmitchell', '  ', now).rejection).toBe('A rationale is required with every approval');
+    expect(tracker.approve(cCheck, 'user-nobody', 'Fine', now).rejection).toBe('user-nobody is not on the personnel roster');
+  });
+
+  it('lets approvals lapse after the validity period unless the quorum was met first', () => {
+    const tracker = new ApprovalTracker();
+    const overCost = recommendation({ id: 'rec-over-50k', estimatedCost: 64000 });
+    tracker.approve(overCost, 'user-kmitchell', 'Budget approved', now);
+
+    const late = tracker.approve(overCost, 'user-dchen', 'Reviewed', hoursLater(73));
+    expect(late.status).toMatchObject({ policyId: 'high-cost', approved: false });
+    expect(late.status?.approvals.map(approval => approval.approverName)).toEqual(['David Chen']);
+    expect(late.status?.outstanding.map(requirement => requirement.roles)).toEqual([['DIRECTOR_OF_MAINTENANCE']]);
+
+    // The director has to approve again; once the quorum is met the approvals stand
+    expect(tracker.approve(overCost, 'user-kmitchell', 'Budget approved again', hoursLater(74)).status?.approved).toBe(true);
+    expect(tracker.getStatus(overCost, hoursLater(500))).toMatchObject({ approved: true, expired: [] });
+    expect(tracker.getStatus(overCost, hoursLater(500))?.approvals).toHaveLength(2);
+  });
+
+  it('reports approvals that lapsed before the quorum was met as expired', () => {
+    const tracker = new ApprovalTracker();
+    tracker.approve(cCheck, 'user-kmitchell', 'Hangar slot confirmed', now);
+
+    const status = tracker.getStatus(cCheck, hoursLater(72));
+    expect(status?.approvals).toEqual([]);
+    expect(status?.expired.map(approval => approval.approverName)).toEqual(['Karen Mitchell']);
+    expect(status?.outstanding).toHaveLength(2);
+  });
+
+  it('counts an approval under a delegated role while the delegation lasts', () => {
+    const tracker = new ApprovalTracker();
+    const { delegation } = tracker.delegate('user-kmitchell', 'user-tanderson', 'DIRECTOR_OF_MAINTENANCE', hoursLater(48), 'Annual leave', now);
+    expect(delegation).toMatchObject({ fromName: 'Karen Mitchell', toName: 'Tom Anderson', validFrom: now, validUntil: hoursLater(48) });
+
+    const tom = tracker.approve(cCheck, 'user-tanderson', 'Approving for Karen', hoursLater(1));
+    expect(tom.record).toMatchObject({ role: 'DIRECTOR_OF_MAINTENANCE', onBehalfOf: 'Karen Mitchell' });
+
+    expect(tracker.listDelegations(hoursLater(48))).toEqual([]);
+    const afterwards = recommendation({ id: 'rec-c-check-2', maintenanceType: 'C_CHECK' });
+    expect(tracker.approve(afterwards, 'user-tanderson', 'Approving for Karen', hoursLater(49)).rejection)
+      .toContain('cannot approve under the Heavy checks policy');
+  });
+
+  it('only delegates a role the delegator holds, to someone else, until a future time', () => {
+    const tracker = new ApprovalTracker();
+
+    expect(tracker.delegate('user-tanderson', 'user-jsmith', 'CHIEF_INSPECTOR', hoursLater(8), undefined, now).rejection)
+      .toBe('Tom Anderson does not hold the Chief Inspector role');
+    expect(tracker.delegate('user-kmitchell', 'user-kmitchell', 'DIRECTOR_OF_MAINTENANCE', hoursLater(8), undefined, now).rejection)
+      .toBe('An approval role cannot be delegated to oneself');
+    expect(tracker.delegate('user-kmitchell', 'user-tanderson', 'DIRECTOR_OF_MAINTENANCE', now, undefined, now).rejection)
+      .toBe('validUntil must be a future date');
+  });
+
+  it('auto-approves AOG items within the cost and downtime limits', () => {
+    const tracker = new ApprovalTracker();
+    const aog = recommendation({ id: 'rec-aog', urgency: 'CRITICAL', estimatedCost: 15000, estimatedDowntime: 24 });
+
+    expect(tracker.autoApprove(aog, now)).toMatchObject({ policyId: 'aog', approved: true, autoApproved: true, approvedAt: now });
+    expect(tracker.autoApprove(recommendation({ id: 'rec-aog-costly', urgency: 'CRITICAL', estimatedCost: 15001 }), now)).toBeUndefined();
+    expect(tracker.autoApprove(recommendation({ id: 'rec-aog-long', urgency: 'CRITICAL', estimatedDowntime: 25 }), now)).toBeUndefined();
+    expect(tracker.autoApprove(recommendation({ id: 'rec-standard' }), now)).toBeUndefined();
+
+    const [heavyCheck] = tracker.listPolicies();
+    expect(canAutoApprove(heavyCheck, recommendation({ estimatedCost: 100 }))).toBe(false);
+  });
+
+  it('seats approvals so requirements sharing a role are all met whatever order they arrive in', () => {
+    const policies = validateApprovalPolicies({
+      policies: [{
+        id: 'overlap',
+        name: 'Overlapping roles',
+        match: {},
+        requirements: [
+          { roles: ['MAINTENANCE_MANAGER', 'DIRECTOR_OF_MAINTENANCE'], quorum: 1 },
+          { roles: ['DIRECTOR_OF_MAINTENANCE'], quorum: 1 }
+        ],
+        approvalValidityHours: 24
+      }]
+    });
+    const tracker = new ApprovalTracker(policies);
+
+    // The director first fills the shared requirement, then moves aside for the manager
+    expect(tracker.approve(recommendation({}), 'user-kmitchell', 'Approved', now).status?.approved).toBe(false);
+    const manager = tracker.approve(recommendation({}), 'user-tanderson', 'Approved', now);
+    expect(manager.rejection).toBeUndefined();
+    expect(manager.status).toMatchObject({ approved: true, outstanding: [] });
+  });
+});
+
+describe('validateApprovalPolicies', () => {
+  it('lists every problem found', () => {
+    expect(() => validateApprovalPolicies({
+      policies: [{ id: 'broken', name: 'Broken', match: {}, requirements: [{ roles: ['CAPTAIN'], quorum: 0 }], approvalValidityHours: 0 }]
+    })).toThrow(
+      'Invalid approval policies: policies[0].approvalValidityHours must be a positive number; ' +
+      'policies[0].requirements[0].roles has unknown role CAPTAIN; policies[0].requirements[0].quorum must be a whole number of at least 1'
+    );
+  });
+});
@@ -0,0 +1,230 @@
+import { describe, it, expect } from 'vitest';
+import { Aircraft, MaintenanceInterval } from '@/types';
+import { ComplianceRecords, evaluateAircraftCompliance, evaluateCompliance } from '../compliance-rules';
+import { far135411 } from '../compliance-rules/far-135-411';
+import { far91207 } from '../compliance-rules/far-91-207';
+import { far91409 } from '../compliance-rules/far-91-409';
+import { far91411413 } from '../compliance-rules/far-91-411-413';
+import { rebaseMaintenanceInterval } from '../maintenance-due';
+import { AgenticMaintenanceWorkflow } from '../agentic-workflow';
+import { InMemoryJobStore, JobScheduler, TestClock } from '../job-scheduler';
+import { MOCK_AIRCRAFT } from '../mock-fleet-data';
+
+const asOf = new Date('2026-10-18T00:00:00Z');
+const [n123ab] = MOCK_AIRCRAFT;
+
+// Nine seats or fewer: inspected under 91.409 rather than an approved program
+const part91 = (fields: Partial<Aircraft> = {}): Aircraft => ({ ...n123ab, passengerSeats: 8, ...fields });
+
+const interval = (id: string, intervalType: MaintenanceInterval['intervalType'], fields: Partial<MaintenanceInterval> = {}): MaintenanceInterval => ({
+  id,
+  aircraftId: n123ab.id,
+  intervalType,
+  description: id,
+  nextDueAt: new Date('2027-06-01T00:00:00Z'),
+  nextDueHours: 0,
+  isOverdue: false,
+  priority: 'MEDIUM',
+  estimatedDowntime: 8,
+  estimatedCost: 5000,
+  ...fields
+});
+
+const hundredHour = (nextDueHours: number) => interval('int-100h', '100_HOUR', {
+  description: '100-Hour Inspection',
+  intervalHours: 100,
+  lastCompletedHours: nextDueHours - 100,
+  nextDueHours
+});
+
+const annual = interval('int-annual', 'ANNUAL', {
+  description: 'Annual Inspection',
+  intervalCalendar: 365,
+  lastCompletedAt: new Date('2026-01-20T00:00:00Z'),
+  nextDueAt: new Date('2027-01-31T23:59:59Z')
+});
+
+const evaluate = (rule: typeof far91409, aircraft: Aircraft, records: ComplianceRecords = {}) =>
+  evaluateCompliance(aircraft, records, [rule], asOf);
+
+describe('FAR 91.409', () => {
+  it('runs an untracked annual to the end of the 12th month and reports the missing 100-hour', () => {
+    const report = evaluate(far91409, part91({ lastInspectionDate: new Date('2025-10-20T00:00:00Z') }));
+
+    expect(report.items.map(({ id, status, dueDate, notes }) => ({ id, status, dueDate, notes }))).toEqual([
+      { id: 'n123ab-far-91-409-annual', status: 'DUE_SOON', dueDate: new Date('2026-10-31T23:59:59Z'), notes: '13 days remaining' },
+      { id: 'n123ab-far-91-409-100-hour', status: 'NO_RECORD', dueDate: undefined, notes: 'No 100-hour inspection tracked, so time since the last one is unknown' }
+    ]);
+    expect(evaluate(far91409, part91({ lastInspectionDate: new Date('2025-09-15T00:00:00Z') })).items[0])
+      .toMatchObject({ status: 'OVERDUE', dueDate: new Date('2026-09-30T23:59:59Z') });
+  });
+
+  it('tracks the annual by calendar and the 100-hour by hours, each on its own', () => {
+    const records = { intervals: [annual, hundredHour(2450)] };
+
+    // 5 h past the 100-hour point is inside the 10 h allowance; the annual is still months away
+    const [annualItem, hundredHourItem] = evaluate(far91409, part91({ totalAircraftTime: 2455 }), records).items;
+    expect(annualItem).toMatchObject({ status: 'CURRENT', dueDate: annual.nextDueAt, recurrenceInterval: 365 });
+    expect(hundredHourItem).toMatchObject({
+      status: 'DUE_SOON',
+      notes: 'Within tolerance: 5.0 hours past due, 5.0 hours of tolerance left'
+    });
+
+    const overflown = evaluate(far91409, part91({ totalAircraftTime: 2461 }), records);
+    expect(overflown.items[1]).toMatchObject({ status: 'OVERDUE', notes: '11.0 hours overdue' });
+    expect(overflown.compliant).toBe(false);
+    expect(overflown.issues).toEqual(['100-Hour Inspection overdue per FAR 91.409 (11.0 hours overdue)']);
+  });
+
+  it('deducts up to 10 hours of overfly from the next 100-hour interval', () => {
+    const aircraft = part91({ totalAircraftTime: 2458 });
+    const signedOff = rebaseMaintenanceInterval(aircraft, hundredHour(2450), { completedAt: asOf, completedHours: 2458 });
+
+    expect(signedOff.nextDueHours).toBe(2550);
+    expect(evaluate(far91409, aircraft, { intervals: [annual, signedOff] }).items[1].notes).toBe('92.0 hours remaining');
+
+    // Beyond the allowance the next interval runs from completion
+    const late = rebaseMaintenanceInterval(part91({ totalAircraftTime: 2470 }), hundredHour(2450), { completedAt: asOf, completedHours: 2470 });
+    expect(late.nextDueHours).toBe(2570);
+  });
+
+  it('holds aircraft on an approved program only to the checks they track', () => {
+    expect(evaluate(far91409, n123ab).items).toEqual([]);
+  });
+});
+
+describe('FAR 91.411/91.413', () => {
+  const test = (lastCompletedAt: string) => interval('int-alt-xpdr', 'ALTIMETER_TRANSPONDER', {
+    description: 'Altimeter, Static System and Transponder Tests',
+    intervalCalendar: 730,
+    lastCompletedAt: new Date(lastCompletedAt),
+    nextDueAt: new Date(new Date(lastCompletedAt).getTime() + 730 * 24 * 60 * 60 * 1000)
+  });
+
+  it('expires at the end of the 24th calendar month after the test', () => {
+    // 730 days from 3 Oct 2024 would lapse on 3 Oct 2026; the calendar month runs to the 31st
+    const [current] = evaluate(far91411413, n123ab, { intervals: [test('2024-10-03T00:00:00Z')] }).items;
+    expect(current).toMatchObject({ status: 'CURRENT', dueDate: new Date('2026-10-31T23:59:59Z') });
+
+    const [expired] = evaluate(far91411413, n123ab, { intervals: [test('2024-09-25T00:00:00Z')] }).items;
+    expect(expired).toMatchObject({ status: 'OVERDUE', dueDate: new Date('2026-09-30T23:59:59Z'), completedDate: new Date('2024-09-25T00:00:00Z') });
+  });
+
+  it('reports no record when the test is not tracked', () => {
+    expect(evaluate(far91411413, n123ab).items).toEqual([
+      expect.objectContaining({ id: 'n123ab-far-91-411-413-altimeter-transponder', status: 'NO_RECORD', notes: 'No 24-month test on record' })
+    ]);
+  });
+});
+
+describe('FAR 91.207', () => {
+  const elt = interval('int-elt', 'ELT', {
+    description: 'ELT Inspection',
+    intervalCalendar: 365,
+    lastCompletedAt: new Date('2025-11-10T00:00:00Z'),
+    nextDueAt: new Date('2026-11-10T00:00:00Z')
+  });
+  const withBattery = (batteryExpiresAt?: Date | string) => ({
+    ...n123ab,
+    installedComponents: n123ab.installedComponents!.map(component =>
+      component.position === 'ELT' ? { ...component, batteryExpiresAt: batteryExpiresAt as Date } : component)
+  });
+
+  it('checks the 12-month inspection and the battery date marked on the installed ELT', () => {
+    const items = evaluate(far91207, withBattery(new Date('2027-06-30T00:00:00Z')), { intervals: [elt] }).items;
+
+    expect(items.map(({ id, status }) => ({ id, status }))).toEqual([
+      { id: 'n123ab-far-91-207-int-elt', status: 'CURRENT' },
+      { id: 'n123ab-far-91-207-elt-battery', status: 'CURRENT' }
+    ]);
+    expect(items[1].evidence[0].description).toBe('ELT P/N 453-5001 S/N ELT-40821 installed, battery due 2027-06-30');
+  });
+
+  it('flags a battery past or near its replacement date, including one stored as a string', () => {
+    const expired = evaluate(far91207, withBattery('2026-10-01T00:00:00Z'), { intervals: [elt] });
+    expect(expired.items[1]).toMatchObject({ status: 'OVERDUE', notes: '17 days overdue' });
+    expect(expired.issues).toEqual(['ELT Battery Replacement overdue per FAR 91.207 (17 days overdue)']);
+
+    expect(evaluate(far91207, withBattery(new Date('2026-11-10T00:00:00Z')), { intervals: [elt] }).items[1])
+      .toMatchObject({ status: 'DUE_SOON', notes: '23 days remaining' });
+  });
+
+  it('reports an untracked inspection and an unrecorded battery date for an installed ELT', () => {
+    expect(evaluate(far91207, withBattery(undefined)).items.map(({ status, notes }) => ({ status, notes }))).toEqual([
+      { status: 'NO_RECORD', notes: 'ELT installed but its 12-month inspection is not tracked' },
+      { status: 'NO_RECORD', notes: 'Battery replacement date not recorded' }
+    ]);
+    expect(evaluate(far91207, { ...n123ab, installedComponents: [] }).items).toEqual([
+      expect.objectContaining({ status: 'NO_RECORD', notes: 'No ELT or ELT inspection on record' })
+    ]);
+  });
+});
+
+describe('FAR 135.411', () => {
+  const aCheck = interval('int-1a', 'A_CHECK', { description: 'A-Check',
+    intervalHours: 500,
+    lastCompletedAt: new Date('2026-02-02T00:00:00Z'),
+    lastCompletedHours: 2000,
+    nextDueHours: 2500
+  });
+
+  it('requires an approved program from ten passenger seats', () => {
+    const [missing] = evaluate(far135411, n123ab).items;
+    expect(missing).toMatchObject({
+      description: 'Approved aircraft inspection program (135.411(a)(2))',
+      status: 'NO_RECORD',
+      notes: 'Not tracked: approved inspection program checks'
+    });
+
+    const [tracked] = evaluate(far135411, n123ab, { intervals: [aCheck] }).items;
+    expect(tracked.status).toBe('CURRENT');
+    expect(tracked.evidence.map(evidence => evidence.description)).toEqual([
+      'N123AB configured for 14 passenger seats',
+      'A-Check last completed 2026-02-02 at 2000 h'
+    ]);
+  });
+
+  it('requires both 91.409 inspections at nine seats or fewer', () => {
+    expect(evaluate(far135411, part91(), { intervals: [annual, aCheck] }).items[0]).toMatchObject({
+      description: 'FAR 91.409 inspections (135.411(a)(1))',
+      status: 'NO_RECORD',
+      notes: 'Not tracked: 100_HOUR'
+    });
+    expect(evaluate(far135411, part91(), { intervals: [annual, hundredHour(2500)] }).items[0].status).toBe('CURRENT');
+  });
+
+  it('cannot choose a program without the seating configuration', () => {
+    const unknown = { ...n123ab, passengerSeats: undefined };
+
+    expect(evaluate(far135411, unknown).items[0]).toMatchObject({ status: 'NO_RECORD', evidence: [] });
+    // 91.409 then applies in full
+    expect(evaluate(far91409, unknown).items.map(item => item.id)).toEqual(['n123ab-far-91-409-annual', 'n123ab-far-91-409-100-hour']);
+  });
+});
+
+describe('AgenticMaintenanceWorkflow.recordComplianceEvaluation', () => {
+  const workflow = () => new AgenticMaintenanceWorkflow(new JobScheduler(async () => new InMemoryJobStore(), new TestClock(asOf)));
+
+  it('writes the findings and their evidence to the audit trail once per change', () => {
+    const agent = workflow();
+    const report = evaluateAircraftCompliance(n123ab, {}, asOf);
+
+    agent.recordComplianceEvaluation(report);
+    agent.recordComplianceEvaluation(evaluateAircraftCompliance(n123ab, {}, asOf));
+
+    const logged = agent.getAuditTrail(true).filter(entry => entry.action === 'COMPLIANCE_EVALUATED');
+    expect(logged).toHaveLength(1);
+    expect(logged[0].details).toContain(`N123AB has ${report.summary.overdue + report.summary.noRecord} compliance finding(s)`);
+    expect(logged[0].dataChanges.aircraftId).toBe('n123ab');
+    expect(logged[0].dataChanges.findings).toContainEqual({
+      regulation: '91.207',
+      description: 'ELT Inspection',
+      status: 'NO_RECORD',
+      evidence: ['ELT P/N 453-5001 S/N ELT-40821 installed']
+    });
+
+    // A new finding set is logged again
+    agent.recordComplianceEvaluation(evaluateAircraftCompliance(n123ab, { intervals: [{ ...annual, intervalType: 'ELT', id: 'int-elt' }] }, asOf));
+    expect(agent.getAuditTrail(true).filter(entry => entry.action === 'COMPLIANCE_EVALUATED')).toHaveLength(2);
+  });
+});
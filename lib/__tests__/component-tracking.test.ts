@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import { FlightHistory, TrackedComponent } from '@/types';
+import {
+  accrueComponentTime,
+  componentToMaintenanceInterval,
+  installComponent,
+  projectComponentLife,
+  recordComponentOverhaul,
+  removeComponent
+} from '../component-tracking';
+import { MOCK_AIRCRAFT } from '../mock-fleet-data';
+
+const asOf = new Date('2026-10-18T00:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+const aircraft = MOCK_AIRCRAFT[0];
+const forecast = { dailyAverageHours: 4, dailyAverageCycles: 2, predictedUtilization: [] };
+
+// Engine 1 on N123AB: 200 h to overhaul, comfortably inside its cycle and retirement limits
+const engine: TrackedComponent = {
+  id: 'eng-test',
+  partNumber: 'BR700-710C4-11',
+  serialNumber: '15210',
+  description: 'Rolls-Royce BR710 turbofan',
+  category: 'LIFE_LIMITED',
+  componentType: 'ENGINE',
+  manufactureDate: new Date('2012-03-01T00:00:00Z'),
+  lastOverhaulDate: new Date('2019-06-01T00:00:00Z'),
+  tsn: 9800,
+  csn: 7200,
+  tso: 5800,
+  cso: 4100,
+  accruedThrough: new Date('2026-10-01T00:00:00Z'),
+  lifeLimits: [
+    { basis: 'TSO', action: 'OVERHAUL', hours: 6000, cycles: 6000 },
+    { basis: 'TSN', action: 'RETIRE', hours: 30000 }
+  ],
+  installedOn: { aircraftId: aircraft.id, position: 'Engine 1', installedAt: new Date('2020-01-15T00:00:00Z'), aircraftHours: 400, aircraftCycles: 300 },
+  overhaulCost: 1800000,
+  updatedAt: asOf
+};
+
+const flight = (id: string, aircraftId: string, arrival: string, flightTime: number): FlightHistory => ({
+  id,
+  aircraftId,
+  flightDate: new Date(new Date(arrival).getTime() - flightTime * 60000),
+  departure: { airport: 'KTEB', time: new Date(new Date(arrival).getTime() - flightTime * 60000) },
+  arrival: { airport: 'KPBI', time: new Date(arrival) },
+  blockTime: flightTime + 20,
+  flightTime,
+  cycles: 1,
+  maxAltitude: 41000,
+  averageSpeed: 440,
+  distance: 900,
+  pilotInCommand: 'Captain Lisa Moreno'
+});
+
+describe('projectComponentLife', () => {
+  it('measures each limit from its basis and picks the one reached first', () => {
+    const projection = projectComponentLife(engine, forecast, asOf);
+
+    expect(projection.limits.map(({ basis, limit, used, remaining, state }) => ({ basis, limit, used, remaining, state }))).toEqual([
+      { basis: 'TSO', limit: 'HOURS', used: 5800, remaining: 200, state: 'DUE_SOON' },
+      { basis: 'TSO', limit: 'CYCLES', used: 4100, remaining: 1900, state: 'CURRENT' },
+      { basis: 'TSN', limit: 'HOURS', used: 9800, remaining: 20200, state: 'CURRENT' }
+    ]);
+    // 200 h at 4 h a day
+    expect(projection.driving).toMatchObject({ basis: 'TSO', limit: 'HOURS', projectedDate: new Date(asOf.getTime() + 50 * DAY_MS) });
+    expect(projection).toMatchObject({ status: 'DUE_SOON', aircraftId: aircraft.id, position: 'Engine 1' });
+  });
+
+  it('counts time since overhaul from new for a part never overhauled', () => {
+    const fresh = { ...engine, tso: undefined, cso: undefined, lastOverhaulDate: undefined, tsn: 6100 };
+
+    expect(projectComponentLife(fresh, forecast, asOf).limits[0]).toMatchObject({ used: 6100, remaining: -100, state: 'OVERDUE' });
+    expect(projectComponentLife(fresh, forecast, asOf).status).toBe('OVERDUE');
+  });
+
+  it('runs calendar limits from manufacture or overhaul', () => {
+    const dated = { ...engine, lifeLimits: [{ basis: 'TSO' as const, action: 'INSPECT' as const, calendarDays: 2700 }] };
+    const [calendar] = projectComponentLife(dated, forecast, asOf).limits;
+
+    expect(calendar).toMatchObject({ limit: 'CALENDAR', projectedDate: new Date(engine.lastOverhaulDate!.getTime() + 2700 * DAY_MS) });
+    expect(calendar.used).toBe(Math.floor((asOf.getTime() - engine.lastOverhaulDate!.getTime()) / DAY_MS));
+  });
+
+  it('leaves hours and cycles undated off-wing and drives by the smallest share of life left', () => {
+    const projection = projectComponentLife({ ...engine, installedOn: undefined }, forecast, asOf);
+
+    expect(projection.limits.every(limit => limit.projectedDate === undefined)).toBe(true);
+    expect(projection.driving).toMatchObject({ basis: 'TSO', limit: 'HOURS', remaining: 200 });
+    expect(projection.aircraftId).toBeUndefined();
+  });
+});
+
+describe('accrueComponentTime', () => {
+  it('rolls new flights of its aircraft into TSN, CSN, TSO and CSO once', () => {
+    const flights = [
+      flight('flt-old', aircraft.id, '2026-09-30T18:00:00Z', 120), // already accrued
+      flight('flt-1', aircraft.id, '2026-10-05T18:00:00Z', 150),
+      flight('flt-2', aircraft.id, '2026-10-07T18:00:00Z', 87),
+      flight('flt-other', 'n456cd', '2026-10-06T18:00:00Z', 300)
+    ];
+
+    const accrued = accrueComponentTime(engine, flights);
+
+    expect(accrued).toMatchObject({
+      tsn: 9804, // 237 minutes, rounded to a tenth
+      csn: 7202,
+      tso: 5804,
+      cso: 4102,
+      accruedThrough: new Date('2026-10-07T18:00:00Z')
+    });
+    expect(accrueComponentTime(accrued, flights)).toBe(accrued);
+  });
+
+  it('keeps TSO unset on a part never overhauled and ignores flights off-wing or before installation', () => {
+    const fresh = { ...engine, tso: undefined, cso: undefined, accruedThrough: undefined, installedOn: { ...engine.installedOn!, installedAt: new Date('2026-10-06T00:00:00Z') } };
+    const flights = [flight('flt-1', aircraft.id, '2026-10-05T18:00:00Z', 150), flight('flt-2', aircraft.id, '2026-10-07T18:00:00Z', 60)];
+
+    expect(accrueComponentTime(fresh, flights)).toMatchObject({ tsn: 9801, csn: 7201, tso: undefined, cso: undefined });
+    const offWing = { ...engine, installedOn: undefined };
+    expect(accrueComponentTime(offWing, flights)).toBe(offWing);
+  });
+});
+
+describe('component events', () => {
+  it('removes, overhauls and reinstalls, keeping the aircraft installed list current', () => {
+    const { component: removed, aircraft: without, event: removal } = removeComponent(engine, aircraft, { date: asOf, reason: 'Overhaul due' });
+    expect(without.installedComponents?.some(installed => installed.serialNumber === '15210')).toBe(false);
+    expect(removal).toMatchObject({ type: 'REMOVE', position: 'Engine 1', tso: 5800, aircraftHours: aircraft.totalAircraftTime });
+
+    expect(() => recordComponentOverhaul(engine)).toThrow('must be removed before it is overhauled');
+    const { component: overhauled } = recordComponentOverhaul(removed, { date: asOf });
+    expect(overhauled).toMatchObject({ tsn: 9800, csn: 7200, tso: 0, cso: 0, lastOverhaulDate: asOf });
+
+    const { component: reinstalled, aircraft: withEngine } = installComponent(overhauled, without, 'Engine 1', { date: asOf });
+    expect(reinstalled.installedOn).toMatchObject({ aircraftId: aircraft.id, position: 'Engine 1', aircraftHours: aircraft.totalAircraftTime });
+    expect(withEngine.installedComponents).toContainEqual(expect.objectContaining({ serialNumber: '15210', position: 'Engine 1' }));
+  });
+
+  it('refuses an occupied position, a part already installed and a retired part', () => {
+    const spare = { ...engine, id: 'eng-spare', serialNumber: '15999', installedOn: undefined };
+
+    expect(() => installComponent(spare, aircraft, 'Engine 1'))
+      .toThrow('Engine 1 on N123AB is occupied by P/N BR700-710C4-11 S/N 15210; remove it first');
+    expect(() => installComponent(engine, aircraft, 'Engine 3')).toThrow('is already installed at Engine 1 on n123ab');
+    expect(() => installComponent({ ...spare, tsn: 30000 }, aircraft, 'Engine 3')).toThrow('has reached its TSN hours life limit');
+  });
+});
+
+describe('componentToMaintenanceInterval', () => {
+  it('schedules the nearest limit in airframe hours and cycles', () => {
+    expect(componentToMaintenanceInterval(engine, aircraft, forecast, asOf)).toMatchObject({
+      id: `${aircraft.id}-eng-test`,
+      intervalType: 'COMPONENT',
+      description: 'Engine 1 S/N 15210: overhaul at 6000 h TSO (Rolls-Royce BR710 turbofan P/N BR700-710C4-11)',
+      nextDueHours: aircraft.totalAircraftTime + 200,
+      nextDueCycles: aircraft.totalCycles + 1900,
+      priority: 'HIGH',
+      estimatedDowntime: 36,
+      estimatedCost: 1800000
+    });
+    expect(componentToMaintenanceInterval(engine, MOCK_AIRCRAFT[1], forecast, asOf)).toBeNull();
+  });
+});
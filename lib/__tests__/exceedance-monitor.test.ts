@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { FlightData } from '@/types';
+import { FlightTrackingEvent } from '../flight-tracking';
+import { ExceedanceMonitor } from '../exceedance-monitor';
+import { InMemoryFleetRepository } from '../fleet-repository';
+import { MOCK_AIRCRAFT } from '../mock-fleet-data';
+
+const off = new Date('2026-10-18T14:15:00Z');
+const aircraft = MOCK_AIRCRAFT[0];
+
+function trackingEvent(type: 'TAKEOFF' | 'POSITION_UPDATE' | 'LANDING', minutes: number, data: Partial<FlightData>): FlightTrackingEvent {
+  const lastContact = new Date(off.getTime() + minutes * 60 * 1000);
+  const flightData: FlightData = {
+    id: `adsb-${aircraft.tailNumber}`,
+    aircraftId: aircraft.id,
+    tailNumber: aircraft.tailNumber,
+    latitude: 40.85,
+    longitude: -74.06,
+    altitude: 5000,
+    groundSpeed: 250,
+    track: 197,
+    verticalRate: 0,
+    isOnGround: false,
+    lastContact,
+    flightStatus: 'ACTIVE',
+    actualDeparture: off,
+    dataSource: 'ADS-B',
+    lastUpdated: lastContact,
+    ...data
+  };
+  return {
+    id: minutes,
+    type,
+    tailNumber: aircraft.tailNumber,
+    timestamp: lastContact,
+    flightData,
+    position: {
+      tailNumber: aircraft.tailNumber,
+      latitude: flightData.latitude,
+      longitude: flightData.longitude,
+      altitude: flightData.altitude,
+      heading: flightData.track,
+      groundSpeed: flightData.groundSpeed,
+      isOnGround: flightData.isOnGround,
+      lastSeen: lastContact,
+      flightPhase: 'CLIMB'
+    }
+  } as FlightTrackingEvent;
+}
+
+describe('ExceedanceMonitor', () => {
+  it('reports ground speed over the low-altitude limit without opening an inspection', async () => {
+    const repository = new InMemoryFleetRepository({ aircraft: [aircraft] });
+    const monitor = new ExceedanceMonitor({ createWorkOrders: true }, async () => repository);
+
+    await monitor.handleEvent(trackingEvent('TAKEOFF', 0, { altitude: 0 }));
+    const [alert] = await monitor.handleEvent(trackingEvent('POSITION_UPDATE', 6, { altitude: 8000, groundSpeed: 340 }));
+
+    expect(alert).toMatchObject({
+      alertType: 'SPEED_LIMIT',
+      severity: 'CAUTION',
+      triggerValue: 340,
+      thresholdValue: 300,
+      requiresAction: false,
+      maintenanceRequired: false
+    });
+    expect(alert.workOrderId).toBeUndefined();
+    expect(await repository.listWorkOrders(aircraft.id)).toEqual([]);
+
+    // Once per flight, and not above the altitude ceiling
+    expect(await monitor.handleEvent(trackingEvent('POSITION_UPDATE', 7, { altitude: 9000, groundSpeed: 350 }))).toEqual([]);
+    expect(monitor.listAlerts({ aircraftId: aircraft.id })).toHaveLength(1);
+  });
+
+  it('ignores ground speed above the altitude ceiling', async () => {
+    const repository = new InMemoryFleetRepository({ aircraft: [aircraft] });
+    const monitor = new ExceedanceMonitor({ createWorkOrders: true }, async () => repository);
+
+    await monitor.handleEvent(trackingEvent('TAKEOFF', 0, { altitude: 0 }));
+    expect(await monitor.handleEvent(trackingEvent('POSITION_UPDATE', 30, { altitude: 41000, groundSpeed: 520 }))).toEqual([]);
+  });
+
+  it('opens an overspeed inspection for indicated airspeed over VMO', async () => {
+    const repository = new InMemoryFleetRepository({ aircraft: [aircraft] });
+    const monitor = new ExceedanceMonitor({ createWorkOrders: true }, async () => repository);
+
+    await monitor.handleEvent(trackingEvent('TAKEOFF', 0, { altitude: 0 }));
+    expect(await monitor.handleEvent(trackingEvent('POSITION_UPDATE', 10, { altitude: 18000, indicatedAirspeed: 335 }))).toEqual([]);
+    const [alert] = await monitor.handleEvent(trackingEvent('POSITION_UPDATE', 11, { altitude: 17000, indicatedAirspeed: 352 }));
+
+    // G550 VMO from data/maintenance-programs/gulfstream-g550.json
+    expect(alert).toMatchObject({
+      alertType: 'OVERSPEED',
+      severity: 'WARNING',
+      triggerValue: 352,
+      thresholdValue: 340,
+      unit: 'KIAS',
+      requiresAction: true,
+      maintenanceRequired: true
+    });
+    const [workOrder] = await repository.listWorkOrders(aircraft.id);
+    expect(workOrder).toMatchObject({ id: alert.workOrderId, priority: 'URGENT', category: 'UNSCHEDULED' });
+    expect(workOrder.title).toBe(`Overspeed conditional inspection - ${aircraft.tailNumber}`);
+
+    // Once per flight
+    expect(await monitor.handleEvent(trackingEvent('POSITION_UPDATE', 12, { altitude: 16000, indicatedAirspeed: 360 }))).toEqual([]);
+  });
+
+  it('checks Mach against MMO', async () => {
+    const repository = new InMemoryFleetRepository({ aircraft: [aircraft] });
+    const monitor = new ExceedanceMonitor({}, async () => repository);
+
+    await monitor.handleEvent(trackingEvent('TAKEOFF', 0, { altitude: 0 }));
+    const [alert] = await monitor.handleEvent(trackingEvent('POSITION_UPDATE', 40, { altitude: 43000, groundSpeed: 510, mach: 0.9 }));
+
+    expect(alert).toMatchObject({ alertType: 'OVERSPEED', triggerValue: 0.9, thresholdValue: 0.885, unit: 'Mach' });
+    expect(alert.workOrderId).toBeUndefined();
+  });
+
+  it('opens a conditional inspection for a hard landing', async () => {
+    const repository = new InMemoryFleetRepository({ aircraft: [aircraft] });
+    const monitor = new ExceedanceMonitor({ createWorkOrders: true }, async () => repository);
+
+    await monitor.handleEvent(trackingEvent('TAKEOFF', 0, { altitude: 0 }));
+    await monitor.handleEvent(trackingEvent('POSITION_UPDATE', 60, { altitude: 100, groundSpeed: 130, verticalRate: -720 }));
+    const [alert] = await monitor.handleEvent(trackingEvent('LANDING', 60.5, {
+      altitude: 0,
+      groundSpeed: 110,
+      verticalRate: 0,
+      isOnGround: true,
+      flightStatus: 'LANDED'
+    }));
+
+    expect(alert).toMatchObject({ alertType: 'HARD_LANDING', severity: 'CAUTION', maintenanceRequired: true });
+    const [workOrder] = await repository.listWorkOrders(aircraft.id);
+    expect(workOrder).toMatchObject({ id: alert.workOrderId, priority: 'URGENT', category: 'UNSCHEDULED' });
+    expect(workOrder.title).toBe(`Hard landing conditional inspection - ${aircraft.tailNumber}`);
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, it, expect } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { Aircraft, MaintenanceInterval, WorkOrder } from '@/types';
+import {
+  AircraftRow,
+  InMemoryFleetRepository,
+  MaintenanceIntervalRow,
+  PositionReportRow,
+  SupabaseFleetRepository,
+  WorkOrderRow,
+  mapAircraftRow,
+  mapMaintenanceIntervalRow,
+  mapWorkOrderRow,
+  toAircraftRow,
+  toMaintenanceIntervalRow,
+  toWorkOrderRow
+} from '../fleet-repository';
+
+const aircraft: Aircraft = {
+  id: 'n900pc',
+  tailNumber: 'N900PC',
+  make: 'Pilatus',
+  model: 'PC-12',
+  serialNumber: '1901',
+  yearOfManufacture: 2020,
+  totalAircraftTime: 812.4,
+  totalCycles: 640,
+  isActive: true,
+  certificateOfAirworthiness: 'Standard - FAA Form 8100-2 issued 2020-03-02',
+  passengerSeats: 8,
+  lastInspectionDate: new Date('2026-05-01T00:00:00.000Z'),
+  nextInspectionDue: new Date('2027-05-01T00:00:00.000Z'),
+  createdAt: new Date('2020-03-01T00:00:00.000Z'),
+  updatedAt: new Date('2026-10-01T12:00:00.000Z'),
+  flightStatus: 'AVAILABLE',
+  engineTimeTracking: 'HOBBS',
+  hobbsTime: 830.1,
+  tachoTime: undefined,
+  icaoAddress: 'ac82ec',
+  installedComponents: [
+    { partNumber: 'PT6A-67P', serialNumber: 'PCE-RA0512', description: 'Pratt & Whitney PT6A turboprop', position: 'Engine 1' }
+  ]
+};
+
+const interval: MaintenanceInterval = {
+  id: 'int-pc12-100h',
+  aircraftId: 'n900pc',
+  intervalType: '100_HOUR',
+  description: '100-hour inspection',
+  intervalHours: 100,
+  intervalCycles: undefined,
+  intervalCalendar: undefined,
+  lastCompletedAt: new Date('2026-08-12T00:00:00.000Z'),
+  lastCompletedHours: 750,
+  lastCompletedCycles: undefined,
+  nextDueAt: new Date('2027-08-12T00:00:00.000Z'),
+  nextDueHours: 850,
+  nextDueCycles: undefined,
+  tolerance: { hours: { late: 10 }, rebase: 'FROM_DUE_WITHIN_TOLERANCE' },
+  isOverdue: false,
+  priority: 'MEDIUM',
+  estimatedDowntime: 12,
+  estimatedCost: 4800
+};
+
+const workOrder: WorkOrder = {
+  id: 'wo-pc12-1',
+  aircraftId: 'n900pc',
+  workOrderNumber: 'WO-2026-000101',
+  title: '100-Hour Inspection',
+  description: 'Scheduled 100-hour inspection',
+  status: 'OPEN',
+  priority: 'ROUTINE',
+  category: 'SCHEDULED',
+  mechanicAssigned: 'John Smith',
+  inspectorAssigned: undefined,
+  estimatedHours: 12,
+  actualHours: undefined,
+  partsRequired: [],
+  createdAt: new Date('2026-10-10T08:00:00.000Z'),
+  scheduledStartDate: new Date('2026-10-20T08:00:00.000Z'),
+  actualStartDate: undefined,
+  completedDate: undefined
+};
+
+describe('row <-> domain mapping', () => {
+  it('round-trips aircraft', () => {
+    const row = toAircraftRow(aircraft);
+    expect(row.tail_number).toBe('N900PC');
+    expect(row.tacho_time).toBeNull();
+    expect(row.last_inspection_date).toBe('2026-05-01T00:00:00.000Z');
+    expect(mapAircraftRow(row)).toEqual(aircraft);
+  });
+
+  it('defaults missing aircraft status columns', () => {
+    const row: AircraftRow = { ...toAircraftRow(aircraft), flight_status: null, engine_time_tracking: null };
+    const mapped = mapAircraftRow(row);
+    expect(mapped.flightStatus).toBe('AVAILABLE');
+    expect(mapped.engineTimeTracking).toBe('HOBBS');
+  });
+
+  it('round-trips maintenance intervals', () => {
+    const row = toMaintenanceIntervalRow(interval);
+    expect(row.interval_type).toBe('100_HOUR');
+    expect(row.interval_cycles).toBeNull();
+    expect(row.next_due_at).toBe('2027-08-12T00:00:00.000Z');
+
+    const stored: MaintenanceIntervalRow = { ...row, created_at: '2026-08-12T00:00:00.000Z', updated_at: '2026-08-12T00:00:00.000Z' };
+    expect(mapMaintenanceIntervalRow(stored)).toEqual(interval);
+  });
+
+  it('round-trips work orders', () => {
+    const row = toWorkOrderRow(workOrder);
+    expect(row.inspector_assigned).toBeNull();
+    expect(row.scheduled_start_date).toBe('2026-10-20T08:00:00.000Z');
+
+    const stored: WorkOrderRow = { ...row, updated_at: '2026-10-10T08:00:00.000Z' };
+    expect(mapWorkOrderRow(stored)).toEqual(workOrder);
+  });
+});
+
+describe('InMemoryFleetRepository', () => {
+  it('reads and writes aircraft', async () => {
+    const repository = new InMemoryFleetRepository();
+    expect(await repository.getAircraft('n900pc')).toBeNull();
+
+    const saved = await repository.saveAircraft(aircraft);
+    expect(saved.updatedAt.getTime()).toBeGreaterThanOrEqual(aircraft.updatedAt.getTime());
+    expect(await repository.getAircraft('n900pc')).toMatchObject({ tailNumber: 'N900PC', model: 'PC-12' });
+    expect((await repository.findAircraftByTailNumber('n900pc'))?.id).toBe('n900pc');
+
+    await repository.saveAircraft({ ...aircraft, totalAircraftTime: 815.2 });
+    expect((await repository.getAircraft('n900pc'))?.totalAircraftTime).toBe(815.2);
+    expect(await repository.listAircraft()).toHaveLength(1);
+  });
+
+  it('lists aircraft by tail number and hands out copies', async () => {
+    const repository = new InMemoryFleetRepository({
+      aircraft: [aircraft, { ...aircraft, id: 'n100ab', tailNumber: 'N100AB' }]
+    });
+    const fleet = await repository.listAircraft();
+    expect(fleet.map(a => a.tailNumber)).toEqual(['N100AB', 'N900PC']);
+
+    fleet[1].totalAircraftTime = 0;
+    expect((await repository.getAircraft('n900pc'))?.totalAircraftTime).toBe(812.4);
+  });
+
+  it('reads and writes maintenance intervals per aircraft', async () => {
+    const repository = new InMemoryFleetRepository({ intervals: [interval] });
+    await repository.saveMaintenanceInterval({ ...interval, id: 'int-other', aircraftId: 'n100ab' });
+
+    expect(await repository.listMaintenanceIntervals()).toHaveLength(2);
+    expect((await repository.listMaintenanceIntervals('n900pc')).map(i => i.id)).toEqual(['int-pc12-100h']);
+
+    await repository.saveMaintenanceInterval({ ...interval, lastCompletedHours: 850, nextDueHours: 950 });
+    expect((await repository.listMaintenanceIntervals('n900pc'))[0].nextDueHours).toBe(950);
+  });
+
+  it('reads and writes work orders', async () => {
+    const repository = new InMemoryFleetRepository();
+    await repository.saveWorkOrder(workOrder);
+    await repository.saveWorkOrder({ ...workOrder, id: 'wo-other', aircraftId: 'n100ab' });
+
+    expect(await repository.getWorkOrder('wo-pc12-1')).toEqual(workOrder);
+    expect(await repository.getWorkOrder('wo-missing')).toBeNull();
+    expect((await repository.listWorkOrders('n900pc')).map(w => w.id)).toEqual(['wo-pc12-1']);
+
+    await repository.saveWorkOrder({ ...workOrder, status: 'IN_PROGRESS' });
+    expect((await repository.getWorkOrder('wo-pc12-1'))?.status).toBe('IN_PROGRESS');
+  });
+});
+
+// Stands in for PostgREST: answers .range() requests from `rows`, never more than `maxRows` at a time
+function cappedClient(rows: PositionReportRow[], maxRows: number) {
+  const ranges: [number, number][] = [];
+  const query = {
+    select: () => query,
+    eq: () => query,
+    gte: () => query,
+    lte: () => query,
+    order: () => query,
+    range: async (from: number, to: number) => {
+      ranges.push([from, to]);
+      return { data: rows.slice(from, Math.min(to + 1, from + maxRows)), error: null };
+    }
+  };
+  return { client: { from: () => query } as unknown as SupabaseClient, ranges };
+}
+
+describe('SupabaseFleetRepository', () => {
+  const reportRows = Array.from({ length: 2500 }, (_, i): PositionReportRow => ({
+    id: `n900pc-${i}`,
+    aircraft_id: 'n900pc',
+    tail_number: 'N900PC',
+    reported_at: new Date(Date.UTC(2026, 9, 18, 12) + i * 5000).toISOString(),
+    latitude: 40.85,
+    longitude: -74.06,
+    altitude: 41000,
+    ground_speed: 470,
+    track: 197,
+    vertical_rate: 0,
+    is_on_ground: false,
+    flight_phase: 'CRUISE',
+    data_source: 'ADS-B',
+    created_at: '2026-10-18T12:00:00.000Z'
+  }));
+  const from = new Date('2026-10-18T00:00:00Z');
+  const to = new Date('2026-10-19T00:00:00Z');
+
+  it('pages position reports past the response row cap', async () => {
+    const { client, ranges } = cappedClient(reportRows, 1000);
+    const reports = await new SupabaseFleetRepository(client).listPositionReports('n900pc', from, to);
+
+    expect(reports).toHaveLength(2500);
+    expect(reports[2499].id).toBe('n900pc-2499');
+    expect(ranges).toEqual([[0, 999], [1000, 1999], [2000, 2999], [2500, 3499]]);
+  });
+
+  it('keeps paging when the server caps responses below the page size', async () => {
+    const { client } = cappedClient(reportRows, 400);
+    const reports = await new SupabaseFleetRepository(client).listPositionReports('n900pc', from, to);
+
+    expect(reports.map(report => report.id)).toEqual(reportRows.map(row => row.id));
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { FlightData } from '@/types';
+import { GET } from '@/app/api/flight-data/route';
+import { getFlightTrackingService } from '../flight-tracking';
+
+const service = getFlightTrackingService();
+const decoder = new TextDecoder();
+
+interface Frame {
+  id?: string;
+  event?: string;
+  data?: any;
+}
+
+// One open SSE connection; frames are parsed as they arrive
+function connect(headers: Record<string, string> = {}) {
+  const controller = new AbortController();
+  const request = new NextRequest('http://localhost/api/flight-data?action=stream&tailNumbers=N123AB', { headers, signal: controller.signal });
+  const opened = GET(request).then(response => {
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    return response.body!.getReader();
+  });
+  let buffered = '';
+
+  return {
+    async frames(count: number): Promise<Frame[]> {
+      const reader = await opened;
+      const frames: Frame[] = [];
+      while (frames.length < count) {
+        const blocks = buffered.split('\n\n');
+        buffered = blocks.pop()!;
+        blocks
+          .filter(block => block.includes('event: '))
+          .forEach(block => frames.push(Object.fromEntries(block.split('\n').map(line => {
+            const [field, ...value] = line.split(': ');
+            return [field, field === 'data' ? JSON.parse(value.join(': ')) : value.join(': ')];
+          }))));
+        if (frames.length >= count) break;
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffered += decoder.decode(value);
+      }
+      return frames;
+    },
+    async close() {
+      await opened;
+      controller.abort();
+    }
+  };
+}
+
+let sequence = 0;
+const report = (fields: Partial<FlightData>) => service.ingestFlightData({
+  id: `fd-stream-${++sequence}`,
+  aircraftId: 'n123ab',
+  tailNumber: 'N123AB',
+  latitude: 40.85 + sequence / 100,
+  longitude: -74.06,
+  altitude: 0,
+  groundSpeed: 0,
+  track: 90,
+  verticalRate: 0,
+  isOnGround: true,
+  lastContact: new Date(Date.now() - 60000 + sequence * 1000),
+  flightStatus: 'SCHEDULED',
+  departureAirport: 'KTEB',
+  dataSource: 'MANUAL',
+  lastUpdated: new Date(),
+  ...fields
+});
+
+afterEach(() => {
+  service.stopAllTracking();
+});
+
+describe('GET /api/flight-data?action=stream', () => {
+  it('opens with a snapshot and forwards live updates under their event ids', async () => {
+    const client = connect();
+    const [snapshot] = await client.frames(1);
+    expect(snapshot).toMatchObject({ event: 'snapshot', id: String(service.getLastEventId()) });
+    expect(snapshot.data.map((position: { tailNumber: string }) => position.tailNumber)).toEqual(['N123AB']);
+
+    report({});
+    const [position] = await client.frames(1);
+    expect(position).toMatchObject({ event: 'position', id: String(service.getLastEventId()), data: { tailNumber: 'N123AB' } });
+    await client.close();
+  });
+
+  it('replays what was missed after Last-Event-ID instead of a snapshot', async () => {
+    report({});
+    const lastSeen = service.getLastEventId();
+    report({ altitude: 900, groundSpeed: 150, verticalRate: 2000, isOnGround: false, flightStatus: 'ACTIVE' });
+
+    const client = connect({ 'last-event-id': String(lastSeen) });
+    const frames = await client.frames(2);
+
+    expect(frames.map(frame => [frame.event, Number(frame.id)])).toEqual([
+      ['position', lastSeen + 1],
+      ['flight-event', lastSeen + 3] // the phase change between them is not streamed
+    ]);
+    expect(frames[1].data).toMatchObject({ type: 'TAKEOFF', tailNumber: 'N123AB' });
+    await client.close();
+  });
+
+  it('falls back to a snapshot when the id is no longer buffered', async () => {
+    const client = connect({ 'last-event-id': String(service.getLastEventId() + 100) });
+
+    expect((await client.frames(1))[0].event).toBe('snapshot');
+    await client.close();
+  });
+
+  it('holds tracking only while connections are open', async () => {
+    const first = connect();
+    const second = connect();
+    await first.frames(1);
+    await second.frames(1);
+    expect(service.getTrackingHolds('N123AB')).toBe(2);
+
+    await first.close();
+    expect(service.getTrackedAircraft()).toEqual(['N123AB']);
+    await second.close();
+    expect(service.getTrackedAircraft()).toEqual([]);
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect } from 'vitest';
+import { AircraftPosition, FlightData, FlightHistory } from '@/types';
+import { FlightTrackingEvent, calculateDistance } from '../flight-tracking';
+import { FlightSegmentDetector, recordFlights } from '../flight-log';
+import { InMemoryFleetRepository } from '../fleet-repository';
+import { MOCK_AIRCRAFT, MOCK_COMPONENTS } from '../mock-fleet-data';
+
+const start = new Date('2026-10-18T13:00:00Z');
+const at = (minutes: number) => new Date(start.getTime() + minutes * 60 * 1000);
+const aircraft = MOCK_AIRCRAFT[0];
+
+const TEB = { latitude: 40.85, longitude: -74.06 };
+const CRUISE = { latitude: 35.2, longitude: -76.9 };
+const PBI = { latitude: 26.68, longitude: -80.1 };
+
+type Sample = Partial<AircraftPosition> & { flightData?: Partial<FlightData> };
+
+function trackingEvent(type: 'POSITION_UPDATE' | 'TAKEOFF' | 'LANDING', minutes: number, sample: Sample): FlightTrackingEvent {
+  const { flightData: data, ...fields } = sample;
+  const position: AircraftPosition = {
+    tailNumber: aircraft.tailNumber,
+    ...TEB,
+    altitude: 0,
+    heading: 190,
+    groundSpeed: 0,
+    isOnGround: true,
+    lastSeen: at(minutes),
+    flightPhase: 'PARKED',
+    ...fields
+  };
+  const flightData: FlightData = {
+    id: `adsb-${aircraft.tailNumber}`,
+    aircraftId: aircraft.id,
+    tailNumber: aircraft.tailNumber,
+    latitude: position.latitude,
+    longitude: position.longitude,
+    altitude: position.altitude,
+    groundSpeed: position.groundSpeed,
+    track: position.heading,
+    verticalRate: 0,
+    isOnGround: position.isOnGround,
+    lastContact: position.lastSeen,
+    flightStatus: position.isOnGround ? 'LANDED' : 'ACTIVE',
+    dataSource: 'ADS-B',
+    lastUpdated: position.lastSeen,
+    ...data
+  };
+  return { id: minutes, type, tailNumber: aircraft.tailNumber, timestamp: position.lastSeen, position, flightData };
+}
+
+const taxiOut = (minutes: number, airport = 'KTEB') =>
+  trackingEvent('POSITION_UPDATE', minutes, { groundSpeed: 14, flightPhase: 'TAXI', airport });
+const takeoff = (minutes: number) =>
+  trackingEvent('TAKEOFF', minutes, { altitude: 400, groundSpeed: 150, isOnGround: false, flightPhase: 'TAKEOFF' });
+const cruise = (minutes: number) =>
+  trackingEvent('POSITION_UPDATE', minutes, { ...CRUISE, altitude: 41000, groundSpeed: 480, isOnGround: false, flightPhase: 'CRUISE' });
+const landing = (minutes: number) =>
+  trackingEvent('LANDING', minutes, { ...PBI, groundSpeed: 110, flightPhase: 'LANDING', flightData: { arrivalAirport: 'KPBI' } });
+const parked = (minutes: number) =>
+  trackingEvent('POSITION_UPDATE', minutes, { ...PBI, flightPhase: 'PARKED', airport: 'KPBI' });
+
+function detect(events: FlightTrackingEvent[]) {
+  const detector = new FlightSegmentDetector();
+  const completed: FlightHistory[] = [];
+  detector.onFlightCompleted(flight => completed.push(flight));
+  events.forEach(event => detector.handleEvent(event));
+  return { detector, completed };
+}
+
+describe('FlightSegmentDetector', () => {
+  it('logs out, off, on and in times, maximum altitude and distance for a flight', () => {
+    const { detector, completed } = detect([taxiOut(0), takeoff(8), cruise(60), landing(150), parked(160)]);
+
+    expect(completed).toHaveLength(1);
+    const [flight] = completed;
+    expect(flight).toMatchObject({
+      id: `flt-n123ab-${at(8).getTime()}`,
+      aircraftId: aircraft.id,
+      flightDate: at(8),
+      departure: { airport: 'KTEB', time: at(0), offTime: at(8) },
+      arrival: { airport: 'KPBI', time: at(160), onTime: at(150) },
+      blockTime: 160,
+      flightTime: 142,
+      cycles: 1,
+      maxAltitude: 41000,
+      dataSource: 'ADS-B'
+    });
+    const distance = calculateDistance(TEB.latitude, TEB.longitude, CRUISE.latitude, CRUISE.longitude) +
+      calculateDistance(CRUISE.latitude, CRUISE.longitude, PBI.latitude, PBI.longitude);
+    expect(flight.distance).toBe(Math.round(distance));
+    expect(flight.averageSpeed).toBe(Math.round(distance / (142 / 60)));
+    expect(detector.getOpenFlight(aircraft.tailNumber)).toBeUndefined();
+  });
+
+  it('keeps the flight open between landing and parking', () => {
+    const { detector, completed } = detect([taxiOut(0), takeoff(8), landing(150)]);
+
+    expect(completed).toEqual([]);
+    expect(detector.getOpenFlight(aircraft.tailNumber)).toMatchObject({ out: at(0), off: at(8), on: at(150), arrivalAirport: 'KPBI' });
+  });
+
+  it('closes the previous flight at the turnaround when the aircraft departs again before parking', () => {
+    const { detector, completed } = detect([
+      taxiOut(0), takeoff(8), landing(150),
+      trackingEvent('POSITION_UPDATE', 152, { ...PBI, groundSpeed: 60, flightPhase: 'TAXI_IN' }),
+      takeoff(153), cruise(200)
+    ]);
+
+    expect(completed).toHaveLength(1);
+    expect(completed[0]).toMatchObject({ arrival: { airport: 'KPBI', time: at(152), onTime: at(150) }, flightTime: 142 });
+    expect(detector.getOpenFlight(aircraft.tailNumber)).toMatchObject({ out: at(152), off: at(153), departureAirport: 'KPBI' });
+  });
+
+  it('drops a taxi that returns to parking without flying', () => {
+    const { detector, completed } = detect([taxiOut(0), trackingEvent('POSITION_UPDATE', 12, { flightPhase: 'PARKED', airport: 'KTEB' })]);
+
+    expect(completed).toEqual([]);
+    expect(detector.getOpenFlight(aircraft.tailNumber)).toBeUndefined();
+  });
+
+  it('closes a landed flight at the last contact when the data goes stale', () => {
+    const { detector, completed } = detect([taxiOut(0), takeoff(8), landing(150)]);
+    detector.handleEvent({ id: 99, type: 'STALE_DATA', tailNumber: aircraft.tailNumber, timestamp: at(170), lastContact: at(154) });
+
+    expect(completed).toHaveLength(1);
+    expect(completed[0]).toMatchObject({ arrival: { time: at(154), onTime: at(150) }, blockTime: 154 });
+  });
+
+  it('drops a taxi, and keeps an airborne flight, when the data goes stale', () => {
+    const taxi = detect([taxiOut(0)]);
+    taxi.detector.handleEvent({ id: 99, type: 'STALE_DATA', tailNumber: aircraft.tailNumber, timestamp: at(20), lastContact: at(0) });
+    expect(taxi.detector.getOpenFlight(aircraft.tailNumber)).toBeUndefined();
+
+    const airborne = detect([taxiOut(0), takeoff(8)]);
+    airborne.detector.handleEvent({ id: 99, type: 'STALE_DATA', tailNumber: aircraft.tailNumber, timestamp: at(40), lastContact: at(20) });
+    expect(airborne.completed).toEqual([]);
+    expect(airborne.detector.getOpenFlight(aircraft.tailNumber)).toMatchObject({ off: at(8) });
+  });
+
+  it('takes the reported departure time for a flight first seen airborne', () => {
+    const { completed } = detect([
+      trackingEvent('POSITION_UPDATE', 60, {
+        ...CRUISE,
+        altitude: 41000,
+        groundSpeed: 480,
+        isOnGround: false,
+        flightPhase: 'CRUISE',
+        flightData: { actualDeparture: at(8), departureAirport: 'KTEB' }
+      }),
+      landing(150),
+      parked(160)
+    ]);
+
+    expect(completed).toHaveLength(1);
+    expect(completed[0]).toMatchObject({
+      departure: { airport: 'KTEB', time: at(8), offTime: at(8) },
+      flightTime: 142,
+      blockTime: 152
+    });
+  });
+});
+
+describe('recordFlights', () => {
+  const flight = (id: string, offHour: number, flightTime: number): FlightHistory => ({
+    id,
+    aircraftId: aircraft.id,
+    flightDate: at(offHour * 60),
+    departure: { airport: 'KTEB', time: at(offHour * 60 - 10) },
+    arrival: { airport: 'KPBI', time: at(offHour * 60 + flightTime + 10) },
+    blockTime: flightTime + 20,
+    flightTime,
+    cycles: 1,
+    maxAltitude: 41000,
+    averageSpeed: 440,
+    distance: 900,
+    pilotInCommand: 'Not recorded'
+  });
+  const engine = MOCK_COMPONENTS.find(component => component.id === 'eng-15210');
+
+  it('advances the airframe and installed components, skipping flights already logged', async () => {
+    const logged = flight('flt-logged', -24, 120);
+    const repository = new InMemoryFleetRepository({ aircraft: [aircraft], components: [engine], flights: [logged] });
+
+    const result = await recordFlights(repository, [logged, flight('flt-1', 0, 150), flight('flt-2', 5, 87)]);
+
+    expect(result.flights.map(recorded => recorded.id)).toEqual(['flt-1', 'flt-2']);
+    expect(await repository.getAircraft(aircraft.id)).toMatchObject({
+      totalAircraftTime: Math.round((aircraft.totalAircraftTime + 237 / 60) * 10) / 10,
+      totalCycles: aircraft.totalCycles + 2
+    });
+    const [accrued] = await repository.listComponents(aircraft.id);
+    expect(accrued).toMatchObject({ tsn: Math.round((engine.tsn + 237 / 60) * 10) / 10, csn: engine.csn + 2 });
+    expect(await repository.listFlights(aircraft.id)).toHaveLength(3);
+  });
+
+  it('counts a flight only once when it is recorded again', async () => {
+    const repository = new InMemoryFleetRepository({ aircraft: [aircraft], components: [engine] });
+    await recordFlights(repository, [flight('flt-1', 0, 150)]);
+
+    const again = await recordFlights(repository, [flight('flt-1', 0, 150)]);
+
+    expect(again).toEqual({ flights: [], aircraft: [], components: [] });
+    expect(await repository.getAircraft(aircraft.id)).toMatchObject({ totalCycles: aircraft.totalCycles + 1 });
+  });
+
+  it('rejects flights for an aircraft that is not in the fleet', async () => {
+    await expect(recordFlights(new InMemoryFleetRepository(), [flight('flt-1', 0, 150)]))
+      .rejects.toThrow(`Aircraft ${aircraft.id} not found`);
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FlightData } from '@/types';
+import { FlightTrackingEvent, FlightTrackingService } from '../flight-tracking';
+
+const now = new Date('2026-10-18T15:00:00Z');
+
+const config = {
+  provider: 'MOCK' as const,
+  updateInterval: 30,
+  staleAfter: 120,
+  enabledFeatures: { realTimeTracking: true, flightHistory: true, alertGeneration: true }
+};
+
+const flightData = (tailNumber: string, secondsAgo: number, fields: Partial<FlightData> = {}): FlightData => ({
+  id: `fd-${tailNumber}-${secondsAgo}`,
+  aircraftId: tailNumber.toLowerCase(),
+  tailNumber,
+  latitude: 40.85,
+  longitude: -74.06,
+  altitude: 0,
+  groundSpeed: 0,
+  track: 90,
+  verticalRate: 0,
+  isOnGround: true,
+  lastContact: new Date(now.getTime() - secondsAgo * 1000),
+  flightStatus: 'SCHEDULED',
+  departureAirport: 'KTEB',
+  arrivalAirport: 'KPBI',
+  dataSource: 'MANUAL',
+  lastUpdated: now,
+  ...fields
+});
+
+const climbing = { altitude: 800, groundSpeed: 150, verticalRate: 2500, isOnGround: false, flightStatus: 'ACTIVE' as const };
+
+let service: FlightTrackingService;
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(now);
+  service = new FlightTrackingService(config);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('FlightTrackingService events', () => {
+  it('delivers typed position, phase and takeoff payloads in order', () => {
+    const received: FlightTrackingEvent[] = [];
+    service.subscribe(event => received.push(event));
+
+    service.ingestFlightData(flightData('N123AB', 60));
+    service.ingestFlightData(flightData('N123AB', 30, climbing));
+
+    expect(received.map(event => [event.id, event.type])).toEqual([
+      [1, 'POSITION_UPDATE'], [2, 'POSITION_UPDATE'], [3, 'PHASE_CHANGE'], [4, 'TAKEOFF']
+    ]);
+
+    const [parked, , phase, takeoff] = received;
+    expect(parked.type === 'POSITION_UPDATE' && parked.position).toMatchObject({ flightPhase: 'PARKED', airport: 'KTEB' });
+    expect(phase.type === 'PHASE_CHANGE' && [phase.from, phase.to]).toEqual(['PARKED', 'TAKEOFF']);
+    expect(takeoff.type === 'TAKEOFF' && takeoff.flightData.lastContact).toEqual(new Date(now.getTime() - 30000));
+    expect(takeoff).toMatchObject({ tailNumber: 'N123AB', timestamp: now });
+  });
+
+  it('reports a landing with the destination and a stale aircraft once', () => {
+    const received: FlightTrackingEvent[] = [];
+    service.subscribe(event => received.push(event), { types: ['LANDING', 'STALE_DATA'] });
+
+    service.ingestFlightData(flightData('N123AB', 90, { ...climbing, altitude: 900, verticalRate: -800 }));
+    service.ingestFlightData(flightData('N123AB', 60, { isOnGround: true, flightStatus: 'LANDED' }));
+    service.checkStale('N123AB', new Date(now.getTime() + 90 * 1000));
+    service.checkStale('N123AB', new Date(now.getTime() + 120 * 1000));
+
+    expect(received.map(event => event.type)).toEqual(['LANDING', 'STALE_DATA']);
+    const [landing, stale] = received;
+    expect(landing.type === 'LANDING' && landing.position.airport).toBe('KPBI');
+    expect(stale.type === 'STALE_DATA' && stale.secondsSinceContact).toBe(150);
+  });
+
+  it('filters by event type and tail number', () => {
+    const takeoffs: FlightTrackingEvent[] = [];
+    const n456cd: FlightTrackingEvent[] = [];
+    service.subscribe(event => takeoffs.push(event), { types: ['TAKEOFF'] });
+    service.subscribe(event => n456cd.push(event), { tailNumbers: ['n456cd'] });
+
+    service.ingestFlightData(flightData('N123AB', 60));
+    service.ingestFlightData(flightData('N123AB', 30, climbing));
+    service.ingestFlightData(flightData('N456CD', 30));
+
+    expect(takeoffs.map(event => [event.type, event.tailNumber])).toEqual([['TAKEOFF', 'N123AB']]);
+    expect(n456cd.map(event => [event.type, event.tailNumber])).toEqual([['POSITION_UPDATE', 'N456CD']]);
+  });
+
+  it('stops delivering after unsubscribe, by handle or by listener', () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    const unsubscribe = service.subscribe(first);
+    service.subscribe(second);
+
+    service.ingestFlightData(flightData('N123AB', 60));
+    unsubscribe();
+    service.unsubscribe(second);
+    service.ingestFlightData(flightData('N123AB', 30, climbing));
+
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(1);
+    // Events are still buffered for clients that resume by id
+    expect(service.getRecentEvents(1).map(event => event.type)).toEqual(['POSITION_UPDATE', 'PHASE_CHANGE', 'TAKEOFF']);
+  });
+
+  it('keeps delivering to the other listeners when one throws', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const healthy = vi.fn();
+    service.subscribe(() => { throw new Error('listener failed'); });
+    service.subscribe(healthy);
+
+    service.publishMaintenanceAlert('N123AB', {
+      id: 'alert-1',
+      aircraftId: 'n123ab',
+      alertType: 'MAINTENANCE_DUE',
+      severity: 'WARNING',
+      message: '100-hour inspection due',
+      triggerValue: 2450,
+      thresholdValue: 2450,
+      unit: 'hours',
+      timestamp: now,
+      acknowledged: false,
+      requiresAction: true
+    });
+
+    expect(healthy).toHaveBeenCalledWith(expect.objectContaining({ type: 'MAINTENANCE_ALERT', alert: expect.objectContaining({ id: 'alert-1' }) }));
+    expect(error).toHaveBeenCalledWith('Flight tracking listener failed on MAINTENANCE_ALERT for N123AB:', expect.any(Error));
+    error.mockRestore();
+  });
+});
+
+describe('FlightTrackingService.holdFleetTracking', () => {
+  const fleet = [{ tailNumber: 'N123AB', icaoAddress: 'a05ed9' }, { tailNumber: 'N456CD', icaoAddress: 'a5889c' }];
+
+  it('polls while any holder remains and stops with the last release', () => {
+    vi.useRealTimers();
+    vi.useFakeTimers({ toFake: ['Date', 'setInterval', 'clearInterval'] });
+    const first = service.holdFleetTracking(fleet);
+    const second = service.holdFleetTracking(fleet.slice(0, 1));
+
+    expect(service.getTrackedAircraft()).toEqual(['N123AB', 'N456CD']);
+    expect(service.getTrackingHolds('N123AB')).toBe(2);
+    expect(vi.getTimerCount()).toBe(1);
+
+    first();
+    first();
+    expect(service.getTrackedAircraft()).toEqual(['N123AB']);
+    expect(service.getTrackingHolds('N123AB')).toBe(1);
+
+    second();
+    expect(service.getTrackedAircraft()).toEqual([]);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('keeps aircraft started explicitly after the last holder releases them', () => {
+    const release = service.holdFleetTracking(fleet);
+    service.startFleetTracking(fleet.slice(1));
+
+    release();
+    expect(service.getTrackedAircraft()).toEqual(['N456CD']);
+    service.stopAllTracking();
+  });
+});
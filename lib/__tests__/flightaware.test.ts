@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AeroApiFlight,
+  AeroApiPositionResponse,
+  mapAeroApiFlightData,
+  mapAeroApiFlightHistory,
+  mapAeroApiFlightStatus
+} from '../flightaware';
+import flightsFixture from './fixtures/aeroapi/flights-N123AB.json';
+import enRouteFixture from './fixtures/aeroapi/position-en-route.json';
+import parkedFixture from './fixtures/aeroapi/position-parked.json';
+
+// Recorded /flights/N123AB and /flights/{fa_flight_id}/position responses, newest flight first:
+// a delayed departure tomorrow, one en route, yesterday's arrival, a diversion and a cancellation
+const flights = flightsFixture.flights as AeroApiFlight[];
+const [delayed, enRoute, arrived, diverted, cancelled] = flights;
+const enRoutePosition = (enRouteFixture as AeroApiPositionResponse).last_position;
+const parkedPosition = (parkedFixture as AeroApiPositionResponse).last_position;
+const now = new Date('2026-10-18T15:30:00Z');
+
+describe('mapAeroApiFlightStatus', () => {
+  it('maps out/off/on/in progress onto a flight status', () => {
+    expect(mapAeroApiFlightStatus(enRoute)).toBe('ACTIVE');
+    expect(mapAeroApiFlightStatus(arrived)).toBe('LANDED');
+    expect(mapAeroApiFlightStatus(diverted)).toBe('LANDED');
+    expect(mapAeroApiFlightStatus(cancelled)).toBe('CANCELLED');
+  });
+
+  it('reports DELAYED from the departure delay, or estimated against scheduled out', () => {
+    expect(mapAeroApiFlightStatus(delayed)).toBe('DELAYED');
+    expect(mapAeroApiFlightStatus({ ...delayed, departure_delay: null, status: 'Scheduled' })).toBe('DELAYED');
+    expect(mapAeroApiFlightStatus({
+      ...delayed,
+      estimated_out: delayed.scheduled_out,
+      departure_delay: 0,
+      status: 'Scheduled'
+    })).toBe('SCHEDULED');
+  });
+});
+
+describe('mapAeroApiFlightData', () => {
+  it('describes the flight in progress from its last position', () => {
+    const data = mapAeroApiFlightData('n123ab', flights, enRoutePosition, now);
+
+    expect(data).toMatchObject({
+      id: 'flightaware-N123AB-1760790000-adhoc-2198',
+      aircraftId: 'n123ab',
+      tailNumber: 'N123AB',
+      callsign: 'N123AB',
+      flightStatus: 'ACTIVE',
+      departureAirport: 'KTEB',
+      arrivalAirport: 'KPBI',
+      latitude: 37.81472,
+      longitude: -75.29861,
+      altitude: 41000,
+      groundSpeed: 472,
+      track: 197,
+      isOnGround: false,
+      cycles: 0,
+      dataSource: 'FLIGHTAWARE'
+    });
+    expect(data.estimatedDeparture).toEqual(new Date('2026-10-18T14:02:00Z'));
+    expect(data.actualDeparture).toEqual(new Date('2026-10-18T14:15:00Z')); // wheels off
+    expect(data.estimatedArrival).toEqual(new Date('2026-10-18T16:33:00Z')); // gate in
+    expect(data.actualArrival).toBeUndefined();
+    expect(data.blockTime).toBe(88); // out 14:02 to now
+    expect(data.flightTime).toBe(75); // off 14:15 to now
+    expect(data.lastContact).toEqual(new Date('2026-10-18T15:29:40Z'));
+  });
+
+  it('puts the aircraft on the ground where its last flight ended', () => {
+    const data = mapAeroApiFlightData('N123AB', flights.filter(flight => flight !== enRoute), parkedPosition, now);
+
+    expect(data).toMatchObject({
+      id: 'flightaware-N123AB-1760700000-adhoc-2176',
+      flightStatus: 'LANDED',
+      departureAirport: 'KPBI',
+      arrivalAirport: 'KTEB',
+      latitude: 40.85012,
+      longitude: -74.06083,
+      altitude: 0,
+      groundSpeed: 0,
+      track: 0,
+      isOnGround: true,
+      blockTime: 155,
+      flightTime: 132,
+      cycles: 1
+    });
+    expect(data.actualDeparture).toEqual(new Date('2026-10-17T18:19:00Z'));
+    expect(data.actualArrival).toEqual(new Date('2026-10-17T20:31:00Z'));
+  });
+
+  it('prefers a departure due within three hours over the last arrival', () => {
+    const beforeDeparture = new Date('2026-10-19T11:00:00Z');
+    const data = mapAeroApiFlightData('N123AB', [delayed, arrived], parkedPosition, beforeDeparture);
+
+    expect(data).toMatchObject({ flightStatus: 'DELAYED', departureAirport: 'KPBI', isOnGround: true, altitude: 0 });
+    expect(data.estimatedDeparture).toEqual(new Date('2026-10-19T13:25:00Z'));
+    expect(data.blockTime).toBeUndefined();
+  });
+
+  it('returns null without a position', () => {
+    expect(mapAeroApiFlightData('N123AB', flights, null, now)).toBeNull();
+  });
+});
+
+describe('mapAeroApiFlightHistory', () => {
+  it('keeps completed flights, newest first', () => {
+    const history = mapAeroApiFlightHistory('N123AB', flights);
+    expect(history.map(flight => flight.id)).toEqual([
+      'flightaware-N123AB-1760700000-adhoc-2176',
+      'flightaware-N123AB-1760600000-adhoc-2150'
+    ]);
+  });
+
+  it('takes block times from out/in and flight time from off/on', () => {
+    const [flight] = mapAeroApiFlightHistory('N123AB', flights);
+
+    expect(flight).toMatchObject({
+      aircraftId: 'n123ab',
+      departure: {
+        airport: 'KPBI',
+        time: new Date('2026-10-17T18:05:00Z'),
+        offTime: new Date('2026-10-17T18:19:00Z')
+      },
+      arrival: {
+        airport: 'KTEB',
+        time: new Date('2026-10-17T20:40:00Z'),
+        onTime: new Date('2026-10-17T20:31:00Z')
+      },
+      blockTime: 155,
+      flightTime: 132,
+      cycles: 1,
+      maxAltitude: 41000,
+      distance: 541, // 622 statute miles
+      averageSpeed: 246,
+      route: ['KPBI', 'PBI', 'AR15', 'ILM', 'J174', 'ATR', 'V1', 'DIXIE', 'KTEB'],
+      dataSource: 'FLIGHTAWARE'
+    });
+    expect(flight.flightDate).toEqual(new Date('2026-10-17T18:19:00Z'));
+    expect(flight.notes).toBeUndefined();
+  });
+
+  it("doesn't record a diverted flight's filed destination as where it landed", () => {
+    const divertedFlight = mapAeroApiFlightHistory('N123AB', flights)[1];
+
+    expect(divertedFlight.departure.airport).toBe('KTEB');
+    expect(divertedFlight.arrival.airport).toBe('UNKNOWN');
+    expect(divertedFlight.notes).toBe('Diverted; Diverted');
+    expect(divertedFlight.flightTime).toBe(53);
+    expect(divertedFlight.blockTime).toBe(74);
+  });
+});
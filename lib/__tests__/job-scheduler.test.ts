@@ -0,0 +1,245 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { InMemoryJobStore, JobScheduler, TestClock } from '../job-scheduler';
+import { AgenticMaintenanceWorkflow } from '../agentic-workflow';
+import { InMemoryAuditTrailStore } from '../audit-trail';
+
+const SECOND = 1000;
+const HOUR = 60 * 60 * SECOND;
+const start = new Date('2026-10-18T12:00:00Z');
+
+let store: InMemoryJobStore;
+let clock: TestClock;
+let scheduler: JobScheduler;
+
+beforeEach(() => {
+  store = new InMemoryJobStore();
+  clock = new TestClock(start);
+  scheduler = new JobScheduler(async () => store, clock);
+});
+
+describe('JobScheduler', () => {
+  it('retries a failing job with doubling backoff until maxAttempts', async () => {
+    let runs = 0;
+    scheduler.register('flaky', async () => {
+      runs++;
+      throw new Error('SMTP unavailable');
+    });
+    const { id } = await scheduler.schedule('flaky', {}, { maxAttempts: 3 });
+
+    expect(await scheduler.runDueJobs()).toMatchObject({ claimed: 1, retrying: 1, failed: 0 });
+    let job = await store.getJob(id);
+    expect(job).toMatchObject({ status: 'PENDING', attempts: 1, lastError: 'SMTP unavailable' });
+    expect(job.runAt).toEqual(new Date(start.getTime() + 30 * SECOND));
+
+    // Not due again until the backoff has passed
+    clock.advance(29 * SECOND);
+    expect((await scheduler.runDueJobs()).claimed).toBe(0);
+
+    clock.advance(1 * SECOND);
+    await scheduler.runDueJobs();
+    job = await store.getJob(id);
+    expect(job.attempts).toBe(2);
+    expect(job.runAt).toEqual(new Date(clock.now().getTime() + 60 * SECOND));
+
+    clock.advance(60 * SECOND);
+    expect(await scheduler.runDueJobs()).toMatchObject({ claimed: 1, retrying: 0, failed: 1 });
+    expect(await store.getJob(id)).toMatchObject({ status: 'FAILED', attempts: 3 });
+
+    clock.advance(HOUR);
+    expect((await scheduler.runDueJobs()).claimed).toBe(0);
+    expect(runs).toBe(3);
+  });
+
+  it('caps the backoff and completes once a retry succeeds', async () => {
+    scheduler = new JobScheduler(async () => store, clock, { baseBackoffSeconds: 30, maxBackoffSeconds: 45 });
+    let runs = 0;
+    scheduler.register('flaky', async () => {
+      if (++runs < 3) throw new Error('timeout');
+    });
+    const { id } = await scheduler.schedule('flaky');
+
+    await scheduler.runDueJobs();
+    clock.advance(30 * SECOND);
+    await scheduler.runDueJobs();
+    expect((await store.getJob(id)).runAt).toEqual(new Date(clock.now().getTime() + 45 * SECOND));
+
+    clock.advance(45 * SECOND);
+    expect(await scheduler.runDueJobs()).toMatchObject({ completed: 1 });
+    const job = await store.getJob(id);
+    expect(job).toMatchObject({ status: 'COMPLETED', attempts: 3 });
+    expect(job.lastError).toBeUndefined();
+  });
+
+  it('treats scheduling the same idempotency key twice as a no-op', async () => {
+    const first = await scheduler.schedule('reminder', { message: 'first' }, { idempotencyKey: 'reminder-24h-rec-1', runAt: new Date('2026-10-19T08:00:00Z') });
+    clock.advance(HOUR);
+    const second = await scheduler.schedule('reminder', { message: 'second' }, { idempotencyKey: 'reminder-24h-rec-1' });
+
+    expect(second.id).toBe(first.id);
+    expect(second.payload).toEqual({ message: 'first' });
+    expect(second.runAt).toEqual(new Date('2026-10-19T08:00:00Z'));
+    expect(await store.listJobs()).toHaveLength(1);
+  });
+
+  it('schedules a cancelled idempotency key again under the same id', async () => {
+    const first = await scheduler.schedule('reminder', {}, { idempotencyKey: 'reminder-2h-rec-1' });
+    expect((await scheduler.cancelByIdempotencyKey('reminder-2h-rec-1')).status).toBe('CANCELLED');
+
+    const again = await scheduler.schedule('reminder', {}, { idempotencyKey: 'reminder-2h-rec-1' });
+    expect(again).toMatchObject({ id: first.id, status: 'PENDING', attempts: 0 });
+    expect(await store.listJobs()).toHaveLength(1);
+  });
+
+  it('lets a cancellation made while the job runs stand', async () => {
+    let runs = 0;
+    scheduler.register('digest', async (payload, job) => {
+      runs++;
+      await scheduler.cancel(job.id);
+    });
+    const { id } = await scheduler.schedule('digest', {}, { everySeconds: 3600 });
+
+    await scheduler.runDueJobs();
+    const job = await store.getJob(id);
+    expect(job.status).toBe('CANCELLED');
+    expect(job.lockedUntil).toBeUndefined();
+
+    clock.advance(2 * HOUR);
+    expect((await scheduler.runDueJobs()).claimed).toBe(0);
+    expect(runs).toBe(1);
+  });
+
+  it('keeps a cancellation made while the job runs when the run then fails', async () => {
+    let runs = 0;
+    scheduler.register('escalation', async (payload, job) => {
+      runs++;
+      await scheduler.cancel(job.id);
+      throw new Error('SMTP unavailable');
+    });
+    const { id } = await scheduler.schedule('escalation');
+
+    expect(await scheduler.runDueJobs()).toMatchObject({ claimed: 1, jobs: [{ id, status: 'CANCELLED' }] });
+    expect(await store.getJob(id)).toMatchObject({ status: 'CANCELLED', attempts: 1 });
+
+    clock.advance(HOUR);
+    expect((await scheduler.runDueJobs()).claimed).toBe(0);
+    expect(runs).toBe(1);
+  });
+
+  it('runs a recurring job once after missed runs and schedules the next occurrence after now', async () => {
+    let runs = 0;
+    scheduler.register('digest', async () => { runs++; });
+    const { id } = await scheduler.schedule('digest', {}, { everySeconds: 3600 });
+
+    clock.advance(3.5 * HOUR);
+    expect(await scheduler.runDueJobs()).toMatchObject({ claimed: 1, completed: 1 });
+    expect(runs).toBe(1);
+    const job = await store.getJob(id);
+    expect(job).toMatchObject({ status: 'PENDING', attempts: 0 });
+    expect(job.runAt).toEqual(new Date(start.getTime() + 4 * HOUR));
+    expect(job.lastRunAt).toEqual(clock.now());
+  });
+
+  it('reclaims a job whose worker died once its lock expires', async () => {
+    let runs = 0;
+    scheduler.register('escalation', async () => { runs++; });
+    const { id } = await scheduler.schedule('escalation');
+
+    // Another worker claims the job and never finishes it
+    await store.claimDueJobs(clock.now(), new Date(start.getTime() + 300 * SECOND), 10);
+    expect((await scheduler.runDueJobs()).claimed).toBe(0);
+
+    clock.advance(299 * SECOND);
+    expect((await scheduler.runDueJobs()).claimed).toBe(0);
+
+    clock.advance(1 * SECOND);
+    expect(await scheduler.runDueJobs()).toMatchObject({ claimed: 1, completed: 1 });
+    expect(runs).toBe(1);
+    expect(await store.getJob(id)).toMatchObject({ status: 'COMPLETED', attempts: 2 });
+  });
+});
+
+describe('AgenticMaintenanceWorkflow reminders', () => {
+  const inspectionStart = new Date('2026-10-21T08:00:00Z');
+
+  const reminders = async () => (await store.listJobs({ type: 'maintenance-reminder' }))
+    .map(job => ({ key: job.idempotencyKey, runAt: job.runAt.toISOString() }));
+
+  const scheduleReminders = (now: Date) => {
+    clock.set(now);
+    const workflow = new AgenticMaintenanceWorkflow(scheduler);
+    return workflow['scheduleReminders']('rec-1', inspectionStart);
+  };
+
+  it('places the 24 h and 2 h reminders before the start', async () => {
+    await scheduleReminders(new Date('2026-10-18T12:00:00Z'));
+    expect(await reminders()).toEqual([
+      { key: 'reminder-24h-rec-1', runAt: '2026-10-20T08:00:00.000Z' },
+      { key: 'reminder-2h-rec-1', runAt: '2026-10-21T06:00:00.000Z' }
+    ]);
+  });
+
+  it('sends a late 24 h reminder now while the 2 h one is still ahead', async () => {
+    await scheduleReminders(new Date('2026-10-20T22:00:00Z'));
+    expect(await reminders()).toEqual([
+      { key: 'reminder-24h-rec-1', runAt: '2026-10-20T22:00:00.000Z' },
+      { key: 'reminder-2h-rec-1', runAt: '2026-10-21T06:00:00.000Z' }
+    ]);
+  });
+
+  it('skips the 24 h reminder once the 2 h one is due', async () => {
+    await scheduleReminders(new Date('2026-10-21T07:00:00Z'));
+    expect(await reminders()).toEqual([
+      { key: 'reminder-2h-rec-1', runAt: '2026-10-21T07:00:00.000Z' }
+    ]);
+  });
+
+  it('schedules nothing once the work has started, and nothing twice', async () => {
+    await scheduleReminders(new Date('2026-10-21T08:30:00Z'));
+    expect(await reminders()).toEqual([]);
+
+    await scheduleReminders(new Date('2026-10-18T12:00:00Z'));
+    await scheduleReminders(new Date('2026-10-18T13:00:00Z'));
+    expect(await reminders()).toHaveLength(2);
+  });
+});
+
+describe('AgenticMaintenanceWorkflow digest', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('counts the events every instance persisted, not only its own', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(start);
+    const auditStore = new InMemoryAuditTrailStore();
+    const instance = (clockFor: TestClock) =>
+      new AgenticMaintenanceWorkflow(new JobScheduler(async () => store, clockFor), undefined, undefined, async () => auditStore);
+
+    // One instance logs the events; another, with an empty in-memory trail, runs the digest
+    const logging = instance(clock);
+    logging['sendReminder']('rec-1', 'Maintenance scheduled for tomorrow');
+    logging.recordComplianceEvaluation({
+      aircraftId: 'n123ab',
+      tailNumber: 'N123AB',
+      evaluatedAt: start,
+      compliant: true,
+      items: [],
+      issues: [],
+      summary: { total: 0, current: 0, dueSoon: 0, overdue: 0, noRecord: 0 }
+    });
+
+    const digestClock = new TestClock(new Date('2026-10-19T06:00:00Z'));
+    vi.setSystemTime(digestClock.now());
+    const digesting = instance(digestClock);
+    await new Promise(resolve => setImmediate(resolve)); // the constructors schedule the digest in the background
+    await digesting['jobs'].runDueJobs();
+
+    const [digest] = digesting.getAuditTrail().filter(entry => entry.action === 'DIGEST_SENT');
+    // Both instances' SYSTEM_INIT, the reminder and the evaluation
+    expect(digest.details).toBe('Maintenance digest: 4 events since 2026-10-18T06:00:00.000Z, 3 compliance-relevant');
+    expect(digest.dataChanges).toMatchObject({
+      byAction: { SYSTEM_INIT: 2, REMINDER_SENT: 1, COMPLIANCE_EVALUATED: 1 }
+    });
+    expect((await auditStore.listEntries()).map(entry => entry.action)).toContain('DIGEST_SENT');
+  });
+});
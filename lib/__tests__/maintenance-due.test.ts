@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { Aircraft, MaintenanceInterval } from '@/types';
+import { computeMaintenanceDue } from '../maintenance-due';
+import { MOCK_AIRCRAFT } from '../mock-fleet-data';
+
+const asOf = new Date('2026-10-18T12:00:00Z');
+const aircraft = (totalAircraftTime: number): Aircraft => ({ ...MOCK_AIRCRAFT[0], totalAircraftTime });
+const interval = (intervalType: MaintenanceInterval['intervalType'], tolerance?: MaintenanceInterval['tolerance']): MaintenanceInterval => ({
+  id: `n123ab-${intervalType}`,
+  aircraftId: 'n123ab',
+  intervalType,
+  description: intervalType,
+  intervalHours: 100,
+  lastCompletedHours: 1000,
+  nextDueAt: asOf,
+  nextDueHours: 1100,
+  tolerance,
+  isOverdue: false,
+  priority: 'LOW',
+  estimatedDowntime: 8,
+  estimatedCost: 2500
+});
+
+describe('computeMaintenanceDue', () => {
+  it('reports a limit without late tolerance as due, not overdue, at its due point', () => {
+    const noTolerance = interval('C_CHECK', { rebase: 'FROM_COMPLETION' });
+
+    expect(computeMaintenanceDue(aircraft(1100), noTolerance, undefined, asOf)).toMatchObject({ status: 'DUE_SOON', isOverdue: false });
+    expect(computeMaintenanceDue(aircraft(1100.1), noTolerance, undefined, asOf)).toMatchObject({ status: 'OVERDUE', isOverdue: true });
+  });
+
+  it('stays in tolerance up to the end of the late tolerance', () => {
+    const hundredHour = interval('100_HOUR');
+
+    expect(computeMaintenanceDue(aircraft(1100), hundredHour, undefined, asOf).status).toBe('IN_TOLERANCE');
+    expect(computeMaintenanceDue(aircraft(1110), hundredHour, undefined, asOf).status).toBe('IN_TOLERANCE');
+    expect(computeMaintenanceDue(aircraft(1110.1), hundredHour, undefined, asOf)).toMatchObject({ status: 'OVERDUE', overdueLimits: ['HOURS'] });
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import type { TaskAssignment } from '../agentic-workflow';
+import {
+  WorkflowStatus,
+  createRecommendationLifecycle,
+  createTaskAssignmentLifecycle,
+  createWorkOrderCreationLifecycle,
+  createWorkOrderLifecycle,
+  createWorkflowLifecycle
+} from '../maintenance-lifecycle';
+
+type Workflow = { status: WorkflowStatus; assignments: { mechanic: string } };
+
+const inspection = (): Workflow => ({ status: 'INSPECTION', assignments: { mechanic: 'Mike Johnson' } });
+
+const assignment = (signOffRequired: boolean): TaskAssignment => ({
+  id: 'assign-rec-1-mechanic',
+  recommendationId: 'rec-1',
+  assigneeType: 'MECHANIC',
+  assigneeName: 'Mike Johnson',
+  assigneeEmail: 'mike.johnson@example.com',
+  taskDescription: 'Annual inspection',
+  scheduledStart: new Date('2026-10-19T14:00:00Z'),
+  estimatedDuration: 8,
+  location: 'Hangar A',
+  requiredTools: [],
+  status: 'IN_PROGRESS',
+  notificationsSent: [],
+  signOffRequired
+});
+
+describe('workflow lifecycle', () => {
+  const lifecycle = createWorkflowLifecycle<Workflow>();
+
+  it('refuses to complete without an inspector sign-off', () => {
+    expect(lifecycle.check(inspection(), 'COMPLETED', { actor: 'Mike Johnson' }))
+      .toBe('Cannot move workflow to COMPLETED: inspector sign-off (signedOffBy) is required');
+  });
+
+  it('refuses a sign-off by the mechanic who did the work', () => {
+    expect(lifecycle.check(inspection(), 'COMPLETED', { signedOffBy: ' mike johnson ' }))
+      .toBe('Cannot move workflow to COMPLETED:  mike johnson  performed the work and cannot also sign it off');
+    // The same person, signing by email
+    expect(lifecycle.check({ status: 'INSPECTION', assignments: { mechanic: 'David Chen' } }, 'COMPLETED', { signedOffBy: 'david.chen@ganderaviation.com' }))
+      .toBe('Cannot move workflow to COMPLETED: david.chen@ganderaviation.com performed the work and cannot also sign it off');
+  });
+
+  it('refuses to complete while task assignments are open', () => {
+    const context = { signedOffBy: 'David Chen', incompleteAssignments: ['assign-rec-1-mechanic', 'assign-rec-1-parts'] };
+
+    expect(lifecycle.check(inspection(), 'COMPLETED', context))
+      .toBe('Cannot move workflow to COMPLETED: task assignments not completed: assign-rec-1-mechanic, assign-rec-1-parts');
+  });
+
+  it('completes with an independent sign-off, after which the workflow is final', () => {
+    const workflow = lifecycle.transition(inspection(), 'COMPLETED', { signedOffBy: 'David Chen', incompleteAssignments: [] });
+
+    expect(workflow.status).toBe('COMPLETED');
+    expect(lifecycle.allowedFrom('COMPLETED')).toEqual([]);
+    expect(lifecycle.check(workflow, 'IN_PROGRESS')).toBe('Cannot move workflow from COMPLETED to IN_PROGRESS (COMPLETED is final)');
+  });
+
+  it('names the allowed statuses when a move skips ahead, and throws on transition', () => {
+    const workflow: Workflow = { status: 'INITIATED', assignments: { mechanic: 'Mike Johnson' } };
+
+    expect(lifecycle.check(workflow, 'COMPLETED', { signedOffBy: 'David Chen' }))
+      .toBe('Cannot move workflow from INITIATED to COMPLETED (allowed: IN_PROGRESS, AWAITING_PARTS, DELAYED)');
+    expect(() => lifecycle.transition(workflow, 'COMPLETED', { signedOffBy: 'David Chen' })).toThrow('from INITIATED to COMPLETED');
+    expect(workflow.status).toBe('INITIATED');
+  });
+
+  it('rejects a status it does not know', () => {
+    expect(lifecycle.check(inspection(), 'CLOSED' as WorkflowStatus))
+      .toBe('Unknown workflow status CLOSED. Use: INITIATED, IN_PROGRESS, AWAITING_PARTS, DELAYED, INSPECTION, COMPLETED');
+  });
+
+  it('runs hooks after a move, for every status or the one they are registered for', () => {
+    const moves: string[] = [];
+    const hooked = createWorkflowLifecycle<Workflow>();
+    const removeAll = hooked.onTransition((_, from, to) => moves.push(`${from}->${to}`));
+    hooked.onTransition(() => moves.push('completed'), 'COMPLETED');
+
+    const workflow = hooked.transition({ status: 'IN_PROGRESS', assignments: { mechanic: 'Mike Johnson' } }, 'INSPECTION');
+    removeAll();
+    hooked.transition(workflow, 'COMPLETED', { signedOffBy: 'David Chen' });
+
+    expect(moves).toEqual(['IN_PROGRESS->INSPECTION', 'completed']);
+  });
+});
+
+describe('task assignment lifecycle', () => {
+  const lifecycle = createTaskAssignmentLifecycle();
+
+  it('needs an independent inspector only for sign-off tasks', () => {
+    expect(lifecycle.check(assignment(false), 'COMPLETED')).toBeNull();
+    expect(lifecycle.check(assignment(true), 'COMPLETED'))
+      .toBe('Cannot move task assignment to COMPLETED: inspector sign-off (signedOffBy) is required');
+    expect(lifecycle.check(assignment(true), 'COMPLETED', { signedOffBy: 'Mike Johnson' }))
+      .toBe('Cannot move task assignment to COMPLETED: Mike Johnson performed the work and cannot also sign it off');
+    expect(lifecycle.check(assignment(true), 'COMPLETED', { signedOffBy: 'David Chen' })).toBeNull();
+  });
+
+  it('accepts sign-off only from an active inspector or IA on the roster', () => {
+    expect(lifecycle.check(assignment(true), 'COMPLETED', { signedOffBy: 'John Smith' }))
+      .toBe('Cannot move task assignment to COMPLETED: John Smith is not an inspector or IA and cannot sign off the work');
+    expect(lifecycle.check(assignment(true), 'COMPLETED', { signedOffBy: 'Tom Anderson' }))
+      .toBe('Cannot move task assignment to COMPLETED: Tom Anderson is not an inspector or IA and cannot sign off the work');
+    expect(lifecycle.check(assignment(true), 'COMPLETED', { signedOffBy: 'Sarah Chen' }))
+      .toBe('Cannot move task assignment to COMPLETED: Sarah Chen is not an active member of the roster');
+
+    // A manager holding an IA may sign, and the signer can be given by email
+    expect(lifecycle.check(assignment(true), 'COMPLETED', { signedOffBy: 'Karen Mitchell' })).toBeNull();
+    expect(lifecycle.check(assignment(true), 'COMPLETED', { signedOffBy: 'mike.wilson@ganderaviation.com' })).toBeNull();
+  });
+
+  it('cannot reopen a completed task', () => {
+    const completed = lifecycle.transition(assignment(false), 'COMPLETED');
+
+    expect(lifecycle.can('COMPLETED', 'IN_PROGRESS')).toBe(false);
+    expect(() => lifecycle.transition(completed, 'DELAYED')).toThrow('(COMPLETED is final)');
+  });
+});
+
+describe('recommendation and work order lifecycles', () => {
+  it('needs the approving or rejecting user on a recommendation', () => {
+    const lifecycle = createRecommendationLifecycle();
+
+    expect(lifecycle.check({ status: 'PENDING' }, 'APPROVED')).toBe('Cannot move recommendation to APPROVED: approver is required');
+    expect(lifecycle.check({ status: 'PENDING' }, 'REJECTED')).toBe('Cannot move recommendation to REJECTED: rejecting user is required');
+    expect(lifecycle.check({ status: 'PENDING' }, 'APPROVED', { actor: 'Director of Maintenance' })).toBeNull();
+    expect(lifecycle.allowedFrom('REJECTED')).toEqual([]);
+  });
+
+  it('sends a created work order to inspection only with an inspector assigned', () => {
+    const lifecycle = createWorkOrderCreationLifecycle();
+
+    expect(lifecycle.check({ status: 'IN_PROGRESS' }, 'INSPECTION')).toBe('Cannot move work order to INSPECTION: no inspector is assigned');
+    expect(lifecycle.check({ status: 'IN_PROGRESS', assignedInspector: 'David Chen' }, 'INSPECTION')).toBeNull();
+  });
+
+  it('closes a stored work order for good once completed or cancelled', () => {
+    const lifecycle = createWorkOrderLifecycle();
+
+    expect(lifecycle.can('OPEN', 'COMPLETED')).toBe(false);
+    expect(lifecycle.allowedFrom('COMPLETED')).toEqual([]);
+    expect(lifecycle.allowedFrom('CANCELLED')).toEqual([]);
+    expect(lifecycle.check({ status: 'CANCELLED' }, 'OPEN')).toBe('Cannot move work order from CANCELLED to OPEN (CANCELLED is final)');
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import { MaintenanceInterval } from '@/types';
+import type { MaintenanceScheduleItem } from '../maintenance-scheduler';
+import type { MaintenanceChecklist, MaintenanceTask } from '../maintenance-tasks';
+import { checkCovers, packageScheduleItems, summarizeWorkPackage } from '../maintenance-packaging';
+
+const task = (id: string, estimatedMinutes: number): MaintenanceTask => ({
+  id,
+  title: id,
+  description: id,
+  category: 'VISUAL',
+  estimatedMinutes,
+  requiredTools: [],
+  skillLevel: 'BASIC',
+  criticalSafety: false
+});
+
+const checklist = (checkType: string, tasks: MaintenanceTask[]): MaintenanceChecklist => ({
+  checkType,
+  description: checkType,
+  estimatedHours: tasks.reduce((sum, t) => sum + t.estimatedMinutes, 0) / 60,
+  requiredPersonnel: ['A&P Mechanic'],
+  tasks,
+  documentation: [],
+  complianceRequirements: [],
+  requiredEquipment: []
+});
+
+// The 100-hour repeats one A-check task; the annual repeats one 100-hour task
+const checklists = {
+  A_CHECK: checklist('A_CHECK', [task('walkaround', 60), task('lube', 60)]),
+  '100_HOUR': checklist('100_HOUR', [task('walkaround', 60), task('engine', 120)]),
+  ANNUAL: checklist('ANNUAL', [task('engine', 120), task('structure', 240)])
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const day = (n: number) => new Date(Date.UTC(2026, 10, 1) + n * DAY_MS);
+
+function item(
+  id: string,
+  intervalType: MaintenanceInterval['intervalType'],
+  window: [number, number],
+  fields: Partial<MaintenanceScheduleItem> = {}
+): MaintenanceScheduleItem {
+  return {
+    id: `pred-n123ab-${id}`,
+    aircraftId: 'n123ab',
+    tailNumber: 'N123AB',
+    maintenanceType: 'A_CHECK',
+    intervalType,
+    scheduledDate: day(window[1]),
+    estimatedDuration: 4,
+    priority: 'MEDIUM',
+    confidenceScore: 0.9,
+    reasoning: [],
+    conflictsWith: [],
+    alternativeDates: [],
+    estimatedCost: 1000,
+    impactOnOperations: 'LOW',
+    requiredParts: [],
+    mechanicRequirements: ['A&P Mechanic'],
+    dueWindow: { earliest: day(window[0]), latest: day(window[1]) },
+    ...fields
+  };
+}
+
+describe('checkCovers', () => {
+  it('nests even multiples of a check family and the 100-hour in the annual', () => {
+    expect(checkCovers('4A_CHECK', '2A_CHECK')).toBe(true);
+    expect(checkCovers('4A_CHECK', 'A_CHECK')).toBe(true);
+    expect(checkCovers('3A_CHECK', '2A_CHECK')).toBe(false);
+    expect(checkCovers('2C_CHECK', '2A_CHECK')).toBe(false);
+    expect(checkCovers('ANNUAL', '100_HOUR')).toBe(true);
+    expect(checkCovers('100_HOUR', 'ANNUAL')).toBe(false);
+  });
+});
+
+describe('summarizeWorkPackage', () => {
+  it('takes downtime from the work each check adds rather than summing it', () => {
+    const summary = summarizeWorkPackage([
+      { id: 'a', intervalType: 'A_CHECK', estimatedDowntime: 2 },
+      { id: 'h', intervalType: '100_HOUR', estimatedDowntime: 3 }
+    ], checklists);
+
+    // The 100-hour counts in full; half of the A-check's minutes are already in it
+    expect(summary.estimatedDowntime).toBe(4);
+    expect(summary.naiveDowntime).toBe(5);
+    expect(summary.duplicateTasksRemoved).toBe(1);
+    expect(summary.tasks.map(t => t.id)).toEqual(['walkaround', 'engine', 'lube']);
+    expect(summary.coveredBy).toEqual({});
+  });
+
+  it('absorbs a 100-hour done with the annual instead of counting it again', () => {
+    const summary = summarizeWorkPackage([
+      { id: 'h', intervalType: '100_HOUR', estimatedDowntime: 3 },
+      { id: 'y', intervalType: 'ANNUAL', estimatedDowntime: 6 }
+    ], checklists);
+
+    expect(summary.coveredBy).toEqual({ h: 'y' });
+    expect(summary.estimatedDowntime).toBe(6);
+    expect(summary.tasks.map(t => t.id)).toEqual(['engine', 'structure']);
+    expect(summary.duplicateTasksRemoved).toBe(1);
+  });
+
+  it('lets the highest multiple cover every lower one it divides', () => {
+    const summary = summarizeWorkPackage([
+      { id: '1a', intervalType: 'A_CHECK', estimatedDowntime: 2 },
+      { id: '2a', intervalType: '2A_CHECK', estimatedDowntime: 3 },
+      { id: '4a', intervalType: '4A_CHECK', estimatedDowntime: 5 }
+    ], checklists);
+
+    expect(summary.coveredBy).toEqual({ '1a': '4a', '2a': '4a' });
+    expect(summary.estimatedDowntime).toBe(5);
+    expect(summary.naiveDowntime).toBe(10);
+  });
+});
+
+describe('packageScheduleItems', () => {
+  it('bundles only checks whose due windows intersect, keeping the shared window', () => {
+    const packaged = packageScheduleItems([
+      item('int-a', 'A_CHECK', [0, 10], { estimatedDuration: 2 }),
+      item('int-100h', '100_HOUR', [6, 14]),
+      item('int-annual', 'ANNUAL', [20, 30])
+    ], () => checklists);
+
+    expect(packaged.map(p => p.id)).toEqual(['pkg-n123ab-int-a+int-100h', 'pred-n123ab-int-annual']);
+    expect(packaged[0]).toMatchObject({
+      dueWindow: { earliest: day(6), latest: day(10) },
+      scheduledDate: day(10),
+      estimatedDuration: 5, // the 4h 100-hour plus the A-check's unshared half
+      estimatedCost: 2000
+    });
+    expect(packaged[0].workPackage?.intervalTypes).toEqual(['A_CHECK', '100_HOUR']);
+    expect(packaged[0].reasoning[0]).toBe('Work package: A + 100_HOUR');
+  });
+
+  it('starts a new package once a window no longer meets the group window', () => {
+    // The second window meets the first, the third meets the second but not their intersection
+    const packaged = packageScheduleItems([
+      item('int-a', 'A_CHECK', [0, 5]),
+      item('int-100h', '100_HOUR', [4, 8]),
+      item('int-annual', 'ANNUAL', [6, 12])
+    ], () => checklists);
+
+    expect(packaged.map(p => p.id)).toEqual(['pkg-n123ab-int-a+int-100h', 'pred-n123ab-int-annual']);
+  });
+
+  it('folds the 100-hour into an annual due at the same time', () => {
+    const [annual] = packageScheduleItems([
+      item('int-100h', '100_HOUR', [0, 10], { estimatedDuration: 3 }),
+      item('int-annual', 'ANNUAL', [5, 12], { estimatedDuration: 6, priority: 'HIGH' })
+    ], () => checklists);
+
+    expect(annual.estimatedDuration).toBe(6);
+    expect(annual.priority).toBe('HIGH');
+    expect(annual.reasoning.slice(0, 3)).toEqual([
+      'Work package: 100_HOUR + ANNUAL',
+      'ANNUAL covers 100_HOUR',
+      '1 shared tasks done once; downtime 6h vs 9h separately'
+    ]);
+  });
+
+  it('never bundles across aircraft and passes untraced items through', () => {
+    const untraced = item('wo-1', 'A_CHECK', [0, 10], { intervalType: undefined });
+    const packaged = packageScheduleItems([
+      item('int-a', 'A_CHECK', [0, 10]),
+      item('int-a', 'A_CHECK', [0, 10], { id: 'pred-n456cd-int-a', aircraftId: 'n456cd' }),
+      untraced
+    ], () => checklists);
+
+    expect(packaged.map(p => p.id).sort()).toEqual(['pred-n123ab-int-a', 'pred-n123ab-wo-1', 'pred-n456cd-int-a']);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Aircraft } from '@/types';
+import { generateMaintenanceIntervals, parseMaintenanceProgram } from '../maintenance-programs';
+import { MOCK_AIRCRAFT } from '../mock-fleet-data';
+
+const pc12 = parseMaintenanceProgram(
+  readFileSync(join(process.cwd(), 'data/maintenance-programs/pilatus-pc12.yaml'), 'utf8'),
+  'pilatus-pc12.yaml'
+);
+const asOf = new Date('2026-10-18T12:00:00Z');
+const aircraft = (totalAircraftTime: number): Aircraft => ({
+  ...MOCK_AIRCRAFT[0],
+  id: 'n412pc',
+  tailNumber: 'N412PC',
+  make: 'Pilatus',
+  model: 'PC-12',
+  totalAircraftTime,
+  totalCycles: Math.round(totalAircraftTime * 0.8),
+  lastInspectionDate: new Date('2026-03-02T00:00:00Z')
+});
+
+describe('generateMaintenanceIntervals', () => {
+  it('refuses to baseline an hours interval at the current total of a used aircraft', () => {
+    expect(() => generateMaintenanceIntervals(aircraft(4210), pc12, {}, asOf))
+      .toThrow('Cannot baseline N412PC intervals: 100_HOUR needs the hours at its last compliance');
+  });
+
+  it('rejects compliance past the aircraft total and unknown intervals', () => {
+    expect(() => generateMaintenanceIntervals(aircraft(4210), pc12, {
+      '100_HOUR': { completedHours: 4300 },
+      A_CHECK: { completedHours: 4000 }
+    }, asOf)).toThrow(
+      "A_CHECK is not an interval of Pilatus PC-12 Maintenance Program; " +
+      "100_HOUR last compliance at 4300 hours is past the aircraft's 4210"
+    );
+  });
+
+  it('baselines at the last compliance from the logbooks', () => {
+    const intervals = generateMaintenanceIntervals(aircraft(4210), pc12, {
+      '100_HOUR': { completedAt: new Date('2026-09-01T00:00:00Z'), completedHours: 4095 },
+      ANNUAL: { completedAt: new Date('2025-09-30T00:00:00Z') }
+    }, asOf);
+
+    const hundredHour = intervals.find(interval => interval.intervalType === '100_HOUR');
+    expect(hundredHour).toMatchObject({ lastCompletedHours: 4095, nextDueHours: 4195, isOverdue: true, priority: 'CRITICAL' });
+    const annual = intervals.find(interval => interval.intervalType === 'ANNUAL');
+    expect(annual).toMatchObject({ isOverdue: true, nextDueAt: new Date('2026-09-30T00:00:00Z') });
+    const elt = intervals.find(interval => interval.intervalType === 'ELT');
+    expect(elt.lastCompletedAt).toEqual(new Date('2026-03-02T00:00:00Z'));
+  });
+
+  it('baselines a new airframe at zero time', () => {
+    const [hundredHour] = generateMaintenanceIntervals(aircraft(0), pc12, {}, asOf)
+      .filter(interval => interval.intervalType === '100_HOUR');
+    expect(hundredHour).toMatchObject({ lastCompletedHours: 0, nextDueHours: 100, isOverdue: false });
+  });
+});
@@ -0,0 +1,260 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FlightHistory, FlightPlan, MaintenanceInterval, WorkOrder } from '@/types';
+import { MaintenanceScheduler, SchedulingConfig, createSeededRandom, defaultSchedulingConfig } from '../maintenance-scheduler';
+import { MOCK_AIRCRAFT } from '../mock-fleet-data';
+import { ResourceCalendar } from '../resource-calendar';
+import { listResources } from '../resources';
+import { listPersonnel } from '../personnel';
+
+const today = new Date('2026-10-18T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const aircraft = MOCK_AIRCRAFT[0];
+
+// An annual coming due in 45 days, well ahead of any hours limit
+const annual: MaintenanceInterval = {
+  id: 'int-annual',
+  aircraftId: aircraft.id,
+  intervalType: 'ANNUAL',
+  description: 'Annual Inspection',
+  intervalCalendar: 365,
+  lastCompletedAt: new Date(today.getTime() - 320 * DAY_MS),
+  nextDueAt: new Date(today.getTime() + 45 * DAY_MS),
+  nextDueHours: aircraft.totalAircraftTime + 5000,
+  isOverdue: false,
+  priority: 'MEDIUM',
+  estimatedDowntime: 16,
+  estimatedCost: 12000
+};
+
+// A month of flying, the same every run
+function flightHistory(): FlightHistory[] {
+  const random = createSeededRandom(7);
+  const history: FlightHistory[] = [];
+  for (let day = 1; day <= 30; day++) {
+    if (random() > 0.6) continue;
+    const departure = new Date(today.getTime() - day * DAY_MS);
+    const flightTime = 90 + Math.round(random() * 150);
+    history.push({
+      id: `flight-${aircraft.id}-${day}`,
+      aircraftId: aircraft.id,
+      flightDate: departure,
+      departure: { airport: 'KTEB', time: departure },
+      arrival: { airport: 'KPBI', time: new Date(departure.getTime() + flightTime * 60000) },
+      blockTime: flightTime + 20,
+      flightTime,
+      cycles: 1,
+      maxAltitude: 41000,
+      averageSpeed: 460,
+      distance: 890,
+      pilotInCommand: 'Test Pilot'
+    });
+  }
+  return history;
+}
+
+function optimize(config: Partial<SchedulingConfig>) {
+  const scheduler = new MaintenanceScheduler({ ...defaultSchedulingConfig, generations: 30, ...config });
+  return scheduler.optimizeMaintenanceSchedule([aircraft], [annual], flightHistory(), [], []);
+}
+
+// An open work order holding the aircraft, and its crew, from `start` until `end`
+const workOrder = (id: string, aircraftId: string, start: Date, end: Date, mechanicAssigned?: string): WorkOrder => ({
+  id,
+  aircraftId,
+  workOrderNumber: id.toUpperCase(),
+  title: 'Unscheduled repair',
+  description: 'Unscheduled repair',
+  status: 'OPEN',
+  priority: 'URGENT',
+  category: 'REPAIR',
+  mechanicAssigned,
+  estimatedHours: (end.getTime() - start.getTime()) / HOUR_MS,
+  partsRequired: [],
+  createdAt: today,
+  scheduledStartDate: start
+});
+
+const departure = (id: string, at: Date): FlightPlan => ({
+  id,
+  aircraftId: aircraft.id,
+  flightNumber: id.toUpperCase(),
+  departure: { airport: 'KTEB', scheduledTime: at },
+  arrival: { airport: 'KPBI', scheduledTime: new Date(at.getTime() + 3 * HOUR_MS) },
+  route: 'KTEB KPBI',
+  estimatedFlightTime: 160,
+  estimatedBlockTime: 180,
+  fuelRequired: 1800,
+  passengers: 6,
+  crew: 2,
+  status: 'PLANNED',
+  pilotInCommand: 'Captain Lisa Moreno',
+  createdAt: today
+});
+
+interface Setup {
+  intervals?: MaintenanceInterval[];
+  flights?: FlightPlan[];
+  workOrders?: WorkOrder[];
+  roster?: string[]; // names kept from the roster
+}
+
+function schedule({ intervals = [annual], flights = [], workOrders = [], roster }: Setup = {}) {
+  const people = listPersonnel().filter(person => !roster || roster.includes(person.name));
+  const scheduler = new MaintenanceScheduler({ ...defaultSchedulingConfig, generations: 10, randomSeed: 42 }, new ResourceCalendar(), people);
+  return scheduler.optimizeMaintenanceSchedule([aircraft], intervals, flightHistory(), flights, workOrders);
+}
+
+const placement = (schedule: { id: string; scheduledDate: Date }[]) =>
+  schedule.map(item => `${item.id}@${item.scheduledDate.toISOString()}`);
+
+describe('MaintenanceScheduler genetic optimizer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(today);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('produces the same schedule for the same seed', async () => {
+    const first = await optimize({ randomSeed: 42 });
+    const second = await optimize({ randomSeed: 42 });
+
+    expect(first.schedule.length).toBeGreaterThan(0);
+    expect(placement(second.schedule)).toEqual(placement(first.schedule));
+    expect(second.safetyScore).toBe(first.safetyScore);
+    expect(second.utilizationImpact).toBe(first.utilizationImpact);
+  });
+
+  it('places checks by the weights it is given', async () => {
+    const costOnly = await optimize({ costWeight: 1, availabilityWeight: 0, utilizationWeight: 0, safetyWeight: 0, randomSeed: 42 });
+    const safetyOnly = await optimize({ costWeight: 0, availabilityWeight: 0, utilizationWeight: 0, safetyWeight: 1, randomSeed: 42 });
+    const [late] = costOnly.schedule;
+    const [early] = safetyOnly.schedule;
+
+    // Doing the annual early wastes part of its interval, so cost pushes it late and safety pulls it early
+    expect(early.scheduledDate.getTime()).toBeLessThan(late.scheduledDate.getTime());
+    expect(safetyOnly.safetyScore).toBeGreaterThan(costOnly.safetyScore);
+    expect(safetyOnly.safetyScore).toBe(1);
+  });
+
+  it('reports a hard resource conflict when no registered bay fits the aircraft', async () => {
+    const smallHangarOnly = new ResourceCalendar(listResources().filter(resource => !resource.id.startsWith('hangar-a-')));
+    const scheduler = new MaintenanceScheduler({ ...defaultSchedulingConfig, generations: 10, randomSeed: 42 }, smallHangarOnly);
+
+    const result = await scheduler.optimizeMaintenanceSchedule([aircraft], [annual], flightHistory(), [], []);
+
+    expect(result.conflicts).toContainEqual(expect.objectContaining({
+      type: 'RESOURCE',
+      severity: 'CRITICAL',
+      description: expect.stringContaining('cannot be resourced: no Hangar Bay available: Hangar B - Bay 1 (too small (length 96.4 ft > 60 ft')
+    }));
+    expect(result.schedule[0].plannedResources).not.toContain('Hangar B - Bay 1');
+    expect(smallHangarOnly.getBookings()).toEqual([]);
+  });
+});
+
+describe('MaintenanceScheduler conflict resolution', () => {
+  let planned: { id: string; scheduledDate: Date; dueWindow?: { earliest: Date; latest: Date } };
+  const around = (date: Date) => ({ from: new Date(date.getTime() - DAY_MS), until: new Date(date.getTime() + 2 * DAY_MS) });
+  const wholeWindow = () => ({
+    from: new Date(planned.dueWindow!.earliest.getTime() - DAY_MS),
+    until: new Date(planned.dueWindow!.latest.getTime() + 2 * DAY_MS)
+  });
+  const expectMovedOff = (item: { scheduledDate: Date; reasoning: string[] }, blocked: { from: Date; until: Date }, reason?: string) => {
+    expect(item.scheduledDate.getTime() + annual.estimatedDowntime * HOUR_MS <= blocked.from.getTime() ||
+      item.scheduledDate >= blocked.until).toBe(true);
+    expect(item.scheduledDate >= planned.dueWindow!.earliest && item.scheduledDate <= planned.dueWindow!.latest).toBe(true);
+    if (reason) expect(item.reasoning[item.reasoning.length - 1]).toMatch(new RegExp(`to avoid a conflict \\(${reason}\\)$`));
+  };
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(today);
+    [planned] = (await schedule()).schedule;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('staffs the check from the roster and takes its bay from the registry', async () => {
+    const [item] = (await schedule()).schedule;
+
+    expect(item.assignedPersonnel).toHaveLength(2);
+    expect(listPersonnel().find(person => person.name === item.assignedPersonnel![1])?.role).toBe('INSPECTOR');
+    expect(item.hangar).toBe('Hangar A - Bay 2');
+  });
+
+  it('moves a check off an open work order on the same aircraft, or reports the overlap', async () => {
+    const blocked = around(planned.scheduledDate);
+    const moved = await schedule({ workOrders: [workOrder('wo-1', aircraft.id, blocked.from, blocked.until)] });
+    expect(moved.conflicts).toEqual([]);
+    expectMovedOff(moved.schedule[0], blocked, 'aircraft');
+
+    const full = wholeWindow();
+    const stuck = await schedule({ workOrders: [workOrder('wo-1', aircraft.id, full.from, full.until)] });
+    expect(stuck.conflicts).toEqual([expect.objectContaining({ type: 'AIRCRAFT', severity: 'HIGH', affectedItems: [planned.id, 'wo-1'] })]);
+    expect(stuck.conflicts[0].description).toContain('overlaps work order WO-1');
+    expect(stuck.schedule[0]).toMatchObject({ scheduledDate: planned.scheduledDate, conflictsWith: ['wo-1'] });
+  });
+
+  it('moves a check off a planned departure, or reports the clash', async () => {
+    const flight = departure('flt-1', new Date(planned.scheduledDate.getTime() + 2 * HOUR_MS));
+    const moved = await schedule({ flights: [flight] });
+    // The optimizer already steers clear of flights, so the check may never reach the resolver on that date
+    expect(moved.conflicts).toEqual([]);
+    expectMovedOff(moved.schedule[0], { from: flight.departure.scheduledTime, until: new Date(flight.departure.scheduledTime.getTime() + 1) });
+
+    const { earliest, latest } = planned.dueWindow!;
+    const daily: FlightPlan[] = [];
+    for (let day = earliest.getTime(); day <= latest.getTime(); day += DAY_MS) {
+      daily.push(departure(`flt-${daily.length + 1}`, new Date(day + 2 * HOUR_MS)));
+    }
+    const stuck = await schedule({ flights: daily });
+    expect(stuck.conflicts).toEqual([expect.objectContaining({ type: 'TIMING', severity: 'MEDIUM' })]);
+    expect(stuck.conflicts[0].description).toMatch(/lands on planned departure FLT-\d+$/);
+  });
+
+  it('moves a check when its crew is committed to another aircraft, or reports the double booking', async () => {
+    const crew = ['John Smith', 'David Chen'];
+    const other = 'n456cd';
+    const blocked = around(planned.scheduledDate);
+
+    // With the whole roster someone else takes the work
+    const staffed = await schedule({ workOrders: [workOrder('wo-2', other, blocked.from, blocked.until, 'John Smith')] });
+    expect(staffed.conflicts).toEqual([]);
+    expect(staffed.schedule[0].scheduledDate).toEqual(planned.scheduledDate);
+    expect(staffed.schedule[0].assignedPersonnel).not.toContain('John Smith');
+
+    const moved = await schedule({ roster: crew, workOrders: [workOrder('wo-2', other, blocked.from, blocked.until, 'John Smith')] });
+    expect(moved.conflicts).toEqual([]);
+    expect(moved.schedule[0].assignedPersonnel).toEqual(crew);
+    expectMovedOff(moved.schedule[0], blocked, 'resource');
+
+    const full = wholeWindow();
+    const stuck = await schedule({ roster: crew, workOrders: [workOrder('wo-2', other, full.from, full.until, 'John Smith')] });
+    expect(stuck.conflicts).toEqual([expect.objectContaining({ type: 'RESOURCE', severity: 'HIGH', affectedItems: [planned.id, 'wo-2'] })]);
+    expect(stuck.conflicts[0].description).toContain('John Smith already committed to work order WO-2');
+  });
+
+  it('never pushes a check past its due date to clear a conflict', async () => {
+    // Blocked for the whole window: the check keeps a date inside it and the conflict is reported
+    const full = wholeWindow();
+    const inWindow = await schedule({ workOrders: [workOrder('wo-1', aircraft.id, full.from, full.until)] });
+    expect(inWindow.schedule[0].scheduledDate <= planned.dueWindow!.latest).toBe(true);
+
+    // An overdue check stays on today and the conflict is critical
+    const overdue: MaintenanceInterval = {
+      ...annual,
+      id: 'int-annual-overdue',
+      lastCompletedAt: new Date(today.getTime() - 370 * DAY_MS),
+      nextDueAt: new Date(today.getTime() - 5 * DAY_MS)
+    };
+    const result = await schedule({ intervals: [overdue], workOrders: [workOrder('wo-1', aircraft.id, today, new Date(today.getTime() + 3 * DAY_MS))] });
+    expect(result.schedule[0]).toMatchObject({ priority: 'CRITICAL', scheduledDate: today, conflictsWith: ['wo-1'] });
+    expect(result.conflicts).toEqual([expect.objectContaining({ type: 'AIRCRAFT', severity: 'CRITICAL' })]);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { ModeSDecoder, decodeCprGlobal, decodeExtendedSquitter, parseAvrFrames, parseBeastFrames } from '../mode-s-decoder';
+
+// Published 1090ES test vectors (data/adsb-recordings/test-vectors.avr): identification, an even/odd airborne
+// position pair, ground and air velocities, and a surface position
+const frames = parseAvrFrames(readFileSync(join(process.cwd(), 'data/adsb-recordings/test-vectors.avr'), 'utf8'));
+const [identification, evenPosition, oddPosition, groundVelocity, airVelocity, surfacePosition] = frames;
+const at = (seconds: number) => new Date(Date.UTC(2026, 9, 18, 12, 0, seconds));
+
+describe('parseAvrFrames', () => {
+  it('reads every frame in the recording', () => {
+    expect(frames).toHaveLength(6);
+    expect(frames.every(frame => frame.length === 14)).toBe(true);
+  });
+});
+
+// A Beast binary frame: escape, type, 6-byte timestamp, signal, payload, with every 0x1a in the body doubled
+function beast(type: number, timestamp: number[], signal: number, payload: Uint8Array): Uint8Array {
+  const body = [...timestamp, signal, ...Array.from(payload)];
+  return Uint8Array.from([0x1a, type, ...body.reduce<number[]>((out, byte) => out.concat(byte === 0x1a ? [0x1a, 0x1a] : [byte]), [])]);
+}
+const concat = (...chunks: Uint8Array[]) => Uint8Array.from(chunks.reduce<number[]>((out, chunk) => out.concat(Array.from(chunk)), []));
+
+describe('parseBeastFrames', () => {
+  const shortPayload = Uint8Array.from([0x5d, 0x1a, 0x40, 0xd6, 0x1a, 0x1a, 0x02]);
+  const long = beast(0x33, [0x00, 0x00, 0x1a, 0x00, 0x00, 0x1a], 0x1a, identification);
+  const short = beast(0x32, [0x00, 0x00, 0x00, 0x01, 0x02, 0x03], 0x80, shortPayload);
+
+  it('unescapes doubled 0x1a in the timestamp, signal and payload', () => {
+    const { frames: decoded, remainder } = parseBeastFrames(concat(long, short));
+
+    expect(decoded).toEqual([
+      { type: 'MODE_S_LONG', timestamp: 0x1a00001a, signal: 0x1a, data: identification },
+      { type: 'MODE_S_SHORT', timestamp: 0x010203, signal: 0x80, data: shortPayload }
+    ]);
+    expect(remainder).toHaveLength(0);
+  });
+
+  it('keeps a frame split across chunks as the remainder until the rest arrives', () => {
+    const stream = concat(long, short);
+    // Split inside the doubled escape of the short frame's payload, then right after a frame's opening escape
+    for (const split of [long.length + 11, long.length + 1]) {
+      const first = parseBeastFrames(stream.slice(0, split));
+      expect(first.frames.map(frame => frame.type)).toEqual(['MODE_S_LONG']);
+      expect(first.remainder).toEqual(stream.slice(long.length, split));
+
+      const second = parseBeastFrames(concat(first.remainder, stream.slice(split)));
+      expect(second.frames).toEqual([{ type: 'MODE_S_SHORT', timestamp: 0x010203, signal: 0x80, data: shortPayload }]);
+      expect(second.remainder).toHaveLength(0);
+    }
+  });
+
+  it('resyncs on an unescaped 0x1a that starts a new frame mid-frame', () => {
+    const truncated = long.slice(0, 12);
+    const { frames: decoded, remainder } = parseBeastFrames(concat(Uint8Array.from([0xff, 0x00]), truncated, short));
+
+    expect(decoded.map(frame => frame.type)).toEqual(['MODE_S_SHORT']);
+    expect(decoded[0].data).toEqual(shortPayload);
+    expect(remainder).toHaveLength(0);
+  });
+});
+
+describe('decodeExtendedSquitter', () => {
+  it('decodes aircraft identification', () => {
+    expect(decodeExtendedSquitter(identification)).toMatchObject({
+      downlinkFormat: 17,
+      icaoAddress: '4840d6',
+      typeCode: 4,
+      callsign: 'KLM1023'
+    });
+  });
+
+  it('decodes airborne position altitude and CPR format', () => {
+    const even = decodeExtendedSquitter(evenPosition, at(2));
+    const odd = decodeExtendedSquitter(oddPosition, at(0));
+
+    expect(even).toMatchObject({ icaoAddress: '40621d', typeCode: 11, altitude: 38000, isOnGround: false });
+    expect(even.cpr.odd).toBe(false);
+    expect(odd.cpr.odd).toBe(true);
+  });
+
+  it('decodes ground speed, track and vertical rate', () => {
+    const velocity = decodeExtendedSquitter(groundVelocity);
+
+    expect(velocity).toMatchObject({ icaoAddress: '485020', typeCode: 19, verticalRate: -832 });
+    expect(velocity.groundSpeed).toBeCloseTo(159.20, 2);
+    expect(velocity.track).toBeCloseTo(182.88, 2);
+    expect(velocity.airspeed).toBeUndefined();
+  });
+
+  it('decodes airspeed and heading when ground speed is not reported', () => {
+    const velocity = decodeExtendedSquitter(airVelocity);
+
+    expect(velocity).toMatchObject({ icaoAddress: 'a05f21', typeCode: 19, airspeed: 375, airspeedType: 'TAS', verticalRate: -2304 });
+    expect(velocity.track).toBeCloseTo(243.98, 2);
+    expect(velocity.groundSpeed).toBeUndefined();
+  });
+
+  it('decodes surface movement', () => {
+    const surface = decodeExtendedSquitter(surfacePosition);
+
+    // Movement field 40 (16 kt in the DO-260B table), ground track field 35 of 128
+    expect(surface).toMatchObject({ icaoAddress: '484175', surface: true, isOnGround: true, groundSpeed: 16 });
+    expect(surface.track).toBeCloseTo(98.44, 2);
+  });
+
+  it('rejects a frame that fails its parity check', () => {
+    const corrupted = identification.slice();
+    corrupted[6] ^= 0x01;
+    expect(decodeExtendedSquitter(corrupted)).toBeNull();
+  });
+});
+
+describe('CPR position decoding', () => {
+  it('decodes the even/odd pair globally, positioned by the newer frame', () => {
+    const even = decodeExtendedSquitter(evenPosition, at(2)).cpr;
+    const odd = decodeExtendedSquitter(oddPosition, at(0)).cpr;
+
+    const position = decodeCprGlobal(even, odd);
+    expect(position.latitude).toBeCloseTo(52.2572, 4);
+    expect(position.longitude).toBeCloseTo(3.9194, 4);
+  });
+
+  it('positions an aircraft once both frames of the pair have arrived', () => {
+    const decoder = new ModeSDecoder();
+
+    expect(decoder.decode(oddPosition, at(0)).latitude).toBeUndefined();
+    const update = decoder.decode(evenPosition, at(2));
+    expect(update).toMatchObject({ icaoAddress: '40621d', altitude: 38000, isOnGround: false });
+    expect(update.latitude).toBeCloseTo(52.2572, 4);
+    expect(update.longitude).toBeCloseTo(3.9194, 4);
+  });
+
+  it('decodes a surface position against the receiver location', () => {
+    expect(new ModeSDecoder().decode(surfacePosition, at(0)).latitude).toBeUndefined();
+
+    const update = new ModeSDecoder({ latitude: 51.99, longitude: 4.375 }).decode(surfacePosition, at(0));
+    expect(update).toMatchObject({ icaoAddress: '484175', isOnGround: true, groundSpeed: 16 });
+    expect(update.latitude).toBeCloseTo(52.32061, 4);
+    expect(update.longitude).toBeCloseTo(4.73473, 4);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { icaoToNNumber, isValidNNumber, nNumberToIcao } from '../n-number';
+
+// Published FAA registry addresses
+const KNOWN = [
+  ['N1', 'a00001'],
+  ['N12345', 'a061d9'],
+  ['N99999', 'adf7c7'],
+  ['N123AB', 'a05ed9']
+];
+
+describe('nNumberToIcao / icaoToNNumber', () => {
+  it.each(KNOWN)('maps %s to %s and back', (tailNumber, icaoAddress) => {
+    expect(nNumberToIcao(tailNumber)).toBe(icaoAddress);
+    expect(icaoToNNumber(icaoAddress)).toBe(tailNumber);
+  });
+
+  it('ignores case and surrounding whitespace', () => {
+    expect(nNumberToIcao(' n123ab ')).toBe('a05ed9');
+    expect(icaoToNNumber('A061D9')).toBe('N12345');
+  });
+
+  it('rejects invalid marks', () => {
+    ['N0', 'N01', 'N123456', 'N12I', 'N12O', 'N1ABC', 'N1A2', 'N', '123AB', 'C-GABC'].forEach(mark => {
+      expect(isValidNNumber(mark)).toBe(false);
+      expect(nNumberToIcao(mark)).toBeNull();
+    });
+  });
+
+  it('rejects addresses outside the US block and malformed hex', () => {
+    expect(icaoToNNumber('a00000')).toBeNull();
+    expect(icaoToNNumber('adf7c8')).toBeNull();
+    expect(icaoToNNumber('4ca2b3')).toBeNull();
+    expect(icaoToNNumber('a0001')).toBeNull();
+    expect(icaoToNNumber('a0000g')).toBeNull();
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FlightData } from '@/types';
+import { ProviderRateLimiter } from '../provider-rate-limiter';
+import { FlightTrackingService } from '../flight-tracking';
+
+const now = new Date('2026-10-18T15:00:00Z');
+const fetchMock = vi.fn();
+
+const respond = (status: number, body: unknown = {}, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers });
+
+const advance = (seconds: number) => vi.setSystemTime(new Date(Date.now() + seconds * 1000));
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(now);
+  fetchMock.mockReset();
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+describe('ProviderRateLimiter', () => {
+  it('refuses requests over the window quota and refills as old requests leave it', async () => {
+    const limiter = new ProviderRateLimiter({ OPENSKY: { maxRequests: 2, windowSeconds: 10 } });
+    fetchMock.mockImplementation(async () => respond(200));
+
+    await limiter.fetch('OPENSKY', 'https://example.test/1');
+    advance(4);
+    await limiter.fetch('OPENSKY', 'https://example.test/2');
+
+    await expect(limiter.fetch('OPENSKY', 'https://example.test/3'))
+      .rejects.toThrow('OPENSKY rate limit reached; next request allowed after 2026-10-18T15:00:10.000Z');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    // The first request leaves the window after 10 s, freeing one slot
+    advance(6.001);
+    expect(limiter.getStatus('OPENSKY')).toMatchObject({ available: true, requestsInWindow: 1 });
+    await limiter.fetch('OPENSKY', 'https://example.test/3');
+    expect(limiter.isAvailable('OPENSKY')).toBe(false);
+    expect(limiter.nextRequestAt('OPENSKY')).toEqual(new Date('2026-10-18T15:00:14.000Z'));
+  });
+
+  it('backs off exponentially after 429s and resets on success', async () => {
+    const limiter = new ProviderRateLimiter({ FLIGHTAWARE: { maxRequests: 10, windowSeconds: 60, maxBackoffSeconds: 12 } });
+    fetchMock.mockImplementation(async () => respond(429));
+
+    await expect(limiter.fetch('FLIGHTAWARE', 'https://example.test')).rejects.toThrow('FLIGHTAWARE API error: 429');
+    expect(limiter.getStatus('FLIGHTAWARE')).toMatchObject({
+      available: false,
+      consecutiveFailures: 1,
+      backoffUntil: new Date(now.getTime() + 5000),
+      lastError: 'FLIGHTAWARE API error: 429'
+    });
+    await expect(limiter.fetch('FLIGHTAWARE', 'https://example.test')).rejects.toThrow('rate limit reached');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    advance(5);
+    await expect(limiter.fetch('FLIGHTAWARE', 'https://example.test')).rejects.toThrow('429');
+    expect(limiter.getStatus('FLIGHTAWARE').backoffUntil).toEqual(new Date(Date.now() + 10000));
+
+    // 20 s would exceed the 12 s cap
+    advance(10);
+    await expect(limiter.fetch('FLIGHTAWARE', 'https://example.test')).rejects.toThrow('429');
+    expect(limiter.getStatus('FLIGHTAWARE').backoffUntil).toEqual(new Date(Date.now() + 12000));
+
+    advance(12);
+    fetchMock.mockImplementation(async () => respond(200));
+    await limiter.fetch('FLIGHTAWARE', 'https://example.test');
+    expect(limiter.getStatus('FLIGHTAWARE')).toMatchObject({ available: true, consecutiveFailures: 0, lastSuccess: new Date() });
+  });
+
+  it('honours Retry-After and backs off on network failures', async () => {
+    const limiter = new ProviderRateLimiter();
+    fetchMock.mockResolvedValueOnce(respond(429, {}, { 'x-rate-limit-retry-after-seconds': '120' }));
+
+    await expect(limiter.fetch('OPENSKY', 'https://example.test')).rejects.toThrow('429');
+    expect(limiter.nextRequestAt('OPENSKY')).toEqual(new Date(now.getTime() + 120000));
+
+    fetchMock.mockRejectedValueOnce(new Error('ECONNRESET'));
+    await expect(limiter.fetch('FLIGHTAWARE', 'https://example.test')).rejects.toThrow('ECONNRESET');
+    expect(limiter.getStatus('FLIGHTAWARE')).toMatchObject({ available: false, lastError: 'ECONNRESET' });
+
+    // Other errors are the caller's to handle and do not back off
+    fetchMock.mockResolvedValueOnce(respond(404));
+    expect((await limiter.fetch('MANUAL', 'https://example.test')).status).toBe(404);
+    expect(limiter.isAvailable('MANUAL')).toBe(true);
+  });
+});
+
+describe('FlightTrackingService.getFleetFlightData', () => {
+  const fleet = [{ tailNumber: 'N123AB', icaoAddress: 'a05ed9' }, { tailNumber: 'N456CD', icaoAddress: 'a5889c' }];
+
+  // OpenSky state vector with time_position the given seconds ago
+  const state = (icaoAddress: string, secondsAgo: number, latitude = 40.85) =>
+    [icaoAddress, 'EJA123  ', 'United States', now.getTime() / 1000 - secondsAgo, now.getTime() / 1000, -74.06, latitude, 12000, false, 200, 90, 0, null, 12100, '4521', false, 0];
+
+  const manual = (tailNumber: string, secondsAgo: number): FlightData => ({
+    id: `manual-${tailNumber}`,
+    aircraftId: tailNumber.toLowerCase(),
+    tailNumber,
+    latitude: 26.68,
+    longitude: -80.1,
+    altitude: 0,
+    groundSpeed: 0,
+    track: 0,
+    verticalRate: 0,
+    isOnGround: true,
+    lastContact: new Date(now.getTime() - secondsAgo * 1000),
+    flightStatus: 'LANDED',
+    dataSource: 'MANUAL',
+    lastUpdated: now
+  });
+
+  const tracking = () => {
+    const service = new FlightTrackingService({
+      provider: 'OPENSKY',
+      providers: ['OPENSKY', 'MANUAL'],
+      updateInterval: 30,
+      staleAfter: 120,
+      enabledFeatures: { realTimeTracking: true, flightHistory: true, alertGeneration: true }
+    });
+    service.registerAircraft(fleet);
+    return service;
+  };
+
+  it('asks OpenSky about the whole fleet in one states/all request', async () => {
+    const service = tracking();
+    fetchMock.mockResolvedValueOnce(respond(200, { time: now.getTime() / 1000, states: [state('a5889c', 5), state('a05ed9', 10)] }));
+
+    const data = await service.getFleetFlightData(['N123AB', 'n456cd', 'a061d9']);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toBe('https://opensky-network.org/api/states/all?icao24=a05ed9&icao24=a5889c&icao24=a061d9');
+    expect(data.map(flight => [flight.tailNumber, flight.dataSource])).toEqual([['N123AB', 'OPENSKY'], ['N456CD', 'OPENSKY']]);
+  });
+
+  it('falls back to the next provider when OpenSky is rate limited, and skips it while backing off', async () => {
+    const service = tracking();
+    service.reportManualFlightData(manual('N123AB', 30));
+    fetchMock.mockResolvedValueOnce(respond(429));
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect((await service.getFleetFlightData(['N123AB'])).map(flight => flight.dataSource)).toEqual(['MANUAL']);
+    expect(service.getProviderStatus()[0]).toMatchObject({ provider: 'OPENSKY', available: false, consecutiveFailures: 1 });
+
+    expect((await service.getFleetFlightData(['N123AB'])).map(flight => flight.dataSource)).toEqual(['MANUAL']);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    error.mockRestore();
+  });
+
+  it('keeps the freshest lastContact across providers', async () => {
+    const service = tracking();
+    // OpenSky is stale for N123AB and current for N456CD
+    fetchMock.mockResolvedValue(respond(200, { states: [state('a05ed9', 600), state('a5889c', 20)] }));
+    service.reportManualFlightData(manual('N123AB', 300));
+    service.reportManualFlightData(manual('N456CD', 5));
+
+    const [n123ab, n456cd] = await service.getFleetFlightData(['N123AB', 'N456CD']);
+
+    // Both N123AB reports are stale, so the newer manual one wins; N456CD was never asked of the manual provider
+    expect(n123ab).toMatchObject({ dataSource: 'MANUAL', lastContact: new Date(now.getTime() - 300000) });
+    expect(n456cd).toMatchObject({ dataSource: 'OPENSKY', lastContact: new Date(now.getTime() - 20000) });
+
+    // An older manual report does not replace newer OpenSky data
+    service.reportManualFlightData(manual('N123AB', 900));
+    advance(11);
+    fetchMock.mockResolvedValueOnce(respond(200, { states: [state('a05ed9', 600)] }));
+    const [again] = await service.getFleetFlightData(['N123AB']);
+    expect(again.dataSource).toBe('OPENSKY');
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InMemoryResourceBookingStore, ResourceCalendar } from '../resource-calendar';
+import { HANGAR_BAY, findResource, listResources } from '../resources';
+import { getMaintenanceProgram } from '../maintenance-programs';
+
+const from = new Date('2026-10-20T08:00:00Z');
+const until = new Date('2026-10-22T17:00:00Z');
+const g550 = getMaintenanceProgram('Gulfstream', 'G550')!.dimensions;
+const pc12 = { lengthFt: 47.3, wingspanFt: 53.3, heightFt: 14 }; // from data/maintenance-programs/pilatus-pc12.yaml
+
+const resource = (id: string) => findResource(id)!;
+
+let store: InMemoryResourceBookingStore;
+let calendar: ResourceCalendar;
+
+beforeEach(() => {
+  store = new InMemoryResourceBookingStore();
+  calendar = new ResourceCalendar(listResources(), async () => store);
+});
+
+describe('ResourceCalendar.conflicts', () => {
+  it('refuses tooling whose calibration has expired or runs out during the work', () => {
+    expect(calendar.conflicts(resource('jack-tj-2'), from, until)).toEqual(['calibration expired 2026-10-01']);
+    expect(calendar.conflicts(resource('tool-tw-102'), from, until)).toEqual(['calibration expired 2026-09-30']);
+    expect(calendar.conflicts(resource('tool-inc-1'), new Date('2026-11-29T08:00:00Z'), new Date('2026-12-01T17:00:00Z')))
+      .toEqual(['calibration runs out 2026-11-30']);
+    expect(calendar.conflicts(resource('jack-tj-1'), from, until)).toEqual([]);
+  });
+
+  it('refuses a bay the aircraft does not fit', () => {
+    expect(calendar.conflicts(resource('hangar-b-bay-1'), from, until, g550))
+      .toEqual(['too small (length 96.4 ft > 60 ft, wingspan 93.5 ft > 62 ft, height 25.8 ft > door 20 ft)']);
+    expect(calendar.conflicts(resource('hangar-b-bay-1'), from, until, pc12)).toEqual([]);
+    // Without dimensions the bay is not size-checked
+    expect(calendar.conflicts(resource('hangar-b-bay-1'), from, until)).toEqual([]);
+  });
+});
+
+describe('ResourceCalendar.plan', () => {
+  it('takes the smallest bay the aircraft fits and items still in calibration', () => {
+    const plan = calendar.plan({ recommendationId: 'rec-1', needs: [HANGAR_BAY, 'Jack Set', 'Torque Wrench', 'Flashlight'], from, until, dimensions: g550 });
+
+    expect(plan.allocations.map(({ need, resource }) => `${need}: ${resource.id}`))
+      .toEqual(['Hangar Bay: hangar-a-bay-2', 'Jack Set: jack-tj-1', 'Torque Wrench: tool-tw-101']);
+    expect(plan.untracked).toEqual(['Flashlight']);
+    expect(plan.problems).toEqual([]);
+
+    expect(calendar.plan({ recommendationId: 'rec-2', needs: [HANGAR_BAY], from, until, dimensions: pc12 }).allocations[0].resource.id)
+      .toBe('hangar-b-bay-1');
+  });
+
+  it('plans around tentative bookings and names who holds them', () => {
+    const tentative = [{ resourceId: 'tool-tw-101', bookedFrom: from, bookedUntil: until, recommendationId: 'sched-1' }];
+    const plan = calendar.plan({ recommendationId: 'rec-1', needs: ['Torque Wrench'], from, until }, tentative);
+
+    expect(plan.problems).toEqual([
+      `no Torque Wrench available: Torque Wrench Set TW-101 (booked for sched-1 until ${until.toISOString()}); ` +
+      'Torque Wrench Set TW-102 (calibration expired 2026-09-30)'
+    ]);
+    expect(plan.blockedBy).toEqual(['sched-1']);
+  });
+});
+
+describe('ResourceCalendar.reserve', () => {
+  it('never books an item twice for overlapping work', async () => {
+    const first = await calendar.reserve({ recommendationId: 'rec-1', needs: [HANGAR_BAY, 'Jack Set'], from, until, dimensions: g550, bookedBy: 'Karen Mitchell' });
+    expect(first.map(booking => booking.resourceId)).toEqual(['hangar-a-bay-2', 'jack-tj-1']);
+    expect(first[0]).toMatchObject({ status: 'RESERVED', bookedBy: 'Karen Mitchell' });
+    expect(first[0].id).toMatch(/^book-rec-1-hangar-a-bay-2-/);
+
+    // The other G550 bay is free, but the only in-calibration jack is taken, so nothing is reserved
+    await expect(calendar.reserve({ recommendationId: 'rec-2', needs: [HANGAR_BAY, 'Jack Set'], from: new Date('2026-10-22T08:00:00Z'), until: new Date('2026-10-23T17:00:00Z'), dimensions: g550 }))
+      .rejects.toThrow(`Cannot reserve resources for rec-2: no Jack Set available: Tripod Jack Set TJ-1 (booked for rec-1 until ${until.toISOString()}); ` +
+        'Tripod Jack Set TJ-2 (calibration expired 2026-10-01)');
+    expect(calendar.getBookings({ recommendationId: 'rec-2' })).toEqual([]);
+    expect(calendar.availability('hangar-a-bay-1', from, until)).toMatchObject({ available: true, bookings: [] });
+
+    // Back to back is not an overlap
+    expect(await calendar.reserve({ recommendationId: 'rec-3', needs: ['Jack Set'], from: until, until: new Date('2026-10-23T17:00:00Z') }))
+      .toHaveLength(1);
+  });
+
+  it('books an item once when it meets several needs', async () => {
+    const booked = await calendar.reserve({ recommendationId: 'rec-1', needs: ['Avionics Tester', 'System Test Equipment'], from, until });
+
+    expect(booked.map(booking => booking.resourceId)).toEqual(['tool-avt-1']);
+  });
+
+  it('rejects a booking that ends before it starts', async () => {
+    await expect(calendar.reserve({ recommendationId: 'rec-1', needs: ['Jack Set'], from: until, until: from }))
+      .rejects.toThrow('Cannot reserve resources for rec-1: the booking must end after it starts');
+  });
+
+  it('frees the resources when the work is released', async () => {
+    await calendar.reserve({ recommendationId: 'rec-1', needs: ['Jack Set'], from, until });
+    expect(calendar.availability('jack-tj-1', from, until)).toMatchObject({
+      available: false,
+      conflicts: [`booked for rec-1 until ${until.toISOString()}`]
+    });
+
+    const released = await calendar.release('rec-1', 'CANCELLED');
+
+    expect(released.map(booking => booking.status)).toEqual(['CANCELLED']);
+    expect(calendar.getBookings()).toEqual([]);
+    expect(calendar.getBookings({ includeReleased: true })).toHaveLength(1);
+    expect(calendar.availability('jack-tj-1', from, until)?.available).toBe(true);
+    expect((await calendar.reserve({ recommendationId: 'rec-2', needs: ['Jack Set'], from, until }))[0].resourceId).toBe('jack-tj-1');
+    expect(await calendar.release('rec-1')).toEqual([]);
+  });
+
+  it('gives the same work a new booking id when it is reserved again after a release', async () => {
+    const [first] = await calendar.reserve({ recommendationId: 'rec-1', needs: ['Jack Set'], from, until });
+    await calendar.release('rec-1', 'CANCELLED');
+    const [again] = await calendar.reserve({ recommendationId: 'rec-1', needs: ['Jack Set'], from, until });
+
+    expect(again.id).not.toBe(first.id);
+    expect((await store.listBookings()).map(booking => [booking.id, booking.status])).toEqual([
+      [first.id, 'CANCELLED'],
+      [again.id, 'RESERVED']
+    ]);
+  });
+});
+
+describe('ResourceCalendar persistence', () => {
+  it('sees bookings another calendar made through the same store', async () => {
+    const other = new ResourceCalendar(listResources(), async () => store);
+    await other.reserve({ recommendationId: 'rec-1', needs: ['Jack Set'], from, until });
+
+    // Reserving reloads the store first
+    await expect(calendar.reserve({ recommendationId: 'rec-2', needs: ['Jack Set'], from, until }))
+      .rejects.toThrow('Tripod Jack Set TJ-1 (booked for rec-1');
+
+    const restarted = new ResourceCalendar(listResources(), async () => store);
+    expect(restarted.getBookings()).toEqual([]);
+    await restarted.refresh();
+    expect(restarted.getBookings().map(booking => booking.recommendationId)).toEqual(['rec-1']);
+
+    await restarted.release('rec-1');
+    await other.refresh();
+    expect(other.availability('jack-tj-1', from, until)?.available).toBe(true);
+  });
+});
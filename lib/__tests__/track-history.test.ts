@@ -0,0 +1,78 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { Aircraft, FlightData } from '@/types';
+import { FlightTrackingEvent } from '../flight-tracking';
+import { InMemoryFleetRepository } from '../fleet-repository';
+import { TrackRecorder } from '../track-history';
+import { MOCK_AIRCRAFT } from '../mock-fleet-data';
+
+const contactAt = new Date('2026-10-18T15:00:00Z');
+
+function positionUpdate(tailNumber: string, seconds: number): FlightTrackingEvent {
+  const lastContact = new Date(contactAt.getTime() + seconds * 1000);
+  const flightData: FlightData = {
+    id: `adsb-${tailNumber}`,
+    aircraftId: tailNumber.toLowerCase(),
+    tailNumber,
+    latitude: 40.85,
+    longitude: -74.06,
+    altitude: 0,
+    groundSpeed: 12,
+    track: 190,
+    verticalRate: 0,
+    isOnGround: true,
+    lastContact,
+    flightStatus: 'SCHEDULED',
+    dataSource: 'ADS-B',
+    lastUpdated: lastContact
+  };
+  return {
+    id: seconds,
+    type: 'POSITION_UPDATE',
+    tailNumber,
+    timestamp: lastContact,
+    flightData,
+    position: {
+      tailNumber,
+      latitude: 40.85,
+      longitude: -74.06,
+      altitude: 0,
+      heading: 190,
+      groundSpeed: 12,
+      isOnGround: true,
+      lastSeen: lastContact,
+      flightPhase: 'TAXI'
+    }
+  };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('TrackRecorder', () => {
+  it('starts recording an aircraft added to the fleet after its first report', async () => {
+    vi.useFakeTimers({ now: contactAt });
+    const repository = new InMemoryFleetRepository();
+    const lookup = vi.spyOn(repository, 'findAircraftByTailNumber');
+    const recorder = new TrackRecorder(async () => repository);
+    const aircraft: Aircraft = { ...MOCK_AIRCRAFT[0], id: 'n900pc', tailNumber: 'N900PC' };
+
+    await recorder.handleEvent(positionUpdate('N900PC', 0));
+    await repository.saveAircraft(aircraft);
+
+    // The miss is remembered for a minute rather than looked up on every report
+    await recorder.handleEvent(positionUpdate('N900PC', 5));
+    expect(lookup).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(60 * 1000);
+    await recorder.handleEvent(positionUpdate('N900PC', 65));
+    await recorder.handleEvent(positionUpdate('N900PC', 70));
+    expect(lookup).toHaveBeenCalledTimes(2);
+
+    const reports = await repository.listPositionReports('n900pc', contactAt, new Date(contactAt.getTime() + 3600 * 1000));
+    expect(reports.map(report => report.id)).toEqual([
+      `pos-n900pc-${contactAt.getTime() + 65000}`,
+      `pos-n900pc-${contactAt.getTime() + 70000}`
+    ]);
+  });
+});
@@ -0,0 +1,364 @@
+/**
+ * Local ADS-B Receiver
+ * Keeps the latest state per ICAO address from a hangar receiver's output.
+ * - dump1090 `aircraft.json` snapshots, fetched from the receiver or read from a recorded file
+ * - SBS-1 BaseStation text messages, live from TCP port 30003 or from a recorded capture
+ * - Raw Mode S frames, Beast binary from TCP port 30005 or AVR text, decoded by mode-s-decoder
+ * - States are returned as FlightData for the tail number registered against each ICAO address
+ */
+
+import type { Socket } from 'net';
+import { FlightData } from '@/types';
+import { ModeSDecoder, ReferencePosition, parseAvrFrames, parseBeastFrames } from './mode-s-decoder';
+
+export interface LocalReceiverConfig {
+  aircraftJson?: string; // dump1090 aircraft.json URL or file path
+  sbsHost?: string;      // BaseStation output host
+  sbsPort?: number;      // defaults to 30003
+  beastHost?: string;    // Beast binary output host
+  beastPort?: number;    // defaults to 30005
+  reference?: ReferencePosition; // receiver location, needed for surface positions from raw frames
+}
+
+export interface AdsbAircraftState {
+  icaoAddress: string; // lowercase hex
+  callsign?: string;
+  squawk?: string;
+  latitude?: number;
+  longitude?: number;
+  altitude?: number;     // feet, barometric
+  groundSpeed?: number;  // knots
+  track?: number;        // degrees
+  verticalRate?: number; // feet per minute
+  indicatedAirspeed?: number; // knots
+  mach?: number;
+  isOnGround?: boolean;
+  lastPosition?: Date;
+  lastSeen: Date;
+  messages: number;
+}
+
+// Fields reported by a single message or snapshot entry
+export type AdsbUpdate = Partial<Omit<AdsbAircraftState, 'icaoAddress' | 'lastPosition' | 'lastSeen' | 'messages'>> & {
+  icaoAddress: string;
+  timestamp: Date;
+};
+
+export interface SbsMessage extends AdsbUpdate {
+  transmissionType: number; // 1-8, see the BaseStation format
+}
+
+// dump1090 / dump1090-fa / readsb entry; older builds use altitude, speed and vert_rate
+export interface Dump1090Aircraft {
+  hex: string;
+  flight?: string;
+  squawk?: string;
+  lat?: number;
+  lon?: number;
+  alt_baro?: number | 'ground';
+  altitude?: number | 'ground';
+  gs?: number;
+  speed?: number;
+  track?: number;
+  baro_rate?: number;
+  geom_rate?: number;
+  vert_rate?: number;
+  ias?: number;
+  mach?: number;
+  seen?: number;     // seconds since any message
+  seen_pos?: number; // seconds since the last position
+  messages?: number;
+}
+
+export interface Dump1090Snapshot {
+  now: number; // unix seconds
+  messages?: number;
+  aircraft: Dump1090Aircraft[];
+}
+
+const SBS_PORT = 30003;
+const BEAST_PORT = 30005;
+const RECONNECT_MS = 10000;
+const SNAPSHOT_MIN_INTERVAL_MS = 1000;
+const ICAO_PATTERN = /^[0-9a-f]{6}$/;
+
+// BaseStation dates are "2024/01/28" and "14:05:09.123"; receivers are expected to log UTC
+function parseSbsTime(date?: string, time?: string): Date | undefined {
+  const match = `${date || ''} ${time || ''}`.trim().match(/^(\d{4})\/(\d{2})\/(\d{2}) (\d{2}):(\d{2}):(\d{2})(?:\.(\d{1,3}))?$/);
+  if (!match) return undefined;
+  const [, year, month, day, hours, minutes, seconds, millis = '0'] = match;
+  return new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds, +millis.padEnd(3, '0')));
+}
+
+// One line of SBS-1 output, e.g. MSG,3,1,1,A05ED9,1,2024/01/28,14:05:09.123,2024/01/28,14:05:09.130,,37000,,,40.12,-74.51,,,0,0,0,0
+export function parseSbsMessage(line: string): SbsMessage | null {
+  const fields = line.trim().split(',').map(field => field.trim());
+  if (fields[0] !== 'MSG' || fields.length < 11) return null;
+
+  const icaoAddress = fields[4].toLowerCase();
+  const transmissionType = parseInt(fields[1]);
+  if (!ICAO_PATTERN.test(icaoAddress) || Number.isNaN(transmissionType)) return null;
+
+  const number = (index: number) => {
+    const value = fields[index] ? Number(fields[index]) : NaN;
+    return Number.isNaN(value) ? undefined : value;
+  };
+  const flag = (index: number) => fields[index] ? fields[index] === '-1' || fields[index] === '1' : undefined;
+
+  return {
+    transmissionType,
+    icaoAddress,
+    timestamp: parseSbsTime(fields[6], fields[7]) || new Date(),
+    callsign: fields[10] || undefined,
+    altitude: number(11),
+    groundSpeed: number(12),
+    track: number(13),
+    latitude: number(14),
+    longitude: number(15),
+    verticalRate: number(16),
+    squawk: fields[17] || undefined,
+    isOnGround: transmissionType === 2 ? true : flag(21) // MSG,2 is a surface position
+  };
+}
+
+// Entries of an aircraft.json snapshot; non-ICAO addresses (TIS-B, prefixed ~) are skipped
+export function parseDump1090Snapshot(snapshot: Dump1090Snapshot): AdsbUpdate[] {
+  const now = snapshot.now * 1000;
+
+  return (snapshot.aircraft || [])
+    .filter(entry => ICAO_PATTERN.test((entry.hex || '').toLowerCase()))
+    .map(entry => {
+      const altitude = entry.alt_baro ?? entry.altitude;
+      const hasPosition = entry.lat !== undefined && entry.lon !== undefined;
+      return {
+        icaoAddress: entry.hex.toLowerCase(),
+        timestamp: new Date(now - (entry.seen ?? 0) * 1000),
+        callsign: entry.flight?.trim() || undefined,
+        squawk: entry.squawk,
+        latitude: hasPosition ? entry.lat : undefined,
+        longitude: hasPosition ? entry.lon : undefined,
+        altitude: altitude === 'ground' ? 0 : altitude,
+        groundSpeed: entry.gs ?? entry.speed,
+        track: entry.track,
+        verticalRate: entry.baro_rate ?? entry.geom_rate ?? entry.vert_rate,
+        indicatedAirspeed: entry.ias,
+        mach: entry.mach,
+        isOnGround: altitude === 'ground' ? true : altitude !== undefined ? false : undefined
+      };
+    });
+}
+
+// Fields an update sets as reported; position is only taken as a latitude/longitude pair
+const CARRIED_FIELDS = [
+  'callsign', 'squawk', 'altitude', 'groundSpeed', 'track', 'verticalRate', 'indicatedAirspeed', 'mach', 'isOnGround'
+] as const;
+type CarriedFields = Pick<AdsbAircraftState, typeof CARRIED_FIELDS[number]>;
+
+function carryField<K extends keyof CarriedFields>(state: CarriedFields, update: Partial<CarriedFields>, field: K) {
+  if (update[field] !== undefined) state[field] = update[field];
+}
+
+export class LocalAdsbReceiver {
+  private states = new Map<string, AdsbAircraftState>();
+  private sockets: { sbs?: Socket; beast?: Socket } = {};
+  private reconnectTimers: { sbs?: NodeJS.Timeout; beast?: NodeJS.Timeout } = {};
+  private stopped = false;
+  private lastSnapshotAt = 0;
+  private pendingSnapshot: Promise<void> | null = null;
+  private decoder: ModeSDecoder;
+  private beastRemainder = new Uint8Array(0);
+
+  constructor(private config: LocalReceiverConfig = {}) {
+    this.decoder = new ModeSDecoder(config.reference);
+  }
+
+  getState(icaoAddress: string): AdsbAircraftState | undefined {
+    return this.states.get(icaoAddress.toLowerCase());
+  }
+
+  listStates(): AdsbAircraftState[] {
+    return Array.from(this.states.values());
+  }
+
+  // Merge one update; fields a message doesn't carry keep their previous value
+  apply(update: AdsbUpdate) {
+    const previous = this.states.get(update.icaoAddress);
+    const state: AdsbAircraftState = previous
+      ? { ...previous }
+      : { icaoAddress: update.icaoAddress, lastSeen: update.timestamp, messages: 0 };
+
+    CARRIED_FIELDS.forEach(field => carryField(state, update, field));
+    if (update.latitude !== undefined && update.longitude !== undefined) {
+      state.latitude = update.latitude;
+      state.longitude = update.longitude;
+      state.lastPosition = update.timestamp;
+    }
+    state.lastSeen = previous && previous.lastSeen > update.timestamp ? previous.lastSeen : update.timestamp;
+    state.messages += 1;
+
+    this.states.set(update.icaoAddress, state);
+  }
+
+  // SBS-1 text, one message per line; receivedAt overrides the message clock for live feeds
+  ingestSbs(text: string, receivedAt?: Date): number {
+    let applied = 0;
+    text.split(/\r?\n/).forEach(line => {
+      const message = parseSbsMessage(line);
+      if (!message) return;
+      this.apply(receivedAt ? { ...message, timestamp: receivedAt } : message);
+      applied++;
+    });
+    return applied;
+  }
+
+  // Beast binary stream; a frame split across chunks is completed by the next call
+  ingestBeast(chunk: Uint8Array, receivedAt: Date = new Date()): number {
+    const buffer = new Uint8Array(this.beastRemainder.length + chunk.length);
+    buffer.set(this.beastRemainder);
+    buffer.set(chunk, this.beastRemainder.length);
+
+    const { frames, remainder } = parseBeastFrames(buffer);
+    this.beastRemainder = remainder;
+    return this.ingestModeS(frames.filter(frame => frame.type === 'MODE_S_LONG').map(frame => frame.data), receivedAt);
+  }
+
+  // AVR text (`*8D4840D6202CC371C32CE0576098;` per line)
+  ingestAvr(text: string, receivedAt: Date = new Date()): number {
+    return this.ingestModeS(parseAvrFrames(text), receivedAt);
+  }
+
+  // Frames that fail the parity check or aren't extended squitter are dropped and not counted
+  private ingestModeS(frames: Uint8Array[], receivedAt: Date): number {
+    let applied = 0;
+    frames.forEach(frame => {
+      const update = this.decoder.decode(frame, receivedAt);
+      if (!update) return;
+      this.apply(update);
+      applied++;
+    });
+    return applied;
+  }
+
+  ingestDump1090(snapshot: Dump1090Snapshot): number {
+    const updates = parseDump1090Snapshot(snapshot);
+    updates.forEach(update => this.apply(update));
+    return updates.length;
+  }
+
+  // Replay a recorded capture: .json files as dump1090 snapshots, .beast as Beast binary,
+  // .avr as AVR text, anything else as SBS-1 text
+  async loadRecording(path: string): Promise<number> {
+    const { readFile } = await import('fs/promises');
+    const extension = path.toLowerCase().split('.').pop();
+    if (extension === 'beast') {
+      return this.ingestBeast(new Uint8Array(await readFile(path)));
+    }
+
+    const content = await readFile(path, 'utf8');
+    if (extension === 'json') return this.ingestDump1090(JSON.parse(content));
+    if (extension === 'avr') return this.ingestAvr(content);
+    return this.ingestSbs(content);
+  }
+
+  // Bring state up to date: poll aircraft.json (at most once a second) and keep the TCP feeds connected
+  async refresh(): Promise<void> {
+    await this.connect();
+    if (!this.config.aircraftJson || Date.now() - this.lastSnapshotAt < SNAPSHOT_MIN_INTERVAL_MS) return;
+
+    if (!this.pendingSnapshot) {
+      this.pendingSnapshot = this.readSnapshot().finally(() => {
+        this.lastSnapshotAt = Date.now();
+        this.pendingSnapshot = null;
+      });
+    }
+    return this.pendingSnapshot;
+  }
+
+  private async readSnapshot(): Promise<void> {
+    const source = this.config.aircraftJson;
+    if (/^https?:\/\//i.test(source)) {
+      const response = await fetch(source, { cache: 'no-store' });
+      if (!response.ok) throw new Error(`ADS-B receiver error: ${response.status}`);
+      this.ingestDump1090(await response.json());
+    } else {
+      await this.loadRecording(source);
+    }
+  }
+
+  async connect(): Promise<void> {
+    this.stopped = false;
+    if (this.config.sbsHost) await this.connectFeed('sbs');
+    if (this.config.beastHost) await this.connectFeed('beast');
+  }
+
+  private async connectFeed(feed: 'sbs' | 'beast'): Promise<void> {
+    if (this.sockets[feed] || this.reconnectTimers[feed]) return;
+
+    const host = feed === 'sbs' ? this.config.sbsHost : this.config.beastHost;
+    const port = feed === 'sbs' ? this.config.sbsPort || SBS_PORT : this.config.beastPort || BEAST_PORT;
+    const { createConnection } = await import('net');
+    const socket = createConnection({ host, port });
+
+    if (feed === 'sbs') {
+      let buffered = '';
+      socket.setEncoding('utf8');
+      socket.on('data', (chunk: string) => {
+        // Messages can be split across chunks; keep the incomplete tail for the next one
+        const lines = (buffered + chunk).split(/\r?\n/);
+        buffered = lines.pop() || '';
+        this.ingestSbs(lines.join('\n'), new Date());
+      });
+    } else {
+      this.beastRemainder = new Uint8Array(0);
+      socket.on('data', (chunk: Buffer) => this.ingestBeast(new Uint8Array(chunk), new Date()));
+    }
+    socket.on('error', error => console.error(`${feed === 'sbs' ? 'SBS' : 'Beast'} feed ${host}:${port} error:`, error.message));
+    socket.on('close', () => {
+      delete this.sockets[feed];
+      if (!this.stopped) {
+        this.reconnectTimers[feed] = setTimeout(() => {
+          delete this.reconnectTimers[feed];
+          this.connectFeed(feed);
+        }, RECONNECT_MS);
+      }
+    });
+
+    this.sockets[feed] = socket;
+  }
+
+  disconnect() {
+    this.stopped = true;
+    Object.values(this.reconnectTimers).forEach(timer => clearTimeout(timer));
+    this.reconnectTimers = {};
+    Object.values(this.sockets).forEach(socket => socket.destroy());
+    this.sockets = {};
+  }
+
+  // Current state as FlightData; null until a position has been received
+  toFlightData(icaoAddress: string, tailNumber?: string): FlightData | null {
+    const state = this.getState(icaoAddress);
+    if (!state || state.latitude === undefined || state.longitude === undefined) return null;
+
+    const isOnGround = state.isOnGround ?? false;
+    return {
+      id: `adsb-${state.icaoAddress}-${state.lastSeen.getTime()}`,
+      aircraftId: state.icaoAddress,
+      tailNumber: tailNumber || state.callsign || state.icaoAddress.toUpperCase(),
+      callsign: state.callsign,
+      squawk: state.squawk,
+      latitude: state.latitude,
+      longitude: state.longitude,
+      altitude: isOnGround ? 0 : state.altitude ?? 0,
+      groundSpeed: Math.round(state.groundSpeed ?? 0),
+      track: Math.round(state.track ?? 0),
+      verticalRate: state.verticalRate ?? 0,
+      indicatedAirspeed: state.indicatedAirspeed,
+      mach: state.mach,
+      isOnGround,
+      lastContact: state.lastSeen,
+      flightStatus: isOnGround ? 'LANDED' : 'ACTIVE',
+      dataSource: 'ADS-B',
+      lastUpdated: new Date()
+    };
+  }
+}
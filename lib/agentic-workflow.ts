@@ -3,8 +3,24 @@
  * Automated end-to-end maintenance scheduling and execution
  */
 
-import { maintenanceChecklists, getRequiredPersonnel, MaintenanceTask } from './maintenance-tasks';
+import { maintenanceChecklists, getMaintenanceChecklists, getRequiredPersonnel, MaintenanceTask } from './maintenance-tasks';
+import { DEFAULT_MAINTENANCE_PROGRAM, getMaintenanceProgram } from './maintenance-programs';
 import { MaintenanceScheduleItem } from './maintenance-scheduler';
+import type { ComplianceReport } from './compliance-rules';
+import type { FlightTrackingEvent } from './flight-tracking';
+import { JobScheduler, getJobScheduler } from './job-scheduler';
+import { AuditTrailStore, getAuditTrailStore } from './audit-trail';
+import { ApprovalDelegation, ApprovalStatus, ApprovalTracker, describeRoles } from './approval-policies';
+import { BookedWork, Staffing, StaffingRequirement, findAssignee, requirementsForTasks } from './task-assignment';
+import { ResourceBooking, ResourceCalendar, getResourceCalendar, resourceNeeds } from './resource-calendar';
+import { Aircraft, ApprovalRole } from '@/types';
+import {
+  RecommendationStatus,
+  TaskAssignmentStatus,
+  TransitionContext,
+  WorkOrderCreationStatus,
+  createTaskAssignmentLifecycle
+} from './maintenance-lifecycle';
 
 // Workflow Types
 export interface MaintenanceRecommendation {
@@ -25,7 +41,7 @@ export interface MaintenanceRecommendation {
     latest: Date;
     optimal: Date;
   };
-  status: 'PENDING' | 'APPROVED' | 'REJECTED' | 'SCHEDULED' | 'IN_PROGRESS' | 'COMPLETED';
+  status: RecommendationStatus;
   createdAt: Date;
   approvedBy?: string;
   approvedAt?: Date;
@@ -35,6 +51,7 @@ export interface TaskAssignment {
   id: string;
   recommendationId: string;
   assigneeType: 'MECHANIC' | 'INSPECTOR' | 'SUPERVISOR' | 'PARTS_MANAGER' | 'PILOT' | 'CLEANING_CREW';
+  assigneeId?: string; // personnel roster id
   assigneeName: string;
   assigneeEmail: string;
   assigneePhone?: string;
@@ -45,7 +62,7 @@ export interface TaskAssignment {
   specialInstructions?: string;
   requiredTools: string[];
   requiredParts?: string[];
-  status: 'ASSIGNED' | 'ACKNOWLEDGED' | 'IN_PROGRESS' | 'COMPLETED' | 'DELAYED';
+  status: TaskAssignmentStatus;
   notificationsSent: NotificationRecord[];
   digitalChecklistUrl?: string;
   signOffRequired: boolean;
@@ -75,7 +92,7 @@ export interface WorkOrderCreation {
   assignedInspector?: string;
   scheduledStart: Date;
   estimatedCompletion: Date;
-  status: 'CREATED' | 'ASSIGNED' | 'IN_PROGRESS' | 'INSPECTION' | 'COMPLETED' | 'DEFERRED';
+  status: WorkOrderCreationStatus;
   complianceReferences: string[];
   auditTrail: AuditTrailEntry[];
 }
@@ -94,16 +111,7 @@ export interface CalendarEvent {
   remindersSent: boolean;
 }
 
-export interface ResourceBooking {
-  id: string;
-  resourceType: 'HANGAR' | 'TOOLS' | 'GSE' | 'LIFT';
-  resourceName: string;
-  bookedFrom: Date;
-  bookedUntil: Date;
-  bookedBy: string;
-  recommendationId: string;
-  status: 'RESERVED' | 'CONFIRMED' | 'IN_USE' | 'COMPLETED' | 'CANCELLED';
-}
+export type { ResourceBooking } from './resource-calendar';
 
 export interface ComplianceLog {
   id: string;
@@ -132,18 +140,45 @@ export interface AuditTrailEntry {
 }
 
 // Main Agentic Workflow Class
+// Pre-inspection reminders, latest first; one that is already late is still sent unless the next one is due too
+const REMINDERS = [
+  { key: '24h', hoursBefore: 24, message: '24-hour reminder: Maintenance scheduled for tomorrow' },
+  { key: '2h', hoursBefore: 2, message: '2-hour reminder: Maintenance starting soon' }
+];
+const ESCALATE_AFTER_HOURS = 4; // unacknowledged assignments go to the maintenance supervisor
+const DIGEST_INTERVAL_SECONDS = 24 * 60 * 60;
+const DIGEST_HOUR_UTC = 6;
+
+// Tools and parts across task cards, without repeats
+const toolsFor = (cards: MaintenanceTask[]) => cards.reduce<string[]>((tools, task) =>
+  tools.concat(task.requiredTools.filter(tool => !tools.includes(tool))), []);
+const partsFor = (cards: MaintenanceTask[]) => cards.reduce<string[]>((parts, task) =>
+  parts.concat((task.requiredParts || []).filter(part => !parts.includes(part))), []);
+
 export class AgenticMaintenanceWorkflow {
   private auditTrail: AuditTrailEntry[] = [];
+  private complianceFindings = new Map<string, string>(); // aircraft id -> last logged findings
+  private assignments = new Map<string, TaskAssignment>();
+  private assignmentLifecycle = createTaskAssignmentLifecycle();
 
-  constructor() {
+  constructor(
+    private jobs: JobScheduler = getJobScheduler(),
+    private approvals: ApprovalTracker = new ApprovalTracker(),
+    private resources: ResourceCalendar = getResourceCalendar(),
+    private getAuditStore: () => Promise<AuditTrailStore> = getAuditTrailStore
+  ) {
     this.logAuditEntry('SYSTEM_INIT', 'SYSTEM', 'Agentic Maintenance Workflow initialized', {}, true);
+    this.registerJobHandlers();
+    this.registerLifecycleHooks();
+    this.scheduleDigest().catch(error => console.error('Failed to schedule maintenance digest:', error));
   }
 
   // Step 1: AI-Generated Recommendation
   async generateAIRecommendation(
     scheduleItem: MaintenanceScheduleItem,
     utilizationData: any,
-    operationalConstraints: any
+    operationalConstraints: any,
+    aircraft?: Pick<Aircraft, 'make' | 'model'>
   ): Promise<MaintenanceRecommendation> {
     
     const recommendation: MaintenanceRecommendation = {
@@ -163,7 +198,10 @@ export class AgenticMaintenanceWorkflow {
       estimatedDowntime: scheduleItem.estimatedDuration,
       urgency: this.calculateUrgency(scheduleItem),
       affectedAssets: [scheduleItem.tailNumber],
-      requiredPersonnel: getRequiredPersonnel(scheduleItem.maintenanceType),
+      requiredPersonnel: getRequiredPersonnel(
+        scheduleItem.maintenanceType,
+        getMaintenanceChecklists(aircraft?.make, aircraft?.model)
+      ),
       timeWindow: {
         earliest: new Date(scheduleItem.scheduledDate.getTime() - 7 * 24 * 60 * 60 * 1000), // 1 week before
         latest: new Date(scheduleItem.scheduledDate.getTime() + 7 * 24 * 60 * 60 * 1000),   // 1 week after
@@ -184,17 +222,113 @@ export class AgenticMaintenanceWorkflow {
     return recommendation;
   }
 
-  // Step 2: One-Click Approval Handler
+  // Step 2a: Approvals under the recommendation's policy, each with the approver's rationale
+  submitApproval(
+    recommendation: MaintenanceRecommendation,
+    approver: string,
+    rationale: string
+  ): { status?: ApprovalStatus; rejection?: string } {
+    const { status, record, rejection } = this.approvals.approve(recommendation, approver, rationale, this.jobs.now());
+    if (rejection) {
+      this.logAuditEntry(
+        'APPROVAL_REFUSED',
+        approver || 'UNKNOWN',
+        `Approval of ${recommendation.id} refused: ${rejection}`,
+        { recommendationId: recommendation.id },
+        true
+      );
+      return { status, rejection };
+    }
+
+    this.logAuditEntry(
+      'APPROVAL_RECORDED',
+      record.approverName,
+      `${record.approverName} approved ${recommendation.id} as ${describeRoles([record.role])}` +
+        `${record.onBehalfOf ? ` on behalf of ${record.onBehalfOf}` : ''} under the ${status.policyName} policy: ${record.rationale}`,
+      {
+        recommendationId: recommendation.id,
+        policyId: status.policyId,
+        role: record.role,
+        onBehalfOf: record.onBehalfOf,
+        rationale: record.rationale,
+        expiresAt: record.expiresAt,
+        outstanding: status.outstanding.map(requirement => requirement.description)
+      },
+      true
+    );
+    return { status };
+  }
+
+  // Step 2b: Work the policy lets through on its own (AOG within limits)
+  autoApprove(recommendation: MaintenanceRecommendation): ApprovalStatus | undefined {
+    const status = this.approvals.autoApprove(recommendation, this.jobs.now());
+    if (status) {
+      this.logAuditEntry(
+        'AUTO_APPROVED',
+        'SYSTEM',
+        `Auto-approved ${recommendation.id} under the ${status.policyName} policy: ` +
+          `$${recommendation.estimatedCost} and ${recommendation.estimatedDowntime}h downtime are within its limits`,
+        { recommendationId: recommendation.id, policyId: status.policyId },
+        true
+      );
+    }
+    return status;
+  }
+
+  getApprovalStatus(recommendation: MaintenanceRecommendation): ApprovalStatus | undefined {
+    return this.approvals.getStatus(recommendation, this.jobs.now());
+  }
+
+  delegateApproval(
+    from: string,
+    to: string,
+    role: ApprovalRole,
+    validUntil: Date,
+    reason?: string
+  ): { delegation?: ApprovalDelegation; rejection?: string } {
+    const result = this.approvals.delegate(from, to, role, validUntil, reason, this.jobs.now());
+    if (result.delegation) {
+      const { delegation } = result;
+      this.logAuditEntry(
+        'APPROVAL_DELEGATED',
+        delegation.fromName,
+        `${delegation.fromName} delegated ${describeRoles([delegation.role])} approval to ${delegation.toName} until ${delegation.validUntil.toISOString()}`,
+        { delegationId: delegation.id, role: delegation.role, toId: delegation.toId, reason },
+        true
+      );
+    }
+    return result;
+  }
+
+  listApprovalDelegations(): ApprovalDelegation[] {
+    return this.approvals.listDelegations(this.jobs.now());
+  }
+
+  listApprovalPolicies() {
+    return this.approvals.listPolicies();
+  }
+
+  // Step 2c: Start the workflow once the policy is satisfied
   async approveRecommendation(
-    recommendationId: string,
+    recommendation: MaintenanceRecommendation,
     approvedBy: string,
-    approvalNotes?: string
+    approvalNotes?: string,
+    aircraft?: Pick<Aircraft, 'make' | 'model'>
   ): Promise<{
     success: boolean;
     workflowId: string;
     message: string;
     estimatedCompletion: Date;
   }> {
+    const recommendationId = recommendation.id;
+    if (!this.approvals.isApproved(recommendationId)) {
+      return {
+        success: false,
+        workflowId: '',
+        message: `Recommendation ${recommendationId} has not been approved under its approval policy`,
+        estimatedCompletion: new Date()
+      };
+    }
     
     this.logAuditEntry(
       'RECOMMENDATION_APPROVED',
@@ -206,7 +340,7 @@ export class AgenticMaintenanceWorkflow {
 
     try {
       // Trigger the automated action sequence
-      const workflowResult = await this.executeAutomatedSequence(recommendationId, approvedBy);
+      const workflowResult = await this.executeAutomatedSequence(recommendation, approvedBy, aircraft);
       
       return {
         success: true,
@@ -234,26 +368,34 @@ export class AgenticMaintenanceWorkflow {
 
   // Step 3: Automated Action Sequence
   private async executeAutomatedSequence(
-    recommendationId: string,
-    approvedBy: string
+    recommendation: MaintenanceRecommendation,
+    approvedBy: string,
+    aircraft?: Pick<Aircraft, 'make' | 'model'>
   ): Promise<{ workflowId: string; actionsCompleted: number; estimatedCompletion: Date }> {
     
+    const recommendationId = recommendation.id;
     const workflowId = `workflow-${Date.now()}`;
     let actionsCompleted = 0;
 
     try {
-      // 3a. Task Assignment & Notifications
-      const assignments = await this.createTaskAssignments(recommendationId);
+      // 3a. Task Assignment, then Resource Booking for the crew's window; either failing stops the sequence
+      const assignments = await this.createTaskAssignments(recommendation, aircraft);
+      const resourceBookings = await this.bookResources(recommendation, assignments, approvedBy, aircraft);
+      const hangar = resourceBookings.find(booking => booking.resourceType === 'HANGAR');
+      assignments
+        .filter(assignment => hangar && assignment.assigneeType !== 'PARTS_MANAGER')
+        .forEach(assignment => { assignment.location = hangar.resourceName; });
+      assignments.forEach(assignment => this.assignments.set(assignment.id, assignment));
       await this.sendNotifications(assignments);
+      await this.scheduleEscalations(assignments);
       actionsCompleted++;
 
-      // 3b. Calendar & Resource Booking
-      const calendarEvent = await this.createCalendarEvent(recommendationId);
-      const resourceBookings = await this.bookResources(recommendationId);
+      // 3b. Calendar
+      const calendarEvent = await this.createCalendarEvent(recommendation, assignments, resourceBookings);
       actionsCompleted++;
 
       // 3c. Work Order Creation
-      const workOrder = await this.createWorkOrder(recommendationId, approvedBy);
+      const workOrder = await this.createWorkOrder(recommendationId, approvedBy, assignments);
       actionsCompleted++;
 
       // 3d. Compliance Logging
@@ -261,7 +403,7 @@ export class AgenticMaintenanceWorkflow {
       actionsCompleted++;
 
       // 3e. Pre-Inspection Reminders Setup
-      await this.scheduleReminders(recommendationId);
+      await this.scheduleReminders(recommendationId, calendarEvent.start);
       actionsCompleted++;
 
       const estimatedCompletion = new Date(Date.now() + 48 * 60 * 60 * 1000); // 48 hours from now
@@ -275,7 +417,8 @@ export class AgenticMaintenanceWorkflow {
           recommendationId, 
           actionsCompleted,
           workOrderId: workOrder.id,
-          calendarEventId: calendarEvent.id
+          calendarEventId: calendarEvent.id,
+          assignmentIds: assignments.map(assignment => assignment.id)
         },
         true
       );
@@ -295,45 +438,155 @@ export class AgenticMaintenanceWorkflow {
   }
 
   // 3a. Task Assignment & Notification
-  private async createTaskAssignments(recommendationId: string): Promise<TaskAssignment[]> {
-    // Mock implementation - in reality would integrate with HR/scheduling systems
-    const assignments: TaskAssignment[] = [
-      {
-        id: `assign-${Date.now()}-1`,
-        recommendationId,
-        assigneeType: 'MECHANIC',
-        assigneeName: 'John Smith',
-        assigneeEmail: 'john.smith@example.com',
-        assigneePhone: '+1-555-0123',
-        taskDescription: 'Lead maintenance inspection',
-        scheduledStart: new Date(Date.now() + 24 * 60 * 60 * 1000),
-        estimatedDuration: 8,
-        location: 'Hangar A, Bay 2',
-        specialInstructions: 'Review AD compliance checklist before starting',
-        requiredTools: ['Inspection Tools', 'Torque Wrench', 'Multimeter'],
-        status: 'ASSIGNED',
-        notificationsSent: [],
-        signOffRequired: true
+  // Staffed from the personnel roster: a lead mechanic for the task cards, an inspector for the
+  // IA items and sign-off once the work is done, and parts preparation, against the aircraft type's checklist.
+  // Throws when nobody qualified is free.
+  private async createTaskAssignments(
+    recommendation: MaintenanceRecommendation,
+    aircraft?: Pick<Aircraft, 'make' | 'model'>
+  ): Promise<TaskAssignment[]> {
+    const crew = this.crewFor(recommendation, aircraft);
+    const now = this.jobs.now();
+    const leadTimeHours = recommendation.urgency === 'CRITICAL' ? 2 : 24;
+    const desiredStart = new Date(Math.max(
+      new Date(recommendation.recommendedDate || now).getTime(),
+      now.getTime() + leadTimeHours * 60 * 60 * 1000
+    ));
+    const booked = this.bookedWork();
+    const book = (staffing: Staffing) => {
+      booked.push({ personId: staffing.person.id, start: staffing.start, end: staffing.end });
+      return staffing;
+    };
+
+    const lead = book(findAssignee(crew.MECHANIC.requirement, desiredStart, crew.MECHANIC.hours, booked));
+    const inspector = book(findAssignee(
+      { ...crew.INSPECTOR.requirement, exclude: [lead.person.id] },
+      lead.end,
+      crew.INSPECTOR.hours,
+      booked
+    ));
+    const parts = book(findAssignee(
+      { label: 'parts manager', roles: ['MANAGER', 'MECHANIC'], permission: 'parts' },
+      now,
+      2,
+      booked
+    ));
+
+    return [
+      crew.MECHANIC.assignment(lead),
+      crew.INSPECTOR.assignment(inspector),
+      this.toAssignment(recommendation.id, parts, 'PARTS_MANAGER', 'Prepare required parts and consumables', 'Parts Department', ['Parts Catalog'], {
+        requiredParts: partsFor(crew.tasks)
+      })
+    ];
+  }
+
+  // Staff one role of work already on the schedule, e.g. the inspector once the work reaches INSPECTION.
+  // Booked like the crew assigned on approval; throws saying why nobody qualified is free.
+  public assignRole(
+    recommendation: Pick<MaintenanceRecommendation, 'id' | 'maintenanceType' | 'estimatedDowntime'>,
+    role: 'MECHANIC' | 'INSPECTOR',
+    aircraft?: Pick<Aircraft, 'make' | 'model'>,
+    desiredStart: Date = this.jobs.now()
+  ): TaskAssignment {
+    const existing = this.assignments.get(`assign-${recommendation.id}-${role.toLowerCase()}`);
+    if (existing) return existing;
+
+    const { requirement, hours, assignment } = this.crewFor(recommendation, aircraft)[role];
+    const staffed = this.getAssignments(recommendation.id).map(other => other.assigneeId).filter(Boolean);
+    const staffing = findAssignee({ ...requirement, exclude: staffed }, desiredStart, hours, this.bookedWork());
+    const created = assignment(staffing);
+    this.assignments.set(created.id, created);
+    return created;
+  }
+
+  // Lead mechanic and inspector requirements from the aircraft type's checklist: the lead works the task
+  // cards, the inspector the IA items
+  private crewFor(
+    recommendation: Pick<MaintenanceRecommendation, 'id' | 'maintenanceType' | 'estimatedDowntime'>,
+    aircraft?: Pick<Aircraft, 'make' | 'model'>
+  ) {
+    const checklist = getMaintenanceChecklists(aircraft?.make, aircraft?.model)[recommendation.maintenanceType];
+    const tasks = checklist?.tasks || [];
+    const workTasks = tasks.filter(task => !task.requiresIA);
+    const inspectionTasks = tasks.filter(task => task.requiresIA);
+    const requirement = (role: string, roles: StaffingRequirement['roles'], cards: MaintenanceTask[]): StaffingRequirement => ({
+      label: `${role} for ${recommendation.maintenanceType}`,
+      roles,
+      ...requirementsForTasks(cards)
+    });
+
+    return {
+      tasks,
+      MECHANIC: {
+        requirement: requirement('lead mechanic', ['MECHANIC', 'INSPECTOR'], workTasks),
+        hours: checklist?.estimatedHours || recommendation.estimatedDowntime || 8,
+        assignment: (staffing: Staffing) => this.toAssignment(
+          recommendation.id,
+          staffing,
+          'MECHANIC',
+          `Lead ${recommendation.maintenanceType} maintenance (${workTasks.length} task cards)`,
+          'Hangar A, Bay 2',
+          toolsFor(workTasks),
+          {
+            specialInstructions: 'Review AD compliance checklist before starting',
+            requiredParts: partsFor(workTasks),
+            signOffRequired: true
+          }
+        )
       },
-      {
-        id: `assign-${Date.now()}-2`,
-        recommendationId,
-        assigneeType: 'PARTS_MANAGER',
-        assigneeName: 'Sarah Johnson',
-        assigneeEmail: 'sarah.johnson@example.com',
-        taskDescription: 'Prepare required parts and consumables',
-        scheduledStart: new Date(Date.now() + 2 * 60 * 60 * 1000),
-        estimatedDuration: 2,
-        location: 'Parts Department',
-        requiredTools: ['Parts Catalog'],
-        requiredParts: ['Oil Filters', 'Spark Plugs', 'Aviation Oil'],
-        status: 'ASSIGNED',
-        notificationsSent: [],
-        signOffRequired: false
+      INSPECTOR: {
+        requirement: { ...requirement('inspector', ['INSPECTOR'], inspectionTasks), requiresIA: true },
+        hours: Math.max(1, inspectionTasks.reduce((minutes, task) => minutes + task.estimatedMinutes, 0) / 60),
+        assignment: (staffing: Staffing) => this.toAssignment(
+          recommendation.id,
+          staffing,
+          'INSPECTOR',
+          `Inspection and return-to-service sign-off (${inspectionTasks.length} IA items)`,
+          'Hangar A, Bay 2',
+          toolsFor(inspectionTasks)
+        )
       }
-    ];
+    };
+  }
+
+  private toAssignment(
+    recommendationId: string,
+    staffing: Staffing,
+    assigneeType: TaskAssignment['assigneeType'],
+    taskDescription: string,
+    location: string,
+    requiredTools: string[],
+    extra: Partial<TaskAssignment> = {}
+  ): TaskAssignment {
+    return {
+      id: `assign-${recommendationId}-${assigneeType.toLowerCase()}`,
+      recommendationId,
+      assigneeType,
+      assigneeId: staffing.person.id,
+      assigneeName: staffing.person.name,
+      assigneeEmail: staffing.person.email,
+      taskDescription,
+      scheduledStart: staffing.start,
+      estimatedDuration: (staffing.end.getTime() - staffing.start.getTime()) / (60 * 60 * 1000),
+      location,
+      requiredTools,
+      status: 'ASSIGNED',
+      notificationsSent: [],
+      signOffRequired: false,
+      ...extra
+    };
+  }
 
-    return assignments;
+  // Open assignments, so the same person is not booked twice
+  private bookedWork(): BookedWork[] {
+    return Array.from(this.assignments.values())
+      .filter(assignment => assignment.assigneeId && assignment.status !== 'COMPLETED')
+      .map(assignment => ({
+        personId: assignment.assigneeId,
+        start: new Date(assignment.scheduledStart),
+        end: new Date(new Date(assignment.scheduledStart).getTime() + assignment.estimatedDuration * 60 * 60 * 1000)
+      }));
   }
 
   private async sendNotifications(assignments: TaskAssignment[]): Promise<void> {
@@ -369,53 +622,91 @@ export class AgenticMaintenanceWorkflow {
   }
 
   // 3b. Calendar & Resource Booking
-  private async createCalendarEvent(recommendationId: string): Promise<CalendarEvent> {
+  private async createCalendarEvent(
+    recommendation: MaintenanceRecommendation,
+    assignments: TaskAssignment[],
+    bookings: ResourceBooking[]
+  ): Promise<CalendarEvent> {
+    const { start, end } = this.workWindow(assignments);
     const event: CalendarEvent = {
       id: `cal-${Date.now()}`,
-      title: 'Aircraft Maintenance - A-Check',
+      title: `Aircraft Maintenance - ${recommendation.maintenanceType} (${recommendation.tailNumber})`,
       description: 'Scheduled maintenance inspection',
-      start: new Date(Date.now() + 24 * 60 * 60 * 1000),
-      end: new Date(Date.now() + 32 * 60 * 60 * 1000), // 8 hours later
-      location: 'Hangar A, Bay 2',
-      attendees: ['john.smith@example.com', 'sarah.johnson@example.com'],
-      resources: ['Hangar A', 'Maintenance Tools', 'Ground Power Unit'],
+      start,
+      end,
+      location: bookings.find(booking => booking.resourceType === 'HANGAR')?.resourceName || 'Hangar A, Bay 2',
+      attendees: assignments.map(assignment => assignment.assigneeEmail),
+      resources: bookings.map(booking => booking.resourceName),
       calendarSystem: 'INTERNAL',
-      eventId: `maint-${recommendationId}`,
+      eventId: `maint-${recommendation.id}`,
       remindersSent: false
     };
 
     return event;
   }
 
-  private async bookResources(recommendationId: string): Promise<ResourceBooking[]> {
-    const bookings: ResourceBooking[] = [
-      {
-        id: `book-${Date.now()}-1`,
-        resourceType: 'HANGAR',
-        resourceName: 'Hangar A - Bay 2',
-        bookedFrom: new Date(Date.now() + 24 * 60 * 60 * 1000),
-        bookedUntil: new Date(Date.now() + 32 * 60 * 60 * 1000),
-        bookedBy: 'Maintenance Scheduler',
-        recommendationId,
-        status: 'RESERVED'
-      },
-      {
-        id: `book-${Date.now()}-2`,
-        resourceType: 'GSE',
-        resourceName: 'Ground Power Unit #3',
-        bookedFrom: new Date(Date.now() + 24 * 60 * 60 * 1000),
-        bookedUntil: new Date(Date.now() + 32 * 60 * 60 * 1000),
-        bookedBy: 'Maintenance Scheduler',
-        recommendationId,
-        status: 'RESERVED'
-      }
-    ];
+  // Reserves the hangar bay, GSE, lifts, jacks and calibrated tools the checklist calls for, for as long as
+  // the mechanic and inspector are on the aircraft. Throws when anything tracked is taken or out of calibration.
+  private async bookResources(
+    recommendation: MaintenanceRecommendation,
+    assignments: TaskAssignment[],
+    bookedBy: string,
+    aircraft?: Pick<Aircraft, 'make' | 'model'>
+  ): Promise<ResourceBooking[]> {
+    const program = aircraft && getMaintenanceProgram(aircraft.make, aircraft.model);
+    const checklist = getMaintenanceChecklists(aircraft?.make, aircraft?.model)[recommendation.maintenanceType];
+    const { start, end } = this.workWindow(assignments);
 
+    const bookings = await this.resources.reserve({
+      recommendationId: recommendation.id,
+      needs: resourceNeeds(checklist),
+      from: start,
+      until: end,
+      dimensions: (program || DEFAULT_MAINTENANCE_PROGRAM).dimensions,
+      bookedBy
+    });
+
+    this.logAuditEntry(
+      'RESOURCES_BOOKED',
+      'SYSTEM',
+      `Reserved ${bookings.map(booking => booking.resourceName).join(', ') || 'no tracked resources'} for ${recommendation.id} ` +
+        `from ${start.toISOString()} to ${end.toISOString()}`,
+      { recommendationId: recommendation.id, bookingIds: bookings.map(booking => booking.id) },
+      false
+    );
     return bookings;
   }
 
+  // From the first hands on the aircraft to the inspector's sign-off; parts are prepared elsewhere
+  private workWindow(assignments: TaskAssignment[]): { start: Date; end: Date } {
+    const onAircraft = assignments.filter(assignment => assignment.assigneeType !== 'PARTS_MANAGER');
+    const starts = onAircraft.map(assignment => new Date(assignment.scheduledStart).getTime());
+    const ends = onAircraft.map(assignment =>
+      new Date(assignment.scheduledStart).getTime() + assignment.estimatedDuration * 60 * 60 * 1000);
+    return { start: new Date(Math.min(...starts)), end: new Date(Math.max(...ends)) };
+  }
+
+  getResourceBookings(recommendationId: string): ResourceBooking[] {
+    return this.resources.getBookings({ recommendationId });
+  }
+
+  // Hands the hangar, equipment and tooling back once the work is closed
+  async releaseResources(recommendationId: string, status: 'COMPLETED' | 'CANCELLED' = 'COMPLETED'): Promise<ResourceBooking[]> {
+    const released = await this.resources.release(recommendationId, status);
+    if (released.length > 0) {
+      this.logAuditEntry(
+        'RESOURCES_RELEASED',
+        'SYSTEM',
+        `Released ${released.map(booking => booking.resourceName).join(', ')} held for ${recommendationId} (${status.toLowerCase()})`,
+        { recommendationId, bookingIds: released.map(booking => booking.id) },
+        false
+      );
+    }
+    return released;
+  }
+
   // 3c. Work Order Creation
-  private async createWorkOrder(recommendationId: string, approvedBy: string): Promise<WorkOrderCreation> {
+  private async createWorkOrder(recommendationId: string, approvedBy: string, assignments: TaskAssignment[]): Promise<WorkOrderCreation> {
     const workOrder: WorkOrderCreation = {
       id: `wo-${Date.now()}`,
       recommendationId,
@@ -425,8 +716,8 @@ export class AgenticMaintenanceWorkflow {
       aircraftId: 'n123ab',
       maintenanceType: 'A_CHECK',
       tasks: maintenanceChecklists['A_CHECK']?.tasks || [],
-      assignedMechanic: 'John Smith',
-      assignedInspector: 'Mike Wilson',
+      assignedMechanic: assignments.find(assignment => assignment.assigneeType === 'MECHANIC')?.assigneeName,
+      assignedInspector: assignments.find(assignment => assignment.assigneeType === 'INSPECTOR')?.assigneeName,
       scheduledStart: new Date(Date.now() + 24 * 60 * 60 * 1000),
       estimatedCompletion: new Date(Date.now() + 32 * 60 * 60 * 1000),
       status: 'CREATED',
@@ -479,17 +770,102 @@ export class AgenticMaintenanceWorkflow {
     return logs;
   }
 
-  // 3e. Pre-Inspection Reminders
-  private async scheduleReminders(recommendationId: string): Promise<void> {
-    // Schedule 24-hour reminder
-    setTimeout(async () => {
-      await this.sendReminder(recommendationId, '24-hour reminder: Maintenance scheduled for tomorrow');
-    }, 1000); // In reality, this would use a proper job scheduler
+  // 3e. Pre-Inspection Reminders, queued on the job scheduler so they survive restarts
+  private async scheduleReminders(recommendationId: string, start: Date): Promise<void> {
+    const now = this.jobs.now().getTime();
+
+    for (let i = 0; i < REMINDERS.length; i++) {
+      const reminder = REMINDERS[i];
+      const next = REMINDERS[i + 1];
+      const dueAt = start.getTime() - reminder.hoursBefore * 60 * 60 * 1000;
+      const supersededAt = next ? start.getTime() - next.hoursBefore * 60 * 60 * 1000 : start.getTime();
+      if (supersededAt <= now) continue;
+
+      await this.jobs.schedule(
+        'maintenance-reminder',
+        { recommendationId, message: reminder.message },
+        { runAt: new Date(Math.max(now, dueAt)), idempotencyKey: `reminder-${reminder.key}-${recommendationId}` }
+      );
+    }
+  }
+
+  // Escalate each assignment that hasn't been acknowledged within a few hours of notification
+  private async scheduleEscalations(assignments: TaskAssignment[]): Promise<void> {
+    const escalateAt = new Date(this.jobs.now().getTime() + ESCALATE_AFTER_HOURS * 60 * 60 * 1000);
+
+    for (const assignment of assignments) {
+      await this.jobs.schedule(
+        'assignment-escalation',
+        {
+          assignmentId: assignment.id,
+          recommendationId: assignment.recommendationId,
+          assigneeName: assignment.assigneeName,
+          taskDescription: assignment.taskDescription
+        },
+        { runAt: escalateAt, idempotencyKey: `escalation-${assignment.id}` }
+      );
+    }
+  }
+
+  // Daily digest of the audit trail, recurring from the next 06:00 UTC
+  private async scheduleDigest(): Promise<void> {
+    const runAt = this.jobs.now();
+    runAt.setUTCHours(DIGEST_HOUR_UTC, 0, 0, 0);
+    if (runAt <= this.jobs.now()) runAt.setUTCDate(runAt.getUTCDate() + 1);
 
-    // Schedule 2-hour reminder
-    setTimeout(async () => {
-      await this.sendReminder(recommendationId, '2-hour reminder: Maintenance starting soon');
-    }, 2000);
+    await this.jobs.schedule('maintenance-digest', {}, {
+      runAt,
+      everySeconds: DIGEST_INTERVAL_SECONDS,
+      idempotencyKey: 'maintenance-digest-daily'
+    });
+  }
+
+  private registerJobHandlers() {
+    this.jobs.register('maintenance-reminder', async payload => {
+      await this.sendReminder(payload.recommendationId, payload.message);
+    });
+
+    this.jobs.register('assignment-escalation', async payload => {
+      this.logAuditEntry(
+        'ASSIGNMENT_ESCALATED',
+        'SYSTEM',
+        `${payload.assigneeName} has not acknowledged "${payload.taskDescription}" after ${ESCALATE_AFTER_HOURS} hours; escalated to the maintenance supervisor`,
+        { assignmentId: payload.assignmentId, recommendationId: payload.recommendationId },
+        true
+      );
+    });
+
+    // Read from the persisted trail: the worker running the digest may not be the instance that logged the events
+    this.jobs.register('maintenance-digest', async (payload, job) => {
+      const since = job.lastRunAt || new Date(job.runAt.getTime() - DIGEST_INTERVAL_SECONDS * 1000);
+      const entries = (await (await this.getAuditStore()).listEntries({ since })).filter(entry => entry.action !== 'DIGEST_SENT');
+      const byAction = entries.reduce<{ [action: string]: number }>((counts, entry) => {
+        counts[entry.action] = (counts[entry.action] || 0) + 1;
+        return counts;
+      }, {});
+
+      this.logAuditEntry(
+        'DIGEST_SENT',
+        'SYSTEM',
+        `Maintenance digest: ${entries.length} events since ${since.toISOString()}, ${entries.filter(entry => entry.complianceRelevant).length} compliance-relevant`,
+        { since: since.toISOString(), byAction },
+        false
+      );
+    });
+  }
+
+  // Every assignment status change is on the audit trail; sign-offs are compliance records
+  private registerLifecycleHooks() {
+    this.assignmentLifecycle.onTransition((assignment, from, to, context) => {
+      this.logAuditEntry(
+        to === 'COMPLETED' && context.signedOffBy ? 'ASSIGNMENT_SIGNED_OFF' : 'ASSIGNMENT_STATUS_CHANGED',
+        context.actor || assignment.assigneeName,
+        `Assignment ${assignment.id} (${assignment.taskDescription}) moved from ${from} to ${to}` +
+          (context.signedOffBy ? `; signed off by ${context.signedOffBy}` : ''),
+        { assignmentId: assignment.id, recommendationId: assignment.recommendationId, notes: context.notes },
+        to === 'COMPLETED'
+      );
+    });
   }
 
   private async sendReminder(recommendationId: string, message: string): Promise<void> {
@@ -564,6 +940,107 @@ Gander Maintenance System
     };
 
     this.auditTrail.push(entry);
+    this.getAuditStore()
+      .then(store => store.append(entry))
+      .catch(error => console.error(`Failed to persist audit entry ${entry.action}:`, error));
+  }
+
+  // Log a compliance evaluation; repeated evaluations are only logged when the findings change
+  public recordComplianceEvaluation(report: ComplianceReport): void {
+    const findings = report.items.filter(item => item.status === 'OVERDUE' || item.status === 'NO_RECORD');
+    const signature = findings.map(item => `${item.id}:${item.status}`).sort().join('|');
+    if (this.complianceFindings.get(report.aircraftId) === signature) return;
+    this.complianceFindings.set(report.aircraftId, signature);
+
+    this.logAuditEntry(
+      'COMPLIANCE_EVALUATED',
+      'SYSTEM',
+      report.compliant
+        ? `${report.tailNumber} compliant: ${report.summary.total} items checked, ${report.summary.dueSoon} due soon`
+        : `${report.tailNumber} has ${findings.length} compliance finding(s): ${report.issues.join('; ')}`,
+      {
+        aircraftId: report.aircraftId,
+        findings: findings.map(item => ({
+          regulation: item.regulation,
+          description: item.description,
+          status: item.status,
+          evidence: item.evidence.map(evidence => evidence.description)
+        }))
+      },
+      true
+    );
+  }
+
+  // Log takeoffs, landings and loss of tracking from the flight tracking stream
+  public recordFlightEvent(event: FlightTrackingEvent): void {
+    switch (event.type) {
+      case 'TAKEOFF':
+      case 'LANDING':
+        this.logAuditEntry(
+          event.type === 'TAKEOFF' ? 'AIRCRAFT_TAKEOFF' : 'AIRCRAFT_LANDING',
+          'SYSTEM',
+          `${event.tailNumber} ${event.type === 'TAKEOFF' ? 'departed' : 'landed'}${event.position.airport ? ` at ${event.position.airport}` : ''} (${event.flightData.dataSource})`,
+          {
+            position: {
+              before: null,
+              after: { latitude: event.position.latitude, longitude: event.position.longitude, altitude: event.position.altitude }
+            }
+          }
+        );
+        break;
+      case 'STALE_DATA':
+        this.logAuditEntry(
+          'FLIGHT_DATA_STALE',
+          'SYSTEM',
+          event.secondsSinceContact !== undefined
+            ? `No flight data for ${event.tailNumber} in ${Math.round(event.secondsSinceContact / 60)} minutes`
+            : `No flight data received for ${event.tailNumber}`
+        );
+        break;
+    }
+  }
+
+  // The assignee has seen the task: their pending escalation is cancelled. Returns whether one was pending.
+  public async acknowledgeAssignment(assignmentId: string, acknowledgedBy: string): Promise<boolean> {
+    const escalation = await this.jobs.cancelByIdempotencyKey(`escalation-${assignmentId}`);
+    const cancelled = escalation?.status === 'CANCELLED';
+
+    const assignment = this.assignments.get(assignmentId);
+    if (assignment && this.assignmentLifecycle.can(assignment.status, 'ACKNOWLEDGED')) {
+      this.assignmentLifecycle.transition(assignment, 'ACKNOWLEDGED', { actor: acknowledgedBy });
+    }
+
+    this.logAuditEntry(
+      'ASSIGNMENT_ACKNOWLEDGED',
+      acknowledgedBy,
+      `Assignment ${assignmentId} acknowledged${cancelled ? '; escalation cancelled' : ''}`,
+      { assignmentId },
+      false
+    );
+    return cancelled;
+  }
+
+  public getAssignment(assignmentId: string): TaskAssignment | undefined {
+    return this.assignments.get(assignmentId);
+  }
+
+  public getAssignments(recommendationId: string): TaskAssignment[] {
+    return Array.from(this.assignments.values()).filter(assignment => assignment.recommendationId === recommendationId);
+  }
+
+  // Why the assignment cannot move to the status, or null when it can
+  public checkAssignmentTransition(assignmentId: string, status: TaskAssignmentStatus, context: TransitionContext = {}): string | null {
+    const assignment = this.assignments.get(assignmentId);
+    return assignment
+      ? this.assignmentLifecycle.check(assignment, status, context)
+      : `Assignment ${assignmentId} not found`;
+  }
+
+  // Throws when the move is not allowed; see checkAssignmentTransition
+  public updateAssignmentStatus(assignmentId: string, status: TaskAssignmentStatus, context: TransitionContext = {}): TaskAssignment {
+    const assignment = this.assignments.get(assignmentId);
+    if (!assignment) throw new Error(`Assignment ${assignmentId} not found`);
+    return this.assignmentLifecycle.transition(assignment, status, context);
   }
 
   // Public methods for accessing audit trail and status
@@ -587,4 +1064,12 @@ Gander Maintenance System
       nextAction: 'Awaiting mechanic confirmation'
     };
   }
-} 
\ No newline at end of file
+} 
+
+// Shared workflow, so the job worker runs reminders and escalations with the handlers registered here
+let agenticWorkflow: AgenticMaintenanceWorkflow | null = null;
+
+export function getAgenticWorkflow(): AgenticMaintenanceWorkflow {
+  if (!agenticWorkflow) agenticWorkflow = new AgenticMaintenanceWorkflow();
+  return agenticWorkflow;
+}
@@ -0,0 +1,380 @@
+/**
+ * Airworthiness Directives
+ * Registry logic for ADs and Service Bulletins:
+ * - Applicability by make/model, serial range and installed part number
+ * - One-time and recurring compliance in hours, cycles or calendar, whichever comes first
+ * - Open items become AD/SB maintenance intervals so the due engine and scheduler treat them like checks
+ * - AD status report for inspection records and audits
+ */
+
+import {
+  Aircraft,
+  AirworthinessDirective,
+  DirectiveComplianceLimit,
+  DirectiveComplianceRecord,
+  InstalledComponent,
+  MaintenanceInterval
+} from '@/types';
+import { DueState, UsageForecast, computeMaintenanceDue, describeDueLimit } from './maintenance-due';
+
+export interface DirectiveApplicabilityResult {
+  applicable: boolean;
+  reason: string;
+  component?: InstalledComponent; // installed part that brought the aircraft under the directive
+}
+
+// Sign-off details for a directive
+export interface DirectiveComplianceEntry {
+  methodOfCompliance: string;
+  completedAt: Date;
+  completedHours: number;
+  completedCycles?: number;
+  performedBy?: string;
+  workOrderId?: string;
+  terminating?: boolean; // terminating action on a recurring directive
+  notes?: string;
+}
+
+export interface DirectiveStatusEntry {
+  directiveId: string;
+  type: AirworthinessDirective['type'];
+  number: string;
+  title: string;
+  category: AirworthinessDirective['category'];
+  recurrence: AirworthinessDirective['recurrence'];
+  mandatory: boolean;
+  applicability: string;
+  status: DirectiveComplianceRecord['status'] | 'NO_RECORD';
+  methodOfCompliance?: string;
+  lastCompliance?: { date?: Date; hours?: number; cycles?: number };
+  nextDue?: { date?: Date; hours?: number; cycles?: number };
+  dueStatus?: DueState;
+  remaining: string[];
+}
+
+export interface DirectiveStatusReport {
+  aircraftId: string;
+  tailNumber: string;
+  make: string;
+  model: string;
+  serialNumber: string;
+  totalAircraftTime: number;
+  totalCycles: number;
+  generatedAt: Date;
+  entries: DirectiveStatusEntry[];
+  summary: {
+    applicable: number;
+    open: number;
+    recurring: number;
+    complied: number;
+    overdue: number;
+    dueSoon: number;
+    missingRecords: number;
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DIRECTIVE_TYPES: AirworthinessDirective['type'][] = ['AD', 'SB'];
+const CATEGORIES: AirworthinessDirective['category'][] = ['AIRFRAME', 'ENGINE', 'PROPELLER', 'APPLIANCE'];
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Numeric-aware so "G550-010" follows "G550-009" and "5099" comes before "5100"
+const compareSerials = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+export function serialInRange(serial: string, range: { from?: string; to?: string }): boolean {
+  if (range.from && compareSerials(serial, range.from) < 0) return false;
+  if (range.to && compareSerials(serial, range.to) > 0) return false;
+  return true;
+}
+
+const inAnyRange = (serial: string | undefined, ranges: { from?: string; to?: string }[]) =>
+  !!serial && ranges.some(range => serialInRange(serial, range));
+
+export function checkDirectiveApplicability(
+  directive: AirworthinessDirective,
+  aircraft: Aircraft
+): DirectiveApplicabilityResult {
+  const { make, models, serialRanges, partNumbers } = directive.applicability;
+
+  if (make && !sameText(make, aircraft.make)) {
+    return { applicable: false, reason: `Not applicable to ${aircraft.make}` };
+  }
+  if (models?.length && !models.some(model => sameText(model, aircraft.model))) {
+    return { applicable: false, reason: `Not applicable to model ${aircraft.model}` };
+  }
+
+  // Engine, propeller and appliance directives follow the installed part
+  if (partNumbers?.length) {
+    const installed = (aircraft.installedComponents || [])
+      .filter(component => partNumbers.some(partNumber => sameText(partNumber, component.partNumber)));
+    if (installed.length === 0) {
+      return { applicable: false, reason: `P/N ${partNumbers.join(', ')} not installed` };
+    }
+
+    const component = serialRanges?.length
+      ? installed.find(candidate => inAnyRange(candidate.serialNumber, serialRanges))
+      : installed[0];
+    if (!component) {
+      return { applicable: false, reason: `Installed P/N ${installed[0].partNumber} outside applicable serial range` };
+    }
+    const position = component.position ? ` at ${component.position}` : '';
+    return {
+      applicable: true,
+      reason: `P/N ${component.partNumber} S/N ${component.serialNumber || 'unknown'} installed${position}`,
+      component
+    };
+  }
+
+  if (serialRanges?.length && !inAnyRange(aircraft.serialNumber, serialRanges)) {
+    return { applicable: false, reason: `Airframe S/N ${aircraft.serialNumber} outside applicable range` };
+  }
+  return { applicable: true, reason: `${aircraft.make} ${aircraft.model} S/N ${aircraft.serialNumber}` };
+}
+
+// Check structure before a directive enters the registry; throws listing every problem found
+export function validateDirective(raw: any): AirworthinessDirective {
+  const issues: string[] = [];
+  const hasLimit = (limit: any) =>
+    !!limit && ['hours', 'cycles', 'calendarDays'].some(key => typeof limit[key] === 'number' && limit[key] > 0);
+
+  if (!raw || typeof raw !== 'object') throw new Error('Invalid directive: expected an object');
+  if (!raw.id) issues.push('id is required');
+  if (!DIRECTIVE_TYPES.includes(raw.type)) issues.push('type must be AD or SB');
+  if (!raw.number) issues.push('number is required');
+  if (!raw.title) issues.push('title is required');
+  if (!CATEGORIES.includes(raw.category)) issues.push(`category must be one of ${CATEGORIES.join(', ')}`);
+  if (!raw.effectiveDate || isNaN(new Date(raw.effectiveDate).getTime())) issues.push('effectiveDate must be a date');
+  if (!raw.applicability || typeof raw.applicability !== 'object') issues.push('applicability is required');
+  if (raw.recurrence !== 'ONE_TIME' && raw.recurrence !== 'RECURRING') issues.push('recurrence must be ONE_TIME or RECURRING');
+  if (!hasLimit(raw.initialCompliance)) issues.push('initialCompliance needs hours, cycles or calendarDays');
+  if (raw.recurrence === 'RECURRING' && !hasLimit(raw.repeatInterval)) {
+    issues.push('repeatInterval needs hours, cycles or calendarDays for a recurring directive');
+  }
+
+  if (issues.length > 0) {
+    const label = raw.number || raw.id;
+    throw new Error(`Invalid directive${label ? ` ${label}` : ''}: ${issues.join('; ')}`);
+  }
+
+  return {
+    ...raw,
+    authority: raw.authority || (raw.type === 'AD' ? 'FAA' : 'Manufacturer'),
+    effectiveDate: new Date(raw.effectiveDate),
+    methodsOfCompliance: raw.methodsOfCompliance || [],
+    mandatory: raw.type === 'AD' ? true : !!raw.mandatory,
+    estimatedDowntime: raw.estimatedDowntime ?? 4,
+    estimatedCost: raw.estimatedCost ?? 0
+  };
+}
+
+// Next due points from a baseline: effectivity for initial compliance, the last sign-off for repeats
+function duePointsFrom(
+  limit: DirectiveComplianceLimit | undefined,
+  baselineDate: Date,
+  baselineHours: number,
+  baselineCycles: number
+): Pick<DirectiveComplianceRecord, 'nextDueDate' | 'nextDueHours' | 'nextDueCycles'> {
+  return {
+    nextDueDate: limit?.calendarDays ? new Date(baselineDate.getTime() + limit.calendarDays * DAY_MS) : undefined,
+    nextDueHours: limit?.hours ? baselineHours + limit.hours : undefined,
+    nextDueCycles: limit?.cycles ? baselineCycles + limit.cycles : undefined
+  };
+}
+
+// The calendar clock runs from the effective date. Hours and cycles at effectivity are rarely
+// known when a directive is entered, so they start from the aircraft's current totals.
+export function openDirectiveRecord(
+  directive: AirworthinessDirective,
+  aircraft: Aircraft,
+  asOf: Date = new Date()
+): DirectiveComplianceRecord {
+  return {
+    id: `${aircraft.id}-${directive.id}`,
+    directiveId: directive.id,
+    aircraftId: aircraft.id,
+    status: 'OPEN',
+    ...duePointsFrom(directive.initialCompliance, new Date(directive.effectiveDate), aircraft.totalAircraftTime, aircraft.totalCycles),
+    updatedAt: asOf
+  };
+}
+
+// Open records for applicable directives the aircraft has no record of yet; returns only the new ones
+export function syncDirectiveRecords(
+  aircraft: Aircraft,
+  directives: AirworthinessDirective[],
+  records: DirectiveComplianceRecord[],
+  asOf: Date = new Date()
+): DirectiveComplianceRecord[] {
+  const recorded = new Set(records.filter(r => r.aircraftId === aircraft.id).map(r => r.directiveId));
+  return directives
+    .filter(directive => !directive.supersededBy && !recorded.has(directive.id))
+    .filter(directive => checkDirectiveApplicability(directive, aircraft).applicable)
+    .map(directive => openDirectiveRecord(directive, aircraft, asOf));
+}
+
+// Sign-off: one-time directives close, recurring ones move to the next repeat unless terminated
+export function recordDirectiveCompliance(
+  aircraft: Aircraft,
+  directive: AirworthinessDirective,
+  record: DirectiveComplianceRecord,
+  entry: DirectiveComplianceEntry
+): DirectiveComplianceRecord {
+  const method = entry.methodOfCompliance?.trim();
+  if (!method) {
+    throw new Error(`A method of compliance is required for ${directive.type} ${directive.number}`);
+  }
+  const listed = directive.methodsOfCompliance.some(listedMethod => sameText(listedMethod, method));
+  if (directive.methodsOfCompliance.length > 0 && !listed && !/^AMOC\b/i.test(method)) {
+    throw new Error(
+      `"${method}" is not a listed method of compliance for ${directive.type} ${directive.number}; ` +
+      'prefix an approved alternative method with "AMOC"'
+    );
+  }
+
+  const completedAt = new Date(entry.completedAt);
+  const completedCycles = entry.completedCycles ?? aircraft.totalCycles;
+  const recurring = directive.recurrence === 'RECURRING' && !entry.terminating;
+
+  return {
+    ...record,
+    status: recurring ? 'RECURRING' : entry.terminating ? 'TERMINATED' : 'COMPLIED',
+    methodOfCompliance: method,
+    complianceDate: completedAt,
+    complianceHours: entry.completedHours,
+    complianceCycles: completedCycles,
+    ...(recurring
+      ? duePointsFrom(directive.repeatInterval, completedAt, entry.completedHours, completedCycles)
+      : { nextDueDate: undefined, nextDueHours: undefined, nextDueCycles: undefined }),
+    performedBy: entry.performedBy,
+    workOrderId: entry.workOrderId,
+    notes: entry.notes,
+    updatedAt: new Date()
+  };
+}
+
+const isOpenRecord = (record: DirectiveComplianceRecord) => record.status === 'OPEN' || record.status === 'RECURRING';
+
+// Open and recurring records as AD/SB intervals, described as "<type> <number>: <title>";
+// closed records have nothing left to schedule
+export function directiveToMaintenanceInterval(
+  directive: AirworthinessDirective,
+  record: DirectiveComplianceRecord
+): MaintenanceInterval | null {
+  if (!isOpenRecord(record)) return null;
+  const limits = record.status === 'RECURRING' ? directive.repeatInterval : directive.initialCompliance;
+
+  return {
+    id: `${record.aircraftId}-${directive.id}`,
+    aircraftId: record.aircraftId,
+    intervalType: directive.type,
+    description: `${directive.type} ${directive.number}: ${directive.title}`,
+    directiveId: directive.id,
+    intervalHours: limits?.hours,
+    intervalCycles: limits?.cycles,
+    intervalCalendar: record.nextDueDate ? limits?.calendarDays : undefined,
+    lastCompletedAt: record.complianceDate,
+    lastCompletedHours: record.complianceHours,
+    lastCompletedCycles: record.complianceCycles,
+    nextDueAt: record.nextDueDate ? new Date(record.nextDueDate) : new Date(),
+    nextDueHours: record.nextDueHours ?? 0,
+    nextDueCycles: record.nextDueCycles,
+    isOverdue: false,
+    priority: 'HIGH',
+    estimatedDowntime: directive.estimatedDowntime,
+    estimatedCost: directive.estimatedCost
+  };
+}
+
+// Mandatory directive items due on the aircraft, ready to merge with its program intervals
+export function getDirectiveDueIntervals(
+  aircraft: Aircraft,
+  directives: AirworthinessDirective[],
+  records: DirectiveComplianceRecord[],
+  asOf: Date = new Date()
+): MaintenanceInterval[] {
+  const byId = new Map(directives.map(directive => [directive.id, directive]));
+
+  return records
+    .filter(record => record.aircraftId === aircraft.id)
+    .map(record => ({ directive: byId.get(record.directiveId), record }))
+    .filter(({ directive }) => directive?.mandatory)
+    .map(({ directive, record }) => directiveToMaintenanceInterval(directive, record))
+    .filter(Boolean)
+    .map(interval => {
+      const due = computeMaintenanceDue(aircraft, interval, undefined, asOf);
+      return {
+        ...interval,
+        nextDueAt: interval.intervalCalendar ? interval.nextDueAt : due.dueDate,
+        isOverdue: due.isOverdue,
+        priority: due.isOverdue ? 'CRITICAL' : 'HIGH'
+      };
+    });
+}
+
+// AD status report: every directive that applies to the aircraft or has a determination on record
+export function buildDirectiveStatusReport(
+  aircraft: Aircraft,
+  directives: AirworthinessDirective[],
+  records: DirectiveComplianceRecord[],
+  forecast?: UsageForecast,
+  asOf: Date = new Date()
+): DirectiveStatusReport {
+  const aircraftRecords = records.filter(record => record.aircraftId === aircraft.id);
+  const entries: DirectiveStatusEntry[] = [];
+
+  for (const directive of directives) {
+    const applicability = checkDirectiveApplicability(directive, aircraft);
+    const record = aircraftRecords.find(r => r.directiveId === directive.id);
+    if (!record && (!applicability.applicable || directive.supersededBy)) continue;
+
+    // Without a record the directive is measured as if opened today
+    const tracked = record || openDirectiveRecord(directive, aircraft, asOf);
+    const interval = directiveToMaintenanceInterval(directive, tracked);
+    const due = interval ? computeMaintenanceDue(aircraft, interval, forecast, asOf) : undefined;
+
+    entries.push({
+      directiveId: directive.id,
+      type: directive.type,
+      number: directive.number,
+      title: directive.title,
+      category: directive.category,
+      recurrence: directive.recurrence,
+      mandatory: directive.mandatory,
+      applicability: applicability.reason,
+      status: record ? record.status : 'NO_RECORD',
+      methodOfCompliance: tracked.methodOfCompliance,
+      lastCompliance: tracked.complianceDate
+        ? { date: tracked.complianceDate, hours: tracked.complianceHours, cycles: tracked.complianceCycles }
+        : undefined,
+      nextDue: interval
+        ? { date: tracked.nextDueDate, hours: tracked.nextDueHours, cycles: tracked.nextDueCycles }
+        : undefined,
+      dueStatus: due?.status,
+      remaining: due ? due.limits.map(limit => `${limit.limit.toLowerCase()} limit: ${describeDueLimit(limit)}`) : []
+    });
+  }
+
+  entries.sort((a, b) => a.type.localeCompare(b.type) || compareSerials(a.number, b.number));
+
+  return {
+    aircraftId: aircraft.id,
+    tailNumber: aircraft.tailNumber,
+    make: aircraft.make,
+    model: aircraft.model,
+    serialNumber: aircraft.serialNumber,
+    totalAircraftTime: aircraft.totalAircraftTime,
+    totalCycles: aircraft.totalCycles,
+    generatedAt: asOf,
+    entries,
+    summary: {
+      applicable: entries.filter(entry => entry.status !== 'NOT_APPLICABLE').length,
+      open: entries.filter(entry => entry.status === 'OPEN').length,
+      recurring: entries.filter(entry => entry.status === 'RECURRING').length,
+      complied: entries.filter(entry => entry.status === 'COMPLIED' || entry.status === 'TERMINATED').length,
+      overdue: entries.filter(entry => entry.dueStatus === 'OVERDUE').length,
+      dueSoon: entries.filter(entry => entry.dueStatus === 'DUE_SOON' || entry.dueStatus === 'IN_TOLERANCE').length,
+      missingRecords: entries.filter(entry => entry.status === 'NO_RECORD').length
+    }
+  };
+}
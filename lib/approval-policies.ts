@@ -0,0 +1,365 @@
+/**
+ * Approval Policies
+ * Who has to approve an AI maintenance recommendation before its workflow starts.
+ * - Policies come from data/approval-policies.json; the first one matching the recommendation applies
+ * - Each requirement names approval roles and a quorum of distinct people who must approve in them
+ * - Approvals lapse after the policy's validity period unless every quorum was met first
+ * - A role holder can delegate their approval role to someone else until a given time
+ * - A policy can auto-approve work within cost and downtime limits (AOG items)
+ */
+
+import { ApprovalRole, MaintenanceUser } from '@/types';
+import type { MaintenanceRecommendation } from './agentic-workflow';
+import { APPROVAL_ROLES, APPROVAL_ROLE_LABELS, findPerson } from './personnel';
+import policyData from '@/data/approval-policies.json';
+
+export interface ApprovalRequirement {
+  roles: ApprovalRole[]; // any of these roles counts
+  quorum: number;        // distinct people needed
+}
+
+export interface ApprovalPolicy {
+  id: string;
+  name: string;
+  description?: string;
+  match: {
+    maintenanceTypes?: string[];
+    minEstimatedCost?: number;
+    urgency?: MaintenanceRecommendation['urgency'][];
+  };
+  requirements: ApprovalRequirement[];
+  approvalValidityHours: number;
+  autoApprove?: {
+    maxEstimatedCost: number;
+    maxDowntimeHours: number;
+  };
+}
+
+export interface ApprovalRecord {
+  approverId: string;
+  approverName: string;
+  role: ApprovalRole;
+  onBehalfOf?: string; // delegator, when approving under a delegated role
+  rationale: string;
+  approvedAt: Date;
+  expiresAt: Date;
+}
+
+export interface ApprovalDelegation {
+  id: string;
+  fromId: string;
+  fromName: string;
+  toId: string;
+  toName: string;
+  role: ApprovalRole;
+  validFrom: Date;
+  validUntil: Date;
+  reason?: string;
+}
+
+export interface OutstandingApproval {
+  roles: ApprovalRole[];
+  needed: number;
+  description: string;
+}
+
+export interface ApprovalStatus {
+  recommendationId: string;
+  policyId: string;
+  policyName: string;
+  approved: boolean;
+  autoApproved: boolean;
+  approvedAt?: Date;
+  approvals: ApprovalRecord[]; // still valid
+  expired: ApprovalRecord[];
+  outstanding: OutstandingApproval[];
+}
+
+export type ApprovableRecommendation = Pick<
+  MaintenanceRecommendation,
+  'id' | 'maintenanceType' | 'estimatedCost' | 'estimatedDowntime' | 'urgency'
+>;
+
+const isString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+const isPositive = (value: unknown): value is number => typeof value === 'number' && isFinite(value) && value > 0;
+const HOUR_MS = 60 * 60 * 1000;
+
+export const describeRoles = (roles: ApprovalRole[]) => roles.map(role => APPROVAL_ROLE_LABELS[role]).join(' or ');
+
+// Check structure; throws listing every problem found
+export function validateApprovalPolicies(raw: any, source = 'approval policies'): ApprovalPolicy[] {
+  const issues: string[] = [];
+  const policies: any[] = Array.isArray(raw?.policies) ? raw.policies : [];
+  if (policies.length === 0) issues.push('policies must define at least one policy');
+
+  const ids = new Set<string>();
+  policies.forEach((policy, index) => {
+    const path = `policies[${index}]`;
+    if (!isString(policy?.id)) return issues.push(`${path}.id is required`);
+    if (ids.has(policy.id)) issues.push(`${path}.id "${policy.id}" is duplicated`);
+    ids.add(policy.id);
+    if (!isString(policy.name)) issues.push(`${path}.name is required`);
+    if (!policy.match || typeof policy.match !== 'object') issues.push(`${path}.match must be an object ({} matches everything)`);
+    if (policy.match?.minEstimatedCost !== undefined && !isPositive(policy.match.minEstimatedCost)) {
+      issues.push(`${path}.match.minEstimatedCost must be a positive number`);
+    }
+    if (!isPositive(policy.approvalValidityHours)) issues.push(`${path}.approvalValidityHours must be a positive number`);
+
+    const requirements: any[] = Array.isArray(policy.requirements) ? policy.requirements : [];
+    if (requirements.length === 0) issues.push(`${path}.requirements must list at least one requirement`);
+    requirements.forEach((requirement, requirementIndex) => {
+      const requirementPath = `${path}.requirements[${requirementIndex}]`;
+      if (!Array.isArray(requirement?.roles) || requirement.roles.length === 0) {
+        return issues.push(`${requirementPath}.roles must list at least one role`);
+      }
+      requirement.roles
+        .filter((role: string) => !APPROVAL_ROLES.includes(role as ApprovalRole))
+        .forEach((role: string) => issues.push(`${requirementPath}.roles has unknown role ${role}`));
+      if (!Number.isInteger(requirement.quorum) || requirement.quorum < 1) {
+        issues.push(`${requirementPath}.quorum must be a whole number of at least 1`);
+      }
+    });
+
+    if (policy.autoApprove !== undefined &&
+        !(isPositive(policy.autoApprove?.maxEstimatedCost) && isPositive(policy.autoApprove?.maxDowntimeHours))) {
+      issues.push(`${path}.autoApprove needs positive maxEstimatedCost and maxDowntimeHours`);
+    }
+  });
+
+  if (issues.length > 0) {
+    throw new Error(`Invalid ${source}: ${issues.join('; ')}`);
+  }
+  return policies as ApprovalPolicy[];
+}
+
+export const DEFAULT_APPROVAL_POLICIES = validateApprovalPolicies(policyData, 'approval-policies.json');
+
+function matchesPolicy(policy: ApprovalPolicy, recommendation: ApprovableRecommendation): boolean {
+  const { maintenanceTypes, minEstimatedCost, urgency } = policy.match;
+  return (!maintenanceTypes || maintenanceTypes.includes(recommendation.maintenanceType)) &&
+    (minEstimatedCost === undefined || (recommendation.estimatedCost || 0) > minEstimatedCost) &&
+    (!urgency || urgency.includes(recommendation.urgency));
+}
+
+export function findApprovalPolicy(
+  recommendation: ApprovableRecommendation,
+  policies: ApprovalPolicy[] = DEFAULT_APPROVAL_POLICIES
+): ApprovalPolicy | undefined {
+  return policies.find(policy => matchesPolicy(policy, recommendation));
+}
+
+export function canAutoApprove(policy: ApprovalPolicy, recommendation: ApprovableRecommendation): boolean {
+  return !!policy.autoApprove &&
+    (recommendation.estimatedCost || 0) <= policy.autoApprove.maxEstimatedCost &&
+    (recommendation.estimatedDowntime || 0) <= policy.autoApprove.maxDowntimeHours;
+}
+
+// Seats left per requirement after seating as many approvals as possible; a seated approval moves to another
+// requirement when that frees a seat for the next (augmenting paths), so arrival order never leaves a quorum short
+function remainingQuorums(requirements: ApprovalRequirement[], roles: ApprovalRole[]): number[] {
+  const seats: number[] = []; // requirement index of each seat
+  requirements.forEach((requirement, index) => {
+    for (let i = 0; i < requirement.quorum; i++) seats.push(index);
+  });
+  const holders: (number | undefined)[] = seats.map(() => undefined); // approval seated in each seat
+
+  const seat = (approval: number, tried: Set<number>): boolean => {
+    for (let candidate = 0; candidate < seats.length; candidate++) {
+      if (tried.has(candidate) || !requirements[seats[candidate]].roles.includes(roles[approval])) continue;
+      tried.add(candidate);
+      const holder = holders[candidate];
+      if (holder === undefined || seat(holder, tried)) {
+        holders[candidate] = approval;
+        return true;
+      }
+    }
+    return false;
+  };
+  roles.forEach((_, approval) => seat(approval, new Set()));
+
+  return requirements.map((_, index) => seats.filter((requirement, i) => requirement === index && holders[i] === undefined).length);
+}
+
+const seatsLeft = (policy: ApprovalPolicy, roles: ApprovalRole[]) =>
+  remainingQuorums(policy.requirements, roles).reduce((sum, remaining) => sum + remaining, 0);
+
+// Each valid approval counts once, toward one requirement that accepts its role
+export function evaluateApprovals(policy: ApprovalPolicy, approvals: ApprovalRecord[], now: Date) {
+  const valid = approvals.filter(approval => approval.expiresAt > now);
+  const expired = approvals.filter(approval => approval.expiresAt <= now);
+  const remaining = remainingQuorums(policy.requirements, valid.map(approval => approval.role));
+
+  const outstanding: OutstandingApproval[] = policy.requirements
+    .map((requirement, index) => ({
+      roles: requirement.roles,
+      needed: remaining[index],
+      description: `${remaining[index]} more from ${describeRoles(requirement.roles)}`
+    }))
+    .filter(requirement => requirement.needed > 0);
+
+  return { valid, expired, outstanding };
+}
+
+interface ApprovalRequest {
+  policy: ApprovalPolicy;
+  approvals: ApprovalRecord[];
+  approvedAt?: Date;
+  autoApproved: boolean;
+}
+
+export class ApprovalTracker {
+  private requests = new Map<string, ApprovalRequest>();
+  private delegations: ApprovalDelegation[] = [];
+
+  constructor(
+    private policies: ApprovalPolicy[] = DEFAULT_APPROVAL_POLICIES,
+    private lookupPerson: (reference: string) => MaintenanceUser | undefined = findPerson
+  ) {}
+
+  listPolicies(): ApprovalPolicy[] {
+    return this.policies;
+  }
+
+  // The policy is fixed when a recommendation is first looked at, so edits to it can't move the goalposts
+  private getRequest(recommendation: ApprovableRecommendation): ApprovalRequest | undefined {
+    let request = this.requests.get(recommendation.id);
+    if (!request) {
+      const policy = findApprovalPolicy(recommendation, this.policies);
+      if (!policy) return undefined;
+      request = { policy, approvals: [], autoApproved: false };
+      this.requests.set(recommendation.id, request);
+    }
+    return request;
+  }
+
+  getStatus(recommendation: ApprovableRecommendation, now: Date = new Date()): ApprovalStatus | undefined {
+    const request = this.getRequest(recommendation);
+    if (!request) return undefined;
+
+    const { valid, expired, outstanding } = evaluateApprovals(request.policy, request.approvals, now);
+    const approved = !!request.approvedAt;
+    return {
+      recommendationId: recommendation.id,
+      policyId: request.policy.id,
+      policyName: request.policy.name,
+      approved,
+      autoApproved: request.autoApproved,
+      approvedAt: request.approvedAt,
+      // Once approved, the approvals that made the quorum stand regardless of later expiry
+      approvals: approved ? request.approvals : valid,
+      expired: approved ? [] : expired,
+      outstanding: approved ? [] : outstanding
+    };
+  }
+
+  isApproved(recommendationId: string): boolean {
+    return !!this.requests.get(recommendationId)?.approvedAt;
+  }
+
+  // Roles a person can approve in right now: their own, then any delegated to them
+  rolesOf(person: MaintenanceUser, now: Date = new Date()): { role: ApprovalRole; onBehalfOf?: string }[] {
+    return (person.approvalRoles || [])
+      .map(role => ({ role, onBehalfOf: undefined as string | undefined }))
+      .concat(this.listDelegations(now)
+        .filter(delegation => delegation.toId === person.id)
+        .map(delegation => ({ role: delegation.role, onBehalfOf: delegation.fromName })));
+  }
+
+  // Record one person's approval; the rejection says why it was not counted
+  approve(
+    recommendation: ApprovableRecommendation,
+    approverReference: string,
+    rationale: string,
+    now: Date = new Date()
+  ): { status?: ApprovalStatus; record?: ApprovalRecord; rejection?: string } {
+    const request = this.getRequest(recommendation);
+    if (!request) return { rejection: `No approval policy covers recommendation ${recommendation.id}` };
+    if (request.approvedAt) return { status: this.getStatus(recommendation, now), rejection: `Recommendation ${recommendation.id} is already approved` };
+
+    const person = this.lookupPerson(approverReference);
+    if (!person) return { rejection: `${approverReference} is not on the personnel roster` };
+    if (!person.isActive) return { rejection: `${person.name} is not an active approver` };
+    if (!isString(rationale)) return { rejection: 'A rationale is required with every approval' };
+
+    const { valid, outstanding } = evaluateApprovals(request.policy, request.approvals, now);
+    if (valid.some(approval => approval.approverId === person.id)) {
+      return { rejection: `${person.name} has already approved recommendation ${recommendation.id}` };
+    }
+
+    // A role counts when it fills a seat, even one that only frees up by moving an earlier approval aside
+    const roles = this.rolesOf(person, now);
+    const approvedRoles = valid.map(approval => approval.role);
+    const seat = roles.find(({ role }) => seatsLeft(request.policy, approvedRoles.concat(role)) < seatsLeft(request.policy, approvedRoles));
+    if (!seat) {
+      const needed = outstanding.map(requirement => requirement.description).join('; ');
+      return {
+        rejection: roles.length === 0
+          ? `${person.name} has no maintenance approval authority (the ${request.policy.name} policy needs ${needed})`
+          : `${person.name} (${describeRoles(roles.map(({ role }) => role))}) cannot approve under the ${request.policy.name} policy, which still needs ${needed}`
+      };
+    }
+
+    const record: ApprovalRecord = {
+      approverId: person.id,
+      approverName: person.name,
+      role: seat.role,
+      onBehalfOf: seat.onBehalfOf,
+      rationale: rationale.trim(),
+      approvedAt: now,
+      expiresAt: new Date(now.getTime() + request.policy.approvalValidityHours * HOUR_MS)
+    };
+    request.approvals = valid.concat(record); // lapsed approvals have to be given again
+    if (evaluateApprovals(request.policy, request.approvals, now).outstanding.length === 0) {
+      request.approvedAt = now;
+    }
+    return { status: this.getStatus(recommendation, now), record };
+  }
+
+  // Approve without people when the policy allows it and the work is within its limits
+  autoApprove(recommendation: ApprovableRecommendation, now: Date = new Date()): ApprovalStatus | undefined {
+    const request = this.getRequest(recommendation);
+    if (!request || request.approvedAt || !canAutoApprove(request.policy, recommendation)) return undefined;
+
+    request.autoApproved = true;
+    request.approvedAt = now;
+    return this.getStatus(recommendation, now);
+  }
+
+  delegate(
+    fromReference: string,
+    toReference: string,
+    role: ApprovalRole,
+    validUntil: Date,
+    reason?: string,
+    now: Date = new Date()
+  ): { delegation?: ApprovalDelegation; rejection?: string } {
+    const from = this.lookupPerson(fromReference);
+    const to = this.lookupPerson(toReference);
+    if (!from) return { rejection: `${fromReference} is not on the personnel roster` };
+    if (!to) return { rejection: `${toReference} is not on the personnel roster` };
+    if (from.id === to.id) return { rejection: 'An approval role cannot be delegated to oneself' };
+    if (!to.isActive) return { rejection: `${to.name} is not active` };
+    if (!(from.approvalRoles || []).includes(role)) {
+      return { rejection: `${from.name} does not hold the ${APPROVAL_ROLE_LABELS[role] || role} role` };
+    }
+    if (isNaN(validUntil.getTime()) || validUntil <= now) return { rejection: 'validUntil must be a future date' };
+
+    const delegation: ApprovalDelegation = {
+      id: `delegation-${from.id}-${role}-${now.getTime()}`,
+      fromId: from.id,
+      fromName: from.name,
+      toId: to.id,
+      toName: to.name,
+      role,
+      validFrom: now,
+      validUntil,
+      reason
+    };
+    this.delegations.push(delegation);
+    return { delegation };
+  }
+
+  listDelegations(now: Date = new Date()): ApprovalDelegation[] {
+    return this.delegations.filter(delegation => delegation.validFrom <= now && delegation.validUntil > now);
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Audit Trail Store
+ * Persisted audit entries, so jobs run by any worker (the daily digest) see what every instance logged.
+ * - Supabase `audit_trail` table when configured, otherwise in memory
+ * - Entries are append-only
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from './supabase';
+import type { AuditTrailEntry } from './agentic-workflow';
+
+export interface AuditTrailFilter {
+  since?: Date; // entries logged after this time
+  complianceRelevant?: boolean;
+}
+
+export interface AuditTrailStore {
+  append(entry: AuditTrailEntry): Promise<void>;
+  // Oldest first
+  listEntries(filter?: AuditTrailFilter): Promise<AuditTrailEntry[]>;
+}
+
+type AuditTrailRow = Database['public']['Tables']['audit_trail']['Row'];
+
+export function mapAuditTrailRow(row: AuditTrailRow): AuditTrailEntry {
+  return {
+    id: row.id,
+    timestamp: new Date(row.timestamp),
+    action: row.action,
+    actor: row.actor,
+    actorType: row.actor_type as AuditTrailEntry['actorType'],
+    details: row.details,
+    dataChanges: row.data_changes ?? undefined,
+    ipAddress: row.ip_address ?? undefined,
+    sessionId: row.session_id ?? undefined,
+    complianceRelevant: row.compliance_relevant
+  };
+}
+
+export function toAuditTrailRow(entry: AuditTrailEntry): AuditTrailRow {
+  return {
+    id: entry.id,
+    timestamp: new Date(entry.timestamp).toISOString(),
+    action: entry.action,
+    actor: entry.actor,
+    actor_type: entry.actorType,
+    details: entry.details,
+    data_changes: entry.dataChanges ?? null,
+    ip_address: entry.ipAddress ?? null,
+    session_id: entry.sessionId ?? null,
+    compliance_relevant: entry.complianceRelevant
+  };
+}
+
+export class SupabaseAuditTrailStore implements AuditTrailStore {
+  constructor(private client: SupabaseClient) {}
+
+  async append(entry: AuditTrailEntry): Promise<void> {
+    const { error } = await this.client.from('audit_trail').insert(toAuditTrailRow(entry));
+    if (error) throw new Error(`Failed to save audit entry ${entry.id}: ${error.message}`);
+  }
+
+  async listEntries(filter: AuditTrailFilter = {}): Promise<AuditTrailEntry[]> {
+    let query = this.client.from('audit_trail').select('*');
+    if (filter.since) query = query.gt('timestamp', filter.since.toISOString());
+    if (filter.complianceRelevant !== undefined) query = query.eq('compliance_relevant', filter.complianceRelevant);
+
+    const { data, error } = await query.order('timestamp');
+    if (error) throw new Error(`Failed to load audit trail: ${error.message}`);
+    return (data as AuditTrailRow[]).map(mapAuditTrailRow);
+  }
+}
+
+// In-memory implementation (local development and tests)
+export class InMemoryAuditTrailStore implements AuditTrailStore {
+  private entries: AuditTrailEntry[] = [];
+
+  async append(entry: AuditTrailEntry): Promise<void> {
+    this.entries.push({ ...entry });
+  }
+
+  async listEntries(filter: AuditTrailFilter = {}): Promise<AuditTrailEntry[]> {
+    return this.entries
+      .filter(entry => (!filter.since || entry.timestamp > filter.since) &&
+        (filter.complianceRelevant === undefined || entry.complianceRelevant === filter.complianceRelevant))
+      .map(entry => ({ ...entry }))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+}
+
+// Store selection: Supabase when configured, otherwise in memory
+let auditTrailStore: AuditTrailStore | null = null;
+
+export async function getAuditTrailStore(): Promise<AuditTrailStore> {
+  if (auditTrailStore) return auditTrailStore;
+
+  if (process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY && process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    // Imported lazily: lib/supabase throws when its environment variables are missing
+    const { supabaseAdmin } = await import('./supabase');
+    auditTrailStore = new SupabaseAuditTrailStore(supabaseAdmin);
+  } else {
+    console.log('🗄️  Supabase not configured, using in-memory audit trail store');
+    auditTrailStore = new InMemoryAuditTrailStore();
+  }
+
+  return auditTrailStore;
+}
+
+// Allows tests and scripts to swap in their own implementation
+export function setAuditTrailStore(store: AuditTrailStore | null): void {
+  auditTrailStore = store;
+}
@@ -0,0 +1,172 @@
+/**
+ * Compliance Rule Engine
+ * Evaluates an aircraft against pluggable FAR rule modules.
+ * - Each rule reads aircraft state, maintenance intervals and records and returns ComplianceItems
+ * - Items carry their status and the evidence they were based on, for the dashboard and audit trail
+ * - A failing rule is reported as an item rather than failing the whole evaluation
+ */
+
+import {
+  Aircraft,
+  AirworthinessDirective,
+  ComplianceEvidence,
+  ComplianceItem,
+  DirectiveComplianceRecord,
+  MaintenanceInterval,
+  WorkOrder
+} from '@/types';
+import { UsageForecast, computeMaintenanceDue, describeDueLimit } from '../maintenance-due';
+
+export interface ComplianceContext {
+  aircraft: Aircraft;
+  intervals: MaintenanceInterval[];      // this aircraft's intervals only
+  workOrders: WorkOrder[];
+  directives: AirworthinessDirective[];
+  directiveRecords: DirectiveComplianceRecord[];
+  forecast?: UsageForecast;
+  asOf: Date;
+}
+
+// Records available to the engine; anything omitted is treated as no records
+export type ComplianceRecords = Partial<Omit<ComplianceContext, 'aircraft' | 'asOf'>>;
+
+export interface ComplianceRule {
+  id: string; // e.g. far-135-411
+  regulation: string;
+  regulationType: ComplianceItem['regulationType'];
+  title: string;
+  responsible: string;
+  evaluate(context: ComplianceContext): ComplianceItem[];
+}
+
+export interface ComplianceReport {
+  aircraftId: string;
+  tailNumber: string;
+  evaluatedAt: Date;
+  compliant: boolean; // nothing overdue or missing a record
+  items: ComplianceItem[];
+  issues: string[];
+  summary: {
+    total: number;
+    current: number;
+    dueSoon: number;
+    overdue: number;
+    noRecord: number;
+  };
+}
+
+const formatDate = (date: Date) => new Date(date).toISOString().slice(0, 10);
+
+// Calendar-month rules run to the end of the last month, e.g. 12 months from 15 Jan is 31 Jan next year
+export function endOfCalendarMonths(from: Date, months: number): Date {
+  const date = new Date(from);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months + 1, 0, 23, 59, 59));
+}
+
+// Base item for a rule; the id is stable so repeated evaluations can be compared
+export function complianceItem(
+  rule: ComplianceRule,
+  context: ComplianceContext,
+  key: string,
+  fields: Pick<ComplianceItem, 'description' | 'status'> & Partial<ComplianceItem>
+): ComplianceItem {
+  return {
+    id: `${context.aircraft.id}-${rule.id}-${key}`,
+    aircraftId: context.aircraft.id,
+    ruleId: rule.id,
+    regulationType: rule.regulationType,
+    regulation: rule.regulation,
+    responsible: rule.responsible,
+    evidence: [],
+    ...fields
+  };
+}
+
+export function intervalEvidence(interval: MaintenanceInterval): ComplianceEvidence {
+  const hours = interval.lastCompletedHours !== undefined ? ` at ${interval.lastCompletedHours} h` : '';
+  return {
+    source: 'INTERVAL',
+    reference: interval.id,
+    description: interval.lastCompletedAt
+      ? `${interval.description} last completed ${formatDate(interval.lastCompletedAt)}${hours}`
+      : `${interval.description} has no completion on record`,
+    date: interval.lastCompletedAt
+  };
+}
+
+// Status of a tracked inspection from its due limits; inspections inside their tolerance are still legal
+export function intervalComplianceItem(
+  rule: ComplianceRule,
+  context: ComplianceContext,
+  interval: MaintenanceInterval
+): ComplianceItem {
+  const due = computeMaintenanceDue(context.aircraft, interval, context.forecast, context.asOf);
+  const margins = due.limits.map(describeDueLimit).join('; ');
+
+  return complianceItem(rule, context, interval.id, {
+    description: interval.description,
+    status: due.status === 'OVERDUE' ? 'OVERDUE' : due.status === 'CURRENT' ? 'CURRENT' : 'DUE_SOON',
+    dueDate: due.dueDate,
+    completedDate: interval.lastCompletedAt,
+    recurrenceInterval: interval.intervalCalendar,
+    evidence: [intervalEvidence(interval)],
+    notes: due.status === 'IN_TOLERANCE' ? `Within tolerance: ${margins}` : margins || undefined
+  });
+}
+
+export function findIntervals(context: ComplianceContext, ...types: MaintenanceInterval['intervalType'][]) {
+  return context.intervals.filter(interval => types.includes(interval.intervalType));
+}
+
+function describeIssue(item: ComplianceItem): string {
+  const finding = item.status === 'OVERDUE' ? 'overdue' : 'has no compliance record';
+  return `${item.description} ${finding} per FAR ${item.regulation}${item.notes ? ` (${item.notes})` : ''}`;
+}
+
+// Run every rule against one aircraft
+export function evaluateCompliance(
+  aircraft: Aircraft,
+  records: ComplianceRecords,
+  rules: ComplianceRule[],
+  asOf: Date = new Date()
+): ComplianceReport {
+  const context: ComplianceContext = {
+    aircraft,
+    intervals: (records.intervals || []).filter(interval => interval.aircraftId === aircraft.id),
+    workOrders: (records.workOrders || []).filter(workOrder => workOrder.aircraftId === aircraft.id),
+    directives: records.directives || [],
+    directiveRecords: (records.directiveRecords || []).filter(record => record.aircraftId === aircraft.id),
+    forecast: records.forecast,
+    asOf
+  };
+
+  const items = rules.flatMap(rule => {
+    try {
+      return rule.evaluate(context);
+    } catch (error) {
+      console.error(`Compliance rule ${rule.id} failed for ${aircraft.tailNumber}:`, error);
+      return [complianceItem(rule, context, 'error', {
+        description: rule.title,
+        status: 'NO_RECORD',
+        notes: `Rule could not be evaluated: ${error instanceof Error ? error.message : String(error)}`
+      })];
+    }
+  });
+  const findings = items.filter(item => item.status === 'OVERDUE' || item.status === 'NO_RECORD');
+
+  return {
+    aircraftId: aircraft.id,
+    tailNumber: aircraft.tailNumber,
+    evaluatedAt: asOf,
+    compliant: findings.length === 0,
+    items,
+    issues: findings.map(describeIssue),
+    summary: {
+      total: items.length,
+      current: items.filter(item => item.status === 'CURRENT' || item.status === 'COMPLETED').length,
+      dueSoon: items.filter(item => item.status === 'DUE_SOON').length,
+      overdue: items.filter(item => item.status === 'OVERDUE').length,
+      noRecord: items.filter(item => item.status === 'NO_RECORD').length
+    }
+  };
+}
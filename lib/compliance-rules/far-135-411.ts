@@ -0,0 +1,57 @@
+/**
+ * FAR 135.411 - Applicability of the inspection program rules
+ * Aircraft with nine or fewer passenger seats are inspected under FAR 91.409; ten or more
+ * need an approved aircraft inspection program (AAIP) under FAR 135.419.
+ */
+
+import { Aircraft, MaintenanceInterval } from '@/types';
+import { ComplianceRule, complianceItem, findIntervals, intervalEvidence } from './engine';
+
+export const AAIP_INTERVAL_TYPES: MaintenanceInterval['intervalType'][] = [
+  'A_CHECK', '2A_CHECK', '3A_CHECK', '4A_CHECK', '5A_CHECK', '10A_CHECK',
+  'C_CHECK', '2C_CHECK', '3C_CHECK', '4C_CHECK', '5C_CHECK', '6C_CHECK', '8C_CHECK', 'PROGRESSIVE'
+];
+const PART_91_INTERVAL_TYPES: MaintenanceInterval['intervalType'][] = ['100_HOUR', 'ANNUAL'];
+
+export const requiresApprovedProgram = (aircraft: Aircraft) =>
+  aircraft.passengerSeats !== undefined && aircraft.passengerSeats >= 10;
+
+export const far135411: ComplianceRule = {
+  id: 'far-135-411',
+  regulation: '135.411',
+  regulationType: 'PART_135',
+  title: 'Inspection program applicability',
+  responsible: 'Director of Maintenance',
+  evaluate(context) {
+    const { aircraft } = context;
+    if (aircraft.passengerSeats === undefined) {
+      return [complianceItem(far135411, context, 'program', {
+        description: 'Inspection program',
+        status: 'NO_RECORD',
+        notes: 'Passenger seating configuration not recorded, so 135.411(a)(1) or (a)(2) cannot be determined'
+      })];
+    }
+
+    const aaip = requiresApprovedProgram(aircraft);
+    const seating = {
+      source: 'AIRCRAFT' as const,
+      reference: aircraft.id,
+      description: `${aircraft.tailNumber} configured for ${aircraft.passengerSeats} passenger seats`
+    };
+
+    // (a)(2) needs an approved program of any shape; (a)(1) needs both FAR 91.409 inspections
+    const tracked = findIntervals(context, ...(aaip ? AAIP_INTERVAL_TYPES : PART_91_INTERVAL_TYPES));
+    const missing = aaip
+      ? (tracked.length === 0 ? ['approved inspection program checks'] : [])
+      : PART_91_INTERVAL_TYPES.filter(type => !tracked.some(interval => interval.intervalType === type));
+
+    return [complianceItem(far135411, context, 'program', {
+      description: aaip
+        ? 'Approved aircraft inspection program (135.411(a)(2))'
+        : 'FAR 91.409 inspections (135.411(a)(1))',
+      status: missing.length === 0 ? 'CURRENT' : 'NO_RECORD',
+      evidence: [seating, ...tracked.map(intervalEvidence)],
+      notes: missing.length > 0 ? `Not tracked: ${missing.join(', ')}` : undefined
+    })];
+  }
+};
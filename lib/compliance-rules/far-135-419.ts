@@ -0,0 +1,20 @@
+/**
+ * FAR 135.419 - Approved aircraft inspection program
+ * Every check in the AAIP of an aircraft with ten or more passenger seats must be current.
+ */
+
+import { ComplianceRule, findIntervals, intervalComplianceItem } from './engine';
+import { AAIP_INTERVAL_TYPES, requiresApprovedProgram } from './far-135-411';
+
+export const far135419: ComplianceRule = {
+  id: 'far-135-419',
+  regulation: '135.419',
+  regulationType: 'PART_135',
+  title: 'Approved aircraft inspection program',
+  responsible: 'Director of Maintenance',
+  evaluate(context) {
+    // A missing program is reported by the 135.411 rule
+    if (!requiresApprovedProgram(context.aircraft)) return [];
+    return findIntervals(context, ...AAIP_INTERVAL_TYPES).map(interval => intervalComplianceItem(far135419, context, interval));
+  }
+};
@@ -0,0 +1,47 @@
+/**
+ * FAR 39.7 - Airworthiness directive compliance
+ * No aircraft may operate with an applicable AD it does not meet. Directives without any
+ * compliance record are reported by the 91.417 rule.
+ */
+
+import { ComplianceItem } from '@/types';
+import { buildDirectiveStatusReport } from '../airworthiness-directives';
+import { ComplianceRule, complianceItem } from './engine';
+
+export const far397: ComplianceRule = {
+  id: 'far-39-7',
+  regulation: '39.7',
+  regulationType: 'PART_39',
+  title: 'Airworthiness directive compliance',
+  responsible: 'Director of Maintenance',
+  evaluate(context) {
+    const { aircraft, directives, directiveRecords, forecast, asOf } = context;
+
+    return buildDirectiveStatusReport(aircraft, directives, directiveRecords, forecast, asOf).entries
+      .filter(entry => entry.mandatory && entry.status !== 'NO_RECORD')
+      .map(entry => {
+        const record = directiveRecords.find(r => r.directiveId === entry.directiveId);
+        const status: ComplianceItem['status'] =
+          entry.status === 'COMPLIED' || entry.status === 'TERMINATED' ? 'COMPLETED'
+          : entry.dueStatus === 'OVERDUE' ? 'OVERDUE'
+          : entry.dueStatus === 'DUE_SOON' || entry.dueStatus === 'IN_TOLERANCE' ? 'DUE_SOON'
+          : 'CURRENT';
+
+        return complianceItem(far397, context, entry.directiveId, {
+          description: `${entry.type} ${entry.number}: ${entry.title}`,
+          status,
+          dueDate: entry.nextDue?.date,
+          completedDate: entry.lastCompliance?.date,
+          evidence: record ? [{
+            source: 'DIRECTIVE_RECORD',
+            reference: record.id,
+            description: record.methodOfCompliance
+              ? `${entry.status.toLowerCase()} by ${record.methodOfCompliance}`
+              : `Compliance record ${entry.status.toLowerCase()}`,
+            date: record.complianceDate
+          }] : [],
+          notes: entry.remaining.join('; ') || undefined
+        });
+      });
+  }
+};
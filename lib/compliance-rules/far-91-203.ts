@@ -0,0 +1,26 @@
+/**
+ * FAR 91.203 - Civil aircraft certifications required
+ * An airworthiness certificate must be on record for the aircraft.
+ */
+
+import { ComplianceRule, complianceItem } from './engine';
+
+export const far91203: ComplianceRule = {
+  id: 'far-91-203',
+  regulation: '91.203',
+  regulationType: 'PART_91',
+  title: 'Airworthiness certificate',
+  responsible: 'Director of Maintenance',
+  evaluate(context) {
+    const { aircraft } = context;
+    return [complianceItem(far91203, context, 'certificate', {
+      description: 'Certificate of Airworthiness',
+      status: aircraft.certificateOfAirworthiness ? 'CURRENT' : 'NO_RECORD',
+      evidence: aircraft.certificateOfAirworthiness ? [{
+        source: 'AIRCRAFT',
+        reference: aircraft.id,
+        description: aircraft.certificateOfAirworthiness
+      }] : []
+    })];
+  }
+};
@@ -0,0 +1,63 @@
+/**
+ * FAR 91.207 - Emergency locator transmitters
+ * The ELT must be inspected within the preceding 12 calendar months under 91.207(d), and its
+ * battery replaced by the date marked on the transmitter under 91.207(c).
+ */
+
+import { ComplianceRule, complianceItem, findIntervals, intervalComplianceItem } from './engine';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BATTERY_DUE_SOON_DAYS = 30;
+
+const isElt = (description?: string, position?: string) =>
+  position === 'ELT' || /emergency locator|\bELT\b/i.test(description || '');
+
+export const far91207: ComplianceRule = {
+  id: 'far-91-207',
+  regulation: '91.207',
+  regulationType: 'PART_91',
+  title: 'Emergency locator transmitter',
+  responsible: 'Director of Maintenance',
+  evaluate(context) {
+    const { aircraft, asOf } = context;
+    const elt = (aircraft.installedComponents || []).find(component => isElt(component.description, component.position));
+    const installed = elt ? [{
+      source: 'AIRCRAFT' as const,
+      reference: aircraft.id,
+      description: `ELT P/N ${elt.partNumber}${elt.serialNumber ? ` S/N ${elt.serialNumber}` : ''} installed`
+    }] : [];
+
+    const inspections = findIntervals(context, 'ELT');
+    const items = inspections.length > 0
+      ? inspections.map(interval => intervalComplianceItem(far91207, context, interval))
+      : [complianceItem(far91207, context, 'elt', {
+          description: 'ELT Inspection',
+          status: 'NO_RECORD',
+          evidence: installed,
+          notes: elt ? 'ELT installed but its 12-month inspection is not tracked' : 'No ELT or ELT inspection on record'
+        })];
+    if (!elt) return items;
+
+    // Installed components round-trip through JSON, so the date may arrive as a string
+    if (!elt.batteryExpiresAt) {
+      items.push(complianceItem(far91207, context, 'elt-battery', {
+        description: 'ELT Battery Replacement',
+        status: 'NO_RECORD',
+        evidence: installed,
+        notes: 'Battery replacement date not recorded'
+      }));
+      return items;
+    }
+
+    const dueDate = new Date(elt.batteryExpiresAt);
+    const daysLeft = Math.floor((dueDate.getTime() - asOf.getTime()) / DAY_MS);
+    items.push(complianceItem(far91207, context, 'elt-battery', {
+      description: 'ELT Battery Replacement',
+      status: daysLeft < 0 ? 'OVERDUE' : daysLeft <= BATTERY_DUE_SOON_DAYS ? 'DUE_SOON' : 'CURRENT',
+      dueDate,
+      evidence: [{ ...installed[0], description: `${installed[0].description}, battery due ${dueDate.toISOString().slice(0, 10)}` }],
+      notes: daysLeft < 0 ? `${-daysLeft} days overdue` : `${daysLeft} days remaining`
+    }));
+    return items;
+  }
+};
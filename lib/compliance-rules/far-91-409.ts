@@ -0,0 +1,61 @@
+/**
+ * FAR 91.409 - Annual and 100-hour inspections
+ * Hours since the last 100-hour inspection come from the tracked interval's last completion.
+ * Aircraft on an approved inspection program are only held to the checks their program includes.
+ */
+
+import { ComplianceRule, complianceItem, endOfCalendarMonths, findIntervals, intervalComplianceItem } from './engine';
+import { requiresApprovedProgram } from './far-135-411';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ANNUAL_DUE_SOON_DAYS = 30;
+
+export const far91409: ComplianceRule = {
+  id: 'far-91-409',
+  regulation: '91.409',
+  regulationType: 'PART_91',
+  title: 'Annual and 100-hour inspections',
+  responsible: 'Chief Inspector',
+  evaluate(context) {
+    const { aircraft, asOf } = context;
+    const onApprovedProgram = requiresApprovedProgram(aircraft);
+    const annuals = findIntervals(context, 'ANNUAL');
+    const hundredHours = findIntervals(context, '100_HOUR');
+    const items = [...annuals, ...hundredHours].map(interval => intervalComplianceItem(far91409, context, interval));
+
+    // (a) without a tracked annual: the 12 calendar months run from the aircraft's last recorded inspection
+    if (annuals.length === 0 && !onApprovedProgram) {
+      if (aircraft.lastInspectionDate) {
+        const dueDate = endOfCalendarMonths(aircraft.lastInspectionDate, 12);
+        const daysLeft = Math.floor((dueDate.getTime() - asOf.getTime()) / DAY_MS);
+        items.push(complianceItem(far91409, context, 'annual', {
+          description: 'Annual Inspection',
+          status: daysLeft < 0 ? 'OVERDUE' : daysLeft <= ANNUAL_DUE_SOON_DAYS ? 'DUE_SOON' : 'CURRENT',
+          dueDate,
+          completedDate: aircraft.lastInspectionDate,
+          recurrenceInterval: 365,
+          evidence: [{
+            source: 'AIRCRAFT',
+            reference: aircraft.id,
+            description: `Last inspection recorded on ${aircraft.tailNumber}`,
+            date: aircraft.lastInspectionDate
+          }],
+          notes: daysLeft < 0 ? `${-daysLeft} days overdue` : `${daysLeft} days remaining`
+        }));
+      } else {
+        items.push(complianceItem(far91409, context, 'annual', { description: 'Annual Inspection', status: 'NO_RECORD' }));
+      }
+    }
+
+    // (b) applies to aircraft carrying persons for hire
+    if (hundredHours.length === 0 && !onApprovedProgram) {
+      items.push(complianceItem(far91409, context, '100-hour', {
+        description: '100-Hour Inspection',
+        status: 'NO_RECORD',
+        notes: 'No 100-hour inspection tracked, so time since the last one is unknown'
+      }));
+    }
+
+    return items;
+  }
+};
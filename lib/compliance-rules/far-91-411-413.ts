@@ -0,0 +1,33 @@
+/**
+ * FAR 91.411 / 91.413 - Altimeter, static system and transponder tests
+ * Required within the preceding 24 calendar months; shops usually perform both together.
+ */
+
+import { ComplianceRule, complianceItem, endOfCalendarMonths, findIntervals, intervalComplianceItem } from './engine';
+
+const TEST_MONTHS = 24;
+
+export const far91411413: ComplianceRule = {
+  id: 'far-91-411-413',
+  regulation: '91.411/91.413',
+  regulationType: 'PART_91',
+  title: 'Altimeter, static system and transponder tests',
+  responsible: 'Director of Maintenance',
+  evaluate(context) {
+    const tests = findIntervals(context, 'ALTIMETER_TRANSPONDER');
+    if (tests.length > 0) {
+      // A completed test expires at the end of the 24th month, whatever the interval's day count says
+      return tests.map(interval => intervalComplianceItem(far91411413, context, interval.lastCompletedAt ? {
+        ...interval,
+        intervalCalendar: interval.intervalCalendar || 730,
+        nextDueAt: endOfCalendarMonths(interval.lastCompletedAt, TEST_MONTHS)
+      } : interval));
+    }
+
+    return [complianceItem(far91411413, context, 'altimeter-transponder', {
+      description: 'Altimeter, Static System and Transponder Tests',
+      status: 'NO_RECORD',
+      notes: 'No 24-month test on record'
+    })];
+  }
+};
@@ -0,0 +1,59 @@
+/**
+ * FAR 91.417 - Maintenance records
+ * Completed work needs a signed record entry with return to service (a)(1), and the
+ * current status of every applicable AD must be on record (a)(2)(v).
+ */
+
+import { buildDirectiveStatusReport } from '../airworthiness-directives';
+import { ComplianceRule, complianceItem } from './engine';
+
+export const far91417: ComplianceRule = {
+  id: 'far-91-417',
+  regulation: '91.417',
+  regulationType: 'PART_91',
+  title: 'Maintenance records',
+  responsible: 'Maintenance Records',
+  evaluate(context) {
+    const { aircraft, directives, directiveRecords, forecast, asOf } = context;
+
+    const unsigned = context.workOrders
+      .filter(workOrder => workOrder.status === 'COMPLETED' && !workOrder.signOffData?.returnToServiceAuthorization)
+      .map(workOrder => complianceItem(far91417, context, workOrder.id, {
+        description: `Record entry for ${workOrder.workOrderNumber} (${workOrder.title})`,
+        status: 'NO_RECORD',
+        completedDate: workOrder.completedDate,
+        evidence: [{
+          source: 'WORK_ORDER',
+          reference: workOrder.id,
+          description: `${workOrder.workOrderNumber} completed without a signed return to service`,
+          date: workOrder.completedDate
+        }]
+      }));
+
+    const entries = buildDirectiveStatusReport(aircraft, directives, directiveRecords, forecast, asOf).entries
+      .filter(entry => entry.mandatory);
+    const missing = entries.filter(entry => entry.status === 'NO_RECORD');
+    const recorded = entries.filter(entry => entry.status !== 'NO_RECORD');
+
+    const adStatus = missing.map(entry => complianceItem(far91417, context, entry.directiveId, {
+      description: `${entry.type} ${entry.number} (${entry.title})`,
+      status: 'NO_RECORD',
+      notes: entry.applicability
+    }));
+    if (missing.length === 0) {
+      adStatus.push(complianceItem(far91417, context, 'ad-status', {
+        description: 'Current status of applicable airworthiness directives',
+        status: 'CURRENT',
+        evidence: recorded.map(entry => ({
+          source: 'DIRECTIVE_RECORD' as const,
+          reference: `${aircraft.id}-${entry.directiveId}`,
+          description: `${entry.type} ${entry.number} ${entry.status.toLowerCase()}`,
+          date: entry.lastCompliance?.date
+        })),
+        notes: recorded.length === 0 ? 'No applicable directives' : undefined
+      }));
+    }
+
+    return [...unsigned, ...adStatus];
+  }
+};
@@ -0,0 +1,48 @@
+/**
+ * Compliance Rules
+ * Default FAR rule modules and the registry the dashboard, audit trail and Part 135 checks use.
+ * Operators can register extra rules or replace a default by registering one with the same id.
+ */
+
+import { Aircraft } from '@/types';
+import { ComplianceRecords, ComplianceReport, ComplianceRule, evaluateCompliance } from './engine';
+import { far397 } from './far-39-7';
+import { far91203 } from './far-91-203';
+import { far91207 } from './far-91-207';
+import { far91409 } from './far-91-409';
+import { far91411413 } from './far-91-411-413';
+import { far91417 } from './far-91-417';
+import { far135411 } from './far-135-411';
+import { far135419 } from './far-135-419';
+
+export * from './engine';
+
+export const DEFAULT_COMPLIANCE_RULES: ComplianceRule[] = [
+  far135411,
+  far135419,
+  far91409,
+  far91417,
+  far91207,
+  far91411413,
+  far91203,
+  far397
+];
+
+const registry = new Map<string, ComplianceRule>(DEFAULT_COMPLIANCE_RULES.map(rule => [rule.id, rule]));
+
+export function registerComplianceRule(rule: ComplianceRule): void {
+  registry.set(rule.id, rule);
+}
+
+export function getComplianceRules(): ComplianceRule[] {
+  return Array.from(registry.values());
+}
+
+// Evaluate one aircraft against every registered rule
+export function evaluateAircraftCompliance(
+  aircraft: Aircraft,
+  records: ComplianceRecords = {},
+  asOf: Date = new Date()
+): ComplianceReport {
+  return evaluateCompliance(aircraft, records, getComplianceRules(), asOf);
+}
@@ -0,0 +1,362 @@
+/**
+ * Component Tracking
+ * Serialized engines, APUs, landing gear and other life-limited or rotable parts.
+ * - Install, remove and overhaul events keep TSN/CSN/TSO/CSO per serial number
+ * - Time and cycles accrue from the flight history of the aircraft the part is on
+ * - Life limits are projected forward with the aircraft's utilization and scheduled like checks
+ */
+
+import {
+  Aircraft,
+  ComponentEvent,
+  ComponentLifeLimit,
+  FlightHistory,
+  InstalledComponent,
+  MaintenanceInterval,
+  TrackedComponent
+} from '@/types';
+import {
+  DEFAULT_USAGE_FORECAST,
+  DueLimit,
+  DueState,
+  UsageForecast,
+  projectDateForCycles,
+  projectDateForHours
+} from './maintenance-due';
+
+export interface ComponentLifeLimitStatus {
+  basis: ComponentLifeLimit['basis'];
+  action: ComponentLifeLimit['action'];
+  limit: DueLimit;
+  limitValue: number;    // hours, cycles or days
+  used: number;          // same unit as limitValue
+  remaining: number;     // negative once exceeded
+  projectedDate?: Date;  // unknown for hours and cycles while the part is off-wing
+  state: DueState;
+}
+
+export interface ComponentLifeProjection {
+  componentId: string;
+  partNumber: string;
+  serialNumber: string;
+  description: string;
+  componentType: TrackedComponent['componentType'];
+  aircraftId?: string;
+  position?: string;
+  tsn: number;
+  csn: number;
+  tso?: number;
+  cso?: number;
+  limits: ComponentLifeLimitStatus[];
+  driving?: ComponentLifeLimitStatus; // limit reached first
+  status: DueState;
+}
+
+// Event details supplied by the mechanic
+export interface ComponentEventDetails {
+  date?: Date;
+  reason?: string;
+  performedBy?: string;
+  workOrderId?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Engine and gear changes need parts lead time, so components go DUE_SOON well before checks do
+const DUE_SOON_DAYS = 90;
+const DUE_SOON_FRACTION = 0.05;
+const STATE_RANK: { [state in DueState]: number } = { CURRENT: 0, DUE_SOON: 1, IN_TOLERANCE: 2, OVERDUE: 3 };
+
+// Typical aircraft downtime for a component change, in hours
+const COMPONENT_CHANGE_HOURS: { [type in TrackedComponent['componentType']]: number } = {
+  ENGINE: 36,
+  APU: 10,
+  LANDING_GEAR: 48,
+  PROPELLER: 12,
+  OTHER: 8
+};
+
+const UNIT_LABELS: { [limit in DueLimit]: string } = { HOURS: 'h', CYCLES: 'cycles', CALENDAR: 'days' };
+
+export const describeComponent = (component: TrackedComponent) =>
+  `${component.description} P/N ${component.partNumber} S/N ${component.serialNumber}`;
+
+// Never-overhauled parts count their time since overhaul from new
+const hoursSince = (component: TrackedComponent, basis: ComponentLifeLimit['basis']) =>
+  basis === 'TSO' ? component.tso ?? component.tsn : component.tsn;
+const cyclesSince = (component: TrackedComponent, basis: ComponentLifeLimit['basis']) =>
+  basis === 'TSO' ? component.cso ?? component.csn : component.csn;
+const calendarStart = (component: TrackedComponent, basis: ComponentLifeLimit['basis']) =>
+  basis === 'TSO' ? component.lastOverhaulDate || component.manufactureDate : component.manufactureDate;
+
+function limitState(remaining: number, limitValue: number, projectedDate: Date | undefined, asOf: Date): DueState {
+  if (remaining <= 0) return 'OVERDUE';
+  if (remaining <= limitValue * DUE_SOON_FRACTION) return 'DUE_SOON';
+  if (projectedDate && projectedDate.getTime() - asOf.getTime() <= DUE_SOON_DAYS * DAY_MS) return 'DUE_SOON';
+  return 'CURRENT';
+}
+
+// Remaining life against every limit; hours and cycles are projected only while installed
+export function projectComponentLife(
+  component: TrackedComponent,
+  forecast: UsageForecast = DEFAULT_USAGE_FORECAST,
+  asOf: Date = new Date()
+): ComponentLifeProjection {
+  const installed = !!component.installedOn;
+  const limits: ComponentLifeLimitStatus[] = [];
+
+  for (const lifeLimit of component.lifeLimits) {
+    const { basis, action } = lifeLimit;
+
+    if (lifeLimit.hours) {
+      const used = hoursSince(component, basis);
+      const remaining = lifeLimit.hours - used;
+      const projectedDate = installed ? projectDateForHours(forecast, remaining, asOf) : undefined;
+      limits.push({
+        basis, action, limit: 'HOURS', limitValue: lifeLimit.hours, used, remaining, projectedDate,
+        state: limitState(remaining, lifeLimit.hours, projectedDate, asOf)
+      });
+    }
+
+    if (lifeLimit.cycles) {
+      const used = cyclesSince(component, basis);
+      const remaining = lifeLimit.cycles - used;
+      const projectedDate = installed ? projectDateForCycles(forecast, remaining, asOf) : undefined;
+      limits.push({
+        basis, action, limit: 'CYCLES', limitValue: lifeLimit.cycles, used, remaining, projectedDate,
+        state: limitState(remaining, lifeLimit.cycles, projectedDate, asOf)
+      });
+    }
+
+    const start = calendarStart(component, basis);
+    if (lifeLimit.calendarDays && start) {
+      const used = Math.floor((asOf.getTime() - new Date(start).getTime()) / DAY_MS);
+      const remaining = lifeLimit.calendarDays - used;
+      const projectedDate = new Date(new Date(start).getTime() + lifeLimit.calendarDays * DAY_MS);
+      limits.push({
+        basis, action, limit: 'CALENDAR', limitValue: lifeLimit.calendarDays, used, remaining, projectedDate,
+        state: limitState(remaining, lifeLimit.calendarDays, projectedDate, asOf)
+      });
+    }
+  }
+
+  // Off-wing parts have no projected date for hours or cycles; fall back to the smallest share of life left
+  const dated = limits.filter(limit => limit.projectedDate);
+  const driving = dated.length > 0
+    ? dated.reduce((first, limit) => limit.projectedDate < first.projectedDate ? limit : first)
+    : limits.reduce<ComponentLifeLimitStatus | undefined>((first, limit) =>
+        !first || limit.remaining / limit.limitValue < first.remaining / first.limitValue ? limit : first, undefined);
+
+  return {
+    componentId: component.id,
+    partNumber: component.partNumber,
+    serialNumber: component.serialNumber,
+    description: component.description,
+    componentType: component.componentType,
+    aircraftId: component.installedOn?.aircraftId,
+    position: component.installedOn?.position,
+    tsn: component.tsn,
+    csn: component.csn,
+    tso: component.tso,
+    cso: component.cso,
+    limits,
+    driving,
+    status: limits.reduce<DueState>((worst, limit) =>
+      STATE_RANK[limit.state] > STATE_RANK[worst] ? limit.state : worst, 'CURRENT')
+  };
+}
+
+// Add flights flown since the last accrual; flights already counted are skipped, so re-running is safe
+export function accrueComponentTime(component: TrackedComponent, flights: FlightHistory[]): TrackedComponent {
+  const installed = component.installedOn;
+  if (!installed) return component;
+
+  const since = Math.max(
+    new Date(installed.installedAt).getTime(),
+    component.accruedThrough ? new Date(component.accruedThrough).getTime() : 0
+  );
+  const newFlights = flights.filter(flight =>
+    flight.aircraftId === installed.aircraftId && new Date(flight.arrival.time).getTime() > since
+  );
+  if (newFlights.length === 0) return component;
+
+  const hours = newFlights.reduce((sum, flight) => sum + flight.flightTime / 60, 0);
+  const cycles = newFlights.reduce((sum, flight) => sum + flight.cycles, 0);
+  const round = (value: number) => Math.round(value * 10) / 10;
+
+  return {
+    ...component,
+    tsn: round(component.tsn + hours),
+    csn: component.csn + cycles,
+    tso: component.tso !== undefined ? round(component.tso + hours) : undefined,
+    cso: component.cso !== undefined ? component.cso + cycles : undefined,
+    accruedThrough: new Date(Math.max(...newFlights.map(flight => new Date(flight.arrival.time).getTime()))),
+    updatedAt: new Date()
+  };
+}
+
+function componentEvent(
+  component: TrackedComponent,
+  type: ComponentEvent['type'],
+  date: Date,
+  details: ComponentEventDetails,
+  aircraft?: Aircraft,
+  position?: string
+): ComponentEvent {
+  return {
+    id: `evt-${component.id}-${type.toLowerCase()}-${date.getTime()}`,
+    componentId: component.id,
+    aircraftId: aircraft?.id,
+    type,
+    position,
+    date,
+    aircraftHours: aircraft?.totalAircraftTime,
+    aircraftCycles: aircraft?.totalCycles,
+    tsn: component.tsn,
+    csn: component.csn,
+    tso: component.tso,
+    cso: component.cso,
+    reason: details.reason,
+    performedBy: details.performedBy,
+    workOrderId: details.workOrderId
+  };
+}
+
+const sameSerial = (installed: InstalledComponent, component: TrackedComponent) =>
+  installed.partNumber === component.partNumber && installed.serialNumber === component.serialNumber;
+
+// Install on an aircraft position; the aircraft's installed list is updated for AD/SB applicability
+export function installComponent(
+  component: TrackedComponent,
+  aircraft: Aircraft,
+  position: string,
+  details: ComponentEventDetails = {}
+): { component: TrackedComponent; aircraft: Aircraft; event: ComponentEvent } {
+  if (component.installedOn) {
+    throw new Error(`${describeComponent(component)} is already installed at ${component.installedOn.position} on ${component.installedOn.aircraftId}`);
+  }
+  const occupant = (aircraft.installedComponents || []).find(installed => installed.position === position);
+  if (occupant) {
+    throw new Error(`${position} on ${aircraft.tailNumber} is occupied by P/N ${occupant.partNumber} S/N ${occupant.serialNumber}; remove it first`);
+  }
+  const expired = projectComponentLife(component).limits.find(limit => limit.action === 'RETIRE' && limit.remaining <= 0);
+  if (expired) {
+    throw new Error(`${describeComponent(component)} has reached its ${expired.basis} ${expired.limit.toLowerCase()} life limit`);
+  }
+
+  const date = details.date ? new Date(details.date) : new Date();
+  const installed: TrackedComponent = {
+    ...component,
+    installedOn: {
+      aircraftId: aircraft.id,
+      position,
+      installedAt: date,
+      aircraftHours: aircraft.totalAircraftTime,
+      aircraftCycles: aircraft.totalCycles
+    },
+    accruedThrough: date,
+    updatedAt: new Date()
+  };
+
+  return {
+    component: installed,
+    aircraft: {
+      ...aircraft,
+      installedComponents: [
+        ...(aircraft.installedComponents || []),
+        { partNumber: component.partNumber, serialNumber: component.serialNumber, description: component.description, position }
+      ]
+    },
+    event: componentEvent(installed, 'INSTALL', date, details, aircraft, position)
+  };
+}
+
+// Remove from its aircraft; record the aircraft's last flights first so the counters are current at removal
+export function removeComponent(
+  component: TrackedComponent,
+  aircraft: Aircraft,
+  details: ComponentEventDetails = {}
+): { component: TrackedComponent; aircraft: Aircraft; event: ComponentEvent } {
+  if (component.installedOn?.aircraftId !== aircraft.id) {
+    throw new Error(`${describeComponent(component)} is not installed on ${aircraft.tailNumber}`);
+  }
+
+  const date = details.date ? new Date(details.date) : new Date();
+  const position = component.installedOn.position;
+  const removed: TrackedComponent = { ...component, installedOn: undefined, updatedAt: new Date() };
+
+  return {
+    component: removed,
+    aircraft: {
+      ...aircraft,
+      installedComponents: (aircraft.installedComponents || []).filter(installed => !sameSerial(installed, component))
+    },
+    event: componentEvent(removed, 'REMOVE', date, details, aircraft, position)
+  };
+}
+
+// Shop overhaul resets time and cycles since overhaul; the part must be off-wing
+export function recordComponentOverhaul(
+  component: TrackedComponent,
+  details: ComponentEventDetails = {}
+): { component: TrackedComponent; event: ComponentEvent } {
+  if (component.installedOn) {
+    throw new Error(`${describeComponent(component)} must be removed before it is overhauled`);
+  }
+
+  const date = details.date ? new Date(details.date) : new Date();
+  const overhauled: TrackedComponent = { ...component, tso: 0, cso: 0, lastOverhaulDate: date, updatedAt: new Date() };
+  return { component: overhauled, event: componentEvent(overhauled, 'OVERHAUL', date, details) };
+}
+
+// The installed component's nearest limits as a COMPONENT interval in airframe terms
+export function componentToMaintenanceInterval(
+  component: TrackedComponent,
+  aircraft: Aircraft,
+  forecast?: UsageForecast,
+  asOf: Date = new Date()
+): MaintenanceInterval | null {
+  if (component.installedOn?.aircraftId !== aircraft.id) return null;
+
+  const projection = projectComponentLife(component, forecast, asOf);
+  if (!projection.driving) return null;
+
+  const nearest = (limit: DueLimit) => projection.limits
+    .filter(status => status.limit === limit)
+    .reduce<ComponentLifeLimitStatus | undefined>((first, status) => !first || status.remaining < first.remaining ? status : first, undefined);
+  const hours = nearest('HOURS');
+  const cycles = nearest('CYCLES');
+  const calendar = nearest('CALENDAR');
+  const { driving } = projection;
+
+  return {
+    id: `${aircraft.id}-${component.id}`,
+    aircraftId: aircraft.id,
+    intervalType: 'COMPONENT',
+    description: `${component.installedOn.position} S/N ${component.serialNumber}: ` +
+      `${driving.action.toLowerCase()} at ${driving.limitValue} ${UNIT_LABELS[driving.limit]} ${driving.basis} ` +
+      `(${component.description} P/N ${component.partNumber})`,
+    componentId: component.id,
+    intervalHours: hours?.limitValue,
+    intervalCycles: cycles?.limitValue,
+    intervalCalendar: calendar?.limitValue,
+    nextDueAt: calendar?.projectedDate || driving.projectedDate || asOf,
+    nextDueHours: hours ? aircraft.totalAircraftTime + hours.remaining : 0,
+    nextDueCycles: cycles ? aircraft.totalCycles + cycles.remaining : undefined,
+    isOverdue: projection.status === 'OVERDUE',
+    priority: projection.status === 'OVERDUE' ? 'CRITICAL' : projection.status === 'CURRENT' ? 'MEDIUM' : 'HIGH',
+    estimatedDowntime: COMPONENT_CHANGE_HOURS[component.componentType],
+    estimatedCost: component.overhaulCost ?? 0
+  };
+}
+
+// Life-limit items for every tracked component installed on the aircraft
+export function getComponentDueIntervals(
+  aircraft: Aircraft,
+  components: TrackedComponent[],
+  forecast?: UsageForecast,
+  asOf: Date = new Date()
+): MaintenanceInterval[] {
+  return components
+    .map(component => componentToMaintenanceInterval(component, aircraft, forecast, asOf))
+    .filter(Boolean);
+}
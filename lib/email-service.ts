@@ -6,6 +6,8 @@
 
 import nodemailer from 'nodemailer';
 import axios from 'axios';
+import { MaintenanceUser } from '@/types';
+import { listPersonnel } from './personnel';
 
 export interface EmailRecipient {
   name: string;
@@ -778,31 +780,32 @@ Text Content Length: ${content.text.length} characters
   }
 
   /**
-   * Get default recipients based on maintenance type and aircraft
+   * Get default recipients based on maintenance type, drawn from the personnel roster.
+   * The people assigned to the work come first; everyone appears once.
    */
-  static getDefaultRecipients(maintenanceType: string): EmailRecipient[] {
-    const baseRecipients: EmailRecipient[] = [
-      { name: 'John Smith', email: 'john.smith@ganderaviation.com', role: 'MECHANIC' },
-      { name: 'Tom Anderson', email: 'tom.anderson@ganderaviation.com', role: 'SUPERVISOR' },
-      { name: 'Sarah Johnson', email: 'sarah.johnson@ganderaviation.com', role: 'PARTS_MANAGER' }
+  static getDefaultRecipients(maintenanceType: string, assignees: EmailRecipient[] = []): EmailRecipient[] {
+    const roster = listPersonnel().filter(person => person.isActive);
+    const recipient = (person: MaintenanceUser, role: string): EmailRecipient => ({ name: person.name, email: person.email, role });
+
+    const recipients: EmailRecipient[] = [
+      ...assignees,
+      ...roster
+        .filter(person => person.approvalRoles?.includes('MAINTENANCE_MANAGER') || person.permissions.includes('supervise'))
+        .map(person => recipient(person, 'SUPERVISOR')),
+      ...roster.filter(person => person.permissions.includes('parts')).map(person => recipient(person, 'PARTS_MANAGER'))
     ];
 
-    // Add inspector for major maintenance
+    // Add the chief inspector for major maintenance
     if (['C_CHECK', 'ANNUAL', '100_HOUR'].includes(maintenanceType)) {
-      baseRecipients.push({
-        name: 'David Chen',
-        email: 'david.chen@ganderaviation.com',
-        role: 'INSPECTOR'
-      });
+      roster
+        .filter(person => person.approvalRoles?.includes('CHIEF_INSPECTOR'))
+        .forEach(person => recipients.push(recipient(person, 'INSPECTOR')));
     }
 
-    // Add pilot for operational coordination
-    baseRecipients.push({
-      name: 'Captain Mike Wilson',
-      email: 'mike.wilson@ganderaviation.com',
-      role: 'PILOT'
-    });
+    // Add pilots for operational coordination
+    roster.filter(person => person.role === 'PILOT').forEach(person => recipients.push(recipient(person, 'PILOT')));
 
-    return baseRecipients;
+    return recipients.filter((entry, index) =>
+      recipients.findIndex(other => other.email.toLowerCase() === entry.email.toLowerCase()) === index);
   }
 } 
\ No newline at end of file
@@ -0,0 +1,328 @@
+/**
+ * Exceedance Monitor
+ * Checks the flight tracking stream against each type's operating limits and raises FlightBasedAlerts.
+ * - Hard landings from the sink rate reported just before touchdown
+ * - Overspeeds past the type's VMO/MMO, once per flight, from the airspeed and Mach the provider reports
+ * - Ground speed over the low-altitude speed limit, once per flight; reported only, since ground speed
+ *   can't show an airframe overspeed, so it never calls for an inspection
+ * - Flight time over the single-flight and rolling 24-hour limits
+ * - Alerts are published on the tracking stream, can be acknowledged, and those needing maintenance
+ *   (hard landings and overspeeds) can open an unscheduled work order for the conditional inspection
+ */
+
+import { Aircraft, FlightBasedAlert, FlightData, WorkOrder } from '@/types';
+import { FlightTrackingEvent, FlightTrackingService, getFlightTrackingService } from './flight-tracking';
+import { FleetRepository, getFleetRepository } from './fleet-repository';
+import { ExceedanceLimits, getMaintenanceProgram } from './maintenance-programs';
+import { generateWorkOrderNumber } from './maintenance-utils';
+
+export const DEFAULT_EXCEEDANCE_LIMITS: ExceedanceLimits = {
+  hardLandingFpm: 600,
+  severeHardLandingFpm: 900,
+  speedLimitKnots: 300, // the 250 KIAS limit (FAR 91.117) with an allowance for tailwind
+  speedLimitBelowFeet: 10000,
+  maxFlightHours: 10,
+  maxFlightHoursPer24h: 10
+};
+
+export interface ExceedanceMonitorOptions {
+  createWorkOrders?: boolean; // open an unscheduled work order for alerts that need maintenance (hard landings, overspeeds)
+}
+
+export interface ExceedanceAlertFilter {
+  aircraftId?: string;
+  acknowledged?: boolean;
+}
+
+// Latest airborne sample, used for the sink rate at touchdown
+interface AirborneSample {
+  verticalRate: number;
+  at: Date;
+}
+
+interface FlightInProgress {
+  off: Date;
+  speedLimitAlerted: boolean;
+  overspeedAlerted: boolean;
+  flightTimeAlerted: boolean;
+}
+
+const TOUCHDOWN_SAMPLE_MAX_AGE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const hoursBetween = (from: Date, to: Date) => Math.max(0, (to.getTime() - from.getTime()) / 3600000);
+
+// The program's limits for the aircraft's type, over the defaults
+export function getExceedanceLimits(aircraft: Pick<Aircraft, 'make' | 'model'>): ExceedanceLimits {
+  const program = getMaintenanceProgram(aircraft.make, aircraft.model);
+  return { ...DEFAULT_EXCEEDANCE_LIMITS, ...program?.exceedanceLimits };
+}
+
+export class ExceedanceMonitor {
+  private alerts = new Map<string, FlightBasedAlert>();
+  private lastAirborne = new Map<string, AirborneSample>();
+  private flights = new Map<string, FlightInProgress>();
+  private completedFlights = new Map<string, Array<{ off: Date; on: Date }>>(); // last 24 hours per tail
+  private service: FlightTrackingService | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(
+    private options: ExceedanceMonitorOptions = {},
+    private repository: () => Promise<FleetRepository> = getFleetRepository
+  ) {}
+
+  // Start following a tracking service; returns a function that detaches again
+  attach(service: FlightTrackingService): () => void {
+    this.detach();
+    this.service = service;
+    this.unsubscribe = service.subscribe(event => {
+      this.handleEvent(event).catch(error => console.error(`Exceedance check failed for ${event.tailNumber}:`, error));
+    }, { types: ['POSITION_UPDATE', 'TAKEOFF', 'LANDING'] });
+    return () => this.detach();
+  }
+
+  detach() {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.service = null;
+  }
+
+  // Alerts raised by the event, after they have been recorded and published
+  async handleEvent(event: FlightTrackingEvent): Promise<FlightBasedAlert[]> {
+    if (event.type !== 'POSITION_UPDATE' && event.type !== 'TAKEOFF' && event.type !== 'LANDING') return [];
+    const { tailNumber, flightData } = event;
+    const at = new Date(flightData.lastContact);
+
+    if (event.type === 'TAKEOFF') {
+      this.flights.set(tailNumber, { off: new Date(flightData.actualDeparture || at), speedLimitAlerted: false, overspeedAlerted: false, flightTimeAlerted: false });
+      return [];
+    }
+
+    const aircraft = await (await this.repository()).findAircraftByTailNumber(tailNumber);
+    if (!aircraft) return [];
+    const limits = getExceedanceLimits(aircraft);
+
+    const raised = event.type === 'LANDING'
+      ? this.checkLanding(aircraft, flightData, at, limits)
+      : this.checkAirborne(aircraft, flightData, at, limits);
+
+    if (!flightData.isOnGround) this.lastAirborne.set(tailNumber, { verticalRate: flightData.verticalRate, at });
+
+    for (const alert of raised) {
+      await this.raise(aircraft, alert);
+    }
+    return raised;
+  }
+
+  listAlerts(filter: ExceedanceAlertFilter = {}): FlightBasedAlert[] {
+    return Array.from(this.alerts.values())
+      .filter(alert => !filter.aircraftId || alert.aircraftId === filter.aircraftId)
+      .filter(alert => filter.acknowledged === undefined || alert.acknowledged === filter.acknowledged)
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  }
+
+  acknowledge(alertId: string, acknowledgedBy: string, at: Date = new Date()): FlightBasedAlert {
+    const alert = this.alerts.get(alertId);
+    if (!alert) throw new Error(`Alert ${alertId} not found`);
+    if (alert.acknowledged) return alert;
+
+    const acknowledged = { ...alert, acknowledged: true, acknowledgedBy, acknowledgedAt: at };
+    this.alerts.set(alertId, acknowledged);
+    return acknowledged;
+  }
+
+  private checkAirborne(aircraft: Aircraft, flightData: FlightData, at: Date, limits: ExceedanceLimits): FlightBasedAlert[] {
+    const flight = this.flights.get(aircraft.tailNumber);
+    if (!flight || flightData.isOnGround) return [];
+    const alerts: FlightBasedAlert[] = [];
+    const flightId = this.flightId(aircraft, flight.off);
+
+    if (!flight.speedLimitAlerted && flightData.altitude < limits.speedLimitBelowFeet && flightData.groundSpeed > limits.speedLimitKnots) {
+      flight.speedLimitAlerted = true;
+      alerts.push(this.buildAlert(aircraft, {
+        id: `${flightId}-speed-limit`,
+        alertType: 'SPEED_LIMIT',
+        severity: 'CAUTION',
+        message: `${aircraft.tailNumber} ${Math.round(flightData.groundSpeed)} kt ground speed at ${Math.round(flightData.altitude)} ft, ` +
+          `over the ${limits.speedLimitKnots} kt limit below ${limits.speedLimitBelowFeet} ft`,
+        flightId,
+        triggerValue: flightData.groundSpeed,
+        thresholdValue: limits.speedLimitKnots,
+        unit: 'knots',
+        timestamp: at,
+        requiresAction: false,
+        maintenanceRequired: false
+      }));
+    }
+
+    const overspeed = flight.overspeedAlerted ? null : this.overspeedAlert(aircraft, flightId, flightData, limits, at);
+    if (overspeed) {
+      flight.overspeedAlerted = true;
+      alerts.push(overspeed);
+    }
+
+    const flightHours = hoursBetween(flight.off, at);
+    if (!flight.flightTimeAlerted && flightHours > limits.maxFlightHours) {
+      flight.flightTimeAlerted = true;
+      alerts.push(this.flightTimeAlert(aircraft, flightId, flightHours, limits.maxFlightHours, false, at));
+    }
+    return alerts;
+  }
+
+  private checkLanding(aircraft: Aircraft, flightData: FlightData, at: Date, limits: ExceedanceLimits): FlightBasedAlert[] {
+    const tailNumber = aircraft.tailNumber;
+    const flight = this.flights.get(tailNumber);
+    this.flights.delete(tailNumber);
+    const off = flight?.off || (flightData.actualDeparture ? new Date(flightData.actualDeparture) : undefined);
+    const on = new Date(flightData.actualArrival || at);
+    const flightId = this.flightId(aircraft, off || on);
+    const alerts: FlightBasedAlert[] = [];
+
+    // Sink rate from the last airborne sample shortly before touchdown, or the landing sample itself
+    const sample = this.lastAirborne.get(tailNumber);
+    this.lastAirborne.delete(tailNumber);
+    const rates = [flightData.verticalRate];
+    if (sample && on.getTime() - sample.at.getTime() <= TOUCHDOWN_SAMPLE_MAX_AGE_MS) rates.push(sample.verticalRate);
+    const sinkRate = Math.max(0, ...rates.map(rate => -rate));
+
+    if (sinkRate >= limits.hardLandingFpm) {
+      const severe = sinkRate >= limits.severeHardLandingFpm;
+      alerts.push(this.buildAlert(aircraft, {
+        id: `${flightId}-hard-landing`,
+        alertType: 'HARD_LANDING',
+        severity: severe ? 'ALERT' : 'CAUTION',
+        message: `${tailNumber} ${severe ? 'severe ' : ''}hard landing: ${Math.round(sinkRate)} fpm at touchdown` +
+          (flightData.arrivalAirport ? ` at ${flightData.arrivalAirport}` : ''),
+        flightId,
+        triggerValue: sinkRate,
+        thresholdValue: severe ? limits.severeHardLandingFpm : limits.hardLandingFpm,
+        unit: 'fpm',
+        timestamp: on,
+        requiresAction: true,
+        maintenanceRequired: true
+      }));
+    }
+
+    if (off) {
+      const recent = (this.completedFlights.get(tailNumber) || []).filter(entry => on.getTime() - entry.on.getTime() < DAY_MS);
+      recent.push({ off, on });
+      this.completedFlights.set(tailNumber, recent);
+
+      // Time from the start of the 24-hour window, so a flight that began before it only counts in part
+      const windowStart = new Date(on.getTime() - DAY_MS);
+      const hours = recent.reduce((sum, entry) => sum + hoursBetween(entry.off > windowStart ? entry.off : windowStart, entry.on), 0);
+      const flightHours = hoursBetween(off, on);
+
+      if (flightHours > limits.maxFlightHours) {
+        alerts.push(this.flightTimeAlert(aircraft, flightId, flightHours, limits.maxFlightHours, false, on));
+      }
+      if (hours > limits.maxFlightHoursPer24h) {
+        alerts.push(this.flightTimeAlert(aircraft, flightId, hours, limits.maxFlightHoursPer24h, true, on));
+      }
+    }
+    return alerts;
+  }
+
+  // Indicated airspeed over VMO or Mach over MMO; neither is checked when the provider doesn't report it
+  private overspeedAlert(
+    aircraft: Aircraft,
+    flightId: string,
+    flightData: FlightData,
+    limits: ExceedanceLimits,
+    at: Date
+  ): FlightBasedAlert | null {
+    const { indicatedAirspeed, mach } = flightData;
+    const overVmo = !!limits.vmoKnots && indicatedAirspeed !== undefined && indicatedAirspeed > limits.vmoKnots;
+    const overMmo = !!limits.mmo && mach !== undefined && mach > limits.mmo;
+    if (!overVmo && !overMmo) return null;
+
+    const altitude = `${Math.round(flightData.altitude)} ft`;
+    return this.buildAlert(aircraft, {
+      id: `${flightId}-overspeed`,
+      alertType: 'OVERSPEED',
+      severity: 'WARNING',
+      message: overVmo
+        ? `${aircraft.tailNumber} overspeed: ${Math.round(indicatedAirspeed)} KIAS at ${altitude}, over VMO ${limits.vmoKnots} KIAS`
+        : `${aircraft.tailNumber} overspeed: M${mach.toFixed(3)} at ${altitude}, over MMO M${limits.mmo}`,
+      flightId,
+      triggerValue: overVmo ? indicatedAirspeed : mach,
+      thresholdValue: overVmo ? limits.vmoKnots : limits.mmo,
+      unit: overVmo ? 'KIAS' : 'Mach',
+      timestamp: at,
+      requiresAction: true,
+      maintenanceRequired: true
+    });
+  }
+
+  private flightTimeAlert(aircraft: Aircraft, flightId: string, hours: number, limit: number, rolling: boolean, at: Date): FlightBasedAlert {
+    return this.buildAlert(aircraft, {
+      id: `${flightId}-flight-time${rolling ? '-24h' : ''}`,
+      alertType: 'FLIGHT_TIME_LIMIT',
+      severity: 'WARNING',
+      message: `${aircraft.tailNumber} flown ${hours.toFixed(1)} h in ${rolling ? 'the last 24 hours' : 'one flight'}, over the ${limit} h limit`,
+      flightId,
+      triggerValue: Math.round(hours * 10) / 10,
+      thresholdValue: limit,
+      unit: 'hours',
+      timestamp: at,
+      requiresAction: false,
+      maintenanceRequired: false
+    });
+  }
+
+  private buildAlert(aircraft: Aircraft, alert: Omit<FlightBasedAlert, 'aircraftId' | 'acknowledged'>): FlightBasedAlert {
+    return { ...alert, aircraftId: aircraft.id, acknowledged: false };
+  }
+
+  private flightId(aircraft: Aircraft, off: Date) {
+    return `flt-${aircraft.tailNumber.toLowerCase()}-${off.getTime()}`;
+  }
+
+  // Record, optionally open the conditional inspection, and publish on the tracking stream
+  private async raise(aircraft: Aircraft, alert: FlightBasedAlert) {
+    if (this.alerts.has(alert.id)) return;
+
+    if (this.options.createWorkOrders && alert.maintenanceRequired) {
+      alert.workOrderId = (await this.openInspection(aircraft, alert)).id;
+    }
+    this.alerts.set(alert.id, alert);
+    this.service?.publishMaintenanceAlert(aircraft.tailNumber, alert);
+  }
+
+  private async openInspection(aircraft: Aircraft, alert: FlightBasedAlert): Promise<WorkOrder> {
+    const severe = alert.severity === 'ALERT';
+    const inspection = alert.alertType === 'OVERSPEED'
+      ? 'Overspeed conditional inspection'
+      : `${severe ? 'Severe hard' : 'Hard'} landing conditional inspection`;
+    const now = new Date();
+
+    return (await this.repository()).saveWorkOrder({
+      id: `wo-${alert.id}`,
+      aircraftId: aircraft.id,
+      workOrderNumber: generateWorkOrderNumber(),
+      title: `${inspection} - ${aircraft.tailNumber}`,
+      description: `${alert.message}. Limit ${alert.thresholdValue} ${alert.unit}. ` +
+        `Perform the ${inspection.toLowerCase()} per the maintenance manual before further flight.`,
+      status: 'OPEN',
+      priority: severe ? 'AOG' : 'URGENT',
+      category: 'UNSCHEDULED',
+      estimatedHours: severe ? 16 : 4,
+      partsRequired: [],
+      createdAt: now,
+      scheduledStartDate: now
+    });
+  }
+}
+
+// Shared monitor on the shared tracking service
+let exceedanceMonitor: ExceedanceMonitor | null = null;
+
+export function getExceedanceMonitor(): ExceedanceMonitor {
+  if (exceedanceMonitor) return exceedanceMonitor;
+
+  exceedanceMonitor = new ExceedanceMonitor({
+    createWorkOrders: process.env.EXCEEDANCE_WORK_ORDERS === 'true'
+  });
+  exceedanceMonitor.attach(getFlightTrackingService());
+  return exceedanceMonitor;
+}
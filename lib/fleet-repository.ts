@@ -0,0 +1,874 @@
+/**
+ * Fleet Repository
+ * Persistence layer for aircraft, maintenance intervals, work orders, the AD/SB registry,
+ * tracked components, the flight log and the position reports that make up flight tracks.
+ * Maps the snake_case Supabase rows in `Database` to the camelCase domain types.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  Aircraft,
+  AirworthinessDirective,
+  ComponentEvent,
+  ComponentLifeLimit,
+  DirectiveComplianceRecord,
+  FlightHistory,
+  InstalledComponent,
+  MaintenanceInterval,
+  MaintenanceTolerance,
+  PositionReport,
+  TrackedComponent,
+  WorkOrder
+} from '@/types';
+import type { Database } from './supabase';
+import {
+  MOCK_AIRCRAFT,
+  MOCK_COMPONENT_EVENTS,
+  MOCK_COMPONENTS,
+  MOCK_DIRECTIVES,
+  MOCK_DIRECTIVE_COMPLIANCE,
+  MOCK_MAINTENANCE_INTERVALS,
+  MOCK_WORK_ORDERS
+} from './mock-fleet-data';
+
+type Tables = Database['public']['Tables'];
+export type AircraftRow = Tables['aircraft']['Row'];
+export type MaintenanceIntervalRow = Tables['maintenance_intervals']['Row'];
+export type WorkOrderRow = Tables['work_orders']['Row'];
+export type AirworthinessDirectiveRow = Tables['airworthiness_directives']['Row'];
+export type DirectiveComplianceRow = Tables['directive_compliance']['Row'];
+export type ComponentRow = Tables['components']['Row'];
+export type ComponentEventRow = Tables['component_events']['Row'];
+export type FlightRow = Tables['flights']['Row'];
+export type PositionReportRow = Tables['position_reports']['Row'];
+
+export interface FleetRepository {
+  listAircraft(): Promise<Aircraft[]>;
+  getAircraft(id: string): Promise<Aircraft | null>;
+  findAircraftByTailNumber(tailNumber: string): Promise<Aircraft | null>;
+  saveAircraft(aircraft: Aircraft): Promise<Aircraft>;
+
+  listMaintenanceIntervals(aircraftId?: string): Promise<MaintenanceInterval[]>;
+  saveMaintenanceInterval(interval: MaintenanceInterval): Promise<MaintenanceInterval>;
+
+  listWorkOrders(aircraftId?: string): Promise<WorkOrder[]>;
+  getWorkOrder(id: string): Promise<WorkOrder | null>;
+  saveWorkOrder(workOrder: WorkOrder): Promise<WorkOrder>;
+
+  listDirectives(): Promise<AirworthinessDirective[]>;
+  saveDirective(directive: AirworthinessDirective): Promise<AirworthinessDirective>;
+  listDirectiveCompliance(aircraftId?: string): Promise<DirectiveComplianceRecord[]>;
+  saveDirectiveCompliance(record: DirectiveComplianceRecord): Promise<DirectiveComplianceRecord>;
+
+  listComponents(aircraftId?: string): Promise<TrackedComponent[]>;
+  getComponent(id: string): Promise<TrackedComponent | null>;
+  saveComponent(component: TrackedComponent): Promise<TrackedComponent>;
+  listComponentEvents(componentId?: string): Promise<ComponentEvent[]>;
+  saveComponentEvent(event: ComponentEvent): Promise<ComponentEvent>;
+
+  listFlights(aircraftId?: string): Promise<FlightHistory[]>;
+  saveFlight(flight: FlightHistory): Promise<FlightHistory>;
+
+  // Reports with from <= timestamp <= to, oldest first
+  listPositionReports(aircraftId: string, from: Date, to: Date): Promise<PositionReport[]>;
+  savePositionReports(reports: PositionReport[]): Promise<void>;
+}
+
+// Row <-> domain mapping
+
+const toDate = (value: string | null): Date | undefined => value ? new Date(value) : undefined;
+const toISO = (value?: Date): string | null => value ? new Date(value).toISOString() : null;
+
+export function mapAircraftRow(row: AircraftRow): Aircraft {
+  return {
+    id: row.id,
+    tailNumber: row.tail_number,
+    make: row.make,
+    model: row.model,
+    serialNumber: row.serial_number,
+    yearOfManufacture: row.year_of_manufacture,
+    totalAircraftTime: row.total_aircraft_time,
+    totalCycles: row.total_cycles,
+    isActive: row.is_active,
+    certificateOfAirworthiness: row.certificate_of_airworthiness ?? undefined,
+    passengerSeats: row.passenger_seats ?? undefined,
+    lastInspectionDate: new Date(row.last_inspection_date),
+    nextInspectionDue: new Date(row.next_inspection_due),
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+    flightStatus: (row.flight_status || 'AVAILABLE') as Aircraft['flightStatus'],
+    engineTimeTracking: (row.engine_time_tracking || 'HOBBS') as Aircraft['engineTimeTracking'],
+    hobbsTime: row.hobbs_time ?? undefined,
+    tachoTime: row.tacho_time ?? undefined,
+    icaoAddress: row.icao_address ?? undefined,
+    installedComponents: (row.installed_components as unknown as InstalledComponent[]) ?? undefined
+  };
+}
+
+export function toAircraftRow(aircraft: Aircraft): AircraftRow {
+  return {
+    id: aircraft.id,
+    tail_number: aircraft.tailNumber,
+    make: aircraft.make,
+    model: aircraft.model,
+    serial_number: aircraft.serialNumber,
+    year_of_manufacture: aircraft.yearOfManufacture,
+    total_aircraft_time: aircraft.totalAircraftTime,
+    total_cycles: aircraft.totalCycles,
+    is_active: aircraft.isActive,
+    certificate_of_airworthiness: aircraft.certificateOfAirworthiness ?? null,
+    passenger_seats: aircraft.passengerSeats ?? null,
+    last_inspection_date: toISO(aircraft.lastInspectionDate),
+    next_inspection_due: toISO(aircraft.nextInspectionDue),
+    flight_status: aircraft.flightStatus,
+    engine_time_tracking: aircraft.engineTimeTracking,
+    hobbs_time: aircraft.hobbsTime ?? null,
+    tacho_time: aircraft.tachoTime ?? null,
+    icao_address: aircraft.icaoAddress ?? null,
+    installed_components: (aircraft.installedComponents as unknown as Record<string, unknown>[]) ?? null,
+    created_at: toISO(aircraft.createdAt) || new Date().toISOString(),
+    updated_at: toISO(aircraft.updatedAt) || new Date().toISOString()
+  };
+}
+
+export function mapMaintenanceIntervalRow(row: MaintenanceIntervalRow): MaintenanceInterval {
+  return {
+    id: row.id,
+    aircraftId: row.aircraft_id,
+    intervalType: row.interval_type as MaintenanceInterval['intervalType'],
+    description: row.description,
+    intervalHours: row.interval_hours ?? undefined,
+    intervalCycles: row.interval_cycles ?? undefined,
+    intervalCalendar: row.interval_calendar ?? undefined,
+    lastCompletedAt: toDate(row.last_completed_at),
+    lastCompletedHours: row.last_completed_hours ?? undefined,
+    lastCompletedCycles: row.last_completed_cycles ?? undefined,
+    nextDueAt: new Date(row.next_due_at),
+    nextDueHours: row.next_due_hours,
+    nextDueCycles: row.next_due_cycles ?? undefined,
+    tolerance: (row.tolerance as unknown as MaintenanceTolerance) ?? undefined,
+    isOverdue: row.is_overdue,
+    priority: row.priority as MaintenanceInterval['priority'],
+    estimatedDowntime: row.estimated_downtime,
+    estimatedCost: row.estimated_cost
+  };
+}
+
+export function toMaintenanceIntervalRow(interval: MaintenanceInterval): Omit<MaintenanceIntervalRow, 'created_at' | 'updated_at'> {
+  return {
+    id: interval.id,
+    aircraft_id: interval.aircraftId,
+    interval_type: interval.intervalType,
+    description: interval.description,
+    interval_hours: interval.intervalHours ?? null,
+    interval_cycles: interval.intervalCycles ?? null,
+    interval_calendar: interval.intervalCalendar ?? null,
+    last_completed_at: toISO(interval.lastCompletedAt),
+    last_completed_hours: interval.lastCompletedHours ?? null,
+    last_completed_cycles: interval.lastCompletedCycles ?? null,
+    next_due_at: toISO(interval.nextDueAt),
+    next_due_hours: interval.nextDueHours,
+    next_due_cycles: interval.nextDueCycles ?? null,
+    tolerance: (interval.tolerance as unknown as Record<string, unknown>) ?? null,
+    is_overdue: interval.isOverdue,
+    priority: interval.priority,
+    estimated_downtime: interval.estimatedDowntime,
+    estimated_cost: interval.estimatedCost
+  };
+}
+
+export function mapWorkOrderRow(row: WorkOrderRow): WorkOrder {
+  return {
+    id: row.id,
+    aircraftId: row.aircraft_id,
+    workOrderNumber: row.work_order_number,
+    title: row.title,
+    description: row.description,
+    status: row.status as WorkOrder['status'],
+    priority: row.priority as WorkOrder['priority'],
+    category: row.category as WorkOrder['category'],
+    mechanicAssigned: row.mechanic_assigned ?? undefined,
+    inspectorAssigned: row.inspector_assigned ?? undefined,
+    estimatedHours: row.estimated_hours,
+    actualHours: row.actual_hours ?? undefined,
+    partsRequired: [], // Parts are not yet persisted alongside work orders
+    createdAt: new Date(row.created_at),
+    scheduledStartDate: new Date(row.scheduled_start_date),
+    actualStartDate: toDate(row.actual_start_date),
+    completedDate: toDate(row.completed_date)
+  };
+}
+
+export function toWorkOrderRow(workOrder: WorkOrder): Omit<WorkOrderRow, 'updated_at'> {
+  return {
+    id: workOrder.id,
+    aircraft_id: workOrder.aircraftId,
+    work_order_number: workOrder.workOrderNumber,
+    title: workOrder.title,
+    description: workOrder.description,
+    status: workOrder.status,
+    priority: workOrder.priority,
+    category: workOrder.category,
+    mechanic_assigned: workOrder.mechanicAssigned ?? null,
+    inspector_assigned: workOrder.inspectorAssigned ?? null,
+    estimated_hours: workOrder.estimatedHours,
+    actual_hours: workOrder.actualHours ?? null,
+    created_at: toISO(workOrder.createdAt) || new Date().toISOString(),
+    scheduled_start_date: toISO(workOrder.scheduledStartDate),
+    actual_start_date: toISO(workOrder.actualStartDate),
+    completed_date: toISO(workOrder.completedDate)
+  };
+}
+
+export function mapDirectiveRow(row: AirworthinessDirectiveRow): AirworthinessDirective {
+  return {
+    id: row.id,
+    type: row.type as AirworthinessDirective['type'],
+    number: row.number,
+    title: row.title,
+    description: row.description ?? undefined,
+    authority: row.authority,
+    category: row.category as AirworthinessDirective['category'],
+    effectiveDate: new Date(row.effective_date),
+    applicability: row.applicability as AirworthinessDirective['applicability'],
+    recurrence: row.recurrence as AirworthinessDirective['recurrence'],
+    initialCompliance: row.initial_compliance as AirworthinessDirective['initialCompliance'],
+    repeatInterval: (row.repeat_interval as AirworthinessDirective['repeatInterval']) ?? undefined,
+    methodsOfCompliance: row.methods_of_compliance || [],
+    mandatory: row.mandatory,
+    estimatedDowntime: row.estimated_downtime,
+    estimatedCost: row.estimated_cost,
+    supersededBy: row.superseded_by ?? undefined
+  };
+}
+
+export function toDirectiveRow(directive: AirworthinessDirective): Omit<AirworthinessDirectiveRow, 'created_at' | 'updated_at'> {
+  return {
+    id: directive.id,
+    type: directive.type,
+    number: directive.number,
+    title: directive.title,
+    description: directive.description ?? null,
+    authority: directive.authority,
+    category: directive.category,
+    effective_date: toISO(directive.effectiveDate),
+    applicability: directive.applicability as unknown as Record<string, unknown>,
+    recurrence: directive.recurrence,
+    initial_compliance: directive.initialCompliance as unknown as Record<string, unknown>,
+    repeat_interval: (directive.repeatInterval as unknown as Record<string, unknown>) ?? null,
+    methods_of_compliance: directive.methodsOfCompliance,
+    mandatory: directive.mandatory,
+    estimated_downtime: directive.estimatedDowntime,
+    estimated_cost: directive.estimatedCost,
+    superseded_by: directive.supersededBy ?? null
+  };
+}
+
+export function mapDirectiveComplianceRow(row: DirectiveComplianceRow): DirectiveComplianceRecord {
+  return {
+    id: row.id,
+    directiveId: row.directive_id,
+    aircraftId: row.aircraft_id,
+    status: row.status as DirectiveComplianceRecord['status'],
+    methodOfCompliance: row.method_of_compliance ?? undefined,
+    complianceDate: toDate(row.compliance_date),
+    complianceHours: row.compliance_hours ?? undefined,
+    complianceCycles: row.compliance_cycles ?? undefined,
+    nextDueDate: toDate(row.next_due_date),
+    nextDueHours: row.next_due_hours ?? undefined,
+    nextDueCycles: row.next_due_cycles ?? undefined,
+    performedBy: row.performed_by ?? undefined,
+    workOrderId: row.work_order_id ?? undefined,
+    notes: row.notes ?? undefined,
+    updatedAt: new Date(row.updated_at)
+  };
+}
+
+export function toDirectiveComplianceRow(record: DirectiveComplianceRecord): DirectiveComplianceRow {
+  return {
+    id: record.id,
+    directive_id: record.directiveId,
+    aircraft_id: record.aircraftId,
+    status: record.status,
+    method_of_compliance: record.methodOfCompliance ?? null,
+    compliance_date: toISO(record.complianceDate),
+    compliance_hours: record.complianceHours ?? null,
+    compliance_cycles: record.complianceCycles ?? null,
+    next_due_date: toISO(record.nextDueDate),
+    next_due_hours: record.nextDueHours ?? null,
+    next_due_cycles: record.nextDueCycles ?? null,
+    performed_by: record.performedBy ?? null,
+    work_order_id: record.workOrderId ?? null,
+    notes: record.notes ?? null,
+    updated_at: toISO(record.updatedAt) || new Date().toISOString()
+  };
+}
+
+export function mapComponentRow(row: ComponentRow): TrackedComponent {
+  return {
+    id: row.id,
+    partNumber: row.part_number,
+    serialNumber: row.serial_number,
+    description: row.description,
+    category: row.category as TrackedComponent['category'],
+    componentType: row.component_type as TrackedComponent['componentType'],
+    manufactureDate: toDate(row.manufacture_date),
+    lastOverhaulDate: toDate(row.last_overhaul_date),
+    tsn: row.tsn,
+    csn: row.csn,
+    tso: row.tso ?? undefined,
+    cso: row.cso ?? undefined,
+    accruedThrough: toDate(row.accrued_through),
+    lifeLimits: (row.life_limits as unknown as ComponentLifeLimit[]) || [],
+    installedOn: row.installed_aircraft_id ? {
+      aircraftId: row.installed_aircraft_id,
+      position: row.installed_position || '',
+      installedAt: new Date(row.installed_at),
+      aircraftHours: row.install_aircraft_hours ?? 0,
+      aircraftCycles: row.install_aircraft_cycles ?? 0
+    } : undefined,
+    overhaulCost: row.overhaul_cost ?? undefined,
+    updatedAt: new Date(row.updated_at)
+  };
+}
+
+export function toComponentRow(component: TrackedComponent): Omit<ComponentRow, 'created_at' | 'updated_at'> {
+  return {
+    id: component.id,
+    part_number: component.partNumber,
+    serial_number: component.serialNumber,
+    description: component.description,
+    category: component.category,
+    component_type: component.componentType,
+    manufacture_date: toISO(component.manufactureDate),
+    last_overhaul_date: toISO(component.lastOverhaulDate),
+    tsn: component.tsn,
+    csn: component.csn,
+    tso: component.tso ?? null,
+    cso: component.cso ?? null,
+    accrued_through: toISO(component.accruedThrough),
+    life_limits: component.lifeLimits as unknown as Record<string, unknown>[],
+    installed_aircraft_id: component.installedOn?.aircraftId ?? null,
+    installed_position: component.installedOn?.position ?? null,
+    installed_at: toISO(component.installedOn?.installedAt),
+    install_aircraft_hours: component.installedOn?.aircraftHours ?? null,
+    install_aircraft_cycles: component.installedOn?.aircraftCycles ?? null,
+    overhaul_cost: component.overhaulCost ?? null
+  };
+}
+
+export function mapComponentEventRow(row: ComponentEventRow): ComponentEvent {
+  return {
+    id: row.id,
+    componentId: row.component_id,
+    aircraftId: row.aircraft_id ?? undefined,
+    type: row.type as ComponentEvent['type'],
+    position: row.position ?? undefined,
+    date: new Date(row.event_date),
+    aircraftHours: row.aircraft_hours ?? undefined,
+    aircraftCycles: row.aircraft_cycles ?? undefined,
+    tsn: row.tsn,
+    csn: row.csn,
+    tso: row.tso ?? undefined,
+    cso: row.cso ?? undefined,
+    reason: row.reason ?? undefined,
+    performedBy: row.performed_by ?? undefined,
+    workOrderId: row.work_order_id ?? undefined
+  };
+}
+
+export function toComponentEventRow(event: ComponentEvent): Omit<ComponentEventRow, 'created_at'> {
+  return {
+    id: event.id,
+    component_id: event.componentId,
+    aircraft_id: event.aircraftId ?? null,
+    type: event.type,
+    position: event.position ?? null,
+    event_date: toISO(event.date),
+    aircraft_hours: event.aircraftHours ?? null,
+    aircraft_cycles: event.aircraftCycles ?? null,
+    tsn: event.tsn,
+    csn: event.csn,
+    tso: event.tso ?? null,
+    cso: event.cso ?? null,
+    reason: event.reason ?? null,
+    performed_by: event.performedBy ?? null,
+    work_order_id: event.workOrderId ?? null
+  };
+}
+
+export function mapFlightRow(row: FlightRow): FlightHistory {
+  return {
+    id: row.id,
+    aircraftId: row.aircraft_id,
+    flightDate: new Date(row.flight_date),
+    departure: {
+      airport: row.departure_airport,
+      time: new Date(row.departure_time),
+      offTime: toDate(row.off_time),
+      hobbs: row.departure_hobbs ?? undefined
+    },
+    arrival: {
+      airport: row.arrival_airport,
+      time: new Date(row.arrival_time),
+      onTime: toDate(row.on_time),
+      hobbs: row.arrival_hobbs ?? undefined
+    },
+    blockTime: row.block_time,
+    flightTime: row.flight_time,
+    cycles: row.cycles,
+    maxAltitude: row.max_altitude,
+    averageSpeed: row.average_speed,
+    fuelUsed: row.fuel_used ?? undefined,
+    distance: row.distance,
+    route: row.route ?? undefined,
+    pilotInCommand: row.pilot_in_command,
+    secondInCommand: row.second_in_command ?? undefined,
+    notes: row.notes ?? undefined,
+    dataSource: (row.data_source as FlightHistory['dataSource']) ?? undefined
+  };
+}
+
+export function toFlightRow(flight: FlightHistory): Omit<FlightRow, 'created_at'> {
+  return {
+    id: flight.id,
+    aircraft_id: flight.aircraftId,
+    flight_date: toISO(flight.flightDate),
+    departure_airport: flight.departure.airport,
+    departure_time: toISO(flight.departure.time),
+    off_time: toISO(flight.departure.offTime),
+    departure_hobbs: flight.departure.hobbs ?? null,
+    arrival_airport: flight.arrival.airport,
+    arrival_time: toISO(flight.arrival.time),
+    on_time: toISO(flight.arrival.onTime),
+    arrival_hobbs: flight.arrival.hobbs ?? null,
+    block_time: flight.blockTime,
+    flight_time: flight.flightTime,
+    cycles: flight.cycles,
+    max_altitude: flight.maxAltitude,
+    average_speed: flight.averageSpeed,
+    fuel_used: flight.fuelUsed ?? null,
+    distance: flight.distance,
+    route: flight.route ?? null,
+    pilot_in_command: flight.pilotInCommand,
+    second_in_command: flight.secondInCommand ?? null,
+    notes: flight.notes ?? null,
+    data_source: flight.dataSource ?? null
+  };
+}
+
+export function mapPositionReportRow(row: PositionReportRow): PositionReport {
+  return {
+    id: row.id,
+    aircraftId: row.aircraft_id,
+    tailNumber: row.tail_number,
+    timestamp: new Date(row.reported_at),
+    latitude: row.latitude,
+    longitude: row.longitude,
+    altitude: row.altitude,
+    groundSpeed: row.ground_speed,
+    track: row.track,
+    verticalRate: row.vertical_rate,
+    isOnGround: row.is_on_ground,
+    flightPhase: row.flight_phase as PositionReport['flightPhase'],
+    dataSource: row.data_source as PositionReport['dataSource']
+  };
+}
+
+export function toPositionReportRow(report: PositionReport): Omit<PositionReportRow, 'created_at'> {
+  return {
+    id: report.id,
+    aircraft_id: report.aircraftId,
+    tail_number: report.tailNumber,
+    reported_at: new Date(report.timestamp).toISOString(),
+    latitude: report.latitude,
+    longitude: report.longitude,
+    altitude: report.altitude,
+    ground_speed: report.groundSpeed,
+    track: report.track,
+    vertical_rate: report.verticalRate,
+    is_on_ground: report.isOnGround,
+    flight_phase: report.flightPhase,
+    data_source: report.dataSource
+  };
+}
+
+const POSITION_REPORT_PAGE_SIZE = 1000;
+
+// Supabase-backed implementation
+export class SupabaseFleetRepository implements FleetRepository {
+  constructor(private client: SupabaseClient) {}
+
+  async listAircraft(): Promise<Aircraft[]> {
+    const { data, error } = await this.client.from('aircraft').select('*').order('tail_number');
+    if (error) throw new Error(`Failed to load aircraft: ${error.message}`);
+    return (data as AircraftRow[]).map(mapAircraftRow);
+  }
+
+  async getAircraft(id: string): Promise<Aircraft | null> {
+    const { data, error } = await this.client.from('aircraft').select('*').eq('id', id).maybeSingle();
+    if (error) throw new Error(`Failed to load aircraft ${id}: ${error.message}`);
+    return data ? mapAircraftRow(data as AircraftRow) : null;
+  }
+
+  async findAircraftByTailNumber(tailNumber: string): Promise<Aircraft | null> {
+    const { data, error } = await this.client
+      .from('aircraft')
+      .select('*')
+      .eq('tail_number', tailNumber.toUpperCase())
+      .maybeSingle();
+    if (error) throw new Error(`Failed to load aircraft ${tailNumber}: ${error.message}`);
+    return data ? mapAircraftRow(data as AircraftRow) : null;
+  }
+
+  async saveAircraft(aircraft: Aircraft): Promise<Aircraft> {
+    const row = { ...toAircraftRow(aircraft), updated_at: new Date().toISOString() };
+    const { data, error } = await this.client.from('aircraft').upsert(row).select().single();
+    if (error) throw new Error(`Failed to save aircraft ${aircraft.tailNumber}: ${error.message}`);
+    return mapAircraftRow(data as AircraftRow);
+  }
+
+  async listMaintenanceIntervals(aircraftId?: string): Promise<MaintenanceInterval[]> {
+    let query = this.client.from('maintenance_intervals').select('*');
+    if (aircraftId) query = query.eq('aircraft_id', aircraftId);
+
+    const { data, error } = await query.order('next_due_at');
+    if (error) throw new Error(`Failed to load maintenance intervals: ${error.message}`);
+    return (data as MaintenanceIntervalRow[]).map(mapMaintenanceIntervalRow);
+  }
+
+  async saveMaintenanceInterval(interval: MaintenanceInterval): Promise<MaintenanceInterval> {
+    const row = { ...toMaintenanceIntervalRow(interval), updated_at: new Date().toISOString() };
+    const { data, error } = await this.client.from('maintenance_intervals').upsert(row).select().single();
+    if (error) throw new Error(`Failed to save maintenance interval ${interval.id}: ${error.message}`);
+    return mapMaintenanceIntervalRow(data as MaintenanceIntervalRow);
+  }
+
+  async listWorkOrders(aircraftId?: string): Promise<WorkOrder[]> {
+    let query = this.client.from('work_orders').select('*');
+    if (aircraftId) query = query.eq('aircraft_id', aircraftId);
+
+    const { data, error } = await query.order('scheduled_start_date');
+    if (error) throw new Error(`Failed to load work orders: ${error.message}`);
+    return (data as WorkOrderRow[]).map(mapWorkOrderRow);
+  }
+
+  async getWorkOrder(id: string): Promise<WorkOrder | null> {
+    const { data, error } = await this.client.from('work_orders').select('*').eq('id', id).maybeSingle();
+    if (error) throw new Error(`Failed to load work order ${id}: ${error.message}`);
+    return data ? mapWorkOrderRow(data as WorkOrderRow) : null;
+  }
+
+  async saveWorkOrder(workOrder: WorkOrder): Promise<WorkOrder> {
+    const row = { ...toWorkOrderRow(workOrder), updated_at: new Date().toISOString() };
+    const { data, error } = await this.client.from('work_orders').upsert(row).select().single();
+    if (error) throw new Error(`Failed to save work order ${workOrder.workOrderNumber}: ${error.message}`);
+    return { ...mapWorkOrderRow(data as WorkOrderRow), partsRequired: workOrder.partsRequired, signOffData: workOrder.signOffData };
+  }
+
+  async listDirectives(): Promise<AirworthinessDirective[]> {
+    const { data, error } = await this.client.from('airworthiness_directives').select('*').order('number');
+    if (error) throw new Error(`Failed to load airworthiness directives: ${error.message}`);
+    return (data as AirworthinessDirectiveRow[]).map(mapDirectiveRow);
+  }
+
+  async saveDirective(directive: AirworthinessDirective): Promise<AirworthinessDirective> {
+    const row = { ...toDirectiveRow(directive), updated_at: new Date().toISOString() };
+    const { data, error } = await this.client.from('airworthiness_directives').upsert(row).select().single();
+    if (error) throw new Error(`Failed to save directive ${directive.number}: ${error.message}`);
+    return mapDirectiveRow(data as AirworthinessDirectiveRow);
+  }
+
+  async listDirectiveCompliance(aircraftId?: string): Promise<DirectiveComplianceRecord[]> {
+    let query = this.client.from('directive_compliance').select('*');
+    if (aircraftId) query = query.eq('aircraft_id', aircraftId);
+
+    const { data, error } = await query;
+    if (error) throw new Error(`Failed to load directive compliance: ${error.message}`);
+    return (data as DirectiveComplianceRow[]).map(mapDirectiveComplianceRow);
+  }
+
+  async saveDirectiveCompliance(record: DirectiveComplianceRecord): Promise<DirectiveComplianceRecord> {
+    const { data, error } = await this.client.from('directive_compliance').upsert(toDirectiveComplianceRow(record)).select().single();
+    if (error) throw new Error(`Failed to save directive compliance ${record.id}: ${error.message}`);
+    return mapDirectiveComplianceRow(data as DirectiveComplianceRow);
+  }
+
+  async listComponents(aircraftId?: string): Promise<TrackedComponent[]> {
+    let query = this.client.from('components').select('*');
+    if (aircraftId) query = query.eq('installed_aircraft_id', aircraftId);
+
+    const { data, error } = await query.order('part_number');
+    if (error) throw new Error(`Failed to load components: ${error.message}`);
+    return (data as ComponentRow[]).map(mapComponentRow);
+  }
+
+  async getComponent(id: string): Promise<TrackedComponent | null> {
+    const { data, error } = await this.client.from('components').select('*').eq('id', id).maybeSingle();
+    if (error) throw new Error(`Failed to load component ${id}: ${error.message}`);
+    return data ? mapComponentRow(data as ComponentRow) : null;
+  }
+
+  async saveComponent(component: TrackedComponent): Promise<TrackedComponent> {
+    const row = { ...toComponentRow(component), updated_at: new Date().toISOString() };
+    const { data, error } = await this.client.from('components').upsert(row).select().single();
+    if (error) throw new Error(`Failed to save component ${component.serialNumber}: ${error.message}`);
+    return mapComponentRow(data as ComponentRow);
+  }
+
+  async listComponentEvents(componentId?: string): Promise<ComponentEvent[]> {
+    let query = this.client.from('component_events').select('*');
+    if (componentId) query = query.eq('component_id', componentId);
+
+    const { data, error } = await query.order('event_date');
+    if (error) throw new Error(`Failed to load component events: ${error.message}`);
+    return (data as ComponentEventRow[]).map(mapComponentEventRow);
+  }
+
+  async saveComponentEvent(event: ComponentEvent): Promise<ComponentEvent> {
+    const { data, error } = await this.client.from('component_events').upsert(toComponentEventRow(event)).select().single();
+    if (error) throw new Error(`Failed to save component event ${event.id}: ${error.message}`);
+    return mapComponentEventRow(data as ComponentEventRow);
+  }
+
+  async listFlights(aircraftId?: string): Promise<FlightHistory[]> {
+    let query = this.client.from('flights').select('*');
+    if (aircraftId) query = query.eq('aircraft_id', aircraftId);
+
+    const { data, error } = await query.order('departure_time');
+    if (error) throw new Error(`Failed to load flights: ${error.message}`);
+    return (data as FlightRow[]).map(mapFlightRow);
+  }
+
+  async saveFlight(flight: FlightHistory): Promise<FlightHistory> {
+    const { data, error } = await this.client.from('flights').upsert(toFlightRow(flight)).select().single();
+    if (error) throw new Error(`Failed to save flight ${flight.id}: ${error.message}`);
+    return mapFlightRow(data as FlightRow);
+  }
+
+  // A long flight is thousands of reports and PostgREST caps each response (1000 rows by default),
+  // so pages are read until one comes back empty
+  async listPositionReports(aircraftId: string, from: Date, to: Date): Promise<PositionReport[]> {
+    const rows: PositionReportRow[] = [];
+    let page: PositionReportRow[];
+    do {
+      const { data, error } = await this.client
+        .from('position_reports')
+        .select('*')
+        .eq('aircraft_id', aircraftId)
+        .gte('reported_at', from.toISOString())
+        .lte('reported_at', to.toISOString())
+        .order('reported_at')
+        .order('id')
+        .range(rows.length, rows.length + POSITION_REPORT_PAGE_SIZE - 1);
+      if (error) throw new Error(`Failed to load position reports: ${error.message}`);
+      page = (data || []) as PositionReportRow[];
+      rows.push(...page);
+    } while (page.length > 0);
+    return rows.map(mapPositionReportRow);
+  }
+
+  async savePositionReports(reports: PositionReport[]): Promise<void> {
+    if (reports.length === 0) return;
+    const { error } = await this.client.from('position_reports').upsert(reports.map(toPositionReportRow));
+    if (error) throw new Error(`Failed to save ${reports.length} position reports: ${error.message}`);
+  }
+}
+
+const IN_MEMORY_TRACK_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// In-memory implementation (local development and tests)
+export class InMemoryFleetRepository implements FleetRepository {
+  private aircraft = new Map<string, Aircraft>();
+  private intervals = new Map<string, MaintenanceInterval>();
+  private workOrders = new Map<string, WorkOrder>();
+  private directives = new Map<string, AirworthinessDirective>();
+  private directiveCompliance = new Map<string, DirectiveComplianceRecord>();
+  private components = new Map<string, TrackedComponent>();
+  private componentEvents = new Map<string, ComponentEvent>();
+  private flights = new Map<string, FlightHistory>();
+  private positionReports = new Map<string, PositionReport[]>(); // aircraft id -> reports, oldest first
+
+  constructor(seed: {
+    aircraft?: Aircraft[];
+    intervals?: MaintenanceInterval[];
+    workOrders?: WorkOrder[];
+    directives?: AirworthinessDirective[];
+    directiveCompliance?: DirectiveComplianceRecord[];
+    components?: TrackedComponent[];
+    componentEvents?: ComponentEvent[];
+    flights?: FlightHistory[];
+  } = {}) {
+    seed.aircraft?.forEach(a => this.aircraft.set(a.id, { ...a }));
+    seed.intervals?.forEach(i => this.intervals.set(i.id, { ...i }));
+    seed.workOrders?.forEach(w => this.workOrders.set(w.id, { ...w }));
+    seed.directives?.forEach(d => this.directives.set(d.id, { ...d }));
+    seed.directiveCompliance?.forEach(r => this.directiveCompliance.set(r.id, { ...r }));
+    seed.components?.forEach(c => this.components.set(c.id, { ...c }));
+    seed.componentEvents?.forEach(e => this.componentEvents.set(e.id, { ...e }));
+    seed.flights?.forEach(f => this.flights.set(f.id, { ...f }));
+  }
+
+  async listAircraft(): Promise<Aircraft[]> {
+    return Array.from(this.aircraft.values())
+      .map(a => ({ ...a }))
+      .sort((a, b) => a.tailNumber.localeCompare(b.tailNumber));
+  }
+
+  async getAircraft(id: string): Promise<Aircraft | null> {
+    const aircraft = this.aircraft.get(id);
+    return aircraft ? { ...aircraft } : null;
+  }
+
+  async findAircraftByTailNumber(tailNumber: string): Promise<Aircraft | null> {
+    const match = Array.from(this.aircraft.values())
+      .find(a => a.tailNumber.toUpperCase() === tailNumber.toUpperCase());
+    return match ? { ...match } : null;
+  }
+
+  async saveAircraft(aircraft: Aircraft): Promise<Aircraft> {
+    const saved = { ...aircraft, updatedAt: new Date() };
+    this.aircraft.set(saved.id, saved);
+    return { ...saved };
+  }
+
+  async listMaintenanceIntervals(aircraftId?: string): Promise<MaintenanceInterval[]> {
+    return Array.from(this.intervals.values())
+      .filter(i => !aircraftId || i.aircraftId === aircraftId)
+      .map(i => ({ ...i }));
+  }
+
+  async saveMaintenanceInterval(interval: MaintenanceInterval): Promise<MaintenanceInterval> {
+    this.intervals.set(interval.id, { ...interval });
+    return { ...interval };
+  }
+
+  async listWorkOrders(aircraftId?: string): Promise<WorkOrder[]> {
+    return Array.from(this.workOrders.values())
+      .filter(w => !aircraftId || w.aircraftId === aircraftId)
+      .map(w => ({ ...w }));
+  }
+
+  async getWorkOrder(id: string): Promise<WorkOrder | null> {
+    const workOrder = this.workOrders.get(id);
+    return workOrder ? { ...workOrder } : null;
+  }
+
+  async saveWorkOrder(workOrder: WorkOrder): Promise<WorkOrder> {
+    this.workOrders.set(workOrder.id, { ...workOrder });
+    return { ...workOrder };
+  }
+
+  async listDirectives(): Promise<AirworthinessDirective[]> {
+    return Array.from(this.directives.values())
+      .map(d => ({ ...d }))
+      .sort((a, b) => a.number.localeCompare(b.number));
+  }
+
+  async saveDirective(directive: AirworthinessDirective): Promise<AirworthinessDirective> {
+    this.directives.set(directive.id, { ...directive });
+    return { ...directive };
+  }
+
+  async listDirectiveCompliance(aircraftId?: string): Promise<DirectiveComplianceRecord[]> {
+    return Array.from(this.directiveCompliance.values())
+      .filter(r => !aircraftId || r.aircraftId === aircraftId)
+      .map(r => ({ ...r }));
+  }
+
+  async saveDirectiveCompliance(record: DirectiveComplianceRecord): Promise<DirectiveComplianceRecord> {
+    this.directiveCompliance.set(record.id, { ...record });
+    return { ...record };
+  }
+
+  async listComponents(aircraftId?: string): Promise<TrackedComponent[]> {
+    return Array.from(this.components.values())
+      .filter(c => !aircraftId || c.installedOn?.aircraftId === aircraftId)
+      .map(c => ({ ...c }))
+      .sort((a, b) => a.partNumber.localeCompare(b.partNumber));
+  }
+
+  async getComponent(id: string): Promise<TrackedComponent | null> {
+    const component = this.components.get(id);
+    return component ? { ...component } : null;
+  }
+
+  async saveComponent(component: TrackedComponent): Promise<TrackedComponent> {
+    const saved = { ...component, updatedAt: new Date() };
+    this.components.set(saved.id, saved);
+    return { ...saved };
+  }
+
+  async listComponentEvents(componentId?: string): Promise<ComponentEvent[]> {
+    return Array.from(this.componentEvents.values())
+      .filter(e => !componentId || e.componentId === componentId)
+      .map(e => ({ ...e }))
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  }
+
+  async saveComponentEvent(event: ComponentEvent): Promise<ComponentEvent> {
+    this.componentEvents.set(event.id, { ...event });
+    return { ...event };
+  }
+
+  async listFlights(aircraftId?: string): Promise<FlightHistory[]> {
+    return Array.from(this.flights.values())
+      .filter(f => !aircraftId || f.aircraftId === aircraftId)
+      .map(f => ({ ...f }))
+      .sort((a, b) => new Date(a.departure.time).getTime() - new Date(b.departure.time).getTime());
+  }
+
+  async saveFlight(flight: FlightHistory): Promise<FlightHistory> {
+    this.flights.set(flight.id, { ...flight });
+    return { ...flight };
+  }
+
+  async listPositionReports(aircraftId: string, from: Date, to: Date): Promise<PositionReport[]> {
+    return (this.positionReports.get(aircraftId) || [])
+      .filter(r => r.timestamp >= from && r.timestamp <= to)
+      .map(r => ({ ...r }));
+  }
+
+  // Keeps the last week per aircraft so a long-running dev server doesn't grow without bound
+  async savePositionReports(reports: PositionReport[]): Promise<void> {
+    reports.forEach(report => {
+      const stored = (this.positionReports.get(report.aircraftId) || []).filter(r => r.id !== report.id);
+      stored.push({ ...report, timestamp: new Date(report.timestamp) });
+      stored.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+      const retainFrom = stored[stored.length - 1].timestamp.getTime() - IN_MEMORY_TRACK_RETENTION_MS;
+      this.positionReports.set(report.aircraftId, stored.filter(r => r.timestamp.getTime() >= retainFrom));
+    });
+  }
+}
+
+// Repository selection: Supabase when configured, otherwise the seeded demo fleet
+let fleetRepository: FleetRepository | null = null;
+
+export async function getFleetRepository(): Promise<FleetRepository> {
+  if (fleetRepository) return fleetRepository;
+
+  if (process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY && process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    // Imported lazily: lib/supabase throws when its environment variables are missing
+    const { supabaseAdmin } = await import('./supabase');
+    fleetRepository = new SupabaseFleetRepository(supabaseAdmin);
+  } else {
+    console.log('🗄️  Supabase not configured, using in-memory fleet repository');
+    fleetRepository = new InMemoryFleetRepository({
+      aircraft: MOCK_AIRCRAFT,
+      intervals: MOCK_MAINTENANCE_INTERVALS,
+      workOrders: MOCK_WORK_ORDERS,
+      directives: MOCK_DIRECTIVES,
+      directiveCompliance: MOCK_DIRECTIVE_COMPLIANCE,
+      components: MOCK_COMPONENTS,
+      componentEvents: MOCK_COMPONENT_EVENTS
+    });
+  }
+
+  return fleetRepository;
+}
+
+// Allows tests and scripts to swap in their own implementation
+export function setFleetRepository(repository: FleetRepository | null): void {
+  fleetRepository = repository;
+}
@@ -0,0 +1,283 @@
+/**
+ * Flight Log
+ * Builds flights from the tracking stream and records them against the airframe.
+ * - Opens a flight on block out (taxi) or takeoff, closes it on block in (parked) after landing
+ * - Out/off/on/in times, maximum altitude and distance flown come from the tracked positions
+ * - Recorded flights advance the aircraft's total time and cycles and accrue onto installed components
+ */
+
+import { Aircraft, AircraftPosition, FlightData, FlightHistory, TrackedComponent } from '@/types';
+import {
+  FlightTrackingEvent,
+  FlightTrackingService,
+  calculateDistance,
+  getFlightTrackingService
+} from './flight-tracking';
+import { FleetRepository, getFleetRepository } from './fleet-repository';
+import { accrueComponentTime } from './component-tracking';
+
+// A flight in progress for one aircraft
+interface OpenFlight {
+  tailNumber: string;
+  aircraftId: string;
+  dataSource: FlightData['dataSource'];
+  out: Date;
+  off?: Date;
+  on?: Date;
+  departureAirport?: string;
+  arrivalAirport?: string;
+  maxAltitude: number;
+  distance: number; // nautical miles
+  lastPosition: AircraftPosition;
+  lastOnGround?: Date;
+}
+
+export type FlightCompletedListener = (flight: FlightHistory, tailNumber: string) => void;
+
+const minutesBetween = (from: Date, to: Date) => Math.max(0, Math.round((to.getTime() - from.getTime()) / 60000));
+
+export class FlightSegmentDetector {
+  private openFlights = new Map<string, OpenFlight>();
+  private listeners = new Set<FlightCompletedListener>();
+  private unsubscribe: (() => void) | null = null;
+
+  // Start following a tracking service; returns a function that detaches again
+  attach(service: FlightTrackingService): () => void {
+    this.detach();
+    this.unsubscribe = service.subscribe(event => this.handleEvent(event), {
+      types: ['POSITION_UPDATE', 'TAKEOFF', 'LANDING', 'STALE_DATA']
+    });
+    return () => this.detach();
+  }
+
+  detach() {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  onFlightCompleted(listener: FlightCompletedListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getOpenFlight(tailNumber: string): Readonly<OpenFlight> | undefined {
+    return this.openFlights.get(tailNumber);
+  }
+
+  // Live flight data with the engine, block and flight time of the flight in progress
+  describeCurrentFlight(flightData: FlightData, now: Date = new Date()): FlightData {
+    const flight = this.openFlights.get(flightData.tailNumber);
+    if (!flight) return flightData;
+
+    const blockTime = minutesBetween(flight.out, now);
+    return {
+      ...flightData,
+      engineRunTime: blockTime,
+      blockTime,
+      flightTime: flight.off ? minutesBetween(flight.off, flight.on || now) : 0,
+      cycles: flight.off ? 1 : 0,
+      actualDeparture: flightData.actualDeparture || flight.off,
+      actualArrival: flightData.actualArrival || flight.on
+    };
+  }
+
+  handleEvent(event: FlightTrackingEvent) {
+    switch (event.type) {
+      case 'POSITION_UPDATE':
+        this.handlePosition(event.position, event.flightData);
+        break;
+      case 'TAKEOFF':
+        this.handleTakeoff(event.position, event.flightData);
+        break;
+      case 'LANDING':
+        this.handleLanding(event.position, event.flightData);
+        break;
+      case 'STALE_DATA': {
+        // Lost contact after landing: close at the last contact; before takeoff: drop the taxi
+        const flight = this.openFlights.get(event.tailNumber);
+        if (!flight) break;
+        if (flight.on) {
+          this.closeFlight(flight, event.lastContact || flight.lastPosition.lastSeen);
+        } else if (!flight.off) {
+          this.openFlights.delete(event.tailNumber);
+        }
+        break;
+      }
+    }
+  }
+
+  private handlePosition(position: AircraftPosition, flightData: FlightData) {
+    const flight = this.openFlights.get(position.tailNumber);
+
+    if (!flight) {
+      if (position.isOnGround && position.flightPhase === 'TAXI') {
+        this.openFlight(position, flightData, new Date(position.lastSeen));
+      } else if (!position.isOnGround && flightData.actualDeparture) {
+        // First seen airborne: the provider's departure time stands in for out and off
+        const off = new Date(flightData.actualDeparture);
+        const opened = this.openFlight(position, flightData, off);
+        opened.off = off;
+        opened.departureAirport = flightData.departureAirport;
+      }
+      return;
+    }
+
+    this.trackPosition(flight, position);
+    if (!position.isOnGround || position.flightPhase !== 'PARKED') return;
+
+    if (flight.on) {
+      flight.arrivalAirport = position.airport || flight.arrivalAirport;
+      this.closeFlight(flight, new Date(position.lastSeen));
+    } else if (!flight.off) {
+      this.openFlights.delete(position.tailNumber); // taxied back without flying
+    }
+  }
+
+  private handleTakeoff(position: AircraftPosition, flightData: FlightData) {
+    let flight = this.openFlights.get(position.tailNumber);
+
+    // Departing again before parking: the previous flight ends where this one begins
+    if (flight?.on) {
+      const previous = flight;
+      const turnaround = previous.lastOnGround || previous.on;
+      this.closeFlight(previous, turnaround);
+      flight = this.openFlight(position, flightData, turnaround);
+      flight.departureAirport = previous.arrivalAirport;
+    }
+    if (!flight) {
+      flight = this.openFlight(position, flightData, new Date(position.lastSeen));
+    }
+
+    flight.off = new Date(position.lastSeen);
+    flight.departureAirport = flight.departureAirport || flightData.departureAirport;
+    this.trackPosition(flight, position);
+  }
+
+  private handleLanding(position: AircraftPosition, flightData: FlightData) {
+    const flight = this.openFlights.get(position.tailNumber);
+    if (!flight?.off) return; // takeoff never seen; without it there is no flight time
+
+    this.trackPosition(flight, position);
+    flight.on = new Date(position.lastSeen);
+    flight.arrivalAirport = position.airport || flightData.arrivalAirport;
+  }
+
+  private openFlight(position: AircraftPosition, flightData: FlightData, out: Date): OpenFlight {
+    const flight: OpenFlight = {
+      tailNumber: position.tailNumber,
+      aircraftId: flightData.aircraftId,
+      dataSource: flightData.dataSource,
+      out,
+      departureAirport: position.airport || flightData.departureAirport,
+      maxAltitude: position.altitude,
+      distance: 0,
+      lastPosition: position
+    };
+    this.openFlights.set(position.tailNumber, flight);
+    return flight;
+  }
+
+  private trackPosition(flight: OpenFlight, position: AircraftPosition) {
+    const previous = flight.lastPosition;
+    flight.distance += calculateDistance(previous.latitude, previous.longitude, position.latitude, position.longitude);
+    flight.maxAltitude = Math.max(flight.maxAltitude, position.altitude);
+    flight.lastPosition = position;
+    if (position.isOnGround) flight.lastOnGround = new Date(position.lastSeen);
+  }
+
+  private closeFlight(flight: OpenFlight, blockIn: Date) {
+    this.openFlights.delete(flight.tailNumber);
+    if (!flight.off || !flight.on) return;
+
+    const flightTime = minutesBetween(flight.off, flight.on);
+    const record: FlightHistory = {
+      id: `flt-${flight.tailNumber.toLowerCase()}-${flight.off.getTime()}`,
+      aircraftId: flight.aircraftId,
+      flightDate: flight.off,
+      departure: { airport: flight.departureAirport || 'UNKNOWN', time: flight.out, offTime: flight.off },
+      arrival: { airport: flight.arrivalAirport || 'UNKNOWN', time: blockIn, onTime: flight.on },
+      blockTime: minutesBetween(flight.out, blockIn),
+      flightTime,
+      cycles: 1,
+      maxAltitude: flight.maxAltitude,
+      averageSpeed: flightTime > 0 ? Math.round(flight.distance / (flightTime / 60)) : 0,
+      distance: Math.round(flight.distance),
+      pilotInCommand: 'Not recorded',
+      notes: `Detected from ${flight.dataSource} tracking data`,
+      dataSource: flight.dataSource
+    };
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(record, flight.tailNumber);
+      } catch (error) {
+        console.error(`Flight completion listener failed for ${flight.tailNumber}:`, error);
+      }
+    });
+  }
+}
+
+export interface RecordedFlights {
+  flights: FlightHistory[]; // newly recorded; flights already in the log are skipped
+  aircraft: Aircraft[];
+  components: TrackedComponent[];
+}
+
+// Record flights in the log, move the airframe totals and accrue onto every component installed at the time
+export async function recordFlights(fleetRepository: FleetRepository, flights: FlightHistory[]): Promise<RecordedFlights> {
+  const result: RecordedFlights = { flights: [], aircraft: [], components: [] };
+  const aircraftIds = Array.from(new Set(flights.map(flight => flight.aircraftId)));
+
+  for (const aircraftId of aircraftIds) {
+    const aircraft = await fleetRepository.getAircraft(aircraftId);
+    if (!aircraft) throw new Error(`Aircraft ${aircraftId} not found`);
+
+    const logged = new Set((await fleetRepository.listFlights(aircraftId)).map(flight => flight.id));
+    const newFlights = flights.filter(flight => flight.aircraftId === aircraftId && !logged.has(flight.id));
+    if (newFlights.length === 0) continue;
+
+    for (const flight of newFlights) {
+      result.flights.push(await fleetRepository.saveFlight(flight));
+    }
+
+    const hours = newFlights.reduce((sum, flight) => sum + flight.flightTime / 60, 0);
+    const cycles = newFlights.reduce((sum, flight) => sum + flight.cycles, 0);
+    result.aircraft.push(await fleetRepository.saveAircraft({
+      ...aircraft,
+      totalAircraftTime: Math.round((aircraft.totalAircraftTime + hours) * 10) / 10,
+      totalCycles: aircraft.totalCycles + cycles
+    }));
+
+    for (const component of await fleetRepository.listComponents(aircraftId)) {
+      const accrued = accrueComponentTime(component, newFlights);
+      if (accrued !== component) result.components.push(await fleetRepository.saveComponent(accrued));
+    }
+  }
+
+  return result;
+}
+
+// Shared detector on the shared tracking service; completed flights are recorded automatically
+let flightSegmentDetector: FlightSegmentDetector | null = null;
+
+export function getFlightSegmentDetector(): FlightSegmentDetector {
+  if (flightSegmentDetector) return flightSegmentDetector;
+
+  flightSegmentDetector = new FlightSegmentDetector();
+  flightSegmentDetector.attach(getFlightTrackingService());
+  flightSegmentDetector.onFlightCompleted((flight, tailNumber) => {
+    recordDetectedFlight(flight, tailNumber).catch(error =>
+      console.error(`Failed to record detected flight for ${tailNumber}:`, error));
+  });
+
+  return flightSegmentDetector;
+}
+
+// Tracking ids are provider ids (e.g. ICAO hex), so detected flights are matched to the fleet by tail number
+async function recordDetectedFlight(flight: FlightHistory, tailNumber: string) {
+  const fleetRepository = await getFleetRepository();
+  const aircraft = await fleetRepository.findAircraftByTailNumber(tailNumber);
+  if (!aircraft) return;
+
+  await recordFlights(fleetRepository, [{ ...flight, aircraftId: aircraft.id }]);
+}
@@ -1,15 +1,34 @@
-import { FlightData, AircraftPosition, FlightHistory } from '@/types';
+import { FlightData, AircraftPosition, FlightHistory, FlightBasedAlert } from '@/types';
+import { LocalAdsbReceiver, LocalReceiverConfig } from './adsb-receiver';
+import { icaoToNNumber, isIcaoAddress, nNumberToIcao } from './n-number';
+import { ProviderRateLimit, ProviderRateLimiter, ProviderStatus } from './provider-rate-limiter';
+import {
+  AeroApiFlight,
+  AeroApiFlightsResponse,
+  AeroApiPositionResponse,
+  mapAeroApiFlightData,
+  mapAeroApiFlightHistory,
+  selectPositionFlight
+} from './flightaware';
 
 // OpenSky Network API integration (free tier)
 const OPENSKY_BASE_URL = 'https://opensky-network.org/api';
 
 // FlightAware API integration (commercial - requires API key)
 const FLIGHTAWARE_BASE_URL = 'https://aeroapi.flightaware.com/aeroapi';
+const FLIGHTAWARE_HISTORY_DAYS = 10; // /flights/{ident} covers the last 10 days
+
+// Live sources, in the order they are usually chained; MANUAL holds positions reported by hand
+export type FlightDataProvider = 'LOCAL_ADSB' | 'OPENSKY' | 'FLIGHTAWARE' | 'MANUAL';
 
 export interface FlightTrackingConfig {
-  provider: 'OPENSKY' | 'FLIGHTAWARE' | 'MOCK';
+  provider: FlightDataProvider | 'MOCK'; // used alone when no providers chain is given
+  providers?: FlightDataProvider[]; // fallback chain, queried in order until every aircraft has fresh data
+  rateLimits?: Partial<Record<FlightDataProvider, ProviderRateLimit>>; // defaults to DEFAULT_RATE_LIMITS
   apiKey?: string;
+  localReceiver?: LocalReceiverConfig; // for LOCAL_ADSB
   updateInterval: number; // seconds
+  staleAfter?: number; // seconds without contact before an aircraft is reported stale; defaults to 3 update intervals
   enabledFeatures: {
     realTimeTracking: boolean;
     flightHistory: boolean;
@@ -17,6 +36,126 @@ export interface FlightTrackingConfig {
   };
 }
 
+export type FlightPhase = AircraftPosition['flightPhase'];
+
+export type FlightTrackingEventType = 'POSITION_UPDATE' | 'PHASE_CHANGE' | 'TAKEOFF' | 'LANDING' | 'STALE_DATA' | 'MAINTENANCE_ALERT';
+
+interface FlightTrackingEventBase {
+  id: number; // increases monotonically per service, so clients can resume after the last id they saw
+  tailNumber: string;
+  timestamp: Date;
+}
+
+export type FlightTrackingEvent =
+  | (FlightTrackingEventBase & { type: 'POSITION_UPDATE'; position: AircraftPosition; flightData: FlightData })
+  | (FlightTrackingEventBase & { type: 'PHASE_CHANGE'; from: FlightPhase; to: FlightPhase; position: AircraftPosition })
+  | (FlightTrackingEventBase & { type: 'TAKEOFF' | 'LANDING'; position: AircraftPosition; flightData: FlightData })
+  | (FlightTrackingEventBase & { type: 'STALE_DATA'; lastContact?: Date; secondsSinceContact?: number })
+  | (FlightTrackingEventBase & { type: 'MAINTENANCE_ALERT'; alert: FlightBasedAlert });
+
+export type FlightTrackingListener = (event: FlightTrackingEvent) => void;
+
+// Narrows what a listener receives; omitted fields match everything
+export interface FlightTrackingEventFilter {
+  types?: FlightTrackingEventType[];
+  tailNumbers?: string[];
+}
+
+// Last observation per aircraft, used to detect transitions between updates
+interface TrackedAircraftState {
+  phase: FlightPhase;
+  isOnGround: boolean;
+  lastContact: Date;
+  stale: boolean;
+}
+
+const RECENT_EVENT_LIMIT = 500;
+
+// Anonymous OpenSky state vectors refresh every 10 s; AeroAPI's personal tier allows 10 queries a minute
+const DEFAULT_RATE_LIMITS: Partial<Record<FlightDataProvider, ProviderRateLimit>> = {
+  OPENSKY: { maxRequests: 1, windowSeconds: 10, maxBackoffSeconds: 3600 },
+  FLIGHTAWARE: { maxRequests: 10, windowSeconds: 60 }
+};
+
+interface ResolvedAircraft {
+  tailNumber?: string;
+  icaoAddress?: string;
+}
+
+type DistributiveOmit<T, K extends keyof any> = T extends unknown ? Omit<T, K> : never;
+
+export function matchesEventFilter(event: FlightTrackingEvent, filter: FlightTrackingEventFilter = {}): boolean {
+  if (filter.types && !filter.types.includes(event.type)) return false;
+  if (filter.tailNumbers && !filter.tailNumbers.some(tail => tail.toUpperCase() === event.tailNumber.toUpperCase())) return false;
+  return true;
+}
+
+const MOCK_EPOCH = Date.now();
+const MOCK_TURNAROUND_MS = 60 * 60 * 1000;
+const MOCK_DEFAULT_LEG_MS = 2 * 60 * 60 * 1000;
+
+// Fly airborne mock flights on from their listed position to the destination, park for a turnaround, fly
+// the leg back and park again, on repeat, so the demo fleet keeps moving and landing on a bounded route
+function advanceMockFlight(flight: FlightData, now: Date): FlightData {
+  const contact = { ...flight, lastContact: now, lastUpdated: now };
+  if (flight.isOnGround || flight.groundSpeed === 0) return contact;
+
+  const arrives = flight.estimatedArrival ? new Date(flight.estimatedArrival).getTime() : MOCK_EPOCH + MOCK_DEFAULT_LEG_MS;
+  const legMs = Math.max(arrives - MOCK_EPOCH, 60 * 1000);
+  const elapsed = Math.max(0, now.getTime() - MOCK_EPOCH) % (2 * (legMs + MOCK_TURNAROUND_MS));
+  const returning = elapsed >= legMs + MOCK_TURNAROUND_MS;
+  const legElapsed = returning ? elapsed - legMs - MOCK_TURNAROUND_MS : elapsed;
+  const legStart = now.getTime() - legElapsed;
+  // The first leg was already under way when the demo started
+  const departed = legStart === MOCK_EPOCH && flight.actualDeparture ? new Date(flight.actualDeparture) : new Date(legStart);
+
+  // Distance out from the listed position along its track
+  const track = flight.track * Math.PI / 180;
+  const legDistance = flight.groundSpeed * legMs / 3600000; // nautical miles
+  const positionAt = (distance: number) => ({
+    latitude: flight.latitude + distance * Math.cos(track) / 60,
+    longitude: flight.longitude + distance * Math.sin(track) / (60 * Math.cos(flight.latitude * Math.PI / 180))
+  });
+  const leg = {
+    track: returning ? (flight.track + 180) % 360 : flight.track,
+    departureAirport: returning ? flight.arrivalAirport : flight.departureAirport,
+    arrivalAirport: returning ? flight.departureAirport : flight.arrivalAirport,
+    actualDeparture: departed
+  };
+  const minutesSince = (time: number) => Math.round((time - departed.getTime()) / 60000);
+
+  if (legElapsed >= legMs) {
+    // On the ground at the end of the leg until the turnaround is over
+    return {
+      ...contact,
+      ...positionAt(returning ? 0 : legDistance),
+      altitude: 0,
+      groundSpeed: 0,
+      verticalRate: 0,
+      isOnGround: true,
+      flightStatus: 'LANDED',
+      ...leg,
+      actualArrival: new Date(legStart + legMs),
+      estimatedArrival: undefined,
+      engineRunTime: minutesSince(legStart + legMs),
+      blockTime: minutesSince(legStart + legMs),
+      flightTime: minutesSince(legStart + legMs)
+    };
+  }
+
+  const flown = flight.groundSpeed * legElapsed / 3600000;
+  return {
+    ...contact,
+    ...positionAt(returning ? legDistance - flown : flown),
+    ...leg,
+    actualArrival: undefined,
+    estimatedArrival: new Date(legStart + legMs),
+    engineRunTime: minutesSince(now.getTime()),
+    blockTime: minutesSince(now.getTime()),
+    flightTime: minutesSince(now.getTime())
+  };
+}
+
 // Mock data for demonstration
 const MOCK_FLIGHT_DATA: FlightData[] = [
   {
@@ -99,99 +238,166 @@ const MOCK_FLIGHT_DATA: FlightData[] = [
 // OpenSky Network API functions
 export class FlightTrackingService {
   private config: FlightTrackingConfig;
-  private updateTimers: Map<string, NodeJS.Timeout> = new Map();
+  private trackedAircraft: Map<string, ResolvedAircraft> = new Map(); // tail number -> identifiers
+  private startedAircraft: Set<string> = new Set(); // tracked until stopped explicitly
+  private trackingHolds: Map<string, number> = new Map(); // tail number -> live subscribers holding it
+  private pollTimer: NodeJS.Timeout | null = null;
+  private listeners: Map<FlightTrackingListener, FlightTrackingEventFilter> = new Map();
+  private trackedState: Map<string, TrackedAircraftState> = new Map();
+  private recentEvents: FlightTrackingEvent[] = [];
+  private nextEventId = 1;
+  private localReceiver: LocalAdsbReceiver | null = null;
+  private icaoTailNumbers: Map<string, string> = new Map(); // lowercase ICAO hex -> tail number
+  private manualFlightData: Map<string, FlightData> = new Map();
+  private rateLimiter: ProviderRateLimiter;
 
   constructor(config: FlightTrackingConfig) {
     this.config = config;
+    this.rateLimiter = new ProviderRateLimiter({ ...DEFAULT_RATE_LIMITS, ...config.rateLimits });
+    if (this.getProviderChain().includes('LOCAL_ADSB')) {
+      this.localReceiver = new LocalAdsbReceiver(config.localReceiver);
+    }
   }
 
-  // Get real-time flight data for a specific aircraft
-  async getAircraftFlightData(icaoAddress: string): Promise<FlightData | null> {
-    if (this.config.provider === 'MOCK') {
-      // Return mock data for demonstration
-      return MOCK_FLIGHT_DATA.find(flight => 
-        flight.tailNumber.toLowerCase().includes(icaoAddress.toLowerCase())
-      ) || null;
-    }
+  // Providers in query order; empty in MOCK mode
+  getProviderChain(): FlightDataProvider[] {
+    if (this.config.providers && this.config.providers.length > 0) return this.config.providers;
+    return this.config.provider === 'MOCK' ? [] : [this.config.provider];
+  }
 
-    try {
-      if (this.config.provider === 'OPENSKY') {
-        return await this.getOpenSkyFlightData(icaoAddress);
-      } else if (this.config.provider === 'FLIGHTAWARE') {
-        return await this.getFlightAwareData(icaoAddress);
-      }
-    } catch (error) {
-      console.error('Error fetching flight data:', error);
-      return null;
+  getProviderStatus(): ProviderStatus[] {
+    return this.getProviderChain().map(provider => this.rateLimiter.getStatus(provider));
+  }
+
+  getLocalReceiver(): LocalAdsbReceiver | null {
+    return this.localReceiver;
+  }
+
+  // Tail numbers for ICAO addresses, so receiver data is reported against the fleet's tails
+  registerAircraft(aircraftList: Array<{ tailNumber: string; icaoAddress?: string }>) {
+    aircraftList.forEach(aircraft => {
+      if (aircraft.icaoAddress) this.icaoTailNumbers.set(aircraft.icaoAddress.toLowerCase(), aircraft.tailNumber);
+    });
+  }
+
+  // Tail number and ICAO hex for either one; registered fleet addresses win over the US N-number block
+  resolveIdentifier(identifier: string): { tailNumber?: string; icaoAddress?: string } {
+    const value = identifier.trim();
+    if (isIcaoAddress(value)) {
+      const icaoAddress = value.toLowerCase();
+      return { icaoAddress, tailNumber: this.icaoTailNumbers.get(icaoAddress) || icaoToNNumber(icaoAddress) || undefined };
     }
 
-    return null;
+    const tailNumber = value.toUpperCase();
+    const registered = Array.from(this.icaoTailNumbers.entries())
+      .find(([, registeredTail]) => registeredTail.toUpperCase() === tailNumber);
+    return { tailNumber, icaoAddress: registered ? registered[0] : nNumberToIcao(tailNumber) || undefined };
   }
 
-  // Get all aircraft positions for fleet
-  async getFleetPositions(tailNumbers: string[]): Promise<AircraftPosition[]> {
-    if (this.config.provider === 'MOCK') {
-      return MOCK_FLIGHT_DATA.map(flight => ({
-        tailNumber: flight.tailNumber,
-        latitude: flight.latitude,
-        longitude: flight.longitude,
-        altitude: flight.altitude,
-        heading: flight.track,
-        groundSpeed: flight.groundSpeed,
-        isOnGround: flight.isOnGround,
-        lastSeen: flight.lastContact,
-        airport: flight.isOnGround ? (flight.arrivalAirport || flight.departureAirport) : undefined,
-        flightPhase: this.determineFlightPhase(flight)
-      }));
+  // Get real-time flight data for a specific aircraft, by tail number or ICAO hex
+  async getAircraftFlightData(identifier: string): Promise<FlightData | null> {
+    const [flightData] = await this.getFleetFlightData([identifier]);
+    return flightData ?? null;
+  }
+
+  // Freshest data per aircraft across the provider chain. Each provider is only asked about aircraft
+  // still without fresh data, and providers in rate-limit backoff are skipped.
+  async getFleetFlightData(identifiers: string[]): Promise<FlightData[]> {
+    const aircraft = identifiers.map(identifier => this.resolveIdentifier(identifier));
+
+    if (this.getProviderChain().length === 0) {
+      // Return mock data for demonstration, as if it had just been received
+      const now = new Date();
+      return aircraft
+        .map(({ tailNumber }) => MOCK_FLIGHT_DATA.find(flight => flight.tailNumber === tailNumber))
+        .filter((flight): flight is FlightData => !!flight)
+        .map(flight => advanceMockFlight(flight, now));
     }
 
-    const positions: AircraftPosition[] = [];
-    
-    for (const tailNumber of tailNumbers) {
+    const freshest: Array<FlightData | undefined> = aircraft.map(() => undefined);
+    for (const provider of this.getProviderChain()) {
+      const pending = aircraft
+        .map((_, index) => index)
+        .filter(index => !freshest[index] || this.isStale(new Date(freshest[index].lastContact)));
+      if (pending.length === 0) break;
+      if (!this.rateLimiter.isAvailable(provider)) continue;
+
       try {
-        const flightData = await this.getAircraftFlightData(tailNumber);
-        if (flightData) {
-          positions.push({
-            tailNumber: flightData.tailNumber,
-            latitude: flightData.latitude,
-            longitude: flightData.longitude,
-            altitude: flightData.altitude,
-            heading: flightData.track,
-            groundSpeed: flightData.groundSpeed,
-            isOnGround: flightData.isOnGround,
-            lastSeen: flightData.lastContact,
-            airport: flightData.isOnGround ? (flightData.arrivalAirport || flightData.departureAirport) : undefined,
-            flightPhase: this.determineFlightPhase(flightData)
-          });
-        }
+        const results = await this.fetchFromProvider(provider, pending.map(index => aircraft[index]));
+        results.forEach((result, k) => {
+          const current = freshest[pending[k]];
+          if (result && (!current || new Date(result.lastContact) > new Date(current.lastContact))) {
+            freshest[pending[k]] = result;
+          }
+        });
       } catch (error) {
-        console.error(`Error fetching position for ${tailNumber}:`, error);
+        console.error(`Error fetching flight data from ${provider}:`, error);
       }
     }
 
-    return positions;
+    return freshest.filter((flightData): flightData is FlightData => !!flightData);
   }
 
-  // OpenSky Network API implementation
-  private async getOpenSkyFlightData(icaoAddress: string): Promise<FlightData | null> {
-    const url = `${OPENSKY_BASE_URL}/states/all?icao24=${icaoAddress.toLowerCase()}`;
-    
-    const response = await fetch(url);
+  // One provider's data for a set of aircraft, in the same order (null where it has none)
+  private async fetchFromProvider(provider: FlightDataProvider, aircraft: ResolvedAircraft[]): Promise<Array<FlightData | null>> {
+    switch (provider) {
+      case 'LOCAL_ADSB':
+        await this.localReceiver.refresh();
+        return aircraft.map(({ icaoAddress, tailNumber }) => icaoAddress ? this.localReceiver.toFlightData(icaoAddress, tailNumber) : null);
+      case 'OPENSKY':
+        return this.getOpenSkyFleetData(aircraft);
+      case 'FLIGHTAWARE': {
+        // One query per tail; stop asking once the quota for this window is used up
+        const results: Array<FlightData | null> = [];
+        for (const { tailNumber } of aircraft) {
+          results.push(tailNumber && this.rateLimiter.isAvailable('FLIGHTAWARE') ? await this.getFlightAwareData(tailNumber) : null);
+        }
+        return results;
+      }
+      case 'MANUAL':
+        return aircraft.map(({ tailNumber }) => (tailNumber && this.manualFlightData.get(tailNumber)) || null);
+    }
+  }
+
+  // Record a position reported by hand (crew or dispatch); used by the MANUAL provider
+  reportManualFlightData(flightData: FlightData) {
+    const manual: FlightData = { ...flightData, tailNumber: flightData.tailNumber.toUpperCase(), dataSource: 'MANUAL' };
+    this.manualFlightData.set(manual.tailNumber, manual);
+    return manual;
+  }
+
+  // Get all aircraft positions for fleet
+  async getFleetPositions(tailNumbers: string[]): Promise<AircraftPosition[]> {
+    const flightData = await this.getFleetFlightData(tailNumbers);
+    return flightData.map(flight => this.toPosition(flight));
+  }
+
+  // OpenSky Network API implementation: one states/all query for the whole fleet
+  private async getOpenSkyFleetData(aircraft: ResolvedAircraft[]): Promise<Array<FlightData | null>> {
+    const icaoAddresses = Array.from(new Set(aircraft.map(entry => entry.icaoAddress).filter(Boolean)));
+    if (icaoAddresses.length === 0) return aircraft.map(() => null);
+
+    const url = `${OPENSKY_BASE_URL}/states/all?${icaoAddresses.map(icaoAddress => `icao24=${icaoAddress}`).join('&')}`;
+    const response = await this.rateLimiter.fetch('OPENSKY', url);
     if (!response.ok) {
       throw new Error(`OpenSky API error: ${response.status}`);
     }
 
     const data = await response.json();
-    if (!data.states || data.states.length === 0) {
-      return null;
-    }
+    const states = new Map<string, any[]>((data.states || []).map((state: any[]) => [String(state[0]).toLowerCase(), state]));
+    return aircraft.map(({ icaoAddress, tailNumber }) => {
+      const state = icaoAddress && states.get(icaoAddress);
+      return state ? this.mapOpenSkyState(state, tailNumber) : null;
+    });
+  }
 
-    const state = data.states[0];
-    
+  // State vector fields: https://openskynetwork.github.io/opensky-api/rest.html#all-state-vectors
+  private mapOpenSkyState(state: any[], tailNumber?: string): FlightData {
+    const icaoAddress = String(state[0]).toLowerCase();
     return {
       id: `opensky-${icaoAddress}-${Date.now()}`,
       aircraftId: icaoAddress,
-      tailNumber: state[1] || icaoAddress, // callsign or icao if no callsign
+      tailNumber: tailNumber || state[1]?.trim() || icaoAddress, // callsign or icao if the registration is unknown
       callsign: state[1],
       squawk: state[14],
       latitude: state[6] || 0,
@@ -208,15 +414,37 @@ export class FlightTrackingService {
     };
   }
 
-  // FlightAware API implementation (requires API key)
+  // FlightAware API implementation (requires API key): the tail's flights, then the last position
+  // of the latest flight to leave the gate
   private async getFlightAwareData(tailNumber: string): Promise<FlightData | null> {
+    const flights = await this.getFlightAwareFlights(tailNumber);
+    const positionFlight = selectPositionFlight(flights);
+    if (!positionFlight) return null;
+
+    const data: AeroApiPositionResponse = await this.fetchFlightAware(`/flights/${encodeURIComponent(positionFlight.fa_flight_id)}/position`);
+    return mapAeroApiFlightData(tailNumber, flights, data.last_position);
+  }
+
+  // Completed flights from FlightAware, newest first (AeroAPI keeps the last 10 days on this endpoint)
+  async getFlightAwareHistory(tailNumber: string, days: number = FLIGHTAWARE_HISTORY_DAYS): Promise<FlightHistory[]> {
+    const start = new Date(Date.now() - Math.min(days, FLIGHTAWARE_HISTORY_DAYS) * 24 * 60 * 60 * 1000);
+    const flights = await this.getFlightAwareFlights(tailNumber, start);
+    return mapAeroApiFlightHistory(tailNumber, flights);
+  }
+
+  private async getFlightAwareFlights(tailNumber: string, start?: Date): Promise<AeroApiFlight[]> {
+    const params = new URLSearchParams({ ident_type: 'registration' });
+    if (start) params.set('start', start.toISOString().replace(/\.\d{3}Z$/, 'Z'));
+    const data: AeroApiFlightsResponse = await this.fetchFlightAware(`/flights/${encodeURIComponent(tailNumber.toUpperCase())}?${params}`);
+    return data.flights || [];
+  }
+
+  private async fetchFlightAware(path: string): Promise<any> {
     if (!this.config.apiKey) {
       throw new Error('FlightAware API key required');
     }
 
-    const url = `${FLIGHTAWARE_BASE_URL}/flights/${tailNumber}`;
-    
-    const response = await fetch(url, {
+    const response = await this.rateLimiter.fetch('FLIGHTAWARE', `${FLIGHTAWARE_BASE_URL}${path}`, {
       headers: {
         'x-apikey': this.config.apiKey
       }
@@ -225,26 +453,24 @@ export class FlightTrackingService {
     if (!response.ok) {
       throw new Error(`FlightAware API error: ${response.status}`);
     }
+    return response.json();
+  }
 
-    const data = await response.json();
-    // Implementation would depend on FlightAware's response format
-    // This is a simplified example
-    
+  private toPosition(flight: FlightData): AircraftPosition {
     return {
-      id: `flightaware-${tailNumber}-${Date.now()}`,
-      aircraftId: tailNumber,
-      tailNumber: tailNumber,
-      latitude: data.latitude || 0,
-      longitude: data.longitude || 0,
-      altitude: data.altitude || 0,
-      groundSpeed: data.groundspeed || 0,
-      track: data.heading || 0,
-      verticalRate: data.vertical_rate || 0,
-      isOnGround: data.on_ground || false,
-      lastContact: new Date(data.last_position),
-      flightStatus: data.status || 'ACTIVE',
-      dataSource: 'FLIGHTAWARE',
-      lastUpdated: new Date()
+      tailNumber: flight.tailNumber,
+      latitude: flight.latitude,
+      longitude: flight.longitude,
+      altitude: flight.altitude,
+      heading: flight.track,
+      groundSpeed: flight.groundSpeed,
+      isOnGround: flight.isOnGround,
+      lastSeen: flight.lastContact,
+      // On the ground after landing the aircraft is at the destination, before takeoff at the origin
+      airport: flight.isOnGround
+        ? (flight.flightStatus === 'LANDED' ? flight.arrivalAirport || flight.departureAirport : flight.departureAirport || flight.arrivalAirport)
+        : undefined,
+      flightPhase: this.determineFlightPhase(flight)
     };
   }
 
@@ -275,52 +501,203 @@ export class FlightTrackingService {
     return 'CRUISE';
   }
 
-  // Start real-time tracking for fleet
+  // Start real-time tracking for fleet; the whole fleet is polled together each update interval
   startFleetTracking(aircraftList: Array<{ tailNumber: string; icaoAddress?: string }>) {
+    aircraftList.forEach(aircraft => this.startedAircraft.add(aircraft.tailNumber));
+    this.trackAircraft(aircraftList);
+  }
+
+  // Track aircraft for as long as a live subscriber (e.g. an SSE connection) needs them. Returns the
+  // release; an aircraft stops being polled once its last holder releases it, unless it was started explicitly.
+  holdFleetTracking(aircraftList: Array<{ tailNumber: string; icaoAddress?: string }>): () => void {
+    const tailNumbers = aircraftList.map(aircraft => aircraft.tailNumber);
+    tailNumbers.forEach(tailNumber => this.trackingHolds.set(tailNumber, (this.trackingHolds.get(tailNumber) || 0) + 1));
+    this.trackAircraft(aircraftList);
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      tailNumbers.forEach(tailNumber => {
+        const holds = this.trackingHolds.get(tailNumber);
+        if (holds === undefined) return; // stopped in the meantime
+        if (holds > 1) {
+          this.trackingHolds.set(tailNumber, holds - 1);
+          return;
+        }
+        this.trackingHolds.delete(tailNumber);
+        if (!this.startedAircraft.has(tailNumber)) this.removeTrackedAircraft(tailNumber);
+      });
+    };
+  }
+
+  getTrackingHolds(tailNumber: string): number {
+    return this.trackingHolds.get(tailNumber) || 0;
+  }
+
+  private trackAircraft(aircraftList: Array<{ tailNumber: string; icaoAddress?: string }>) {
+    this.registerAircraft(aircraftList);
     aircraftList.forEach(aircraft => {
-      if (this.updateTimers.has(aircraft.tailNumber)) {
+      if (this.trackedAircraft.has(aircraft.tailNumber)) {
         return; // Already tracking
       }
+      this.trackedAircraft.set(aircraft.tailNumber, { tailNumber: aircraft.tailNumber, icaoAddress: aircraft.icaoAddress });
+    });
 
-      const timer = setInterval(async () => {
-        try {
-          const flightData = await this.getAircraftFlightData(aircraft.icaoAddress || aircraft.tailNumber);
-          if (flightData) {
-            // Emit event or call callback with updated data
-            this.onFlightDataUpdate(flightData);
-          }
-        } catch (error) {
-          console.error(`Error updating flight data for ${aircraft.tailNumber}:`, error);
-        }
-      }, this.config.updateInterval * 1000);
+    if (!this.pollTimer && this.trackedAircraft.size > 0) {
+      this.pollTimer = setInterval(() => this.pollTrackedAircraft(), this.config.updateInterval * 1000);
+    }
+  }
 
-      this.updateTimers.set(aircraft.tailNumber, timer);
-    });
+  private async pollTrackedAircraft() {
+    const tailNumbers = Array.from(this.trackedAircraft.keys());
+    try {
+      const flightData = await this.getFleetFlightData(tailNumbers);
+      flightData.forEach(flight => this.ingestFlightData(flight));
+      tailNumbers
+        .filter(tailNumber => !flightData.some(flight => flight.tailNumber.toUpperCase() === tailNumber.toUpperCase()))
+        .forEach(tailNumber => this.checkStale(tailNumber));
+    } catch (error) {
+      console.error('Error updating fleet flight data:', error);
+    }
   }
 
-  // Stop tracking for a specific aircraft
+  // Stop tracking for a specific aircraft, whoever started it
   stopAircraftTracking(tailNumber: string) {
-    const timer = this.updateTimers.get(tailNumber);
-    if (timer) {
-      clearInterval(timer);
-      this.updateTimers.delete(tailNumber);
+    this.startedAircraft.delete(tailNumber);
+    this.trackingHolds.delete(tailNumber);
+    this.removeTrackedAircraft(tailNumber);
+  }
+
+  private removeTrackedAircraft(tailNumber: string) {
+    this.trackedAircraft.delete(tailNumber);
+    if (this.trackedAircraft.size === 0 && this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
     }
   }
 
   // Stop all tracking
   stopAllTracking() {
-    this.updateTimers.forEach(timer => clearInterval(timer));
-    this.updateTimers.clear();
-  }
-
-  // Callback for when flight data is updated
-  private onFlightDataUpdate(flightData: FlightData) {
-    // This would typically emit an event or call a callback
-    // For now, we'll just log it
-    console.log(`Flight data updated for ${flightData.tailNumber}:`, {
-      position: `${flightData.latitude}, ${flightData.longitude}`,
-      altitude: flightData.altitude,
-      status: flightData.flightStatus
+    this.trackedAircraft.clear();
+    this.startedAircraft.clear();
+    this.trackingHolds.clear();
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    this.pollTimer = null;
+    this.localReceiver?.disconnect();
+  }
+
+  getTrackedAircraft(): string[] {
+    return Array.from(this.trackedAircraft.keys());
+  }
+
+  // Register a listener; returns a function that removes it again
+  subscribe(listener: FlightTrackingListener, filter: FlightTrackingEventFilter = {}): () => void {
+    this.listeners.set(listener, filter);
+    return () => this.unsubscribe(listener);
+  }
+
+  unsubscribe(listener: FlightTrackingListener) {
+    this.listeners.delete(listener);
+  }
+
+  // Buffered events after the given id, oldest first
+  getRecentEvents(sinceId: number = 0, filter: FlightTrackingEventFilter = {}): FlightTrackingEvent[] {
+    return this.recentEvents.filter(event => event.id > sinceId && matchesEventFilter(event, filter));
+  }
+
+  getLastEventId(): number {
+    return this.nextEventId - 1;
+  }
+
+  // Whether every event after the given id is still buffered
+  canResumeFrom(eventId: number): boolean {
+    const oldest = this.recentEvents.length > 0 ? this.recentEvents[0].id : this.nextEventId;
+    return eventId <= this.getLastEventId() && eventId >= oldest - 1;
+  }
+
+  // Publish a maintenance alert on the tracking stream so live clients receive it in order
+  publishMaintenanceAlert(tailNumber: string, alert: FlightBasedAlert) {
+    this.emit({ type: 'MAINTENANCE_ALERT', tailNumber, alert });
+  }
+
+  // Process a new observation: emits a position update plus any phase, takeoff or landing transition
+  ingestFlightData(flightData: FlightData) {
+    const tailNumber = flightData.tailNumber;
+    const lastContact = new Date(flightData.lastContact);
+    const previous = this.trackedState.get(tailNumber);
+
+    // Old data is not used for transitions; it only marks the aircraft stale
+    if (previous && lastContact <= previous.lastContact) {
+      this.checkStale(tailNumber);
+      return;
+    }
+    if (this.isStale(lastContact)) {
+      const state = previous ?? { phase: this.determineFlightPhase(flightData), isOnGround: flightData.isOnGround, stale: false };
+      this.trackedState.set(tailNumber, { ...state, lastContact });
+      this.checkStale(tailNumber);
+      return;
+    }
+
+    const position = this.toPosition(flightData);
+    this.trackedState.set(tailNumber, {
+      phase: position.flightPhase,
+      isOnGround: flightData.isOnGround,
+      lastContact,
+      stale: false
+    });
+
+    this.emit({ type: 'POSITION_UPDATE', tailNumber, position, flightData });
+    if (!previous) return;
+
+    if (previous.phase !== position.flightPhase) {
+      this.emit({ type: 'PHASE_CHANGE', tailNumber, from: previous.phase, to: position.flightPhase, position });
+    }
+    if (previous.isOnGround && !flightData.isOnGround) {
+      this.emit({ type: 'TAKEOFF', tailNumber, position, flightData });
+    } else if (!previous.isOnGround && flightData.isOnGround) {
+      this.emit({ type: 'LANDING', tailNumber, position, flightData });
+    }
+  }
+
+  // Report an aircraft stale once when its last contact is older than the threshold
+  checkStale(tailNumber: string, now: Date = new Date()) {
+    const state = this.trackedState.get(tailNumber);
+    if (state?.stale) return;
+    if (state && !this.isStale(state.lastContact, now)) return;
+
+    this.trackedState.set(tailNumber, state
+      ? { ...state, stale: true }
+      : { phase: 'PARKED', isOnGround: true, lastContact: new Date(0), stale: true });
+    this.emit({
+      type: 'STALE_DATA',
+      tailNumber,
+      lastContact: state?.lastContact,
+      secondsSinceContact: state ? Math.round((now.getTime() - state.lastContact.getTime()) / 1000) : undefined
+    });
+  }
+
+  private isStale(lastContact: Date, now: Date = new Date()): boolean {
+    const staleAfter = this.config.staleAfter ?? this.config.updateInterval * 3;
+    return now.getTime() - lastContact.getTime() > staleAfter * 1000;
+  }
+
+  private emit(event: DistributiveOmit<FlightTrackingEvent, 'id' | 'timestamp'>) {
+    const emitted = { ...event, id: this.nextEventId++, timestamp: new Date() } as FlightTrackingEvent;
+
+    this.recentEvents.push(emitted);
+    if (this.recentEvents.length > RECENT_EVENT_LIMIT) {
+      this.recentEvents.splice(0, this.recentEvents.length - RECENT_EVENT_LIMIT);
+    }
+
+    // A failing listener must not stop the others or the tracking timer
+    this.listeners.forEach((filter, listener) => {
+      if (!matchesEventFilter(emitted, filter)) return;
+      try {
+        listener(emitted);
+      } catch (error) {
+        console.error(`Flight tracking listener failed on ${emitted.type} for ${emitted.tailNumber}:`, error);
+      }
     });
   }
 
@@ -378,11 +755,36 @@ export function calculateDistance(lat1: number, lon1: number, lat2: number, lon2
 
 // Export default configuration
 export const defaultFlightTrackingConfig: FlightTrackingConfig = {
-  provider: 'MOCK', // Start with mock data for development
+  provider: (process.env.FLIGHT_TRACKING_PROVIDER as FlightTrackingConfig['provider']) || 'MOCK', // Start with mock data for development
+  providers: process.env.FLIGHT_TRACKING_PROVIDERS
+    ? process.env.FLIGHT_TRACKING_PROVIDERS.split(',').map(provider => provider.trim().toUpperCase() as FlightDataProvider)
+    : undefined,
+  apiKey: process.env.FLIGHTAWARE_API_KEY,
+  localReceiver: {
+    aircraftJson: process.env.ADSB_AIRCRAFT_JSON,
+    sbsHost: process.env.ADSB_SBS_HOST,
+    sbsPort: process.env.ADSB_SBS_PORT ? parseInt(process.env.ADSB_SBS_PORT) : undefined,
+    beastHost: process.env.ADSB_BEAST_HOST,
+    beastPort: process.env.ADSB_BEAST_PORT ? parseInt(process.env.ADSB_BEAST_PORT) : undefined,
+    reference: process.env.ADSB_RECEIVER_LAT && process.env.ADSB_RECEIVER_LON
+      ? { latitude: parseFloat(process.env.ADSB_RECEIVER_LAT), longitude: parseFloat(process.env.ADSB_RECEIVER_LON) }
+      : undefined
+  },
   updateInterval: 30, // 30 seconds
+  staleAfter: 120, // 2 minutes
   enabledFeatures: {
     realTimeTracking: true,
     flightHistory: true,
     alertGeneration: true
   }
-}; 
\ No newline at end of file
+};
+
+// Shared service so every route subscribes to the same stream
+let flightTrackingService: FlightTrackingService | null = null;
+
+export function getFlightTrackingService(): FlightTrackingService {
+  if (!flightTrackingService) {
+    flightTrackingService = new FlightTrackingService(defaultFlightTrackingConfig);
+  }
+  return flightTrackingService;
+}
@@ -0,0 +1,212 @@
+/**
+ * FlightAware AeroAPI v4
+ * Maps AeroAPI flight and position payloads onto FlightData and FlightHistory.
+ * - `/flights/{registration}` lists recent and scheduled flights with out/off/on/in times
+ * - `/flights/{fa_flight_id}/position` carries the last reported position of one flight
+ * - Times are ISO 8601 UTC; altitudes are in hundreds of feet, route distance in statute miles
+ */
+
+import { FlightData, FlightHistory } from '@/types';
+
+export interface AeroApiAirport {
+  code: string | null; // ICAO when known, else IATA or LID
+  code_icao: string | null;
+  code_iata: string | null;
+  code_lid?: string | null;
+  name?: string | null;
+  city?: string | null;
+  timezone?: string | null;
+}
+
+export interface AeroApiFlight {
+  ident: string;
+  ident_icao?: string | null;
+  fa_flight_id: string;
+  registration?: string | null;
+  aircraft_type?: string | null;
+  origin: AeroApiAirport | null;
+  destination: AeroApiAirport | null;
+  scheduled_out: string | null;
+  estimated_out: string | null;
+  actual_out: string | null;
+  scheduled_off: string | null;
+  estimated_off: string | null;
+  actual_off: string | null;
+  scheduled_on: string | null;
+  estimated_on: string | null;
+  actual_on: string | null;
+  scheduled_in: string | null;
+  estimated_in: string | null;
+  actual_in: string | null;
+  status: string; // free text, e.g. "En Route / On Time", "Arrived / Gate Arrival"
+  cancelled: boolean;
+  diverted: boolean;
+  departure_delay?: number | null; // seconds
+  filed_altitude?: number | null;  // hundreds of feet
+  filed_airspeed?: number | null;  // knots
+  route_distance?: number | null;  // statute miles
+  route?: string | null;
+  progress_percent?: number | null;
+}
+
+export interface AeroApiFlightsResponse {
+  flights: AeroApiFlight[];
+  links?: { next: string } | null;
+  num_pages?: number;
+}
+
+export interface AeroApiPosition {
+  fa_flight_id: string | null;
+  altitude: number;          // hundreds of feet
+  altitude_change: 'C' | 'D' | '-';
+  groundspeed: number;       // knots
+  heading: number | null;
+  latitude: number;
+  longitude: number;
+  timestamp: string;
+  update_type?: string | null; // P projected, O oceanic, Z radar, A ADS-B, M multilateration, D datalink, X surface, S space-based
+}
+
+export interface AeroApiPositionResponse {
+  fa_flight_id: string;
+  ident: string;
+  last_position: AeroApiPosition | null;
+}
+
+const STATUTE_TO_NAUTICAL = 0.868976;
+const DELAY_THRESHOLD_SECONDS = 15 * 60; // FAA on-time standard
+const UPCOMING_WINDOW_MS = 3 * 60 * 60 * 1000; // a departure this close describes the aircraft better than its last arrival
+
+const toDate = (value?: string | null) => (value ? new Date(value) : undefined);
+const minutesBetween = (from: Date, to: Date) => Math.round((to.getTime() - from.getTime()) / 60000);
+
+function airportCode(airport: AeroApiAirport | null): string | undefined {
+  return airport ? airport.code_icao || airport.code || airport.code_iata || undefined : undefined;
+}
+
+// Gate (out/in) times, falling back to runway (off/on) times where the gate time isn't reported
+function departedAt(flight: AeroApiFlight) {
+  return toDate(flight.actual_out || flight.actual_off);
+}
+
+function arrivedAt(flight: AeroApiFlight) {
+  return toDate(flight.actual_in || flight.actual_on);
+}
+
+export function mapAeroApiFlightStatus(flight: AeroApiFlight): FlightData['flightStatus'] {
+  if (flight.cancelled) return 'CANCELLED';
+  if (flight.actual_on || flight.actual_in) return 'LANDED';
+  if (flight.actual_off || flight.actual_out) return 'ACTIVE';
+
+  const scheduled = toDate(flight.scheduled_out);
+  const estimated = toDate(flight.estimated_out);
+  const delay = flight.departure_delay ?? (scheduled && estimated ? (estimated.getTime() - scheduled.getTime()) / 1000 : 0);
+  return delay >= DELAY_THRESHOLD_SECONDS || /delayed/i.test(flight.status) ? 'DELAYED' : 'SCHEDULED';
+}
+
+// The flight that describes the aircraft now: one in progress, else a departure due within 3 hours,
+// else the latest arrival, else the next departure
+export function selectCurrentFlight(flights: AeroApiFlight[], now: Date = new Date()): AeroApiFlight | undefined {
+  const operated = flights.filter(flight => !flight.cancelled);
+  const byDeparture = (flight: AeroApiFlight) => (departedAt(flight) || toDate(flight.scheduled_out) || new Date(0)).getTime();
+
+  const inProgress = operated.filter(flight => departedAt(flight) && !arrivedAt(flight));
+  if (inProgress.length > 0) return inProgress.sort((a, b) => byDeparture(b) - byDeparture(a))[0];
+
+  const arrived = operated.filter(flight => arrivedAt(flight)).sort((a, b) => arrivedAt(b).getTime() - arrivedAt(a).getTime());
+  const upcoming = operated
+    .filter(flight => !departedAt(flight) && (toDate(flight.scheduled_out)?.getTime() ?? 0) >= now.getTime() - 6 * 60 * 60 * 1000)
+    .sort((a, b) => byDeparture(a) - byDeparture(b));
+
+  const next = upcoming[0];
+  if (next && byDeparture(next) - now.getTime() <= UPCOMING_WINDOW_MS) return next;
+  return arrived[0] || next;
+}
+
+// The most recent flight that has left the gate; its last position is where the aircraft is (or was left)
+export function selectPositionFlight(flights: AeroApiFlight[]): AeroApiFlight | undefined {
+  return flights
+    .filter(flight => departedAt(flight))
+    .sort((a, b) => departedAt(b).getTime() - departedAt(a).getTime())[0];
+}
+
+// Current state for a tail; null when AeroAPI has no position for any of its flights
+export function mapAeroApiFlightData(
+  tailNumber: string,
+  flights: AeroApiFlight[],
+  position: AeroApiPosition | null,
+  now: Date = new Date()
+): FlightData | null {
+  const flight = selectCurrentFlight(flights, now);
+  if (!flight || !position) return null;
+
+  const flightStatus = mapAeroApiFlightStatus(flight);
+  // A scheduled or delayed flight hasn't left yet, so the aircraft sits where its last flight ended
+  const isOnGround = flightStatus !== 'ACTIVE' || position.update_type === 'X' || !flight.actual_off;
+  const actualDeparture = toDate(flight.actual_off || flight.actual_out);
+  const actualArrival = toDate(flight.actual_on || flight.actual_in);
+  const out = toDate(flight.actual_out);
+  const off = toDate(flight.actual_off);
+  const on = toDate(flight.actual_on);
+
+  return {
+    id: `flightaware-${flight.fa_flight_id}`,
+    aircraftId: tailNumber.toLowerCase(),
+    tailNumber: tailNumber.toUpperCase(),
+    callsign: flight.ident_icao || flight.ident,
+    latitude: position.latitude,
+    longitude: position.longitude,
+    altitude: isOnGround ? 0 : position.altitude * 100,
+    groundSpeed: isOnGround && flightStatus !== 'ACTIVE' ? 0 : position.groundspeed,
+    track: position.heading ?? 0,
+    verticalRate: 0, // AeroAPI only reports climbing/descending, not a rate
+    isOnGround,
+    lastContact: new Date(position.timestamp),
+    flightStatus,
+    departureAirport: airportCode(flight.origin),
+    arrivalAirport: airportCode(flight.destination),
+    estimatedDeparture: toDate(flight.estimated_out || flight.scheduled_out),
+    actualDeparture,
+    estimatedArrival: toDate(flight.estimated_in || flight.estimated_on || flight.scheduled_in),
+    actualArrival,
+    blockTime: out ? minutesBetween(out, toDate(flight.actual_in) || now) : undefined,
+    flightTime: off ? minutesBetween(off, on || now) : undefined,
+    cycles: on ? 1 : 0,
+    dataSource: 'FLIGHTAWARE',
+    lastUpdated: now
+  };
+}
+
+// Completed flights (gate or runway times at both ends) as flight history, newest first
+export function mapAeroApiFlightHistory(tailNumber: string, flights: AeroApiFlight[]): FlightHistory[] {
+  return flights
+    .filter(flight => !flight.cancelled && departedAt(flight) && arrivedAt(flight))
+    .map(flight => {
+      const out = departedAt(flight);
+      const blockIn = arrivedAt(flight);
+      const off = toDate(flight.actual_off);
+      const on = toDate(flight.actual_on);
+      const flightTime = off && on ? minutesBetween(off, on) : minutesBetween(out, blockIn);
+      const distance = Math.round((flight.route_distance || 0) * STATUTE_TO_NAUTICAL);
+
+      return {
+        id: `flightaware-${flight.fa_flight_id}`,
+        aircraftId: tailNumber.toLowerCase(),
+        flightDate: off || out,
+        departure: { airport: airportCode(flight.origin) || 'UNKNOWN', time: out, offTime: off },
+        // A diverted flight's destination is where it was filed to, not where it landed
+        arrival: { airport: (!flight.diverted && airportCode(flight.destination)) || 'UNKNOWN', time: blockIn, onTime: on },
+        blockTime: minutesBetween(out, blockIn),
+        flightTime,
+        cycles: 1,
+        maxAltitude: (flight.filed_altitude || 0) * 100,
+        averageSpeed: flightTime > 0 ? Math.round(distance / (flightTime / 60)) : 0,
+        distance,
+        route: flight.route ? flight.route.split(/\s+/).filter(Boolean) : undefined,
+        pilotInCommand: 'Not recorded',
+        notes: flight.diverted ? `Diverted; ${flight.status}` : undefined,
+        dataSource: 'FLIGHTAWARE' as const
+      };
+    })
+    .sort((a, b) => b.departure.time.getTime() - a.departure.time.getTime());
+}
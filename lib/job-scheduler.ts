@@ -0,0 +1,450 @@
+/**
+ * Job Scheduler
+ * Persisted queue of delayed and recurring jobs, so reminders and escalations survive restarts and serverless deploys.
+ * - Jobs are stored (Supabase `scheduled_jobs`, or in memory) and run by whichever worker claims them once due
+ * - Failed jobs retry with exponential backoff up to maxAttempts; a worker that dies mid-job releases it when its lock expires
+ * - An idempotency key makes scheduling the same job twice a no-op, and lets it be cancelled without knowing its id
+ * - Workers: `runDueJobs` from the `/api/jobs` cron endpoint, or the in-process LocalJobRunner; a TestClock drives both offline
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from './supabase';
+
+export type JobStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+
+export interface ScheduledJob {
+  id: string;
+  type: string;
+  payload: Record<string, any>;
+  runAt: Date;
+  status: JobStatus;
+  attempts: number;     // runs of the current occurrence
+  maxAttempts: number;
+  idempotencyKey?: string;
+  everySeconds?: number; // recurring jobs are rescheduled after each successful run
+  lockedUntil?: Date;    // set while RUNNING
+  lastRunAt?: Date;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ScheduleJobOptions {
+  runAt?: Date;           // defaults to now
+  idempotencyKey?: string;
+  maxAttempts?: number;   // defaults to 5
+  everySeconds?: number;
+}
+
+export interface JobFilter {
+  status?: JobStatus;
+  type?: string;
+}
+
+export type JobHandler = (payload: Record<string, any>, job: ScheduledJob) => Promise<void>;
+
+export interface JobRunSummary {
+  claimed: number;
+  completed: number;
+  retrying: number;
+  failed: number;
+  jobs: { id: string; type: string; status: JobStatus; error?: string }[];
+}
+
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = { now: () => new Date() };
+
+// Clock that only moves when told to, for driving the scheduler offline
+export class TestClock implements Clock {
+  private current: number;
+
+  constructor(start: Date = new Date()) {
+    this.current = start.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  set(time: Date) {
+    this.current = time.getTime();
+  }
+
+  advance(ms: number) {
+    this.current += ms;
+  }
+}
+
+export interface JobStore {
+  getJob(id: string): Promise<ScheduledJob | null>;
+  findByIdempotencyKey(key: string): Promise<ScheduledJob | null>;
+  listJobs(filter?: JobFilter): Promise<ScheduledJob[]>;
+  saveJob(job: ScheduledJob): Promise<ScheduledJob>;
+  // Mark up to `limit` due jobs RUNNING until lockedUntil and return them; a job is only ever claimed by one caller
+  claimDueJobs(now: Date, lockedUntil: Date, limit: number): Promise<ScheduledJob[]>;
+}
+
+type JobRow = Database['public']['Tables']['scheduled_jobs']['Row'];
+
+const toDate = (value: string | null): Date | undefined => value ? new Date(value) : undefined;
+const toISO = (value?: Date): string | null => value ? new Date(value).toISOString() : null;
+
+export function mapJobRow(row: JobRow): ScheduledJob {
+  return {
+    id: row.id,
+    type: row.type,
+    payload: row.payload ?? {},
+    runAt: new Date(row.run_at),
+    status: row.status as JobStatus,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    idempotencyKey: row.idempotency_key ?? undefined,
+    everySeconds: row.every_seconds ?? undefined,
+    lockedUntil: toDate(row.locked_until),
+    lastRunAt: toDate(row.last_run_at),
+    lastError: row.last_error ?? undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at)
+  };
+}
+
+export function toJobRow(job: ScheduledJob): JobRow {
+  return {
+    id: job.id,
+    type: job.type,
+    payload: job.payload,
+    run_at: new Date(job.runAt).toISOString(),
+    status: job.status,
+    attempts: job.attempts,
+    max_attempts: job.maxAttempts,
+    idempotency_key: job.idempotencyKey ?? null,
+    every_seconds: job.everySeconds ?? null,
+    locked_until: toISO(job.lockedUntil),
+    last_run_at: toISO(job.lastRunAt),
+    last_error: job.lastError ?? null,
+    created_at: new Date(job.createdAt).toISOString(),
+    updated_at: new Date(job.updatedAt).toISOString()
+  };
+}
+
+// Due: pending and past its run time, or running on a lock that has expired
+const isDue = (job: ScheduledJob, now: Date) =>
+  (job.status === 'PENDING' && job.runAt <= now) ||
+  (job.status === 'RUNNING' && !!job.lockedUntil && job.lockedUntil <= now);
+
+// Supabase-backed implementation; claims are conditional on updated_at so two workers can't take the same job
+export class SupabaseJobStore implements JobStore {
+  constructor(private client: SupabaseClient) {}
+
+  async getJob(id: string): Promise<ScheduledJob | null> {
+    const { data, error } = await this.client.from('scheduled_jobs').select('*').eq('id', id).maybeSingle();
+    if (error) throw new Error(`Failed to load job ${id}: ${error.message}`);
+    return data ? mapJobRow(data as JobRow) : null;
+  }
+
+  async findByIdempotencyKey(key: string): Promise<ScheduledJob | null> {
+    const { data, error } = await this.client.from('scheduled_jobs').select('*').eq('idempotency_key', key).maybeSingle();
+    if (error) throw new Error(`Failed to load job ${key}: ${error.message}`);
+    return data ? mapJobRow(data as JobRow) : null;
+  }
+
+  async listJobs(filter: JobFilter = {}): Promise<ScheduledJob[]> {
+    let query = this.client.from('scheduled_jobs').select('*');
+    if (filter.status) query = query.eq('status', filter.status);
+    if (filter.type) query = query.eq('type', filter.type);
+
+    const { data, error } = await query.order('run_at');
+    if (error) throw new Error(`Failed to load jobs: ${error.message}`);
+    return (data as JobRow[]).map(mapJobRow);
+  }
+
+  async saveJob(job: ScheduledJob): Promise<ScheduledJob> {
+    const { data, error } = await this.client.from('scheduled_jobs').upsert(toJobRow(job)).select().single();
+    if (error) throw new Error(`Failed to save job ${job.id}: ${error.message}`);
+    return mapJobRow(data as JobRow);
+  }
+
+  async claimDueJobs(now: Date, lockedUntil: Date, limit: number): Promise<ScheduledJob[]> {
+    const nowIso = now.toISOString();
+    const { data, error } = await this.client
+      .from('scheduled_jobs')
+      .select('*')
+      .or(`and(status.eq.PENDING,run_at.lte.${nowIso}),and(status.eq.RUNNING,locked_until.lte.${nowIso})`)
+      .order('run_at')
+      .limit(limit);
+    if (error) throw new Error(`Failed to load due jobs: ${error.message}`);
+
+    const claimed: ScheduledJob[] = [];
+    for (const row of data as JobRow[]) {
+      const { data: updated, error: claimError } = await this.client
+        .from('scheduled_jobs')
+        .update({ status: 'RUNNING', locked_until: lockedUntil.toISOString(), attempts: row.attempts + 1, updated_at: nowIso })
+        .eq('id', row.id)
+        .eq('updated_at', row.updated_at)
+        .select()
+        .maybeSingle();
+      if (claimError) throw new Error(`Failed to claim job ${row.id}: ${claimError.message}`);
+      if (updated) claimed.push(mapJobRow(updated as JobRow));
+    }
+    return claimed;
+  }
+}
+
+// In-memory implementation (local development and tests)
+export class InMemoryJobStore implements JobStore {
+  private jobs = new Map<string, ScheduledJob>();
+
+  async getJob(id: string): Promise<ScheduledJob | null> {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : null;
+  }
+
+  async findByIdempotencyKey(key: string): Promise<ScheduledJob | null> {
+    const match = Array.from(this.jobs.values()).find(job => job.idempotencyKey === key);
+    return match ? { ...match } : null;
+  }
+
+  async listJobs(filter: JobFilter = {}): Promise<ScheduledJob[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => (!filter.status || job.status === filter.status) && (!filter.type || job.type === filter.type))
+      .map(job => ({ ...job }))
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime());
+  }
+
+  async saveJob(job: ScheduledJob): Promise<ScheduledJob> {
+    this.jobs.set(job.id, { ...job });
+    return { ...job };
+  }
+
+  async claimDueJobs(now: Date, lockedUntil: Date, limit: number): Promise<ScheduledJob[]> {
+    const due = Array.from(this.jobs.values())
+      .filter(job => isDue(job, now))
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime())
+      .slice(0, limit);
+
+    return due.map(job => {
+      const claimed: ScheduledJob = { ...job, status: 'RUNNING', lockedUntil, attempts: job.attempts + 1, updatedAt: now };
+      this.jobs.set(job.id, claimed);
+      return { ...claimed };
+    });
+  }
+}
+
+export interface JobSchedulerOptions {
+  lockSeconds?: number;        // how long a claimed job is held before another worker may retry it; default 5 minutes
+  baseBackoffSeconds?: number; // first retry delay, doubling per attempt; default 30 s
+  maxBackoffSeconds?: number;  // default 1 hour
+  batchSize?: number;          // jobs claimed per run; default 25
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+export class JobScheduler {
+  private handlers = new Map<string, JobHandler>();
+  private options: Required<JobSchedulerOptions>;
+
+  constructor(
+    private getStore: () => Promise<JobStore> = getJobStore,
+    private clock: Clock = systemClock,
+    options: JobSchedulerOptions = {}
+  ) {
+    this.options = {
+      lockSeconds: options.lockSeconds ?? 300,
+      baseBackoffSeconds: options.baseBackoffSeconds ?? 30,
+      maxBackoffSeconds: options.maxBackoffSeconds ?? 3600,
+      batchSize: options.batchSize ?? 25
+    };
+  }
+
+  // The scheduler's clock, for callers working out run times
+  now(): Date {
+    return this.clock.now();
+  }
+
+  // One handler per job type; registering again replaces it
+  register(type: string, handler: JobHandler) {
+    this.handlers.set(type, handler);
+  }
+
+  // Schedule a job. With an idempotency key, an existing job with that key is returned unchanged
+  // unless it was cancelled, in which case it is scheduled again.
+  async schedule(type: string, payload: Record<string, any> = {}, options: ScheduleJobOptions = {}): Promise<ScheduledJob> {
+    const store = await this.getStore();
+    const now = this.clock.now();
+    const existing = options.idempotencyKey ? await store.findByIdempotencyKey(options.idempotencyKey) : null;
+    if (existing && existing.status !== 'CANCELLED') return existing;
+
+    return store.saveJob({
+      id: existing?.id || `job-${now.getTime()}-${Math.random().toString(36).substr(2, 9)}`,
+      type,
+      payload,
+      runAt: options.runAt || now,
+      status: 'PENDING',
+      attempts: 0,
+      maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      idempotencyKey: options.idempotencyKey,
+      everySeconds: options.everySeconds,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now
+    });
+  }
+
+  // Cancel a job that hasn't finished; returns null when there is no such job
+  async cancel(id: string): Promise<ScheduledJob | null> {
+    const store = await this.getStore();
+    const job = await store.getJob(id);
+    return job ? this.cancelJob(store, job) : null;
+  }
+
+  async cancelByIdempotencyKey(key: string): Promise<ScheduledJob | null> {
+    const store = await this.getStore();
+    const job = await store.findByIdempotencyKey(key);
+    return job ? this.cancelJob(store, job) : null;
+  }
+
+  async listJobs(filter?: JobFilter): Promise<ScheduledJob[]> {
+    return (await this.getStore()).listJobs(filter);
+  }
+
+  // Worker entry point: claim the jobs that are due and run them
+  async runDueJobs(): Promise<JobRunSummary> {
+    const store = await this.getStore();
+    const now = this.clock.now();
+    const lockedUntil = new Date(now.getTime() + this.options.lockSeconds * 1000);
+    const claimed = await store.claimDueJobs(now, lockedUntil, this.options.batchSize);
+    const summary: JobRunSummary = { claimed: claimed.length, completed: 0, retrying: 0, failed: 0, jobs: [] };
+
+    for (const job of claimed) {
+      const result = await this.runJob(store, job);
+      summary.jobs.push({ id: result.id, type: result.type, status: result.status, error: result.lastError });
+      if (result.status === 'FAILED') summary.failed++;
+      else if (result.lastError) summary.retrying++;
+      else summary.completed++;
+    }
+    return summary;
+  }
+
+  private async runJob(store: JobStore, job: ScheduledJob): Promise<ScheduledJob> {
+    const handler = this.handlers.get(job.type);
+    try {
+      if (!handler) throw new Error(`No handler registered for job type ${job.type}`);
+      await handler(job.payload, job);
+    } catch (error) {
+      // Cancelled while running: the cancellation stands over a retry
+      const current = await store.getJob(job.id);
+      if (current?.status === 'CANCELLED') return current;
+      return store.saveJob(this.failedRun(job, error instanceof Error ? error.message : String(error)));
+    }
+
+    // Cancelled while running: the cancellation stands, so a recurring job isn't rescheduled
+    const current = await store.getJob(job.id);
+    if (current?.status === 'CANCELLED') return current;
+
+    const now = this.clock.now();
+    const base = { ...job, lockedUntil: undefined, lastRunAt: now, lastError: undefined, updatedAt: now };
+    if (!job.everySeconds) return store.saveJob({ ...base, status: 'COMPLETED' });
+
+    // Recurring: next occurrence after now, skipping any that were missed while no worker ran
+    const interval = job.everySeconds * 1000;
+    const missed = Math.floor((now.getTime() - job.runAt.getTime()) / interval);
+    const runAt = new Date(job.runAt.getTime() + (Math.max(0, missed) + 1) * interval);
+    return store.saveJob({ ...base, status: 'PENDING', attempts: 0, runAt });
+  }
+
+  // Retry after 30 s doubling per attempt, until maxAttempts
+  private failedRun(job: ScheduledJob, message: string): ScheduledJob {
+    const now = this.clock.now();
+    if (job.attempts >= job.maxAttempts) {
+      return { ...job, status: 'FAILED', lockedUntil: undefined, lastRunAt: now, lastError: message, updatedAt: now };
+    }
+
+    const backoff = Math.min(this.options.baseBackoffSeconds * Math.pow(2, job.attempts - 1), this.options.maxBackoffSeconds);
+    return {
+      ...job,
+      status: 'PENDING',
+      runAt: new Date(now.getTime() + backoff * 1000),
+      lockedUntil: undefined,
+      lastRunAt: now,
+      lastError: message,
+      updatedAt: now
+    };
+  }
+
+  private async cancelJob(store: JobStore, job: ScheduledJob): Promise<ScheduledJob> {
+    if (job.status === 'COMPLETED' || job.status === 'FAILED' || job.status === 'CANCELLED') return job;
+    return store.saveJob({ ...job, status: 'CANCELLED', lockedUntil: undefined, updatedAt: this.clock.now() });
+  }
+}
+
+// Runs due jobs in-process on an interval, for `next dev` and long-running servers
+export class LocalJobRunner {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  constructor(private scheduler: JobScheduler, private intervalSeconds: number = 30) {}
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(), this.intervalSeconds * 1000);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // A run that takes longer than the interval is not overlapped by the next one
+  async tick(): Promise<JobRunSummary | null> {
+    if (this.running) return null;
+    this.running = true;
+    try {
+      return await this.scheduler.runDueJobs();
+    } catch (error) {
+      console.error('Local job runner failed:', error);
+      return null;
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+// Store selection: Supabase when configured, otherwise in memory
+let jobStore: JobStore | null = null;
+
+export async function getJobStore(): Promise<JobStore> {
+  if (jobStore) return jobStore;
+
+  if (process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY && process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    // Imported lazily: lib/supabase throws when its environment variables are missing
+    const { supabaseAdmin } = await import('./supabase');
+    jobStore = new SupabaseJobStore(supabaseAdmin);
+  } else {
+    console.log('🗄️  Supabase not configured, using in-memory job store');
+    jobStore = new InMemoryJobStore();
+  }
+
+  return jobStore;
+}
+
+// Allows tests and scripts to swap in their own implementation
+export function setJobStore(store: JobStore | null): void {
+  jobStore = store;
+}
+
+// Shared scheduler; unless JOB_RUNNER=cron (an external cron calls /api/jobs), a local runner works the queue in-process.
+// Not started while `next build` loads the routes.
+let jobScheduler: JobScheduler | null = null;
+
+export function getJobScheduler(): JobScheduler {
+  if (jobScheduler) return jobScheduler;
+
+  jobScheduler = new JobScheduler();
+  const runner = process.env.JOB_RUNNER || (process.env.VERCEL ? 'cron' : 'local');
+  if (runner === 'local' && process.env.NEXT_PHASE !== 'phase-production-build') {
+    new LocalJobRunner(jobScheduler, parseInt(process.env.JOB_RUNNER_INTERVAL || '30')).start();
+  }
+  return jobScheduler;
+}
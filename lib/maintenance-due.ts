@@ -0,0 +1,356 @@
+/**
+ * Maintenance Due Engine
+ * Whichever-comes-first tracking of hours, cycles and calendar limits.
+ * Each limit is checked against the aircraft's current totals and forecast
+ * forward with its UtilizationPattern to find the date it will be reached.
+ * Tolerance bands widen each limit, and the rebase rule decides where the
+ * next due point lands after an early or late sign-off.
+ */
+
+import { Aircraft, MaintenanceInterval, MaintenanceTolerance, ToleranceBand } from '@/types';
+import type { UtilizationPattern } from './maintenance-scheduler';
+
+export type DueLimit = 'HOURS' | 'CYCLES' | 'CALENDAR';
+export type DueState = 'CURRENT' | 'DUE_SOON' | 'IN_TOLERANCE' | 'OVERDUE';
+
+// The parts of a UtilizationPattern the due engine forecasts from
+export type UsageForecast = Pick<UtilizationPattern, 'dailyAverageHours' | 'dailyAverageCycles' | 'predictedUtilization'>;
+
+export interface DueLimitStatus {
+  limit: DueLimit;
+  dueAt: number;        // airframe hours, cycles, or epoch ms for the calendar limit
+  current: number;      // same unit as dueAt
+  remaining: number;    // hours, cycles or days left; negative once exceeded
+  projectedDate: Date;  // forecast date the limit is reached
+  isExceeded: boolean;  // past the nominal due point
+  earlyTolerance: number; // same unit as remaining
+  lateTolerance: number;
+  toleranceDate: Date;  // forecast date the late tolerance runs out
+  state: DueState;
+}
+
+export interface MaintenanceDue {
+  limits: DueLimitStatus[];
+  drivingLimit?: DueLimit;  // limit reached first; undefined when nothing is tracked
+  dueDate: Date;
+  toleranceDate: Date;      // last permissible date across all limits
+  status: DueState;
+  isOverdue: boolean;
+  overdueLimits: DueLimit[];
+}
+
+// Completion details used to rebase an interval
+export interface ComplianceRecord {
+  completedAt: Date;
+  completedHours: number;
+  completedCycles?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DUE_SOON_DAYS = 7;
+const STATE_RANK: { [state in DueState]: number } = { CURRENT: 0, DUE_SOON: 1, IN_TOLERANCE: 2, OVERDUE: 3 };
+
+// Program defaults when an interval carries no tolerance of its own
+export const DEFAULT_TOLERANCES: { [intervalType: string]: MaintenanceTolerance } = {
+  // 14 CFR 91.409(b): up to 10 hours overfly, deducted from the next interval
+  '100_HOUR': { hours: { late: 10 }, rebase: 'FROM_DUE_WITHIN_TOLERANCE' },
+  A_CHECK: { hours: { early: 10, late: 10, unit: 'PERCENT' }, rebase: 'FROM_DUE_WITHIN_TOLERANCE' },
+  '2A_CHECK': { hours: { early: 10, late: 10, unit: 'PERCENT' }, rebase: 'FROM_DUE_WITHIN_TOLERANCE' },
+  '3A_CHECK': { hours: { early: 10, late: 10, unit: 'PERCENT' }, rebase: 'FROM_DUE_WITHIN_TOLERANCE' },
+  '4A_CHECK': { hours: { early: 10, late: 10, unit: 'PERCENT' }, rebase: 'FROM_DUE_WITHIN_TOLERANCE' },
+  '5A_CHECK': { hours: { early: 10, late: 10, unit: 'PERCENT' }, rebase: 'FROM_DUE_WITHIN_TOLERANCE' },
+  '10A_CHECK': { hours: { early: 10, late: 10, unit: 'PERCENT' }, rebase: 'FROM_DUE_WITHIN_TOLERANCE' }
+};
+
+const NO_TOLERANCE: MaintenanceTolerance = { rebase: 'FROM_COMPLETION' };
+
+export function resolveTolerance(interval: MaintenanceInterval): MaintenanceTolerance {
+  return interval.tolerance || DEFAULT_TOLERANCES[interval.intervalType] || NO_TOLERANCE;
+}
+
+// Convert one side of a band to the limit's own unit
+function toleranceAmount(band: ToleranceBand | undefined, side: 'early' | 'late', intervalLength?: number): number {
+  const amount = band?.[side] ?? 0;
+  if (band?.unit === 'PERCENT') return intervalLength ? intervalLength * amount / 100 : 0;
+  return amount;
+}
+
+// Overdue only once past the late tolerance; reaching a due point without one makes the item due, not overdue
+function limitState(remaining: number, early: number, late: number, projectedDate: Date, asOf: Date): DueState {
+  if (remaining < -late) return 'OVERDUE';
+  if (remaining <= 0) return late > 0 ? 'IN_TOLERANCE' : 'DUE_SOON';
+  if (remaining <= early || projectedDate.getTime() - asOf.getTime() <= DUE_SOON_DAYS * DAY_MS) return 'DUE_SOON';
+  return 'CURRENT';
+}
+
+// Next due point after completing at `completedAt` against a due point of `previousDue`
+export function rebaseDuePoint(
+  completedAt: number,
+  previousDue: number | undefined,
+  intervalLength: number,
+  band: ToleranceBand | undefined,
+  rule: MaintenanceTolerance['rebase']
+): number {
+  if (previousDue === undefined || rule === 'FROM_COMPLETION') return completedAt + intervalLength;
+  if (rule === 'FROM_DUE') return previousDue + intervalLength;
+
+  const early = toleranceAmount(band, 'early', intervalLength);
+  const late = toleranceAmount(band, 'late', intervalLength);
+  const withinTolerance = completedAt >= previousDue - early && completedAt <= previousDue + late;
+  return withinTolerance ? previousDue + intervalLength : completedAt + intervalLength;
+}
+
+// Used when no pattern has been analyzed for the aircraft yet
+export const DEFAULT_USAGE_FORECAST: UsageForecast = {
+  dailyAverageHours: 3.5, // Typical Part 135 utilization
+  dailyAverageCycles: 2.5,
+  predictedUtilization: []
+};
+
+const forecastIndex = new WeakMap<UsageForecast, Map<number, number>>();
+
+const startOfDay = (date: Date): Date => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+// Forecast flight hours for a single day
+export function predictedHoursOn(forecast: UsageForecast, date: Date): number {
+  // Indexed by day once per forecast; the optimizer calls this thousands of times
+  let byDay = forecastIndex.get(forecast);
+  if (!byDay) {
+    byDay = new Map(forecast.predictedUtilization.map(p => [startOfDay(p.date).getTime(), p.hours]));
+    forecastIndex.set(forecast, byDay);
+  }
+  return byDay.get(startOfDay(date).getTime()) ?? forecast.dailyAverageHours;
+}
+
+// Forecast flight hours flown between two dates
+export function forecastHoursBetween(forecast: UsageForecast, from: Date, to: Date): number {
+  let hours = 0;
+  for (let time = startOfDay(from).getTime(); time < to.getTime(); time += DAY_MS) {
+    hours += predictedHoursOn(forecast, new Date(time));
+  }
+  return hours;
+}
+
+// Cycles follow the hours forecast at the pattern's cycles-per-hour ratio
+export function cyclesPerHour(forecast: UsageForecast): number {
+  return forecast.dailyAverageHours > 0 ? forecast.dailyAverageCycles / forecast.dailyAverageHours : 0;
+}
+
+export function forecastCyclesBetween(forecast: UsageForecast, from: Date, to: Date): number {
+  return forecastHoursBetween(forecast, from, to) * cyclesPerHour(forecast);
+}
+
+// Date at which the aircraft is forecast to have flown the given hours
+export function projectDateForHours(forecast: UsageForecast, hours: number, asOf: Date = new Date()): Date {
+  const today = startOfDay(asOf);
+  if (hours <= 0) return today;
+
+  const horizonDays = forecast.predictedUtilization.length;
+  let accumulatedHours = 0;
+  for (let day = 0; day < horizonDays; day++) {
+    const date = new Date(today.getTime() + day * DAY_MS);
+    accumulatedHours += predictedHoursOn(forecast, date);
+    if (accumulatedHours >= hours) return date;
+  }
+
+  // Beyond the prediction horizon: extrapolate at the daily average
+  const remaining = hours - accumulatedHours;
+  const extraDays = forecast.dailyAverageHours > 0 ? Math.ceil(remaining / forecast.dailyAverageHours) : 0;
+  return new Date(today.getTime() + (horizonDays + extraDays) * DAY_MS);
+}
+
+// Date at which the aircraft is forecast to have flown the given cycles
+export function projectDateForCycles(forecast: UsageForecast, cycles: number, asOf: Date = new Date()): Date {
+  const ratio = cyclesPerHour(forecast);
+  if (ratio > 0) return projectDateForHours(forecast, cycles / ratio, asOf);
+
+  const days = forecast.dailyAverageCycles > 0 ? Math.ceil(cycles / forecast.dailyAverageCycles) : 0;
+  return new Date(startOfDay(asOf).getTime() + Math.max(0, days) * DAY_MS);
+}
+
+// Hours limit: the recorded due point, or last completion plus the interval
+function hoursDueAt(interval: MaintenanceInterval): number | undefined {
+  if (interval.nextDueHours > 0) return interval.nextDueHours;
+  if (interval.intervalHours && interval.lastCompletedHours !== undefined) {
+    return interval.lastCompletedHours + interval.intervalHours;
+  }
+  return undefined;
+}
+
+// Cycles limit: only tracked once a cycle baseline has been recorded
+function cyclesDueAt(interval: MaintenanceInterval): number | undefined {
+  if (interval.nextDueCycles !== undefined && interval.nextDueCycles > 0) return interval.nextDueCycles;
+  if (interval.intervalCycles && interval.lastCompletedCycles !== undefined) {
+    return interval.lastCompletedCycles + interval.intervalCycles;
+  }
+  return undefined;
+}
+
+// Calendar limit: the recorded due date, or last completion plus the interval
+function calendarDueAt(interval: MaintenanceInterval): Date | undefined {
+  if (!interval.intervalCalendar) return undefined;
+  if (interval.nextDueAt) return new Date(interval.nextDueAt);
+  if (interval.lastCompletedAt) {
+    return new Date(new Date(interval.lastCompletedAt).getTime() + interval.intervalCalendar * DAY_MS);
+  }
+  return undefined;
+}
+
+// Evaluate every limit on the interval; the earliest projected date drives the due point
+export function computeMaintenanceDue(
+  aircraft: Aircraft,
+  interval: MaintenanceInterval,
+  forecast: UsageForecast = DEFAULT_USAGE_FORECAST,
+  asOf: Date = new Date()
+): MaintenanceDue {
+  const tolerance = resolveTolerance(interval);
+  const limits: DueLimitStatus[] = [];
+
+  const dueHours = hoursDueAt(interval);
+  if (dueHours !== undefined) {
+    const remaining = dueHours - aircraft.totalAircraftTime;
+    const early = toleranceAmount(tolerance.hours, 'early', interval.intervalHours);
+    const late = toleranceAmount(tolerance.hours, 'late', interval.intervalHours);
+    const projectedDate = projectDateForHours(forecast, remaining, asOf);
+    limits.push({
+      limit: 'HOURS',
+      dueAt: dueHours,
+      current: aircraft.totalAircraftTime,
+      remaining,
+      projectedDate,
+      isExceeded: remaining <= 0,
+      earlyTolerance: early,
+      lateTolerance: late,
+      toleranceDate: projectDateForHours(forecast, remaining + late, asOf),
+      state: limitState(remaining, early, late, projectedDate, asOf)
+    });
+  }
+
+  const dueCycles = cyclesDueAt(interval);
+  if (dueCycles !== undefined) {
+    const remaining = dueCycles - aircraft.totalCycles;
+    const early = toleranceAmount(tolerance.cycles, 'early', interval.intervalCycles);
+    const late = toleranceAmount(tolerance.cycles, 'late', interval.intervalCycles);
+    const projectedDate = projectDateForCycles(forecast, remaining, asOf);
+    limits.push({
+      limit: 'CYCLES',
+      dueAt: dueCycles,
+      current: aircraft.totalCycles,
+      remaining,
+      projectedDate,
+      isExceeded: remaining <= 0,
+      earlyTolerance: early,
+      lateTolerance: late,
+      toleranceDate: projectDateForCycles(forecast, remaining + late, asOf),
+      state: limitState(remaining, early, late, projectedDate, asOf)
+    });
+  }
+
+  const dueDate = calendarDueAt(interval);
+  if (dueDate) {
+    const remaining = (dueDate.getTime() - asOf.getTime()) / DAY_MS;
+    const early = toleranceAmount(tolerance.calendarDays, 'early', interval.intervalCalendar);
+    const late = toleranceAmount(tolerance.calendarDays, 'late', interval.intervalCalendar);
+    limits.push({
+      limit: 'CALENDAR',
+      dueAt: dueDate.getTime(),
+      current: asOf.getTime(),
+      remaining,
+      projectedDate: dueDate,
+      isExceeded: dueDate <= asOf,
+      earlyTolerance: early,
+      lateTolerance: late,
+      toleranceDate: new Date(dueDate.getTime() + late * DAY_MS),
+      state: limitState(remaining, early, late, dueDate, asOf)
+    });
+  }
+
+  if (limits.length === 0) {
+    const nextDueAt = new Date(interval.nextDueAt);
+    return { limits, dueDate: nextDueAt, toleranceDate: nextDueAt, status: 'CURRENT', isOverdue: false, overdueLimits: [] };
+  }
+
+  const driving = limits.reduce((first, status) =>
+    status.projectedDate < first.projectedDate ? status : first
+  );
+  const status = limits.reduce<DueState>((worst, limit) =>
+    STATE_RANK[limit.state] > STATE_RANK[worst] ? limit.state : worst, 'CURRENT'
+  );
+  const overdueLimits = limits.filter(limit => limit.state === 'OVERDUE').map(limit => limit.limit);
+
+  return {
+    limits,
+    drivingLimit: driving.limit,
+    dueDate: driving.projectedDate,
+    toleranceDate: new Date(Math.min(...limits.map(limit => limit.toleranceDate.getTime()))),
+    status,
+    isOverdue: status === 'OVERDUE',
+    overdueLimits
+  };
+}
+
+// Sign-off: record the completion and move each limit per the interval's rebase rule
+export function rebaseMaintenanceInterval(
+  aircraft: Aircraft,
+  interval: MaintenanceInterval,
+  completion: ComplianceRecord,
+  forecast?: UsageForecast
+): MaintenanceInterval {
+  const tolerance = resolveTolerance(interval);
+  const completedAt = new Date(completion.completedAt);
+  const completedCycles = completion.completedCycles ?? aircraft.totalCycles;
+
+  const nextDueHours = interval.intervalHours
+    ? rebaseDuePoint(completion.completedHours, hoursDueAt(interval), interval.intervalHours, tolerance.hours, tolerance.rebase)
+    : interval.nextDueHours;
+
+  const nextDueCycles = interval.intervalCycles
+    ? rebaseDuePoint(completedCycles, cyclesDueAt(interval), interval.intervalCycles, tolerance.cycles, tolerance.rebase)
+    : interval.nextDueCycles;
+
+  // Calendar points are rebased in days so the band and interval share a unit
+  const previousDueDate = calendarDueAt(interval);
+  const nextDueAt = interval.intervalCalendar
+    ? new Date(rebaseDuePoint(
+        completedAt.getTime() / DAY_MS,
+        previousDueDate ? previousDueDate.getTime() / DAY_MS : undefined,
+        interval.intervalCalendar,
+        tolerance.calendarDays,
+        tolerance.rebase
+      ) * DAY_MS)
+    : interval.nextDueAt;
+
+  const rebased: MaintenanceInterval = {
+    ...interval,
+    lastCompletedAt: completedAt,
+    lastCompletedHours: completion.completedHours,
+    lastCompletedCycles: interval.intervalCycles ? completedCycles : interval.lastCompletedCycles,
+    nextDueAt,
+    nextDueHours,
+    nextDueCycles
+  };
+
+  const due = computeMaintenanceDue(aircraft, rebased, forecast);
+  return {
+    ...rebased,
+    // Non-calendar intervals keep nextDueAt as the forecast due date
+    nextDueAt: interval.intervalCalendar ? nextDueAt : due.dueDate,
+    isOverdue: due.isOverdue
+  };
+}
+
+// Human-readable remaining margin for a limit, e.g. "45.0 hours remaining"
+export function describeDueLimit(status: DueLimitStatus): string {
+  const unit = status.limit === 'HOURS' ? 'hours' : status.limit === 'CYCLES' ? 'cycles' : 'days';
+  const format = (value: number) => Math.abs(value).toFixed(status.limit === 'HOURS' ? 1 : 0);
+
+  if (status.state === 'OVERDUE') return `${format(status.remaining)} ${unit} overdue`;
+  if (status.state === 'IN_TOLERANCE') {
+    return `${format(status.remaining)} ${unit} past due, ${format(status.remaining + status.lateTolerance)} ${unit} of tolerance left`;
+  }
+  return `${format(status.remaining)} ${unit} remaining`;
+}
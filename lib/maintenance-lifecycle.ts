@@ -0,0 +1,195 @@
+/**
+ * Maintenance Lifecycle
+ * One state machine per stage of the recommendation → workflow → work order lifecycle.
+ * - Each machine lists the statuses it can move to from every status; anything else is rejected
+ * - Guards veto a legal move with a reason, e.g. no completion without a roster inspector's sign-off
+ * - Hooks run after every accepted move, for the side effects of entering a status
+ */
+
+import { WorkOrder } from '@/types';
+import type { TaskAssignment } from './agentic-workflow';
+import { findPerson } from './personnel';
+
+export type RecommendationStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'SCHEDULED' | 'IN_PROGRESS' | 'COMPLETED';
+export type WorkflowStatus = 'INITIATED' | 'IN_PROGRESS' | 'AWAITING_PARTS' | 'INSPECTION' | 'COMPLETED' | 'DELAYED';
+export type TaskAssignmentStatus = 'ASSIGNED' | 'ACKNOWLEDGED' | 'IN_PROGRESS' | 'COMPLETED' | 'DELAYED';
+export type WorkOrderCreationStatus = 'CREATED' | 'ASSIGNED' | 'IN_PROGRESS' | 'INSPECTION' | 'COMPLETED' | 'DEFERRED';
+export type WorkOrderStatus = WorkOrder['status'];
+
+// What the caller knows about a move; guards and hooks read what they need
+export interface TransitionContext {
+  actor?: string;
+  signedOffBy?: string; // inspector signing off the work
+  notes?: string;
+  incompleteAssignments?: string[]; // task assignments of the workflow not yet completed
+}
+
+export type TransitionTable<S extends string> = { [from in S]: S[] };
+
+export interface TransitionGuard<S extends string, T> {
+  to: S;
+  check: (entity: T, context: TransitionContext) => string | null; // reason the move is refused
+}
+
+export type TransitionHook<S extends string, T> = (entity: T, from: S, to: S, context: TransitionContext) => void;
+
+export class StateMachine<S extends string, T extends { status: S }> {
+  private hooks: { to?: S; hook: TransitionHook<S, T> }[] = [];
+
+  constructor(
+    readonly name: string,
+    private transitions: TransitionTable<S>,
+    private guards: TransitionGuard<S, T>[] = []
+  ) {}
+
+  get statuses(): S[] {
+    return Object.keys(this.transitions) as S[];
+  }
+
+  isStatus(value: unknown): value is S {
+    return typeof value === 'string' && this.transitions.hasOwnProperty(value);
+  }
+
+  allowedFrom(status: S): S[] {
+    return this.transitions[status] || [];
+  }
+
+  can(from: S, to: S): boolean {
+    return this.allowedFrom(from).includes(to);
+  }
+
+  // Why the entity cannot move to the status, or null when it can
+  check(entity: T, to: S, context: TransitionContext = {}): string | null {
+    if (!this.isStatus(to)) {
+      return `Unknown ${this.name} status ${to}. Use: ${this.statuses.join(', ')}`;
+    }
+    if (!this.can(entity.status, to)) {
+      const allowed = this.allowedFrom(entity.status);
+      return `Cannot move ${this.name} from ${entity.status} to ${to}` +
+        (allowed.length > 0 ? ` (allowed: ${allowed.join(', ')})` : ` (${entity.status} is final)`);
+    }
+
+    for (const guard of this.guards) {
+      if (guard.to !== to) continue;
+      const reason = guard.check(entity, context);
+      if (reason) return `Cannot move ${this.name} to ${to}: ${reason}`;
+    }
+    return null;
+  }
+
+  // Apply the move and run the hooks; throws when check() refuses it
+  transition(entity: T, to: S, context: TransitionContext = {}): T {
+    const rejection = this.check(entity, to, context);
+    if (rejection) throw new Error(rejection);
+
+    const from = entity.status;
+    entity.status = to;
+    for (const { to: target, hook } of this.hooks) {
+      if (!target || target === to) hook(entity, from, to, context);
+    }
+    return entity;
+  }
+
+  // Run a hook after every move, or only moves into one status; returns a function that removes it
+  onTransition(hook: TransitionHook<S, T>, to?: S): () => void {
+    const entry = { to, hook };
+    this.hooks.push(entry);
+    return () => {
+      this.hooks = this.hooks.filter(existing => existing !== entry);
+    };
+  }
+}
+
+export const RECOMMENDATION_TRANSITIONS: TransitionTable<RecommendationStatus> = {
+  PENDING: ['APPROVED', 'REJECTED'],
+  APPROVED: ['SCHEDULED', 'IN_PROGRESS'],
+  SCHEDULED: ['IN_PROGRESS'],
+  IN_PROGRESS: ['COMPLETED'],
+  REJECTED: [],
+  COMPLETED: []
+};
+
+// Findings at inspection send the work back in progress
+export const WORKFLOW_TRANSITIONS: TransitionTable<WorkflowStatus> = {
+  INITIATED: ['IN_PROGRESS', 'AWAITING_PARTS', 'DELAYED'],
+  IN_PROGRESS: ['AWAITING_PARTS', 'INSPECTION', 'DELAYED'],
+  AWAITING_PARTS: ['IN_PROGRESS', 'DELAYED'],
+  DELAYED: ['IN_PROGRESS', 'AWAITING_PARTS'],
+  INSPECTION: ['IN_PROGRESS', 'COMPLETED'],
+  COMPLETED: []
+};
+
+export const TASK_ASSIGNMENT_TRANSITIONS: TransitionTable<TaskAssignmentStatus> = {
+  ASSIGNED: ['ACKNOWLEDGED', 'DELAYED'],
+  ACKNOWLEDGED: ['IN_PROGRESS', 'DELAYED'],
+  IN_PROGRESS: ['COMPLETED', 'DELAYED'],
+  DELAYED: ['ACKNOWLEDGED', 'IN_PROGRESS'],
+  COMPLETED: []
+};
+
+export const WORK_ORDER_CREATION_TRANSITIONS: TransitionTable<WorkOrderCreationStatus> = {
+  CREATED: ['ASSIGNED', 'DEFERRED'],
+  ASSIGNED: ['IN_PROGRESS', 'DEFERRED'],
+  IN_PROGRESS: ['INSPECTION', 'DEFERRED'],
+  INSPECTION: ['IN_PROGRESS', 'COMPLETED'],
+  DEFERRED: ['ASSIGNED'],
+  COMPLETED: []
+};
+
+export const WORK_ORDER_TRANSITIONS: TransitionTable<WorkOrderStatus> = {
+  OPEN: ['IN_PROGRESS', 'WAITING_PARTS', 'CANCELLED'],
+  IN_PROGRESS: ['WAITING_PARTS', 'COMPLETED', 'CANCELLED'],
+  WAITING_PARTS: ['IN_PROGRESS', 'CANCELLED'],
+  COMPLETED: [],
+  CANCELLED: []
+};
+
+// Return to service needs an active inspector or IA from the roster, other than the person who did the work
+const requireInspectorSignOff = (performedBy?: string) => (context: TransitionContext): string | null => {
+  if (!context.signedOffBy) return 'inspector sign-off (signedOffBy) is required';
+  const signer = findPerson(context.signedOffBy);
+  const signerNames = [context.signedOffBy, signer?.name].map(name => name?.trim().toLowerCase());
+  if (performedBy && signerNames.includes(performedBy.trim().toLowerCase())) {
+    return `${context.signedOffBy} performed the work and cannot also sign it off`;
+  }
+  if (!signer || !signer.isActive) return `${context.signedOffBy} is not an active member of the roster`;
+  if (signer.role !== 'INSPECTOR' && !signer.certifications.includes('IA')) {
+    return `${signer.name} is not an inspector or IA and cannot sign off the work`;
+  }
+  return null;
+};
+
+export function createRecommendationLifecycle<T extends { status: RecommendationStatus }>() {
+  return new StateMachine<RecommendationStatus, T>('recommendation', RECOMMENDATION_TRANSITIONS, [
+    { to: 'APPROVED', check: (_, context) => context.actor ? null : 'approver is required' },
+    { to: 'REJECTED', check: (_, context) => context.actor ? null : 'rejecting user is required' }
+  ]);
+}
+
+export function createWorkflowLifecycle<T extends { status: WorkflowStatus; assignments: { mechanic: string } }>() {
+  return new StateMachine<WorkflowStatus, T>('workflow', WORKFLOW_TRANSITIONS, [
+    { to: 'COMPLETED', check: (workflow, context) => requireInspectorSignOff(workflow.assignments.mechanic)(context) },
+    {
+      to: 'COMPLETED',
+      check: (_, context) => context.incompleteAssignments?.length
+        ? `task assignments not completed: ${context.incompleteAssignments.join(', ')}`
+        : null
+    }
+  ]);
+}
+
+export function createTaskAssignmentLifecycle() {
+  return new StateMachine<TaskAssignmentStatus, TaskAssignment>('task assignment', TASK_ASSIGNMENT_TRANSITIONS, [
+    { to: 'COMPLETED', check: (assignment, context) => assignment.signOffRequired ? requireInspectorSignOff(assignment.assigneeName)(context) : null }
+  ]);
+}
+
+export function createWorkOrderCreationLifecycle<T extends { status: WorkOrderCreationStatus; assignedInspector?: string }>() {
+  return new StateMachine<WorkOrderCreationStatus, T>('work order', WORK_ORDER_CREATION_TRANSITIONS, [
+    { to: 'INSPECTION', check: workOrder => workOrder.assignedInspector ? null : 'no inspector is assigned' }
+  ]);
+}
+
+export function createWorkOrderLifecycle<T extends { status: WorkOrderStatus }>() {
+  return new StateMachine<WorkOrderStatus, T>('work order', WORK_ORDER_TRANSITIONS);
+}
@@ -0,0 +1,229 @@
+/**
+ * Maintenance Packaging
+ * Bundles checks coming due in the same window into one work package per aircraft.
+ * - Nested checks: a 4A check also satisfies the 2A and 1A due at the same visit, and an annual the 100-hour
+ *   (14 CFR 91.409(b)); a nested check adds no tasks or downtime of its own
+ * - Tasks shared between checklists (e.g. A-check tasks inside the 100-hour) are done once
+ * - Downtime only adds the share of each check's work that is not already in the package
+ */
+
+import { MaintenanceInterval } from '@/types';
+import { MaintenanceChecklist, MaintenanceTask, maintenanceChecklists } from './maintenance-tasks';
+import type { MaintenanceScheduleItem } from './maintenance-scheduler';
+
+export interface PackageComponent {
+  id: string;
+  intervalType: MaintenanceInterval['intervalType'];
+  estimatedDowntime: number; // hours when performed on its own
+}
+
+export interface WorkPackageSummary {
+  componentIds: string[];
+  intervalTypes: MaintenanceInterval['intervalType'][];
+  coveredBy: { [componentId: string]: string }; // nested checks satisfied by a higher multiple
+  tasks: MaintenanceTask[];
+  duplicateTasksRemoved: number;
+  estimatedDowntime: number;
+  naiveDowntime: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PRIORITY_RANK: { [priority: string]: number } = { CRITICAL: 0, HIGH: 1, MEDIUM: 2, LOW: 3 };
+const DUE_STATE_RANK: { [state: string]: number } = { CURRENT: 0, DUE_SOON: 1, IN_TOLERANCE: 2, OVERDUE: 3 };
+
+// '4A_CHECK' -> { family: 'A', multiple: 4 }; 'A_CHECK' is the 1A
+export function parseCheckMultiple(intervalType: string): { family: 'A' | 'C'; multiple: number } | null {
+  const match = intervalType.match(/^(\d*)([AC])_CHECK$/);
+  if (!match) return null;
+  return { family: match[2] as 'A' | 'C', multiple: match[1] ? parseInt(match[1]) : 1 };
+}
+
+// Checklist holding the work for an interval type
+export function checklistKeyForInterval(intervalType: string): string {
+  const check = parseCheckMultiple(intervalType);
+  if (check) return `${check.family}_CHECK`;
+  return intervalType;
+}
+
+// Inspections that satisfy another type due at the same visit
+const SUBSTITUTES: { [intervalType: string]: string[] } = { ANNUAL: ['100_HOUR'] };
+
+// A higher multiple in the same family includes the lower one when it divides evenly
+export function checkCovers(coveringType: string, coveredType: string): boolean {
+  if (SUBSTITUTES[coveringType]?.includes(coveredType)) return true;
+  const covering = parseCheckMultiple(coveringType);
+  const covered = parseCheckMultiple(coveredType);
+  if (!covering || !covered || covering.family !== covered.family) return false;
+  return covering.multiple > covered.multiple && covering.multiple % covered.multiple === 0;
+}
+
+const taskMinutes = (tasks: MaintenanceTask[]) => tasks.reduce((sum, task) => sum + task.estimatedMinutes, 0);
+
+type Checklists = { [checkType: string]: MaintenanceChecklist };
+
+// Combine checks into one package: de-duplicated task list and overlap-aware downtime,
+// measured against the aircraft type's checklists
+export function summarizeWorkPackage(
+  components: PackageComponent[],
+  checklists: Checklists = maintenanceChecklists
+): WorkPackageSummary {
+  const coveredBy: { [componentId: string]: string } = {};
+  for (const component of components) {
+    const covering = components
+      .filter(other => checkCovers(other.intervalType, component.intervalType))
+      .sort((a, b) => (parseCheckMultiple(b.intervalType)?.multiple || 0) - (parseCheckMultiple(a.intervalType)?.multiple || 0))[0];
+    if (covering) coveredBy[component.id] = covering.id;
+  }
+
+  // Covering checks first, then largest first, so smaller ones are measured against what is already in the package
+  const ordered = [...components].sort((a, b) =>
+    Number(a.id in coveredBy) - Number(b.id in coveredBy) || b.estimatedDowntime - a.estimatedDowntime
+  );
+  const tasksById = new Map<string, MaintenanceTask>();
+  let duplicateTasksRemoved = 0;
+  let estimatedDowntime = 0;
+
+  for (const component of ordered) {
+    const tasks = checklists[checklistKeyForInterval(component.intervalType)]?.tasks || [];
+    const newTasks = tasks.filter(task => !tasksById.has(task.id));
+    duplicateTasksRemoved += tasks.length - newTasks.length;
+
+    // Absorbed: the covering check's work stands in for it
+    if (coveredBy[component.id]) continue;
+    newTasks.forEach(task => tasksById.set(task.id, task));
+
+    // Without a checklist there is nothing to overlap, so the full downtime counts
+    const totalMinutes = taskMinutes(tasks);
+    const uniqueShare = totalMinutes > 0 ? taskMinutes(newTasks) / totalMinutes : 1;
+    estimatedDowntime += component.estimatedDowntime * uniqueShare;
+  }
+
+  return {
+    componentIds: components.map(component => component.id),
+    intervalTypes: components.map(component => component.intervalType),
+    coveredBy,
+    tasks: Array.from(tasksById.values()),
+    duplicateTasksRemoved,
+    estimatedDowntime: Math.round(estimatedDowntime * 10) / 10,
+    naiveDowntime: components.reduce((sum, component) => sum + component.estimatedDowntime, 0)
+  };
+}
+
+const windowOf = (item: MaintenanceScheduleItem) => item.dueWindow || { earliest: item.scheduledDate, latest: item.scheduledDate };
+
+const dayOf = (date: Date) => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day.getTime();
+};
+
+// Merge items per aircraft whose due windows overlap into single work packages;
+// checklistsFor gives each aircraft its type's checklists (getMaintenanceChecklists)
+export function packageScheduleItems(
+  schedule: MaintenanceScheduleItem[],
+  checklistsFor: (aircraftId: string) => Checklists = () => maintenanceChecklists
+): MaintenanceScheduleItem[] {
+  // Only items traced to an interval can be matched against checklists
+  const packaged: MaintenanceScheduleItem[] = schedule.filter(item => !item.intervalType);
+  const byAircraft = new Map<string, MaintenanceScheduleItem[]>();
+  schedule
+    .filter(item => item.intervalType)
+    .forEach(item => byAircraft.set(item.aircraftId, [...(byAircraft.get(item.aircraftId) || []), item]));
+
+  for (const [aircraftId, items] of Array.from(byAircraft.entries())) {
+    const checklists = checklistsFor(aircraftId);
+    // Most urgent deadline first; each group keeps the intersection of its members' windows
+    const ordered = [...items].sort((a, b) => windowOf(a).latest.getTime() - windowOf(b).latest.getTime());
+    let group: MaintenanceScheduleItem[] = [];
+    let earliest = 0;
+    let latest = 0;
+
+    const flush = () => {
+      if (group.length > 0) packaged.push(group.length === 1 ? group[0] : mergeIntoPackage(group, earliest, latest, checklists));
+      group = [];
+    };
+
+    for (const item of ordered) {
+      const window = windowOf(item);
+      const itemEarliest = dayOf(window.earliest);
+      const itemLatest = dayOf(window.latest);
+
+      if (group.length > 0 && itemEarliest <= latest) {
+        group.push(item);
+        earliest = Math.max(earliest, itemEarliest);
+        latest = Math.min(latest, itemLatest);
+        continue;
+      }
+
+      flush();
+      group = [item];
+      earliest = itemEarliest;
+      latest = itemLatest;
+    }
+    flush();
+  }
+
+  return packaged.sort((a, b) => a.scheduledDate.getTime() - b.scheduledDate.getTime());
+}
+
+function mergeIntoPackage(
+  items: MaintenanceScheduleItem[],
+  earliest: number,
+  latest: number,
+  checklists: Checklists
+): MaintenanceScheduleItem {
+  const lead = [...items].sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority])[0];
+  const summary = summarizeWorkPackage(items.map(item => ({
+    id: item.id,
+    intervalType: item.intervalType,
+    estimatedDowntime: item.estimatedDuration
+  })), checklists);
+
+  const dueWindow = { earliest: new Date(earliest), latest: new Date(latest) };
+  const inWindow = (date: Date) => date.getTime() >= earliest && date.getTime() <= latest + DAY_MS - 1;
+  const scheduledDate = inWindow(lead.scheduledDate) ? lead.scheduledDate : new Date(latest);
+  const minDefined = (values: (number | undefined)[]) => {
+    const defined = values.filter(value => value !== undefined);
+    return defined.length > 0 ? Math.min(...defined) : undefined;
+  };
+  const nextDueDate = minDefined(items.map(item => item.nextDueDate?.getTime()));
+  const labels = items.map(item => item.reference || item.intervalType.replace('_CHECK', ''));
+  const covered = Object.keys(summary.coveredBy).map(id => {
+    const coveredItem = items.find(item => item.id === id);
+    const coveringItem = items.find(item => item.id === summary.coveredBy[id]);
+    return `${coveringItem.intervalType.replace('_CHECK', '')} covers ${coveredItem.intervalType.replace('_CHECK', '')}`;
+  });
+
+  return {
+    ...lead,
+    id: `pkg-${lead.aircraftId}-${items.map(item => item.id.replace(/^(pred|immediate)-[^-]+-/, '')).join('+')}`,
+    reference: undefined, // member references are listed in the package reasoning
+    scheduledDate,
+    estimatedDuration: summary.estimatedDowntime,
+    priority: lead.priority,
+    confidenceScore: Math.min(...items.map(item => item.confidenceScore)),
+    reasoning: [
+      `Work package: ${labels.join(' + ')}`,
+      ...(covered.length > 0 ? [covered.join(', ')] : []),
+      `${summary.duplicateTasksRemoved} shared tasks done once; downtime ${summary.estimatedDowntime}h vs ${summary.naiveDowntime}h separately`,
+      ...lead.reasoning
+    ],
+    conflictsWith: Array.from(new Set(items.flatMap(item => item.conflictsWith))),
+    alternativeDates: Array.from(new Set(items.flatMap(item => item.alternativeDates.map(date => date.getTime()))))
+      .filter(time => time !== scheduledDate.getTime() && inWindow(new Date(time)))
+      .sort((a, b) => a - b)
+      .slice(0, 3)
+      .map(time => new Date(time)),
+    estimatedCost: items.reduce((sum, item) => sum + item.estimatedCost, 0),
+    impactOnOperations: items.some(item => item.impactOnOperations === 'HIGH') ? 'HIGH' : lead.impactOnOperations,
+    requiredParts: Array.from(new Set(items.flatMap(item => item.requiredParts))),
+    mechanicRequirements: Array.from(new Set(items.flatMap(item => item.mechanicRequirements))),
+    dueWindow,
+    nextDueHours: minDefined(items.map(item => item.nextDueHours)),
+    nextDueCycles: minDefined(items.map(item => item.nextDueCycles)),
+    nextDueDate: nextDueDate !== undefined ? new Date(nextDueDate) : undefined,
+    dueStatus: items.reduce((worst, item) =>
+      DUE_STATE_RANK[item.dueStatus || 'CURRENT'] > DUE_STATE_RANK[worst || 'CURRENT'] ? item.dueStatus : worst, lead.dueStatus),
+    workPackage: summary
+  };
+}
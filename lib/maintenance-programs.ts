@@ -0,0 +1,376 @@
+/**
+ * Maintenance Programs
+ * Data-driven maintenance program definitions keyed by make and model.
+ * Programs are JSON or YAML files in data/maintenance-programs/ (override with
+ * MAINTENANCE_PROGRAM_DIR) defining intervals, tolerances, task cards, checklists,
+ * personnel, equipment, cost/downtime estimates, exceedance limits and the aircraft's dimensions.
+ * Adding a type only needs a new file.
+ */
+
+import { parse as parseYaml } from 'yaml';
+import { Aircraft, MaintenanceInterval, MaintenanceTolerance } from '@/types';
+import type { MaintenanceChecklist, MaintenanceTask } from './maintenance-tasks';
+import { computeMaintenanceDue } from './maintenance-due';
+import g550Program from '@/data/maintenance-programs/gulfstream-g550.json';
+
+export interface ProgramInterval {
+  type: MaintenanceInterval['intervalType'];
+  description: string;
+  hours?: number;
+  cycles?: number;
+  calendarDays?: number;
+  tolerance?: MaintenanceTolerance;
+  downtimeHours: number;
+  estimatedCost: number;
+  checklist?: string; // key into the program's checklists
+}
+
+export interface ProgramChecklist {
+  description: string;
+  estimatedHours: number;
+  requiredPersonnel: string[];
+  taskCards: string[]; // task card ids
+  documentation: string[];
+  complianceRequirements: string[];
+  requiredEquipment?: string[]; // hangar bay, GSE, lifts and jacks, matched against data/resources.json
+}
+
+// Outside dimensions, checked against hangar bay sizes when booking a bay
+export interface AircraftDimensions {
+  lengthFt: number;
+  wingspanFt: number;
+  heightFt: number;
+}
+
+// Operating limits checked against tracking data; see lib/exceedance-monitor.ts
+export interface ExceedanceLimits {
+  hardLandingFpm: number;       // touchdown sink rate calling for a hard-landing inspection
+  severeHardLandingFpm: number; // sink rate calling for a severe hard-landing inspection
+  speedLimitKnots: number;      // ground speed reported as over the low-altitude speed limit; not an airframe overspeed
+  speedLimitBelowFeet: number;
+  vmoKnots?: number;            // maximum operating indicated airspeed; checked where the provider reports airspeed
+  mmo?: number;                 // maximum operating Mach number
+  maxFlightHours: number;       // single flight
+  maxFlightHoursPer24h: number; // rolling 24 hours
+}
+
+export interface MaintenanceProgram {
+  make: string;
+  models: string[];
+  name: string;
+  revision?: string;
+  intervals: ProgramInterval[];
+  taskCards: MaintenanceTask[];
+  checklists: { [checkType: string]: ProgramChecklist };
+  exceedanceLimits?: Partial<ExceedanceLimits>; // unset limits use DEFAULT_EXCEEDANCE_LIMITS
+  dimensions?: AircraftDimensions;
+}
+
+const INTERVAL_TYPES: MaintenanceInterval['intervalType'][] = [
+  'A_CHECK', '2A_CHECK', '3A_CHECK', '4A_CHECK', '5A_CHECK', '10A_CHECK',
+  'C_CHECK', '2C_CHECK', '3C_CHECK', '4C_CHECK', '5C_CHECK', '6C_CHECK', '8C_CHECK',
+  'ANNUAL', 'PROGRESSIVE', '100_HOUR', 'DAILY', 'ELT', 'ALTIMETER_TRANSPONDER'
+];
+const TASK_CATEGORIES: MaintenanceTask['category'][] = [
+  'VISUAL', 'OPERATIONAL', 'LUBRICATION', 'SERVICING', 'STRUCTURAL', 'SYSTEMS', 'COMPLIANCE'
+];
+const SKILL_LEVELS: MaintenanceTask['skillLevel'][] = ['BASIC', 'INTERMEDIATE', 'ADVANCED', 'SPECIALIST'];
+const REBASE_RULES: MaintenanceTolerance['rebase'][] = ['FROM_COMPLETION', 'FROM_DUE', 'FROM_DUE_WITHIN_TOLERANCE'];
+const EXCEEDANCE_LIMIT_NAMES: string[] = [
+  'hardLandingFpm', 'severeHardLandingFpm', 'speedLimitKnots', 'speedLimitBelowFeet', 'vmoKnots', 'mmo',
+  'maxFlightHours', 'maxFlightHoursPer24h'
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isNonNegative = (value: unknown) => typeof value === 'number' && isFinite(value) && value >= 0;
+const isString = (value: unknown) => typeof value === 'string' && value.trim().length > 0;
+const isStringArray = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+function validateTolerance(tolerance: any, path: string, issues: string[]) {
+  if (!REBASE_RULES.includes(tolerance.rebase)) {
+    issues.push(`${path}.rebase must be one of ${REBASE_RULES.join(', ')}`);
+  }
+  for (const limit of ['hours', 'cycles', 'calendarDays']) {
+    const band = tolerance[limit];
+    if (band === undefined) continue;
+    if (band.early !== undefined && !isNonNegative(band.early)) issues.push(`${path}.${limit}.early must be a non-negative number`);
+    if (band.late !== undefined && !isNonNegative(band.late)) issues.push(`${path}.${limit}.late must be a non-negative number`);
+    if (band.unit !== undefined && band.unit !== 'ABSOLUTE' && band.unit !== 'PERCENT') {
+      issues.push(`${path}.${limit}.unit must be ABSOLUTE or PERCENT`);
+    }
+  }
+}
+
+// Check structure and cross-references; throws listing every problem found
+export function validateMaintenanceProgram(raw: any, source = 'program'): MaintenanceProgram {
+  const issues: string[] = [];
+
+  if (!raw || typeof raw !== 'object') {
+    throw new Error(`Invalid maintenance program ${source}: expected an object`);
+  }
+  if (!isString(raw.make)) issues.push('make is required');
+  if (!isStringArray(raw.models) || raw.models.length === 0) issues.push('models must list at least one model');
+  if (!isString(raw.name)) issues.push('name is required');
+
+  const taskCards: any[] = Array.isArray(raw.taskCards) ? raw.taskCards : [];
+  if (!Array.isArray(raw.taskCards)) issues.push('taskCards must be an array');
+  const taskIds = new Set<string>();
+  taskCards.forEach((task, index) => {
+    const path = `taskCards[${index}]`;
+    if (!isString(task?.id)) return issues.push(`${path}.id is required`);
+    if (taskIds.has(task.id)) issues.push(`${path}.id "${task.id}" is duplicated`);
+    taskIds.add(task.id);
+    if (!isString(task.title)) issues.push(`${path}.title is required`);
+    if (!TASK_CATEGORIES.includes(task.category)) issues.push(`${path}.category must be one of ${TASK_CATEGORIES.join(', ')}`);
+    if (!isNonNegative(task.estimatedMinutes)) issues.push(`${path}.estimatedMinutes must be a non-negative number`);
+    if (!isStringArray(task.requiredTools)) issues.push(`${path}.requiredTools must be a list of strings`);
+    if (!SKILL_LEVELS.includes(task.skillLevel)) issues.push(`${path}.skillLevel must be one of ${SKILL_LEVELS.join(', ')}`);
+    if (typeof task.criticalSafety !== 'boolean') issues.push(`${path}.criticalSafety must be true or false`);
+    if (task.requiredCertifications !== undefined && !isStringArray(task.requiredCertifications)) {
+      issues.push(`${path}.requiredCertifications must be a list of strings`);
+    }
+  });
+  taskCards.forEach((task, index) => {
+    (task?.dependencies || []).forEach((dependency: string) => {
+      if (!taskIds.has(dependency)) issues.push(`taskCards[${index}] depends on unknown task card "${dependency}"`);
+    });
+  });
+
+  const checklists = raw.checklists && typeof raw.checklists === 'object' ? raw.checklists : {};
+  if (!raw.checklists || typeof raw.checklists !== 'object') issues.push('checklists must be an object keyed by check type');
+  Object.entries<any>(checklists).forEach(([key, checklist]) => {
+    const path = `checklists.${key}`;
+    if (!isString(checklist?.description)) issues.push(`${path}.description is required`);
+    if (!isNonNegative(checklist?.estimatedHours)) issues.push(`${path}.estimatedHours must be a non-negative number`);
+    if (!isStringArray(checklist?.requiredPersonnel)) issues.push(`${path}.requiredPersonnel must be a list of strings`);
+    if (checklist?.requiredEquipment !== undefined && !isStringArray(checklist.requiredEquipment)) {
+      issues.push(`${path}.requiredEquipment must be a list of strings`);
+    }
+    if (!isStringArray(checklist?.taskCards)) return issues.push(`${path}.taskCards must be a list of task card ids`);
+    checklist.taskCards
+      .filter((id: string) => !taskIds.has(id))
+      .forEach((id: string) => issues.push(`${path} references unknown task card "${id}"`));
+  });
+
+  const intervals: any[] = Array.isArray(raw.intervals) ? raw.intervals : [];
+  if (intervals.length === 0) issues.push('intervals must define at least one interval');
+  const intervalTypes = new Set<string>();
+  intervals.forEach((interval, index) => {
+    const path = `intervals[${index}]`;
+    if (!INTERVAL_TYPES.includes(interval?.type)) return issues.push(`${path}.type must be one of ${INTERVAL_TYPES.join(', ')}`);
+    if (intervalTypes.has(interval.type)) issues.push(`${path}.type ${interval.type} is defined more than once`);
+    intervalTypes.add(interval.type);
+    if (!isString(interval.description)) issues.push(`${path}.description is required`);
+
+    const limits = ['hours', 'cycles', 'calendarDays'].filter(limit => interval[limit] !== undefined);
+    if (limits.length === 0) issues.push(`${path} needs at least one of hours, cycles or calendarDays`);
+    limits
+      .filter(limit => !(isNonNegative(interval[limit]) && interval[limit] > 0))
+      .forEach(limit => issues.push(`${path}.${limit} must be a positive number`));
+
+    if (!isNonNegative(interval.downtimeHours)) issues.push(`${path}.downtimeHours must be a non-negative number`);
+    if (!isNonNegative(interval.estimatedCost)) issues.push(`${path}.estimatedCost must be a non-negative number`);
+    if (interval.checklist !== undefined && !checklists[interval.checklist]) {
+      issues.push(`${path}.checklist "${interval.checklist}" is not defined in checklists`);
+    }
+    if (interval.tolerance !== undefined) validateTolerance(interval.tolerance, `${path}.tolerance`, issues);
+  });
+
+  if (raw.exceedanceLimits !== undefined) {
+    if (!raw.exceedanceLimits || typeof raw.exceedanceLimits !== 'object') {
+      issues.push('exceedanceLimits must be an object');
+    } else {
+      Object.keys(raw.exceedanceLimits)
+        .filter(limit => !EXCEEDANCE_LIMIT_NAMES.includes(limit))
+        .forEach(limit => issues.push(`exceedanceLimits.${limit} is not a known limit (${EXCEEDANCE_LIMIT_NAMES.join(', ')})`));
+      Object.entries<any>(raw.exceedanceLimits)
+        .filter(([limit, value]) => EXCEEDANCE_LIMIT_NAMES.includes(limit) && !(isNonNegative(value) && value > 0))
+        .forEach(([limit]) => issues.push(`exceedanceLimits.${limit} must be a positive number`));
+      const { hardLandingFpm, severeHardLandingFpm } = raw.exceedanceLimits;
+      if (hardLandingFpm && severeHardLandingFpm && severeHardLandingFpm < hardLandingFpm) {
+        issues.push('exceedanceLimits.severeHardLandingFpm must not be below hardLandingFpm');
+      }
+    }
+  }
+
+  if (raw.dimensions !== undefined) {
+    ['lengthFt', 'wingspanFt', 'heightFt']
+      .filter(dimension => !(isNonNegative(raw.dimensions?.[dimension]) && raw.dimensions[dimension] > 0))
+      .forEach(dimension => issues.push(`dimensions.${dimension} must be a positive number`));
+  }
+
+  if (issues.length > 0) {
+    throw new Error(`Invalid maintenance program ${source}: ${issues.join('; ')}`);
+  }
+  return raw as MaintenanceProgram;
+}
+
+// Parse a program file by extension (.json, .yaml or .yml) and validate it
+export function parseMaintenanceProgram(content: string, fileName: string): MaintenanceProgram {
+  const isYaml = /\.ya?ml$/i.test(fileName);
+  let raw: unknown;
+  try {
+    raw = isYaml ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Failed to parse maintenance program ${fileName}: ${error instanceof Error ? error.message : error}`);
+  }
+  return validateMaintenanceProgram(raw, fileName);
+}
+
+// Registry keyed by "make|model"
+const programs = new Map<string, MaintenanceProgram>();
+let programsLoaded: Promise<MaintenanceProgram[]> | null = null;
+
+const programKey = (make: string, model: string) => `${make.trim().toLowerCase()}|${model.trim().toLowerCase()}`;
+
+export function registerMaintenanceProgram(program: MaintenanceProgram): void {
+  program.models.forEach(model => programs.set(programKey(program.make, model), program));
+}
+
+// The G550 program ships with the app so checklists resolve before any files are read
+export const DEFAULT_MAINTENANCE_PROGRAM = validateMaintenanceProgram(g550Program, 'gulfstream-g550.json');
+registerMaintenanceProgram(DEFAULT_MAINTENANCE_PROGRAM);
+
+// Read every program file in the directory once; invalid files fail the load.
+// Called at server startup (instrumentation.ts) so getMaintenanceProgram sees every type, not only the G550.
+export function loadMaintenancePrograms(
+  directory: string = process.env.MAINTENANCE_PROGRAM_DIR || `${process.cwd()}/data/maintenance-programs`
+): Promise<MaintenanceProgram[]> {
+  if (!programsLoaded) {
+    programsLoaded = (async () => {
+      const { readdir, readFile } = await import('fs/promises');
+      const { join } = await import('path');
+      const files = (await readdir(directory)).filter(file => /\.(json|ya?ml)$/i.test(file)).sort();
+
+      const loaded = await Promise.all(files.map(async file =>
+        parseMaintenanceProgram(await readFile(join(directory, file), 'utf8'), file)
+      ));
+      loaded.forEach(registerMaintenanceProgram);
+      console.log(`🛠️ Loaded ${loaded.length} maintenance program(s) from ${directory}`);
+      return loaded;
+    })().catch(error => {
+      programsLoaded = null;
+      throw error;
+    });
+  }
+  return programsLoaded;
+}
+
+export function getMaintenanceProgram(make: string, model: string): MaintenanceProgram | undefined {
+  return programs.get(programKey(make, model));
+}
+
+// Waits for the program directory to be loaded; files are read once per process, so new ones need a restart
+export async function findMaintenanceProgram(make: string, model: string): Promise<MaintenanceProgram | undefined> {
+  await loadMaintenancePrograms();
+  return getMaintenanceProgram(make, model);
+}
+
+export function listMaintenancePrograms(): MaintenanceProgram[] {
+  return Array.from(new Set(programs.values()));
+}
+
+// Resolve task card ids into the checklist shape used by workflows and packaging
+export function getProgramChecklists(program: MaintenanceProgram): { [checkType: string]: MaintenanceChecklist } {
+  const cardsById = new Map(program.taskCards.map(task => [task.id, task]));
+  const checklists: { [checkType: string]: MaintenanceChecklist } = {};
+
+  Object.entries(program.checklists).forEach(([checkType, checklist]) => {
+    checklists[checkType] = {
+      checkType,
+      description: checklist.description,
+      estimatedHours: checklist.estimatedHours,
+      requiredPersonnel: checklist.requiredPersonnel,
+      tasks: checklist.taskCards.map(id => cardsById.get(id)),
+      documentation: checklist.documentation || [],
+      complianceRequirements: checklist.complianceRequirements || [],
+      requiredEquipment: checklist.requiredEquipment || []
+    };
+  });
+
+  return checklists;
+}
+
+export function findProgramInterval(
+  program: MaintenanceProgram,
+  intervalType: string
+): ProgramInterval | undefined {
+  return program.intervals.find(interval => interval.type === intervalType);
+}
+
+// Last compliance with a program interval, from the aircraft's logbooks
+export interface IntervalCompliance {
+  completedAt?: Date;
+  completedHours?: number;
+  completedCycles?: number;
+}
+
+// Intervals for a newly added aircraft, baselined at its last compliance with each. Hours and cycles
+// intervals need that compliance unless the airframe has no time yet; calendar intervals fall back to
+// the last inspection. Throws listing every interval that cannot be baselined.
+export function generateMaintenanceIntervals(
+  aircraft: Aircraft,
+  program: MaintenanceProgram,
+  lastCompliance: { [intervalType: string]: IntervalCompliance } = {},
+  asOf: Date = new Date()
+): MaintenanceInterval[] {
+  const inspectedAt = aircraft.lastInspectionDate ? new Date(aircraft.lastInspectionDate) : asOf;
+  const problems: string[] = [];
+  Object.keys(lastCompliance)
+    .filter(type => !findProgramInterval(program, type))
+    .forEach(type => problems.push(`${type} is not an interval of ${program.name}`));
+  program.intervals.forEach(definition => {
+    const compliance = lastCompliance[definition.type] || {};
+    if (definition.hours && compliance.completedHours === undefined && aircraft.totalAircraftTime > 0) {
+      problems.push(`${definition.type} needs the hours at its last compliance`);
+    }
+    if (definition.cycles && compliance.completedCycles === undefined && aircraft.totalCycles > 0) {
+      problems.push(`${definition.type} needs the cycles at its last compliance`);
+    }
+    if (compliance.completedHours > aircraft.totalAircraftTime) {
+      problems.push(`${definition.type} last compliance at ${compliance.completedHours} hours is past the aircraft's ${aircraft.totalAircraftTime}`);
+    }
+    if (compliance.completedCycles > aircraft.totalCycles) {
+      problems.push(`${definition.type} last compliance at ${compliance.completedCycles} cycles is past the aircraft's ${aircraft.totalCycles}`);
+    }
+  });
+  if (problems.length > 0) {
+    throw new Error(`Cannot baseline ${aircraft.tailNumber} intervals: ${problems.join('; ')}`);
+  }
+
+  return program.intervals.map(definition => {
+    const compliance = lastCompliance[definition.type] || {};
+    const baselineDate = compliance.completedAt ? new Date(compliance.completedAt) : inspectedAt;
+    const baselineHours = compliance.completedHours ?? aircraft.totalAircraftTime;
+    const baselineCycles = compliance.completedCycles ?? aircraft.totalCycles;
+    const interval: MaintenanceInterval = {
+      id: `${aircraft.id}-${definition.type.toLowerCase().replace(/_/g, '-')}`,
+      aircraftId: aircraft.id,
+      intervalType: definition.type,
+      description: definition.description,
+      intervalHours: definition.hours,
+      intervalCycles: definition.cycles,
+      intervalCalendar: definition.calendarDays,
+      lastCompletedAt: baselineDate,
+      lastCompletedHours: baselineHours,
+      lastCompletedCycles: definition.cycles ? baselineCycles : undefined,
+      nextDueAt: definition.calendarDays ? new Date(baselineDate.getTime() + definition.calendarDays * DAY_MS) : asOf,
+      nextDueHours: definition.hours ? baselineHours + definition.hours : 0,
+      nextDueCycles: definition.cycles ? baselineCycles + definition.cycles : undefined,
+      tolerance: definition.tolerance,
+      isOverdue: false,
+      priority: 'LOW',
+      estimatedDowntime: definition.downtimeHours,
+      estimatedCost: definition.estimatedCost
+    };
+
+    const due = computeMaintenanceDue(aircraft, interval, undefined, asOf);
+    return {
+      ...interval,
+      nextDueAt: definition.calendarDays ? interval.nextDueAt : due.dueDate,
+      isOverdue: due.isOverdue,
+      priority: due.isOverdue ? 'CRITICAL' : due.status === 'CURRENT' ? 'LOW' : 'HIGH'
+    };
+  });
+}
@@ -14,7 +14,27 @@
  * - Progressive: Every 90 days, 1-2 days (rolling schedule)
  */
 
-import { Aircraft, MaintenanceInterval, WorkOrder, FlightHistory, FlightPlan } from '@/types';
+import { Aircraft, MaintenanceInterval, MaintenanceUser, WorkOrder, FlightHistory, FlightPlan } from '@/types';
+import {
+  DueLimit,
+  DueLimitStatus,
+  DueState,
+  MaintenanceDue,
+  computeMaintenanceDue,
+  cyclesPerHour,
+  describeDueLimit,
+  forecastCyclesBetween,
+  forecastHoursBetween,
+  projectDateForCycles,
+  projectDateForHours
+} from './maintenance-due';
+import { WorkPackageSummary, checklistKeyForInterval, packageScheduleItems } from './maintenance-packaging';
+import { getMaintenanceChecklists } from './maintenance-tasks';
+import { AircraftDimensions, getMaintenanceProgram } from './maintenance-programs';
+import { ResourceCalendar, TentativeBooking, getResourceCalendar, resourceNeeds } from './resource-calendar';
+import { HANGAR_BAY } from './resources';
+import { listPersonnel } from './personnel';
+import { StaffingRequirement, qualificationGaps } from './task-assignment';
 
 // Scheduling Configuration
 export interface SchedulingConfig {
@@ -29,10 +49,18 @@ export interface SchedulingConfig {
   maxDowntimeHours: number;        // Maximum acceptable downtime per maintenance
   preferredMaintenanceDays: number[]; // 0=Sunday, 1=Monday, etc.
   maintenanceCapacity: number;     // Max concurrent aircraft in maintenance
+  allowToleranceScheduling: boolean; // Let checks land inside the late tolerance band
+  bundleChecks: boolean;           // Package checks due in the same window per aircraft
   
   // Prediction parameters
   predictionHorizonDays: number;   // How far ahead to predict
   utilizationLookbackDays: number; // Historical data to analyze
+  
+  // Genetic algorithm parameters
+  populationSize: number;          // Candidate schedules per generation
+  generations: number;             // Number of evolution rounds
+  mutationRate: number;            // Probability of moving each item (0-1)
+  randomSeed?: number;             // Fixed seed for reproducible schedules
 }
 
 export const defaultSchedulingConfig: SchedulingConfig = {
@@ -44,8 +72,13 @@ export const defaultSchedulingConfig: SchedulingConfig = {
   maxDowntimeHours: 48,
   preferredMaintenanceDays: [0, 6], // Weekends
   maintenanceCapacity: 2,
+  allowToleranceScheduling: true,
+  bundleChecks: true,
   predictionHorizonDays: 90,
-  utilizationLookbackDays: 30
+  utilizationLookbackDays: 30,
+  populationSize: 24,
+  generations: 100,
+  mutationRate: 0.2
 };
 
 // Scheduling Result Types
@@ -53,7 +86,10 @@ export interface MaintenanceScheduleItem {
   id: string;
   aircraftId: string;
   tailNumber: string;
-  maintenanceType: 'A_CHECK' | 'C_CHECK' | 'ANNUAL' | '100_HOUR' | 'DAILY' | 'UNSCHEDULED';
+  maintenanceType: 'A_CHECK' | 'C_CHECK' | 'ANNUAL' | '100_HOUR' | 'DAILY' | 'ELT' | 'ALTIMETER_TRANSPONDER' |
+    'AD' | 'SB' | 'COMPONENT' | 'UNSCHEDULED';
+  intervalType?: MaintenanceInterval['intervalType']; // specific check, e.g. 4A_CHECK
+  reference?: string; // AD/SB number or component position, e.g. "AD 2023-04-07", "Engine 1 S/N 15210"
   scheduledDate: Date;
   estimatedDuration: number; // hours
   priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
@@ -65,6 +101,21 @@ export interface MaintenanceScheduleItem {
   impactOnOperations: 'LOW' | 'MEDIUM' | 'HIGH';
   requiredParts: string[];
   mechanicRequirements: string[];
+  // Planning bounds used by the optimizer
+  dueWindow?: { earliest: Date; latest: Date };
+  nextDueHours?: number;  // airframe hours the item must be completed by
+  currentHours?: number;  // airframe hours when the item was planned
+  nextDueCycles?: number;
+  currentCycles?: number;
+  nextDueDate?: Date;     // calendar limit, when the interval has one
+  drivingLimit?: DueLimit; // limit reached first
+  dueStatus?: DueState;
+  // Shared resources: the bay planned from the registry and the crew from the roster, set when the item is placed.
+  // assignedPersonnel given by the caller is kept as-is.
+  hangar?: string;
+  assignedPersonnel?: string[];
+  plannedResources?: string[]; // registry items (lib/resources.ts) free for the check at its scheduled date
+  workPackage?: WorkPackageSummary; // set when several checks were bundled into this item
 }
 
 export interface ScheduleOptimizationResult {
@@ -90,6 +141,7 @@ export interface ScheduleConflict {
 export interface UtilizationPattern {
   aircraftId: string;
   dailyAverageHours: number;
+  dailyAverageCycles: number;
   weeklyPattern: number[]; // Hours per day of week
   monthlyPattern: number[]; // Hours per day of month
   seasonalTrends: { [month: number]: number };
@@ -98,10 +150,69 @@ export interface UtilizationPattern {
   predictedUtilization: { date: Date; hours: number }[];
 }
 
+// Time an aircraft, hangar and crew are committed to a scheduled item or open work order
+interface MaintenanceBooking {
+  id: string;
+  aircraftId: string;
+  label: string;
+  start: number;
+  end: number;
+  personnel: string[]; // names, as work orders record their mechanic and inspector
+  needs: string[]; // registry-tracked equipment and tooling
+  dimensions?: AircraftDimensions;
+  resources: string[]; // registry ids planned for it once placed
+}
+
+// Hangar bay, equipment and tooling a check needs, and the aircraft's size for bay fit
+interface ResourceRequirements {
+  needs: string[];
+  dimensions?: AircraftDimensions;
+}
+
+interface DetectedConflict {
+  type: ScheduleConflict['type'];
+  conflictingIds: string[];
+  detail: string;
+  hard?: boolean; // registry resource double-booked, out of calibration or too small; no soft trade-off allowed
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const PRIORITY_RANK: { [priority: string]: number } = { CRITICAL: 0, HIGH: 1, MEDIUM: 2, LOW: 3 };
+
+// Roster requirement behind each entry of mechanicRequirements
+const CREW_REQUIREMENTS: { [label: string]: Omit<StaffingRequirement, 'label'> } = {
+  'A&P Mechanic': { roles: ['MECHANIC'], certifications: ['A&P'] },
+  'IA Inspector': { roles: ['INSPECTOR'], requiresIA: true },
+  'Avionics Tech': { roles: ['MECHANIC'], certifications: ['Avionics'] }
+};
+
+// Deterministic PRNG (mulberry32) so a seed always yields the same schedule
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const startOfDay = (date: Date): Date => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
 export class MaintenanceScheduler {
   private config: SchedulingConfig;
   
-  constructor(config: SchedulingConfig = defaultSchedulingConfig) {
+  constructor(
+    config: SchedulingConfig = defaultSchedulingConfig,
+    private resources: ResourceCalendar = getResourceCalendar(),
+    private roster: MaintenanceUser[] = listPersonnel()
+  ) {
     this.config = config;
   }
 
@@ -124,19 +235,32 @@ export class MaintenanceScheduler {
       utilizationPatterns
     );
     
-    // 3. Optimize scheduling with constraints
+    // 3. Bundle checks coming due together, then optimize with constraints, against the resources
+    //    approved work already holds
+    await this.resources.refresh();
+    const packagedMaintenance = this.config.bundleChecks
+      ? packageScheduleItems(predictedMaintenance, aircraftId => {
+        const plane = aircraft.find(candidate => candidate.id === aircraftId);
+        return getMaintenanceChecklists(plane?.make, plane?.model);
+      })
+      : predictedMaintenance;
     const optimizedSchedule = await this.optimizeSchedule(
-      predictedMaintenance,
+      packagedMaintenance,
       upcomingFlights,
       utilizationPatterns,
       currentWorkOrders
     );
     
     // 4. Validate and resolve conflicts
-    const validatedSchedule = await this.validateAndResolveConflicts(optimizedSchedule);
+    const { schedule: validatedSchedule, conflicts } = await this.validateAndResolveConflicts(
+      optimizedSchedule,
+      upcomingFlights,
+      currentWorkOrders,
+      aircraft
+    );
     
     // 5. Calculate metrics and recommendations
-    const result = await this.generateScheduleResult(validatedSchedule, utilizationPatterns);
+    const result = await this.generateScheduleResult(validatedSchedule, utilizationPatterns, upcomingFlights, conflicts);
     
     return result;
   }
@@ -151,13 +275,14 @@ export class MaintenanceScheduler {
       const planeHistory = flightHistory.filter(f => f.aircraftId === plane.id);
       
       if (planeHistory.length === 0) {
-        return this.getDefaultUtilizationPattern(plane.id);
+        return this.getDefaultUtilizationPattern(plane);
       }
 
-      // Calculate daily average
+      // Calculate daily average (each flight is one cycle)
       const totalDays = this.config.utilizationLookbackDays;
       const totalHours = planeHistory.reduce((sum, flight) => sum + (flight.flightTime / 60), 0);
       const dailyAverage = totalHours / totalDays;
+      const dailyAverageCycles = planeHistory.length / totalDays;
 
       // Weekly pattern analysis
       const weeklyPattern = this.analyzeWeeklyPattern(planeHistory);
@@ -182,6 +307,7 @@ export class MaintenanceScheduler {
       return {
         aircraftId: plane.id,
         dailyAverageHours: dailyAverage,
+        dailyAverageCycles,
         weeklyPattern,
         monthlyPattern,
         seasonalTrends,
@@ -224,29 +350,29 @@ export class MaintenanceScheduler {
     pattern: UtilizationPattern
   ): Promise<MaintenanceScheduleItem | null> {
     
-    // Calculate when maintenance will be due based on usage prediction
-    const hoursRemaining = interval.nextDueHours - aircraft.totalAircraftTime;
+    // Whichever of hours, cycles and calendar comes first
+    const due = computeMaintenanceDue(aircraft, interval, pattern);
     
-    if (hoursRemaining <= 0) {
+    if (due.isOverdue) {
       // Overdue - schedule immediately
-      return this.createImmediateMaintenanceItem(aircraft, interval, 'CRITICAL');
+      return this.createImmediateMaintenanceItem(aircraft, interval, 'CRITICAL', due);
     }
 
-    // Predict when hours will be reached based on utilization
-    let accumulatedHours = 0;
-    let predictedDate = new Date();
-    
-    for (const prediction of pattern.predictedUtilization) {
-      accumulatedHours += prediction.hours;
-      if (accumulatedHours >= hoursRemaining - this.config.minSafetyMarginHours) {
-        predictedDate = prediction.date;
-        break;
-      }
-    }
+    // The optimizer may pull the check forward but never past the safety-margin point
+    const today = startOfDay(new Date());
+    const predictedDate = this.latestSafeDate(due, pattern);
+    const latest = predictedDate < today ? today : predictedDate;
+    // Opening the early tolerance band lets the check be packaged with others due sooner
+    const earlyStart = this.earlyToleranceStart(due, pattern);
+    const earliest = new Date(Math.max(
+      today.getTime(),
+      Math.min(latest.getTime() - 14 * DAY_MS, earlyStart ? earlyStart.getTime() : Infinity)
+    ));
+    const dueWindow = { earliest, latest };
 
     // Optimize date based on utilization patterns and constraints
     const optimizedDate = this.optimizeMaintenanceDate(
-      predictedDate,
+      dueWindow,
       pattern,
       interval.estimatedDowntime
     );
@@ -256,20 +382,94 @@ export class MaintenanceScheduler {
       aircraftId: aircraft.id,
       tailNumber: aircraft.tailNumber,
       maintenanceType: this.mapIntervalTypeToMaintenanceType(interval.intervalType),
+      intervalType: interval.intervalType,
       scheduledDate: optimizedDate,
       estimatedDuration: interval.estimatedDowntime,
-      priority: this.calculatePriority(hoursRemaining, interval),
-      confidenceScore: this.calculateConfidence(pattern, hoursRemaining),
-      reasoning: this.generateReasoning(aircraft, interval, pattern, optimizedDate),
+      priority: this.calculatePriority(due, pattern),
+      confidenceScore: this.calculateConfidence(due),
+      reference: this.itemReference(interval),
+      reasoning: [...this.sourceReasoning(interval), ...this.generateReasoning(due, pattern)],
       conflictsWith: [],
-      alternativeDates: this.generateAlternativeDates(optimizedDate, pattern),
+      alternativeDates: this.generateAlternativeDates(optimizedDate, dueWindow, pattern, interval.estimatedDowntime),
       estimatedCost: interval.estimatedCost,
       impactOnOperations: this.assessOperationalImpact(optimizedDate, pattern),
       requiredParts: this.getRequiredParts(interval.intervalType),
-      mechanicRequirements: this.getMechanicRequirements(interval.intervalType)
+      mechanicRequirements: this.getMechanicRequirements(interval.intervalType),
+      dueWindow,
+      ...this.dueFields(aircraft, due)
     };
   }
 
+  // Limit values carried on the item so scoring can measure the remaining margin
+  private dueFields(aircraft: Aircraft, due: MaintenanceDue): Partial<MaintenanceScheduleItem> {
+    const hours = due.limits.find(l => l.limit === 'HOURS');
+    const cycles = due.limits.find(l => l.limit === 'CYCLES');
+    const calendar = due.limits.find(l => l.limit === 'CALENDAR');
+
+    return {
+      nextDueHours: hours ? hours.dueAt + this.allowedLateTolerance(hours) : undefined,
+      currentHours: aircraft.totalAircraftTime,
+      nextDueCycles: cycles ? cycles.dueAt + this.allowedLateTolerance(cycles) : undefined,
+      currentCycles: aircraft.totalCycles,
+      nextDueDate: calendar ? new Date(calendar.dueAt + this.allowedLateTolerance(calendar) * DAY_MS) : undefined,
+      drivingLimit: due.drivingLimit,
+      dueStatus: due.status
+    };
+  }
+
+  private allowedLateTolerance(status: DueLimitStatus): number {
+    return this.config.allowToleranceScheduling ? status.lateTolerance : 0;
+  }
+
+  // First date inside the early tolerance band of every limit that has one
+  private earlyToleranceStart(due: MaintenanceDue, pattern: UtilizationPattern): Date | undefined {
+    const dates = due.limits
+      .filter(status => status.earlyTolerance > 0)
+      .map(status => {
+        const remaining = status.remaining - status.earlyTolerance;
+        switch (status.limit) {
+          case 'HOURS':
+            return projectDateForHours(pattern, remaining);
+          case 'CYCLES':
+            return projectDateForCycles(pattern, remaining);
+          case 'CALENDAR':
+            return new Date(startOfDay(status.projectedDate).getTime() - status.earlyTolerance * DAY_MS);
+        }
+      });
+
+    if (dates.length === 0) return undefined;
+    return new Date(Math.max(...dates.map(date => date.getTime())));
+  }
+
+  // Latest date that keeps the safety margin on every tracked limit, tolerance included
+  private latestSafeDate(due: MaintenanceDue, pattern: UtilizationPattern): Date {
+    const marginHours = this.config.minSafetyMarginHours;
+    const dates = due.limits.map(status => {
+      const remaining = status.remaining + this.allowedLateTolerance(status);
+      switch (status.limit) {
+        case 'HOURS':
+          return projectDateForHours(pattern, remaining - marginHours);
+        case 'CYCLES':
+          return projectDateForCycles(pattern, remaining - marginHours * cyclesPerHour(pattern));
+        case 'CALENDAR':
+          return new Date(startOfDay(status.projectedDate).getTime() + (this.allowedLateTolerance(status) - 1) * DAY_MS);
+      }
+    });
+
+    if (dates.length === 0) return startOfDay(due.dueDate);
+    return new Date(Math.min(...dates.map(date => date.getTime())));
+  }
+
+  // AD/SB and component items lead with their source so planners can see what is being complied with
+  private sourceReasoning(interval: MaintenanceInterval): string[] {
+    return interval.directiveId || interval.componentId ? [interval.description] : [];
+  }
+
+  // Directive and component intervals are described as "<reference>: <detail>"
+  private itemReference(interval: MaintenanceInterval): string | undefined {
+    return interval.directiveId || interval.componentId ? interval.description.split(':')[0] : undefined;
+  }
+
   // Helper method to map specific interval types to general maintenance types
   private mapIntervalTypeToMaintenanceType(intervalType: string): MaintenanceScheduleItem['maintenanceType'] {
     if (intervalType.includes('A_CHECK')) return 'A_CHECK';
@@ -278,6 +478,8 @@ export class MaintenanceScheduler {
     if (intervalType === 'ANNUAL') return 'ANNUAL';
     if (intervalType === 'DAILY') return 'DAILY';
     if (intervalType === 'PROGRESSIVE') return 'A_CHECK'; // Map progressive to A_CHECK
+    if (intervalType === 'ELT' || intervalType === 'ALTIMETER_TRANSPONDER') return intervalType;
+    if (intervalType === 'AD' || intervalType === 'SB' || intervalType === 'COMPONENT') return intervalType;
     return 'UNSCHEDULED'; // Default fallback
   }
 
@@ -289,22 +491,67 @@ export class MaintenanceScheduler {
     currentWorkOrders: WorkOrder[]
   ): Promise<MaintenanceScheduleItem[]> {
     
-    // Use a genetic algorithm approach for schedule optimization
-    let bestSchedule = [...predictedMaintenance];
-    let bestScore = this.evaluateSchedule(bestSchedule, patterns, upcomingFlights);
+    if (predictedMaintenance.length === 0) return [];
 
-    // Iterative improvement
-    for (let iteration = 0; iteration < 100; iteration++) {
-      const mutatedSchedule = this.mutateSchedule(bestSchedule, patterns);
-      const score = this.evaluateSchedule(mutatedSchedule, patterns, upcomingFlights);
-      
-      if (score > bestScore) {
-        bestSchedule = mutatedSchedule;
-        bestScore = score;
+    // Use a genetic algorithm approach for schedule optimization
+    const random = createSeededRandom(this.config.randomSeed ?? Date.now());
+    const populationSize = Math.max(2, this.config.populationSize);
+    const eliteCount = Math.max(1, Math.floor(populationSize / 10));
+    const fitness = (schedule: MaintenanceScheduleItem[]) => this.evaluateSchedule(schedule, patterns, upcomingFlights);
+
+    // Seed the population with the predicted schedule plus mutated variants of it
+    let population = [predictedMaintenance.map(item => ({ ...item }))];
+    while (population.length < populationSize) {
+      population.push(this.mutateSchedule(predictedMaintenance, patterns, random));
+    }
+    let scored = population
+      .map(schedule => ({ schedule, score: fitness(schedule) }))
+      .sort((a, b) => b.score - a.score);
+
+    for (let generation = 0; generation < this.config.generations; generation++) {
+      // Elitism: the best schedules always survive, so the score never regresses
+      const nextPopulation = scored.slice(0, eliteCount).map(entry => entry.schedule);
+
+      while (nextPopulation.length < populationSize) {
+        const parentA = this.selectParent(scored, random);
+        const parentB = this.selectParent(scored, random);
+        const child = this.crossoverSchedules(parentA, parentB, random);
+        nextPopulation.push(this.mutateSchedule(child, patterns, random));
       }
+
+      population = nextPopulation;
+      scored = population
+        .map(schedule => ({ schedule, score: fitness(schedule) }))
+        .sort((a, b) => b.score - a.score);
     }
 
-    return bestSchedule;
+    return scored[0].schedule.sort((a, b) => a.scheduledDate.getTime() - b.scheduledDate.getTime());
+  }
+
+  // Tournament selection: best of three random candidates
+  private selectParent(
+    scored: { schedule: MaintenanceScheduleItem[]; score: number }[],
+    random: () => number
+  ): MaintenanceScheduleItem[] {
+    let winner = scored[Math.floor(random() * scored.length)];
+    for (let i = 1; i < 3; i++) {
+      const challenger = scored[Math.floor(random() * scored.length)];
+      if (challenger.score > winner.score) winner = challenger;
+    }
+    return winner.schedule;
+  }
+
+  // Uniform crossover: each item takes its date from one parent or the other
+  private crossoverSchedules(
+    parentA: MaintenanceScheduleItem[],
+    parentB: MaintenanceScheduleItem[],
+    random: () => number
+  ): MaintenanceScheduleItem[] {
+    const datesFromB = new Map(parentB.map(item => [item.id, item.scheduledDate]));
+    return parentA.map(item => ({
+      ...item,
+      scheduledDate: random() < 0.5 ? item.scheduledDate : (datesFromB.get(item.id) || item.scheduledDate)
+    }));
   }
 
   // Score a schedule based on multiple criteria
@@ -316,8 +563,8 @@ export class MaintenanceScheduler {
     
     const costScore = this.calculateCostScore(schedule);
     const availabilityScore = this.calculateAvailabilityScore(schedule, patterns);
-    const utilizationScore = this.calculateUtilizationScore(schedule, patterns);
-    const safetyScore = this.calculateSafetyScore(schedule);
+    const utilizationScore = this.calculateUtilizationScore(schedule, upcomingFlights);
+    const safetyScore = this.calculateSafetyScore(schedule, patterns);
 
     return (
       costScore * this.config.costWeight +
@@ -463,64 +710,88 @@ export class MaintenanceScheduler {
   }
 
   // Utility methods
-  private getDefaultUtilizationPattern(aircraftId: string): UtilizationPattern {
+  private getDefaultUtilizationPattern(aircraft: Aircraft): UtilizationPattern {
+    const dailyAverageHours = 3.5; // Typical Part 135 utilization
+    // Fleet history gives the cycles-per-hour ratio until flights are recorded
+    const cycleRatio = aircraft.totalAircraftTime > 0 ? aircraft.totalCycles / aircraft.totalAircraftTime : 0.7;
+    const weeklyPattern = [2, 4, 4, 4, 4, 4, 2]; // Lower on weekends
+    const monthlyPattern = new Array(31).fill(3.5);
+
     return {
-      aircraftId,
-      dailyAverageHours: 3.5, // Typical Part 135 utilization
-      weeklyPattern: [2, 4, 4, 4, 4, 4, 2], // Lower on weekends
-      monthlyPattern: new Array(31).fill(3.5),
+      aircraftId: aircraft.id,
+      dailyAverageHours,
+      dailyAverageCycles: dailyAverageHours * cycleRatio,
+      weeklyPattern,
+      monthlyPattern,
       seasonalTrends: {
         0: 3.0, 1: 3.2, 2: 3.5, 3: 3.8, 4: 4.0, 5: 4.5,
         6: 4.8, 7: 4.5, 8: 3.8, 9: 3.5, 10: 4.2, 11: 4.0
       },
       peakPeriods: [],
       lowPeriods: [],
-      predictedUtilization: []
+      predictedUtilization: this.predictFutureUtilization(dailyAverageHours, weeklyPattern, monthlyPattern, {})
     };
   }
 
   private createImmediateMaintenanceItem(
     aircraft: Aircraft,
     interval: MaintenanceInterval,
-    priority: MaintenanceScheduleItem['priority']
+    priority: MaintenanceScheduleItem['priority'],
+    due: MaintenanceDue
   ): MaintenanceScheduleItem {
+    const exceeded = due.limits
+      .filter(status => status.state === 'OVERDUE')
+      .map(status => `${status.limit.toLowerCase()} limit: ${describeDueLimit(status)}`);
+
     return {
       id: `immediate-${aircraft.id}-${interval.id}`,
       aircraftId: aircraft.id,
       tailNumber: aircraft.tailNumber,
       maintenanceType: this.mapIntervalTypeToMaintenanceType(interval.intervalType),
+      intervalType: interval.intervalType,
       scheduledDate: new Date(),
       estimatedDuration: interval.estimatedDowntime,
       priority,
       confidenceScore: 1.0,
-      reasoning: ['Maintenance is overdue', 'Immediate scheduling required'],
+      reference: this.itemReference(interval),
+      reasoning: [...this.sourceReasoning(interval), 'Maintenance is overdue', ...exceeded, 'Immediate scheduling required'],
       conflictsWith: [],
       alternativeDates: [],
       estimatedCost: interval.estimatedCost,
       impactOnOperations: 'HIGH',
       requiredParts: this.getRequiredParts(interval.intervalType),
-      mechanicRequirements: this.getMechanicRequirements(interval.intervalType)
+      mechanicRequirements: this.getMechanicRequirements(interval.intervalType),
+      ...this.dueFields(aircraft, due)
     };
   }
 
   private optimizeMaintenanceDate(
-    predictedDate: Date,
+    dueWindow: { earliest: Date; latest: Date },
     pattern: UtilizationPattern,
     estimatedDuration: number
   ): Date {
-    // Find the best date within a window around the predicted date
-    const windowDays = 14; // 2-week window
+    // Return the date with the highest score inside the due window
+    return this.rankWindowDates(dueWindow, pattern, estimatedDuration)[0];
+  }
+
+  // Candidate dates in the due window, best first
+  private rankWindowDates(
+    dueWindow: { earliest: Date; latest: Date },
+    pattern: UtilizationPattern,
+    estimatedDuration: number
+  ): Date[] {
     const candidates: { date: Date; score: number }[] = [];
 
-    for (let i = -windowDays; i <= windowDays; i++) {
-      const candidateDate = new Date(predictedDate.getTime() + i * 24 * 60 * 60 * 1000);
+    for (let time = dueWindow.earliest.getTime(); time <= dueWindow.latest.getTime(); time += DAY_MS) {
+      const candidateDate = new Date(time);
       const score = this.scoreDateCandidate(candidateDate, pattern, estimatedDuration);
       candidates.push({ date: candidateDate, score });
     }
 
-    // Return the date with the highest score
+    if (candidates.length === 0) return [dueWindow.latest];
+
     candidates.sort((a, b) => b.score - a.score);
-    return candidates[0].date;
+    return candidates.map(candidate => candidate.date);
   }
 
   private scoreDateCandidate(
@@ -565,39 +836,51 @@ export class MaintenanceScheduler {
   }
 
   // Additional helper methods would be implemented here...
-  private calculatePriority(hoursRemaining: number, interval: MaintenanceInterval): MaintenanceScheduleItem['priority'] {
-    if (hoursRemaining <= 0) return 'CRITICAL';
-    if (hoursRemaining <= this.config.minSafetyMarginHours) return 'HIGH';
-    if (hoursRemaining <= 50) return 'MEDIUM';
+  private calculatePriority(due: MaintenanceDue, pattern: UtilizationPattern): MaintenanceScheduleItem['priority'] {
+    if (due.isOverdue) return 'CRITICAL';
+    if (due.status === 'IN_TOLERANCE') return 'HIGH';
+
+    // Express the nearest limit in flight hours so every limit shares the same thresholds
+    const daysUntilDue = (due.dueDate.getTime() - startOfDay(new Date()).getTime()) / DAY_MS;
+    const hoursUntilDue = daysUntilDue * pattern.dailyAverageHours;
+    if (hoursUntilDue <= this.config.minSafetyMarginHours) return 'HIGH';
+    if (hoursUntilDue <= 50) return 'MEDIUM';
     return 'LOW';
   }
 
-  private calculateConfidence(pattern: UtilizationPattern, hoursRemaining: number): number {
-    // Higher confidence for shorter time horizons and stable patterns
-    const timeHorizon = hoursRemaining / pattern.dailyAverageHours;
+  private calculateConfidence(due: MaintenanceDue): number {
+    // Higher confidence for shorter time horizons; calendar limits need no forecast
+    if (due.drivingLimit === 'CALENDAR') return 1.0;
+    const timeHorizon = (due.dueDate.getTime() - Date.now()) / DAY_MS;
     return Math.max(0.3, Math.min(1.0, 1.0 - (timeHorizon / 90)));
   }
 
-  private generateReasoning(
-    aircraft: Aircraft,
-    interval: MaintenanceInterval,
-    pattern: UtilizationPattern,
-    optimizedDate: Date
-  ): string[] {
+  private generateReasoning(due: MaintenanceDue, pattern: UtilizationPattern): string[] {
     const reasons = [];
     reasons.push(`Based on current utilization of ${pattern.dailyAverageHours.toFixed(1)} hours/day`);
+    const driving = due.limits.find(status => status.limit === due.drivingLimit);
+    if (driving) {
+      reasons.push(`${driving.limit.toLowerCase()} limit comes first (${describeDueLimit(driving)}), due ${due.dueDate.toDateString()}`);
+    }
+    const inTolerance = due.limits.filter(status => status.state === 'IN_TOLERANCE' && status !== driving);
+    if (inTolerance.length > 0) {
+      reasons.push(`Within tolerance: ${inTolerance.map(describeDueLimit).join('; ')}`);
+    }
     reasons.push(`Scheduled during low utilization period`);
     reasons.push(`Maintains ${this.config.minSafetyMarginHours}h safety margin`);
     return reasons;
   }
 
-  private generateAlternativeDates(optimizedDate: Date, pattern: UtilizationPattern): Date[] {
-    // Generate 3 alternative dates
-    const alternatives = [];
-    for (let i = 1; i <= 3; i++) {
-      alternatives.push(new Date(optimizedDate.getTime() + i * 7 * 24 * 60 * 60 * 1000));
-    }
-    return alternatives;
+  private generateAlternativeDates(
+    optimizedDate: Date,
+    dueWindow: { earliest: Date; latest: Date },
+    pattern: UtilizationPattern,
+    estimatedDuration: number
+  ): Date[] {
+    // Next 3 best-scoring dates inside the due window
+    return this.rankWindowDates(dueWindow, pattern, estimatedDuration)
+      .filter(date => date.getTime() !== optimizedDate.getTime())
+      .slice(0, 3);
   }
 
   private assessOperationalImpact(date: Date, pattern: UtilizationPattern): 'LOW' | 'MEDIUM' | 'HIGH' {
@@ -639,33 +922,468 @@ export class MaintenanceScheduler {
     return mechanicMappings[maintenanceType as keyof typeof mechanicMappings] || ['A&P Mechanic'];
   }
 
-  // Placeholder methods for full implementation
-  private mutateSchedule(schedule: MaintenanceScheduleItem[], patterns: UtilizationPattern[]): MaintenanceScheduleItem[] {
-    // Implement genetic algorithm mutation
-    return schedule;
+  // Genetic algorithm mutation: move items to an alternative date or elsewhere in their due window
+  private mutateSchedule(
+    schedule: MaintenanceScheduleItem[],
+    patterns: UtilizationPattern[],
+    random: () => number
+  ): MaintenanceScheduleItem[] {
+    const forcedIndex = Math.floor(random() * schedule.length);
+
+    return schedule.map((item, index) => {
+      if (!item.dueWindow || (index !== forcedIndex && random() >= this.config.mutationRate)) {
+        return { ...item };
+      }
+
+      const { earliest, latest } = item.dueWindow;
+      const alternatives = item.alternativeDates.filter(date => date >= earliest && date <= latest);
+
+      let scheduledDate: Date;
+      if (alternatives.length > 0 && random() < 0.5) {
+        scheduledDate = alternatives[Math.floor(random() * alternatives.length)];
+      } else {
+        const windowDays = Math.floor((latest.getTime() - earliest.getTime()) / DAY_MS);
+        scheduledDate = new Date(earliest.getTime() + Math.floor(random() * (windowDays + 1)) * DAY_MS);
+      }
+
+      const pattern = patterns.find(p => p.aircraftId === item.aircraftId);
+      return {
+        ...item,
+        scheduledDate,
+        impactOnOperations: pattern ? this.assessOperationalImpact(scheduledDate, pattern) : item.impactOnOperations
+      };
+    });
   }
 
-  private async validateAndResolveConflicts(schedule: MaintenanceScheduleItem[]): Promise<MaintenanceScheduleItem[]> {
-    // Implement conflict detection and resolution
-    return schedule;
+  // Place items in priority order, moving each to a legal date when it conflicts with what is already booked
+  private async validateAndResolveConflicts(
+    schedule: MaintenanceScheduleItem[],
+    upcomingFlights: FlightPlan[],
+    currentWorkOrders: WorkOrder[],
+    aircraft: Aircraft[] = []
+  ): Promise<{ schedule: MaintenanceScheduleItem[]; conflicts: ScheduleConflict[] }> {
+    const conflicts: ScheduleConflict[] = [];
+    const resolved: MaintenanceScheduleItem[] = [];
+
+    // Open work orders already occupy their aircraft, hangar and crew
+    const placed: MaintenanceBooking[] = currentWorkOrders
+      .filter(wo => wo.status === 'OPEN' || wo.status === 'IN_PROGRESS' || wo.status === 'WAITING_PARTS')
+      .map(wo => {
+        const start = new Date(wo.actualStartDate || wo.scheduledStartDate).getTime();
+        return {
+          id: wo.id,
+          aircraftId: wo.aircraftId,
+          label: `work order ${wo.workOrderNumber}`,
+          start,
+          end: start + Math.max(1, wo.estimatedHours - (wo.actualHours || 0)) * HOUR_MS,
+          personnel: [wo.mechanicAssigned, wo.inspectorAssigned].filter(Boolean),
+          needs: [],
+          resources: []
+        };
+      });
+
+    const ordered = [...schedule].sort((a, b) =>
+      PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+      a.scheduledDate.getTime() - b.scheduledDate.getTime()
+    );
+
+    for (const item of ordered) {
+      const requirements = this.resourceRequirements(item, aircraft);
+      const detected = this.detectConflicts(this.bookingFor(item, item.scheduledDate, requirements, placed), placed, upcomingFlights);
+
+      if (detected.length === 0) {
+        const booking = this.place(item, item.scheduledDate, requirements, placed);
+        resolved.push({ ...item, ...this.assignedResources(booking) });
+        continue;
+      }
+
+      const legalDate = this.findLegalDate(item, requirements, placed, upcomingFlights);
+      if (legalDate) {
+        const conflictTypes = Array.from(new Set(detected.map(c => c.type))).join('/').toLowerCase();
+        const booking = this.place(item, legalDate, requirements, placed);
+        resolved.push({
+          ...item,
+          scheduledDate: legalDate,
+          ...this.assignedResources(booking),
+          reasoning: [
+            ...item.reasoning,
+            `Moved from ${item.scheduledDate.toDateString()} to ${legalDate.toDateString()} to avoid a conflict (${conflictTypes})`
+          ]
+        });
+        continue;
+      }
+
+      // No legal date in the due window: keep the date and report the conflict
+      const conflictingIds = Array.from(new Set(detected.flatMap(c => c.conflictingIds)));
+      const booking = this.place(item, item.scheduledDate, requirements, placed);
+      resolved.push({
+        ...item,
+        ...this.assignedResources(booking),
+        conflictsWith: Array.from(new Set([...item.conflictsWith, ...conflictingIds]))
+      });
+      resolved
+        .filter(other => conflictingIds.includes(other.id))
+        .forEach(other => { other.conflictsWith = Array.from(new Set([...other.conflictsWith, item.id])); });
+
+      conflicts.push(...detected.map(conflict => this.describeConflict(item, conflict)));
+    }
+
+    resolved.sort((a, b) => a.scheduledDate.getTime() - b.scheduledDate.getTime());
+    return { schedule: resolved, conflicts };
+  }
+
+  private bookingFor(
+    item: MaintenanceScheduleItem,
+    date: Date,
+    requirements: ResourceRequirements,
+    placed: MaintenanceBooking[]
+  ): MaintenanceBooking {
+    const start = date.getTime();
+    const end = start + Math.max(1, item.estimatedDuration) * HOUR_MS;
+    return {
+      id: item.id,
+      aircraftId: item.aircraftId,
+      label: `${item.maintenanceType} on ${item.tailNumber}`,
+      start,
+      end,
+      personnel: item.assignedPersonnel || this.staff(item, start, end, placed),
+      needs: requirements.needs,
+      dimensions: requirements.dimensions,
+      resources: []
+    };
+  }
+
+  // Book the item into the run, holding whatever registry items are free for it so later items plan around them
+  private place(
+    item: MaintenanceScheduleItem,
+    date: Date,
+    requirements: ResourceRequirements,
+    placed: MaintenanceBooking[]
+  ): MaintenanceBooking {
+    const booking = this.bookingFor(item, date, requirements, placed);
+    booking.resources = this.planResources(booking, placed).allocations
+      .map(allocation => allocation.resource.id)
+      .filter((id, index, ids) => ids.indexOf(id) === index);
+    placed.push(booking);
+    return booking;
+  }
+
+  private planResources(booking: MaintenanceBooking, placed: MaintenanceBooking[]) {
+    const tentative: TentativeBooking[] = placed.reduce<TentativeBooking[]>((held, other) => held.concat(
+      other.resources.map(resourceId => ({
+        resourceId,
+        bookedFrom: new Date(other.start),
+        bookedUntil: new Date(other.end),
+        recommendationId: other.id
+      }))
+    ), []);
+    return this.resources.plan({
+      recommendationId: booking.id,
+      needs: booking.needs,
+      from: new Date(booking.start),
+      until: new Date(booking.end),
+      dimensions: booking.dimensions
+    }, tentative);
+  }
+
+  // One qualified roster person per crew requirement, preferring someone not already on overlapping work.
+  // When everyone qualified is committed the first of them is named, and detection reports the double booking.
+  private staff(item: MaintenanceScheduleItem, start: number, end: number, placed: MaintenanceBooking[]): string[] {
+    const committed = placed
+      .filter(other => other.start < end && other.end > start)
+      .reduce<string[]>((names, other) => names.concat(other.personnel), []);
+    return item.mechanicRequirements.reduce<string[]>((crew, label) => {
+      const requirement = CREW_REQUIREMENTS[label];
+      if (!requirement) return crew;
+      const qualified = this.roster.filter(person =>
+        !crew.includes(person.name) && qualificationGaps(person, { label, ...requirement }, new Date(end)).length === 0);
+      const person = qualified.find(candidate => !committed.includes(candidate.name)) || qualified[0];
+      return person ? [...crew, person.name] : crew;
+    }, []);
+  }
+
+  private assignedResources(booking: MaintenanceBooking): Pick<MaintenanceScheduleItem, 'plannedResources' | 'hangar' | 'assignedPersonnel'> {
+    const planned = this.resources.listResources().filter(resource => booking.resources.includes(resource.id));
+    return {
+      plannedResources: planned.map(resource => resource.name),
+      hangar: planned.find(resource => resource.provides.includes(HANGAR_BAY))?.name,
+      assignedPersonnel: booking.personnel
+    };
+  }
+
+  // Tracked needs of every check in the item, from the aircraft type's checklists
+  private resourceRequirements(item: MaintenanceScheduleItem, aircraft: Aircraft[]): ResourceRequirements {
+    const plane = aircraft.find(candidate => candidate.id === item.aircraftId);
+    const checklists = getMaintenanceChecklists(plane?.make, plane?.model);
+    const intervalTypes: string[] = item.workPackage?.intervalTypes || [item.intervalType || item.maintenanceType];
+    const needs = intervalTypes.reduce<string[]>((all, intervalType) => all.concat(
+      resourceNeeds(checklists[checklistKeyForInterval(intervalType)])
+        .filter(need => !all.includes(need) && this.resources.isTracked(need))
+    ), []);
+    return { needs, dimensions: plane && getMaintenanceProgram(plane.make, plane.model)?.dimensions };
+  }
+
+  private detectConflicts(
+    booking: MaintenanceBooking,
+    placed: MaintenanceBooking[],
+    upcomingFlights: FlightPlan[]
+  ): DetectedConflict[] {
+    const detected: DetectedConflict[] = [];
+    const overlapping = placed.filter(other => other.start < booking.end && other.end > booking.start);
+
+    // AIRCRAFT: the same tail booked into overlapping checks
+    const sameAircraft = overlapping.filter(other => other.aircraftId === booking.aircraftId);
+    if (sameAircraft.length > 0) {
+      detected.push({
+        type: 'AIRCRAFT',
+        conflictingIds: sameAircraft.map(other => other.id),
+        detail: `overlaps ${sameAircraft.map(other => other.label).join(', ')}`
+      });
+    }
+
+    // CAPACITY: more aircraft in maintenance at once than the hangar can hold
+    const checkpoints = [booking.start, ...overlapping.map(other => other.start).filter(t => t > booking.start)];
+    for (const time of checkpoints) {
+      const inMaintenance = overlapping.filter(other => other.start <= time && other.end > time);
+      const aircraftCount = new Set([booking.aircraftId, ...inMaintenance.map(other => other.aircraftId)]).size;
+      if (aircraftCount > this.config.maintenanceCapacity) {
+        detected.push({
+          type: 'CAPACITY',
+          conflictingIds: inMaintenance.filter(other => other.aircraftId !== booking.aircraftId).map(other => other.id),
+          detail: `${aircraftCount} aircraft would be in maintenance at once (capacity ${this.config.maintenanceCapacity})`
+        });
+        break;
+      }
+    }
+
+    // TIMING: the check lands on a planned departure for the same aircraft
+    const departures = upcomingFlights.filter(flight => {
+      const departure = new Date(flight.departure.scheduledTime).getTime();
+      return flight.aircraftId === booking.aircraftId &&
+        flight.status !== 'CANCELLED' &&
+        departure >= booking.start && departure < booking.end;
+    });
+    if (departures.length > 0) {
+      detected.push({
+        type: 'TIMING',
+        conflictingIds: departures.map(flight => flight.id),
+        detail: `lands on planned departure ${departures.map(flight => flight.flightNumber || flight.id).join(', ')}`
+      });
+    }
+
+    // RESOURCE: a mechanic or inspector is double-booked (bays are registry items, checked below)
+    const doubleBooked = overlapping.filter(other =>
+      other.aircraftId !== booking.aircraftId &&
+      booking.personnel.some(person => other.personnel.includes(person))
+    );
+    if (doubleBooked.length > 0) {
+      const resources = Array.from(new Set(doubleBooked.flatMap(other =>
+        booking.personnel.filter(person => other.personnel.includes(person))
+      )));
+      detected.push({
+        type: 'RESOURCE',
+        conflictingIds: doubleBooked.map(other => other.id),
+        detail: `${resources.join(', ')} already committed to ${doubleBooked.map(other => other.label).join(', ')}`
+      });
+    }
+
+    // RESOURCE (hard): no registry bay, equipment or calibrated tooling free for the whole check
+    if (booking.needs.length > 0) {
+      const plan = this.planResources(booking, placed);
+      if (plan.problems.length > 0) {
+        detected.push({
+          type: 'RESOURCE',
+          conflictingIds: plan.blockedBy.filter(id => placed.some(other => other.id === id)),
+          detail: plan.problems.join('; '),
+          hard: true
+        });
+      }
+    }
+
+    return detected;
+  }
+
+  // First conflict-free date: alternatives first, then the due window nearest the planned date
+  private findLegalDate(
+    item: MaintenanceScheduleItem,
+    requirements: ResourceRequirements,
+    placed: MaintenanceBooking[],
+    upcomingFlights: FlightPlan[]
+  ): Date | null {
+    if (!item.dueWindow) return null;
+
+    const { earliest, latest } = item.dueWindow;
+    const windowDates: Date[] = [];
+    for (let time = earliest.getTime(); time <= latest.getTime(); time += DAY_MS) {
+      windowDates.push(new Date(time));
+    }
+    windowDates.sort((a, b) =>
+      Math.abs(a.getTime() - item.scheduledDate.getTime()) - Math.abs(b.getTime() - item.scheduledDate.getTime())
+    );
+
+    const candidates = [
+      ...item.alternativeDates.filter(date => date >= earliest && date <= latest),
+      ...windowDates
+    ].filter(date => date.getTime() !== item.scheduledDate.getTime());
+
+    return candidates.find(date =>
+      this.detectConflicts(this.bookingFor(item, date, requirements, placed), placed, upcomingFlights).length === 0
+    ) || null;
+  }
+
+  private describeConflict(item: MaintenanceScheduleItem, conflict: DetectedConflict): ScheduleConflict {
+    const check = `${item.maintenanceType} on ${item.tailNumber} (${item.scheduledDate.toDateString()})`;
+    const escalate = (severity: ScheduleConflict['severity']) => item.priority === 'CRITICAL' ? 'CRITICAL' : severity;
+
+    switch (conflict.type) {
+      case 'AIRCRAFT':
+        return {
+          type: 'AIRCRAFT',
+          severity: escalate('HIGH'),
+          description: `${check} ${conflict.detail}`,
+          affectedItems: [item.id, ...conflict.conflictingIds],
+          suggestedResolution: 'Bundle the overlapping checks into a single work package for this aircraft'
+        };
+      case 'CAPACITY':
+        return {
+          type: 'CAPACITY',
+          severity: escalate('MEDIUM'),
+          description: `${check}: ${conflict.detail}`,
+          affectedItems: [item.id, ...conflict.conflictingIds],
+          suggestedResolution: 'Defer a lower-priority check, contract additional hangar space, or raise maintenance capacity'
+        };
+      case 'TIMING':
+        return {
+          type: 'TIMING',
+          severity: escalate('MEDIUM'),
+          description: `${check} ${conflict.detail}`,
+          affectedItems: [item.id, ...conflict.conflictingIds],
+          suggestedResolution: 'Reassign the affected flight to another aircraft or reschedule it after the check'
+        };
+      case 'RESOURCE':
+        if (conflict.hard) {
+          return {
+            type: 'RESOURCE',
+            severity: 'CRITICAL',
+            description: `${check} cannot be resourced: ${conflict.detail}`,
+            affectedItems: [item.id, ...conflict.conflictingIds],
+            suggestedResolution: 'Send expired tooling for calibration, add equipment to data/resources.json, or free the bay or equipment held by another check'
+          };
+        }
+        return {
+          type: 'RESOURCE',
+          severity: escalate('HIGH'),
+          description: `${check}: ${conflict.detail}`,
+          affectedItems: [item.id, ...conflict.conflictingIds],
+          suggestedResolution: 'Assign another qualified mechanic or inspector to one of the checks, or add crew to data/personnel.json'
+        };
+    }
   }
 
-  private async generateScheduleResult(schedule: MaintenanceScheduleItem[], patterns: UtilizationPattern[]): Promise<ScheduleOptimizationResult> {
+  private async generateScheduleResult(
+    schedule: MaintenanceScheduleItem[],
+    patterns: UtilizationPattern[],
+    upcomingFlights: FlightPlan[],
+    conflicts: ScheduleConflict[]
+  ): Promise<ScheduleOptimizationResult> {
     // Generate final result with metrics
     return {
       schedule,
       totalCost: schedule.reduce((sum, item) => sum + item.estimatedCost, 0),
       totalDowntime: schedule.reduce((sum, item) => sum + item.estimatedDuration, 0),
-      utilizationImpact: 0.1, // Placeholder
-      safetyScore: 0.95, // Placeholder
+      utilizationImpact: 1 - this.calculateAvailabilityScore(schedule, patterns),
+      safetyScore: this.calculateSafetyScore(schedule, patterns),
       recommendations: ['Optimize weekend scheduling', 'Consider bulk part ordering'],
-      conflicts: [],
+      conflicts,
       alternativeSchedules: []
     };
   }
 
-  private calculateCostScore(schedule: MaintenanceScheduleItem[]): number { return 0.8; }
-  private calculateAvailabilityScore(schedule: MaintenanceScheduleItem[], patterns: UtilizationPattern[]): number { return 0.9; }
-  private calculateUtilizationScore(schedule: MaintenanceScheduleItem[], patterns: UtilizationPattern[]): number { return 0.85; }
-  private calculateSafetyScore(schedule: MaintenanceScheduleItem[]): number { return 0.95; }
+  // Doing a check early throws away the unused part of its interval
+  private calculateCostScore(schedule: MaintenanceScheduleItem[]): number {
+    const baseCost = schedule.reduce((sum, item) => sum + item.estimatedCost, 0);
+    if (baseCost === 0) return 1;
+
+    const effectiveCost = schedule.reduce((sum, item) => {
+      if (!item.dueWindow) return sum + item.estimatedCost;
+      const windowSpan = item.dueWindow.latest.getTime() - item.dueWindow.earliest.getTime();
+      const unusedFraction = windowSpan > 0
+        ? (item.dueWindow.latest.getTime() - item.scheduledDate.getTime()) / windowSpan
+        : 0;
+      return sum + item.estimatedCost * (1 + 0.5 * Math.max(0, unusedFraction));
+    }, 0);
+
+    return baseCost / effectiveCost;
+  }
+
+  // Flight hours lost to downtime, relative to the busiest days the aircraft could have lost
+  private calculateAvailabilityScore(schedule: MaintenanceScheduleItem[], patterns: UtilizationPattern[]): number {
+    let lostHours = 0;
+    let worstCaseHours = 0;
+
+    for (const item of schedule) {
+      const pattern = patterns.find(p => p.aircraftId === item.aircraftId);
+      if (!pattern) continue;
+
+      const peakDaily = Math.max(pattern.dailyAverageHours, ...pattern.predictedUtilization.map(p => p.hours));
+      const downtimeDays = Math.max(1, Math.ceil(item.estimatedDuration / 24));
+      const downtimeEnd = new Date(startOfDay(item.scheduledDate).getTime() + downtimeDays * DAY_MS);
+
+      lostHours += forecastHoursBetween(pattern, item.scheduledDate, downtimeEnd);
+      worstCaseHours += peakDaily * downtimeDays;
+    }
+
+    return worstCaseHours > 0 ? 1 - lostHours / worstCaseHours : 1;
+  }
+
+  // Penalize maintenance that overlaps planned flights for the same aircraft
+  private calculateUtilizationScore(schedule: MaintenanceScheduleItem[], upcomingFlights: FlightPlan[]): number {
+    let collisions = 0;
+
+    for (const item of schedule) {
+      const start = item.scheduledDate.getTime();
+      const end = start + item.estimatedDuration * 60 * 60 * 1000;
+
+      collisions += upcomingFlights.filter(flight =>
+        flight.aircraftId === item.aircraftId &&
+        flight.status !== 'CANCELLED' &&
+        new Date(flight.departure.scheduledTime).getTime() < end &&
+        new Date(flight.arrival.scheduledTime).getTime() > start
+      ).length;
+    }
+
+    return 1 / (1 + collisions);
+  }
+
+  // Remaining margin to the nearest limit when the check is performed
+  private calculateSafetyScore(schedule: MaintenanceScheduleItem[], patterns: UtilizationPattern[]): number {
+    if (schedule.length === 0) return 1;
+
+    const targetMargin = Math.max(1, this.config.minSafetyMarginHours * 2);
+    const itemScores = schedule.map(item => {
+      const pattern = patterns.find(p => p.aircraftId === item.aircraftId);
+      const margins: number[] = [];
+
+      if (item.nextDueHours && item.currentHours !== undefined && pattern) {
+        const hoursAtCheck = item.currentHours + forecastHoursBetween(pattern, new Date(), item.scheduledDate);
+        margins.push((item.nextDueHours - hoursAtCheck) / targetMargin);
+      }
+
+      if (item.nextDueCycles && item.currentCycles !== undefined && pattern && cyclesPerHour(pattern) > 0) {
+        const cyclesAtCheck = item.currentCycles + forecastCyclesBetween(pattern, new Date(), item.scheduledDate);
+        margins.push((item.nextDueCycles - cyclesAtCheck) / (targetMargin * cyclesPerHour(pattern)));
+      }
+
+      const calendarLimit = item.nextDueDate || (margins.length === 0 ? item.dueWindow?.latest : undefined);
+      if (calendarLimit) {
+        margins.push((calendarLimit.getTime() - item.scheduledDate.getTime()) / DAY_MS / 7);
+      }
+
+      if (margins.length === 0) return 1;
+      const margin = Math.min(...margins);
+      return margin < 0 ? 0 : Math.min(1, margin);
+    });
+
+    return itemScores.reduce((sum, score) => sum + score, 0) / itemScores.length;
+  }
 } 
\ No newline at end of file
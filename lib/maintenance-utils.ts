@@ -1,91 +1,76 @@
-import { Aircraft, MaintenanceInterval, WorkOrder } from '@/types';
-
-// G550-specific maintenance intervals (in flight hours)
-export const G550_MAINTENANCE_INTERVALS = {
-  DAILY: { hours: 0, calendar: 1, description: 'Daily Inspection' },
-  '100_HOUR': { hours: 100, calendar: 0, description: '100-Hour Inspection' },
-  A_CHECK: { hours: 500, calendar: 0, description: 'A-Check Inspection' },
-  C_CHECK: { hours: 2400, calendar: 0, description: 'C-Check Inspection' },
-  ANNUAL: { hours: 0, calendar: 365, description: 'Annual Inspection' },
-  PROGRESSIVE: { hours: 0, calendar: 90, description: 'Progressive Inspection' }
-} as const;
-
-// Calculate next due date based on hours and calendar
+import {
+  Aircraft,
+  ComplianceItem,
+  MaintenanceInterval,
+  MaintenanceTolerance,
+  WorkOrder
+} from '@/types';
+import { DueState, UsageForecast, computeMaintenanceDue, rebaseDuePoint } from './maintenance-due';
+import {
+  DEFAULT_MAINTENANCE_PROGRAM,
+  IntervalCompliance,
+  MaintenanceProgram,
+  findProgramInterval,
+  generateMaintenanceIntervals,
+  getMaintenanceProgram
+} from './maintenance-programs';
+import { ComplianceRecords, evaluateAircraftCompliance } from './compliance-rules';
+import { isValidNNumber } from './n-number';
+
+// Calculate next due date: whichever of hours, cycles and calendar comes first
 export function calculateNextDueDate(
-  lastCompletedDate: Date,
-  lastCompletedHours: number,
-  currentHours: number,
-  intervalHours?: number,
-  intervalCalendar?: number
+  aircraft: Aircraft,
+  interval: MaintenanceInterval,
+  forecast?: UsageForecast
 ): Date {
-  const nextDueDate = new Date(lastCompletedDate);
-  
-  if (intervalCalendar) {
-    nextDueDate.setDate(nextDueDate.getDate() + intervalCalendar);
-  }
-  
-  // For hour-based intervals, estimate based on average utilization
-  if (intervalHours) {
-    const hoursRemaining = intervalHours - (currentHours - lastCompletedHours);
-    const averageHoursPerDay = 4; // Typical G550 utilization
-    const daysRemaining = Math.max(0, hoursRemaining / averageHoursPerDay);
-    
-    const hourBasedDate = new Date();
-    hourBasedDate.setDate(hourBasedDate.getDate() + daysRemaining);
-    
-    // Use the earlier of calendar or hour-based due date
-    if (!intervalCalendar || hourBasedDate < nextDueDate) {
-      return hourBasedDate;
-    }
-  }
-  
-  return nextDueDate;
+  return computeMaintenanceDue(aircraft, interval, forecast).dueDate;
 }
 
-// Calculate next due hours for maintenance interval
+// Calculate next due hours for maintenance interval, applying the tolerance rebase rule
+// when the previous due point is known (e.g. a 100-hour overfly is deducted)
 export function calculateNextDueHours(
   lastCompletedHours: number,
-  intervalHours?: number
+  intervalHours?: number,
+  previousDueHours?: number,
+  tolerance?: MaintenanceTolerance
 ): number {
   if (!intervalHours) return 0;
-  return lastCompletedHours + intervalHours;
+  if (!tolerance || !previousDueHours) return lastCompletedHours + intervalHours;
+  return rebaseDuePoint(lastCompletedHours, previousDueHours, intervalHours, tolerance.hours, tolerance.rebase);
 }
 
-// Check if maintenance interval is overdue
+// Check if any hours, cycles or calendar limit on the interval is past its tolerance
 export function isMaintenanceOverdue(
-  nextDueDate: Date,
-  nextDueHours: number,
-  currentHours: number
+  aircraft: Aircraft,
+  interval: MaintenanceInterval,
+  asOf: Date = new Date()
 ): boolean {
-  const now = new Date();
-  const calendarOverdue = nextDueDate < now;
-  const hoursOverdue = nextDueHours > 0 && currentHours >= nextDueHours;
-  
-  return calendarOverdue || hoursOverdue;
+  return computeMaintenanceDue(aircraft, interval, undefined, asOf).isOverdue;
 }
 
-// Calculate maintenance priority based on how close to due date
+// Calculate maintenance priority based on how close the nearest limit is
 export function calculateMaintenancePriority(
-  nextDueDate: Date,
-  nextDueHours: number,
-  currentHours: number
+  aircraft: Aircraft,
+  interval: MaintenanceInterval,
+  forecast?: UsageForecast
 ): 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL' {
+  const due = computeMaintenanceDue(aircraft, interval, forecast);
   const now = new Date();
-  const daysUntilDue = Math.ceil((nextDueDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-  const hoursUntilDue = nextDueHours - currentHours;
+  const daysUntilDue = Math.ceil((due.dueDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+  const hoursUntilDue = due.limits.find(l => l.limit === 'HOURS')?.remaining ?? Infinity;
   
   // If overdue, it's critical
-  if (isMaintenanceOverdue(nextDueDate, nextDueHours, currentHours)) {
+  if (due.isOverdue) {
     return 'CRITICAL';
   }
   
   // High priority if due within 7 days or 25 flight hours
-  if (daysUntilDue <= 7 || (hoursUntilDue > 0 && hoursUntilDue <= 25)) {
+  if (daysUntilDue <= 7 || hoursUntilDue <= 25) {
     return 'HIGH';
   }
   
   // Medium priority if due within 30 days or 100 flight hours
-  if (daysUntilDue <= 30 || (hoursUntilDue > 0 && hoursUntilDue <= 100)) {
+  if (daysUntilDue <= 30 || hoursUntilDue <= 100) {
     return 'MEDIUM';
   }
   
@@ -109,8 +94,14 @@ export function calculateAircraftAvailability(
   return Math.round(((totalAircraft - aircraftInMaintenance) / totalAircraft) * 100);
 }
 
-// Estimate maintenance downtime based on work type
-export function estimateMaintenanceDowntime(intervalType: string): number {
+// Estimate maintenance downtime from the program, falling back to typical values by work type
+export function estimateMaintenanceDowntime(
+  intervalType: string,
+  program: MaintenanceProgram = DEFAULT_MAINTENANCE_PROGRAM
+): number {
+  const programInterval = findProgramInterval(program, intervalType);
+  if (programInterval) return programInterval.downtimeHours;
+  
   const downtimeHours = {
     DAILY: 0.5,
     '100_HOUR': 8,
@@ -123,8 +114,14 @@ export function estimateMaintenanceDowntime(intervalType: string): number {
   return downtimeHours[intervalType as keyof typeof downtimeHours] || 8;
 }
 
-// Estimate maintenance cost based on work type
-export function estimateMaintenanceCost(intervalType: string): number {
+// Estimate maintenance cost from the program, falling back to typical values by work type
+export function estimateMaintenanceCost(
+  intervalType: string,
+  program: MaintenanceProgram = DEFAULT_MAINTENANCE_PROGRAM
+): number {
+  const programInterval = findProgramInterval(program, intervalType);
+  if (programInterval) return programInterval.estimatedCost;
+  
   const baseCosts = {
     DAILY: 500,
     '100_HOUR': 3000,
@@ -139,9 +136,9 @@ export function estimateMaintenanceCost(intervalType: string): number {
 
 // Validate aircraft tail number format
 export function validateTailNumber(tailNumber: string): boolean {
-  // US registration format: N + 1-5 alphanumeric characters
-  const usPattern = /^N[0-9A-Z]{1,5}$/;
-  return usPattern.test(tailNumber.toUpperCase());
+  // US registration format: N, a leading digit 1-9, up to five characters, at most two
+  // trailing letters and no I or O, so every valid tail maps to an ICAO address
+  return isValidNNumber(tailNumber);
 }
 
 // Format flight hours for display
@@ -158,9 +155,13 @@ export function getDaysUntilDue(dueDate: Date): number {
   return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
 }
 
-// Get maintenance status color for UI
-export function getMaintenanceStatusColor(priority: string, isOverdue: boolean): string {
-  if (isOverdue) return 'text-red-600 bg-red-50';
+// Get maintenance status color for UI; the due state wins over priority
+export function getMaintenanceStatusColor(priority: string, dueStatus?: DueState): string {
+  switch (dueStatus) {
+    case 'OVERDUE': return 'text-red-600 bg-red-50';
+    case 'IN_TOLERANCE': return 'text-purple-600 bg-purple-50';
+    case 'DUE_SOON': return 'text-orange-600 bg-orange-50';
+  }
   
   switch (priority) {
     case 'CRITICAL': return 'text-red-600 bg-red-50';
@@ -183,54 +184,28 @@ export function getWorkOrderStatusColor(status: string): string {
   }
 }
 
-// Part 135 specific compliance checks
-export function checkPart135Compliance(aircraft: Aircraft): {
+// Part 135 compliance from the registered FAR rule modules; pass intervals and records for a full evaluation
+export function checkPart135Compliance(
+  aircraft: Aircraft,
+  records: ComplianceRecords = {}
+): {
   compliant: boolean;
   issues: string[];
+  items: ComplianceItem[];
 } {
-  const issues: string[] = [];
-  const now = new Date();
-  
-  // Check if annual inspection is current (within 12 months)
-  const annualDue = new Date(aircraft.lastInspectionDate);
-  annualDue.setFullYear(annualDue.getFullYear() + 1);
-  
-  if (annualDue < now) {
-    issues.push('Annual inspection overdue per FAR 135.419');
-  }
-  
-  // Check 100-hour inspection compliance
-  const hoursSinceLastInspection = aircraft.totalAircraftTime - 
-    (aircraft.lastInspectionDate ? 0 : aircraft.totalAircraftTime);
-  
-  if (hoursSinceLastInspection >= 100) {
-    issues.push('100-hour inspection due per FAR 135.411');
-  }
-  
-  // Check certificate of airworthiness
-  if (!aircraft.certificateOfAirworthiness) {
-    issues.push('Missing Certificate of Airworthiness');
-  }
-  
-  return {
-    compliant: issues.length === 0,
-    issues
-  };
+  const { compliant, issues, items } = evaluateAircraftCompliance(aircraft, records);
+  return { compliant, issues, items };
 }
 
-// Create default maintenance intervals for G550
-export function createDefaultG550Intervals(aircraftId: string): Partial<MaintenanceInterval>[] {
-  return Object.entries(G550_MAINTENANCE_INTERVALS).map(([type, config]) => ({
-    aircraftId,
-    intervalType: type as MaintenanceInterval['intervalType'],
-    description: config.description,
-    intervalHours: config.hours || undefined,
-    intervalCalendar: config.calendar || undefined,
-    nextDueAt: new Date(),
-    nextDueHours: config.hours || 0,
-    isOverdue: false,
-    priority: 'MEDIUM' as const,
-    estimatedDowntime: estimateMaintenanceDowntime(type),
-    estimatedCost: estimateMaintenanceCost(type)
-  }));
+// Create default maintenance intervals from the aircraft type's maintenance program, baselined at each
+// interval's last compliance
+export function createDefaultIntervals(
+  aircraft: Aircraft,
+  lastCompliance: { [intervalType: string]: IntervalCompliance } = {}
+): MaintenanceInterval[] {
+  const program = getMaintenanceProgram(aircraft.make, aircraft.model);
+  if (!program) {
+    throw new Error(`No maintenance program defined for ${aircraft.make} ${aircraft.model}`);
+  }
+  return generateMaintenanceIntervals(aircraft, program, lastCompliance);
 } 
\ No newline at end of file
@@ -0,0 +1,790 @@
+/**
+ * Demonstration fleet used to seed the in-memory fleet repository
+ * when Supabase is not configured.
+ */
+
+import {
+  Aircraft,
+  AirworthinessDirective,
+  ComponentEvent,
+  ComponentLifeLimit,
+  DirectiveComplianceRecord,
+  MaintenanceInterval,
+  TrackedComponent,
+  WorkOrder
+} from '@/types';
+
+export const MOCK_AIRCRAFT: Aircraft[] = [
+  {
+    id: 'n123ab',
+    tailNumber: 'N123AB',
+    make: 'Gulfstream',
+    model: 'G550',
+    serialNumber: 'G550-001',
+    yearOfManufacture: 2018,
+    totalAircraftTime: 2450, // hours
+    totalCycles: 1850,
+    isActive: true,
+    certificateOfAirworthiness: 'Standard - FAA Form 8100-2 issued 2018-01-10',
+    passengerSeats: 14,
+    lastInspectionDate: new Date('2024-01-15'),
+    nextInspectionDue: new Date('2024-02-15'),
+    createdAt: new Date('2018-01-01'),
+    updatedAt: new Date(),
+    flightStatus: 'AVAILABLE',
+    engineTimeTracking: 'HOBBS',
+    icaoAddress: 'a05ed9',
+    adsb: {
+      enabled: true,
+      equipmentType: 'Class A1S',
+      lastSeen: new Date()
+    },
+    installedComponents: [
+      { partNumber: 'BR700-710C4-11', serialNumber: '15210', description: 'Rolls-Royce BR710 turbofan', position: 'Engine 1' },
+      { partNumber: 'BR700-710C4-11', serialNumber: '15211', description: 'Rolls-Royce BR710 turbofan', position: 'Engine 2' },
+      { partNumber: '453-5001', serialNumber: 'ELT-40821', description: 'Emergency locator transmitter', position: 'ELT', batteryExpiresAt: new Date('2027-06-30') },
+      { partNumber: '3800708-1', serialNumber: 'P-1147', description: 'Honeywell RE220 APU', position: 'APU' },
+      { partNumber: '1159SCL301-5', serialNumber: 'MLG-0874', description: 'Main landing gear shock strut', position: 'Left MLG' }
+    ]
+  },
+  {
+    id: 'n456cd',
+    tailNumber: 'N456CD',
+    make: 'Gulfstream',
+    model: 'G550',
+    serialNumber: 'G550-002',
+    yearOfManufacture: 2019,
+    totalAircraftTime: 2125, // hours - approaching 100-hour inspection
+    totalCycles: 1620,
+    isActive: true,
+    certificateOfAirworthiness: 'Standard - FAA Form 8100-2 issued 2019-01-14',
+    passengerSeats: 16,
+    lastInspectionDate: new Date('2024-01-10'),
+    nextInspectionDue: new Date('2024-02-08'),
+    createdAt: new Date('2019-01-01'),
+    updatedAt: new Date(),
+    flightStatus: 'MAINTENANCE',
+    engineTimeTracking: 'HOBBS',
+    icaoAddress: 'a5889c',
+    adsb: {
+      enabled: true,
+      equipmentType: 'Class A1S',
+      lastSeen: new Date()
+    },
+    installedComponents: [
+      { partNumber: 'BR700-710C4-11', serialNumber: '15388', description: 'Rolls-Royce BR710 turbofan', position: 'Engine 1' },
+      { partNumber: 'BR700-710C4-11', serialNumber: '15392', description: 'Rolls-Royce BR710 turbofan', position: 'Engine 2' },
+      { partNumber: '453-5001', serialNumber: 'ELT-41107', description: 'Emergency locator transmitter', position: 'ELT', batteryExpiresAt: new Date('2027-03-31') },
+      { partNumber: '3800708-1', serialNumber: 'P-1302', description: 'Honeywell RE220 APU', position: 'APU' }
+    ]
+  },
+  {
+    id: 'n789xy',
+    tailNumber: 'N789XY',
+    make: 'Gulfstream',
+    model: 'G550',
+    serialNumber: 'G550-003',
+    yearOfManufacture: 2020,
+    totalAircraftTime: 1875, // hours
+    totalCycles: 1425,
+    isActive: true,
+    certificateOfAirworthiness: 'Standard - FAA Form 8100-2 issued 2020-01-09',
+    passengerSeats: 14,
+    lastInspectionDate: new Date('2024-01-20'),
+    nextInspectionDue: new Date('2024-03-01'),
+    createdAt: new Date('2020-01-01'),
+    updatedAt: new Date(),
+    flightStatus: 'IN_FLIGHT',
+    engineTimeTracking: 'HOBBS',
+    icaoAddress: 'aab419',
+    adsb: {
+      enabled: true,
+      equipmentType: 'Class A1S',
+      lastSeen: new Date()
+    },
+    installedComponents: [
+      { partNumber: 'BR700-710C4-11', serialNumber: '15455', description: 'Rolls-Royce BR710 turbofan', position: 'Engine 1' },
+      { partNumber: 'BR700-710C4-11', serialNumber: '15460', description: 'Rolls-Royce BR710 turbofan', position: 'Engine 2' },
+      { partNumber: '453-5090', serialNumber: 'ELT-52213', description: 'Emergency locator transmitter', position: 'ELT', batteryExpiresAt: new Date('2026-11-30') },
+      { partNumber: '3800708-1', serialNumber: 'P-1488', description: 'Honeywell RE220 APU', position: 'APU' }
+    ]
+  }
+];
+
+export const MOCK_MAINTENANCE_INTERVALS: MaintenanceInterval[] = [
+  // N123AB intervals - Comprehensive FAA Schedule
+  {
+    id: 'int-1a',
+    aircraftId: 'n123ab',
+    intervalType: 'A_CHECK',
+    description: 'A-Check (1A) - Basic airframe and systems inspection',
+    intervalHours: 500,
+    intervalCalendar: 365, // 12 months
+    lastCompletedAt: new Date('2024-01-15'),
+    lastCompletedHours: 2000,
+    nextDueAt: new Date('2024-02-15'),
+    nextDueHours: 2500, // Due in 50 hours (2450 current + 50 = 2500)
+    isOverdue: false,
+    priority: 'HIGH',
+    estimatedDowntime: 36, // 1-2 days average
+    estimatedCost: 15000
+  },
+  {
+    id: 'int-2a',
+    aircraftId: 'n123ab',
+    intervalType: '2A_CHECK',
+    description: '2A Check - Progressive detailed check (1000 hours)',
+    intervalHours: 1000,
+    intervalCalendar: undefined,
+    lastCompletedAt: new Date('2023-08-15'),
+    lastCompletedHours: 1500,
+    nextDueAt: new Date('2024-04-01'),
+    nextDueHours: 2500, // Same as 1A due to bundling
+    isOverdue: false,
+    priority: 'HIGH',
+    estimatedDowntime: 48, // 1-3 days average
+    estimatedCost: 25000
+  },
+  {
+    id: 'int-100hr-1',
+    aircraftId: 'n123ab',
+    intervalType: '100_HOUR',
+    description: '100-Hour Inspection - Part 135 regulatory compliance',
+    intervalHours: 100,
+    intervalCalendar: undefined,
+    lastCompletedAt: new Date('2024-01-25'),
+    lastCompletedHours: 2400,
+    nextDueAt: new Date('2024-02-10'),
+    nextDueHours: 2500, // Due at same time as A-Check
+    isOverdue: false,
+    priority: 'MEDIUM',
+    estimatedDowntime: 8, // 1 day
+    estimatedCost: 3500
+  },
+  
+  // N456CD intervals (Aircraft with overdue maintenance)
+  {
+    id: 'int-100hr-2',
+    aircraftId: 'n456cd',
+    intervalType: '100_HOUR',
+    description: '100-Hour Inspection - OVERDUE (Part 135 Critical)',
+    intervalHours: 100,
+    intervalCalendar: undefined,
+    lastCompletedAt: new Date('2024-01-01'),
+    lastCompletedHours: 2000,
+    nextDueAt: new Date('2024-01-20'),
+    nextDueHours: 2100, // Was due at 2100 hours, now at 2125 = 25 hours overdue
+    isOverdue: true,
+    priority: 'CRITICAL',
+    estimatedDowntime: 8, // 1 day
+    estimatedCost: 4000
+  },
+  {
+    id: 'int-3a',
+    aircraftId: 'n456cd',
+    intervalType: '3A_CHECK',
+    description: '3A Check - Progressive detailed check (1500 hours)',
+    intervalHours: 1500,
+    intervalCalendar: undefined,
+    lastCompletedAt: new Date('2023-10-01'),
+    lastCompletedHours: 1600,
+    nextDueAt: new Date('2024-03-15'),
+    nextDueHours: 3100, // Due after current maintenance
+    isOverdue: false,
+    priority: 'MEDIUM',
+    estimatedDowntime: 48, // 1-3 days average
+    estimatedCost: 35000
+  },
+  {
+    id: 'int-1c',
+    aircraftId: 'n456cd',
+    intervalType: 'C_CHECK',
+    description: 'C-Check (1C) - Comprehensive inspection of airframe and systems',
+    intervalHours: undefined,
+    intervalCalendar: 365, // 12 months
+    lastCompletedAt: new Date('2023-02-01'),
+    lastCompletedHours: 1800,
+    nextDueAt: new Date('2024-02-01'),
+    nextDueHours: 0,
+    isOverdue: false,
+    priority: 'HIGH',
+    estimatedDowntime: 144, // 5-7 days average (6 days)
+    estimatedCost: 85000
+  },
+  
+  // N789XY intervals
+  {
+    id: 'int-1a-3',
+    aircraftId: 'n789xy',
+    intervalType: 'A_CHECK',
+    description: 'A-Check (1A) - Basic airframe and systems inspection',
+    intervalHours: 500,
+    intervalCycles: 400,
+    intervalCalendar: 365,
+    lastCompletedAt: new Date('2024-01-01'),
+    lastCompletedHours: 1500,
+    lastCompletedCycles: 1100,
+    nextDueAt: new Date('2024-03-01'),
+    nextDueHours: 2000, // Due in 125 hours (1875 current + 125 = 2000)
+    nextDueCycles: 1500, // Due in 75 cycles (1425 current + 75 = 1500)
+    isOverdue: false,
+    priority: 'LOW',
+    estimatedDowntime: 36, // 1-2 days average
+    estimatedCost: 15000
+  },
+  {
+    id: 'int-100hr-3',
+    aircraftId: 'n789xy',
+    intervalType: '100_HOUR',
+    description: '100-Hour Inspection - Part 135 regulatory compliance',
+    intervalHours: 100,
+    intervalCalendar: undefined,
+    lastCompletedAt: new Date('2024-01-15'),
+    lastCompletedHours: 1800,
+    nextDueAt: new Date('2024-02-20'),
+    nextDueHours: 1900, // Due in 25 hours (1875 current + 25 = 1900)
+    isOverdue: false,
+    priority: 'MEDIUM',
+    estimatedDowntime: 8, // 1 day
+    estimatedCost: 3500
+  },
+  {
+    id: 'int-progressive-1',
+    aircraftId: 'n789xy',
+    intervalType: 'PROGRESSIVE',
+    description: 'Progressive Inspection - Rolling schedule maintenance',
+    intervalHours: undefined,
+    intervalCalendar: 90, // Every 90 days
+    lastCompletedAt: new Date('2024-01-01'),
+    lastCompletedHours: 1500,
+    nextDueAt: new Date('2024-04-01'),
+    nextDueHours: 0,
+    isOverdue: false,
+    priority: 'LOW',
+    estimatedDowntime: 36, // 1-2 days average
+    estimatedCost: 12000
+  },
+
+  // Additional comprehensive intervals for fleet-wide planning
+  {
+    id: 'int-4a',
+    aircraftId: 'n123ab',
+    intervalType: '4A_CHECK',
+    description: '4A Check - Progressive detailed check (2000 hours)',
+    intervalHours: 2000,
+    intervalCalendar: undefined,
+    lastCompletedAt: new Date('2023-06-01'),
+    lastCompletedHours: 500,
+    nextDueAt: new Date('2024-06-01'),
+    nextDueHours: 2500, // Due soon, can be bundled with 1A/2A
+    isOverdue: false,
+    priority: 'MEDIUM',
+    estimatedDowntime: 48, // 1-3 days average
+    estimatedCost: 45000
+  },
+  {
+    id: 'int-annual-1',
+    aircraftId: 'n123ab',
+    intervalType: 'ANNUAL',
+    description: 'Annual Inspection - FAA-mandated comprehensive check',
+    intervalHours: undefined,
+    intervalCalendar: 365, // Every 12 months
+    lastCompletedAt: new Date('2023-03-01'),
+    lastCompletedHours: 1200,
+    nextDueAt: new Date('2024-03-01'),
+    nextDueHours: 0,
+    isOverdue: false,
+    priority: 'HIGH',
+    estimatedDowntime: 36, // 1-2 days average
+    estimatedCost: 18000
+  },
+  {
+    id: 'int-10a',
+    aircraftId: 'n456cd',
+    intervalType: '10A_CHECK',
+    description: '10A Check - Major systems and airframe checks (5000 hours)',
+    intervalHours: 5000,
+    intervalCalendar: undefined,
+    lastCompletedAt: new Date('2022-01-01'),
+    lastCompletedHours: 0,
+    nextDueAt: new Date('2025-01-01'),
+    nextDueHours: 5000,
+    isOverdue: false,
+    priority: 'LOW',
+    estimatedDowntime: 72, // 2-4 days average (3 days)
+    estimatedCost: 125000
+  },
+  {
+    id: 'int-2c',
+    aircraftId: 'n789xy',
+    intervalType: '2C_CHECK',
+    description: '2C Check - Deep structural and systems check (24 months)',
+    intervalHours: undefined,
+    intervalCalendar: 730, // 24 months
+    lastCompletedAt: new Date('2022-01-01'),
+    lastCompletedHours: 0,
+    nextDueAt: new Date('2024-01-01'),
+    nextDueHours: 0,
+    isOverdue: false,
+    priority: 'MEDIUM',
+    estimatedDowntime: 264, // 7-14 days average (11 days)
+    estimatedCost: 185000
+  },
+  
+  // Regulatory equipment checks; N789XY's altimeter/transponder test is not yet on record
+  {
+    id: 'int-elt-1',
+    aircraftId: 'n123ab',
+    intervalType: 'ELT',
+    description: 'ELT Inspection - FAR 91.207(d) 12-month check',
+    intervalHours: undefined,
+    intervalCalendar: 365, // 12 calendar months
+    lastCompletedAt: new Date('2023-06-12'),
+    nextDueAt: new Date('2024-06-11'),
+    nextDueHours: 0,
+    isOverdue: false,
+    priority: 'LOW',
+    estimatedDowntime: 2,
+    estimatedCost: 600
+  },
+  {
+    id: 'int-alt-xpdr-1',
+    aircraftId: 'n123ab',
+    intervalType: 'ALTIMETER_TRANSPONDER',
+    description: 'Altimeter, Static System and Transponder Tests - FAR 91.411/91.413',
+    intervalHours: undefined,
+    intervalCalendar: 730, // 24 calendar months
+    lastCompletedAt: new Date('2022-09-20'),
+    nextDueAt: new Date('2024-09-19'),
+    nextDueHours: 0,
+    isOverdue: false,
+    priority: 'LOW',
+    estimatedDowntime: 6,
+    estimatedCost: 2800
+  },
+  {
+    id: 'int-elt-2',
+    aircraftId: 'n456cd',
+    intervalType: 'ELT',
+    description: 'ELT Inspection - FAR 91.207(d) 12-month check',
+    intervalHours: undefined,
+    intervalCalendar: 365,
+    lastCompletedAt: new Date('2023-01-18'),
+    nextDueAt: new Date('2024-01-18'),
+    nextDueHours: 0,
+    isOverdue: true,
+    priority: 'HIGH',
+    estimatedDowntime: 2,
+    estimatedCost: 600
+  },
+  {
+    id: 'int-alt-xpdr-2',
+    aircraftId: 'n456cd',
+    intervalType: 'ALTIMETER_TRANSPONDER',
+    description: 'Altimeter, Static System and Transponder Tests - FAR 91.411/91.413',
+    intervalHours: undefined,
+    intervalCalendar: 730,
+    lastCompletedAt: new Date('2023-04-03'),
+    nextDueAt: new Date('2025-04-02'),
+    nextDueHours: 0,
+    isOverdue: false,
+    priority: 'LOW',
+    estimatedDowntime: 6,
+    estimatedCost: 2800
+  },
+  {
+    id: 'int-elt-3',
+    aircraftId: 'n789xy',
+    intervalType: 'ELT',
+    description: 'ELT Inspection - FAR 91.207(d) 12-month check',
+    intervalHours: undefined,
+    intervalCalendar: 365,
+    lastCompletedAt: new Date('2023-11-07'),
+    nextDueAt: new Date('2024-11-06'),
+    nextDueHours: 0,
+    isOverdue: false,
+    priority: 'LOW',
+    estimatedDowntime: 2,
+    estimatedCost: 600
+  }
+];
+
+export const MOCK_WORK_ORDERS: WorkOrder[] = [
+  {
+    id: 'wo-1',
+    aircraftId: 'n456cd',
+    workOrderNumber: 'WO-20240125-001',
+    title: '100-Hour Inspection - OVERDUE (AOG)',
+    description: 'Overdue 100-hour inspection - Aircraft on Ground. 25 hours overdue.',
+    status: 'IN_PROGRESS',
+    priority: 'AOG', // Aircraft On Ground
+    category: 'SCHEDULED',
+    mechanicAssigned: 'John Smith',
+    inspectorAssigned: 'Sarah Wilson',
+    estimatedHours: 12,
+    actualHours: 8,
+    partsRequired: [],
+    createdAt: new Date('2024-01-25'),
+    scheduledStartDate: new Date('2024-01-25'),
+    actualStartDate: new Date('2024-01-25'),
+    signOffData: undefined
+  },
+  {
+    id: 'wo-2',
+    aircraftId: 'n123ab',
+    workOrderNumber: 'WO-20240128-002',
+    title: 'Brake System Inspection',
+    description: 'Routine brake system inspection and maintenance',
+    status: 'OPEN',
+    priority: 'ROUTINE',
+    category: 'SCHEDULED',
+    mechanicAssigned: 'Mike Wilson',
+    inspectorAssigned: undefined,
+    estimatedHours: 4,
+    actualHours: 0,
+    partsRequired: [],
+    createdAt: new Date('2024-01-28'),
+    scheduledStartDate: new Date('2024-02-01'),
+    actualStartDate: undefined,
+    signOffData: undefined
+  }
+];
+
+// Sample directives for the demo fleet; numbers and limits are illustrative, not real FAA ADs
+export const MOCK_DIRECTIVES: AirworthinessDirective[] = [
+  {
+    id: 'ad-2021-09-12',
+    type: 'AD',
+    number: '2021-09-12',
+    title: 'BR710 Low-Pressure Turbine Disk Inspection',
+    description: 'Repetitive ultrasonic inspection of the stage 1 LPT disk for cracking',
+    authority: 'FAA',
+    category: 'ENGINE',
+    effectiveDate: new Date('2021-06-01'),
+    applicability: { partNumbers: ['BR700-710C4-11'], serialRanges: [{ from: '15001', to: '15400' }] },
+    recurrence: 'RECURRING',
+    initialCompliance: { cycles: 500 },
+    repeatInterval: { cycles: 1500 },
+    methodsOfCompliance: ['Ultrasonic inspection per engine manufacturer NMSB 72-A101'],
+    mandatory: true,
+    estimatedDowntime: 16,
+    estimatedCost: 22000
+  },
+  {
+    id: 'ad-2023-04-07',
+    type: 'AD',
+    number: '2023-04-07',
+    title: 'Main Landing Gear Side-Brace Fitting Inspection',
+    description: 'One-time inspection of the MLG side-brace upper fitting for corrosion and cracking',
+    authority: 'FAA',
+    category: 'AIRFRAME',
+    effectiveDate: new Date('2023-03-15'),
+    applicability: { make: 'Gulfstream', models: ['G550'], serialRanges: [{ from: 'G550-001', to: 'G550-002' }] },
+    recurrence: 'ONE_TIME',
+    initialCompliance: { hours: 600, calendarDays: 365 },
+    methodsOfCompliance: ['Detailed visual and eddy current inspection per ASB 32-A245', 'Fitting replacement per ASB 32-A245'],
+    mandatory: true,
+    estimatedDowntime: 12,
+    estimatedCost: 9500
+  },
+  {
+    id: 'ad-2022-18-03',
+    type: 'AD',
+    number: '2022-18-03',
+    title: 'ELT Battery Pack Inspection',
+    description: 'Inspect the ELT battery pack for electrolyte leakage and replace affected packs',
+    authority: 'FAA',
+    category: 'APPLIANCE',
+    effectiveDate: new Date('2022-10-01'),
+    applicability: { partNumbers: ['453-5001'] },
+    recurrence: 'RECURRING',
+    initialCompliance: { calendarDays: 180 },
+    repeatInterval: { calendarDays: 365 },
+    methodsOfCompliance: ['Battery pack inspection per ELT manufacturer SB 453-A12', 'Replacement with P/N 453-5090 (terminating action)'],
+    mandatory: true,
+    estimatedDowntime: 2,
+    estimatedCost: 850
+  },
+  {
+    id: 'sb-g550-32-0210',
+    type: 'SB',
+    number: 'G550-32-0210',
+    title: 'Nose Gear Steering Actuator Seal Upgrade',
+    authority: 'Gulfstream',
+    category: 'AIRFRAME',
+    effectiveDate: new Date('2023-09-01'),
+    applicability: { make: 'Gulfstream', models: ['G550'] },
+    recurrence: 'ONE_TIME',
+    initialCompliance: { calendarDays: 730 },
+    methodsOfCompliance: ['Seal kit installation per SB G550-32-0210'],
+    mandatory: false,
+    estimatedDowntime: 6,
+    estimatedCost: 4200
+  }
+];
+
+export const MOCK_DIRECTIVE_COMPLIANCE: DirectiveComplianceRecord[] = [
+  {
+    id: 'n123ab-ad-2021-09-12',
+    directiveId: 'ad-2021-09-12',
+    aircraftId: 'n123ab',
+    status: 'RECURRING',
+    methodOfCompliance: 'Ultrasonic inspection per engine manufacturer NMSB 72-A101',
+    complianceDate: new Date('2023-08-14'),
+    complianceHours: 1980,
+    complianceCycles: 1490,
+    nextDueCycles: 2990,
+    performedBy: 'Sarah Wilson',
+    updatedAt: new Date('2023-08-14')
+  },
+  {
+    id: 'n123ab-ad-2023-04-07',
+    directiveId: 'ad-2023-04-07',
+    aircraftId: 'n123ab',
+    status: 'COMPLIED',
+    methodOfCompliance: 'Detailed visual and eddy current inspection per ASB 32-A245',
+    complianceDate: new Date('2023-11-02'),
+    complianceHours: 2210,
+    complianceCycles: 1670,
+    performedBy: 'John Smith',
+    updatedAt: new Date('2023-11-02')
+  },
+  {
+    id: 'n456cd-ad-2023-04-07',
+    directiveId: 'ad-2023-04-07',
+    aircraftId: 'n456cd',
+    status: 'OPEN',
+    nextDueDate: new Date('2024-03-14'),
+    nextDueHours: 2150,
+    updatedAt: new Date('2023-03-15')
+  }
+];
+
+// Illustrative life limits; use the limits published for each part number
+const ENGINE_LIMITS: ComponentLifeLimit[] = [
+  { basis: 'TSO', action: 'OVERHAUL', hours: 6000 },
+  { basis: 'TSN', action: 'RETIRE', cycles: 15000 }
+];
+const APU_LIMITS: ComponentLifeLimit[] = [{ basis: 'TSO', action: 'OVERHAUL', hours: 4000 }];
+const MLG_LIMITS: ComponentLifeLimit[] = [
+  { basis: 'TSO', action: 'OVERHAUL', calendarDays: 3650, cycles: 7500 },
+  { basis: 'TSN', action: 'RETIRE', cycles: 15000 }
+];
+
+export const MOCK_COMPONENTS: TrackedComponent[] = [
+  {
+    id: 'eng-15210',
+    partNumber: 'BR700-710C4-11',
+    serialNumber: '15210',
+    description: 'Rolls-Royce BR710 turbofan',
+    category: 'LIFE_LIMITED',
+    componentType: 'ENGINE',
+    manufactureDate: new Date('2017-09-12'),
+    tsn: 2450,
+    csn: 1850,
+    accruedThrough: new Date('2024-01-15'),
+    lifeLimits: ENGINE_LIMITS,
+    installedOn: { aircraftId: 'n123ab', position: 'Engine 1', installedAt: new Date('2018-01-01'), aircraftHours: 0, aircraftCycles: 0 },
+    overhaulCost: 1850000,
+    updatedAt: new Date('2024-01-15')
+  },
+  {
+    id: 'eng-15211',
+    partNumber: 'BR700-710C4-11',
+    serialNumber: '15211',
+    description: 'Rolls-Royce BR710 turbofan',
+    category: 'LIFE_LIMITED',
+    componentType: 'ENGINE',
+    manufactureDate: new Date('2017-09-20'),
+    tsn: 2450,
+    csn: 1850,
+    accruedThrough: new Date('2024-01-15'),
+    lifeLimits: ENGINE_LIMITS,
+    installedOn: { aircraftId: 'n123ab', position: 'Engine 2', installedAt: new Date('2018-01-01'), aircraftHours: 0, aircraftCycles: 0 },
+    overhaulCost: 1850000,
+    updatedAt: new Date('2024-01-15')
+  },
+  {
+    id: 'apu-p-1147',
+    partNumber: '3800708-1',
+    serialNumber: 'P-1147',
+    description: 'Honeywell RE220 APU',
+    category: 'ROTABLE',
+    componentType: 'APU',
+    manufactureDate: new Date('2017-06-02'),
+    tsn: 1710,
+    csn: 2240,
+    accruedThrough: new Date('2024-01-15'),
+    lifeLimits: APU_LIMITS,
+    installedOn: { aircraftId: 'n123ab', position: 'APU', installedAt: new Date('2018-01-01'), aircraftHours: 0, aircraftCycles: 0 },
+    overhaulCost: 210000,
+    updatedAt: new Date('2024-01-15')
+  },
+  {
+    id: 'mlg-0874',
+    partNumber: '1159SCL301-5',
+    serialNumber: 'MLG-0874',
+    description: 'Main landing gear shock strut',
+    category: 'LIFE_LIMITED',
+    componentType: 'LANDING_GEAR',
+    manufactureDate: new Date('2017-04-18'),
+    tsn: 2450,
+    csn: 1850,
+    accruedThrough: new Date('2024-01-15'),
+    lifeLimits: MLG_LIMITS,
+    installedOn: { aircraftId: 'n123ab', position: 'Left MLG', installedAt: new Date('2018-01-01'), aircraftHours: 0, aircraftCycles: 0 },
+    overhaulCost: 145000,
+    updatedAt: new Date('2024-01-15')
+  },
+  {
+    id: 'eng-15388',
+    partNumber: 'BR700-710C4-11',
+    serialNumber: '15388',
+    description: 'Rolls-Royce BR710 turbofan',
+    category: 'LIFE_LIMITED',
+    componentType: 'ENGINE',
+    manufactureDate: new Date('2018-11-05'),
+    tsn: 2125,
+    csn: 1620,
+    accruedThrough: new Date('2024-01-10'),
+    lifeLimits: ENGINE_LIMITS,
+    installedOn: { aircraftId: 'n456cd', position: 'Engine 1', installedAt: new Date('2019-01-01'), aircraftHours: 0, aircraftCycles: 0 },
+    overhaulCost: 1850000,
+    updatedAt: new Date('2024-01-10')
+  },
+  {
+    // Exchange engine installed after N456CD's original engine 2 was removed for a bird strike
+    id: 'eng-15392',
+    partNumber: 'BR700-710C4-11',
+    serialNumber: '15392',
+    description: 'Rolls-Royce BR710 turbofan',
+    category: 'LIFE_LIMITED',
+    componentType: 'ENGINE',
+    manufactureDate: new Date('2012-03-27'),
+    lastOverhaulDate: new Date('2016-05-09'),
+    tsn: 11840,
+    csn: 8930,
+    tso: 5860,
+    cso: 4410,
+    accruedThrough: new Date('2024-01-10'),
+    lifeLimits: ENGINE_LIMITS,
+    installedOn: { aircraftId: 'n456cd', position: 'Engine 2', installedAt: new Date('2022-07-18'), aircraftHours: 1290, aircraftCycles: 985 },
+    overhaulCost: 1850000,
+    updatedAt: new Date('2024-01-10')
+  },
+  {
+    id: 'apu-p-1302',
+    partNumber: '3800708-1',
+    serialNumber: 'P-1302',
+    description: 'Honeywell RE220 APU',
+    category: 'ROTABLE',
+    componentType: 'APU',
+    manufactureDate: new Date('2018-08-14'),
+    lastOverhaulDate: new Date('2021-02-03'),
+    tsn: 5160,
+    csn: 6020,
+    tso: 1385,
+    cso: 1540,
+    accruedThrough: new Date('2024-01-10'),
+    lifeLimits: APU_LIMITS,
+    installedOn: { aircraftId: 'n456cd', position: 'APU', installedAt: new Date('2021-03-01'), aircraftHours: 760, aircraftCycles: 590 },
+    overhaulCost: 210000,
+    updatedAt: new Date('2024-01-10')
+  },
+  {
+    id: 'eng-15455',
+    partNumber: 'BR700-710C4-11',
+    serialNumber: '15455',
+    description: 'Rolls-Royce BR710 turbofan',
+    category: 'LIFE_LIMITED',
+    componentType: 'ENGINE',
+    manufactureDate: new Date('2019-10-08'),
+    tsn: 1875,
+    csn: 1425,
+    accruedThrough: new Date('2024-01-20'),
+    lifeLimits: ENGINE_LIMITS,
+    installedOn: { aircraftId: 'n789xy', position: 'Engine 1', installedAt: new Date('2020-01-01'), aircraftHours: 0, aircraftCycles: 0 },
+    overhaulCost: 1850000,
+    updatedAt: new Date('2024-01-20')
+  },
+  {
+    id: 'eng-15460',
+    partNumber: 'BR700-710C4-11',
+    serialNumber: '15460',
+    description: 'Rolls-Royce BR710 turbofan',
+    category: 'LIFE_LIMITED',
+    componentType: 'ENGINE',
+    manufactureDate: new Date('2019-10-22'),
+    tsn: 1875,
+    csn: 1425,
+    accruedThrough: new Date('2024-01-20'),
+    lifeLimits: ENGINE_LIMITS,
+    installedOn: { aircraftId: 'n789xy', position: 'Engine 2', installedAt: new Date('2020-01-01'), aircraftHours: 0, aircraftCycles: 0 },
+    overhaulCost: 1850000,
+    updatedAt: new Date('2024-01-20')
+  },
+  {
+    id: 'apu-p-1488',
+    partNumber: '3800708-1',
+    serialNumber: 'P-1488',
+    description: 'Honeywell RE220 APU',
+    category: 'ROTABLE',
+    componentType: 'APU',
+    manufactureDate: new Date('2019-07-30'),
+    tsn: 1320,
+    csn: 1760,
+    accruedThrough: new Date('2024-01-20'),
+    lifeLimits: APU_LIMITS,
+    installedOn: { aircraftId: 'n789xy', position: 'APU', installedAt: new Date('2020-01-01'), aircraftHours: 0, aircraftCycles: 0 },
+    overhaulCost: 210000,
+    updatedAt: new Date('2024-01-20')
+  },
+  {
+    // N456CD's original engine 2, in the shop after the bird strike
+    id: 'eng-15301',
+    partNumber: 'BR700-710C4-11',
+    serialNumber: '15301',
+    description: 'Rolls-Royce BR710 turbofan',
+    category: 'LIFE_LIMITED',
+    componentType: 'ENGINE',
+    manufactureDate: new Date('2018-10-29'),
+    tsn: 1290,
+    csn: 985,
+    lifeLimits: ENGINE_LIMITS,
+    overhaulCost: 1850000,
+    updatedAt: new Date('2022-07-15')
+  }
+];
+
+export const MOCK_COMPONENT_EVENTS: ComponentEvent[] = [
+  {
+    id: 'evt-eng-15301-remove-1657843200000',
+    componentId: 'eng-15301',
+    aircraftId: 'n456cd',
+    type: 'REMOVE',
+    position: 'Engine 2',
+    date: new Date('2022-07-15'),
+    aircraftHours: 1290,
+    aircraftCycles: 985,
+    tsn: 1290,
+    csn: 985,
+    reason: 'Bird strike - fan blade damage',
+    performedBy: 'Mike Johnson'
+  },
+  {
+    id: 'evt-eng-15392-install-1658102400000',
+    componentId: 'eng-15392',
+    aircraftId: 'n456cd',
+    type: 'INSTALL',
+    position: 'Engine 2',
+    date: new Date('2022-07-18'),
+    aircraftHours: 1290,
+    aircraftCycles: 985,
+    tsn: 11005,
+    csn: 8295,
+    tso: 5025,
+    cso: 3775,
+    reason: 'Exchange engine',
+    performedBy: 'Mike Johnson'
+  }
+];
@@ -0,0 +1,375 @@
+/**
+ * Mode S / ADS-B Decoder
+ * Decodes raw 1090ES frames from a local receiver without a third-party aggregator.
+ * - Beast binary framing (and AVR `*hex;` text) into Mode S frames
+ * - DF17/DF18 extended squitter: identification, airborne and surface position, velocity
+ * - CPR positions: global even/odd decoding, local decoding against a reference position
+ */
+
+import type { AdsbUpdate } from './adsb-receiver';
+
+export interface ReferencePosition {
+  latitude: number;
+  longitude: number;
+}
+
+export interface BeastFrame {
+  type: 'MODE_AC' | 'MODE_S_SHORT' | 'MODE_S_LONG';
+  timestamp: number; // receiver 12 MHz counter, not wall-clock time
+  signal: number;    // RSSI byte
+  data: Uint8Array;
+}
+
+// Decoded content of one extended squitter
+export interface ModeSMessage {
+  downlinkFormat: number;
+  icaoAddress: string; // lowercase hex
+  typeCode: number;
+  callsign?: string;
+  altitude?: number;          // feet
+  cpr?: CprFrame;
+  surface?: boolean;
+  groundSpeed?: number;       // knots
+  track?: number;             // degrees, or heading when only airspeed is reported
+  airspeed?: number;          // knots
+  airspeedType?: 'IAS' | 'TAS';
+  verticalRate?: number;      // feet per minute
+  isOnGround?: boolean;
+}
+
+export interface CprFrame {
+  odd: boolean;
+  latitude: number;  // 17-bit CPR value scaled to [0, 1)
+  longitude: number;
+  receivedAt: Date;
+}
+
+const BEAST_ESCAPE = 0x1a;
+const BEAST_PAYLOAD_LENGTH: { [type: number]: [BeastFrame['type'], number] } = {
+  0x31: ['MODE_AC', 2],
+  0x32: ['MODE_S_SHORT', 7],
+  0x33: ['MODE_S_LONG', 14]
+};
+
+const CRC_GENERATOR = 0xfff409;
+const CPR_MAX = 131072; // 2^17
+const CPR_ZONES = 15;    // NZ
+const CPR_PAIR_WINDOW_MS = 10000;
+const LOCAL_DECODE_MAX_AGE_MS = 10 * 60 * 1000;
+const CALLSIGN_CHARSET = '#ABCDEFGHIJKLMNOPQRSTUVWXYZ##### ###############0123456789######';
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 16;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x800000 ? (crc << 1) ^ CRC_GENERATOR : crc << 1;
+    }
+    table[i] = crc & 0xffffff;
+  }
+  return table;
+})();
+
+// CRC-24 over the frame without its parity field; equals the parity field for a valid DF17/DF18
+export function modeSChecksum(frame: Uint8Array): number {
+  let crc = 0;
+  for (let i = 0; i < frame.length - 3; i++) {
+    crc = ((crc << 8) ^ CRC_TABLE[((crc >> 16) ^ frame[i]) & 0xff]) & 0xffffff;
+  }
+  return crc;
+}
+
+function parityField(frame: Uint8Array): number {
+  const n = frame.length;
+  return (frame[n - 3] << 16) | (frame[n - 2] << 8) | frame[n - 1];
+}
+
+// Big-endian bit field; start is 0-based from the first bit of the frame
+function bits(frame: Uint8Array, start: number, length: number): number {
+  let value = 0;
+  for (let i = start; i < start + length; i++) {
+    value = value * 2 + ((frame[i >> 3] >> (7 - (i & 7))) & 1);
+  }
+  return value;
+}
+
+export function hexToBytes(hex: string): Uint8Array {
+  const clean = hex.replace(/[^0-9a-f]/gi, '');
+  const bytes = new Uint8Array(clean.length / 2);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(clean.substr(i * 2, 2), 16);
+  return bytes;
+}
+
+// Split a Beast stream into frames; an incomplete trailing frame is returned for the next chunk
+export function parseBeastFrames(buffer: Uint8Array): { frames: BeastFrame[]; remainder: Uint8Array } {
+  const frames: BeastFrame[] = [];
+  let i = 0;
+
+  while (i < buffer.length) {
+    if (buffer[i] !== BEAST_ESCAPE || i + 1 >= buffer.length) {
+      if (buffer[i] === BEAST_ESCAPE) break; // escape at the very end: wait for more data
+      i++;
+      continue;
+    }
+
+    const format = BEAST_PAYLOAD_LENGTH[buffer[i + 1]];
+    if (!format) {
+      i += buffer[i + 1] === BEAST_ESCAPE ? 2 : 1; // status frames and stray escapes
+      continue;
+    }
+
+    // 6 timestamp bytes, 1 signal byte, then the payload; 0x1a inside a frame is doubled
+    const [type, payloadLength] = format;
+    const frame = new Uint8Array(7 + payloadLength);
+    let read = 0;
+    let j = i + 2;
+    let resync = false;
+    while (read < frame.length && j < buffer.length) {
+      if (buffer[j] === BEAST_ESCAPE) {
+        if (j + 1 >= buffer.length) break;
+        if (buffer[j + 1] !== BEAST_ESCAPE) {
+          resync = true; // a new frame started before this one finished
+          break;
+        }
+        j++;
+      }
+      frame[read++] = buffer[j++];
+    }
+
+    if (resync) {
+      i = j;
+      continue;
+    }
+    if (read < frame.length) break; // incomplete
+
+    frames.push({
+      type,
+      timestamp: bits(frame, 0, 48),
+      signal: frame[6],
+      data: frame.slice(7)
+    });
+    i = j;
+  }
+
+  return { frames, remainder: buffer.slice(i) };
+}
+
+// AVR text, one `*8D4840D6202CC371C32CE0576098;` frame per line (also accepts bare hex)
+export function parseAvrFrames(text: string): Uint8Array[] {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim().replace(/^[*@]/, '').replace(/;$/, ''))
+    .filter(line => /^([0-9a-f]{14}|[0-9a-f]{28})$/i.test(line))
+    .map(hexToBytes);
+}
+
+// Number of longitude zones at a latitude (NL)
+export function cprLongitudeZones(latitude: number): number {
+  const lat = Math.abs(latitude);
+  if (lat === 0) return 59;
+  if (lat === 87) return 2;
+  if (lat > 87) return 1;
+
+  const a = 1 - Math.cos(Math.PI / (2 * CPR_ZONES));
+  const b = Math.cos(Math.PI / 180 * lat) ** 2;
+  return Math.floor(2 * Math.PI / Math.acos(1 - a / b));
+}
+
+const mod = (x: number, y: number) => x - y * Math.floor(x / y);
+
+// Globally unambiguous airborne position from an even and an odd frame; the newer frame sets the position
+export function decodeCprGlobal(even: CprFrame, odd: CprFrame): ReferencePosition | null {
+  const dLatEven = 360 / 60;
+  const dLatOdd = 360 / 59;
+  const j = Math.floor(59 * even.latitude - 60 * odd.latitude + 0.5);
+
+  let latEven = dLatEven * (mod(j, 60) + even.latitude);
+  let latOdd = dLatOdd * (mod(j, 59) + odd.latitude);
+  if (latEven >= 270) latEven -= 360;
+  if (latOdd >= 270) latOdd -= 360;
+
+  // Both frames must lie in the same longitude zone band
+  if (cprLongitudeZones(latEven) !== cprLongitudeZones(latOdd)) return null;
+
+  const useEven = even.receivedAt >= odd.receivedAt;
+  const latitude = useEven ? latEven : latOdd;
+  const nl = cprLongitudeZones(latitude);
+  const ni = Math.max(useEven ? nl : nl - 1, 1);
+  const m = Math.floor(even.longitude * (nl - 1) - odd.longitude * nl + 0.5);
+
+  let longitude = (360 / ni) * (mod(m, ni) + (useEven ? even.longitude : odd.longitude));
+  if (longitude >= 180) longitude -= 360;
+
+  return { latitude, longitude };
+}
+
+// Position from a single frame near a known position (within 180 NM airborne, 45 NM on the surface)
+export function decodeCprLocal(frame: CprFrame, reference: ReferencePosition, surface: boolean = false): ReferencePosition {
+  const span = surface ? 90 : 360;
+  const dLat = span / (frame.odd ? 59 : 60);
+  const j = Math.floor(reference.latitude / dLat) + Math.floor(mod(reference.latitude, dLat) / dLat - frame.latitude + 0.5);
+  const latitude = dLat * (j + frame.latitude);
+
+  const ni = cprLongitudeZones(latitude) - (frame.odd ? 1 : 0);
+  const dLon = ni > 0 ? span / ni : span;
+  const m = Math.floor(reference.longitude / dLon) + Math.floor(mod(reference.longitude, dLon) / dLon - frame.longitude + 0.5);
+  const longitude = dLon * (m + frame.longitude);
+
+  return { latitude, longitude };
+}
+
+// 12-bit altitude field; only the 25 ft (Q bit set) encoding is decoded, Gillham altitudes are skipped
+function decodeAltitude(field: number): number | undefined {
+  if (field === 0 || !(field & 0x10)) return undefined;
+  const n = ((field & 0xfe0) >> 1) | (field & 0x00f);
+  return n * 25 - 1000;
+}
+
+// Surface movement field to knots (DO-260B table)
+function decodeMovement(movement: number): number | undefined {
+  if (movement === 0 || movement >= 125) return undefined;
+  if (movement === 1) return 0;
+  if (movement <= 8) return 0.125 * (movement - 1);
+  if (movement <= 12) return 1 + 0.25 * (movement - 9);
+  if (movement <= 38) return 2 + 0.5 * (movement - 13);
+  if (movement <= 93) return 15 + (movement - 39);
+  if (movement <= 108) return 70 + 2 * (movement - 94);
+  if (movement <= 123) return 100 + 5 * (movement - 109);
+  return 175;
+}
+
+function decodeVelocity(frame: Uint8Array, message: ModeSMessage) {
+  const subtype = bits(frame, 37, 3);
+
+  if (subtype === 1 || subtype === 2) {
+    const scale = subtype === 2 ? 4 : 1; // supersonic
+    const eastWest = bits(frame, 46, 10);
+    const northSouth = bits(frame, 57, 10);
+    if (eastWest > 0 && northSouth > 0) {
+      const vx = (eastWest - 1) * scale * (bits(frame, 45, 1) ? -1 : 1);
+      const vy = (northSouth - 1) * scale * (bits(frame, 56, 1) ? -1 : 1);
+      message.groundSpeed = Math.sqrt(vx * vx + vy * vy);
+      message.track = mod(Math.atan2(vx, vy) * 180 / Math.PI, 360);
+    }
+  } else if (subtype === 3 || subtype === 4) {
+    if (bits(frame, 45, 1)) message.track = bits(frame, 46, 10) * 360 / 1024;
+    const airspeed = bits(frame, 57, 10);
+    if (airspeed > 0) {
+      message.airspeed = (airspeed - 1) * (subtype === 4 ? 4 : 1);
+      message.airspeedType = bits(frame, 56, 1) ? 'TAS' : 'IAS';
+    }
+  } else {
+    return;
+  }
+
+  const rate = bits(frame, 69, 9);
+  if (rate > 0) message.verticalRate = (rate - 1) * 64 * (bits(frame, 68, 1) ? -1 : 1);
+}
+
+// Decode one 112-bit DF17/DF18 frame; anything else, or a frame failing its parity check, returns null
+export function decodeExtendedSquitter(frame: Uint8Array, receivedAt: Date = new Date()): ModeSMessage | null {
+  if (frame.length !== 14) return null;
+
+  const downlinkFormat = bits(frame, 0, 5);
+  const capability = bits(frame, 5, 3);
+  // DF18 with CF 0 is ADS-B from a non-transponder device using its ICAO address
+  if (downlinkFormat !== 17 && !(downlinkFormat === 18 && capability === 0)) return null;
+  if (modeSChecksum(frame) !== parityField(frame)) return null;
+
+  const typeCode = bits(frame, 32, 5);
+  const message: ModeSMessage = {
+    downlinkFormat,
+    icaoAddress: bits(frame, 8, 24).toString(16).padStart(6, '0'),
+    typeCode
+  };
+  // DF17 capability 4 and 5 report on-ground and airborne
+  if (downlinkFormat === 17 && (capability === 4 || capability === 5)) message.isOnGround = capability === 4;
+
+  const cpr = (): CprFrame => ({
+    odd: bits(frame, 53, 1) === 1,
+    latitude: bits(frame, 54, 17) / CPR_MAX,
+    longitude: bits(frame, 71, 17) / CPR_MAX,
+    receivedAt
+  });
+
+  if (typeCode >= 1 && typeCode <= 4) {
+    let callsign = '';
+    for (let i = 0; i < 8; i++) callsign += CALLSIGN_CHARSET[bits(frame, 40 + i * 6, 6)];
+    message.callsign = callsign.replace(/[#\s]+$/, '').replace(/#/g, '');
+  } else if (typeCode >= 5 && typeCode <= 8) {
+    message.surface = true;
+    message.isOnGround = true;
+    message.groundSpeed = decodeMovement(bits(frame, 37, 7));
+    if (bits(frame, 44, 1)) message.track = bits(frame, 45, 7) * 360 / 128;
+    message.cpr = cpr();
+  } else if ((typeCode >= 9 && typeCode <= 18) || (typeCode >= 20 && typeCode <= 22)) {
+    const altitude = bits(frame, 40, 12);
+    // Type codes 20-22 carry GNSS height in metres
+    message.altitude = typeCode >= 20 ? Math.round(altitude * 3.28084) : decodeAltitude(altitude);
+    message.isOnGround = false;
+    message.cpr = cpr();
+  } else if (typeCode === 19) {
+    decodeVelocity(frame, message);
+  }
+
+  return message;
+}
+
+// Stateful decoder: pairs CPR frames per aircraft and turns messages into receiver updates
+export class ModeSDecoder {
+  private cprFrames = new Map<string, { even?: CprFrame; odd?: CprFrame; surface: boolean }>();
+  private lastPositions = new Map<string, ReferencePosition & { at: Date }>();
+
+  constructor(private reference?: ReferencePosition) {}
+
+  decode(frame: Uint8Array, receivedAt: Date = new Date()): AdsbUpdate | null {
+    const message = decodeExtendedSquitter(frame, receivedAt);
+    if (!message) return null;
+
+    const update: AdsbUpdate = {
+      icaoAddress: message.icaoAddress,
+      timestamp: receivedAt,
+      callsign: message.callsign,
+      altitude: message.altitude,
+      groundSpeed: message.groundSpeed,
+      track: message.track,
+      verticalRate: message.verticalRate,
+      indicatedAirspeed: message.airspeedType === 'IAS' ? message.airspeed : undefined,
+      isOnGround: message.isOnGround
+    };
+
+    const position = message.cpr ? this.resolvePosition(message.icaoAddress, message.cpr, !!message.surface) : null;
+    if (position) {
+      update.latitude = position.latitude;
+      update.longitude = position.longitude;
+      this.lastPositions.set(message.icaoAddress, { ...position, at: receivedAt });
+    }
+
+    return update;
+  }
+
+  private resolvePosition(icaoAddress: string, frame: CprFrame, surface: boolean): ReferencePosition | null {
+    const previous = this.cprFrames.get(icaoAddress);
+    const pair = previous && previous.surface === surface ? previous : { surface };
+    if (frame.odd) pair.odd = frame; else pair.even = frame;
+    this.cprFrames.set(icaoAddress, pair);
+
+    // Surface positions are only unambiguous within 45 NM, so they always need a reference
+    if (surface) {
+      const last = this.lastPositions.get(icaoAddress);
+      const reference = last && frame.receivedAt.getTime() - last.at.getTime() < LOCAL_DECODE_MAX_AGE_MS ? last : this.reference;
+      return reference ? decodeCprLocal(frame, reference, true) : null;
+    }
+
+    if (pair.even && pair.odd && Math.abs(pair.even.receivedAt.getTime() - pair.odd.receivedAt.getTime()) <= CPR_PAIR_WINDOW_MS) {
+      const position = decodeCprGlobal(pair.even, pair.odd);
+      if (position) return position;
+    }
+
+    const last = this.lastPositions.get(icaoAddress);
+    if (last && frame.receivedAt.getTime() - last.at.getTime() < LOCAL_DECODE_MAX_AGE_MS) {
+      return decodeCprLocal(frame, last);
+    }
+    return null;
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * N-Number Registry Addresses
+ * Converts between US civil registrations and the ICAO 24-bit addresses the FAA assigns to them.
+ * - The US block runs from a00001 (N1) to adf7c7 (N99999), allocated in N-number order
+ * - Suffix letters exclude I and O; at most two letters, and only at the end
+ * - Digits after N start at 1 and an N-number has at most five characters after the N
+ */
+
+const LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ'; // no I or O
+const DIGITS = '0123456789';
+const US_FIRST_ADDRESS = 0xa00001;
+const US_LAST_ADDRESS = 0xadf7c7;
+
+// Addresses taken by the letter suffixes after a digit: none, A-Z, AA-ZZ
+const SUFFIX_SIZE = 1 + LETTERS.length * (1 + LETTERS.length);
+// Addresses under each digit position; the fifth position takes one letter or one digit
+const BUCKET4_SIZE = 1 + LETTERS.length + DIGITS.length;
+const BUCKET3_SIZE = DIGITS.length * BUCKET4_SIZE + SUFFIX_SIZE;
+const BUCKET2_SIZE = DIGITS.length * BUCKET3_SIZE + SUFFIX_SIZE;
+const BUCKET1_SIZE = DIGITS.length * BUCKET2_SIZE + SUFFIX_SIZE;
+
+const N_NUMBER_PATTERN = /^N[1-9](\d{0,4}|\d{0,2}[A-HJ-NP-Z]{1,2}|\d{3}[A-HJ-NP-Z])$/;
+const ICAO_ADDRESS_PATTERN = /^[0-9a-f]{6}$/;
+
+export function isValidNNumber(tailNumber: string): boolean {
+  return N_NUMBER_PATTERN.test(tailNumber.trim().toUpperCase());
+}
+
+export function isIcaoAddress(value: string): boolean {
+  return ICAO_ADDRESS_PATTERN.test(value.trim().toLowerCase());
+}
+
+function suffixOffset(suffix: string): number {
+  if (!suffix) return 0;
+  let offset = LETTERS.indexOf(suffix[0]) * (LETTERS.length + 1) + 1;
+  if (suffix.length > 1) offset += LETTERS.indexOf(suffix[1]) + 1;
+  return offset;
+}
+
+function suffixAt(offset: number): string {
+  if (offset === 0) return '';
+  const first = LETTERS[Math.floor((offset - 1) / (LETTERS.length + 1))];
+  const second = (offset - 1) % (LETTERS.length + 1);
+  return second === 0 ? first : first + LETTERS[second - 1];
+}
+
+// ICAO address (lowercase hex) for a US N-number, or null if it isn't a valid N-number
+export function nNumberToIcao(tailNumber: string): string | null {
+  const tail = tailNumber.trim().toUpperCase();
+  if (!isValidNNumber(tail)) return null;
+
+  const chars = tail.slice(1);
+  let address = US_FIRST_ADDRESS + (Number(chars[0]) - 1) * BUCKET1_SIZE;
+  const bucketSizes = [BUCKET2_SIZE, BUCKET3_SIZE, BUCKET4_SIZE];
+
+  for (let i = 1; i < chars.length; i++) {
+    if (LETTERS.includes(chars[i])) {
+      address += i === 4 ? 1 + LETTERS.indexOf(chars[i]) : suffixOffset(chars.slice(i, i + 2));
+      break;
+    }
+    address += i === 4
+      ? 1 + LETTERS.length + Number(chars[i])
+      : SUFFIX_SIZE + Number(chars[i]) * bucketSizes[i - 1];
+  }
+
+  return address.toString(16).padStart(6, '0');
+}
+
+// US N-number for an ICAO address, or null if the address is outside the US block
+export function icaoToNNumber(icaoAddress: string): string | null {
+  if (!isIcaoAddress(icaoAddress)) return null;
+  const address = parseInt(icaoAddress.trim(), 16);
+  if (address < US_FIRST_ADDRESS || address > US_LAST_ADDRESS) return null;
+
+  let rest = address - US_FIRST_ADDRESS;
+  let tail = `N${Math.floor(rest / BUCKET1_SIZE) + 1}`;
+  rest %= BUCKET1_SIZE;
+
+  for (const bucketSize of [BUCKET2_SIZE, BUCKET3_SIZE, BUCKET4_SIZE]) {
+    if (rest < SUFFIX_SIZE) return tail + suffixAt(rest);
+    rest -= SUFFIX_SIZE;
+    tail += Math.floor(rest / bucketSize);
+    rest %= bucketSize;
+  }
+
+  return rest === 0 ? tail : tail + (LETTERS + DIGITS)[rest - 1];
+}
@@ -0,0 +1,91 @@
+/**
+ * Personnel Roster
+ * The maintenance organization's people, from data/personnel.json.
+ * - Looked up by id, email or name, so API callers can identify themselves either way
+ * - approvalRoles are the positions a person may approve maintenance in (see lib/approval-policies.ts)
+ * - skillLevel, certifications, shifts and timeOff decide who can take a task (see lib/task-assignment.ts)
+ */
+
+import { ApprovalRole, MaintenanceUser, ShiftPattern } from '@/types';
+import personnelData from '@/data/personnel.json';
+
+const USER_ROLES: MaintenanceUser['role'][] = ['MECHANIC', 'INSPECTOR', 'MANAGER', 'PILOT'];
+const SKILL_LEVELS: MaintenanceUser['skillLevel'][] = ['BASIC', 'INTERMEDIATE', 'ADVANCED', 'SPECIALIST'];
+const DAYS: ShiftPattern['days'] = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+export const APPROVAL_ROLES: ApprovalRole[] = ['DIRECTOR_OF_MAINTENANCE', 'CHIEF_INSPECTOR', 'MAINTENANCE_MANAGER'];
+
+export const APPROVAL_ROLE_LABELS: { [role in ApprovalRole]: string } = {
+  DIRECTOR_OF_MAINTENANCE: 'Director of Maintenance',
+  CHIEF_INSPECTOR: 'Chief Inspector',
+  MAINTENANCE_MANAGER: 'Maintenance Manager'
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+const isDate = (value: unknown) => value !== undefined && !isNaN(new Date(value as string).getTime());
+
+// Check every entry; throws listing every problem found
+export function validatePersonnel(raw: any, source = 'personnel'): MaintenanceUser[] {
+  const issues: string[] = [];
+  const entries: any[] = Array.isArray(raw?.personnel) ? raw.personnel : [];
+  if (!Array.isArray(raw?.personnel)) issues.push('personnel must be an array');
+
+  const ids = new Set<string>();
+  entries.forEach((person, index) => {
+    const path = `personnel[${index}]`;
+    if (!isString(person?.id)) return issues.push(`${path}.id is required`);
+    if (ids.has(person.id)) issues.push(`${path}.id "${person.id}" is duplicated`);
+    ids.add(person.id);
+    if (!isString(person.name)) issues.push(`${path}.name is required`);
+    if (!isString(person.email)) issues.push(`${path}.email is required`);
+    if (!USER_ROLES.includes(person.role)) issues.push(`${path}.role must be one of ${USER_ROLES.join(', ')}`);
+    if (person.licenseExpiration !== undefined && !isDate(person.licenseExpiration)) {
+      issues.push(`${path}.licenseExpiration must be a date`);
+    }
+    (person.approvalRoles || [])
+      .filter((role: string) => !APPROVAL_ROLES.includes(role as ApprovalRole))
+      .forEach((role: string) => issues.push(`${path}.approvalRoles has unknown role ${role}`));
+    if (person.skillLevel !== undefined && !SKILL_LEVELS.includes(person.skillLevel)) {
+      issues.push(`${path}.skillLevel must be one of ${SKILL_LEVELS.join(', ')}`);
+    }
+    (person.shifts || []).forEach((shift: any, shiftIndex: number) => {
+      const shiftPath = `${path}.shifts[${shiftIndex}]`;
+      if (!Array.isArray(shift?.days) || shift.days.length === 0 || shift.days.some((day: any) => !DAYS.includes(day))) {
+        issues.push(`${shiftPath}.days must list days from ${DAYS.join(', ')}`);
+      }
+      if (!TIME_OF_DAY.test(shift?.start) || !TIME_OF_DAY.test(shift?.end)) {
+        issues.push(`${shiftPath}.start and end must be HH:MM`);
+      }
+    });
+    (person.timeOff || []).forEach((timeOff: any, timeOffIndex: number) => {
+      if (!isDate(timeOff?.from) || !isDate(timeOff?.until) || new Date(timeOff.until) <= new Date(timeOff.from)) {
+        issues.push(`${path}.timeOff[${timeOffIndex}] needs from and a later until date`);
+      }
+    });
+  });
+
+  if (issues.length > 0) {
+    throw new Error(`Invalid ${source}: ${issues.join('; ')}`);
+  }
+  return entries.map(person => ({
+    ...person,
+    certifications: person.certifications || [],
+    permissions: person.permissions || [],
+    licenseExpiration: person.licenseExpiration ? new Date(person.licenseExpiration) : undefined,
+    timeOff: (person.timeOff || []).map((timeOff: any) => ({ ...timeOff, from: new Date(timeOff.from), until: new Date(timeOff.until) }))
+  }));
+}
+
+const personnel = validatePersonnel(personnelData, 'personnel.json');
+
+export function listPersonnel(): MaintenanceUser[] {
+  return personnel;
+}
+
+// By id, email or name (case-insensitive)
+export function findPerson(reference: string): MaintenanceUser | undefined {
+  const key = reference?.trim().toLowerCase();
+  if (!key) return undefined;
+  return personnel.find(person =>
+    person.id.toLowerCase() === key || person.email.toLowerCase() === key || person.name.toLowerCase() === key);
+}
@@ -0,0 +1,143 @@
+/**
+ * Provider Rate Limiter
+ * Keeps flight data requests within each provider's quota.
+ * - A sliding window of requests per provider (OpenSky state vectors, AeroAPI queries per minute)
+ * - Exponential backoff after 429s, server errors and network failures, honouring Retry-After
+ * - A provider in backoff is skipped so the fallback chain moves on to the next one
+ */
+
+export interface ProviderRateLimit {
+  maxRequests: number;  // per window
+  windowSeconds: number;
+  maxBackoffSeconds?: number; // defaults to 15 minutes
+}
+
+export interface ProviderStatus {
+  provider: string;
+  available: boolean;
+  requestsInWindow: number;
+  consecutiveFailures: number;
+  backoffUntil?: Date;
+  lastError?: string;
+  lastSuccess?: Date;
+}
+
+interface ProviderState {
+  requests: number[]; // request times within the window
+  consecutiveFailures: number;
+  backoffUntil: number;
+  lastError?: string;
+  lastSuccess?: number;
+}
+
+const BASE_BACKOFF_MS = 5000;
+const DEFAULT_MAX_BACKOFF_SECONDS = 15 * 60;
+
+// Seconds to wait from a Retry-After header (seconds or HTTP date) or OpenSky's X-Rate-Limit-Retry-After-Seconds
+function retryAfterSeconds(response: Response, now: number): number | undefined {
+  const header = response.headers.get('x-rate-limit-retry-after-seconds') || response.headers.get('retry-after');
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, (date - now) / 1000);
+}
+
+export class ProviderRateLimiter {
+  private states = new Map<string, ProviderState>();
+
+  constructor(private limits: { [provider: string]: ProviderRateLimit | undefined } = {}) {}
+
+  // Whether a request may be made now: not backing off and under the window quota
+  isAvailable(provider: string, now: number = Date.now()): boolean {
+    const state = this.getState(provider, now);
+    if (now < state.backoffUntil) return false;
+    const limit = this.limits[provider];
+    return !limit || state.requests.length < limit.maxRequests;
+  }
+
+  // Fetch through the limiter; throws without requesting when the provider is unavailable,
+  // and on 429 or 5xx after scheduling the backoff. Other responses are returned to the caller.
+  async fetch(provider: string, url: string, init?: RequestInit): Promise<Response> {
+    const now = Date.now();
+    if (!this.isAvailable(provider, now)) {
+      throw new Error(`${provider} rate limit reached; next request allowed after ${this.nextRequestAt(provider).toISOString()}`);
+    }
+    if (this.limits[provider]) this.getState(provider, now).requests.push(now);
+
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      this.recordFailure(provider, error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+
+    if (response.status === 429 || response.status >= 500) {
+      const message = `${provider} API error: ${response.status}`;
+      this.recordFailure(provider, message, retryAfterSeconds(response, Date.now()));
+      throw new Error(message);
+    }
+
+    this.recordSuccess(provider);
+    return response;
+  }
+
+  recordSuccess(provider: string) {
+    const state = this.getState(provider);
+    state.consecutiveFailures = 0;
+    state.backoffUntil = 0;
+    state.lastSuccess = Date.now();
+  }
+
+  // Back off for Retry-After when given, else 5 s doubling per consecutive failure
+  recordFailure(provider: string, message: string, retryAfter?: number) {
+    const now = Date.now();
+    const state = this.getState(provider, now);
+    const maxBackoff = (this.limits[provider]?.maxBackoffSeconds ?? DEFAULT_MAX_BACKOFF_SECONDS) * 1000;
+    const backoff = retryAfter !== undefined
+      ? retryAfter * 1000
+      : BASE_BACKOFF_MS * Math.pow(2, state.consecutiveFailures);
+
+    state.consecutiveFailures += 1;
+    state.backoffUntil = now + Math.min(backoff, maxBackoff);
+    state.lastError = message;
+  }
+
+  nextRequestAt(provider: string, now: number = Date.now()): Date {
+    const state = this.getState(provider, now);
+    const limit = this.limits[provider];
+    const windowFreesAt = limit && state.requests.length >= limit.maxRequests
+      ? state.requests[state.requests.length - limit.maxRequests] + limit.windowSeconds * 1000
+      : now;
+    return new Date(Math.max(now, state.backoffUntil, windowFreesAt));
+  }
+
+  getStatus(provider: string, now: number = Date.now()): ProviderStatus {
+    const state = this.getState(provider, now);
+    return {
+      provider,
+      available: this.isAvailable(provider, now),
+      requestsInWindow: state.requests.length,
+      consecutiveFailures: state.consecutiveFailures,
+      backoffUntil: state.backoffUntil > now ? new Date(state.backoffUntil) : undefined,
+      lastError: state.lastError,
+      lastSuccess: state.lastSuccess ? new Date(state.lastSuccess) : undefined
+    };
+  }
+
+  // State with requests older than the window dropped
+  private getState(provider: string, now: number = Date.now()): ProviderState {
+    let state = this.states.get(provider);
+    if (!state) {
+      state = { requests: [], consecutiveFailures: 0, backoffUntil: 0 };
+      this.states.set(provider, state);
+    }
+    const limit = this.limits[provider];
+    if (limit) {
+      const windowStart = now - limit.windowSeconds * 1000;
+      state.requests = state.requests.filter(time => time > windowStart);
+    }
+    return state;
+  }
+}
@@ -0,0 +1,312 @@
+/**
+ * Resource Calendar
+ * Reservations against the resource registry (lib/resources.ts), so equipment is never promised twice.
+ * - Hard constraints: an item can't be booked while another booking holds it, while out of service,
+ *   past its calibration due date, or (hangar bays) when the aircraft doesn't fit
+ * - Needs the registry has nothing for (flashlights, rags, databases) are shop stock and aren't booked
+ * - A request is all or nothing: if any tracked need can't be met, nothing is reserved and the error
+ *   says why each candidate was passed over
+ * - Cancelled and completed bookings free the resource again
+ * - Bookings are persisted (Supabase `resource_bookings` table when configured, otherwise in memory);
+ *   reserve and release reload them first, so every instance sees what the others hold
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from './supabase';
+import type { AircraftDimensions } from './maintenance-programs';
+import type { MaintenanceChecklist } from './maintenance-tasks';
+import { HANGAR_BAY, MaintenanceResource, ResourceType, bayFitProblem, listResources } from './resources';
+
+export interface ResourceBooking {
+  id: string;
+  resourceId: string;
+  resourceType: ResourceType;
+  resourceName: string;
+  bookedFrom: Date;
+  bookedUntil: Date;
+  bookedBy: string;
+  recommendationId: string;
+  status: 'RESERVED' | 'CONFIRMED' | 'IN_USE' | 'COMPLETED' | 'CANCELLED';
+}
+
+export interface ResourceRequest {
+  recommendationId: string; // or schedule item id while the scheduler is only planning
+  needs: string[];
+  from: Date;
+  until: Date;
+  dimensions?: AircraftDimensions; // hangar bays are only size-checked when known
+  bookedBy?: string;
+}
+
+// Time a resource is spoken for without being booked yet, e.g. by items the scheduler has already placed
+export type TentativeBooking = Pick<ResourceBooking, 'resourceId' | 'bookedFrom' | 'bookedUntil' | 'recommendationId'>;
+
+export interface ResourcePlan {
+  allocations: { need: string; resource: MaintenanceResource }[];
+  untracked: string[];
+  problems: string[];
+  blockedBy: string[]; // holders of the bookings that got in the way
+}
+
+export interface ResourceAvailability {
+  resource: MaintenanceResource;
+  available: boolean;
+  conflicts: string[];
+  bookings: ResourceBooking[];
+}
+
+export interface ResourceBookingStore {
+  // Every booking, released ones included
+  listBookings(): Promise<ResourceBooking[]>;
+  // Inserts new bookings and updates existing ones by id
+  saveBookings(bookings: ResourceBooking[]): Promise<void>;
+}
+
+const ACTIVE_STATUSES: ResourceBooking['status'][] = ['RESERVED', 'CONFIRMED', 'IN_USE'];
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+const overlaps = (start: Date, end: Date, otherStart: Date, otherEnd: Date) => start < otherEnd && otherStart < end;
+const bayArea = (resource: MaintenanceResource) => resource.bay ? resource.bay.lengthFt * resource.bay.widthFt : 0;
+
+// Checklist equipment first, then every tool its task cards call for, each once
+export function resourceNeeds(checklist?: MaintenanceChecklist): string[] {
+  if (!checklist) return [];
+  return checklist.tasks.reduce<string[]>(
+    (needs, task) => needs.concat(task.requiredTools.filter(tool => !needs.includes(tool))),
+    (checklist.requiredEquipment || []).slice()
+  );
+}
+
+type ResourceBookingRow = Database['public']['Tables']['resource_bookings']['Row'];
+
+export function mapResourceBookingRow(row: ResourceBookingRow): ResourceBooking {
+  return {
+    id: row.id,
+    resourceId: row.resource_id,
+    resourceType: row.resource_type as ResourceType,
+    resourceName: row.resource_name,
+    bookedFrom: new Date(row.booked_from),
+    bookedUntil: new Date(row.booked_until),
+    bookedBy: row.booked_by,
+    recommendationId: row.recommendation_id,
+    status: row.status as ResourceBooking['status']
+  };
+}
+
+export function toResourceBookingRow(booking: ResourceBooking): ResourceBookingRow {
+  return {
+    id: booking.id,
+    resource_id: booking.resourceId,
+    resource_type: booking.resourceType,
+    resource_name: booking.resourceName,
+    booked_from: booking.bookedFrom.toISOString(),
+    booked_until: booking.bookedUntil.toISOString(),
+    booked_by: booking.bookedBy,
+    recommendation_id: booking.recommendationId,
+    status: booking.status
+  };
+}
+
+export class SupabaseResourceBookingStore implements ResourceBookingStore {
+  constructor(private client: SupabaseClient) {}
+
+  async listBookings(): Promise<ResourceBooking[]> {
+    const { data, error } = await this.client.from('resource_bookings').select('*').order('booked_from');
+    if (error) throw new Error(`Failed to load resource bookings: ${error.message}`);
+    return (data as ResourceBookingRow[]).map(mapResourceBookingRow);
+  }
+
+  async saveBookings(bookings: ResourceBooking[]): Promise<void> {
+    if (bookings.length === 0) return;
+    const { error } = await this.client.from('resource_bookings').upsert(bookings.map(toResourceBookingRow));
+    if (error) throw new Error(`Failed to save resource bookings ${bookings.map(booking => booking.id).join(', ')}: ${error.message}`);
+  }
+}
+
+// In-memory implementation (local development and tests)
+export class InMemoryResourceBookingStore implements ResourceBookingStore {
+  private bookings = new Map<string, ResourceBooking>();
+
+  async listBookings(): Promise<ResourceBooking[]> {
+    return Array.from(this.bookings.values()).map(booking => ({ ...booking }));
+  }
+
+  async saveBookings(bookings: ResourceBooking[]): Promise<void> {
+    bookings.forEach(booking => this.bookings.set(booking.id, { ...booking }));
+  }
+}
+
+export class ResourceCalendar {
+  private bookings: ResourceBooking[] = []; // as of the last refresh, reserve or release
+
+  constructor(
+    private resources: MaintenanceResource[] = listResources(),
+    private getStore: () => Promise<ResourceBookingStore> = getResourceBookingStore
+  ) {}
+
+  // Reload the bookings from the store; plan, conflicts and getBookings answer from what was last loaded
+  async refresh(): Promise<void> {
+    this.bookings = await (await this.getStore()).listBookings();
+  }
+
+  listResources(): MaintenanceResource[] {
+    return this.resources;
+  }
+
+  // Needs at least one registered item can meet
+  isTracked(need: string): boolean {
+    return this.resources.some(resource => resource.provides.includes(need));
+  }
+
+  // Why the resource can't be used in the window; empty when it can
+  conflicts(
+    resource: MaintenanceResource,
+    from: Date,
+    until: Date,
+    dimensions?: AircraftDimensions,
+    tentative: TentativeBooking[] = []
+  ): string[] {
+    const conflicts: string[] = [];
+    if (resource.outOfService) conflicts.push('out of service');
+    if (resource.calibrationDue && resource.calibrationDue < until) {
+      conflicts.push(`calibration ${resource.calibrationDue < from ? 'expired' : 'runs out'} ${formatDate(resource.calibrationDue)}`);
+    }
+    const fit = resource.bay && dimensions ? bayFitProblem(resource.bay, dimensions) : null;
+    if (fit) conflicts.push(fit);
+    [...this.activeBookings(resource.id), ...tentative.filter(booking => booking.resourceId === resource.id)]
+      .filter(booking => overlaps(from, until, booking.bookedFrom, booking.bookedUntil))
+      .forEach(booking => conflicts.push(`booked for ${booking.recommendationId} until ${booking.bookedUntil.toISOString()}`));
+    return conflicts;
+  }
+
+  availability(resourceId: string, from: Date, until: Date): ResourceAvailability | undefined {
+    const resource = this.resources.find(candidate => candidate.id === resourceId);
+    if (!resource) return undefined;
+    const conflicts = this.conflicts(resource, from, until);
+    return {
+      resource,
+      available: conflicts.length === 0,
+      conflicts,
+      bookings: this.getBookings({ resourceId, from, until })
+    };
+  }
+
+  // Pick an item for every tracked need without reserving anything; smallest fitting bay first
+  plan(request: ResourceRequest, tentative: TentativeBooking[] = []): ResourcePlan {
+    const plan: ResourcePlan = { allocations: [], untracked: [], problems: [], blockedBy: [] };
+    const needs = request.needs.filter((need, index) => request.needs.indexOf(need) === index);
+
+    for (const need of needs) {
+      const candidates = this.resources
+        .filter(resource => resource.provides.includes(need))
+        .sort((a, b) => need === HANGAR_BAY ? bayArea(a) - bayArea(b) : 0);
+      if (candidates.length === 0) {
+        plan.untracked.push(need);
+        continue;
+      }
+
+      const free = candidates.find(resource =>
+        this.conflicts(resource, request.from, request.until, request.dimensions, tentative).length === 0);
+      if (free) {
+        plan.allocations.push({ need, resource: free });
+        continue;
+      }
+
+      const reasons = candidates.map(resource =>
+        `${resource.name} (${this.conflicts(resource, request.from, request.until, request.dimensions, tentative).join(', ')})`);
+      plan.problems.push(`no ${need} available: ${reasons.join('; ')}`);
+      [...this.bookings.filter(booking => ACTIVE_STATUSES.includes(booking.status)), ...tentative]
+        .filter(booking => candidates.some(resource => resource.id === booking.resourceId))
+        .filter(booking => overlaps(request.from, request.until, booking.bookedFrom, booking.bookedUntil))
+        .filter(booking => !plan.blockedBy.includes(booking.recommendationId))
+        .forEach(booking => plan.blockedBy.push(booking.recommendationId));
+    }
+    return plan;
+  }
+
+  // Reserve everything the request needs or nothing; throws listing every need that can't be met
+  async reserve(request: ResourceRequest): Promise<ResourceBooking[]> {
+    if (!(request.until > request.from)) {
+      throw new Error(`Cannot reserve resources for ${request.recommendationId}: the booking must end after it starts`);
+    }
+    await this.refresh();
+    const plan = this.plan(request);
+    if (plan.problems.length > 0) {
+      throw new Error(`Cannot reserve resources for ${request.recommendationId}: ${plan.problems.join('; ')}`);
+    }
+
+    const booked = plan.allocations
+      .filter((allocation, index) =>
+        plan.allocations.findIndex(other => other.resource.id === allocation.resource.id) === index)
+      .map(({ resource }) => ({
+        id: `book-${request.recommendationId}-${resource.id}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        resourceId: resource.id,
+        resourceType: resource.type,
+        resourceName: resource.name,
+        bookedFrom: request.from,
+        bookedUntil: request.until,
+        bookedBy: request.bookedBy || 'Maintenance Scheduler',
+        recommendationId: request.recommendationId,
+        status: 'RESERVED' as ResourceBooking['status']
+      }));
+    await (await this.getStore()).saveBookings(booked);
+    this.bookings.push(...booked);
+    return booked;
+  }
+
+  // Free everything held for the work; COMPLETED once it's done, CANCELLED when it won't happen
+  async release(recommendationId: string, status: 'COMPLETED' | 'CANCELLED' = 'COMPLETED'): Promise<ResourceBooking[]> {
+    await this.refresh();
+    const released = this.bookings
+      .filter(booking => booking.recommendationId === recommendationId && ACTIVE_STATUSES.includes(booking.status))
+      .map(booking => ({ ...booking, status }));
+    await (await this.getStore()).saveBookings(released);
+    this.bookings = this.bookings.map(booking => released.find(other => other.id === booking.id) || booking);
+    return released;
+  }
+
+  getBookings(filter: { recommendationId?: string; resourceId?: string; from?: Date; until?: Date; includeReleased?: boolean } = {}): ResourceBooking[] {
+    return this.bookings
+      .filter(booking => filter.includeReleased || ACTIVE_STATUSES.includes(booking.status))
+      .filter(booking => !filter.recommendationId || booking.recommendationId === filter.recommendationId)
+      .filter(booking => !filter.resourceId || booking.resourceId === filter.resourceId)
+      .filter(booking => !filter.from || booking.bookedUntil > filter.from)
+      .filter(booking => !filter.until || booking.bookedFrom < filter.until)
+      .sort((a, b) => a.bookedFrom.getTime() - b.bookedFrom.getTime());
+  }
+
+  private activeBookings(resourceId: string): ResourceBooking[] {
+    return this.bookings.filter(booking => booking.resourceId === resourceId && ACTIVE_STATUSES.includes(booking.status));
+  }
+}
+
+// Store selection: Supabase when configured, otherwise in memory
+let resourceBookingStore: ResourceBookingStore | null = null;
+
+export async function getResourceBookingStore(): Promise<ResourceBookingStore> {
+  if (resourceBookingStore) return resourceBookingStore;
+
+  if (process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY && process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    // Imported lazily: lib/supabase throws when its environment variables are missing
+    const { supabaseAdmin } = await import('./supabase');
+    resourceBookingStore = new SupabaseResourceBookingStore(supabaseAdmin);
+  } else {
+    console.log('🗄️  Supabase not configured, using in-memory resource booking store');
+    resourceBookingStore = new InMemoryResourceBookingStore();
+  }
+
+  return resourceBookingStore;
+}
+
+// Allows tests and scripts to swap in their own implementation
+export function setResourceBookingStore(store: ResourceBookingStore | null): void {
+  resourceBookingStore = store;
+}
+
+// Shared calendar, so the scheduler sees what approved workflows have already reserved
+let resourceCalendar: ResourceCalendar | null = null;
+
+export function getResourceCalendar(): ResourceCalendar {
+  if (!resourceCalendar) resourceCalendar = new ResourceCalendar();
+  return resourceCalendar;
+}
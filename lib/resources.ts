@@ -0,0 +1,98 @@
+/**
+ * Resource Registry
+ * Hangar bays, lifts, jacks, ground support equipment and calibrated tooling, from data/resources.json.
+ * - Matched to work by name: `provides` lists the checklist equipment and task card tools an item stands in for,
+ *   and every hangar provides a "Hangar Bay"
+ * - Bay sizes are usable floor space and door height, with wingtip clearance already taken off
+ * - calibrationDue is when an item's calibration (for jacks, the load test) runs out
+ * - Bookings against the registry live in lib/resource-calendar.ts
+ */
+
+import type { AircraftDimensions } from './maintenance-programs';
+import resourceData from '@/data/resources.json';
+
+export type ResourceType = 'HANGAR' | 'LIFT' | 'JACK' | 'GSE' | 'TOOLS';
+
+export interface HangarBay {
+  lengthFt: number;
+  widthFt: number;
+  doorHeightFt: number;
+}
+
+export interface MaintenanceResource {
+  id: string;
+  type: ResourceType;
+  name: string;
+  location?: string;
+  provides: string[];
+  bay?: HangarBay; // hangars only
+  serialNumber?: string;
+  calibrationDue?: Date;
+  outOfService?: boolean;
+  notes?: string;
+}
+
+export const RESOURCE_TYPES: ResourceType[] = ['HANGAR', 'LIFT', 'JACK', 'GSE', 'TOOLS'];
+export const HANGAR_BAY = 'Hangar Bay';
+
+const isString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+const isPositive = (value: unknown) => typeof value === 'number' && isFinite(value) && value > 0;
+
+// Check every entry; throws listing every problem found
+export function validateResources(raw: any, source = 'resources'): MaintenanceResource[] {
+  const issues: string[] = [];
+  const entries: any[] = Array.isArray(raw?.resources) ? raw.resources : [];
+  if (!Array.isArray(raw?.resources)) issues.push('resources must be an array');
+
+  const ids = new Set<string>();
+  entries.forEach((resource, index) => {
+    const path = `resources[${index}]`;
+    if (!isString(resource?.id)) return issues.push(`${path}.id is required`);
+    if (ids.has(resource.id)) issues.push(`${path}.id "${resource.id}" is duplicated`);
+    ids.add(resource.id);
+    if (!isString(resource.name)) issues.push(`${path}.name is required`);
+    if (!RESOURCE_TYPES.includes(resource.type)) issues.push(`${path}.type must be one of ${RESOURCE_TYPES.join(', ')}`);
+    if (!Array.isArray(resource.provides) || resource.provides.some((need: unknown) => !isString(need))) {
+      issues.push(`${path}.provides must be a list of names`);
+    } else if (resource.type !== 'HANGAR' && resource.provides.length === 0) {
+      issues.push(`${path}.provides must name what the ${resource.type.toLowerCase()} is used as`);
+    }
+    if (resource.type === 'HANGAR') {
+      ['lengthFt', 'widthFt', 'doorHeightFt']
+        .filter(dimension => !isPositive(resource.bay?.[dimension]))
+        .forEach(dimension => issues.push(`${path}.bay.${dimension} must be a positive number`));
+    }
+    if (resource.calibrationDue !== undefined && isNaN(new Date(resource.calibrationDue).getTime())) {
+      issues.push(`${path}.calibrationDue must be a date`);
+    }
+  });
+
+  if (issues.length > 0) {
+    throw new Error(`Invalid ${source}: ${issues.join('; ')}`);
+  }
+  return entries.map(resource => ({
+    ...resource,
+    provides: resource.type === 'HANGAR' ? [HANGAR_BAY, ...resource.provides] : resource.provides,
+    calibrationDue: resource.calibrationDue ? new Date(resource.calibrationDue) : undefined
+  }));
+}
+
+const resources = validateResources(resourceData, 'resources.json');
+
+export function listResources(): MaintenanceResource[] {
+  return resources;
+}
+
+export function findResource(id: string): MaintenanceResource | undefined {
+  return resources.find(resource => resource.id === id);
+}
+
+// Why the aircraft can't go in the bay; null when it fits
+export function bayFitProblem(bay: HangarBay, dimensions: AircraftDimensions): string | null {
+  const tooBig = [
+    dimensions.lengthFt > bay.lengthFt ? `length ${dimensions.lengthFt} ft > ${bay.lengthFt} ft` : null,
+    dimensions.wingspanFt > bay.widthFt ? `wingspan ${dimensions.wingspanFt} ft > ${bay.widthFt} ft` : null,
+    dimensions.heightFt > bay.doorHeightFt ? `height ${dimensions.heightFt} ft > door ${bay.doorHeightFt} ft` : null
+  ].filter(Boolean);
+  return tooBig.length > 0 ? `too small (${tooBig.join(', ')})` : null;
+}
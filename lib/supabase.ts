@@ -44,8 +44,15 @@ export type Database = {
           total_cycles: number;
           is_active: boolean;
           certificate_of_airworthiness: string | null;
+          passenger_seats: number | null;
           last_inspection_date: string;
           next_inspection_due: string;
+          flight_status: string;
+          engine_time_tracking: string;
+          hobbs_time: number | null;
+          tacho_time: number | null;
+          icao_address: string | null;
+          installed_components: Record<string, unknown>[] | null;
           created_at: string;
           updated_at: string;
         };
@@ -60,8 +67,15 @@ export type Database = {
           total_cycles?: number;
           is_active?: boolean;
           certificate_of_airworthiness?: string | null;
+          passenger_seats?: number | null;
           last_inspection_date: string;
           next_inspection_due: string;
+          flight_status?: string;
+          engine_time_tracking?: string;
+          hobbs_time?: number | null;
+          tacho_time?: number | null;
+          icao_address?: string | null;
+          installed_components?: Record<string, unknown>[] | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -76,8 +90,15 @@ export type Database = {
           total_cycles?: number;
           is_active?: boolean;
           certificate_of_airworthiness?: string | null;
+          passenger_seats?: number | null;
           last_inspection_date?: string;
           next_inspection_due?: string;
+          flight_status?: string;
+          engine_time_tracking?: string;
+          hobbs_time?: number | null;
+          tacho_time?: number | null;
+          icao_address?: string | null;
+          installed_components?: Record<string, unknown>[] | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -93,8 +114,11 @@ export type Database = {
           interval_calendar: number | null;
           last_completed_at: string | null;
           last_completed_hours: number | null;
+          last_completed_cycles: number | null;
           next_due_at: string;
           next_due_hours: number;
+          next_due_cycles: number | null;
+          tolerance: Record<string, unknown> | null;
           is_overdue: boolean;
           priority: string;
           estimated_downtime: number;
@@ -112,8 +136,11 @@ export type Database = {
           interval_calendar?: number | null;
           last_completed_at?: string | null;
           last_completed_hours?: number | null;
+          last_completed_cycles?: number | null;
           next_due_at: string;
           next_due_hours: number;
+          next_due_cycles?: number | null;
+          tolerance?: Record<string, unknown> | null;
           is_overdue?: boolean;
           priority: string;
           estimated_downtime: number;
@@ -131,8 +158,11 @@ export type Database = {
           interval_calendar?: number | null;
           last_completed_at?: string | null;
           last_completed_hours?: number | null;
+          last_completed_cycles?: number | null;
           next_due_at?: string;
           next_due_hours?: number;
+          next_due_cycles?: number | null;
+          tolerance?: Record<string, unknown> | null;
           is_overdue?: boolean;
           priority?: string;
           estimated_downtime?: number;
@@ -200,6 +230,507 @@ export type Database = {
           updated_at?: string;
         };
       };
+      airworthiness_directives: {
+        Row: {
+          id: string;
+          type: string;
+          number: string;
+          title: string;
+          description: string | null;
+          authority: string;
+          category: string;
+          effective_date: string;
+          applicability: Record<string, unknown>;
+          recurrence: string;
+          initial_compliance: Record<string, unknown>;
+          repeat_interval: Record<string, unknown> | null;
+          methods_of_compliance: string[];
+          mandatory: boolean;
+          estimated_downtime: number;
+          estimated_cost: number;
+          superseded_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          type: string;
+          number: string;
+          title: string;
+          description?: string | null;
+          authority: string;
+          category: string;
+          effective_date: string;
+          applicability: Record<string, unknown>;
+          recurrence: string;
+          initial_compliance: Record<string, unknown>;
+          repeat_interval?: Record<string, unknown> | null;
+          methods_of_compliance?: string[];
+          mandatory?: boolean;
+          estimated_downtime: number;
+          estimated_cost: number;
+          superseded_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          type?: string;
+          number?: string;
+          title?: string;
+          description?: string | null;
+          authority?: string;
+          category?: string;
+          effective_date?: string;
+          applicability?: Record<string, unknown>;
+          recurrence?: string;
+          initial_compliance?: Record<string, unknown>;
+          repeat_interval?: Record<string, unknown> | null;
+          methods_of_compliance?: string[];
+          mandatory?: boolean;
+          estimated_downtime?: number;
+          estimated_cost?: number;
+          superseded_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      directive_compliance: {
+        Row: {
+          id: string;
+          directive_id: string;
+          aircraft_id: string;
+          status: string;
+          method_of_compliance: string | null;
+          compliance_date: string | null;
+          compliance_hours: number | null;
+          compliance_cycles: number | null;
+          next_due_date: string | null;
+          next_due_hours: number | null;
+          next_due_cycles: number | null;
+          performed_by: string | null;
+          work_order_id: string | null;
+          notes: string | null;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          directive_id: string;
+          aircraft_id: string;
+          status: string;
+          method_of_compliance?: string | null;
+          compliance_date?: string | null;
+          compliance_hours?: number | null;
+          compliance_cycles?: number | null;
+          next_due_date?: string | null;
+          next_due_hours?: number | null;
+          next_due_cycles?: number | null;
+          performed_by?: string | null;
+          work_order_id?: string | null;
+          notes?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          directive_id?: string;
+          aircraft_id?: string;
+          status?: string;
+          method_of_compliance?: string | null;
+          compliance_date?: string | null;
+          compliance_hours?: number | null;
+          compliance_cycles?: number | null;
+          next_due_date?: string | null;
+          next_due_hours?: number | null;
+          next_due_cycles?: number | null;
+          performed_by?: string | null;
+          work_order_id?: string | null;
+          notes?: string | null;
+          updated_at?: string;
+        };
+      };
+      components: {
+        Row: {
+          id: string;
+          part_number: string;
+          serial_number: string;
+          description: string;
+          category: string;
+          component_type: string;
+          manufacture_date: string | null;
+          last_overhaul_date: string | null;
+          tsn: number;
+          csn: number;
+          tso: number | null;
+          cso: number | null;
+          accrued_through: string | null;
+          life_limits: Record<string, unknown>[];
+          installed_aircraft_id: string | null;
+          installed_position: string | null;
+          installed_at: string | null;
+          install_aircraft_hours: number | null;
+          install_aircraft_cycles: number | null;
+          overhaul_cost: number | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          part_number: string;
+          serial_number: string;
+          description: string;
+          category: string;
+          component_type: string;
+          manufacture_date?: string | null;
+          last_overhaul_date?: string | null;
+          tsn?: number;
+          csn?: number;
+          tso?: number | null;
+          cso?: number | null;
+          accrued_through?: string | null;
+          life_limits: Record<string, unknown>[];
+          installed_aircraft_id?: string | null;
+          installed_position?: string | null;
+          installed_at?: string | null;
+          install_aircraft_hours?: number | null;
+          install_aircraft_cycles?: number | null;
+          overhaul_cost?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          part_number?: string;
+          serial_number?: string;
+          description?: string;
+          category?: string;
+          component_type?: string;
+          manufacture_date?: string | null;
+          last_overhaul_date?: string | null;
+          tsn?: number;
+          csn?: number;
+          tso?: number | null;
+          cso?: number | null;
+          accrued_through?: string | null;
+          life_limits?: Record<string, unknown>[];
+          installed_aircraft_id?: string | null;
+          installed_position?: string | null;
+          installed_at?: string | null;
+          install_aircraft_hours?: number | null;
+          install_aircraft_cycles?: number | null;
+          overhaul_cost?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      component_events: {
+        Row: {
+          id: string;
+          component_id: string;
+          aircraft_id: string | null;
+          type: string;
+          position: string | null;
+          event_date: string;
+          aircraft_hours: number | null;
+          aircraft_cycles: number | null;
+          tsn: number;
+          csn: number;
+          tso: number | null;
+          cso: number | null;
+          reason: string | null;
+          performed_by: string | null;
+          work_order_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          component_id: string;
+          aircraft_id?: string | null;
+          type: string;
+          position?: string | null;
+          event_date: string;
+          aircraft_hours?: number | null;
+          aircraft_cycles?: number | null;
+          tsn: number;
+          csn: number;
+          tso?: number | null;
+          cso?: number | null;
+          reason?: string | null;
+          performed_by?: string | null;
+          work_order_id?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          component_id?: string;
+          aircraft_id?: string | null;
+          type?: string;
+          position?: string | null;
+          event_date?: string;
+          aircraft_hours?: number | null;
+          aircraft_cycles?: number | null;
+          tsn?: number;
+          csn?: number;
+          tso?: number | null;
+          cso?: number | null;
+          reason?: string | null;
+          performed_by?: string | null;
+          work_order_id?: string | null;
+          created_at?: string;
+        };
+      };
+      flights: {
+        Row: {
+          id: string;
+          aircraft_id: string;
+          flight_date: string;
+          departure_airport: string;
+          departure_time: string;
+          off_time: string | null;
+          departure_hobbs: number | null;
+          arrival_airport: string;
+          arrival_time: string;
+          on_time: string | null;
+          arrival_hobbs: number | null;
+          block_time: number;
+          flight_time: number;
+          cycles: number;
+          max_altitude: number;
+          average_speed: number;
+          fuel_used: number | null;
+          distance: number;
+          route: string[] | null;
+          pilot_in_command: string;
+          second_in_command: string | null;
+          notes: string | null;
+          data_source: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          aircraft_id: string;
+          flight_date: string;
+          departure_airport: string;
+          departure_time: string;
+          off_time?: string | null;
+          departure_hobbs?: number | null;
+          arrival_airport: string;
+          arrival_time: string;
+          on_time?: string | null;
+          arrival_hobbs?: number | null;
+          block_time: number;
+          flight_time: number;
+          cycles: number;
+          max_altitude: number;
+          average_speed: number;
+          fuel_used?: number | null;
+          distance: number;
+          route?: string[] | null;
+          pilot_in_command: string;
+          second_in_command?: string | null;
+          notes?: string | null;
+          data_source?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          aircraft_id?: string;
+          flight_date?: string;
+          departure_airport?: string;
+          departure_time?: string;
+          off_time?: string | null;
+          departure_hobbs?: number | null;
+          arrival_airport?: string;
+          arrival_time?: string;
+          on_time?: string | null;
+          arrival_hobbs?: number | null;
+          block_time?: number;
+          flight_time?: number;
+          cycles?: number;
+          max_altitude?: number;
+          average_speed?: number;
+          fuel_used?: number | null;
+          distance?: number;
+          route?: string[] | null;
+          pilot_in_command?: string;
+          second_in_command?: string | null;
+          notes?: string | null;
+          data_source?: string | null;
+          created_at?: string;
+        };
+      };
+      position_reports: {
+        Row: {
+          id: string;
+          aircraft_id: string;
+          tail_number: string;
+          reported_at: string;
+          latitude: number;
+          longitude: number;
+          altitude: number;
+          ground_speed: number;
+          track: number;
+          vertical_rate: number;
+          is_on_ground: boolean;
+          flight_phase: string;
+          data_source: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          aircraft_id: string;
+          tail_number: string;
+          reported_at: string;
+          latitude: number;
+          longitude: number;
+          altitude: number;
+          ground_speed: number;
+          track: number;
+          vertical_rate: number;
+          is_on_ground: boolean;
+          flight_phase: string;
+          data_source: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          aircraft_id?: string;
+          tail_number?: string;
+          reported_at?: string;
+          latitude?: number;
+          longitude?: number;
+          altitude?: number;
+          ground_speed?: number;
+          track?: number;
+          vertical_rate?: number;
+          is_on_ground?: boolean;
+          flight_phase?: string;
+          data_source?: string;
+          created_at?: string;
+        };
+      };
+      scheduled_jobs: {
+        Row: {
+          id: string;
+          type: string;
+          payload: Record<string, any>;
+          run_at: string;
+          status: string;
+          attempts: number;
+          max_attempts: number;
+          idempotency_key: string | null;
+          every_seconds: number | null;
+          locked_until: string | null;
+          last_run_at: string | null;
+          last_error: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          type: string;
+          payload?: Record<string, any>;
+          run_at: string;
+          status?: string;
+          attempts?: number;
+          max_attempts?: number;
+          idempotency_key?: string | null;
+          every_seconds?: number | null;
+          locked_until?: string | null;
+          last_run_at?: string | null;
+          last_error?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          type?: string;
+          payload?: Record<string, any>;
+          run_at?: string;
+          status?: string;
+          attempts?: number;
+          max_attempts?: number;
+          idempotency_key?: string | null;
+          every_seconds?: number | null;
+          locked_until?: string | null;
+          last_run_at?: string | null;
+          last_error?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      audit_trail: {
+        Row: {
+          id: string;
+          timestamp: string;
+          action: string;
+          actor: string;
+          actor_type: string;
+          details: string;
+          data_changes: Record<string, any> | null;
+          ip_address: string | null;
+          session_id: string | null;
+          compliance_relevant: boolean;
+        };
+        Insert: {
+          id: string;
+          timestamp: string;
+          action: string;
+          actor: string;
+          actor_type: string;
+          details: string;
+          data_changes?: Record<string, any> | null;
+          ip_address?: string | null;
+          session_id?: string | null;
+          compliance_relevant?: boolean;
+        };
+        Update: {
+          id?: string;
+          timestamp?: string;
+          action?: string;
+          actor?: string;
+          actor_type?: string;
+          details?: string;
+          data_changes?: Record<string, any> | null;
+          ip_address?: string | null;
+          session_id?: string | null;
+          compliance_relevant?: boolean;
+        };
+      };
+      resource_bookings: {
+        Row: {
+          id: string;
+          resource_id: string;
+          resource_type: string;
+          resource_name: string;
+          booked_from: string;
+          booked_until: string;
+          booked_by: string;
+          recommendation_id: string;
+          status: string;
+        };
+        Insert: {
+          id: string;
+          resource_id: string;
+          resource_type: string;
+          resource_name: string;
+          booked_from: string;
+          booked_until: string;
+          booked_by: string;
+          recommendation_id: string;
+          status?: string;
+        };
+        Update: {
+          id?: string;
+          resource_id?: string;
+          resource_type?: string;
+          resource_name?: string;
+          booked_from?: string;
+          booked_until?: string;
+          booked_by?: string;
+          recommendation_id?: string;
+          status?: string;
+        };
+      };
     };
     Views: {
       [_ in never]: never;
@@ -0,0 +1,218 @@
+/**
+ * Task Assignment
+ * Picks people from the personnel roster for the work of an approved maintenance workflow.
+ * - Qualified: the right role, a skill level at or above the hardest task card, IA where a card needs it,
+ *   every required certification, and a license that is still current when the work ends
+ * - Free: on shift for every hour of the work, not on time off while it runs, and no overlapping open assignment;
+ *   work longer than the shift it starts in carries over into the person's next shifts
+ * - The earliest start at or after the requested time wins, trying shift starts up to two weeks out;
+ *   among people free then, the least booked and then the least over-qualified is chosen
+ * - When nobody fits, the error says why each candidate was passed over
+ */
+
+import { MaintenanceUser, ShiftPattern } from '@/types';
+import type { MaintenanceTask } from './maintenance-tasks';
+import { listPersonnel } from './personnel';
+
+export interface StaffingRequirement {
+  label: string; // e.g. "lead mechanic for C_CHECK", used in error messages
+  roles: MaintenanceUser['role'][];
+  skillLevel?: MaintenanceTask['skillLevel'];
+  requiresIA?: boolean;
+  certifications?: string[];
+  permission?: string;
+  exclude?: string[]; // person ids that may not take it, e.g. the mechanic when staffing the inspection
+}
+
+// Work already assigned to someone
+export interface BookedWork {
+  personId: string;
+  start: Date;
+  end: Date;
+}
+
+export interface Staffing {
+  person: MaintenanceUser;
+  start: Date;
+  end: Date;
+  shifts: { start: Date; end: Date }[]; // the hours worked, split across the person's shifts
+}
+
+const SKILL_ORDER: MaintenanceTask['skillLevel'][] = ['BASIC', 'INTERMEDIATE', 'ADVANCED', 'SPECIALIST'];
+const DAYS: ShiftPattern['days'] = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+const SEARCH_DAYS = 14;
+
+const skillRank = (level?: MaintenanceTask['skillLevel']) => level ? SKILL_ORDER.indexOf(level) : -1;
+const minutesOfDay = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+const startOfUtcDay = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+const overlaps = (start: Date, end: Date, otherStart: Date, otherEnd: Date) => start < otherEnd && otherStart < end;
+
+// Hardest skill level, IA and certifications across a set of task cards
+export function requirementsForTasks(tasks: MaintenanceTask[]): Pick<StaffingRequirement, 'skillLevel' | 'requiresIA' | 'certifications'> {
+  const skillLevel = tasks.reduce<MaintenanceTask['skillLevel'] | undefined>(
+    (hardest, task) => skillRank(task.skillLevel) > skillRank(hardest) ? task.skillLevel : hardest, undefined);
+  const certifications = tasks.reduce<string[]>((all, task) =>
+    all.concat((task.requiredCertifications || []).filter(certification => !all.includes(certification))), []);
+  return { skillLevel, requiresIA: tasks.some(task => task.requiresIA), certifications };
+}
+
+// Why the person cannot take the work at all; empty when qualified
+export function qualificationGaps(person: MaintenanceUser, requirement: StaffingRequirement, workEnds: Date): string[] {
+  const gaps: string[] = [];
+  if (!person.isActive) gaps.push('not active');
+  if (!requirement.roles.includes(person.role)) gaps.push(`is a ${person.role.toLowerCase()}`);
+  if (requirement.exclude?.includes(person.id)) gaps.push('already on this work');
+  if (requirement.permission && !person.permissions.includes(requirement.permission)) {
+    gaps.push(`no ${requirement.permission} permission`);
+  }
+  if (requirement.skillLevel && skillRank(person.skillLevel) < skillRank(requirement.skillLevel)) {
+    gaps.push(`skill ${person.skillLevel || 'unrated'} below ${requirement.skillLevel}`);
+  }
+  if (requirement.requiresIA && !person.certifications.includes('IA')) gaps.push('no Inspection Authorization');
+  const missing = (requirement.certifications || []).filter(certification => !person.certifications.includes(certification));
+  if (missing.length > 0) gaps.push(`missing ${missing.join(', ')} certification`);
+  if (person.licenseExpiration && person.licenseExpiration <= workEnds) {
+    gaps.push(`license expires ${formatDate(person.licenseExpiration)}`);
+  }
+  return gaps;
+}
+
+// Shifts worked on a calendar day, including the part of one that runs past midnight
+function shiftsStartingOn(person: MaintenanceUser, day: Date): { start: Date; end: Date }[] {
+  return (person.shifts || [])
+    .filter(shift => shift.days.includes(DAYS[day.getUTCDay()]))
+    .map(shift => {
+      const start = new Date(day.getTime() + minutesOfDay(shift.start) * MINUTE_MS);
+      const end = new Date(day.getTime() + minutesOfDay(shift.end) * MINUTE_MS);
+      return { start, end: end <= start ? new Date(end.getTime() + DAY_MS) : end };
+    });
+}
+
+// People without shifts can be booked at any time
+export function isOnShift(person: MaintenanceUser, at: Date): boolean {
+  if (!person.shifts?.length) return true;
+  const today = startOfUtcDay(at);
+  return [new Date(today.getTime() - DAY_MS), today].some(day =>
+    shiftsStartingOn(person, day).some(shift => shift.start <= at && at < shift.end));
+}
+
+// Shifts overlapping [from, until], merged where one runs straight into the next
+function shiftsBetween(person: MaintenanceUser, from: Date, until: Date): { start: Date; end: Date }[] {
+  const shifts: { start: Date; end: Date }[] = [];
+  for (let day = new Date(startOfUtcDay(from).getTime() - DAY_MS); day <= until; day = new Date(day.getTime() + DAY_MS)) {
+    shifts.push(...shiftsStartingOn(person, day).filter(shift => shift.end > from && shift.start <= until));
+  }
+  return shifts
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .reduce<{ start: Date; end: Date }[]>((merged, shift) => {
+      const last = merged[merged.length - 1];
+      if (last && shift.start <= last.end) {
+        if (shift.end > last.end) last.end = shift.end;
+      } else {
+        merged.push({ ...shift });
+      }
+      return merged;
+    }, []);
+}
+
+// First moment of [start, end] the person is off shift, if any
+function offShiftAt(person: MaintenanceUser, start: Date, end: Date): Date | undefined {
+  if (!person.shifts?.length) return undefined;
+  const shift = shiftsBetween(person, start, end).find(shift => shift.start <= start);
+  if (!shift) return start;
+  return shift.end < end ? shift.end : undefined;
+}
+
+// The work split across the person's shifts from its start, each shift taking what it has room for.
+// Hours that cannot be placed (an off-shift start, or more than two weeks of shifts) come back as one
+// period after the last shift, which availabilityConflicts reports as off shift.
+export function workShifts(person: MaintenanceUser, start: Date, durationHours: number): { start: Date; end: Date }[] {
+  let remaining = Math.max(durationHours, 0) * HOUR_MS;
+  if (!person.shifts?.length) return [{ start, end: new Date(start.getTime() + remaining) }];
+
+  const periods: { start: Date; end: Date }[] = [];
+  for (const shift of shiftsBetween(person, start, new Date(start.getTime() + SEARCH_DAYS * DAY_MS))) {
+    if (periods.length === 0 && shift.start > start) break;
+    const from = periods.length === 0 ? start : shift.start;
+    const until = new Date(Math.min(shift.end.getTime(), from.getTime() + remaining));
+    periods.push({ start: from, end: until });
+    remaining -= until.getTime() - from.getTime();
+    if (remaining <= 0) return periods;
+  }
+  const from = periods.length > 0 ? periods[periods.length - 1].end : start;
+  return periods.concat({ start: from, end: new Date(from.getTime() + remaining) });
+}
+
+function shiftStartsBetween(person: MaintenanceUser, from: Date, until: Date): Date[] {
+  const starts: Date[] = [];
+  for (let day = startOfUtcDay(from); day <= until; day = new Date(day.getTime() + DAY_MS)) {
+    shiftsStartingOn(person, day)
+      .filter(shift => shift.start >= from && shift.start <= until)
+      .forEach(shift => starts.push(shift.start));
+  }
+  return starts;
+}
+
+// Why the person cannot take the work in that window; empty when free
+export function availabilityConflicts(person: MaintenanceUser, start: Date, end: Date, booked: BookedWork[] = []): string[] {
+  const conflicts: string[] = [];
+  const offShift = offShiftAt(person, start, end);
+  if (offShift) conflicts.push(`off shift at ${offShift.toISOString()}`);
+  (person.timeOff || [])
+    .filter(timeOff => overlaps(start, end, timeOff.from, timeOff.until))
+    .forEach(timeOff => conflicts.push(`${timeOff.reason || 'time off'} until ${formatDate(timeOff.until)}`));
+  booked
+    .filter(work => work.personId === person.id && overlaps(start, end, work.start, work.end))
+    .forEach(work => conflicts.push(`assigned elsewhere until ${work.end.toISOString()}`));
+  return conflicts;
+}
+
+// Earliest qualified, free person for the work; throws saying why each candidate was passed over
+export function findAssignee(
+  requirement: StaffingRequirement,
+  desiredStart: Date,
+  durationHours: number,
+  booked: BookedWork[] = [],
+  roster: MaintenanceUser[] = listPersonnel()
+): Staffing {
+  const duration = Math.max(durationHours, 0) * HOUR_MS;
+  const desiredEnd = new Date(desiredStart.getTime() + duration);
+  const inRole = roster.filter(person => requirement.roles.includes(person.role));
+  const qualified = roster.filter(person => qualificationGaps(person, requirement, desiredEnd).length === 0);
+
+  if (qualified.length === 0) {
+    const reasons = inRole.map(person => `${person.name} (${qualificationGaps(person, requirement, desiredEnd).join(', ')})`);
+    throw new Error(`No one on the roster is qualified as ${requirement.label}` +
+      (reasons.length > 0 ? `: ${reasons.join('; ')}` : ` (nobody is a ${requirement.roles.join(' or ').toLowerCase()})`));
+  }
+
+  const searchUntil = new Date(desiredStart.getTime() + SEARCH_DAYS * DAY_MS);
+  const candidateStarts = qualified
+    .reduce<Date[]>((starts, person) => starts.concat(shiftStartsBetween(person, desiredStart, searchUntil)), [desiredStart])
+    .sort((a, b) => a.getTime() - b.getTime());
+  const bookings = (person: MaintenanceUser) => booked.filter(work => work.personId === person.id).length;
+  // The person on the work from that start, and what keeps them from it
+  const attempt = (person: MaintenanceUser, start: Date) => {
+    const shifts = workShifts(person, start, durationHours);
+    const conflicts = shifts.flatMap(shift => availabilityConflicts(person, shift.start, shift.end, booked));
+    return { person, start, end: shifts[shifts.length - 1].end, shifts, conflicts: Array.from(new Set(conflicts)) };
+  };
+
+  for (const start of candidateStarts) {
+    const free = qualified
+      .map(person => attempt(person, start))
+      .filter(option => option.conflicts.length === 0 && qualificationGaps(option.person, requirement, option.end).length === 0)
+      .sort((a, b) => bookings(a.person) - bookings(b.person) || skillRank(a.person.skillLevel) - skillRank(b.person.skillLevel));
+    if (free.length > 0) {
+      const { person, end, shifts } = free[0];
+      return { person, start, end, shifts };
+    }
+  }
+
+  const reasons = qualified.map(person => `${person.name} (${attempt(person, desiredStart).conflicts.join(', ')})`);
+  throw new Error(`No qualified ${requirement.label} is free within ${SEARCH_DAYS} days of ${desiredStart.toISOString()}: ${reasons.join('; ')}`);
+}
@@ -0,0 +1,242 @@
+/**
+ * Track History
+ * Stores every position report from the tracking stream and rebuilds flight tracks from them.
+ * - One report per position update, keyed by aircraft and contact time so replays of the same data don't duplicate
+ * - A flight's track is the aircraft's reports between block out and block in (or now, for a flight in progress)
+ * - Tracks export as GeoJSON (RFC 7946, altitudes in metres) or KML with a time-stamped gx:Track for Google Earth
+ */
+
+import { FlightData, FlightHistory, FlightTrack, PositionReport } from '@/types';
+import { FlightTrackingEvent, FlightTrackingService, getFlightTrackingService } from './flight-tracking';
+import { FleetRepository, getFleetRepository } from './fleet-repository';
+import { getFlightSegmentDetector } from './flight-log';
+
+const FEET_TO_METRES = 0.3048;
+const TRACK_PADDING_MS = 60 * 1000; // a minute either side so the first taxi and last rollout reports are included
+const UNKNOWN_TAIL_RETRY_MS = 60 * 1000; // how long a tail that isn't in the fleet is skipped before looking it up again
+
+export class TrackRecorder {
+  private aircraftIds = new Map<string, string>(); // tail number -> fleet id
+  private unknownTails = new Map<string, number>(); // tail number -> when it was last found missing from the fleet
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(private getRepository: () => Promise<FleetRepository> = getFleetRepository) {}
+
+  // Start recording a tracking service's position updates; returns a function that detaches again
+  attach(service: FlightTrackingService): () => void {
+    this.detach();
+    this.unsubscribe = service.subscribe(event => {
+      this.handleEvent(event).catch(error =>
+        console.error(`Failed to store position report for ${event.tailNumber}:`, error));
+    }, { types: ['POSITION_UPDATE'] });
+    return () => this.detach();
+  }
+
+  detach() {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  async handleEvent(event: FlightTrackingEvent) {
+    if (event.type !== 'POSITION_UPDATE') return;
+
+    const repository = await this.getRepository();
+    const aircraftId = await this.resolveAircraftId(repository, event.tailNumber);
+    if (!aircraftId) return;
+
+    await repository.savePositionReports([toPositionReport(aircraftId, event.flightData, event.position.flightPhase)]);
+  }
+
+  // Tracking ids are tail numbers, so reports are matched to the fleet the same way detected flights are.
+  // A tail that isn't in the fleet is looked up again after a minute, so aircraft added later start recording.
+  private async resolveAircraftId(repository: FleetRepository, tailNumber: string): Promise<string | null> {
+    const key = tailNumber.toUpperCase();
+    if (this.aircraftIds.has(key)) return this.aircraftIds.get(key);
+    if (Date.now() - (this.unknownTails.get(key) ?? -Infinity) < UNKNOWN_TAIL_RETRY_MS) return null;
+
+    const aircraft = await repository.findAircraftByTailNumber(tailNumber);
+    if (!aircraft) {
+      this.unknownTails.set(key, Date.now());
+      return null;
+    }
+    this.unknownTails.delete(key);
+    this.aircraftIds.set(key, aircraft.id);
+    return aircraft.id;
+  }
+}
+
+export function toPositionReport(aircraftId: string, flightData: FlightData, flightPhase: PositionReport['flightPhase']): PositionReport {
+  const timestamp = new Date(flightData.lastContact);
+  return {
+    id: `pos-${aircraftId}-${timestamp.getTime()}`,
+    aircraftId,
+    tailNumber: flightData.tailNumber,
+    timestamp,
+    latitude: flightData.latitude,
+    longitude: flightData.longitude,
+    altitude: flightData.altitude,
+    groundSpeed: flightData.groundSpeed,
+    track: flightData.track,
+    verticalRate: flightData.verticalRate,
+    isOnGround: flightData.isOnGround,
+    flightPhase,
+    dataSource: flightData.dataSource
+  };
+}
+
+export async function getTrack(
+  repository: FleetRepository,
+  aircraftId: string,
+  tailNumber: string,
+  from: Date,
+  to: Date,
+  flightId?: string
+): Promise<FlightTrack> {
+  return {
+    flightId,
+    aircraftId,
+    tailNumber,
+    from,
+    to,
+    reports: await repository.listPositionReports(aircraftId, from, to)
+  };
+}
+
+// Track of a logged flight, or of the flight still open on the detector (e.g. landed but not yet parked);
+// null when neither has the id
+export async function getFlightTrack(repository: FleetRepository, flightId: string, now: Date = new Date()): Promise<FlightTrack | null> {
+  const logged = (await repository.listFlights()).find(flight => flight.id === flightId);
+  if (logged) {
+    const aircraft = await repository.getAircraft(logged.aircraftId);
+    return getTrack(
+      repository,
+      logged.aircraftId,
+      aircraft?.tailNumber || logged.aircraftId.toUpperCase(),
+      new Date(new Date(logged.departure.time).getTime() - TRACK_PADDING_MS),
+      new Date(new Date(logged.arrival.time).getTime() + TRACK_PADDING_MS),
+      flightId
+    );
+  }
+
+  // Flight ids are flt-<tail>-<wheels off ms>
+  const match = /^flt-(.+)-(\d+)$/.exec(flightId);
+  if (!match) return null;
+  const aircraft = await repository.findAircraftByTailNumber(match[1]);
+  const open = aircraft && getFlightSegmentDetector().getOpenFlight(aircraft.tailNumber);
+  if (!aircraft || !open?.off || open.off.getTime() !== Number(match[2])) return null;
+
+  return getTrack(repository, aircraft.id, aircraft.tailNumber, new Date(open.out.getTime() - TRACK_PADDING_MS), now, flightId);
+}
+
+// Most recent logged flight of an aircraft
+export async function getLatestFlight(repository: FleetRepository, aircraftId: string): Promise<FlightHistory | undefined> {
+  const flights = await repository.listFlights(aircraftId);
+  return flights[flights.length - 1];
+}
+
+// GeoJSON: the trail as a LineString plus one Point per report carrying the time and flight parameters
+export function toTrackGeoJSON(track: FlightTrack) {
+  const coordinates = track.reports.map(report => [
+    report.longitude,
+    report.latitude,
+    Math.round(report.altitude * FEET_TO_METRES)
+  ]);
+
+  return {
+    type: 'FeatureCollection' as const,
+    features: [
+      {
+        type: 'Feature' as const,
+        geometry: { type: 'LineString' as const, coordinates },
+        properties: {
+          flightId: track.flightId ?? null,
+          aircraftId: track.aircraftId,
+          tailNumber: track.tailNumber,
+          from: track.from.toISOString(),
+          to: track.to.toISOString(),
+          reportCount: track.reports.length
+        }
+      },
+      ...track.reports.map((report, index) => ({
+        type: 'Feature' as const,
+        geometry: { type: 'Point' as const, coordinates: coordinates[index] },
+        properties: {
+          time: new Date(report.timestamp).toISOString(),
+          altitudeFeet: report.altitude,
+          groundSpeed: report.groundSpeed,
+          track: report.track,
+          verticalRate: report.verticalRate,
+          isOnGround: report.isOnGround,
+          flightPhase: report.flightPhase,
+          dataSource: report.dataSource
+        }
+      }))
+    ]
+  };
+}
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// KML: a gx:Track so Google Earth's time slider replays the flight, with absolute altitudes in metres
+export function toTrackKml(track: FlightTrack): string {
+  const name = escapeXml(track.flightId ? `${track.tailNumber} ${track.flightId}` : track.tailNumber);
+  const whens = track.reports.map(report => `        <when>${new Date(report.timestamp).toISOString()}</when>`);
+  const coords = track.reports.map(report =>
+    `        <gx:coord>${report.longitude} ${report.latitude} ${Math.round(report.altitude * FEET_TO_METRES)}</gx:coord>`);
+  const fields: [string, string, string, (report: PositionReport) => string | number][] = [
+    ['altitudeFeet', 'float', 'Altitude (ft)', report => report.altitude],
+    ['groundSpeed', 'float', 'Ground speed (kt)', report => report.groundSpeed],
+    ['verticalRate', 'float', 'Vertical rate (fpm)', report => report.verticalRate],
+    ['flightPhase', 'string', 'Flight phase', report => report.flightPhase]
+  ];
+  const data = (field: string, values: (string | number)[]) => [
+    `          <gx:SimpleArrayData name="${field}">`,
+    ...values.map(value => `            <gx:value>${value}</gx:value>`),
+    '          </gx:SimpleArrayData>'
+  ];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">',
+    '  <Document>',
+    `    <name>${name}</name>`,
+    '    <Schema id="trackData">',
+    ...fields.map(([field, type, label]) =>
+      `      <gx:SimpleArrayField name="${field}" type="${type}"><displayName>${label}</displayName></gx:SimpleArrayField>`),
+    '    </Schema>',
+    '    <Style id="track"><LineStyle><color>ffeb6325</color><width>3</width></LineStyle></Style>',
+    '    <Placemark>',
+    `      <name>${name}</name>`,
+    `      <TimeSpan><begin>${track.from.toISOString()}</begin><end>${track.to.toISOString()}</end></TimeSpan>`,
+    '      <styleUrl>#track</styleUrl>',
+    '      <gx:Track>',
+    '        <altitudeMode>absolute</altitudeMode>',
+    ...whens,
+    ...coords,
+    '        <ExtendedData>',
+    '          <SchemaData schemaUrl="#trackData">',
+    ...fields.reduce<string[]>((lines, [field, , , value]) => lines.concat(data(field, track.reports.map(value))), []),
+    '          </SchemaData>',
+    '        </ExtendedData>',
+    '      </gx:Track>',
+    '    </Placemark>',
+    '  </Document>',
+    '</kml>',
+    ''
+  ].join('\n');
+}
+
+// Shared recorder on the shared tracking service
+let trackRecorder: TrackRecorder | null = null;
+
+export function getTrackRecorder(): TrackRecorder {
+  if (trackRecorder) return trackRecorder;
+
+  trackRecorder = new TrackRecorder();
+  trackRecorder.attach(getFlightTrackingService());
+  return trackRecorder;
+}
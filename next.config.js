@@ -1,5 +1,10 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {}
+const nextConfig = {
+  experimental: {
+    // instrumentation.ts loads the maintenance program registry at startup
+    instrumentationHook: true
+  }
+}
 
 // Trigger fresh deployment with latest fixes
 module.exports = nextConfig // Force fresh deployment
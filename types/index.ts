@@ -10,6 +10,7 @@ export interface Aircraft {
   totalCycles: number;
   isActive: boolean;
   certificateOfAirworthiness?: string;
+  passengerSeats?: number; // seating configuration excluding crew; selects the FAR 135.411 inspection program
   lastInspectionDate: Date;
   nextInspectionDue: Date;
   createdAt: Date;
@@ -31,6 +32,71 @@ export interface Aircraft {
     equipmentType: string;
     lastSeen?: Date;
   };
+  // Engines, propellers and appliances, matched against AD/SB applicability
+  installedComponents?: InstalledComponent[];
+}
+
+export interface InstalledComponent {
+  partNumber: string;
+  serialNumber?: string;
+  description?: string;
+  position?: string; // e.g. "Engine 1", "APU"
+  batteryExpiresAt?: Date; // ELTs: battery replacement date marked on the transmitter (FAR 91.207(c))
+}
+
+// Serialized component tracked through its life across aircraft (engines, APUs, landing gear)
+export interface TrackedComponent {
+  id: string;
+  partNumber: string;
+  serialNumber: string;
+  description: string;
+  category: MaintenancePart['category']; // LIFE_LIMITED or ROTABLE
+  componentType: 'ENGINE' | 'APU' | 'LANDING_GEAR' | 'PROPELLER' | 'OTHER';
+  manufactureDate?: Date;
+  lastOverhaulDate?: Date;
+  // Time and cycles since new and since overhaul, accrued through `accruedThrough`
+  tsn: number;
+  csn: number;
+  tso?: number;
+  cso?: number;
+  accruedThrough?: Date;
+  lifeLimits: ComponentLifeLimit[];
+  installedOn?: {
+    aircraftId: string;
+    position: string;
+    installedAt: Date;
+    aircraftHours: number; // airframe totals at installation
+    aircraftCycles: number;
+  };
+  overhaulCost?: number;
+  updatedAt: Date;
+}
+
+// TSN limits run from manufacture, TSO limits from the last overhaul
+export interface ComponentLifeLimit {
+  basis: 'TSN' | 'TSO';
+  action: 'OVERHAUL' | 'RETIRE' | 'INSPECT';
+  hours?: number;
+  cycles?: number;
+  calendarDays?: number;
+}
+
+export interface ComponentEvent {
+  id: string;
+  componentId: string;
+  aircraftId?: string;
+  type: 'INSTALL' | 'REMOVE' | 'OVERHAUL';
+  position?: string;
+  date: Date;
+  aircraftHours?: number;
+  aircraftCycles?: number;
+  tsn: number;
+  csn: number;
+  tso?: number;
+  cso?: number;
+  reason?: string;
+  performedBy?: string;
+  workOrderId?: string;
 }
 
 // Maintenance Interval Types
@@ -39,21 +105,42 @@ export interface MaintenanceInterval {
   aircraftId: string;
   intervalType: 'A_CHECK' | '2A_CHECK' | '3A_CHECK' | '4A_CHECK' | '5A_CHECK' | '10A_CHECK' | 
                'C_CHECK' | '2C_CHECK' | '3C_CHECK' | '4C_CHECK' | '5C_CHECK' | '6C_CHECK' | '8C_CHECK' |
-               'ANNUAL' | 'PROGRESSIVE' | '100_HOUR' | 'DAILY';
+               'ANNUAL' | 'PROGRESSIVE' | '100_HOUR' | 'DAILY' | 'ELT' | 'ALTIMETER_TRANSPONDER' |
+               'AD' | 'SB' | 'COMPONENT';
   description: string;
+  directiveId?: string; // set on AD/SB due items derived from the directive registry
+  componentId?: string; // set on life-limit items derived from the component registry
   intervalHours?: number; // flight hours
   intervalCycles?: number;
   intervalCalendar?: number; // days
   lastCompletedAt?: Date;
   lastCompletedHours?: number;
+  lastCompletedCycles?: number;
   nextDueAt: Date;
   nextDueHours: number;
+  nextDueCycles?: number;
+  tolerance?: MaintenanceTolerance; // falls back to the program default for the interval type
   isOverdue: boolean;
   priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
   estimatedDowntime: number; // hours
   estimatedCost: number;
 }
 
+// Permitted deviation from a due point; PERCENT is a percentage of the interval
+export interface ToleranceBand {
+  early?: number;
+  late?: number;
+  unit?: 'ABSOLUTE' | 'PERCENT';
+}
+
+export interface MaintenanceTolerance {
+  hours?: ToleranceBand;
+  cycles?: ToleranceBand;
+  calendarDays?: ToleranceBand;
+  // How the next due point is set once the check is signed off
+  rebase: 'FROM_COMPLETION' | 'FROM_DUE' | 'FROM_DUE_WITHIN_TOLERANCE';
+}
+
 // Work Order Types
 export interface WorkOrder {
   id: string;
@@ -107,17 +194,81 @@ export interface MaintenanceSignOff {
 export interface ComplianceItem {
   id: string;
   aircraftId: string;
-  regulationType: 'PART_135' | 'PART_91' | 'PART_145';
+  ruleId: string; // compliance rule module that produced the item
+  regulationType: 'PART_135' | 'PART_91' | 'PART_39' | 'PART_145';
   regulation: string; // e.g., "135.411", "135.419"
   description: string;
-  dueDate: Date;
+  dueDate?: Date; // unknown when there is no record to measure from
   completedDate?: Date;
-  status: 'CURRENT' | 'DUE_SOON' | 'OVERDUE' | 'COMPLETED';
+  status: 'CURRENT' | 'DUE_SOON' | 'OVERDUE' | 'COMPLETED' | 'NO_RECORD';
   recurrenceInterval?: number; // days
   responsible: string;
+  evidence: ComplianceEvidence[];
   notes?: string;
 }
 
+// Record a compliance finding was based on
+export interface ComplianceEvidence {
+  source: 'AIRCRAFT' | 'INTERVAL' | 'WORK_ORDER' | 'DIRECTIVE_RECORD';
+  reference: string; // aircraft, interval, work order or compliance record id
+  description: string;
+  date?: Date;
+}
+
+// Airworthiness Directives and Service Bulletins
+export interface DirectiveApplicability {
+  make?: string;
+  models?: string[];
+  // Serial ranges apply to the matching installed part when partNumbers is set, otherwise to the airframe
+  serialRanges?: { from?: string; to?: string }[];
+  partNumbers?: string[];
+}
+
+// Compliance limits measured from effectivity (initial) or the last compliance (repeat)
+export interface DirectiveComplianceLimit {
+  hours?: number;
+  cycles?: number;
+  calendarDays?: number;
+}
+
+export interface AirworthinessDirective {
+  id: string;
+  type: 'AD' | 'SB';
+  number: string; // e.g. "2023-14-07" or "G550-32-123"
+  title: string;
+  description?: string;
+  authority: string; // e.g. FAA, EASA or the manufacturer for SBs
+  category: 'AIRFRAME' | 'ENGINE' | 'PROPELLER' | 'APPLIANCE';
+  effectiveDate: Date;
+  applicability: DirectiveApplicability;
+  recurrence: 'ONE_TIME' | 'RECURRING';
+  initialCompliance: DirectiveComplianceLimit;
+  repeatInterval?: DirectiveComplianceLimit; // required for RECURRING
+  methodsOfCompliance: string[];
+  mandatory: boolean; // ADs always; SBs only when adopted by the operator
+  estimatedDowntime: number; // hours
+  estimatedCost: number;
+  supersededBy?: string; // directive id
+}
+
+export interface DirectiveComplianceRecord {
+  id: string;
+  directiveId: string;
+  aircraftId: string;
+  status: 'OPEN' | 'RECURRING' | 'COMPLIED' | 'NOT_APPLICABLE' | 'TERMINATED';
+  methodOfCompliance?: string;
+  complianceDate?: Date;
+  complianceHours?: number;
+  complianceCycles?: number;
+  nextDueDate?: Date;
+  nextDueHours?: number;
+  nextDueCycles?: number;
+  performedBy?: string;
+  workOrderId?: string;
+  notes?: string;
+  updatedAt: Date;
+}
+
 // AI Assistant Types
 export interface MaintenanceAssistantMessage {
   id: string;
@@ -158,6 +309,9 @@ export interface MaintenanceMetrics {
 }
 
 // User Management (for maintenance personnel)
+// Positions that may approve maintenance; Part 135.37 names the Director of Maintenance and Chief Inspector
+export type ApprovalRole = 'DIRECTOR_OF_MAINTENANCE' | 'CHIEF_INSPECTOR' | 'MAINTENANCE_MANAGER';
+
 export interface MaintenanceUser {
   id: string;
   email: string;
@@ -168,6 +322,23 @@ export interface MaintenanceUser {
   certifications: string[];
   isActive: boolean;
   permissions: string[];
+  approvalRoles?: ApprovalRole[];
+  skillLevel?: 'BASIC' | 'INTERMEDIATE' | 'ADVANCED' | 'SPECIALIST';
+  shifts?: ShiftPattern[]; // none means no shift restriction
+  timeOff?: TimeOff[];
+}
+
+// Recurring shift; times are UTC "HH:MM", and an end before the start runs past midnight
+export interface ShiftPattern {
+  days: ('SUN' | 'MON' | 'TUE' | 'WED' | 'THU' | 'FRI' | 'SAT')[];
+  start: string;
+  end: string;
+}
+
+export interface TimeOff {
+  from: Date;
+  until: Date;
+  reason?: string;
 }
 
 // Pilot Reports (integration with flight operations)
@@ -199,6 +370,8 @@ export interface FlightData {
   groundSpeed: number; // knots
   track: number; // degrees
   verticalRate: number; // feet per minute
+  indicatedAirspeed?: number; // knots, only from providers that report it (ADS-B)
+  mach?: number;
   isOnGround: boolean;
   lastContact: Date;
   // Flight status
@@ -237,12 +410,14 @@ export interface FlightHistory {
   flightDate: Date;
   departure: {
     airport: string;
-    time: Date;
+    time: Date; // block out
+    offTime?: Date; // wheels off
     hobbs?: number; // engine hours at departure
   };
   arrival: {
     airport: string;
-    time: Date;
+    time: Date; // block in
+    onTime?: Date; // wheels on
     hobbs?: number; // engine hours at arrival
   };
   blockTime: number; // minutes
@@ -256,6 +431,33 @@ export interface FlightHistory {
   pilotInCommand: string;
   secondInCommand?: string;
   notes?: string;
+  dataSource?: FlightData['dataSource']; // set when the flight was detected from tracking data
+}
+
+// One stored observation of an aircraft's position; a flight's track is its reports between block out and block in
+export interface PositionReport {
+  id: string;
+  aircraftId: string;
+  tailNumber: string;
+  timestamp: Date;
+  latitude: number;
+  longitude: number;
+  altitude: number; // feet
+  groundSpeed: number; // knots
+  track: number; // degrees true
+  verticalRate: number; // feet per minute
+  isOnGround: boolean;
+  flightPhase: AircraftPosition['flightPhase'];
+  dataSource: FlightData['dataSource'];
+}
+
+export interface FlightTrack {
+  flightId?: string;
+  aircraftId: string;
+  tailNumber: string;
+  from: Date;
+  to: Date;
+  reports: PositionReport[]; // oldest first
 }
 
 // Flight Planning & Operations Integration
@@ -289,7 +491,7 @@ export interface FlightPlan {
 export interface FlightBasedAlert {
   id: string;
   aircraftId: string;
-  alertType: 'HARD_LANDING' | 'EXCESSIVE_G_FORCE' | 'ENGINE_PARAMETER' | 'MAINTENANCE_DUE' | 'FLIGHT_TIME_LIMIT';
+  alertType: 'HARD_LANDING' | 'EXCESSIVE_G_FORCE' | 'OVERSPEED' | 'SPEED_LIMIT' | 'ENGINE_PARAMETER' | 'MAINTENANCE_DUE' | 'FLIGHT_TIME_LIMIT';
   severity: 'INFO' | 'WARNING' | 'CAUTION' | 'ALERT';
   message: string;
   flightId?: string;
@@ -302,4 +504,5 @@ export interface FlightBasedAlert {
   acknowledgedAt?: Date;
   requiresAction: boolean;
   maintenanceRequired?: boolean;
+  workOrderId?: string; // conditional inspection opened for the alert
 } 
\ No newline at end of file
@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+import { fileURLToPath } from 'url';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('.', import.meta.url)) }
+  },
+  test: {
+    environment: 'node',
+    include: ['**/__tests__/**/*.test.ts']
+  }
+});